@@ -5,34 +5,7 @@
 
 import { readFileSync } from 'fs';
 import JSZip from 'jszip';
-import { XMLParser } from 'fast-xml-parser';
-
-const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: "@_"
-});
-
-function deepParseAllXml(obj: any): void {
-    if (!obj || typeof obj !== 'object') return;
-
-    Object.keys(obj).forEach(key => {
-        const val = obj[key];
-        if (typeof val === 'string' && val.trim().startsWith('<?xml') || 
-            (typeof val === 'string' && val.trim().startsWith('<') && val.trim().endsWith('>'))) {
-            try {
-                const parsed = parser.parse(val);
-                obj[key] = parsed;
-                deepParseAllXml(obj[key]);
-            } catch (_e) {
-                // Not valid XML
-            }
-        } else if (Array.isArray(val)) {
-            val.forEach(item => deepParseAllXml(item));
-        } else if (typeof val === 'object') {
-            deepParseAllXml(val);
-        }
-    });
-}
+import { xmlParser as parser, deepParseAllXml } from '../src/lib/parsers/PackageXml';
 
 function countNestedObjects(obj: any, depth = 0): { maxDepth: number; totalKeys: number; xmlParsedFields: string[] } {
     if (!obj || typeof obj !== 'object') return { maxDepth: depth, totalKeys: 0, xmlParsedFields: [] };
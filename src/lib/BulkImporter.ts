@@ -0,0 +1,121 @@
+import JSZip from 'jszip';
+import { FileProcessor } from './FileProcessor';
+import { PackageParser, type PackageType } from './PackageParser';
+import type { EntryProgress } from './parsers/PackageXml';
+
+export interface BulkImportProgress {
+    /** Path of the entry being processed, relative to the dropped file or folder */
+    current: string;
+    done: number;
+    /** Grows as nested archives are opened */
+    total: number;
+    /** Entry being parsed inside the current package, reported by the parse worker */
+    entry?: EntryProgress;
+}
+
+export interface BulkImportSummary {
+    /** `reason` explains how the package type was detected */
+    imported: { name: string, type: PackageType, id: number, reason: string }[];
+    skipped: { name: string, reason: string }[];
+    failed: { name: string, error: string }[];
+    /** Entries not reached because the import was cancelled */
+    cancelled: number;
+}
+
+export interface BulkImportOptions {
+    onProgress?: (progress: BulkImportProgress) => void;
+    signal?: AbortSignal;
+}
+
+interface QueueEntry {
+    name: string;
+    load: () => Promise<Blob>;
+}
+
+/**
+ * Imports any mix of T1 packages, zipped export sets (nested to any depth) and
+ * folder selections. Each entry is identified by its archive content, so packages
+ * renamed to .zip or without an extension are still found; everything else is skipped.
+ */
+export class BulkImporter {
+    static async importFiles(files: File[], options: BulkImportOptions = {}): Promise<BulkImportSummary> {
+        const summary: BulkImportSummary = { imported: [], skipped: [], failed: [], cancelled: 0 };
+        const queue: QueueEntry[] = files.map(f => ({
+            // Folder selections carry the path inside the chosen folder
+            name: (f as any).webkitRelativePath || f.name,
+            load: async () => f
+        }));
+
+        let done = 0;
+        while (queue.length > 0) {
+            if (options.signal?.aborted) {
+                summary.cancelled = queue.length;
+                break;
+            }
+
+            const entry = queue.shift()!;
+            options.onProgress?.({ current: entry.name, done, total: done + queue.length + 1 });
+
+            try {
+                const blob = await entry.load();
+                const zip = await this.openZip(blob);
+                if (!zip) {
+                    if (PackageParser.getExtensionType(entry.name)) throw new Error('Not a valid package: the file is not a zip archive');
+                    summary.skipped.push({ name: entry.name, reason: 'Not a T1 package or zip archive' });
+                } else {
+                    const detection = PackageParser.detectPackageType(zip, entry.name);
+                    if (detection && !detection.manifest) {
+                        throw new Error(`Not a valid package: ${detection.reason}`);
+                    } else if (detection) {
+                        const file = blob instanceof File ? blob : new File([blob], this.baseName(entry.name));
+                        const id = await FileProcessor.processAndSave(file, detection.type, {
+                            signal: options.signal,
+                            onProgress: entryProgress => options.onProgress?.({ current: entry.name, done, total: done + queue.length + 1, entry: entryProgress })
+                        });
+                        summary.imported.push({ name: entry.name, type: detection.type, id, reason: detection.reason });
+                    } else {
+                        const children = this.listEntries(zip, entry.name);
+                        if (children.length === 0) {
+                            summary.skipped.push({ name: entry.name, reason: 'Archive contains no T1 packages' });
+                        }
+                        queue.push(...children);
+                    }
+                }
+            } catch (e: any) {
+                // Cancelled part-way through a package: it was not saved
+                if (options.signal?.aborted) {
+                    summary.cancelled = queue.length + 1;
+                    break;
+                }
+                console.error(`Failed to import ${entry.name}`, e);
+                summary.failed.push({ name: entry.name, error: e?.message || String(e) });
+            }
+            done++;
+        }
+
+        options.onProgress?.({ current: '', done, total: done + summary.cancelled });
+        return summary;
+    }
+
+    private static async openZip(blob: Blob): Promise<JSZip | null> {
+        try {
+            return await JSZip.loadAsync(blob);
+        } catch {
+            return null;
+        }
+    }
+
+    /** Files inside a container archive, excluding folders and OS metadata. */
+    private static listEntries(zip: JSZip, parentName: string): QueueEntry[] {
+        return Object.values(zip.files)
+            .filter(f => !f.dir && !f.name.startsWith('__MACOSX/') && !this.baseName(f.name).startsWith('.'))
+            .map(f => ({
+                name: `${parentName}/${f.name}`,
+                load: () => f.async('blob')
+            }));
+    }
+
+    private static baseName(path: string): string {
+        return path.split('/').pop() || path;
+    }
+}
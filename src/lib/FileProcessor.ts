@@ -1,205 +1,99 @@
-import JSZip from 'jszip';
-import { XMLParser } from 'fast-xml-parser';
+import type { Table } from 'dexie';
 import { db } from './db';
-
-import { DataModelParser } from './parsers/DataModelParser';
-import { DashboardParser } from './parsers/DashboardParser';
-
-const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: "@_"
-});
-
-/**
- * Recursively parse any string field that looks like XML.
- * This ensures ALL nested XML content is fully extracted.
- */
-function deepParseAllXml(obj: any): void {
-    if (!obj || typeof obj !== 'object') return;
-
-    Object.keys(obj).forEach(key => {
-        const val = obj[key];
-        if (typeof val === 'string' && val.trim().startsWith('<?xml') || 
-            (typeof val === 'string' && val.trim().startsWith('<') && val.trim().endsWith('>'))) {
-            try {
-                const parsed = parser.parse(val);
-                obj[key] = parsed;
-                // Recursively parse the newly parsed object
-                deepParseAllXml(obj[key]);
-            } catch (_e) {
-                // Not valid XML, leave as string
-            }
-        } else if (Array.isArray(val)) {
-            val.forEach(item => deepParseAllXml(item));
-        } else if (typeof val === 'object') {
-            deepParseAllXml(val);
-        }
-    });
-}
+import { PACKAGE_LABELS, type PackageParseOptions, type PackageType, type ParsedPackage } from './PackageParser';
+import { PackageStore } from './PackageStore';
+import { SearchIndex } from './SearchIndex';
+import { VersionHistory } from './VersionHistory';
+import { ParseWorkerClient } from './workers/ParseWorkerClient';
 
 export class FileProcessor {
-    static async processAndSave(file: File): Promise<number> {
-        console.log(`Processing ${file.name}...`);
-
-        if (file.name.toLowerCase().endsWith('.t1dm')) {
-            return this.processDataModel(file);
-        }
-
-        if (file.name.toLowerCase().endsWith('.t1db')) {
-            return this.processDashboard(file);
-        }
-
-        // 1. Unzip
-        const zip = await JSZip.loadAsync(file);
-        
-        // 2. Parse ALL XML files in the archive
-        const rawData: Record<string, any> = {};
-        
-        const xmlFiles = [
-            'Processes.xml',
-            'Steps.xml',
-            'Variables.xml',
-            'FileLocations.xml',
-            'Attachments.xml'
-        ];
-
-        for (const fileName of xmlFiles) {
-            const f = zip.file(fileName);
-            if (f) {
-                const content = await f.async('string');
-                try {
-                    const parsed = parser.parse(content);
-                    // Deep parse ALL nested XML strings recursively
-                    deepParseAllXml(parsed);
-                    rawData[fileName.replace('.xml', '')] = parsed;
-                } catch (e) {
-                    console.warn(`Failed to parse ${fileName}`, e);
-                }
-            }
+    /** Library table holding artifacts of a package type. */
+    static table(type: PackageType): Table<any, number> {
+        switch (type) {
+            case 'report': return db.reports;
+            case 'datamodel': return db.dataModels;
+            case 'dashboard': return db.dashboards;
+            case 'xlone': return db.xlOneReports;
+            case 'playlist': return db.playlists;
         }
+    }
 
-        if (!rawData.Processes) {
-            throw new Error('Invalid T1ETLP file: Processes.xml not found');
+    /**
+     * Saves a T1 package. Unzipping and parsing run in the parse worker (see
+     * `PackageParser`); only the database write happens on the main thread.
+     * `type` skips detection when the caller has already identified the package.
+     * The original archive is kept too, see `PackageStore`.
+     */
+    static async processAndSave(file: File, type?: PackageType, options: PackageParseOptions = {}): Promise<number> {
+        console.log(`Processing ${file.name}...`);
+        const parsed = await ParseWorkerClient.parse(file, type, options);
+        await this.carryForwardNotes(parsed);
+
+        const packageId = await PackageStore.save(file);
+        let id: number;
+        try {
+            id = await this.table(parsed.type).add({ ...parsed.record, packageId }) as number;
+        } catch (e) {
+            await PackageStore.delete(packageId);
+            throw e;
         }
 
-        // 3. Extract Basic Metadata
-        const procXml = rawData.Processes;
-        const rawProcs = procXml?.ArrayOfProcess?.Process || procXml?.Process?.ArrayOfProcess?.Process;
-        const procList = Array.isArray(rawProcs) ? rawProcs : (rawProcs ? [rawProcs] : []);
-
-        const getUnique = (arr: any[], key: string) => [...new Set(arr.map(x => x[key]).filter(Boolean))].join(', ');
-
-        const rawOwner = getUnique(procList, 'Owner') || 'N/A';
-        let publisher = rawOwner;
-        let publishedDate = getUnique(procList, 'DateSaved') || getUnique(procList, 'DateModified') || new Date().toISOString();
-        const narration = getUnique(procList, 'VersionNarration') || getUnique(procList, 'Narration') || '';
-
-        // Try to extract actual publisher and date from narration (e.g. "Published by MGUPTA on 28-Nov-2025 17:55:48")
-        if (narration && narration.includes('Published by ')) {
-            const match = narration.match(/Published by\s+([A-Za-z0-9_]+)(?:\s+on\s+([0-9]{1,2}-[A-Za-z]{3}-[0-9]{4}\s+[0-9:]{8}))?/i);
-            if (match) {
-                if (match[1]) publisher = match[1];
-                if (match[2]) publishedDate = match[2];
-            }
-        }
+        await this.updateSearchIndex(parsed.type, id, parsed.record);
+        console.log(`Saved ${PACKAGE_LABELS[parsed.type]} ${id} to DB`);
+        return id;
+    }
 
-        const metadata = {
-            name: getUnique(procList, 'Name') || 'N/A',
-            id: getUnique(procList, 'ProcessId') || 'N/A',
-            version: getUnique(procList, 'Version') || 'N/A',
-            owner: publisher,
-            description: getUnique(procList, 'Description') || 'N/A',
-            status: getUnique(procList, 'Status') || 'D',
-            narration: narration,
-            dateModified: publishedDate,
-            // HIGH VALUE fields
-            processType: getUnique(procList, 'ProcessType') || '$ETL',
-            parentPath: getUnique(procList, 'ParentFileItemPath') || ''
+    /**
+     * Rebuilds a saved artifact from its stored original with the current parsers.
+     * Notes, the import date and the version history position are kept; notes for
+     * steps the new parse no longer finds stay on the record rather than being lost.
+     * Returns false when the artifact predates stored originals.
+     */
+    static async reanalyse(type: PackageType, id: number, options: PackageParseOptions = {}): Promise<boolean> {
+        const table = this.table(type);
+        const existing = await table.get(id);
+        if (!existing) throw new Error(`${PACKAGE_LABELS[type]} ${id} is no longer in the library`);
+
+        const file = await PackageStore.load(existing.packageId);
+        if (!file) return false;
+
+        const parsed = await ParseWorkerClient.parse(file, type, options);
+        const record = {
+            ...parsed.record,
+            id,
+            dateAdded: existing.dateAdded,
+            stepNotes: existing.stepNotes,
+            packageId: existing.packageId
         };
-
-        // 4. Save to DB - now includes all parsed XML files
-        const reportId = await db.reports.add({
-            filename: file.name,
-            metadata,
-            rawProcess: rawData.Processes,
-            rawSteps: rawData.Steps || {},
-            rawVariables: rawData.Variables || {},
-            rawFileLocations: rawData.FileLocations || {},
-            rawAttachments: rawData.Attachments || {},
-            dateAdded: new Date()
-        });
-
-        console.log(`Saved report ${reportId} to DB`);
-        return reportId as number;
+        await table.put(record);
+        await this.updateSearchIndex(type, id, record);
+        return true;
     }
 
-    private static async processDataModel(file: File): Promise<number> {
-        const content = await DataModelParser.parse(file);
-
-        // Extract basic metadata safely
-        const dmDef = content.DataModel?.DataModelDef || content.DataModel?.DataModelDefinition || {};
-
-        // Extract ProcessMode deeply
-        const rootDef = dmDef.Definition?.DataModelDefinition || dmDef;
-        const processMode = rootDef.ProcessMode || 'N/A';
-
-        // Name Strategy:
-        // 1. Description from XML (usually the cleanest name)
-        // 2. Fallback to Filename, with GUID/Timestamp stripped
-        let cleanName = dmDef.Description;
-        if (!cleanName) {
-            cleanName = file.name.replace(/\.t1dm$/i, '');
-            // Remove GUID if present (e.g. _c2dfa917-7450-42b8-a5bb-f5802916cedc...)
-            cleanName = cleanName.replace(/_[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}.*$/, '');
+    /** The search index is derived data, so failing to update it does not fail the import. */
+    static async updateSearchIndex(type: PackageType, id: number, record: any): Promise<void> {
+        try {
+            await SearchIndex.indexRecord(type, id, record);
+        } catch (e) {
+            console.error(`Could not index ${PACKAGE_LABELS[type]} ${id} for search`, e);
         }
-
-        const metadata = {
-            name: cleanName,
-            id: dmDef.DataModelId || 'N/A',
-            description: dmDef.Description || 'Imported Data Model',
-            version: dmDef.Version || '1.0',
-            owner: dmDef.Owner || 'Unknown',
-            processMode: processMode,
-            dateModified: new Date().toISOString()
-        };
-
-        const id = await db.dataModels.add({
-            filename: file.name,
-            metadata,
-            content, // Parsed JSON of all XMLs
-            dateAdded: new Date()
-        });
-
-        console.log(`Saved Data Model ${id} to DB`);
-        return id as number;
     }
 
-    private static async processDashboard(file: File): Promise<number> {
-        const content = await DashboardParser.parse(file);
-
-        // Extract metadata from Dashboard.xml
-        const dashDef = content.Dashboard?.EntityDef || {};
-
-        // Name: Use Description as the primary name
-        const name = dashDef.Description || file.name.replace(/\.t1db$/i, '');
-
-        const metadata = {
-            name: name,
-            id: dashDef.GenericEntityId || 'N/A',
-            description: dashDef.Description || '',
-            owner: dashDef.Owner || 'Unknown',
-            parentPath: dashDef.ParentFileItemPath || '',
-            dateModified: new Date().toISOString()
-        };
-
-        const id = await db.dashboards.add({
-            filename: file.name,
-            metadata,
-            content, // Parsed JSON of all XMLs
-            dateAdded: new Date()
-        });
-
-        console.log(`Saved Dashboard ${id} to DB`);
-        return id as number;
+    /**
+     * A re-import of an artifact already in the library becomes its newest version;
+     * notes written against earlier versions follow the steps that still exist.
+     */
+    private static async carryForwardNotes(parsed: ParsedPackage): Promise<void> {
+        if (parsed.type !== 'report' && parsed.type !== 'datamodel') return;
+        const identity = VersionHistory.identityKey(parsed.record);
+        if (!identity) return;
+
+        const previous = parsed.type === 'report'
+            ? await db.reports.filter(r => VersionHistory.identityKey(r) === identity).toArray()
+            : await db.dataModels.filter(r => VersionHistory.identityKey(r) === identity).toArray();
+        if (previous.length === 0) return;
+
+        const stepNotes = VersionHistory.carryForwardNotes(parsed.type, previous, parsed.record);
+        if (Object.keys(stepNotes).length > 0) parsed.record.stepNotes = stepNotes;
     }
 }
@@ -0,0 +1,157 @@
+import type { Table } from 'dexie';
+import { db } from './db';
+
+/** Library tables included in a backup, in the order they are restored. */
+export const BACKUP_TABLES = ['reports', 'dataModels', 'dashboards', 'xlOneReports', 'playlists'] as const;
+export type BackupTable = typeof BACKUP_TABLES[number];
+
+export const BACKUP_VERSION = '1.0';
+const SUPPORTED_VERSIONS = [BACKUP_VERSION];
+
+export interface LibraryBackupFile {
+    generated: string;
+    version: string;
+    appVersion?: string;
+    library: Partial<Record<BackupTable, any[]>>;
+}
+
+/**
+ * - merge: artifacts already in the library are overwritten by the backup copy and
+ *   their notes combined (the backup note wins for the same step); new ones are added.
+ * - replace: the library is emptied first, so it ends up exactly as backed up.
+ * - skip-duplicates: only artifacts not already in the library are added.
+ */
+export type RestoreStrategy = 'merge' | 'replace' | 'skip-duplicates';
+
+export interface RestoreSummary {
+    added: number;
+    updated: number;
+    skipped: number;
+    invalid: { table: BackupTable, name: string, reason: string }[];
+}
+
+export class LibraryBackup {
+    static async createBackup(): Promise<LibraryBackupFile> {
+        const library: Partial<Record<BackupTable, any[]>> = {};
+        for (const table of BACKUP_TABLES) {
+            library[table] = await db[table].toArray();
+        }
+        return {
+            generated: new Date().toISOString(),
+            version: BACKUP_VERSION,
+            appVersion: '3.1',
+            library
+        };
+    }
+
+    /**
+     * Parses a backup file and checks its version and shape. Record-level problems
+     * are left to `restore`, so one damaged artifact does not block the rest.
+     */
+    static parseBackup(json: string): LibraryBackupFile {
+        let data: any;
+        try {
+            data = JSON.parse(json);
+        } catch {
+            throw new Error('Not a library backup: the file is not valid JSON');
+        }
+
+        if (!data || typeof data !== 'object' || !data.library || typeof data.library !== 'object') {
+            throw new Error('Not a library backup: no "library" section found');
+        }
+        if (!SUPPORTED_VERSIONS.includes(data.version)) {
+            throw new Error(`Unsupported backup version "${data.version ?? 'missing'}" (this version of the app reads ${SUPPORTED_VERSIONS.join(', ')})`);
+        }
+        for (const table of BACKUP_TABLES) {
+            if (data.library[table] !== undefined && !Array.isArray(data.library[table])) {
+                throw new Error(`Not a library backup: "${table}" is not a list`);
+            }
+        }
+        return data as LibraryBackupFile;
+    }
+
+    /** Number of artifacts in a backup, for the restore prompt. */
+    static countArtifacts(backup: LibraryBackupFile): number {
+        return BACKUP_TABLES.reduce((sum, table) => sum + (backup.library[table]?.length || 0), 0);
+    }
+
+    /**
+     * The artifact's own id (ProcessId, DataModelId, ...) identifies it across
+     * libraries; Dexie ids are local, so the filename is used when there is none.
+     * Each re-import is its own version row, so the artifact's Version is part of
+     * the key; rows sharing a key (no Version) are matched in import order.
+     */
+    static artifactKey(record: any): string {
+        const id = record?.metadata?.id;
+        if (!id || id === 'N/A') return `file:${record?.filename}`;
+        const version = record.metadata.version && record.metadata.version !== 'N/A' ? record.metadata.version : '';
+        return `id:${String(id).toLowerCase()}|${String(version).toLowerCase()}`;
+    }
+
+    static async restore(backup: LibraryBackupFile, strategy: RestoreStrategy): Promise<RestoreSummary> {
+        const summary: RestoreSummary = { added: 0, updated: 0, skipped: 0, invalid: [] };
+        const fallbackDate = new Date(backup.generated);
+
+        await db.transaction('rw', [...BACKUP_TABLES.map(t => db[t]), db.packages], async () => {
+            // Original packages are not in backups; a replaced library has no use for the old ones
+            if (strategy === 'replace') await db.packages.clear();
+
+            for (const tableName of BACKUP_TABLES) {
+                const table: Table<any, number> = db[tableName];
+                if (strategy === 'replace') await table.clear();
+
+                // Rows already in the library, each matched at most once and in import order (backups keep it too), so versions never overwrite each other
+                const existing = new Map<string, any[]>();
+                if (strategy !== 'replace') {
+                    (await table.toArray()).forEach(r => {
+                        const key = this.artifactKey(r);
+                        existing.set(key, [...(existing.get(key) || []), r]);
+                    });
+                }
+
+                for (const raw of backup.library[tableName] || []) {
+                    const problem = this.validateRecord(raw);
+                    if (problem) {
+                        summary.invalid.push({ table: tableName, name: raw?.metadata?.name || raw?.filename || '(unnamed)', reason: problem });
+                        continue;
+                    }
+
+                    // Dexie ids are only meaningful in the library that made the backup
+                    const record = { ...raw };
+                    delete record.id;
+                    delete record.packageId;
+                    record.dateAdded = this.reviveDate(record.dateAdded, fallbackDate);
+
+                    const match = existing.get(this.artifactKey(record))?.shift();
+                    if (match && strategy === 'skip-duplicates') {
+                        summary.skipped++;
+                    } else if (match) {
+                        const stepNotes = { ...(match.stepNotes || {}), ...(record.stepNotes || {}) };
+                        await table.put({ ...record, stepNotes, id: match.id, packageId: match.packageId });
+                        summary.updated++;
+                    } else {
+                        await table.add(record);
+                        summary.added++;
+                    }
+                }
+            }
+        });
+
+        return summary;
+    }
+
+    private static validateRecord(record: any): string | null {
+        if (!record || typeof record !== 'object') return 'Not an artifact record';
+        if (typeof record.filename !== 'string') return 'Missing filename';
+        if (!record.metadata || typeof record.metadata.name !== 'string') return 'Missing metadata';
+        if (record.stepNotes !== undefined && (typeof record.stepNotes !== 'object' || Array.isArray(record.stepNotes))) return 'Notes are not in the expected format';
+        return null;
+    }
+
+    /** JSON turns dates into ISO strings; the library sorts on real Dates. */
+    private static reviveDate(value: unknown, fallback: Date): Date {
+        const date = value instanceof Date ? value : new Date(value as string);
+        if (!isNaN(date.getTime())) return date;
+        return isNaN(fallback.getTime()) ? new Date() : fallback;
+    }
+}
@@ -0,0 +1,61 @@
+import { FileProcessor } from './FileProcessor';
+import { PARSER_VERSION, type PackageType } from './PackageParser';
+import type { BulkImportOptions } from './BulkImporter';
+import { describeError } from './parsers/ParseIssue';
+
+export interface ReanalyseSummary {
+    reanalysed: number;
+    skipped: { name: string, reason: string }[];
+    failed: { name: string, error: string }[];
+    /** Artifacts not reached because the run was cancelled */
+    cancelled: number;
+}
+
+const LIBRARY_TYPES: PackageType[] = ['report', 'datamodel', 'dashboard', 'xlone', 'playlist'];
+
+/**
+ * Runs the current parsers over every stored original in the library, so
+ * artifacts imported before a parser improvement pick it up. One artifact
+ * failing does not stop the rest; its previous analysis is left in place.
+ */
+export class LibraryReanalyser {
+    /** Artifacts built by an older parser than the one now running. */
+    static isOutdated(record: { parserVersion?: number }): boolean {
+        return (record.parserVersion ?? 1) < PARSER_VERSION;
+    }
+
+    static async reanalyseLibrary(options: BulkImportOptions = {}): Promise<ReanalyseSummary> {
+        const summary: ReanalyseSummary = { reanalysed: 0, skipped: [], failed: [], cancelled: 0 };
+
+        const queue: { type: PackageType, id: number, name: string }[] = [];
+        for (const type of LIBRARY_TYPES) {
+            (await FileProcessor.table(type).toArray()).forEach(r => queue.push({ type, id: r.id, name: r.metadata?.name || r.filename }));
+        }
+
+        for (let done = 0; done < queue.length; done++) {
+            if (options.signal?.aborted) {
+                summary.cancelled = queue.length - done;
+                break;
+            }
+
+            const { type, id, name } = queue[done]!;
+            options.onProgress?.({ current: name, done, total: queue.length });
+            try {
+                const reanalysed = await FileProcessor.reanalyse(type, id, {
+                    signal: options.signal,
+                    onProgress: entry => options.onProgress?.({ current: name, done, total: queue.length, entry })
+                });
+                if (reanalysed) summary.reanalysed++;
+                else summary.skipped.push({ name, reason: 'Imported before original packages were kept; re-import it to re-analyse' });
+            } catch (e) {
+                if (options.signal?.aborted) {
+                    summary.cancelled = queue.length - done;
+                    break;
+                }
+                summary.failed.push({ name, error: describeError(e) });
+            }
+        }
+
+        return summary;
+    }
+}
@@ -0,0 +1,399 @@
+import JSZip from 'jszip';
+import type { DataModel, Dashboard, XlOneReport, Playlist, Report } from './db';
+import { EtlParser } from './parsers/EtlParser';
+import { DataModelParser } from './parsers/DataModelParser';
+import { DashboardParser } from './parsers/DashboardParser';
+import { XlOneParser } from './parsers/XlOneParser';
+import { PlaylistParser } from './parsers/PlaylistParser';
+import { ParseIssueCollector, describeError } from './parsers/ParseIssue';
+import { readXmlEntries, type ParseContext } from './parsers/PackageXml';
+import { EtlModel } from './model/EtlModel';
+import { DataModelModel } from './model/DataModelModel';
+import { DashboardModel } from './model/DashboardModel';
+import { ComplexityScore } from './analysis/ComplexityScore';
+import { EtlSummaryGenerator } from './generators/EtlSummaryGenerator';
+
+export type PackageType = 'report' | 'datamodel' | 'dashboard' | 'xlone' | 'playlist';
+
+/** Root-level file that identifies each package type. */
+export const PACKAGE_MANIFESTS: Record<string, PackageType> = {
+    'Processes.xml': 'report',
+    'DataModel.xml': 'datamodel',
+    'Dashboard.xml': 'dashboard',
+    'Report.xml': 'xlone',
+    'Schedule.xml': 'playlist'
+};
+
+export const PACKAGE_EXTENSIONS: Record<string, PackageType> = {
+    '.t1etlp': 'report',
+    '.t1dm': 'datamodel',
+    '.t1db': 'dashboard',
+    '.t1xl': 'xlone',
+    '.t1pl': 'playlist'
+};
+
+export const PACKAGE_LABELS: Record<PackageType, string> = {
+    report: 'ETL',
+    datamodel: 'Data Model',
+    dashboard: 'Dashboard',
+    xlone: 'XLOne Report',
+    playlist: 'Playlist'
+};
+
+/**
+ * Bump whenever a parser change alters what gets stored, so "Re-analyse library"
+ * can tell which artifacts were built by an older parser. Records without a
+ * stamp predate it and count as version 1.
+ */
+export const PARSER_VERSION = 6;
+
+export interface PackageDetection {
+    type: PackageType;
+    /** Manifest that identified the package, or null when only the extension matched */
+    manifest: string | null;
+    /** Human-readable explanation shown to the user */
+    reason: string;
+}
+
+/** A package read into the record its library table stores, ready to save. */
+export type ParsedPackage =
+    | { type: 'report', record: Report }
+    | { type: 'datamodel', record: DataModel }
+    | { type: 'dashboard', record: Dashboard }
+    | { type: 'xlone', record: XlOneReport }
+    | { type: 'playlist', record: Playlist };
+
+export type PackageParseOptions = Omit<ParseContext, 'issues'>;
+
+/**
+ * Unzips and parses a package into its library record without touching the
+ * database, so it can run in the parse worker as well as on the main thread.
+ */
+export class PackageParser {
+    /**
+     * The parser is chosen by `type` when the caller has already identified the
+     * package (e.g. bulk import), otherwise by sniffing the archive manifest.
+     */
+    static async parse(file: File, type?: PackageType, options: PackageParseOptions = {}): Promise<ParsedPackage> {
+        const issues = new ParseIssueCollector();
+        const context: ParseContext = { ...options, issues };
+
+        let zip: JSZip | undefined;
+        let resolvedType = type;
+        if (!resolvedType) {
+            zip = await JSZip.loadAsync(file);
+            const detection = this.detectPackageType(zip, file.name);
+            if (!detection) {
+                throw new Error(`Unrecognised package ${file.name}: none of ${Object.keys(PACKAGE_MANIFESTS).join(', ')} found`);
+            }
+            resolvedType = detection.type;
+        }
+
+        let parsed: ParsedPackage;
+        switch (resolvedType) {
+            case 'datamodel':
+                parsed = { type: resolvedType, record: await this.buildDataModel(file, context) };
+                break;
+            case 'dashboard':
+                parsed = { type: resolvedType, record: await this.buildDashboard(file, context) };
+                break;
+            case 'xlone':
+                parsed = { type: resolvedType, record: await this.buildXlOne(file, context) };
+                break;
+            case 'playlist':
+                parsed = { type: resolvedType, record: await this.buildPlaylist(file, context) };
+                break;
+            default:
+                parsed = { type: 'report', record: await this.buildEtl(file, zip || await JSZip.loadAsync(file), context) };
+        }
+
+        parsed.record.parseIssues = issues.issues;
+        parsed.record.parserVersion = PARSER_VERSION;
+        return parsed;
+    }
+
+    /**
+     * T1 extension in a file name, case-insensitively and also when a gateway
+     * has appended another one (e.g. "Load GL.T1ETLP.bin").
+     */
+    static getExtension(fileName: string): string | null {
+        const matches = fileName.toLowerCase().match(/\.t1(etlp|dm|db|xl|pl)(?=\.|$)/g);
+        return matches ? matches[matches.length - 1]! : null;
+    }
+
+    static getExtensionType(fileName: string): PackageType | null {
+        const ext = this.getExtension(fileName);
+        return ext ? PACKAGE_EXTENSIONS[ext]! : null;
+    }
+
+    /**
+     * Identifies a package by the manifest at the root of the archive. The extension
+     * only decides between several manifests, or is used when there is none
+     * (the parser then reports the missing manifest). Returns null for archives
+     * that are neither, e.g. a zipped export set.
+     */
+    static detectPackageType(zip: JSZip, fileName: string): PackageDetection | null {
+        const manifests = Object.keys(PACKAGE_MANIFESTS).filter(name => zip.file(name));
+        const ext = this.getExtension(fileName);
+        const extType = ext ? PACKAGE_EXTENSIONS[ext]! : null;
+        const label = (type: PackageType) => PACKAGE_LABELS[type];
+
+        if (manifests.length === 0) {
+            if (!extType) return null;
+            return {
+                type: extType,
+                manifest: null,
+                reason: `No package manifest found (looked for ${Object.keys(PACKAGE_MANIFESTS).join(', ')}); using the ${ext} extension`
+            };
+        }
+
+        if (manifests.length > 1) {
+            const byExtension = manifests.find(m => PACKAGE_MANIFESTS[m] === extType);
+            const chosen = byExtension || manifests[0]!;
+            const type = PACKAGE_MANIFESTS[chosen]!;
+            return {
+                type,
+                manifest: chosen,
+                reason: `${manifests.join(' and ')} found; ${byExtension ? `the ${ext} extension chose ${label(type)}` : `${chosen} takes precedence`}`
+            };
+        }
+
+        const manifest = manifests[0]!;
+        const type = PACKAGE_MANIFESTS[manifest]!;
+        let reason = `${manifest} found`;
+        if (!ext) reason += ' (no T1 extension)';
+        else if (extType !== type) reason += ` (the ${ext} extension suggests ${label(extType!)} and was ignored)`;
+        return { type, manifest, reason };
+    }
+
+    private static async buildEtl(file: File, zip: JSZip, context: ParseContext): Promise<Report> {
+        const { issues } = context;
+
+        // 1. Parse ALL XML files in the archive
+        const xmlFiles = [
+            'Processes.xml',
+            'Steps.xml',
+            'Variables.xml',
+            'FileLocations.xml',
+            'Attachments.xml'
+        ];
+        // Missing optional entries are normal; these are reported
+        const requiredFiles = ['Processes.xml', 'Steps.xml'];
+
+        const rawData = await readXmlEntries(zip, xmlFiles, requiredFiles, context);
+
+        if (!rawData.Processes) {
+            throw new Error('Invalid T1ETLP file: Processes.xml not found');
+        }
+
+        // 2. Extract Basic Metadata
+        const procXml = rawData.Processes;
+        const rawProcs = procXml?.ArrayOfProcess?.Process || procXml?.Process?.ArrayOfProcess?.Process;
+        const procList = Array.isArray(rawProcs) ? rawProcs : (rawProcs ? [rawProcs] : []);
+        if (procList.length === 0) {
+            issues?.error('Processes.xml', '/ArrayOfProcess', 'No Process element found, so the process name and owner are unknown');
+        }
+        if (rawData.Steps && !rawData.Steps.ArrayOfStep?.Step) {
+            issues?.warning('Steps.xml', '/ArrayOfStep', 'No Step elements found, so the process has no steps to show');
+        }
+
+        const getUnique = (arr: any[], key: string) => [...new Set(arr.map(x => x[key]).filter(Boolean))].join(', ');
+
+        const rawOwner = getUnique(procList, 'Owner') || 'N/A';
+        let publisher = rawOwner;
+        let publishedDate = getUnique(procList, 'DateSaved') || getUnique(procList, 'DateModified') || new Date().toISOString();
+        const narration = getUnique(procList, 'VersionNarration') || getUnique(procList, 'Narration') || '';
+
+        // Try to extract actual publisher and date from narration (e.g. "Published by MGUPTA on 28-Nov-2025 17:55:48")
+        if (narration && narration.includes('Published by ')) {
+            const match = narration.match(/Published by\s+([A-Za-z0-9_]+)(?:\s+on\s+([0-9]{1,2}-[A-Za-z]{3}-[0-9]{4}\s+[0-9:]{8}))?/i);
+            if (match) {
+                if (match[1]) publisher = match[1];
+                if (match[2]) publishedDate = match[2];
+            }
+        }
+
+        const metadata = {
+            name: getUnique(procList, 'Name') || 'N/A',
+            id: getUnique(procList, 'ProcessId') || 'N/A',
+            version: getUnique(procList, 'Version') || 'N/A',
+            owner: publisher,
+            description: getUnique(procList, 'Description') || 'N/A',
+            status: getUnique(procList, 'Status') || 'D',
+            narration: narration,
+            dateModified: publishedDate,
+            // HIGH VALUE fields
+            processType: getUnique(procList, 'ProcessType') || '$ETL',
+            parentPath: getUnique(procList, 'ParentFileItemPath') || ''
+        };
+
+        // 3. Build the record - now includes all parsed XML files
+        const raw = {
+            rawProcess: rawData.Processes,
+            rawSteps: rawData.Steps || {},
+            rawVariables: rawData.Variables || {},
+            rawFileLocations: rawData.FileLocations || {},
+            rawAttachments: rawData.Attachments || {}
+        };
+        const record: Report = {
+            filename: file.name,
+            metadata,
+            ...raw,
+            model: EtlModel.normalise(raw),
+            dateAdded: new Date()
+        };
+
+        // Scored and summarised here so the library can sort and show ETL cards without parsing each one again
+        try {
+            record.complexity = ComplexityScore.ofReport(record);
+        } catch (e) {
+            issues?.warning('Steps.xml', '/ArrayOfStep', `The complexity score could not be worked out: ${describeError(e)}`);
+        }
+        try {
+            record.summary = EtlSummaryGenerator.generateSummary(EtlParser.parseSteps(record.rawSteps, 'business').executionFlow);
+        } catch (e) {
+            issues?.warning('Steps.xml', '/ArrayOfStep', `The summary could not be worked out: ${describeError(e)}`);
+        }
+        return record;
+    }
+
+
+    private static async buildDataModel(file: File, context: ParseContext): Promise<DataModel> {
+        const content = await DataModelParser.parse(file, context);
+
+        // Extract basic metadata safely
+        const dmDef = content.DataModel?.DataModelDef || content.DataModel?.DataModelDefinition || {};
+
+        // Extract ProcessMode deeply
+        const rootDef = dmDef.Definition?.DataModelDefinition || dmDef;
+        const processMode = rootDef.ProcessMode || 'N/A';
+
+        // Name Strategy:
+        // 1. Description from XML (usually the cleanest name)
+        // 2. Fallback to Filename, with GUID/Timestamp stripped
+        let cleanName = dmDef.Description;
+        if (!cleanName) {
+            cleanName = file.name.replace(/\.t1dm$/i, '');
+            // Remove GUID if present (e.g. _c2dfa917-7450-42b8-a5bb-f5802916cedc...)
+            cleanName = cleanName.replace(/_[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}.*$/, '');
+        }
+
+        const metadata = {
+            name: cleanName,
+            id: dmDef.DataModelId || 'N/A',
+            description: dmDef.Description || 'Imported Data Model',
+            version: dmDef.Version || '1.0',
+            owner: dmDef.Owner || 'Unknown',
+            processMode: processMode,
+            dateModified: new Date().toISOString()
+        };
+
+        return {
+            filename: file.name,
+            metadata,
+            content, // Parsed JSON of all XMLs
+            model: DataModelModel.normalise(content),
+            dateAdded: new Date()
+        };
+    }
+
+    private static async buildDashboard(file: File, context: ParseContext): Promise<Dashboard> {
+        const content = await DashboardParser.parse(file, context);
+
+        // Extract metadata from Dashboard.xml
+        const dashDef = content.Dashboard?.EntityDef || {};
+
+        // Name: Use Description as the primary name
+        const name = dashDef.Description || file.name.replace(/\.t1db$/i, '');
+
+        const metadata = {
+            name: name,
+            id: dashDef.GenericEntityId || 'N/A',
+            description: dashDef.Description || '',
+            owner: dashDef.Owner || 'Unknown',
+            parentPath: dashDef.ParentFileItemPath || '',
+            dateModified: new Date().toISOString()
+        };
+
+        return {
+            filename: file.name,
+            metadata,
+            content, // Parsed JSON of all XMLs
+            model: DashboardModel.normalise(content),
+            dateAdded: new Date()
+        };
+    }
+
+    private static async buildXlOne(file: File, context: ParseContext): Promise<XlOneReport> {
+        const content = await XlOneParser.parse(file, context);
+
+        if (!content.Report) {
+            throw new Error('Invalid T1XL file: Report.xml not found');
+        }
+
+        const header = XlOneParser.getHeader(content);
+        const definition = XlOneParser.getDefinition(content);
+
+        // Name: Title from the header, else the filename with GUID/Timestamp stripped
+        let name = XlOneParser.getAssigned(header.Title);
+        if (!name) {
+            name = file.name.replace(/\.t1xl$/i, '');
+            name = name.replace(/_[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}.*$/, '');
+        }
+
+        const metadata = {
+            name: name,
+            id: XlOneParser.getAssigned(header.ReportId) || 'N/A',
+            description: XlOneParser.getAssigned(header.Description),
+            owner: XlOneParser.getAssigned(header.UserId) || 'Unknown',
+            parentPath: XlOneParser.getAssigned(header.ParentFileItemPath),
+            reportSuite: definition.reportSuite,
+            layoutType: definition.layoutType,
+            dateModified: new Date().toISOString()
+        };
+
+        return {
+            filename: file.name,
+            metadata,
+            content, // Parsed Report.xml
+            dateAdded: new Date()
+        };
+    }
+
+    private static async buildPlaylist(file: File, context: ParseContext): Promise<Playlist> {
+        const content = await PlaylistParser.parse(file, context);
+
+        if (!content.Schedule) {
+            throw new Error('Invalid T1PL file: Schedule.xml not found');
+        }
+
+        const schedule = PlaylistParser.getSchedule(content);
+        const items = PlaylistParser.getItems(content);
+
+        // Name: Schedule Name, else the filename with GUID/Timestamp stripped
+        let name = schedule.Name;
+        if (!name) {
+            name = file.name.replace(/\.t1pl$/i, '');
+            name = name.replace(/_[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}.*$/, '');
+        }
+
+        const metadata = {
+            name: name,
+            id: schedule.ScheduleId || 'N/A',
+            description: schedule.Description || '',
+            owner: schedule.Owner || 'Unknown',
+            parentPath: schedule.ParentFileItemPath || '',
+            defaultSuite: schedule.DefaultSuite || '',
+            itemCount: items.length,
+            version: schedule.Vers || '',
+            dateModified: new Date().toISOString()
+        };
+
+        return {
+            filename: file.name,
+            metadata,
+            content, // Parsed JSON of all XMLs
+            dateAdded: new Date()
+        };
+    }
+}
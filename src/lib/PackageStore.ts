@@ -0,0 +1,40 @@
+import { db, type StoredPackage } from './db';
+
+/**
+ * Keeps the original archive of every import so it can be re-parsed when the
+ * parsers improve, or downloaded again. Packages are gzipped where the browser
+ * supports it and it actually saves space (T1 packages are already zips, so
+ * mostly it does not).
+ */
+export class PackageStore {
+    static async save(file: File, compress = true): Promise<number> {
+        const stored = await this.prepare(file, compress);
+        return await db.packages.add(stored) as number;
+    }
+
+    /** The original package as a File, or null when it was never stored. */
+    static async load(packageId: number | undefined): Promise<File | null> {
+        if (packageId === undefined) return null;
+        const stored = await db.packages.get(packageId);
+        if (!stored) return null;
+
+        const blob = stored.compression === 'gzip' ? await this.transform(stored.blob, new DecompressionStream('gzip')) : stored.blob;
+        return new File([blob], stored.filename);
+    }
+
+    static async delete(packageId: number | undefined): Promise<void> {
+        if (packageId !== undefined) await db.packages.delete(packageId);
+    }
+
+    static async prepare(file: File, compress = true): Promise<StoredPackage> {
+        const stored: StoredPackage = { filename: file.name, blob: file, compression: 'none', size: file.size, dateAdded: new Date() };
+        if (!compress || typeof CompressionStream === 'undefined' || typeof file.stream !== 'function') return stored;
+
+        const gzipped = await this.transform(file, new CompressionStream('gzip'));
+        return gzipped.size < file.size ? { ...stored, blob: gzipped, compression: 'gzip' } : stored;
+    }
+
+    private static async transform(blob: Blob, stream: CompressionStream | DecompressionStream): Promise<Blob> {
+        return await new Response(blob.stream().pipeThrough(stream)).blob();
+    }
+}
@@ -0,0 +1,248 @@
+import { db, type SearchEntry } from './db';
+import { EtlModel } from './model/EtlModel';
+import { DataModelModel } from './model/DataModelModel';
+import { DashboardModel } from './model/DashboardModel';
+import type { PackageType } from './PackageParser';
+
+/** Something worth finding in an artifact: one field of one step, query or widget. */
+export interface SearchDocument {
+    /** Element id of the step/query card in the detail view, '' for the artifact itself */
+    anchor: string;
+    /** Step, query or widget name shown with the hit */
+    label: string;
+    field: SearchField;
+    text: string;
+}
+
+export type SearchField = 'Name' | 'Step' | 'Step type' | 'Query' | 'Widget' | 'Expression' | 'Column'
+    | 'Variable' | 'Table' | 'Data source' | 'File' | 'Email' | 'Text' | 'Note';
+
+export interface SearchHit {
+    type: PackageType;
+    recordId: number;
+    anchor: string;
+    label: string;
+    /** Fields the query words were found in */
+    matches: { field: SearchField, text: string }[];
+    score: number;
+}
+
+const MAX_HITS = 50;
+const SNIPPET_LENGTH = 160;
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Leaf keys of step/query definitions and what they hold. The first match wins,
+// so the specific patterns come before the broad ones.
+const FIELD_KEYS: [RegExp, SearchField][] = [
+    [/datasource(name|id)?$/i, 'Data source'],
+    [/variable/i, 'Variable'],
+    [/tablename$|^selectedtables$/i, 'Table'],
+    [/^(column(name|id|source)?|aliascolumnname|lookupcolumnname|sourcecolumnname|keycolumnname|fieldname)$/i, 'Column'],
+    [/expression|condition|^mappedvalue$|^value$|^defaultvalue$|formula/i, 'Expression'],
+    [/^file(name|location|mask)$/i, 'File'],
+    [/^(description|subjectline|emailmessage|sheetname|sendto)$/i, 'Text']
+];
+
+/**
+ * Library-wide full-text search. Each artifact is broken into documents (a step
+ * name, an expression, a column, a note, ...); their words go into the
+ * `searchIndex` table as an inverted index, one row per word per document.
+ * A search looks words up by prefix, so "acc" finds ACCOUNT_CODE.
+ */
+export class SearchIndex {
+    /** Lower-case words of a text; identifiers such as GL_ACCOUNT also yield their parts. */
+    static tokenize(text: string): string[] {
+        const terms = new Set<string>();
+        const lower = String(text ?? '').toLowerCase();
+        (lower.match(EMAIL) || []).forEach(email => terms.add(email));
+        for (const word of lower.split(/[^a-z0-9_]+/)) {
+            if (word.length >= 2) terms.add(word);
+            if (word.includes('_')) word.split('_').filter(part => part.length >= 2).forEach(part => terms.add(part));
+        }
+        return Array.from(terms);
+    }
+
+    /** What to index for an artifact. ETLs, Data Models and Dashboards are searchable. */
+    static documents(type: PackageType, record: any): SearchDocument[] {
+        const docs: SearchDocument[] = [];
+        const name = record.metadata?.name || record.filename || '';
+        docs.push({ anchor: '', label: name, field: 'Name', text: name });
+        if (record.metadata?.description) docs.push({ anchor: '', label: name, field: 'Text', text: record.metadata.description });
+
+        if (type === 'report') this.etlDocuments(record, docs);
+        else if (type === 'datamodel') this.dataModelDocuments(record, docs);
+        else if (type === 'dashboard') this.dashboardDocuments(record, docs);
+        else return [];
+
+        // Addresses get their own field wherever they appear (SendTo, messages, notes)
+        docs.slice().forEach(doc => (doc.text.match(EMAIL) || []).forEach(email => {
+            if (doc.field !== 'Email') docs.push({ ...doc, field: 'Email', text: email });
+        }));
+        return docs.filter(doc => doc.text.trim().length > 0);
+    }
+
+    /** Replaces everything indexed for an artifact. */
+    static async indexRecord(type: PackageType, recordId: number, record: any): Promise<void> {
+        const entries = this.entries(type, recordId, this.documents(type, record));
+        await db.transaction('rw', db.searchIndex, async () => {
+            await db.searchIndex.where('[type+recordId]').equals([type, recordId]).delete();
+            await db.searchIndex.bulkAdd(entries);
+        });
+    }
+
+    static async removeRecord(type: PackageType, recordId: number): Promise<void> {
+        await db.searchIndex.where('[type+recordId]').equals([type, recordId]).delete();
+    }
+
+    /** Rebuilds the whole index, e.g. after a restore or for a library imported before search existed. */
+    static async rebuild(): Promise<void> {
+        const entries: SearchEntry[] = [];
+        for (const [type, table] of [['report', db.reports], ['datamodel', db.dataModels], ['dashboard', db.dashboards]] as const) {
+            (await table.toArray()).forEach(record => entries.push(...this.entries(type, record.id!, this.documents(type, record))));
+        }
+        await db.transaction('rw', db.searchIndex, async () => {
+            await db.searchIndex.clear();
+            await db.searchIndex.bulkAdd(entries);
+        });
+    }
+
+    /** True when there is a library to search but no index for it yet. */
+    static async needsRebuild(): Promise<boolean> {
+        if (await db.searchIndex.count() > 0) return false;
+        return (await db.reports.count()) + (await db.dataModels.count()) + (await db.dashboards.count()) > 0;
+    }
+
+    /**
+     * Every word of the query has to match, by prefix, somewhere in the same step,
+     * query or artifact. Whole-word matches rank above prefix matches.
+     */
+    static async search(query: string): Promise<SearchHit[]> {
+        const words = this.tokenize(query);
+        if (words.length === 0) return [];
+
+        const hits = new Map<string, SearchHit & { words: Set<string> }>();
+        for (const word of words) {
+            const rows = await db.searchIndex.where('term').startsWith(word).toArray();
+            for (const row of rows) {
+                const key = `${row.type}:${row.recordId}:${row.anchor}`;
+                let hit = hits.get(key);
+                if (!hit) {
+                    hit = { type: row.type, recordId: row.recordId, anchor: row.anchor, label: row.label, matches: [], score: 0, words: new Set() };
+                    hits.set(key, hit);
+                }
+                hit.words.add(word);
+                hit.score += row.term === word ? 2 : 1;
+                if (!hit.matches.some(m => m.field === row.field && m.text === row.text)) hit.matches.push({ field: row.field, text: row.text });
+            }
+        }
+
+        return Array.from(hits.values())
+            .filter(hit => hit.words.size === words.length)
+            .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+            .slice(0, MAX_HITS)
+            .map(({ type, recordId, anchor, label, matches, score }) => ({ type, recordId, anchor, label, matches, score }));
+    }
+
+    private static entries(type: PackageType, recordId: number, docs: SearchDocument[]): SearchEntry[] {
+        const entries: SearchEntry[] = [];
+        const seen = new Set<string>();
+        for (const doc of docs) {
+            const text = doc.text.length > SNIPPET_LENGTH ? `${doc.text.slice(0, SNIPPET_LENGTH)}…` : doc.text;
+            for (const term of this.tokenize(doc.text)) {
+                const key = `${term}\u0000${doc.anchor}\u0000${doc.field}\u0000${text}`;
+                if (seen.has(key)) continue;
+                seen.add(key);
+                entries.push({ term, type, recordId, anchor: doc.anchor, label: doc.label, field: doc.field, text });
+            }
+        }
+        return entries;
+    }
+
+    private static etlDocuments(report: any, docs: SearchDocument[]) {
+        const process = EtlModel.of(report);
+        process.steps.forEach(step => {
+            const anchor = this.anchor('step', step.key);
+            const label = step.name || step.rawType;
+            docs.push({ anchor, label, field: 'Step', text: step.name });
+            docs.push({ anchor, label, field: 'Step type', text: step.rawType });
+            this.walk(step.storage, (field, text) => docs.push({ anchor, label, field, text }));
+            const note = report.stepNotes?.[step.key];
+            if (note) docs.push({ anchor, label, field: 'Note', text: note });
+        });
+
+        process.variables.forEach(v => {
+            docs.push({ anchor: '', label: 'Variables', field: 'Variable', text: v.name });
+            if (v.defaultValue) docs.push({ anchor: '', label: 'Variables', field: 'Expression', text: v.defaultValue });
+        });
+    }
+
+    private static dataModelDocuments(dm: any, docs: SearchDocument[]) {
+        const model = DataModelModel.of(dm);
+
+        model.queries.forEach(q => {
+            const anchor = this.anchor('query', q.name);
+            const label = q.name || '(Unnamed Query)';
+            const add = (field: SearchField, text: string) => docs.push({ anchor, label, field, text });
+            add('Query', q.name);
+            add('Text', q.description);
+            q.criteria.forEach(c => {
+                add('Column', c.column);
+                add('Expression', [c.value1, c.value2].filter(Boolean).join(' '));
+            });
+            q.columns.forEach(c => {
+                add('Column', c.name);
+                add('Text', c.description);
+                add('Expression', c.expression);
+                add('Data source', c.dataSourceName);
+            });
+            q.joins.forEach(j => {
+                [j.leftSource, j.rightSource].forEach(source => add('Data source', source));
+                [j.leftField, j.rightField].forEach(field => add('Column', field));
+            });
+            q.datasources.forEach(d => {
+                add('Data source', d.name);
+                add('Table', d.source);
+            });
+            const note = dm.stepNotes?.[DataModelModel.noteKey(q)];
+            if (note) add('Note', note);
+        });
+
+        model.variables.forEach(v => {
+            docs.push({ anchor: '', label: 'Variables', field: 'Variable', text: v.name });
+            docs.push({ anchor: '', label: 'Variables', field: 'Text', text: v.description });
+            docs.push({ anchor: '', label: 'Variables', field: 'Expression', text: v.defaultValue });
+        });
+    }
+
+    private static dashboardDocuments(dashboard: any, docs: SearchDocument[]) {
+        const model = DashboardModel.of(dashboard);
+        model.widgets.forEach((widget, i) => {
+            const label = widget.title || `Widget ${i + 1}`;
+            docs.push({ anchor: '', label, field: 'Widget', text: widget.title });
+            docs.push({ anchor: '', label, field: 'Data source', text: widget.dataModelName });
+            widget.filters.forEach(f => docs.push({ anchor: '', label, field: 'Column', text: f.column }));
+            this.walk(widget.definition, (field, text) => docs.push({ anchor: '', label, field, text }));
+        });
+        model.variables.forEach(v => {
+            docs.push({ anchor: '', label: 'Variables', field: 'Variable', text: v.name });
+        });
+    }
+
+    /** Visits the string leaves of a definition whose key says what they hold. */
+    private static walk(node: any, visit: (field: SearchField, text: string) => void, key = '') {
+        if (node === null || node === undefined) return;
+        if (Array.isArray(node)) {
+            node.forEach(child => this.walk(child, visit, key));
+        } else if (typeof node === 'object') {
+            Object.entries(node).forEach(([k, child]) => this.walk(child, visit, k === '#text' ? key : k));
+        } else if (typeof node === 'string' && node.trim() && key) {
+            const field = FIELD_KEYS.find(([pattern]) => pattern.test(key))?.[1];
+            if (field) visit(field, node.trim());
+        }
+    }
+
+    /** Same id the generators give the card (see `EtlGenerator` / `DataModelGenerator`). */
+    private static anchor(prefix: 'step' | 'query', id: string): string {
+        return id ? `${prefix}-${id.replace(/[^a-zA-Z0-9_-]/g, '_')}` : '';
+    }
+}
@@ -0,0 +1,135 @@
+import { EtlModel } from './model/EtlModel';
+import { DataModelModel } from './model/DataModelModel';
+import type { PackageType } from './PackageParser';
+
+/** Fields version ordering relies on; every library record has them. */
+export interface VersionedRecord {
+    id?: number;
+    filename: string;
+    metadata: { id?: string, version?: string, dateModified?: string, narration?: string };
+    dateAdded: Date;
+    stepNotes?: Record<string, string>;
+}
+
+export interface VersionStack<T extends VersionedRecord> {
+    latest: T;
+    /** Newest first; includes `latest` */
+    versions: T[];
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "Published by MGUPTA on 28-Nov-2025 17:55:48"
+const NARRATION_DATE = /([0-9]{1,2})-([A-Za-z]{3})-([0-9]{4})(?:\s+([0-9]{1,2}):([0-9]{2}):([0-9]{2}))?/;
+
+// Export timestamp T1 appends to package names: _20260116102707313 (yyyyMMddHHmmssSSS)
+const EXPORT_STAMP = /_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{3})(?=\.t1|$)/i;
+
+/**
+ * Groups re-imports of the same artifact (same ProcessId, DataModelId, ...) into a
+ * version history. Each import stays its own row; stacks are worked out when the
+ * library is shown, so deleting a version simply reveals the one before it.
+ */
+export class VersionHistory {
+    /** T1 identity of an artifact, or null when it has none and cannot be stacked. */
+    static identityKey(record: VersionedRecord): string | null {
+        const id = record.metadata?.id;
+        return id && id !== 'N/A' ? id.toLowerCase() : null;
+    }
+
+    /**
+     * Orders two versions of an artifact, oldest first: by Version, then by when it
+     * was published (DateSaved or the "Published by ... on ..." narration, ETLs only),
+     * then by the export timestamp in the file name, then by import order.
+     */
+    static compare(type: PackageType, a: VersionedRecord, b: VersionedRecord): number {
+        const byVersion = this.compareVersionNumbers(a.metadata.version, b.metadata.version);
+        if (byVersion !== 0) return byVersion;
+
+        if (type === 'report') {
+            const byPublished = (this.publishedAt(a) ?? 0) - (this.publishedAt(b) ?? 0);
+            if (byPublished !== 0) return byPublished;
+        }
+
+        const byExport = (this.exportedAt(a.filename) ?? 0) - (this.exportedAt(b.filename) ?? 0);
+        if (byExport !== 0) return byExport;
+
+        return new Date(a.dateAdded).getTime() - new Date(b.dateAdded).getTime() || (a.id ?? 0) - (b.id ?? 0);
+    }
+
+    /** Stacks records of one library table; records without an identity stand alone. */
+    static stack<T extends VersionedRecord>(type: PackageType, records: T[]): VersionStack<T>[] {
+        const groups = new Map<string, T[]>();
+        records.forEach((record, index) => {
+            const key = this.identityKey(record) ?? `#${record.id ?? index}`;
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(record);
+        });
+
+        return Array.from(groups.values()).map(group => {
+            const versions = [...group].sort((a, b) => this.compare(type, b, a));
+            return { latest: versions[0]!, versions };
+        });
+    }
+
+    /** Short label for a version picker, e.g. "v1.2 - 28 Nov 2025". */
+    static label(type: PackageType, record: VersionedRecord): string {
+        const version = record.metadata.version && record.metadata.version !== 'N/A' ? `v${record.metadata.version}` : '';
+        const when = (type === 'report' ? this.publishedAt(record) : null) ?? this.exportedAt(record.filename) ?? new Date(record.dateAdded).getTime();
+        const date = new Date(when).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+        return [version, date].filter(Boolean).join(' - ');
+    }
+
+    /**
+     * Notes from earlier versions for the steps (ETL) or queries (Data Model) that
+     * still exist in the new version. Later versions win when several have a note.
+     */
+    static carryForwardNotes(type: PackageType, previous: VersionedRecord[], next: any): Record<string, string> {
+        const targets = this.noteTargets(type, next);
+        const notes: Record<string, string> = {};
+        [...previous].sort((a, b) => this.compare(type, a, b)).forEach(version => {
+            Object.entries(version.stepNotes || {}).forEach(([stepId, note]) => {
+                if (targets.has(stepId)) notes[stepId] = note;
+            });
+        });
+        return { ...notes, ...(next.stepNotes || {}) };
+    }
+
+    /** Ids notes are keyed on, matching what the generators use for `data-step-id`. */
+    static noteTargets(type: PackageType, record: any): Set<string> {
+        if (type === 'report') return new Set(EtlModel.of(record).steps.map(s => s.key));
+        if (type === 'datamodel') return new Set(DataModelModel.of(record).queries.map(q => DataModelModel.noteKey(q)));
+        return new Set();
+    }
+
+    private static compareVersionNumbers(a?: string, b?: string): number {
+        const parse = (v?: string) => v && /^\d+(\.\d+)*$/.test(v.trim()) ? v.trim().split('.').map(Number) : null;
+        const pa = parse(a);
+        const pb = parse(b);
+        if (!pa || !pb) return 0;
+        for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+            const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+            if (diff !== 0) return diff;
+        }
+        return 0;
+    }
+
+    private static publishedAt(record: VersionedRecord): number | null {
+        for (const text of [record.metadata.narration, record.metadata.dateModified]) {
+            const m = text?.match(NARRATION_DATE);
+            const month = m ? MONTHS.indexOf(m[2]!.toLowerCase()) : -1;
+            if (m && month >= 0) {
+                return Date.UTC(Number(m[3]), month, Number(m[1]), Number(m[4] ?? 0), Number(m[5] ?? 0), Number(m[6] ?? 0));
+            }
+        }
+        const iso = Date.parse(record.metadata.dateModified || '');
+        return isNaN(iso) ? null : iso;
+    }
+
+    private static exportedAt(filename: string): number | null {
+        const m = filename?.match(EXPORT_STAMP);
+        if (!m) return null;
+        const [, y, mo, d, h, mi, s, ms] = m.map(Number);
+        return Date.UTC(y!, mo! - 1, d!, h!, mi!, s!, ms!);
+    }
+}
@@ -0,0 +1,282 @@
+import { EtlModel, type EtlProcess, type EtlStep } from '../model/EtlModel';
+import { ExpressionAst } from '../parsers/expression/ExpressionAst';
+import { ExpressionParser } from '../parsers/expression/ExpressionParser';
+import { SqlAnalyser } from '../parsers/sql/SqlAnalyser';
+
+export type ColumnScope =
+    | 'source'      // T1 table or data source a query reads
+    | 'memory'      // Memory table passed between steps
+    | 'warehouse'   // Warehouse table ImportWarehouseData writes
+    | 'database';   // Table an ExecuteSQL statement or SQL script reads or writes
+
+export interface ColumnRef {
+    scope: ColumnScope;
+    table: string;
+    column: string;
+}
+
+export type LineageEdgeKind =
+    | 'select'      // Copied as is by a query
+    | 'calculate'   // Used by a query, AddColumn or UpdateColumn expression
+    | 'lookup'      // Looked up by AddColumn
+    | 'join'        // Carried into a JoinTable output
+    | 'rename'
+    | 'append'
+    | 'import';     // Mapped to a warehouse field
+
+export interface LineageEdge {
+    from: ColumnRef;
+    to: ColumnRef;
+    kind: LineageEdgeKind;
+    /** Position of the step in execution order (1-based) */
+    order: number;
+    stepKey: string;
+    stepName: string;
+    /** Expression or join condition the edge comes from, '' for plain copies */
+    expression: string;
+}
+
+export interface ColumnDrop {
+    column: ColumnRef;
+    order: number;
+    stepKey: string;
+    stepName: string;
+}
+
+export interface ColumnLineageGraph {
+    edges: LineageEdge[];
+    /** Columns removed by DeleteColumn */
+    drops: ColumnDrop[];
+}
+
+/**
+ * Column-level lineage of an ETL process: which columns each step reads to
+ * produce each column it writes, from query sources through memory tables to
+ * warehouse fields, and between the database tables SQL steps read and write.
+ * Memory tables are identified by name, so a table that is rebuilt later in
+ * the process shares its columns' history with the earlier one.
+ */
+export class ColumnLineage {
+
+    /** Stable id of a column, used to key lineage panels in the views. */
+    static id(ref: ColumnRef): string {
+        return `${ref.scope}:${ref.table}.${ref.column}`.toUpperCase();
+    }
+
+    static label(ref: ColumnRef): string {
+        return `${ref.table}.${ref.column}`;
+    }
+
+    static analyse(process: EtlProcess): ColumnLineageGraph {
+        const steps = EtlModel.activeSteps(process);
+        const graph: ColumnLineageGraph = { edges: [], drops: [] };
+
+        const variables = new Set<string>(process.variables.map(v => v.name.toUpperCase()));
+        steps.forEach(s => {
+            if (s.type === 'SetVariable' || s.type === 'CalculateVariable' || s.type === 'Loop') variables.add(s.variable.toUpperCase());
+        });
+
+        // Columns each memory table is known to hold so far, keyed by upper-case name
+        const tables = new Map<string, Map<string, string>>();
+        const columnsOf = (table: string) => {
+            const key = table.toUpperCase();
+            if (!tables.has(key)) tables.set(key, new Map());
+            return tables.get(key)!;
+        };
+        const hold = (table: string, column: string) => { if (table && column) columnsOf(table).set(column.toUpperCase(), column); };
+        const holds = (table: string, column: string) => columnsOf(table).has(column.toUpperCase());
+        const known = (table: string, column: string) => columnsOf(table).get(column.toUpperCase()) ?? column;
+
+        const memory = (table: string, column: string): ColumnRef => ({ scope: 'memory', table, column: known(table, column) });
+
+        /** Columns an expression reads: `[Column]`s always, bare names when they are not variables (or, with `table`, when the table holds them). */
+        const readColumns = (expression: string, table?: string): string[] => {
+            const refs = ExpressionAst.references(expression);
+            const names = [...refs.names].filter(n => !variables.has(n.toUpperCase()) && (!table || holds(table, n)));
+            return [...new Set([...refs.columns, ...names])];
+        };
+        const isPlainColumn = (expression: string) => {
+            const node = ExpressionParser.tryParse(expression);
+            return node?.kind === 'column' || node?.kind === 'identifier';
+        };
+
+        steps.forEach((step, idx) => {
+            const edge = (from: ColumnRef, to: ColumnRef, kind: LineageEdgeKind, expression = '') => {
+                if (from.table && from.column && to.table && to.column) {
+                    graph.edges.push({ from, to, kind, order: idx + 1, stepKey: step.key, stepName: step.name, expression });
+                }
+            };
+            this.trace(step, { edge, hold, holds, memory, readColumns, isPlainColumn, columnsOf, graph, order: idx + 1 });
+
+            // A declared output definition is what the table holds from here on
+            if (step.outputTable && step.outputColumns.length > 0 && step.type !== 'JoinTable') {
+                step.outputColumns.forEach(c => hold(step.outputTable, c.name));
+            }
+        });
+
+        return graph;
+    }
+
+    private static trace(step: EtlStep, t: LineageTracer) {
+        switch (step.type) {
+            case 'RunDirectQuery':
+            case 'RunTableQuery':
+            case 'RunDatasourceQuery':
+            case 'RunSimpleQuery': {
+                const out = step.outputTable;
+                const fromTable = step.type === 'RunTableQuery' ? step.inputTable : step.sourceTable || step.dataSource;
+                const from = (column: string): ColumnRef => step.type === 'RunTableQuery'
+                    ? t.memory(fromTable, column)
+                    : { scope: 'source', table: fromTable, column };
+                if (out) t.columnsOf(out).clear();
+                step.columns.forEach(c => {
+                    const source = c.source || c.name;
+                    const kind = t.isPlainColumn(source) ? 'select' : 'calculate';
+                    t.readColumns(source).forEach(col => t.edge(from(col), { scope: 'memory', table: out, column: c.name }, kind, kind === 'calculate' ? source : ''));
+                    t.hold(out, c.name);
+                });
+                break;
+            }
+            case 'AddColumn':
+            case 'UpdateColumn': {
+                const table = step.outputTable || step.inputTable;
+                step.columns.forEach(c => {
+                    const to: ColumnRef = t.memory(table, c.name);
+                    t.readColumns(c.expression, step.inputTable || table).forEach(col => t.edge(t.memory(step.inputTable || table, col), to, 'calculate', c.expression));
+                    if (c.lookup && c.lookupColumn) t.edge(t.memory(c.lookup, c.lookupColumn), to, 'lookup');
+                    t.hold(table, c.name);
+                });
+                break;
+            }
+            case 'JoinTable': {
+                const out = step.outputTable;
+                const inputs = step.inputTables;
+                const aliasOf = (table: string, column: string) => step.aliases.find(a =>
+                    a.table.toUpperCase() === table.toUpperCase() && a.column.toUpperCase() === column.toUpperCase())?.alias;
+                // Without an output definition the join holds every input column, aliased ones under their alias
+                const names = step.outputColumns.length > 0
+                    ? step.outputColumns.map(c => c.name)
+                    : [...new Set(inputs.flatMap(table => [...t.columnsOf(table).values()].map(column => aliasOf(table, column) ?? column)))];
+                const condition = (column: string) => step.joins
+                    .filter(j => [j.leftColumn, j.rightColumn].some(c => c.toUpperCase() === column.toUpperCase()))
+                    .map(j => `${j.leftTable}.${j.leftColumn} = ${j.rightTable}.${j.rightColumn}`)
+                    .join(' AND ');
+                names.forEach(name => {
+                    const to: ColumnRef = { scope: 'memory', table: out, column: name };
+                    const alias = step.aliases.find(a => a.alias.toUpperCase() === name.toUpperCase());
+                    if (alias) {
+                        t.edge(t.memory(alias.table, alias.column), to, 'join', condition(alias.column));
+                    } else {
+                        // Without an alias the column comes from the first input that holds it
+                        const table = inputs.find(i => t.holds(i, name));
+                        if (table) t.edge(t.memory(table, name), to, 'join', condition(name));
+                    }
+                });
+                if (out) {
+                    t.columnsOf(out).clear();
+                    names.forEach(name => t.hold(out, name));
+                }
+                break;
+            }
+            case 'RenameColumn': {
+                if (!step.from || !step.to) break;
+                t.edge(t.memory(step.inputTable, step.from), { scope: 'memory', table: step.inputTable, column: step.to }, 'rename');
+                t.columnsOf(step.inputTable).delete(step.from.toUpperCase());
+                t.hold(step.inputTable, step.to);
+                break;
+            }
+            case 'DeleteColumn': {
+                step.columns.forEach(column => {
+                    t.graph.drops.push({ column: t.memory(step.inputTable, column), order: t.order, stepKey: step.key, stepName: step.name });
+                    t.columnsOf(step.inputTable).delete(column.toUpperCase());
+                });
+                break;
+            }
+            case 'AppendTable': {
+                const mappings = step.mappings.length > 0
+                    ? step.mappings
+                    : [...t.columnsOf(step.inputTable).values()].map(column => ({ column, value: `[${column}]` }));
+                mappings.forEach(m => {
+                    const to = t.memory(step.targetTable, m.column);
+                    const kind = t.isPlainColumn(m.value) ? 'append' : 'calculate';
+                    t.readColumns(m.value, step.inputTable).forEach(col => t.edge(t.memory(step.inputTable, col), to, kind, kind === 'calculate' ? m.value : ''));
+                    t.hold(step.targetTable, m.column);
+                });
+                break;
+            }
+            case 'ImportWarehouseData': {
+                const target = step.warehouse ? `${step.warehouse}.${step.table}` : step.table;
+                const mappings = step.mappings.length > 0
+                    ? step.mappings
+                    : [...t.columnsOf(step.inputTable).values()].map(column => ({ column, value: `[${column}]` }));
+                mappings.forEach(m => {
+                    const plain = t.isPlainColumn(m.value);
+                    t.readColumns(m.value, step.inputTable).forEach(col => t.edge(
+                        t.memory(step.inputTable, col), { scope: 'warehouse', table: target, column: m.column }, 'import', plain ? '' : m.value));
+                });
+                break;
+            }
+            case 'ExecuteSQL':
+            case 'RunSQL':
+            case 'Script':
+            case 'ExecuteScript':
+                SqlAnalyser.ofStep(step)?.assignments.forEach(a => {
+                    const to: ColumnRef = { scope: 'database', table: a.table, column: a.column };
+                    a.reads.forEach(r => t.edge({ scope: 'database', table: r.table, column: r.column }, to, a.plain ? 'select' : 'calculate', a.plain ? '' : a.expression));
+                });
+                break;
+            case 'CreateTable':
+                t.columnsOf(step.table).clear();
+                break;
+        }
+    }
+
+    /** Every edge that leads into a column, nearest first. */
+    static upstream(graph: ColumnLineageGraph, ref: ColumnRef): LineageEdge[] {
+        return this.follow(graph, ref, e => e.to, e => e.from);
+    }
+
+    /** Every edge that leads out of a column, nearest first. */
+    static downstream(graph: ColumnLineageGraph, ref: ColumnRef): LineageEdge[] {
+        return this.follow(graph, ref, e => e.from, e => e.to);
+    }
+
+    /** Columns a step writes, in the order it writes them. */
+    static written(graph: ColumnLineageGraph, stepKey: string): ColumnRef[] {
+        const seen = new Map<string, ColumnRef>();
+        graph.edges.filter(e => e.stepKey === stepKey).forEach(e => seen.set(this.id(e.to), e.to));
+        return [...seen.values()];
+    }
+
+    private static follow(graph: ColumnLineageGraph, ref: ColumnRef, near: (e: LineageEdge) => ColumnRef, far: (e: LineageEdge) => ColumnRef): LineageEdge[] {
+        const result: LineageEdge[] = [];
+        const visited = new Set<string>([this.id(ref)]);
+        let frontier = [this.id(ref)];
+        while (frontier.length > 0) {
+            const next: string[] = [];
+            graph.edges.forEach(e => {
+                if (!frontier.includes(this.id(near(e))) || result.includes(e)) return;
+                result.push(e);
+                const id = this.id(far(e));
+                if (!visited.has(id)) {
+                    visited.add(id);
+                    next.push(id);
+                }
+            });
+            frontier = next;
+        }
+        return result;
+    }
+}
+
+interface LineageTracer {
+    graph: ColumnLineageGraph;
+    order: number;
+    edge: (from: ColumnRef, to: ColumnRef, kind: LineageEdgeKind, expression?: string) => void;
+    hold: (table: string, column: string) => void;
+    holds: (table: string, column: string) => boolean;
+    memory: (table: string, column: string) => ColumnRef;
+    readColumns: (expression: string, table?: string) => string[];
+    isPlainColumn: (expression: string) => boolean;
+    columnsOf: (table: string) => Map<string, string>;
+}
@@ -0,0 +1,167 @@
+import type { Report } from '../db';
+import { EtlModel, QUERY_STEP_TYPES, type EtlProcess } from '../model/EtlModel';
+import { EtlParser } from '../parsers/EtlParser';
+import { ExpressionAst } from '../parsers/expression/ExpressionAst';
+import { ExpressionParser, type ExpressionNode } from '../parsers/expression/ExpressionParser';
+
+export type ComplexityFactorKey =
+    | 'steps'
+    | 'nesting'
+    | 'loop-queries'
+    | 'branching'
+    | 'expression-length'
+    | 'iif-nesting'
+    | 'warehouse-writes'
+    | 'deletes'
+    | 'external-sql'
+    | 'emails';
+
+export type ComplexityLevel = 'Low' | 'Medium' | 'High' | 'Very High';
+
+export interface ComplexityFactor {
+    key: ComplexityFactorKey;
+    label: string;
+    /** What was counted or measured, e.g. the number of steps */
+    value: number;
+    points: number;
+    /** Most points the factor can add, so one busy area cannot swamp the score */
+    max: number;
+    /** The steps behind the value, for the breakdown */
+    steps: string[];
+}
+
+export interface ComplexityAssessment {
+    total: number;
+    level: ComplexityLevel;
+    /** Every factor in a fixed order, including those that add no points */
+    factors: ComplexityFactor[];
+}
+
+interface FactorRule {
+    label: string;
+    /** Points for a value before the cap */
+    points: (value: number) => number;
+    max: number;
+}
+
+const RULES: Record<ComplexityFactorKey, FactorRule> = {
+    'steps': { label: 'Steps', points: v => Math.floor(v / 5), max: 20 },
+    'nesting': { label: 'Nesting depth', points: v => v * 3, max: 15 },
+    'loop-queries': { label: 'Loops running queries', points: v => v * 8, max: 24 },
+    'branching': { label: 'Decisions and branches', points: v => v * 2, max: 20 },
+    'expression-length': { label: 'Longest expression (chars)', points: v => Math.floor(v / 100), max: 10 },
+    'iif-nesting': { label: 'Nested IIF / CASE depth', points: v => v > 1 ? (v - 1) * 3 : 0, max: 12 },
+    'warehouse-writes': { label: 'Warehouse writes', points: v => v * 3, max: 15 },
+    'deletes': { label: 'Warehouse deletes and purges', points: v => v * 5, max: 20 },
+    'external-sql': { label: 'External SQL', points: v => v * 5, max: 20 },
+    'emails': { label: 'Emails sent', points: v => v * 3, max: 9 }
+};
+
+/** Lowest total for each level above Low. */
+const LEVELS: [number, ComplexityLevel][] = [[60, 'Very High'], [35, 'High'], [15, 'Medium']];
+
+const QUERY_TYPES = new Set<string>(QUERY_STEP_TYPES);
+
+/**
+ * A complexity and risk score for one ETL, for triaging a large library. It
+ * reads the technical `executionFlow`, since the business flow hides purges
+ * and table creation, and counts enabled steps only; branch conditions come
+ * from the process model rather than the rendered labels. Each factor adds capped
+ * points: size and shape (steps, nesting, branches, expressions, queries run
+ * inside loops) make a process hard to follow, while warehouse writes and
+ * deletes, external SQL and emails are side effects that make it risky to
+ * change or rerun.
+ */
+export class ComplexityScore {
+
+    /**
+     * The score stored with an ETL when it was imported or re-analysed, which the
+     * library, the ETL view and the DOCX all show; worked out afresh only for
+     * records imported before scores were stored.
+     */
+    static of(report: Report): ComplexityAssessment {
+        return report.complexity ?? this.ofReport(report);
+    }
+
+    /** The score of the latest parse of a stored ETL. */
+    static ofReport(report: Report): ComplexityAssessment {
+        return this.fromFlow(EtlParser.parseSteps(report.rawSteps, 'technical').executionFlow, EtlModel.of(report));
+    }
+
+    static fromFlow(flow: any[], process: EtlProcess): ComplexityAssessment {
+        const active = flow.filter(item => item.IsActive !== false);
+        const ofType = (...types: string[]) => active.filter(item => types.includes(item.RawType));
+        const stepNames = (items: any[]) => items.map(item => item.Step as string);
+
+        const deepest = active.reduce((best: any, item) => !best || (item.Depth || 0) > (best.Depth || 0) ? item : best, null);
+        const loops = ofType('Loop').filter(loop => this.descendants(loop).some(child => child.IsActive !== false && this.isQuery(child)));
+
+        let longest: { length: number, step: string } = { length: 0, step: '' };
+        let deepestIif: { depth: number, step: string } = { depth: 0, step: '' };
+        const measure = (expr: string, step: string) => {
+            if (expr.length > longest.length) longest = { length: expr.length, step };
+            const ast = ExpressionParser.tryParse(expr);
+            const depth = ast ? this.conditionalDepth(ast) : 0;
+            if (depth > deepestIif.depth) deepestIif = { depth, step };
+        };
+        active.forEach(item => this.expressions(item).forEach(expr => measure(expr, item.Step)));
+        EtlModel.activeSteps(process).forEach(step => {
+            if (step.type === 'Branch' && step.expression) measure(step.expression, step.name);
+        });
+
+        const factors = [
+            this.factor('steps', active.length, []),
+            this.factor('nesting', deepest?.Depth || 0, deepest?.Depth ? [deepest.Step] : []),
+            this.factor('loop-queries', loops.length, stepNames(loops)),
+            this.factor('branching', ofType('Decision', 'Branch').length, stepNames(ofType('Decision', 'Branch'))),
+            this.factor('expression-length', longest.length, longest.step ? [longest.step] : []),
+            this.factor('iif-nesting', deepestIif.depth, deepestIif.step ? [deepestIif.step] : []),
+            this.factor('warehouse-writes', ofType('ImportWarehouseData').length, stepNames(ofType('ImportWarehouseData'))),
+            this.factor('deletes', ofType('DeleteWarehouseData', 'PurgeTable', 'DeleteTable').length, stepNames(ofType('DeleteWarehouseData', 'PurgeTable', 'DeleteTable'))),
+            this.factor('external-sql', active.filter(item => item.Sql).length, stepNames(active.filter(item => item.Sql))),
+            this.factor('emails', ofType('SendEmail').length, stepNames(ofType('SendEmail')))
+        ];
+
+        const total = factors.reduce((sum, f) => sum + f.points, 0);
+        return { total, level: this.level(total), factors };
+    }
+
+    static level(total: number): ComplexityLevel {
+        return LEVELS.find(([min]) => total >= min)?.[1] ?? 'Low';
+    }
+
+    /** Factors that add points, highest first. */
+    static drivers(assessment: ComplexityAssessment): ComplexityFactor[] {
+        return assessment.factors.filter(f => f.points > 0).sort((a, b) => b.points - a.points);
+    }
+
+    private static factor(key: ComplexityFactorKey, value: number, steps: string[]): ComplexityFactor {
+        const rule = RULES[key];
+        return { key, label: rule.label, value, points: Math.min(rule.max, rule.points(value)), max: rule.max, steps };
+    }
+
+    private static descendants(item: any): any[] {
+        return (item.children || []).flatMap((child: any) => [child, ...this.descendants(child)]);
+    }
+
+    /** Steps that go to a table, data source or database each time they run. */
+    private static isQuery(item: any): boolean {
+        return QUERY_TYPES.has(item.RawType) || !!item.Sql;
+    }
+
+    /** Calculated column and variable expressions. */
+    private static expressions(item: any): string[] {
+        const found: string[] = [];
+        const headers: string[] = item.Headers || [];
+        if (Array.isArray(item.TableData) && (headers[1] === 'Formula' || headers[1] === 'Expression')) {
+            item.TableData.forEach((row: any) => { if (row.Col2) found.push(String(row.Col2)); });
+        }
+        return found;
+    }
+
+    /** How many IIF or CASE expressions are nested inside each other at the deepest point. */
+    private static conditionalDepth(node: ExpressionNode): number {
+        const below = Math.max(0, ...ExpressionAst.children(node).map(child => this.conditionalDepth(child)));
+        return below + (node.kind === 'iif' || node.kind === 'case' ? 1 : 0);
+    }
+}
@@ -0,0 +1,372 @@
+import { EtlModel, type EtlProcess, type EtlStep } from '../model/EtlModel';
+import { ExpressionAst } from '../parsers/expression/ExpressionAst';
+import { ExpressionEvaluator, type ExpressionValue } from '../parsers/expression/ExpressionEvaluator';
+import { ExpressionParser, type ExpressionNode } from '../parsers/expression/ExpressionParser';
+
+/** One decision point on the way to a step: which branch was taken, and what had to hold for it. */
+export interface BranchGuard {
+    /** The Decision step key, '' for a Branch outside a Decision */
+    decisionKey: string;
+    decisionName: string;
+    /** The Branch step key, '' when no branch of the Decision matched or a lone Branch was skipped */
+    branchKey: string;
+    branchName: string;
+    /** The branch expression, '' for an unconditional branch */
+    condition: string;
+    /** Conditions of the earlier branches of the Decision, which must all be false */
+    unless: string[];
+}
+
+export interface ExecutionPath {
+    guards: BranchGuard[];
+    /** Step keys in execution order */
+    steps: string[];
+    /** False when a guard on the path is a branch that can never run */
+    possible: boolean;
+}
+
+export interface StepConditions {
+    stepKey: string;
+    stepName: string;
+    /** Guards of the enclosing branches, outermost first; empty when the step always runs */
+    guards: BranchGuard[];
+    reachable: boolean;
+}
+
+export type BranchIssueKind =
+    | 'never-true'   // The condition is constant false or contradicts itself
+    | 'unreachable'  // Every case it covers is taken by an earlier branch
+    | 'overlap';     // It can be true together with an earlier branch
+
+export interface BranchIssue {
+    kind: BranchIssueKind;
+    decisionKey: string;
+    branchKey: string;
+    message: string;
+}
+
+export interface ExecutionPathAnalysis {
+    paths: ExecutionPath[];
+    /** True when the process has more paths than `MAX_PATHS` and the list was cut short */
+    truncated: boolean;
+    conditions: StepConditions[];
+    issues: BranchIssue[];
+}
+
+export const BRANCH_ISSUE_LABELS: Record<BranchIssueKind, string> = {
+    'never-true': 'Never true',
+    'unreachable': 'Unreachable',
+    'overlap': 'Overlaps'
+};
+
+/** Sequential Decisions multiply paths, so enumeration stops here. */
+const MAX_PATHS = 100;
+
+type Operator = '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+/** `operand operator value`, with the operand as normalised text so equal operands compare equal. */
+interface Atom { operand: string; operator: Operator; value: ExpressionValue; }
+
+/** A condition read as a conjunction of atoms; null when it uses OR or anything else the analysis cannot follow. */
+type Conjunction = { atoms: Atom[], impossible: boolean } | null;
+
+const NEGATED: Record<Operator, Operator> = { '=': '<>', '<>': '=', '<': '>=', '<=': '>', '>': '<=', '>=': '<' };
+const FLIPPED: Record<Operator, Operator> = { '=': '=', '<>': '<>', '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+
+/**
+ * Enumerates the execution paths through the Decision and Branch steps of an
+ * ETL process. A Decision runs the first of its branches whose expression
+ * holds; a Branch outside a Decision guards its own children. Conditions made
+ * of comparisons against constants joined by AND are checked for branches
+ * that can never be true, are shadowed by an earlier branch, or overlap one.
+ */
+export class ExecutionPaths {
+
+    static analyse(process: EtlProcess): ExecutionPathAnalysis {
+        const active = new Set(EtlModel.activeSteps(process));
+        const children = (step: EtlStep) => EtlModel.children(process, step).filter(s => active.has(s));
+        const issues: BranchIssue[] = [];
+        const guardsOf = new Map<EtlStep, BranchGuard[]>();
+        const impossible = new Set<string>();
+
+        // Guards for each branch of each Decision, and the issues between its branches
+        EtlModel.activeSteps(process).forEach(step => {
+            if (step.type === 'Decision') {
+                const branches = children(step).filter(b => b.type === 'Branch');
+                this.checkBranches(step, branches, issues).forEach(k => impossible.add(k));
+                branches.forEach((branch, i) => guardsOf.set(branch, [this.guard(step, branch, branches.slice(0, i))]));
+            } else if (step.type === 'Branch' && step.expression && process.steps.find(s => s.stepId === step.parentStepId)?.type !== 'Decision') {
+                const conjunction = this.conjunction(step.expression);
+                if (conjunction && !this.satisfiable(conjunction)) {
+                    impossible.add(step.key);
+                    issues.push({ kind: 'never-true', decisionKey: '', branchKey: step.key, message: `"${step.name}" can never run: ${step.expression} is never true` });
+                }
+                guardsOf.set(step, [this.guard(null, step, [])]);
+            }
+        });
+
+        const conditions: StepConditions[] = [];
+        const visit = (steps: EtlStep[], guards: BranchGuard[]) => steps.forEach(step => {
+            const own = [...guards, ...(guardsOf.get(step) ?? [])];
+            conditions.push({ stepKey: step.key, stepName: step.name, guards: own, reachable: own.every(g => !impossible.has(g.branchKey)) });
+            visit(children(step), own);
+        });
+        const roots = process.steps.filter(s => s.depth === 0 && active.has(s));
+        visit(roots, []);
+
+        const state = { truncated: false };
+        const paths = this.enumerate(roots, children, state).map(p => ({
+            ...p,
+            possible: p.guards.every(g => !impossible.has(g.branchKey))
+        }));
+
+        return { paths, truncated: state.truncated, conditions, issues };
+    }
+
+    static forStep(analysis: ExecutionPathAnalysis, stepKey: string): StepConditions | undefined {
+        return analysis.conditions.find(c => c.stepKey === stepKey);
+    }
+
+    /** A guard as one condition, e.g. `Count()>0 AND NOT (Count()>10)`. */
+    static describe(guard: BranchGuard): string {
+        const parts = [guard.condition, ...guard.unless.map(u => `NOT (${u})`)].filter(Boolean);
+        return parts.join(' AND ') || 'always';
+    }
+
+    private static guard(decision: EtlStep | null, branch: EtlStep | null, earlier: EtlStep[]): BranchGuard {
+        return {
+            decisionKey: decision?.key ?? '',
+            decisionName: decision?.name ?? '',
+            branchKey: branch?.key ?? '',
+            branchName: branch?.name ?? '',
+            condition: branch && branch.type === 'Branch' ? branch.expression : '',
+            unless: earlier.map(b => b.type === 'Branch' ? b.expression : '').filter(Boolean)
+        };
+    }
+
+    /** Paths through a sequence of sibling steps: each Decision multiplies the paths by its alternatives. */
+    private static enumerate(steps: EtlStep[], children: (step: EtlStep) => EtlStep[], state: { truncated: boolean }): Omit<ExecutionPath, 'possible'>[] {
+        let paths: Omit<ExecutionPath, 'possible'>[] = [{ guards: [], steps: [] }];
+
+        steps.forEach(step => {
+            let alternatives: Omit<ExecutionPath, 'possible'>[];
+            if (step.type === 'Decision') {
+                const branches = children(step).filter(b => b.type === 'Branch');
+                alternatives = branches.flatMap((branch, i) =>
+                    this.enumerate(children(branch), children, state).map(p => ({
+                        guards: [this.guard(step, branch, branches.slice(0, i)), ...p.guards],
+                        steps: [branch.key, ...p.steps]
+                    })));
+                if (branches.length === 0) {
+                    alternatives.push({ guards: [], steps: [] });
+                // With no branch that always matches, the Decision can also run none of them
+                } else if (!branches.some(b => this.catchesAll(b))) {
+                    alternatives.push({ guards: [this.guard(step, null, branches)], steps: [] });
+                }
+                alternatives = alternatives.map(p => ({ ...p, steps: [step.key, ...p.steps] }));
+            } else if (step.type === 'Branch' && !this.catchesAll(step)) {
+                alternatives = [
+                    ...this.enumerate(children(step), children, state).map(p => ({
+                        guards: [this.guard(null, step, []), ...p.guards],
+                        steps: [step.key, ...p.steps]
+                    })),
+                    { guards: [{ ...this.guard(null, step, []), branchKey: '', condition: '', unless: [step.expression] }], steps: [] }
+                ];
+            } else {
+                alternatives = this.enumerate(children(step), children, state).map(p => ({ ...p, steps: [step.key, ...p.steps] }));
+            }
+
+            const next: Omit<ExecutionPath, 'possible'>[] = [];
+            for (const path of paths) {
+                for (const alt of alternatives) {
+                    if (next.length >= MAX_PATHS) {
+                        state.truncated = true;
+                        break;
+                    }
+                    next.push({ guards: [...path.guards, ...alt.guards], steps: [...path.steps, ...alt.steps] });
+                }
+            }
+            paths = next;
+        });
+        return paths;
+    }
+
+    /** Checks the branches of one Decision in order and returns the keys of those that can never run. */
+    private static checkBranches(decision: EtlStep, branches: EtlStep[], issues: BranchIssue[]): string[] {
+        const impossible: string[] = [];
+        const issue = (kind: BranchIssueKind, branch: EtlStep, message: string) =>
+            issues.push({ kind, decisionKey: decision.key, branchKey: branch.key, message });
+        const expression = (s: EtlStep) => s.type === 'Branch' ? s.expression : '';
+
+        branches.forEach((branch, i) => {
+            const text = expression(branch);
+            const earlier = branches.slice(0, i);
+            const catchAll = earlier.find(b => this.catchesAll(b));
+            if (catchAll) {
+                impossible.push(branch.key);
+                issue('unreachable', branch, `"${branch.name}" can never run: "${catchAll.name}" before it always matches`);
+                return;
+            }
+            if (!text) return;
+
+            const own = this.conjunction(text);
+            if (own && !this.satisfiable(own)) {
+                impossible.push(branch.key);
+                issue('never-true', branch, `"${branch.name}" can never run: ${text} is never true`);
+                return;
+            }
+
+            const same = earlier.find(b => this.sameCondition(expression(b), text));
+            if (same) {
+                impossible.push(branch.key);
+                issue('unreachable', branch, `"${branch.name}" can never run: "${same.name}" before it has the same condition`);
+                return;
+            }
+            if (!own) return;
+
+            // Earlier single comparisons must be false for this branch to run
+            const negations = earlier.map(b => this.conjunction(expression(b)))
+                .filter(c => c !== null && !c.impossible && c.atoms.length === 1)
+                .map(c => this.negate(c!.atoms[0]!));
+            if (negations.length > 0 && !this.satisfiable({ atoms: [...own.atoms, ...negations], impossible: false })) {
+                impossible.push(branch.key);
+                issue('unreachable', branch, `"${branch.name}" can never run: every case of ${text} is taken by an earlier branch`);
+                return;
+            }
+
+            earlier.forEach(b => {
+                const other = this.conjunction(expression(b));
+                if (other && this.satisfiable({ atoms: [...other.atoms, ...own.atoms], impossible: other.impossible })) {
+                    issue('overlap', branch, `"${branch.name}" and "${b.name}" can both be true (${expression(b)} / ${text}); only "${b.name}" runs then`);
+                }
+            });
+        });
+        return impossible;
+    }
+
+    /** A branch with no condition, or one that is always true, takes every case that reaches it. */
+    private static catchesAll(branch: EtlStep): boolean {
+        const text = branch.type === 'Branch' ? branch.expression : '';
+        return !text || this.constant(text) === true;
+    }
+
+    /** Whether two conditions are written the same way, ignoring layout and the case of names but not of text literals. */
+    private static sameCondition(a: string, b: string): boolean {
+        const key = (text: string) => {
+            const node = ExpressionParser.tryParse(text);
+            return node ? this.canonical(node) : text.trim();
+        };
+        return key(a) === key(b);
+    }
+
+    /** An expression without its source offsets, brackets or the case of names and operators. */
+    private static canonical(node: ExpressionNode): string {
+        return JSON.stringify(node, (key, value) => {
+            if (key === 'start' || key === 'end') return undefined;
+            if (value && typeof value === 'object' && value.kind === 'group') return value.expression;
+            if ((key === 'name' || key === 'property' || key === 'operator') && typeof value === 'string') return value.toUpperCase();
+            return value;
+        });
+    }
+
+    /** The value of an expression that reads no columns, variables or data, else undefined. */
+    private static constant(text: string): ExpressionValue | undefined {
+        const node = ExpressionParser.tryParse(text);
+        return node ? this.constantNode(node) : undefined;
+    }
+
+    private static constantNode(node: ExpressionNode): ExpressionValue | undefined {
+        let fixed = true;
+        ExpressionAst.walk(node, n => {
+            // Zero-argument calls are COUNT(), NOW() and the like, which read the data or the clock
+            if (n.kind === 'column' || n.kind === 'variable' || n.kind === 'identifier' || (n.kind === 'call' && n.args.length === 0)) fixed = false;
+        });
+        if (!fixed) return undefined;
+        try {
+            return ExpressionEvaluator.evaluateNode(node, { column: () => undefined, variable: () => undefined });
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static conjunction(text: string): Conjunction {
+        const node = ExpressionParser.tryParse(text);
+        if (!node) return null;
+        const result = { atoms: [] as Atom[], impossible: false };
+
+        const read = (n: ExpressionNode): boolean => {
+            n = ExpressionAst.unwrap(n);
+            const fixed = this.constantNode(n);
+            if (fixed !== undefined) {
+                if (!ExpressionEvaluator.truthy(fixed)) result.impossible = true;
+                return true;
+            }
+            if (n.kind === 'binary' && n.operator.toUpperCase() === 'AND') return read(n.left) && read(n.right);
+            if (n.kind === 'unary' && n.operator === 'NOT') {
+                const inner = this.conjunction(ExpressionParser.source(n.operand, text));
+                if (!inner || inner.impossible || inner.atoms.length !== 1) return false;
+                result.atoms.push(this.negate(inner.atoms[0]!));
+                return true;
+            }
+            if (n.kind === 'binary' && (n.operator === '!=' || n.operator in NEGATED)) {
+                const operator = (n.operator === '!=' ? '<>' : n.operator) as Operator;
+                const right = this.constantNode(n.right);
+                const left = this.constantNode(n.left);
+                if (right !== undefined && left === undefined) result.atoms.push({ operand: this.canonical(n.left), operator, value: right });
+                else if (left !== undefined && right === undefined) result.atoms.push({ operand: this.canonical(n.right), operator: FLIPPED[operator], value: left });
+                else return false;
+                return true;
+            }
+            if (n.kind === 'between' && !n.negated) {
+                const low = this.constantNode(n.low);
+                const high = this.constantNode(n.high);
+                if (low === undefined || high === undefined) return false;
+                result.atoms.push({ operand: this.canonical(n.operand), operator: '>=', value: low }, { operand: this.canonical(n.operand), operator: '<=', value: high });
+                return true;
+            }
+            if (n.kind === 'in' && n.negated) {
+                const values = n.items.map(item => this.constantNode(item));
+                if (values.some(v => v === undefined)) return false;
+                values.forEach(v => result.atoms.push({ operand: this.canonical(n.operand), operator: '<>', value: v! }));
+                return true;
+            }
+            return false;
+        };
+
+        return read(node) ? result : null;
+    }
+
+    private static negate(atom: Atom): Atom {
+        return { ...atom, operator: NEGATED[atom.operator] };
+    }
+
+    /** Whether some value of each operand meets all its atoms, trying the constants and the values between them. */
+    private static satisfiable(conjunction: NonNullable<Conjunction>): boolean {
+        if (conjunction.impossible) return false;
+        const byOperand = new Map<string, Atom[]>();
+        conjunction.atoms.forEach(a => byOperand.set(a.operand, [...(byOperand.get(a.operand) ?? []), a]));
+
+        return [...byOperand.values()].every(atoms => {
+            const values = atoms.map(a => a.value);
+            const numbers = values.every(v => typeof v === 'number' || (typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v))))
+                ? [...new Set(values.map(v => ExpressionEvaluator.toNumber(v)))].sort((a, b) => a - b)
+                : null;
+            const candidates: ExpressionValue[] = numbers
+                ? [...numbers, numbers[0]! - 1, numbers[numbers.length - 1]! + 1, ...numbers.slice(1).map((n, i) => (n + numbers[i]!) / 2)]
+                : [...values, '', ...values.map(v => `${ExpressionEvaluator.toText(v)}\u0000`)];
+            return candidates.some(c => atoms.every(a => this.holds(c, a)));
+        });
+    }
+
+    private static holds(value: ExpressionValue, atom: Atom): boolean {
+        const order = ExpressionEvaluator.compare(value, atom.value);
+        switch (atom.operator) {
+            case '=': return order === 0;
+            case '<>': return order !== 0;
+            case '<': return order < 0;
+            case '<=': return order <= 0;
+            case '>': return order > 0;
+            case '>=': return order >= 0;
+        }
+    }
+}
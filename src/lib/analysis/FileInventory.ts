@@ -0,0 +1,135 @@
+import { EtlModel, type EtlProcess, type FileReference } from '../model/EtlModel';
+
+export type FileDirection = 'read' | 'write';
+
+/** A server folder from FileLocations.xml, a single file, or a file mask with wildcards. */
+export type FilePathKind = 'folder' | 'file' | 'mask';
+
+export type FilePathFlag = 'user-home' | 'drive-letter';
+
+export const FILE_PATH_FLAG_LABELS: Record<FilePathFlag, string> = {
+    'user-home': 'User folder',
+    'drive-letter': 'Drive letter'
+};
+
+export interface FileInventoryEntry {
+    /** Record id in `db.reports` */
+    recordId: number;
+    processName: string;
+    /** The step that reads or writes the file; '' for FileLocations.xml and Attachments.xml entries */
+    stepKey: string;
+    stepName: string;
+    /** The step type, or the package file the entry comes from */
+    source: string;
+    /** What the process does with the path; a location gets the directions of the steps that use it */
+    directions: FileDirection[];
+    kind: FilePathKind;
+    /** The named file location a step picks, '' when it names none */
+    location: string;
+    /** The location's folder joined with the file name, as far as the package says */
+    path: string;
+    /** Variables the path is built from; none means it is hard-coded */
+    variables: string[];
+    flags: FilePathFlag[];
+}
+
+export interface FileInventory {
+    entries: FileInventoryEntry[];
+}
+
+const USER_HOME = [
+    /[\\/]users[\\/]/i,
+    /documents and settings/i,
+    /my documents/i,
+    /%(userprofile|homepath|homedrive|appdata|localappdata)%/i,
+    /(^|[\\/])home[\\/]/i,
+    /^~[\\/]/
+];
+
+const DRIVE_LETTER = /(^|[^A-Za-z0-9])[A-Za-z]:[\\/]/;
+
+/**
+ * Every file path, server folder and file mask the ETLs in the library read
+ * or write, from FileLocations.xml, Attachments.xml and the LoadTextFile,
+ * SaveText, ExportToExcel and SendEmail attachment steps. Steps resolve their
+ * named location to its folder within the same process. Disabled steps are
+ * left out, as they never touch the files.
+ */
+export class FileInventory {
+
+    static build(entries: { recordId: number, process: EtlProcess }[]): FileInventory {
+        return { entries: entries.flatMap(({ recordId, process }) => this.forProcess(recordId, process)) };
+    }
+
+    static forProcess(recordId: number, process: EtlProcess): FileInventoryEntry[] {
+        const folders = new Map(process.fileLocations.map(l => [l.name.trim().toLowerCase(), l.path]));
+        const entry = (fields: Pick<FileInventoryEntry, 'stepKey' | 'stepName' | 'source' | 'directions' | 'kind' | 'location' | 'path'>): FileInventoryEntry => ({
+            recordId,
+            processName: process.name,
+            ...fields,
+            variables: this.variables(`${fields.location} ${fields.path}`),
+            flags: this.flags(fields.path)
+        });
+
+        const steps = EtlModel.activeSteps(process).flatMap(step => {
+            const files: [FileReference, FileDirection][] =
+                step.type === 'LoadTextFile' ? [[step.file, 'read']]
+                : step.type === 'SaveText' || step.type === 'SaveTextfile' || step.type === 'ExportToExcel' ? [[step.file, 'write']]
+                : step.type === 'SendEmail' ? step.attachments.map(a => [a, 'read'])
+                : [];
+            return files.filter(([file]) => file.location || file.name).map(([file, direction]) => entry({
+                stepKey: step.key,
+                stepName: step.name,
+                source: step.rawType,
+                directions: [direction],
+                kind: /[*?]/.test(file.name) ? 'mask' : 'file',
+                location: file.location,
+                path: this.join(folders.get(file.location.trim().toLowerCase()) ?? '', file.name)
+            }));
+        });
+
+        const locations = process.fileLocations.map(l => entry({
+            stepKey: '',
+            stepName: l.name,
+            source: 'FileLocations.xml',
+            directions: (['read', 'write'] as const).filter(d => steps.some(s => s.directions.includes(d) && s.location.trim().toLowerCase() === l.name.trim().toLowerCase())),
+            kind: 'folder',
+            location: l.name,
+            path: l.path
+        }));
+
+        const attachments = process.attachments.map(a => entry({
+            stepKey: '',
+            stepName: a.description || a.fileName,
+            source: 'Attachments.xml',
+            directions: [],
+            kind: 'file',
+            location: '',
+            path: a.fileName
+        }));
+
+        return [...locations, ...steps, ...attachments];
+    }
+
+    /** The `{&VAR}` names in a path, once each. */
+    static variables(path: string): string[] {
+        const names = [...path.matchAll(/\{&([^}.]+)[^}]*\}/g)].map(m => m[1].trim());
+        return [...new Set(names)];
+    }
+
+    /** Parts of a path that tie it to one machine or one user. */
+    static flags(path: string): FilePathFlag[] {
+        const flags: FilePathFlag[] = [];
+        if (USER_HOME.some(pattern => pattern.test(path))) flags.push('user-home');
+        if (DRIVE_LETTER.test(path)) flags.push('drive-letter');
+        return flags;
+    }
+
+    /** Folders with the separator style they already use. */
+    private static join(folder: string, name: string): string {
+        if (!folder) return name;
+        if (!name) return folder;
+        const separator = folder.includes('/') && !folder.includes('\\') ? '/' : '\\';
+        return /[\\/]$/.test(folder) ? `${folder}${name}` : `${folder}${separator}${name}`;
+    }
+}
@@ -0,0 +1,143 @@
+import { EtlModel, type EtlProcess } from '../model/EtlModel';
+
+export interface CallGraphProcess {
+    /** Record id in `db.reports` */
+    recordId: number;
+    processId: string;
+    name: string;
+}
+
+export interface ProcessCall {
+    callerId: number;
+    stepKey: string;
+    stepName: string;
+    stepType: string;
+    /** The called process as the step names it: its name, else its id */
+    target: string;
+    /** Record id of the called process, null when it is not in the library */
+    calleeId: number | null;
+}
+
+/** A process that steps call but the library does not hold. */
+export interface ExternalProcess {
+    target: string;
+    calls: ProcessCall[];
+}
+
+export interface ProcessCallGraph {
+    processes: CallGraphProcess[];
+    calls: ProcessCall[];
+    /** Groups of processes that call each other round in a loop, as record ids */
+    cycles: number[][];
+    external: ExternalProcess[];
+}
+
+/**
+ * Library-level graph of the StartProcess/RunProcess calls between ETL
+ * processes. Calls are resolved by process id first, then by name ignoring
+ * case; calls to processes the library does not hold are listed as external.
+ * Disabled steps are left out, as they never call anything.
+ */
+export class ProcessCallGraph {
+
+    static build(entries: { recordId: number, process: EtlProcess }[]): ProcessCallGraph {
+        const processes = entries.map(e => ({ recordId: e.recordId, processId: e.process.id, name: e.process.name }));
+        const byId = new Map(processes.filter(p => p.processId).map(p => [p.processId.toLowerCase(), p]));
+        const byName = new Map(processes.filter(p => p.name).map(p => [p.name.trim().toLowerCase(), p]));
+
+        const calls: ProcessCall[] = entries.flatMap(({ recordId, process }) => EtlModel.activeSteps(process).flatMap(step => {
+            if (step.type !== 'StartProcess' && step.type !== 'RunProcess') return [];
+            const name = step.process.trim();
+            // Names may carry the folder path the process was picked from
+            const callee = byId.get(step.processId.toLowerCase())
+                ?? byName.get(name.toLowerCase())
+                ?? byName.get(name.split(/[\\/]/).pop()!.toLowerCase());
+            return [{
+                callerId: recordId,
+                stepKey: step.key,
+                stepName: step.name,
+                stepType: step.rawType,
+                target: name || step.processId,
+                calleeId: callee?.recordId ?? null
+            }];
+        }));
+
+        const external = new Map<string, ExternalProcess>();
+        calls.filter(c => c.calleeId === null && c.target).forEach(c => {
+            const key = c.target.toLowerCase();
+            if (!external.has(key)) external.set(key, { target: c.target, calls: [] });
+            external.get(key)!.calls.push(c);
+        });
+
+        return {
+            processes,
+            calls,
+            cycles: this.cycles(processes.map(p => p.recordId), calls),
+            external: [...external.values()].sort((a, b) => a.target.localeCompare(b.target))
+        };
+    }
+
+    /** Calls made by the steps of a process. */
+    static callees(graph: ProcessCallGraph, recordId: number): ProcessCall[] {
+        return graph.calls.filter(c => c.callerId === recordId);
+    }
+
+    /** Calls other processes make to this one. */
+    static callers(graph: ProcessCallGraph, recordId: number): ProcessCall[] {
+        return graph.calls.filter(c => c.calleeId === recordId);
+    }
+
+    /** Processes no other process in the library calls: entry points run from a schedule, or unused. */
+    static neverCalled(graph: ProcessCallGraph): CallGraphProcess[] {
+        const called = new Set(graph.calls.filter(c => c.calleeId !== c.callerId).map(c => c.calleeId));
+        return graph.processes.filter(p => !called.has(p.recordId));
+    }
+
+    static cycleOf(graph: ProcessCallGraph, recordId: number): number[] | undefined {
+        return graph.cycles.find(c => c.includes(recordId));
+    }
+
+    static process(graph: ProcessCallGraph, recordId: number | null): CallGraphProcess | undefined {
+        return graph.processes.find(p => p.recordId === recordId);
+    }
+
+    /** Strongly connected components (Tarjan) with more than one process, or a process that calls itself. */
+    private static cycles(ids: number[], calls: ProcessCall[]): number[][] {
+        const edges = new Map<number, number[]>(ids.map(id => [id, []]));
+        calls.forEach(c => { if (c.calleeId !== null) edges.get(c.callerId)?.push(c.calleeId); });
+
+        const index = new Map<number, number>();
+        const low = new Map<number, number>();
+        const stack: number[] = [];
+        const onStack = new Set<number>();
+        const components: number[][] = [];
+        let counter = 0;
+
+        const connect = (id: number) => {
+            index.set(id, counter);
+            low.set(id, counter++);
+            stack.push(id);
+            onStack.add(id);
+            edges.get(id)!.forEach(next => {
+                if (!index.has(next)) {
+                    connect(next);
+                    low.set(id, Math.min(low.get(id)!, low.get(next)!));
+                } else if (onStack.has(next)) {
+                    low.set(id, Math.min(low.get(id)!, index.get(next)!));
+                }
+            });
+            if (low.get(id) === index.get(id)) {
+                const component: number[] = [];
+                let member: number;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== id);
+                if (component.length > 1 || edges.get(id)!.includes(id)) components.push(component.reverse());
+            }
+        };
+        ids.forEach(id => { if (!index.has(id)) connect(id); });
+        return components;
+    }
+}
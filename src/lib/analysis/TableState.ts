@@ -0,0 +1,270 @@
+import { EtlModel, type EtlProcess, type EtlStep } from '../model/EtlModel';
+import { ExpressionAst } from '../parsers/expression/ExpressionAst';
+import { ExpressionParser } from '../parsers/expression/ExpressionParser';
+import { SqlAnalyser } from '../parsers/sql/SqlAnalyser';
+
+export interface MemoryColumn {
+    name: string;
+    dataType: string;
+    /** Key and name of the step that added the column */
+    originKey: string;
+    originName: string;
+}
+
+export interface MemoryTable {
+    name: string;
+    columns: MemoryColumn[];
+}
+
+export interface TableStateIssue {
+    table: string;
+    column: string;
+    message: string;
+}
+
+export interface StepTableState {
+    /** Position of the step in execution order (1-based) */
+    order: number;
+    stepKey: string;
+    stepName: string;
+    /** Memory tables the step reads or writes, as they stand after it runs */
+    tables: MemoryTable[];
+    /** Columns the step refers to that its table cannot hold at that point */
+    issues: TableStateIssue[];
+}
+
+interface Schema {
+    name: string;
+    columns: Map<string, MemoryColumn>;
+}
+
+/**
+ * Schema of every memory table after each step of an ETL process. Steps are
+ * taken in execution order as if every branch ran, so a column added inside
+ * one branch counts as present afterwards. Tables written by steps the model
+ * cannot see into (scripts, text files without a definition) become unknown
+ * and are never flagged. SQL steps are followed only where a table they name
+ * is a known memory table.
+ */
+export class TableState {
+
+    static analyse(process: EtlProcess): StepTableState[] {
+        const tables = new Map<string, Schema>();
+        const states: StepTableState[] = [];
+
+        EtlModel.activeSteps(process).forEach((step, idx) => {
+            const issues: TableStateIssue[] = [];
+            const touched = new Set<string>();
+            const origin = { originKey: step.key, originName: step.name };
+
+            const schema = (table: string) => tables.get(table.toUpperCase());
+            const reset = (table: string) => {
+                const s: Schema = { name: table, columns: new Map() };
+                tables.set(table.toUpperCase(), s);
+                touched.add(table.toUpperCase());
+                return s;
+            };
+            const touch = (table: string) => { if (table) touched.add(table.toUpperCase()); };
+            const add = (table: string, name: string, dataType = '') => {
+                const s = schema(table) ?? reset(table);
+                const existing = s.columns.get(name.toUpperCase());
+                s.columns.set(name.toUpperCase(), existing
+                    ? { ...existing, dataType: dataType || existing.dataType }
+                    : { name, dataType, ...origin });
+                touch(table);
+            };
+            const column = (table: string, name: string) => schema(table)?.columns.get(name.toUpperCase());
+            /** Flags `name` when the table's schema is known and does not have it. */
+            const need = (table: string, name: string) => {
+                touch(table);
+                const s = schema(table);
+                if (!table || !name || !s || s.columns.has(name.toUpperCase())) return;
+                if (issues.some(i => i.table === table && i.column.toUpperCase() === name.toUpperCase())) return;
+                issues.push({ table, column: name, message: `"${name}" is not a column of ${s.name} at this point` });
+            };
+            const needAll = (table: string, expression: string) =>
+                ExpressionAst.references(expression).columns.forEach(name => need(table, name));
+
+            this.apply(step, { schema, reset, touch, add, column, need, needAll, unknown: (table: string) => { tables.delete(table.toUpperCase()); touch(table); } });
+
+            // A declared output definition is what the table holds from here on
+            if (step.outputTable && step.outputColumns.length > 0 && step.type !== 'JoinTable') {
+                const before = schema(step.outputTable);
+                const s = reset(step.outputTable);
+                step.outputColumns.forEach(c => {
+                    const kept = before?.columns.get(c.name.toUpperCase());
+                    s.columns.set(c.name.toUpperCase(), kept ? { ...kept, dataType: c.dataType || kept.dataType } : { name: c.name, dataType: c.dataType, ...origin });
+                });
+            } else if (step.outputTable && !schema(step.outputTable)) {
+                touch(step.outputTable);
+            }
+
+            if (touched.size === 0) return;
+            states.push({
+                order: idx + 1,
+                stepKey: step.key,
+                stepName: step.name,
+                tables: [...touched].map(key => {
+                    const s = tables.get(key);
+                    return s ? { name: s.name, columns: [...s.columns.values()] } : null;
+                }).filter((t): t is MemoryTable => t !== null),
+                issues
+            });
+        });
+
+        return states;
+    }
+
+    /** The state after one step, or null when the step touches no memory table. */
+    static forStep(states: StepTableState[], stepKey: string): StepTableState | null {
+        return states.find(s => s.stepKey === stepKey) ?? null;
+    }
+
+    private static apply(step: EtlStep, t: SchemaTracker) {
+        switch (step.type) {
+            case 'RunDirectQuery':
+            case 'RunTableQuery':
+            case 'RunDatasourceQuery':
+            case 'RunSimpleQuery': {
+                if (step.type === 'RunTableQuery') {
+                    step.columns.forEach(c => {
+                        const source = c.source || c.name;
+                        const node = ExpressionParser.tryParse(source);
+                        if (node?.kind === 'identifier') t.need(step.inputTable, source);
+                        else t.needAll(step.inputTable, source);
+                    });
+                    step.criteria.forEach(c => t.need(step.inputTable, c.column));
+                }
+                if (!step.outputTable) break;
+                if (step.columns.length === 0) {
+                    t.unknown(step.outputTable);
+                    break;
+                }
+                t.reset(step.outputTable);
+                step.columns.forEach(c => t.add(step.outputTable, c.name, c.dataType));
+                break;
+            }
+            case 'AddColumn':
+            case 'UpdateColumn': {
+                const table = step.outputTable || step.inputTable;
+                step.columns.forEach(c => {
+                    t.needAll(step.inputTable || table, c.expression);
+                    if (c.lookup && c.lookupColumn) t.need(c.lookup, c.lookupColumn);
+                    if (step.type === 'UpdateColumn') t.need(table, c.name);
+                    else t.add(table, c.name, c.dataType);
+                });
+                step.criteria.forEach(c => t.need(step.inputTable || table, c.column));
+                break;
+            }
+            case 'SetVariable':
+            case 'CalculateVariable':
+                if (step.inputTable) {
+                    t.needAll(step.inputTable, step.expression);
+                    step.criteria.forEach(c => t.need(step.inputTable, c.column));
+                }
+                break;
+            case 'JoinTable': {
+                step.joins.forEach(j => {
+                    t.need(j.leftTable, j.leftColumn);
+                    t.need(j.rightTable, j.rightColumn);
+                });
+                step.aliases.forEach(a => t.need(a.table, a.column));
+                if (!step.outputTable) break;
+                if (step.inputTables.some(table => !t.schema(table)) && step.outputColumns.length === 0) {
+                    t.unknown(step.outputTable);
+                    break;
+                }
+                const inputs = step.inputTables.map(table => t.schema(table)).filter(s => s !== undefined);
+                const aliasOf = (table: string, column: string) => step.aliases.find(a =>
+                    a.table.toUpperCase() === table.toUpperCase() && a.column.toUpperCase() === column.toUpperCase())?.alias;
+                const joined = inputs.flatMap(s => [...s.columns.values()].map(c => ({ ...c, name: aliasOf(s.name, c.name) ?? c.name })));
+                const out = t.reset(step.outputTable);
+                const declared = step.outputColumns.length > 0 ? step.outputColumns : joined;
+                declared.forEach(c => {
+                    if (out.columns.has(c.name.toUpperCase())) return;
+                    const from = joined.find(j => j.name.toUpperCase() === c.name.toUpperCase());
+                    out.columns.set(c.name.toUpperCase(), from
+                        ? { ...from, name: c.name, dataType: c.dataType || from.dataType }
+                        : { name: c.name, dataType: c.dataType, originKey: step.key, originName: step.name });
+                });
+                break;
+            }
+            case 'RenameColumn': {
+                if (!step.from || !step.to) break;
+                t.need(step.inputTable, step.from);
+                const s = t.schema(step.inputTable);
+                const old = t.column(step.inputTable, step.from);
+                if (!s) break;
+                s.columns.delete(step.from.toUpperCase());
+                s.columns.set(step.to.toUpperCase(), { ...(old ?? { dataType: '', originKey: step.key, originName: step.name }), name: step.to });
+                break;
+            }
+            case 'DeleteColumn':
+                step.columns.forEach(column => {
+                    t.need(step.inputTable, column);
+                    t.schema(step.inputTable)?.columns.delete(column.toUpperCase());
+                });
+                break;
+            case 'AppendTable': {
+                const source = t.schema(step.inputTable);
+                t.touch(step.inputTable);
+                if (step.mappings.length > 0) {
+                    step.mappings.forEach(m => {
+                        t.needAll(step.inputTable, m.value);
+                        t.add(step.targetTable, m.column, t.column(step.targetTable, m.column)?.dataType ?? '');
+                    });
+                } else if (source) {
+                    source.columns.forEach(c => t.add(step.targetTable, c.name, c.dataType));
+                } else {
+                    t.unknown(step.targetTable);
+                }
+                break;
+            }
+            case 'ImportWarehouseData':
+                step.mappings.forEach(m => t.needAll(step.inputTable, m.value));
+                break;
+            case 'ExecuteSQL':
+            case 'RunSQL':
+            case 'Script':
+            case 'ExecuteScript': {
+                // SQL runs against database tables, so only names that match a known memory table are followed
+                const known = (table: string) => !!table && !!t.schema(table);
+                SqlAnalyser.ofStep(step)?.statements.forEach(s => {
+                    s.assignments.flatMap(a => a.reads).filter(r => known(r.table)).forEach(r => t.need(r.table, r.column));
+                    if (s.kind === 'DDL' || s.kind === 'SELECT') s.writes.filter(known).forEach(table => t.unknown(table));
+                    else s.assignments.filter(a => known(a.table)).forEach(a => t.need(a.table, a.column));
+                });
+                break;
+            }
+            case 'FilterTable':
+                step.criteria.forEach(c => t.need(step.inputTable, c.column));
+                break;
+            case 'SortTable':
+                step.sort.forEach(c => t.need(step.inputTable, c.column));
+                break;
+            case 'Decision':
+            case 'ExportToExcel':
+                t.touch(step.inputTable);
+                break;
+            case 'CreateTable':
+                t.reset(step.table);
+                break;
+            case 'PurgeTable':
+                step.tables.forEach(table => t.touch(table));
+                break;
+        }
+    }
+}
+
+interface SchemaTracker {
+    schema: (table: string) => Schema | undefined;
+    /** Starts the table again with no columns. */
+    reset: (table: string) => Schema;
+    touch: (table: string) => void;
+    add: (table: string, name: string, dataType?: string) => void;
+    column: (table: string, name: string) => MemoryColumn | undefined;
+    need: (table: string, name: string) => void;
+    needAll: (table: string, expression: string) => void;
+    /** Forgets the table's schema: a step wrote it in a way the model cannot follow. */
+    unknown: (table: string) => void;
+}
@@ -0,0 +1,164 @@
+import { EtlModel, type EtlProcess, type EtlStep } from '../model/EtlModel';
+import { ModelValues as V } from '../model/ModelValues';
+import { ExpressionAst } from '../parsers/expression/ExpressionAst';
+
+export type VariableAccessKind =
+    | 'parameter'   // Declared in Variables.xml; holds its default or the caller's value from the start
+    | 'set'         // SetVariable / CalculateVariable
+    | 'loop'        // Loop InputVariable, assigned on every iteration
+    | 'use';
+
+export interface VariableAccess {
+    kind: VariableAccessKind;
+    /** Position of the step in execution order (1-based), 0 for process parameters */
+    order: number;
+    /** Step key (see `EtlModel.stepKey`), '' for process parameters */
+    stepKey: string;
+    stepName: string;
+    stepType: string;
+    /** Value or expression assigned, '' for uses */
+    value: string;
+    /** Inside a Decision or Branch, so the step may not run */
+    conditional: boolean;
+}
+
+export type VariableFlowIssueKind = 'used-before-set' | 'never-read' | 'loop-shadowed' | 'parameter-only';
+
+export interface VariableFlowIssue {
+    kind: VariableFlowIssueKind;
+    message: string;
+    /** Step the issue points at, '' when it is about the variable as a whole */
+    stepKey: string;
+}
+
+export interface VariableFlowEntry {
+    name: string;
+    /** Parameters first, then steps in execution order */
+    definitions: VariableAccess[];
+    uses: VariableAccess[];
+    issues: VariableFlowIssue[];
+}
+
+export const VARIABLE_FLOW_ISSUE_LABELS: Record<VariableFlowIssueKind, string> = {
+    'used-before-set': 'Used before set',
+    'never-read': 'Never read',
+    'loop-shadowed': 'Shadowed by loop',
+    'parameter-only': 'Parameter only'
+};
+
+/** Storage keys that name the variable a step assigns rather than read it. */
+const ASSIGNED_KEYS: Partial<Record<string, string[]>> = {
+    SetVariable: ['VariableName'],
+    CalculateVariable: ['VariableName'],
+    Loop: ['InputVariable']
+};
+
+/**
+ * Def-use analysis of the variables of an ETL process. Steps are walked in
+ * execution order (parents before children, siblings by Sequence), so loop
+ * bodies and branches are read where they run. Disabled steps and everything
+ * under them never run and are left out.
+ */
+export class VariableFlow {
+
+    static analyse(process: EtlProcess): VariableFlowEntry[] {
+        const entries = new Map<string, VariableFlowEntry>();
+        const entry = (name: string) => {
+            if (!entries.has(name)) entries.set(name, { name, definitions: [], uses: [], issues: [] });
+            return entries.get(name)!;
+        };
+
+        const byId = new Map(process.steps.map(s => [s.stepId, s]));
+        const ancestors = (step: EtlStep): EtlStep[] => {
+            const chain: EtlStep[] = [];
+            let parent = byId.get(step.parentStepId);
+            while (parent && parent !== step && !chain.includes(parent)) {
+                chain.push(parent);
+                parent = byId.get(parent.parentStepId);
+            }
+            return chain;
+        };
+
+        const steps = EtlModel.activeSteps(process);
+
+        const parameters = process.variables.filter(p => p.name);
+        parameters.forEach(p => entry(p.name).definitions.push({
+            kind: 'parameter', order: 0, stepKey: '', stepName: 'Variables.xml', stepType: 'Parameter',
+            value: p.defaultValue, conditional: false
+        }));
+
+        // Names a process can refer to without {& }: its parameters and every variable a step assigns
+        const assigned = (step: EtlStep) =>
+            step.type === 'SetVariable' || step.type === 'CalculateVariable' || step.type === 'Loop' ? step.variable : '';
+        const known = new Set<string>([...parameters.map(p => p.name), ...steps.map(assigned).filter(Boolean)]);
+
+        const defined = new Set(parameters.map(p => p.name));
+        const firstUnset = new Map<string, VariableAccess>();
+
+        steps.forEach((step, idx) => {
+            const chain = ancestors(step);
+            const access = (kind: VariableAccessKind, value = ''): VariableAccess => ({
+                kind, order: idx + 1, stepKey: step.key, stepName: step.name, stepType: step.rawType, value,
+                conditional: chain.some(a => a.type === 'Decision' || a.type === 'Branch')
+            });
+
+            const refs = V.texts(step.storage, ASSIGNED_KEYS[step.rawType]).map(text => ExpressionAst.references(text));
+            const used = new Set<string>(refs.flatMap(r => [...r.variables]));
+            known.forEach(name => {
+                if (refs.some(r => ExpressionAst.mentions(r, name))) used.add(name);
+            });
+
+            const define = () => {
+                const name = assigned(step);
+                if (!name) return;
+                const expression = step.type === 'Loop' ? step.condition : step.type === 'SetVariable' || step.type === 'CalculateVariable' ? step.expression : '';
+                entry(name).definitions.push(access(step.type === 'Loop' ? 'loop' : 'set', expression));
+                defined.add(name);
+            };
+            const read = () => used.forEach(name => {
+                const use = access('use');
+                entry(name).uses.push(use);
+                if (!defined.has(name) && !firstUnset.has(name)) firstUnset.set(name, use);
+            });
+
+            // A loop assigns its variable before the body (and its condition) reads it; `X = X + 1` reads X first
+            if (step.type === 'Loop') { define(); read(); } else { read(); define(); }
+        });
+
+        entries.forEach(e => {
+            const unset = firstUnset.get(e.name);
+            if (unset) {
+                e.issues.push({
+                    kind: 'used-before-set',
+                    stepKey: unset.stepKey,
+                    message: e.definitions.length > 0
+                        ? `Read by "${unset.stepName}" before any step sets it`
+                        : `Read by "${unset.stepName}" but never set by a step or declared as a parameter`
+                });
+            }
+
+            const parameterOnly = e.definitions.length > 0 && e.definitions.every(d => d.kind === 'parameter');
+            if (e.definitions.length > 0 && e.uses.length === 0) {
+                e.issues.push({ kind: 'never-read', stepKey: '', message: `${parameterOnly ? 'Declared' : 'Set'} but never read by any step` });
+            }
+
+            e.definitions.filter(d => d.kind === 'loop').forEach(loop => {
+                const loopStep = steps[loop.order - 1]!;
+                const overwritten = e.definitions.filter(d => d !== loop && (d.kind === 'parameter'
+                    || (d.order < loop.order && !ancestors(steps[d.order - 1]!).includes(loopStep))));
+                if (overwritten.length === 0) return;
+                e.issues.push({
+                    kind: 'loop-shadowed',
+                    stepKey: loop.stepKey,
+                    message: `Loop "${loop.stepName}" overwrites the value from ${overwritten.map(d => `"${d.stepName}"`).join(', ')} on every iteration`
+                });
+            });
+
+            if (parameterOnly) {
+                e.issues.push({ kind: 'parameter-only', stepKey: '', message: 'Only declared in Variables.xml; its value comes from the default or whoever runs the process' });
+            }
+        });
+
+        return Array.from(entries.values()).sort((a, b) => a.name.localeCompare(b.name));
+    }
+}
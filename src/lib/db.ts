@@ -1,4 +1,11 @@
 import Dexie, { type Table } from 'dexie';
+import type { ParseIssue } from './parsers/ParseIssue';
+import type { PackageType } from './PackageParser';
+import type { SearchField } from './SearchIndex';
+import type { EtlProcess } from './model/EtlModel';
+import type { ComplexityAssessment } from './analysis/ComplexityScore';
+import type { DataModelContent } from './model/DataModelModel';
+import type { DashboardContent } from './model/DashboardModel';
 
 export interface Report {
     id?: number;
@@ -21,6 +28,12 @@ export interface Report {
     rawVariables?: any;       // Variables.xml - process parameters
     rawFileLocations?: any;   // FileLocations.xml - file path references
     rawAttachments?: any;     // Attachments.xml - embedded files
+    model?: EtlProcess;       // Typed view of the raw XML above; missing before PARSER_VERSION 3
+    complexity?: ComplexityAssessment; // Complexity and risk score; missing before PARSER_VERSION 5
+    summary?: string;         // Library card summary (HTML); missing before PARSER_VERSION 6
+    parseIssues?: ParseIssue[]; // Problems found while importing the package
+    parserVersion?: number;   // PARSER_VERSION the record was built with; missing before stamping
+    packageId?: number;       // Original archive in `packages`, for re-analysis and download
     dateAdded: Date;
     stepNotes?: Record<string, string>; // Map of stepId -> note text
 }
@@ -37,6 +50,10 @@ export interface DataModel {
         dateModified?: string;
     };
     content: any; // Holds the parsed DataModel, Queries, etc.
+    model?: DataModelContent; // Typed view of `content`; missing before PARSER_VERSION 3
+    parseIssues?: ParseIssue[]; // Problems found while importing the package
+    parserVersion?: number;   // PARSER_VERSION the record was built with; missing before stamping
+    packageId?: number;       // Original archive in `packages`, for re-analysis and download
     dateAdded: Date;
     stepNotes?: Record<string, string>; // Map of QueryName/Id -> note text
 }
@@ -53,14 +70,90 @@ export interface Dashboard {
         dateModified?: string;
     };
     content: any; // Holds parsed JSON from all XMLs
+    model?: DashboardContent; // Typed view of `content`; missing before PARSER_VERSION 3
+    parseIssues?: ParseIssue[]; // Problems found while importing the package
+    parserVersion?: number;   // PARSER_VERSION the record was built with; missing before stamping
+    packageId?: number;       // Original archive in `packages`, for re-analysis and download
     dateAdded: Date;
     stepNotes?: Record<string, string>; // Map of widgetId -> note text
 }
 
+export interface XlOneReport {
+    id?: number;
+    filename: string;
+    metadata: {
+        name: string;
+        id?: string;
+        description?: string;
+        owner?: string;
+        parentPath?: string;
+        reportSuite?: string;
+        layoutType?: string;
+        dateModified?: string;
+    };
+    content: any; // Holds parsed Report.xml (MyXLOneHeader + DbReportDef)
+    parseIssues?: ParseIssue[]; // Problems found while importing the package
+    parserVersion?: number;   // PARSER_VERSION the record was built with; missing before stamping
+    packageId?: number;       // Original archive in `packages`, for re-analysis and download
+    dateAdded: Date;
+    stepNotes?: Record<string, string>;
+}
+
+export interface Playlist {
+    id?: number;
+    filename: string;
+    metadata: {
+        name: string;
+        id?: string;
+        description?: string;
+        owner?: string;
+        parentPath?: string;
+        defaultSuite?: string;
+        itemCount?: number;
+        version?: string;
+        dateModified?: string;
+    };
+    content: any; // Holds parsed Schedule, Items, Variables, ItemVariables
+    parseIssues?: ParseIssue[]; // Problems found while importing the package
+    parserVersion?: number;   // PARSER_VERSION the record was built with; missing before stamping
+    packageId?: number;       // Original archive in `packages`, for re-analysis and download
+    dateAdded: Date;
+    stepNotes?: Record<string, string>; // Map of ItemId -> note text
+}
+
+/** An imported archive exactly as it was dropped, kept so it can be parsed again. */
+export interface StoredPackage {
+    id?: number;
+    filename: string;
+    blob: Blob;
+    compression: 'gzip' | 'none';
+    size: number; // Uncompressed size in bytes
+    dateAdded: Date;
+}
+
+/** One word of one indexed document, see `SearchIndex`. */
+export interface SearchEntry {
+    id?: number;
+    term: string;
+    type: PackageType;
+    recordId: number;
+    anchor: string;
+    label: string;
+    field: SearchField;
+    text: string;
+}
+
 export class T1AnalyserDB extends Dexie {
     reports!: Table<Report>;
     dataModels!: Table<DataModel>;
     dashboards!: Table<Dashboard>;
+    xlOneReports!: Table<XlOneReport>;
+    playlists!: Table<Playlist>;
+    packages!: Table<StoredPackage>;
+    searchIndex!: Table<SearchEntry>;
+
+    /** Goes up on every write to `reports`, so views built from all ETLs know when to build again. */
+    reportsRevision = 0;
 
     constructor() {
         super('T1AnalyserDB');
@@ -75,6 +168,27 @@ export class T1AnalyserDB extends Dexie {
         this.version(3).stores({
             dashboards: '++id, filename, dateAdded'
         });
+        // Version 4: Add XLOne reports
+        this.version(4).stores({
+            xlOneReports: '++id, filename, dateAdded'
+        });
+        // Version 5: Add playlists
+        this.version(5).stores({
+            playlists: '++id, filename, dateAdded'
+        });
+        // Version 6: Keep the original package archives
+        this.version(6).stores({
+            packages: '++id'
+        });
+        // Version 7: Full-text search index
+        this.version(7).stores({
+            searchIndex: '++id, term, [type+recordId]'
+        });
+
+        const bump = () => { this.reportsRevision++; };
+        this.reports.hook('creating', bump);
+        this.reports.hook('updating', bump);
+        this.reports.hook('deleting', bump);
     }
 }
 
@@ -1,80 +1,81 @@
 
+import { ExpressionParser } from '../parsers/expression/ExpressionParser';
+import { ExpressionAst } from '../parsers/expression/ExpressionAst';
+import { ExpressionTokenizer } from '../parsers/expression/ExpressionTokenizer';
+
 // --- Helper Types ---
 export type LogicRule = { outcome: string, condition: string };
 
 export class ExpressionFormatter {
 
-    static escapeRegExp(string: string) {
-        return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    }
-
     /**
      * Colourises text by highlighting variables and tables found in the respective sets.
+     * The text is read as expression tokens: a known name must start on a token and
+     * end on a word boundary, `{&VAR}` references are badged wherever they appear, and
+     * other quoted text is kept as written. Everything between badges is copied as is.
      */
     static colouriseTextHTML(text: any, varSet: Set<string>, tableSet: Set<string> = new Set(), stepSet: Set<string> = new Set()): string {
         if (text === null || text === undefined) return "";
-        let str = String(text);
-
-        // Placeholder strategy to prevent double wrapping
-        const placeholders: Record<string, string> = {};
-        const createPlaceholder = (content: string, type: 'var' | 'table' | 'step') => {
-            const key = `__T1_${type.toUpperCase()}_${Object.keys(placeholders).length}__`;
-            placeholders[key] = content;
-            return key;
-        };
+        const str = String(text);
+        const names = this.nameIndex(varSet, tableSet, stepSet);
+
+        let html = '';
+        let at = 0;
+        ExpressionTokenizer.tokenize(str).forEach(t => {
+            // Tokens inside a multi-token name already badged
+            if (t.start < at) return;
+            html += str.substring(at, t.start);
+            at = t.end;
+
+            if (t.type === 'variable') {
+                html += this.formatVariable(t.value);
+                return;
+            }
+            if (t.type === 'string') {
+                html += str.substring(t.start, t.end).replace(/\{&([^}]+)\}/g, (_match, name) => this.formatVariable(name.trim()));
+                return;
+            }
 
-        // 1. Handle explicit TechOne variable syntax: {&VAR_NAME}
-        // We replace with placeholder immediately
-        str = str.replace(/\{&([a-zA-Z0-9_]+)\}/g, (_match, name) => {
-            return createPlaceholder(`<span class="var-badge">${name}</span>`, 'var');
+            const known = this.knownNameAt(str, t.start, names);
+            if (known) {
+                html += known.badge;
+                at = known.end;
+            } else {
+                html += str.substring(t.start, t.end);
+            }
         });
+        return html + str.substring(at);
+    }
 
-        // 2. Handle generic variable names found in the set
-        if (varSet.size > 0) {
-            const varPatterns = Array.from(varSet).map(v => {
-                const esc = this.escapeRegExp(v);
-                return `\\[?${esc}\\]?`;
-            });
-            const varRegex = new RegExp(`(?<!\\w)(${varPatterns.join('|')})(?!\\w)`, 'g');
- 
-            str = str.replace(varRegex, (match) => {
-                const varName = match.replace(/^\[|\]$/g, '');
-                return createPlaceholder(`<span class="var-badge">${varName}</span>`, 'var');
-            });
-        }
-
-        // 3. Handle table names found in the table set
-        if (tableSet.size > 0) {
-            const tablePatterns = Array.from(tableSet).map(t => {
-                const esc = this.escapeRegExp(t);
-                return `\\[?${esc}\\]?`;
-            });
-            const tableRegex = new RegExp(`(?<!\\w)(${tablePatterns.join('|')})(?!\\w)`, 'g');
-            str = str.replace(tableRegex, (match) => {
-                const tableName = match.replace(/^\[|\]$/g, '');
-                return createPlaceholder(this.formatTable(tableName), 'table');
-            });
-        }
+    /** Known names by first character, longest first; a name in several sets is a variable before a table before a step output. */
+    private static nameIndex(varSet: Set<string>, tableSet: Set<string>, stepSet: Set<string>): Map<string, { name: string, badge: string }[]> {
+        const index = new Map<string, { name: string, badge: string }[]>();
+        const seen = new Set<string>();
+        const add = (name: string, badge: string) => {
+            if (!name || seen.has(name)) return;
+            seen.add(name);
+            index.set(name[0]!, [...(index.get(name[0]!) || []), { name, badge }]);
+        };
+        varSet.forEach(v => add(v, this.formatVariable(v)));
+        tableSet.forEach(t => add(t, this.formatTable(t)));
+        stepSet.forEach(s => add(s, this.formatStepOutput(s)));
+        index.forEach(list => list.sort((a, b) => b.name.length - a.name.length));
+        return index;
+    }
 
-        // 4. Handle step output names (Strings from LoadText etc)
-        if (stepSet.size > 0) {
-            const stepPatterns = Array.from(stepSet).map(s => {
-                const esc = this.escapeRegExp(s);
-                return `\\[?${esc}\\]?`;
-            });
-            const stepRegex = new RegExp(`(?<!\\w)(${stepPatterns.join('|')})(?!\\w)`, 'g');
-            str = str.replace(stepRegex, (match) => {
-                const stepName = match.replace(/^\[|\]$/g, '');
-                return createPlaceholder(this.formatStepOutput(stepName), 'step');
-            });
+    /** The known name written at `start`, bare or in [brackets], when it ends on a word boundary. */
+    private static knownNameAt(str: string, start: number, names: Map<string, { name: string, badge: string }[]>): { badge: string, end: number } | null {
+        if (/\w/.test(str[start - 1] ?? '')) return null;
+        const bracketed = str[start] === '[';
+        for (const { name, badge } of names.get(str[bracketed ? start + 1 : start] ?? '') || []) {
+            if (bracketed && str.startsWith(`[${name}]`, start)) return { badge, end: start + name.length + 2 };
+            if (!bracketed && str.startsWith(name, start) && !/\w/.test(str[start + name.length] ?? '')) return { badge, end: start + name.length };
         }
+        return null;
+    }
 
-        // 5. Restore Placeholders
-        Object.keys(placeholders).forEach(key => {
-            str = str.replace(key, placeholders[key]);
-        });
-
-        return str;
+    static formatVariable(name: string): string {
+        return `<span class="var-badge">${name}</span>`;
     }
 
     static formatTable(name: string): string {
@@ -120,88 +121,24 @@ export class ExpressionFormatter {
         `;
     }
 
+    /**
+     * Logic rules for a CASE WHEN expression or a T1 Case(subject, value, result, ..) call.
+     */
     static parseCaseStatement(expr: string): LogicRule[] | null {
-        // Basic SQL CASE parser: CASE WHEN ... THEN ... [ELSE ...] END
-        const trimmed = expr.trim();
-        if (!/^CASE\s+/i.test(trimmed)) return null;
-
-        const rules: LogicRule[] = [];
-        let remaining = trimmed.substring(4).trim(); // Skip CASE
-
-        // Regex for WHEN ... THEN ...
-        // We use a loop to consume the string to handle nesting/complexity slightly better than a single global regex
-        // efficiently enough for this use case.
-        // NOTE: This is a simple regex parser; it will fail on nested CASE statements inside string literals etc.
-        // But for Data Model expressions it covers 95% of cases.
-
-        const whenRegex = /^WHEN\s+(.+?)\s+THEN\s+(.+?)\s+(?=WHEN|ELSE|END|$)/i;
-
-        // Remove 'END' from the very end if present to simplify lookaheads
-        if (/END\s*$/i.test(remaining)) {
-            remaining = remaining.replace(/END\s*$/i, '');
-        }
-
-        while (true) {
-            const match = remaining.match(whenRegex);
-            if (match) {
-                rules.push({ condition: match[1].trim(), outcome: match[2].trim() });
-                remaining = remaining.substring(match[0].length).trim();
-            } else {
-                break; // No more WHENs
-            }
-        }
-
-        // Check for ELSE
-        const elseRegex = /^ELSE\s+(.+)$/i;
-        const elseMatch = remaining.match(elseRegex);
-        if (elseMatch) {
-            rules.push({ condition: 'ELSE', outcome: elseMatch[1].trim() });
-        }
-
-        return rules.length > 0 ? rules : null;
+        const root = ExpressionParser.tryParse(expr);
+        if (!root) return null;
+        const node = ExpressionAst.unwrap(root);
+        const isCase = node.kind === 'case' || (node.kind === 'call' && node.name.toUpperCase() === 'CASE');
+        return isCase ? ExpressionAst.logicRules(expr, 'ELSE') : null;
     }
 
     /**
-     * Formatting Facade
+     * Logic rules for an IIF chain: one rule per condition, then the final ELSE.
      */
     static parseIifStatement(expr: string): LogicRule[] | null {
-        const trimmed = expr.trim();
-        // Match explicit IIF(...) start
-        if (!/^IIF\s*\(/i.test(trimmed)) return null;
-
-        // Remove outer IIF( and )
-        let content = trimmed.substring(trimmed.indexOf('(') + 1);
-        if (content.endsWith(')')) content = content.substring(0, content.length - 1);
-
-        // Split by comma, respecting parentheses
-        const parts: string[] = [];
-        let parenthesisLevel = 0;
-        let lastSplitIndex = 0;
-
-        for (let i = 0; i < content.length; i++) {
-            if (content[i] === '(') parenthesisLevel++;
-            else if (content[i] === ')') parenthesisLevel--;
-            else if (content[i] === ',' && parenthesisLevel === 0) {
-                parts.push(content.substring(lastSplitIndex, i).trim());
-                lastSplitIndex = i + 1;
-            }
-        }
-        parts.push(content.substring(lastSplitIndex).trim());
-
-        if (parts.length === 3) {
-            const truePart = { condition: parts[0], outcome: parts[1] };
-
-            // Recursive check for nested IIF in the 'else' part
-            // "IIF(Cond, True, IIF(Cond2, True2, Else2))" -> "When Cond Then True, When Cond2 Then True2, Else Else2"
-            const nestedIif = this.parseIifStatement(parts[2]);
-            if (nestedIif) {
-                return [truePart, ...nestedIif];
-            } else {
-                return [truePart, { condition: 'ELSE', outcome: parts[2] }];
-            }
-        }
-
-        return null;
+        const root = ExpressionParser.tryParse(expr);
+        if (!root || ExpressionAst.unwrap(root).kind !== 'iif') return null;
+        return ExpressionAst.logicRules(expr, 'ELSE');
     }
 
     /**
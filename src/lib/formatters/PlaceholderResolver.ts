@@ -0,0 +1,103 @@
+import { ExpressionFormatter } from './ExpressionFormatter';
+
+// --- Helper Types ---
+export type PlaceholderIssueKind = 'unresolved' | 'circular' | 'suffix';
+
+export interface PlaceholderIssue {
+    kind: PlaceholderIssueKind;
+    /** Placeholder as written, without braces (e.g. REPORTING_MONTH.DESCR) */
+    name: string;
+    /** Variables followed to reach the problem, outermost first */
+    chain: string[];
+}
+
+export interface ResolvedText {
+    template: string;
+    text: string;
+    issues: PlaceholderIssue[];
+}
+
+/**
+ * Where placeholder values come from, highest precedence first:
+ * per-item variables, user-entered test values, then variable defaults.
+ */
+export interface PlaceholderScope {
+    itemVariables?: { name: string, value: string }[];
+    testValues?: Record<string, string>;
+    variables?: { name: string, defaultValue: string }[];
+}
+
+const PLACEHOLDER = /\{&([a-zA-Z0-9_]+)((?:\.[a-zA-Z0-9_]+)*)\}/g;
+
+export class PlaceholderResolver {
+    /** Placeholder names (with any suffix) in order of first appearance. */
+    static extractNames(text: string): string[] {
+        const names = new Set<string>();
+        for (const m of (text || '').matchAll(PLACEHOLDER)) names.add(m[1]! + m[2]!);
+        return Array.from(names);
+    }
+
+    /**
+     * Substitutes {&VAR} placeholders, following values that are themselves placeholders
+     * (e.g. REPORT -> {&REPORTING_MONTH} -> {&F1_XL_REPORT_LPERIOD}).
+     * Unresolved and circular references are left in the text as written and reported.
+     * A suffix such as .DESCR falls back to the plain value when no explicit
+     * "VAR.DESCR" value is supplied, and is reported so the preview is not mistaken for the description.
+     */
+    static resolve(template: string, scope: PlaceholderScope): ResolvedText {
+        const layers = [
+            new Map((scope.itemVariables || []).map(v => [v.name.toUpperCase(), v.value] as [string, string])),
+            new Map(Object.entries(scope.testValues || {}).filter(([, v]) => v !== '').map(([k, v]) => [k.toUpperCase(), v] as [string, string])),
+            new Map((scope.variables || []).filter(v => v.defaultValue !== '').map(v => [v.name.toUpperCase(), v.defaultValue] as [string, string]))
+        ];
+        const lookup = (key: string) => {
+            for (const layer of layers) {
+                if (layer.has(key)) return layer.get(key)!;
+            }
+            return undefined;
+        };
+
+        const issues: PlaceholderIssue[] = [];
+        const report = (kind: PlaceholderIssueKind, name: string, chain: string[]) => {
+            if (!issues.some(i => i.kind === kind && i.name === name)) issues.push({ kind, name, chain });
+        };
+
+        const resolveName = (name: string, suffix: string, stack: string[]): string | null => {
+            const written = name + suffix;
+            const key = written.toUpperCase();
+
+            if (stack.includes(key)) {
+                report('circular', written, [...stack, key]);
+                return null;
+            }
+
+            const value = lookup(key);
+            if (value !== undefined) return expand(value, [...stack, key]);
+
+            if (suffix) {
+                const base = resolveName(name, '', stack);
+                if (base !== null) report('suffix', written, [...stack, key]);
+                return base;
+            }
+
+            report('unresolved', written, [...stack, key]);
+            return null;
+        };
+
+        const expand = (text: string, stack: string[]): string =>
+            text.replace(PLACEHOLDER, (match, name: string, suffix: string) => resolveName(name, suffix, stack) ?? match);
+
+        return { template, text: expand(template || '', []), issues };
+    }
+
+    /** Escapes text for HTML and badges any remaining {&VAR} placeholders. */
+    static toHtml(text: string): string {
+        const escaped = String(text || '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/\{&amp;/g, '{&');
+        return ExpressionFormatter.colouriseTextHTML(escaped, new Set());
+    }
+}
@@ -0,0 +1,122 @@
+import { db, type Report } from '../db';
+import { EtlModel } from '../model/EtlModel';
+import { VersionHistory } from '../VersionHistory';
+import { ProcessCallGraph, type ProcessCall } from '../analysis/ProcessCallGraph';
+
+/**
+ * StartProcess/RunProcess calls across the library: a link from each call
+ * step to the called ETL, a "Process Calls" section on the ETL view, and a
+ * library panel with every call, cycle, uncalled and missing process.
+ */
+export class CallGraphGenerator {
+
+    private static escapeHtml(str: string): string {
+        return String(str ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    /** The graph over the latest version of each ETL; `focusId` swaps in that version of its ETL instead. */
+    static fromRecords(reports: Report[], focusId?: number): ProcessCallGraph {
+        const entries = VersionHistory.stack('report', reports).map(stack => {
+            const record = stack.versions.find(v => v.id === focusId) ?? stack.latest;
+            return { recordId: record.id!, process: EtlModel.of(record) };
+        });
+        return ProcessCallGraph.build(entries);
+    }
+
+    static async load(focusId?: number): Promise<ProcessCallGraph> {
+        return this.fromRecords(await db.reports.toArray(), focusId);
+    }
+
+    private static processLink(graph: ProcessCallGraph, recordId: number, anchor = ''): string {
+        const name = ProcessCallGraph.process(graph, recordId)?.name || `#${recordId}`;
+        return `<button onclick="window.navigateTo('detail', ${recordId}, 'report'${anchor ? `, '${anchor}'` : ''})" class="font-bold text-blue-700 hover:underline text-left">${this.escapeHtml(name)}</button>`;
+    }
+
+    private static callLink(graph: ProcessCallGraph, call: ProcessCall): string {
+        return call.calleeId !== null
+            ? this.processLink(graph, call.calleeId)
+            : `<span class="font-mono text-slate-700">${this.escapeHtml(call.target || '(no process)')}</span> <span class="text-[10px] font-bold px-1.5 py-0.5 rounded border bg-amber-50 text-amber-700 border-amber-200">Not in library</span>`;
+    }
+
+    /** The called process on a StartProcess/RunProcess step card; '' for other steps. */
+    static renderStepCall(graph: ProcessCallGraph, recordId: number, stepKey: string): string {
+        const call = ProcessCallGraph.callees(graph, recordId).find(c => c.stepKey === stepKey);
+        if (!call) return '';
+        return `<div class="mt-2 text-xs text-slate-600">Calls ${this.callLink(graph, call)}</div>`;
+    }
+
+    /** The "Process Calls" section of an ETL view; '' when the process neither calls nor is called. */
+    static renderProcessCalls(graph: ProcessCallGraph, recordId: number): string {
+        const callers = ProcessCallGraph.callers(graph, recordId);
+        const callees = ProcessCallGraph.callees(graph, recordId);
+        if (callers.length === 0 && callees.length === 0) return '';
+
+        const cycle = ProcessCallGraph.cycleOf(graph, recordId);
+        const list = (items: string[], empty: string) => items.length > 0
+            ? `<ul class="list-none pl-0 space-y-1">${items.map(i => `<li class="text-sm">${i}</li>`).join('')}</ul>`
+            : `<p class="text-sm italic text-slate-400">${empty}</p>`;
+
+        return `
+            <details class="group" id="process-calls">
+                <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-sky-50 hover:bg-sky-100 transition-colors select-none border-t border-b border-sky-200">
+                    <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                        <span class="text-sky-500 text-lg">☎</span> Process Calls
+                        <span class="text-xs bg-sky-100 text-sky-700 px-2 py-0.5 rounded-full border border-sky-200">${callers.length} in • ${callees.length} out</span>
+                    </span>
+                </summary>
+                <div class="pt-4 pb-2 px-2 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    ${cycle ? `<p class="md:col-span-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded px-3 py-2">⚠ This process is part of a call cycle: ${cycle.map(id => this.escapeHtml(ProcessCallGraph.process(graph, id)?.name || `#${id}`)).join(' → ')}</p>` : ''}
+                    <div>
+                        <div class="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Called by</div>
+                        ${list(callers.map(c => `${this.processLink(graph, c.callerId, `step-${c.stepKey}`)} <span class="text-xs text-slate-500">in ${this.escapeHtml(c.stepName)}</span>`), 'No process in the library calls this one.')}
+                    </div>
+                    <div>
+                        <div class="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Calls</div>
+                        ${list(callees.map(c => `${this.callLink(graph, c)} <span class="text-xs text-slate-500">from <button onclick="window.revealAnchor('step-${c.stepKey}')" class="hover:underline">${this.escapeHtml(c.stepName)}</button></span>`), 'This process calls no other process.')}
+                    </div>
+                </div>
+            </details>
+        `;
+    }
+
+    /** Library panel with the whole call graph; '' when no ETL calls another. */
+    static renderLibraryPanel(graph: ProcessCallGraph): string {
+        if (graph.calls.length === 0) return '';
+        const name = (id: number) => this.escapeHtml(ProcessCallGraph.process(graph, id)?.name || `#${id}`);
+        const neverCalled = ProcessCallGraph.neverCalled(graph);
+        const heading = (text: string) => `<div class="text-[10px] font-bold text-gray-500 uppercase tracking-wider mt-4 mb-1">${text}</div>`;
+
+        const rows = graph.calls.map(c => `
+            <tr class="border-t border-gray-100">
+                <td class="px-3 py-1.5 text-xs">${this.processLink(graph, c.callerId)}</td>
+                <td class="px-3 py-1.5 text-xs text-gray-500"><button onclick="window.navigateTo('detail', ${c.callerId}, 'report', 'step-${c.stepKey}')" class="hover:underline text-left">${this.escapeHtml(c.stepName)}</button></td>
+                <td class="px-3 py-1.5 text-xs">${this.callLink(graph, c)}</td>
+            </tr>`).join('');
+
+        return `
+            <details class="bg-white p-4 rounded-xl shadow-sm border border-gray-200" id="library-call-graph">
+                <summary class="cursor-pointer list-none flex items-center gap-2 text-lg font-bold text-gray-700">
+                    Process Calls
+                    <span class="text-xs font-bold bg-sky-50 text-sky-700 px-2 py-0.5 rounded-full border border-sky-200">${graph.calls.length} call${graph.calls.length === 1 ? '' : 's'}</span>
+                    ${graph.cycles.length > 0 ? `<span class="text-xs font-bold bg-red-50 text-red-700 px-2 py-0.5 rounded-full border border-red-200">${graph.cycles.length} cycle${graph.cycles.length === 1 ? '' : 's'}</span>` : ''}
+                    ${graph.external.length > 0 ? `<span class="text-xs font-bold bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full border border-amber-200">${graph.external.length} missing</span>` : ''}
+                </summary>
+                <div class="w-full overflow-x-auto border border-gray-200 rounded-md mt-3">
+                    <table class="w-full">
+                        <thead class="bg-gray-50 text-left text-[10px] uppercase tracking-wider text-gray-500"><tr><th class="px-3 py-1.5">Caller</th><th class="px-3 py-1.5">Step</th><th class="px-3 py-1.5">Calls</th></tr></thead>
+                        <tbody>${rows}</tbody>
+                    </table>
+                </div>
+                ${graph.cycles.length > 0 ? `${heading('Cycles')}<ul class="list-none pl-0 space-y-1">${graph.cycles.map(c => `<li class="text-sm text-red-700">⚠ ${[...c, c[0]!].map(name).join(' → ')}</li>`).join('')}</ul>` : ''}
+                ${graph.external.length > 0 ? `${heading('External / missing processes')}<p class="text-xs text-gray-500 mb-1">Called but not in the library: export these packages too.</p><ul class="list-none pl-0 space-y-1">${graph.external.map(e => `<li class="text-sm"><span class="font-mono">${this.escapeHtml(e.target)}</span> <span class="text-xs text-gray-500">called by ${[...new Set(e.calls.map(c => c.callerId))].map(name).join(', ')}</span></li>`).join('')}</ul>` : ''}
+                ${heading('Never called by another process')}
+                <p class="text-sm text-gray-600">${neverCalled.map(p => this.processLink(graph, p.recordId)).join(', ') || '<span class="italic text-gray-400">None</span>'}</p>
+            </details>
+        `;
+    }
+}
@@ -0,0 +1,100 @@
+import { ColumnLineage, type ColumnLineageGraph, type ColumnRef, type LineageEdge, type LineageEdgeKind } from '../analysis/ColumnLineage';
+
+const KIND_LABELS: Record<LineageEdgeKind, string> = {
+    select: 'Selected',
+    calculate: 'Calculated',
+    lookup: 'Looked up',
+    join: 'Joined',
+    rename: 'Renamed',
+    append: 'Appended',
+    import: 'Imported'
+};
+
+const SCOPE_BADGES: Record<ColumnRef['scope'], string> = {
+    source: '<span class="text-[9px] bg-sky-100 text-sky-700 px-1 rounded">source</span>',
+    memory: '<span class="text-[9px] bg-slate-200 text-slate-600 px-1 rounded">memory</span>',
+    warehouse: '<span class="text-[9px] bg-emerald-100 text-emerald-700 px-1 rounded">warehouse</span>',
+    database: '<span class="text-[9px] bg-violet-100 text-violet-700 px-1 rounded">database</span>'
+};
+
+/**
+ * Column lineage in the ETL view: a row of column chips on each step card and
+ * one hidden panel per column. Clicking a chip (`window.showColumnLineage`)
+ * shows that column's panel with its upstream chain and downstream consumers.
+ */
+export class ColumnLineageGenerator {
+
+    static panelId(ref: ColumnRef): string {
+        return `lineage-${ColumnLineage.id(ref).replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+    }
+
+    private static escapeHtml(str: string): string {
+        return String(str ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    private static columnLink(ref: ColumnRef): string {
+        return `<button onclick="window.showColumnLineage('${this.panelId(ref)}')" class="font-mono text-indigo-700 hover:underline">${this.escapeHtml(ColumnLineage.label(ref))}</button>`;
+    }
+
+    /** Chips for the columns a step writes; '' when it writes none. */
+    static renderStepColumns(graph: ColumnLineageGraph, stepKey: string): string {
+        const columns = ColumnLineage.written(graph, stepKey);
+        if (columns.length === 0) return '';
+        const chips = columns.map(ref => `<button onclick="window.showColumnLineage('${this.panelId(ref)}')" class="text-[10px] font-mono bg-indigo-50 text-indigo-700 border border-indigo-200 rounded px-1.5 py-0.5 hover:bg-indigo-100" title="Show lineage of ${this.escapeHtml(ColumnLineage.label(ref))}">${this.escapeHtml(ref.column)}</button>`).join(' ');
+        return `<div class="mt-2 flex flex-wrap items-center gap-1"><span class="text-[10px] font-bold text-slate-400 uppercase tracking-wider mr-1">Column lineage</span>${chips}</div>`;
+    }
+
+    private static renderEdges(edges: LineageEdge[], empty: string): string {
+        if (edges.length === 0) return `<p class="text-xs text-slate-400 italic">${empty}</p>`;
+        const rows = [...edges].sort((a, b) => a.order - b.order).map(e => `
+            <li class="text-xs text-slate-700 py-1 border-b border-slate-100 last:border-0">
+                <span class="text-slate-400">#${e.order}</span>
+                <button onclick="window.revealAnchor('step-${e.stepKey.replace(/[^a-zA-Z0-9_-]/g, '_')}')" class="font-semibold hover:underline">${this.escapeHtml(e.stepName)}</button>
+                <span class="text-slate-500">· ${KIND_LABELS[e.kind]}</span>:
+                ${this.columnLink(e.from)} ${SCOPE_BADGES[e.from.scope]} ➔ ${this.columnLink(e.to)} ${SCOPE_BADGES[e.to.scope]}
+                ${e.expression ? `<code class="block mt-1 ml-6 text-[11px] bg-slate-50 px-2 py-1 rounded">${this.escapeHtml(e.expression)}</code>` : ''}
+            </li>`).join('');
+        return `<ul class="list-none pl-0">${rows}</ul>`;
+    }
+
+    /** "Column Lineage" section holding one hidden panel per column; '' when the process moves no columns. */
+    static renderPanel(graph: ColumnLineageGraph): string {
+        if (graph.edges.length === 0) return '';
+
+        const columns = new Map<string, ColumnRef>();
+        graph.edges.forEach(e => [e.from, e.to].forEach(ref => columns.set(this.panelId(ref), ref)));
+
+        const panels = [...columns.entries()].map(([id, ref]) => {
+            const drops = graph.drops.filter(d => ColumnLineage.id(d.column) === ColumnLineage.id(ref));
+            return `
+                <div id="${id}" class="column-lineage-panel hidden border border-indigo-200 rounded-md p-3 mb-3 bg-white">
+                    <div class="text-sm font-bold text-slate-800 mb-2 font-mono">${this.escapeHtml(ColumnLineage.label(ref))} ${SCOPE_BADGES[ref.scope]}</div>
+                    <div class="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Upstream derivation</div>
+                    ${this.renderEdges(ColumnLineage.upstream(graph, ref), 'No upstream columns: this is where the column starts.')}
+                    <div class="text-[10px] font-bold text-slate-500 uppercase tracking-wider mt-3 mb-1">Downstream consumers</div>
+                    ${this.renderEdges(ColumnLineage.downstream(graph, ref), 'No later step reads this column.')}
+                    ${drops.map(d => `<p class="text-xs text-red-700 mt-2">Deleted by #${d.order} ${this.escapeHtml(d.stepName)}</p>`).join('')}
+                </div>`;
+        }).join('');
+
+        return `
+            <details class="group" id="column-lineage">
+                <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-indigo-50 hover:bg-indigo-100 transition-colors select-none border-t border-b border-indigo-200">
+                    <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                        <span class="text-indigo-500 text-lg">⛓</span> Column Lineage
+                        <span class="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full border border-indigo-200">${columns.size}</span>
+                    </span>
+                </summary>
+                <div class="pt-4 pb-2 px-2">
+                    <p class="text-sm text-slate-600 mb-3">Click a column under "Column lineage" on any step to see where it comes from and where it goes.</p>
+                    ${panels}
+                </div>
+            </details>
+        `;
+    }
+}
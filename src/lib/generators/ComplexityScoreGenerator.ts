@@ -0,0 +1,66 @@
+import { ComplexityScore, type ComplexityAssessment, type ComplexityLevel } from '../analysis/ComplexityScore';
+
+const LEVEL_CLASSES: Record<ComplexityLevel, string> = {
+    'Low': 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    'Medium': 'bg-amber-50 text-amber-700 border-amber-200',
+    'High': 'bg-orange-50 text-orange-700 border-orange-200',
+    'Very High': 'bg-red-50 text-red-700 border-red-200'
+};
+
+/** Steps named in a breakdown row before the rest are counted instead. */
+const MAX_STEPS_LISTED = 3;
+
+/**
+ * The complexity and risk score: a badge on library cards and a breakdown of
+ * the points each factor adds in the ETL header.
+ */
+export class ComplexityScoreGenerator {
+
+    private static escapeHtml(str: string): string {
+        return String(str ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    /** Score badge for a library card, with the main drivers as its tooltip. */
+    static renderBadge(assessment: ComplexityAssessment | null | undefined): string {
+        if (!assessment) return '';
+        const drivers = ComplexityScore.drivers(assessment).map(f => `${f.label}: +${f.points}`).join('\n');
+        return `<span class="text-[0.65rem] font-bold px-1.5 py-0.5 rounded border ${LEVEL_CLASSES[assessment.level]}" title="${this.escapeHtml(drivers || 'Nothing adds to the score')}">Risk ${assessment.total} · ${assessment.level}</span>`;
+    }
+
+    /** Header panel with the total and one row per factor that adds points. */
+    static renderHeader(assessment: ComplexityAssessment): string {
+        const drivers = ComplexityScore.drivers(assessment);
+        const rows = drivers.map(f => {
+            const listed = f.steps.slice(0, MAX_STEPS_LISTED).map(s => this.escapeHtml(s)).join(', ');
+            const more = f.steps.length > MAX_STEPS_LISTED ? ` +${f.steps.length - MAX_STEPS_LISTED} more` : '';
+            return `
+                <tr class="border-t border-gray-100 align-top">
+                    <td class="px-3 py-1 text-xs text-gray-700">${f.label}</td>
+                    <td class="px-3 py-1 text-xs font-mono text-gray-600 text-right">${f.value}</td>
+                    <td class="px-3 py-1 text-xs font-bold text-gray-800 text-right whitespace-nowrap">+${f.points}${f.points === f.max ? ' <span class="font-normal text-gray-400">(max)</span>' : ''}</td>
+                    <td class="px-3 py-1 text-[11px] text-gray-500">${listed}${more}</td>
+                </tr>`;
+        }).join('');
+
+        return `
+            <details class="mt-4 p-4 bg-white border border-gray-200 rounded-lg shadow-sm" id="complexity-score">
+                <summary class="cursor-pointer list-none flex items-center gap-2 text-sm">
+                    <span class="text-xs font-semibold text-gray-400 uppercase tracking-wider">Complexity &amp; Risk</span>
+                    <span class="text-xs font-bold px-2 py-0.5 rounded-full border ${LEVEL_CLASSES[assessment.level]}">${assessment.total} · ${assessment.level}</span>
+                    <span class="text-xs text-gray-500">${drivers.slice(0, 3).map(f => f.label.toLowerCase()).join(', ') || 'a short, straight-line process'}</span>
+                </summary>
+                ${rows ? `
+                <div class="w-full overflow-x-auto border border-gray-200 rounded-md mt-3">
+                    <table class="w-full">
+                        <thead class="bg-gray-50 text-left text-[10px] uppercase tracking-wider text-gray-500"><tr><th class="px-3 py-1">Factor</th><th class="px-3 py-1 text-right">Value</th><th class="px-3 py-1 text-right">Points</th><th class="px-3 py-1">Steps</th></tr></thead>
+                        <tbody>${rows}</tbody>
+                    </table>
+                </div>` : ''}
+            </details>`;
+    }
+}
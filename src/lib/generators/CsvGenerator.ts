@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { PlaylistParser, type PlaylistDelivery, type PlaylistItem } from '../parsers/PlaylistParser';
+import { FileInventoryGenerator } from './FileInventoryGenerator';
+
+export class CsvGenerator {
+    /** RFC 4180 quoting; a UTF-8 BOM is added on download so Excel keeps accents intact. */
+    static toCsv(rows: string[][]): string {
+        return rows.map(row => row.map(cell => {
+            const val = cell ?? '';
+            return /[",\r\n]/.test(val) ? `"${val.replace(/"/g, '""')}"` : val;
+        }).join(',')).join('\r\n');
+    }
+
+    private static describeDelivery(d: PlaylistDelivery): string {
+        if (d.role === 'To' || d.role === 'Cc') return `${d.role} (${d.attached ? 'attached' : 'link'})`;
+        return d.role === 'Save' ? 'Saved' : 'My Reports';
+    }
+
+    /**
+     * Report-by-recipient matrix: one row per schedule item, one column per recipient,
+     * with a final row of per-recipient totals.
+     */
+    static buildRecipientMatrix(items: PlaylistItem[]): string[][] {
+        const { recipients, undelivered } = PlaylistParser.getDistribution(items);
+        const undeliveredIds = new Set(undelivered.map(i => i.itemId));
+
+        const header = ['Sequence', 'Report', 'Source Workbook', 'Active', 'Delivered', ...recipients.map(r => r.recipient)];
+        const rows = items.map(item => [
+            String(item.sequence),
+            PlaylistParser.getReportLabel(item),
+            item.sourcePath,
+            item.active ? 'Yes' : 'No',
+            undeliveredIds.has(item.itemId) ? 'NO - neither emailed nor saved' : 'Yes',
+            ...recipients.map(r => r.deliveries
+                .filter(d => d.itemId === item.itemId)
+                .map(d => this.describeDelivery(d))
+                .join('; '))
+        ]);
+        const totals = ['', 'Total items received', '', '', `${undelivered.length} not delivered`, ...recipients.map(r => String(r.deliveries.length))];
+
+        return [header, ...rows, totals];
+    }
+
+    static async downloadPlaylistRecipientMatrix(id: number) {
+        const playlist = await db.playlists.get(id);
+        if (!playlist) throw new Error('Playlist not found');
+
+        const csv = this.toCsv(this.buildRecipientMatrix(PlaylistParser.getItems(playlist.content)));
+        this.download(`${playlist.metadata.name}_Recipients.csv`, csv);
+    }
+
+    /** Every file path the ETLs in the library read or write, one row per use. */
+    static async downloadFileInventory() {
+        const inventory = FileInventoryGenerator.fromRecords(await db.reports.toArray());
+        this.download('File_Inventory.csv', this.toCsv(FileInventoryGenerator.toRows(inventory)));
+    }
+
+    private static download(filename: string, csv: string) {
+        const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    }
+}
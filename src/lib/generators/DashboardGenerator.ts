@@ -1,19 +1,16 @@
 import { db } from '../db';
+import { DashboardModel } from '../model/DashboardModel';
+import { ImportHealthGenerator } from './ImportHealthGenerator';
 
 export class DashboardGenerator {
     static async generateHtmlView(id: number, mode: 'business' | 'technical' = 'business'): Promise<string> {
         const dashboard = await db.dashboards.get(id);
         if (!dashboard) throw new Error("Dashboard not found");
 
-        const content = dashboard.content;
+        const model = DashboardModel.of(dashboard);
         const metadata = dashboard.metadata;
 
         // --- Helpers ---
-        const getList = (obj: any): any[] => {
-            if (!obj) return [];
-            return Array.isArray(obj) ? obj : [obj];
-        };
-
         const formatDate = (dateStr: string) => {
             if (!dateStr) return 'N/A';
             try {
@@ -53,13 +50,11 @@ export class DashboardGenerator {
         };
 
         // --- Extract Data ---
-        const dashDef = content.Dashboard?.EntityDef || {};
-        const dashLayout = dashDef.Definition?.Dashboard || {};
-        const layoutItems = getList(dashLayout.Layout?.LayoutItem || []);
-        const visualizations = getList(content.Visualisations?.ArrayOfEntityDef?.EntityDef || []);
-        const variables = getList(content.Variables?.ArrayOfVariableDef?.VariableDef || []);
+        const layoutItems = model.layout;
+        const visualizations = model.widgets;
+        const variables = model.variables;
 
-        const widgetMap = new Map(visualizations.map((v: any) => [v.GenericEntityId, v]));
+        const widgetMap = new Map(visualizations.map(v => [v.id, v]));
         const displayDate = formatDate(metadata.dateModified || dashboard.dateAdded.toISOString());
 
         // --- Metadata Grid ---
@@ -67,19 +62,19 @@ export class DashboardGenerator {
             <div class="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6 p-4 bg-white border border-gray-200 rounded-lg text-sm shadow-sm">
                 <div>
                     <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Owner</span>
-                    <span class="font-medium text-gray-800">${metadata.owner || dashDef.Owner || '-'}</span>
+                    <span class="font-medium text-gray-800">${metadata.owner || model.owner || '-'}</span>
                 </div>
                 <div>
                     <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Folder</span>
-                    <span class="font-medium text-gray-800 text-xs truncate" title="${metadata.parentPath || dashDef.ParentFileItemPath || ''}">${(metadata.parentPath || dashDef.ParentFileItemPath || '-').split('/').pop()}</span>
+                    <span class="font-medium text-gray-800 text-xs truncate" title="${metadata.parentPath || model.parentPath}">${(metadata.parentPath || model.parentPath || '-').split('/').pop()}</span>
                 </div>
                 <div class="text-right">
                     <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">System ID</span>
-                    <span class="font-mono text-gray-600 text-xs">${(dashDef.GenericEntityId || '-').substring(0, 12)}...</span>
+                    <span class="font-mono text-gray-600 text-xs">${(model.id || '-').substring(0, 12)}...</span>
                 </div>
                 <div>
                     <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Reporting System</span>
-                    <span class="font-medium text-gray-800">${dashDef.ReportingSystem || '-'}</span>
+                    <span class="font-medium text-gray-800">${model.reportingSystem || '-'}</span>
                 </div>
                 <div>
                     <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Published Date</span>
@@ -87,17 +82,14 @@ export class DashboardGenerator {
                 </div>
                 <div class="text-right">
                     <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Dashboard ID</span>
-                    <span class="font-mono text-gray-500 text-[11px] truncate inline-block" title="${dashDef.GenericEntityId}">${(dashDef.GenericEntityId || 'N/A').substring(0, 12)}</span>
+                    <span class="font-mono text-gray-500 text-[11px] truncate inline-block" title="${model.id}">${(model.id || 'N/A').substring(0, 12)}</span>
                 </div>
             </div>
         `;
 
         // --- Executive Summary ---
         const widgetTypes = new Map<string, number>();
-        visualizations.forEach((v: any) => {
-            const type = v.EntitySubType || 'UNKNOWN';
-            widgetTypes.set(type, (widgetTypes.get(type) || 0) + 1);
-        });
+        visualizations.forEach(v => widgetTypes.set(v.subType, (widgetTypes.get(v.subType) || 0) + 1));
 
         const typeBreakdown = Array.from(widgetTypes.entries())
             .map(([type, count]) => `${type}: ${count}`)
@@ -109,7 +101,7 @@ export class DashboardGenerator {
                     <span class="text-lg">📋</span> Executive Summary
                 </h3>
                 <p class="text-slate-700 text-lg leading-relaxed">
-                    This dashboard contains <strong>${visualizations.length} widgets</strong> (${typeBreakdown}) across <strong>${new Set(visualizations.map((v: any) => v.AttributeString1)).size} data models</strong> to provide business intelligence and reporting capabilities.
+                    This dashboard contains <strong>${visualizations.length} widgets</strong> (${typeBreakdown}) across <strong>${new Set(visualizations.map(v => v.dataModelId)).size} data models</strong> to provide business intelligence and reporting capabilities.
                 </p>
             </div>
         `;
@@ -121,9 +113,9 @@ export class DashboardGenerator {
             }
 
             let maxX = 0, maxY = 0;
-            layoutItems.forEach((item: any) => {
-                maxX = Math.max(maxX, (item.X || 0) + (item.Width || 1));
-                maxY = Math.max(maxY, (item.Y || 0) + (item.Height || 1));
+            layoutItems.forEach(item => {
+                maxX = Math.max(maxX, item.x + item.width);
+                maxY = Math.max(maxY, item.y + item.height);
             });
 
             const normalizeRow = (y: number) => Math.floor((y || 0) / 100);
@@ -133,14 +125,14 @@ export class DashboardGenerator {
                 .fill(null)
                 .map(() => Array(12).fill(null));
 
-            layoutItems.forEach((item: any) => {
-                const widget = widgetMap.get(item.Id);
-                const x = item.X || 0;
-                const row = normalizeRow(item.Y || 0);
-                const width = Math.min(item.Width || 1, 12 - x);
+            layoutItems.forEach(item => {
+                const widget = widgetMap.get(item.widgetId);
+                const x = item.x;
+                const row = normalizeRow(item.y);
+                const width = Math.min(item.width, 12 - x);
 
                 if (row <= maxRow && width > 0) {
-                    const label = `${widget?.Description || 'Widget'}`.substring(0, 18);
+                    const label = `${widget?.title || 'Widget'}`.substring(0, 18);
                     for (let col = x; col < Math.min(x + width, 12); col++) {
                         grid[row][col] = label;
                     }
@@ -180,10 +172,10 @@ export class DashboardGenerator {
             mermaidDef += '    classDef table fill:#fce7f3,stroke:#831843,stroke-width:2px,color:#831843;\n';
             mermaidDef += '    classDef chart fill:#fff7ed,stroke:#b45309,stroke-width:2px,color:#b45309;\n';
 
-            layoutItems.forEach((item: any, idx: number) => {
-                const widget = widgetMap.get(item.Id);
-                const name = widget?.Description || `Widget ${idx + 1}`;
-                const type = widget?.EntitySubType || 'WIDGET';
+            layoutItems.forEach((item, idx) => {
+                const widget = widgetMap.get(item.widgetId);
+                const name = widget?.title || `Widget ${idx + 1}`;
+                const type = widget?.subType || 'WIDGET';
                 const nodeId = `W${idx}`;
                 const typeClass = type === 'SLICER' ? 'slicer' : type === 'TABLE' ? 'table' : type === 'CHART' ? 'chart' : 'widget';
 
@@ -200,14 +192,14 @@ export class DashboardGenerator {
         // --- Widget Summary Table ---
         let widgetSummaryHtml = '';
         if (visualizations.length > 0) {
-            const widgetRows = visualizations.map((v: any, idx: number) => {
-                const filterCount = this.countFilters(v.AttributeText1);
-                const paramCount = this.countParams(v.AttributeText2);
+            const widgetRows = visualizations.map((v, idx) => {
+                const filterCount = v.filters.length;
+                const paramCount = v.parameters.length;
                 return {
                     Col1: `${idx + 1}`,
-                    Col2: v.Description || 'Unnamed',
-                    Col3: v.EntitySubType || 'UNKNOWN',
-                    Col4: v.DatamodelDescription || '-',
+                    Col2: v.title || 'Unnamed',
+                    Col3: v.subType,
+                    Col4: v.dataModelName || '-',
                     Col5: filterCount > 0 ? `<span class="bg-orange-100 text-orange-800 px-2 py-1 rounded text-xs">${filterCount}</span>` : '-',
                     Col6: paramCount > 0 ? `<span class="bg-blue-100 text-blue-800 px-2 py-1 rounded text-xs">${paramCount}</span>` : '-'
                 };
@@ -233,23 +225,20 @@ export class DashboardGenerator {
         if (visualizations.length > 0 && mode === 'technical') {
             detailedWidgetsHtml = '<details class="group mb-6"><summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-purple-50 hover:bg-purple-100 transition-colors select-none border-t border-b border-purple-200"><span class="text-xl font-bold text-slate-800 flex items-center gap-3"><span class="text-purple-500 text-lg">📋</span> Widget Details</span></summary><div class="pt-4 pb-2 px-2 space-y-4">';
 
-            visualizations.forEach((widget: any) => {
-                const criteria = widget.AttributeText1?.CriteriaSetItem?.CriteriaValues?.CriteriaValue || [];
-                const criteriaList = getList(criteria);
-                const params = widget.AttributeText2?.Parameters?.ParameterField || [];
-                const paramsList = getList(params);
-                const tableDef = widget.Definition?.Table;
-                const columns = tableDef?.Columns ? getList(tableDef.Columns) : [];
+            visualizations.forEach(widget => {
+                const criteriaList = widget.filters;
+                const paramsList = widget.parameters;
+                const columns = widget.columns;
                 let filterHtml = '';
                 let paramHtml = '';
                 let columnHtml = '';
 
                 if (criteriaList.length > 0) {
-                    const filterRows = criteriaList.map((c: any) => ({
-                        Col1: escapeHtml(c.ColumnId || 'N/A'),
-                        Col2: escapeHtml(c.Operator?.Value || '='),
-                        Col3: `<code class="bg-gray-100 px-2 py-1 rounded text-xs font-mono">${escapeHtml(c.Value1 || 'N/A')}</code>`,
-                        Col4: escapeHtml(c.Link || 'AND')
+                    const filterRows = criteriaList.map(c => ({
+                        Col1: escapeHtml(c.column),
+                        Col2: escapeHtml(c.operator || '='),
+                        Col3: `<code class="bg-gray-100 px-2 py-1 rounded text-xs font-mono">${escapeHtml(c.value1 || 'N/A')}</code>`,
+                        Col4: escapeHtml(c.link)
                     }));
                     filterHtml = `
                         <div class="mt-3">
@@ -260,9 +249,9 @@ export class DashboardGenerator {
                 }
 
                 if (paramsList.length > 0) {
-                    const paramRows = paramsList.map((p: any) => ({
-                        Col1: escapeHtml(p.FieldName || 'N/A'),
-                        Col2: `<code class="bg-gray-100 px-2 py-1 rounded text-xs font-mono">${escapeHtml(p.Value || 'N/A')}</code>`
+                    const paramRows = paramsList.map(p => ({
+                        Col1: escapeHtml(p.name || 'N/A'),
+                        Col2: `<code class="bg-gray-100 px-2 py-1 rounded text-xs font-mono">${escapeHtml(p.value || 'N/A')}</code>`
                     }));
                     paramHtml = `
                         <div class="mt-3">
@@ -273,11 +262,11 @@ export class DashboardGenerator {
                 }
 
                 if (columns.length > 0) {
-                    const columnRows = columns.map((col: any) => ({
-                        Col1: escapeHtml(col.Id || col.Name || 'N/A'),
-                        Col2: escapeHtml(col.Format || col.DataType || 'N/A'),
-                        Col3: escapeHtml(col.DisplayName || col.Label || '-'),
-                        Col4: col.Visible !== false ? '✓' : '✗'
+                    const columnRows = columns.map(col => ({
+                        Col1: escapeHtml(col.id || 'N/A'),
+                        Col2: escapeHtml(col.format || col.dataType || 'N/A'),
+                        Col3: escapeHtml(col.description || '-'),
+                        Col4: col.isVisible ? '✓' : '✗'
                     }));
                     columnHtml = `
                         <div class="mt-3">
@@ -291,26 +280,26 @@ export class DashboardGenerator {
                     <div class="border border-purple-200 bg-purple-50 rounded-lg p-4">
                         <div class="flex items-start justify-between mb-3">
                             <div>
-                                <h3 class="text-lg font-bold text-gray-800">${escapeHtml(widget.Description || 'Unnamed Widget')}</h3>
-                                <span class="inline-block mt-1 px-2 py-1 text-xs font-semibold rounded bg-purple-100 text-purple-800">${widget.EntitySubType || 'UNKNOWN'}</span>
+                                <h3 class="text-lg font-bold text-gray-800">${escapeHtml(widget.title || 'Unnamed Widget')}</h3>
+                                <span class="inline-block mt-1 px-2 py-1 text-xs font-semibold rounded bg-purple-100 text-purple-800">${widget.subType}</span>
                             </div>
                         </div>
                         <div class="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm mb-4 bg-white p-3 rounded border border-purple-100">
                             <div>
                                 <div class="text-xs font-semibold text-gray-600">Widget ID</div>
-                                <div class="font-mono text-xs text-gray-700 break-all">${escapeHtml((widget.GenericEntityId || 'N/A').substring(0, 16))}...</div>
+                                <div class="font-mono text-xs text-gray-700 break-all">${escapeHtml((widget.id || 'N/A').substring(0, 16))}...</div>
                             </div>
                             <div>
                                 <div class="text-xs font-semibold text-gray-600">Data Model ID</div>
-                                <div class="font-mono text-xs text-gray-700 break-all">${escapeHtml((widget.AttributeString1 || 'N/A').substring(0, 16))}...</div>
+                                <div class="font-mono text-xs text-gray-700 break-all">${escapeHtml((widget.dataModelId || 'N/A').substring(0, 16))}...</div>
                             </div>
                             <div>
                                 <div class="text-xs font-semibold text-gray-600">Data Model Name</div>
-                                <div class="text-gray-700">${escapeHtml(widget.DatamodelDescription || 'N/A')}</div>
+                                <div class="text-gray-700">${escapeHtml(widget.dataModelName || 'N/A')}</div>
                             </div>
                             <div>
                                 <div class="text-xs font-semibold text-gray-600">Owner</div>
-                                <div class="text-gray-700">${escapeHtml(widget.Owner || 'N/A')}</div>
+                                <div class="text-gray-700">${escapeHtml(widget.owner || 'N/A')}</div>
                             </div>
                         </div>
                         ${filterHtml}
@@ -335,12 +324,12 @@ export class DashboardGenerator {
                 'F': 'Float'
             };
 
-            const varRows = variables.map((v: any) => ({
-                Col1: v.Name || '-',
-                Col2: typeMap[v.VariableType || ''] || v.VariableType || '-',
-                Col3: v.DefaultValue || '-',
-                Col4: v.SelectionTypeListType || v.ListType || '-',
-                Col5: v.Description || '-'
+            const varRows = variables.map(v => ({
+                Col1: v.name || '-',
+                Col2: typeMap[v.type] || v.type || '-',
+                Col3: v.defaultValue || '-',
+                Col4: v.listSource || '-',
+                Col5: v.description || '-'
             }));
 
             variablesHtml = `
@@ -360,25 +349,21 @@ export class DashboardGenerator {
         }
 
         // --- Data Model Dependencies ---
-        const dmIds = new Set(visualizations.map((v: any) => v.AttributeString1).filter(Boolean));
+        const dataModels = DashboardModel.dataModels(model);
         let dependenciesHtml = '';
-        if (dmIds.size > 0) {
-            const dmRows = Array.from(dmIds).map((id: any) => {
-                const dmName = visualizations.find((v: any) => v.AttributeString1 === id)?.DatamodelDescription || 'Unknown';
-                const widgetCount = visualizations.filter((v: any) => v.AttributeString1 === id).length;
-                return {
-                    Col1: dmName,
-                    Col2: id.substring(0, 12) + '...',
-                    Col3: `${widgetCount} widget${widgetCount !== 1 ? 's' : ''}`
-                };
-            });
+        if (dataModels.length > 0) {
+            const dmRows = dataModels.map(dm => ({
+                Col1: dm.name || 'Unknown',
+                Col2: dm.id.substring(0, 12) + '...',
+                Col3: `${dm.widgets.length} widget${dm.widgets.length !== 1 ? 's' : ''}`
+            }));
 
             dependenciesHtml = `
                 <details open class="group">
                     <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-cyan-50 hover:bg-cyan-100 transition-colors select-none border-t border-b border-cyan-200">
                         <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
                             <span class="text-cyan-600 text-lg">🔗</span> Data Model Dependencies
-                            <span class="text-xs bg-cyan-100 text-cyan-700 px-2 py-0.5 rounded-full border border-cyan-200">${dmIds.size}</span>
+                            <span class="text-xs bg-cyan-100 text-cyan-700 px-2 py-0.5 rounded-full border border-cyan-200">${dataModels.length}</span>
                         </span>
                     </summary>
                     <div class="pt-4 pb-2 px-2">
@@ -394,7 +379,7 @@ export class DashboardGenerator {
             <div class="doc-header">
                 <div class="flex justify-between items-start">
                     <div>
-                        <h2 class="text-3xl font-bold text-slate-800 tracking-tight">${escapeHtml(metadata.name || dashDef.Description || 'Dashboard')}</h2>
+                        <h2 class="text-3xl font-bold text-slate-800 tracking-tight">${escapeHtml(metadata.name || model.description || 'Dashboard')}</h2>
                     </div>
                     <span class="bg-emerald-100 text-emerald-800 text-xs font-bold px-3 py-1 rounded-full uppercase tracking-wide border border-emerald-200">Dashboard</span>
                 </div>
@@ -419,23 +404,8 @@ export class DashboardGenerator {
                 ${detailedWidgetsHtml}
                 ${variablesHtml}
                 ${dependenciesHtml}
+                ${ImportHealthGenerator.renderPanel(dashboard.parseIssues)}
             </div>
         `;
     }
-
-    private static countFilters(criteriaText: any): number {
-        if (!criteriaText) return 0;
-        const criteria = criteriaText.CriteriaSetItem;
-        if (!criteria) return 0;
-        const values = criteria.CriteriaValues?.CriteriaValue;
-        if (!values) return 0;
-        return Array.isArray(values) ? values.length : 1;
-    }
-
-    private static countParams(paramsText: any): number {
-        if (!paramsText) return 0;
-        const params = paramsText.Parameters?.ParameterField;
-        if (!params) return 0;
-        return Array.isArray(params) ? params.length : 1;
-    }
 }
@@ -1,17 +1,16 @@
 import { db } from '../db';
 import { ExpressionFormatter } from '../formatters/ExpressionFormatter';
+import { DataModelModel, type DataModelIndex, type DataModelQuery } from '../model/DataModelModel';
+import { ImportHealthGenerator } from './ImportHealthGenerator';
 
 export class DataModelGenerator {
     static async generateHtmlView(id: number, _viewMode: 'business' | 'technical' = 'business'): Promise<string> {
         const dm = await db.dataModels.get(id);
         if (!dm) throw new Error("Data Model not found");
 
-        const content = dm.content;
+        const model = DataModelModel.of(dm);
         const metadata = dm.metadata;
-
-        // Extract ProcessMode
-        const rootDef = content.DataModel?.DataModelDef || content.DataModel?.Definition;
-        const processMode = rootDef?.ProcessMode || 'N/A';
+        const processMode = model.processMode || 'N/A';
 
 
         // --- Section: Header ---
@@ -55,8 +54,6 @@ export class DataModelGenerator {
         `;
 
         // Variables
-        // Variables
-        const rawVars = this.getList(content.Variables?.ArrayOfVariableDef?.VariableDef);
         const resolveType = (t: string) => {
             const types: Record<string, string> = {
                 'A': 'String',
@@ -69,40 +66,19 @@ export class DataModelGenerator {
             return types[t] || t || 'String';
         };
 
-        const variables = rawVars.map((v: any) => ({
-            Name: v.Name,
-            Value: v.DefaultValue,
-            Type: resolveType(v.DataType || v.VariableType),
-            Source: v.DataSourceName || '',
-            Description: v.Description
-        }));
-        const variableSet = new Set(variables.map((v: any) => v.Name));
-
-        // Indexes
-        const rawIndexes = this.getList(content.DataModel?.Definition?.DataModelDefinition?.Indexes?.Index);
-        const indexes = rawIndexes.map((idx: any) => ({
-            Name: idx.Name,
-            Columns: this.getList(idx.Columns?.Column).map((c: any) => c.Name).join(', ')
-        }));
-        const indexMap = new Map(indexes.map((i: any) => [i.Name, i]));
-
-        // Drilldown Views (Detail Views)
-        const rawViews = this.getList(content.DataModel?.Definition?.DataModelDefinition?.DetailViews?.View);
-        const views = rawViews.map((v: any) => ({
-            Name: v.Name,
-            Columns: this.getList(v.Columns?.Column).map((c: any) => c.Name).join(', ')
-        }));
-
-        // Queries - Sort by Sequence
-        const rawQueries = this.getList(content.Queries?.ArrayOfQuery?.Query);
-        const queries = rawQueries.sort((a: any, b: any) => (Number(a.Sequence) || 0) - (Number(b.Sequence) || 0));
-
-        const finalQuery = queries.length > 0 ? queries[queries.length - 1] : null;
-        const intermediateQueries = queries.length > 1 ? queries.slice(0, queries.length - 1) : [];
+        const variables = model.variables;
+        const variableSet = new Set(variables.map(v => v.name));
+        const indexes = model.indexes;
+        const views = model.detailViews;
+
+        // Queries are in Sequence order; the last one is the model's output
+        const queries = model.queries;
+        const finalQuery = DataModelModel.finalQuery(model);
+        const intermediateQueries = queries.slice(0, -1);
 
         // Build Table Set from all datasources
-        const allDS = this.getList(content.QueryDatasources?.ArrayOfQueryDatasource?.QueryDatasource);
-        const tableSet = new Set(allDS.map((d: any) => d.DatasourceId || d.DataSourceName).filter(Boolean));
+        const allDS = queries.flatMap(q => q.datasources);
+        const tableSet = new Set(allDS.map(d => d.id || d.name).filter(Boolean));
 
         const stepNotes = dm.stepNotes || {};
 
@@ -159,14 +135,10 @@ export class DataModelGenerator {
         const generateSummary = () => {
             if (!finalQuery) return "No queries defined in this data model.";
 
-            const uniqueSources = new Set(allDS.filter((d: any) => d.DataSourceType !== 'Query').map((d: any) => d.DataSourceName || d.TableName)).size;
+            const uniqueSources = new Set(allDS.filter(d => d.type !== 'Query').map(d => d.name || d.source)).size;
             const queryCount = queries.length;
 
-            // Get columns for final query
-            const finalCols = this.getList(content.QueryColumns?.ArrayOfQueryColumn?.QueryColumn)
-                .filter((c: any) => c.QueryName === finalQuery.QueryName);
-
-            return `This Data Model generates the <strong>${finalQuery.QueryName}</strong> dataset. It aggregates data from <strong>${uniqueSources} external sources</strong> across <strong>${queryCount} transformation steps</strong> to produce <strong>${finalCols.length} output columns</strong>.`;
+            return `This Data Model generates the <strong>${finalQuery.name}</strong> dataset. It aggregates data from <strong>${uniqueSources} external sources</strong> across <strong>${queryCount} transformation steps</strong> to produce <strong>${finalQuery.columns.length} output columns</strong>.`;
         };
 
         const summaryHtml = `
@@ -208,12 +180,12 @@ export class DataModelGenerator {
                     </summary>
                     <div class="pt-6 pb-2 px-2">
                         ${(() => {
-                            const varRows = variables.map((v: any) => ({
-                                Col1: v.Name,
-                                Col2: v.Value,
-                                Col3: v.Type,
-                                Col4: v.Description,
-                                id: v.Name ? `var-${v.Name.replace(/[^a-zA-Z0-9_-]/g, '_')}` : ''
+                            const varRows = variables.map(v => ({
+                                Col1: v.name,
+                                Col2: v.defaultValue,
+                                Col3: resolveType(v.type),
+                                Col4: v.description,
+                                id: v.name ? `var-${v.name.replace(/[^a-zA-Z0-9_-]/g, '_')}` : ''
                             }));
                             const varIds = varRows.map((r: any) => r.id);
                             return renderTable(
@@ -237,10 +209,10 @@ export class DataModelGenerator {
                     </summary>
                     <div class="pt-6 pb-2 px-2">
                          ${(() => {
-                             const indexRows = indexes.map((i: any) => ({
-                                 Col1: i.Name,
-                                 Col2: i.Columns,
-                                 id: i.Name ? `index-${i.Name.replace(/[^a-zA-Z0-9_-]/g, '_')}` : ''
+                             const indexRows = indexes.map(i => ({
+                                 Col1: i.name,
+                                 Col2: i.columns.join(', '),
+                                 id: i.name ? `index-${i.name.replace(/[^a-zA-Z0-9_-]/g, '_')}` : ''
                              }));
                              const indexIds = indexRows.map((r: any) => r.id);
                              return renderTable(['Index Name', 'Columns'], indexRows, indexIds);
@@ -260,10 +232,10 @@ export class DataModelGenerator {
                     </summary>
                     <div class="pt-6 pb-2 px-2">
                          ${(() => {
-                             const viewRows = views.map((v: any) => ({
-                                 Col1: v.Name,
-                                 Col2: v.Columns,
-                                 id: v.Name ? `view-${v.Name.replace(/[^a-zA-Z0-9_-]/g, '_')}` : ''
+                             const viewRows = views.map(v => ({
+                                 Col1: v.name,
+                                 Col2: v.columns.join(', '),
+                                 id: v.name ? `view-${v.name.replace(/[^a-zA-Z0-9_-]/g, '_')}` : ''
                              }));
                              const viewIds = viewRows.map((r: any) => r.id);
                              return renderTable(['View Name', 'Columns'], viewRows, viewIds);
@@ -282,7 +254,7 @@ export class DataModelGenerator {
                             <h2 class="text-2xl font-bold text-gray-800">Final Output</h2>
                          </div>
                          <div class="bg-white rounded-xl shadow-sm border border-emerald-100 overflow-hidden">
-                            ${this.renderQueryCard(finalQuery, content, renderTable, variableSet, tableSet, indexMap, true, id, stepNotes)}
+                            ${this.renderQueryCard(finalQuery, renderTable, variableSet, tableSet, indexes, true, id, stepNotes)}
                          </div>
                     </div>
                  ` : ''}
@@ -299,18 +271,20 @@ export class DataModelGenerator {
                          </div>
                          <div class="hidden">
                             <div class="grid grid-cols-1 gap-6">
-                                ${intermediateQueries.map(q => this.renderQueryCard(q, content, renderTable, variableSet, tableSet, indexMap, false, id, stepNotes)).join('')}
+                                ${intermediateQueries.map(q => this.renderQueryCard(q, renderTable, variableSet, tableSet, indexes, false, id, stepNotes)).join('')}
                             </div>
                          </div>
                      </div>
                  ` : ''}
+
+                ${ImportHealthGenerator.renderPanel(dm.parseIssues)}
             </div>
         `;
     }
 
-    private static renderQueryCard(query: any, content: any, renderTable: (h: string[], r: any[], rowIds?: string[]) => string, variableSet: Set<string>, tableSet: Set<string>, indexMap: Map<string, any>, isFinal: boolean = false, reportId: number = 0, stepNotes: any = {}): string {
-        const qName = query.QueryName;
-        const id = query.Id;
+    private static renderQueryCard(query: DataModelQuery, renderTable: (h: string[], r: any[], rowIds?: string[]) => string, variableSet: Set<string>, tableSet: Set<string>, indexes: DataModelIndex[], isFinal: boolean = false, reportId: number = 0, stepNotes: any = {}): string {
+        const qName = query.name;
+        const id = DataModelModel.noteKey(query);
 
         // Note UI Generation
         const stepNote = stepNotes[id] || '';
@@ -338,36 +312,28 @@ export class DataModelGenerator {
             </div>
         `;
 
-        // Find columns
-        const allCols = this.getList(content.QueryColumns?.ArrayOfQueryColumn?.QueryColumn);
-        const myCols = allCols.filter((c: any) => c.QueryName === qName);
-
-        // Find joins
-        const allJoins = this.getList(content.QueryJoins?.ArrayOfQueryJoin?.QueryJoin);
-        const myJoins = allJoins.filter((j: any) => j.QueryName === qName);
-
-        // Find datasources
-        const allDS = this.getList(content.QueryDatasources?.ArrayOfQueryDatasource?.QueryDatasource);
-        const myDS = allDS.filter((d: any) => d.QueryName === qName);
+        const myCols = query.columns;
+        const myJoins = query.joins;
+        const myDS = query.datasources;
 
         // Prepare Table Data (Columns)
-        const colRows = myCols.map((c: any) => {
+        const colRows = myCols.map(c => {
             let source = '';
-            if (c.Expression) {
-                source = c.Expression;
-            } else if (c.DataSourceName && c.FieldId) {
-                source = `<div>${ExpressionFormatter.formatTable(`${c.DataSourceName}.${c.FieldId}`)}</div>`;
+            if (c.expression) {
+                source = c.expression;
+            } else if (c.dataSourceName && c.fieldId) {
+                source = `<div>${ExpressionFormatter.formatTable(`${c.dataSourceName}.${c.fieldId}`)}</div>`;
             } else {
-                source = c.DataSourceName || '';
+                source = c.dataSourceName;
             }
 
-            const nameHtml = `<div class="font-medium text-slate-900">${c.ColumnName || 'Unknown Column'}</div>` +
-                (c.Description ? `<div class="text-xs text-gray-500 italic mt-0.5">${ExpressionFormatter.colouriseTextHTML(c.Description, variableSet, tableSet)}</div>` : '');
+            const nameHtml = `<div class="font-medium text-slate-900">${c.name || 'Unknown Column'}</div>` +
+                (c.description ? `<div class="text-xs text-gray-500 italic mt-0.5">${ExpressionFormatter.colouriseTextHTML(c.description, variableSet, tableSet)}</div>` : '');
 
-            const typeHtml = `<div class="text-slate-700">${c.JavaType || c.DataType || 'String'}</div>` +
-                (c.Format && c.Format !== '-' ? `<div class="text-xs text-gray-500 italic mt-0.5">${c.Format}</div>` : '');
+            const typeHtml = `<div class="text-slate-700">${c.dataType}</div>` +
+                (c.format && c.format !== '-' ? `<div class="text-xs text-gray-500 italic mt-0.5">${c.format}</div>` : '');
 
-            const columnId = c.ColumnName ? `col-${c.ColumnName.replace(/[^a-zA-Z0-9_-]/g, '_')}` : '';
+            const columnId = c.name ? `col-${c.name.replace(/[^a-zA-Z0-9_-]/g, '_')}` : '';
 
             return {
                 Col1: nameHtml,
@@ -379,52 +345,18 @@ export class DataModelGenerator {
         const colIds = colRows.map((r: any) => r.id);
 
         // Find Filters (Criteria)
-        const filters: { col: string, op: string, val: string, rawOp: string, isIndex: boolean, indexCols?: string }[] = [];
-        const processCriteria = (crit: any) => {
-            if (!crit) return;
-            const values = this.getList(crit.CriteriaValues?.CriteriaValue);
-            values.forEach((v: any) => {
-                if (v.ColumnId && v.Operator?.Value) {
-                    let op = v.Operator.Value;
-                    const rawOp = op; // Store original for tooltip
-                    let val = v.Value1 || '';
-
-                    // Refine Operator and Value using Normalization
-                    // "Add spaces before any capital letters, then convert all to lower case"
-                    let niceOp = op.replace(/([A-Z])/g, ' $1').trim().toLowerCase();
-
-                    // Special Handling for values or specific overrides
-                    if (op === 'Between') {
-                        val = `${v.Value1 || '?'} and ${v.Value2 || '?'}`;
-                    }
+        const filters = query.criteria.filter(c => c.operator).map(c => {
+            // "Add spaces before any capital letters, then convert all to lower case"
+            const op = c.operator.replace(/([A-Z])/g, ' $1').trim().toLowerCase();
+            let val = c.operator === 'Between' ? `${c.value1 || '?'} and ${c.value2 || '?'}` : c.value1;
 
-                    op = niceOp;
-
-                    // Handle generic empty string visuals
-                    if (val === '') val = '<span class="italic text-gray-400">nothing</span>';
-
-                    // Check if col is an Index
-                    const index = indexMap.get(v.ColumnId);
-
-                    filters.push({
-                        col: v.ColumnId,
-                        op: op,
-                        val: val,
-                        rawOp: rawOp,
-                        isIndex: !!index,
-                        indexCols: index ? index.Columns : undefined
-                    });
-                }
-            });
-            if (crit.NestedSets?.CriteriaSetItem) {
-                const nested = this.getList(crit.NestedSets.CriteriaSetItem);
-                nested.forEach((n: any) => processCriteria(n));
-            }
-        };
+            // Handle generic empty string visuals
+            if (val === '') val = '<span class="italic text-gray-400">nothing</span>';
 
-        if (query.Criteria?.CriteriaSetItem) {
-            processCriteria(query.Criteria.CriteriaSetItem);
-        }
+            // Filters on an indexed column can use the index
+            const index = indexes.find(i => i.columns.includes(c.column));
+            return { col: c.column, op, val, rawOp: c.operator, isIndex: !!index, indexCols: index?.columns.join(', ') };
+        });
 
         const qDisplayName = qName || '(Unnamed Query)';
         const queryId = qName ? `query-${qName.replace(/[^a-zA-Z0-9_-]/g, '_')}` : '';
@@ -479,23 +411,16 @@ export class DataModelGenerator {
                         <div class="mb-6">
                             <h4 class="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Sources</h4>
                             <div class="flex flex-wrap gap-2">
-                                ${myDS.map((ds: any) => {
-            // Helper to extract real table/query name from parameters
-            const getParamValue = (name: string) => {
-                const fields = this.getList(ds.ParameterValues?.Parameters?.ParameterField);
-                const field = fields.find((f: any) => f.FieldName === name);
-                return field ? field.Value : null;
-            };
-
-            const realName = getParamValue('TableName') || getParamValue('QueryName') || getParamValue('WarehouseName');
-            const shortName = ds.DataSourceName;
-            const type = ds.DataSourceType || 'Table';
+                                ${myDS.map(ds => {
+            const realName = ds.source;
+            const shortName = ds.name;
+            const type = ds.type;
 
             let displayName = shortName || '';
             if (realName && shortName && realName !== shortName) {
                 displayName = `<span class="font-bold">${shortName}</span> <span class="opacity-70 font-normal ml-1">(${realName})</span>`;
             } else {
-                displayName = displayName || realName || ds.DatasourceId || 'Unknown Source';
+                displayName = displayName || realName || ds.id || 'Unknown Source';
             }
 
             // Style based on type
@@ -517,7 +442,7 @@ export class DataModelGenerator {
             }
 
             return `
-                                        <div class="${colorClass} px-3 py-1 rounded border inline-flex items-center font-mono text-xs font-semibold tracking-tight" title="${ds.DatasourceId}">
+                                        <div class="${colorClass} px-3 py-1 rounded border inline-flex items-center font-mono text-xs font-semibold tracking-tight" title="${ds.id}">
                                             <span class="opacity-60 text-[9px] mr-2 border-r border-current pr-2 leading-none">${typeLabel}</span>
                                             <span>${displayName}</span>
                                         </div>`;
@@ -540,12 +465,12 @@ export class DataModelGenerator {
                                         </tr>
                                     </thead>
                                     <tbody class="bg-white divide-y divide-slate-200">
-                                        ${myJoins.map((j: any) => `
+                                        ${myJoins.map(j => `
                                             <tr class="hover:bg-slate-50">
-                                                <td class="px-3 py-2 whitespace-nowrap text-xs text-gray-500 font-mono border-r border-slate-100">${j.JoinType || 'Inner'}</td>
-                                                <td class="px-3 py-2 whitespace-nowrap text-sm text-gray-700 font-mono">${ExpressionFormatter.colouriseTextHTML((j.DataSource1 ? j.DataSource1 + '.' : '') + (j.Field1 || '?'), variableSet, tableSet)}</td>
+                                                <td class="px-3 py-2 whitespace-nowrap text-xs text-gray-500 font-mono border-r border-slate-100">${j.joinType}</td>
+                                                <td class="px-3 py-2 whitespace-nowrap text-sm text-gray-700 font-mono">${ExpressionFormatter.colouriseTextHTML((j.leftSource ? j.leftSource + '.' : '') + (j.leftField || '?'), variableSet, tableSet)}</td>
                                                 <td class="px-3 py-2 whitespace-nowrap text-xs text-gray-400 text-center">=</td>
-                                                <td class="px-3 py-2 whitespace-nowrap text-sm text-gray-700 font-mono">${ExpressionFormatter.colouriseTextHTML((j.DataSource2 ? j.DataSource2 + '.' : '') + (j.Field2 || '?'), variableSet, tableSet)}</td>
+                                                <td class="px-3 py-2 whitespace-nowrap text-sm text-gray-700 font-mono">${ExpressionFormatter.colouriseTextHTML((j.rightSource ? j.rightSource + '.' : '') + (j.rightField || '?'), variableSet, tableSet)}</td>
                                             </tr>
                                         `).join('')}
                                     </tbody>
@@ -566,9 +491,4 @@ export class DataModelGenerator {
             </details>
         `;
     }
-
-    private static getList(obj: any): any[] {
-        if (!obj) return [];
-        return Array.isArray(obj) ? obj : [obj];
-    }
 }
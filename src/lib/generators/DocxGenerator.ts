@@ -18,7 +18,18 @@ import {
     ImageRun
 } from 'docx';
 import { EtlParser } from '../parsers/EtlParser';
+import { XlOneParser, type XlOneWorkbook } from '../parsers/XlOneParser';
+import { PlaylistParser } from '../parsers/PlaylistParser';
+import { EtlModel } from '../model/EtlModel';
+import { VariableFlow, VARIABLE_FLOW_ISSUE_LABELS, type VariableAccess } from '../analysis/VariableFlow';
+import { ComplexityScore, type ComplexityAssessment } from '../analysis/ComplexityScore';
+import { StepHandlers } from '../parsers/steps/StepHandlers';
+import type { StepFact } from '../parsers/steps/StepHandler';
+import { DataModelModel } from '../model/DataModelModel';
+import { DashboardModel } from '../model/DashboardModel';
 import { MermaidGenerator } from './MermaidGenerator';
+import { ImportHealthGenerator } from './ImportHealthGenerator';
+import type { ParseIssue } from '../parsers/ParseIssue';
 
 export class DocxGenerator {
 
@@ -43,7 +54,7 @@ export class DocxGenerator {
     }
 
     // Reuse the Executive Summary logic from EtlGenerator
-    private static generateEtlSummary(flow: any[]) {
+    private static generateEtlSummary(flow: any[], complexity?: ComplexityAssessment) {
         const sources: string[] = [];
         const targets: string[] = [];
         const sourceNames = new Set<string>();
@@ -145,14 +156,22 @@ export class DocxGenerator {
             }
         }
 
-        if (parts.length === 0) return "This process performs a sequence of data operations.";
+        const score = complexity ? ` ${this.complexitySentence(complexity)}` : '';
+        if (parts.length === 0) return `This process performs a sequence of data operations.${score}`;
 
         let narrative = parts.join(', ');
         const lastComma = narrative.lastIndexOf(', ');
         if (lastComma !== -1) {
             narrative = narrative.substring(0, lastComma) + ' and ' + narrative.substring(lastComma + 2);
         }
-        return `This process ${narrative}.`;
+        return `This process ${narrative}.${score}`;
+    }
+
+    private static complexitySentence(complexity: ComplexityAssessment): string {
+        const drivers = ComplexityScore.drivers(complexity).slice(0, 3).map(f => `${f.label.toLowerCase()} (+${f.points})`);
+        if (drivers.length === 0) return `Its complexity and risk score is ${complexity.total} (${complexity.level}).`;
+        const list = drivers.length > 1 ? `${drivers.slice(0, -1).join(', ')} and ${drivers[drivers.length - 1]}` : drivers[0];
+        return `Its complexity and risk score is ${complexity.total} (${complexity.level}), mostly from ${list}.`;
     }
 
     // --- ETL Report Extraction ---
@@ -191,7 +210,23 @@ export class DocxGenerator {
 
         // 2. Executive Summary & Flow Chart
         sections.push(new Paragraph({ children: [this.createText("Executive Summary", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
-        sections.push(new Paragraph({ children: [this.createText(this.generateEtlSummary(flowData.executionFlow), { italic: true })], spacing: { after: 300 } }));
+        const complexity = ComplexityScore.of(report);
+        sections.push(new Paragraph({ children: [this.createText(this.generateEtlSummary(flowData.executionFlow, complexity), { italic: true })], spacing: { after: 300 } }));
+
+        const drivers = ComplexityScore.drivers(complexity);
+        if (drivers.length > 0) {
+            sections.push(new Table({
+                width: { size: 100, type: WidthType.PERCENTAGE },
+                rows: [
+                    new TableRow({ children: [this.createHeaderCell("Complexity Factor"), this.createHeaderCell("Value"), this.createHeaderCell("Points")] }),
+                    ...drivers.map(f => new TableRow({
+                        children: [this.createCell(f.label), this.createCell(String(f.value)), this.createCell(`+${f.points}`)]
+                    })),
+                    new TableRow({ children: [this.createCell("Total", { bold: true }), this.createCell(complexity.level), this.createCell(String(complexity.total), { bold: true })] })
+                ]
+            }));
+            sections.push(new Paragraph({ text: "", spacing: { after: 300 } }));
+        }
 
         try {
             const imageBase64 = await MermaidGenerator.getFlowChartImage(flowData.executionTree, mode);
@@ -237,7 +272,8 @@ export class DocxGenerator {
         }
 
         // 3.1 Process Parameters (from Variables.xml)
-        const processParams = this.extractProcessParameters(report.rawVariables);
+        const process = EtlModel.of(report);
+        const processParams = process.variables;
         if (processParams.length > 0) {
             sections.push(new Paragraph({ children: [this.createText("Process Parameters", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
 
@@ -256,13 +292,13 @@ export class DocxGenerator {
                 ]
             });
 
-            const pRows = processParams.map((p: any) => new TableRow({
+            const pRows = processParams.map(p => new TableRow({
                 children: [
-                    this.createCell(p.Name, { bold: true }),
-                    this.createCell(resolveVarType(p.VariableType)),
-                    this.createCell(p.DefaultValue || '-'),
-                    this.createCell(p.IsMandatory === 'true' ? 'Yes' : 'No'),
-                    this.createCell(p.Description || '')
+                    this.createCell(p.name, { bold: true }),
+                    this.createCell(resolveVarType(p.type)),
+                    this.createCell(p.defaultValue || '-'),
+                    this.createCell(p.mandatory ? 'Yes' : 'No'),
+                    this.createCell(p.description)
                 ]
             }));
 
@@ -270,9 +306,46 @@ export class DocxGenerator {
             sections.push(new Paragraph({ text: "", spacing: { after: 300 } }));
         }
 
+        // 3.1.1 Variable Flow (definitions and uses in execution order)
+        const variableFlow = VariableFlow.analyse(process);
+        if (variableFlow.length > 0) {
+            sections.push(new Paragraph({ children: [this.createText("Variable Flow", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
+            sections.push(new Paragraph({ children: [this.createText("Where each variable is set and read, in execution order (#n is the step's position; disabled steps are left out).", { italic: true, size: 18 })], spacing: { after: 100 } }));
+
+            const describeAccess = (a: VariableAccess) => a.kind === 'parameter'
+                ? 'Parameter'
+                : `#${a.order} ${a.stepName}${a.kind === 'loop' ? ' (loop)' : ''}${a.conditional ? ' (conditional)' : ''}`;
+
+            const vfHeader = new TableRow({
+                children: [
+                    this.createHeaderCell("Variable"),
+                    this.createHeaderCell("Set By"),
+                    this.createHeaderCell("Read By"),
+                    this.createHeaderCell("Flags")
+                ]
+            });
+
+            // One paragraph per entry, as line breaks inside a text run are not rendered
+            const lines = (items: string[], opts: any = {}) => items.length > 0
+                ? items.map(t => new Paragraph({ children: [this.createText(t, { size: 18, ...opts })] }))
+                : '-';
+
+            const vfRows = variableFlow.map(e => new TableRow({
+                children: [
+                    this.createCell(e.name, { bold: true }),
+                    this.createCell(lines(e.definitions.map(describeAccess)), { size: 18 }),
+                    this.createCell(lines(e.uses.map(describeAccess)), { size: 18 }),
+                    this.createCell(lines(e.issues.map(i => `${VARIABLE_FLOW_ISSUE_LABELS[i.kind]}: ${i.message}`), { color: e.issues.some(i => i.kind !== 'parameter-only') ? "B91C1C" : "6B21A8" }), { size: 18 })
+                ]
+            }));
+
+            sections.push(new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [vfHeader, ...vfRows] }));
+            sections.push(new Paragraph({ text: "", spacing: { after: 300 } }));
+        }
+
         // 3.2 File Locations (Technical mode only)
         if (mode === 'technical') {
-            const fileLocations = this.extractFileLocations(report.rawFileLocations);
+            const fileLocations = process.fileLocations;
             if (fileLocations.length > 0) {
                 sections.push(new Paragraph({ children: [this.createText("File Locations", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
 
@@ -285,12 +358,12 @@ export class DocxGenerator {
                     ]
                 });
 
-                const fRows = fileLocations.map((loc: any) => new TableRow({
+                const fRows = fileLocations.map(loc => new TableRow({
                     children: [
-                        this.createCell(loc.Name, { bold: true }),
-                        this.createCell(loc.LocationType || 'ServerFolder'),
-                        this.createCell(loc.Path || loc.ServerFolder || '-', { font: "Courier New", size: 18 }),
-                        this.createCell(loc.Description || '')
+                        this.createCell(loc.name, { bold: true }),
+                        this.createCell(loc.locationType),
+                        this.createCell(loc.path || '-', { font: "Courier New", size: 18 }),
+                        this.createCell(loc.description)
                     ]
                 }));
 
@@ -299,7 +372,7 @@ export class DocxGenerator {
             }
 
             // 3.3 Attachments (Technical mode only)
-            const attachments = this.extractAttachments(report.rawAttachments);
+            const attachments = process.attachments;
             if (attachments.length > 0) {
                 sections.push(new Paragraph({ children: [this.createText("Attachments", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
 
@@ -311,11 +384,11 @@ export class DocxGenerator {
                     ]
                 });
 
-                const aRows = attachments.map((att: any) => new TableRow({
+                const aRows = attachments.map(att => new TableRow({
                     children: [
-                        this.createCell(att.FileName || att.Name || 'Unknown', { bold: true }),
-                        this.createCell(att.Description || '-'),
-                        this.createCell(att.FileData ? `${Math.round(att.FileData.length * 0.75 / 1024)} KB` : '-')
+                        this.createCell(att.fileName, { bold: true }),
+                        this.createCell(att.description || '-'),
+                        this.createCell(att.size ? `${Math.round(att.size / 1024)} KB` : '-')
                     ]
                 }));
 
@@ -324,6 +397,32 @@ export class DocxGenerator {
             }
         }
 
+        // 3.4 Generic Rendering (Technical mode only)
+        const unhandled = StepHandlers.unhandled(process);
+        if (mode === 'technical' && unhandled.length > 0) {
+            sections.push(new Paragraph({ children: [this.createText("Generic Rendering", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
+            sections.push(new Paragraph({ children: [this.createText("Step types without a dedicated handler. These steps show their name, inputs and outputs only.", { italic: true, size: 18 })], spacing: { after: 100 } }));
+
+            const uHeader = new TableRow({
+                children: [
+                    this.createHeaderCell("Step Type"),
+                    this.createHeaderCell("Count"),
+                    this.createHeaderCell("Steps")
+                ]
+            });
+
+            const uRows = unhandled.map(u => new TableRow({
+                children: [
+                    this.createCell(u.type, { bold: true }),
+                    this.createCell(String(u.steps.length)),
+                    this.createCell(u.steps.map(st => st.name).join(', '))
+                ]
+            }));
+
+            sections.push(new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [uHeader, ...uRows] }));
+            sections.push(new Paragraph({ text: "", spacing: { after: 300 } }));
+        }
+
         // 4. Process Logic (The Steps)
         sections.push(new Paragraph({ children: [this.createText("Process Details", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
 
@@ -365,6 +464,22 @@ export class DocxGenerator {
                 }));
             }
 
+            // Step Settings (from the step's handler)
+            const settings: StepFact[] = item.DocxRows || [];
+            if (settings.length > 0) {
+                sections.push(new Table({
+                    width: { size: 100, type: WidthType.PERCENTAGE },
+                    indent: { size: indent + 300, type: WidthType.DXA },
+                    rows: settings.map(f => new TableRow({
+                        children: [
+                            new TableCell({ children: [new Paragraph({ children: [this.createText(f.label, { bold: true, size: 18 })] })], shading: { fill: "F9FAFB" }, width: { size: 25, type: WidthType.PERCENTAGE } }),
+                            this.createCell(f.value, { size: 18 })
+                        ]
+                    }))
+                }));
+                sections.push(new Paragraph({ text: "", spacing: { after: 100 } }));
+            }
+
             // Data Dictionary (Output Schema)
             if (item.DataDictionary && item.DataDictionary.length > 0) {
                 sections.push(new Paragraph({
@@ -462,7 +577,7 @@ export class DocxGenerator {
 
         flowData.executionFlow.forEach((step: any) => processStep(step));
 
-        await this.generateAndDownload(report.metadata.name + "_ETL", sections);
+        await this.generateAndDownload(report.metadata.name + "_ETL", sections, report.parseIssues);
     }
 
     // --- Data Model Extraction ---
@@ -470,7 +585,7 @@ export class DocxGenerator {
         const dm = await db.dataModels.get(id);
         if (!dm) throw new Error('Data Model not found');
 
-        const content = dm.content;
+        const model = DataModelModel.of(dm);
         const metadata = dm.metadata;
         const sections: any[] = [];
 
@@ -484,7 +599,7 @@ export class DocxGenerator {
         const metaRows = [
             ["Description", metadata.description],
             ["Version", metadata.version],
-            ["Process Mode", content.DataModel?.DataModelDef?.ProcessMode || 'N/A'],
+            ["Process Mode", model.processMode || 'N/A'],
             ["Last Modified", metadata.dateModified || '-']
         ];
 
@@ -498,22 +613,20 @@ export class DocxGenerator {
 
         // 2. Executive Summary
         // Re-implementing logic from DataModelGenerator
-        const getList = (obj: any) => Array.isArray(obj) ? obj : (obj ? [obj] : []);
-        const rawQueries = getList(content.Queries?.ArrayOfQuery?.Query).sort((a: any, b: any) => (Number(a.Sequence) || 0) - (Number(b.Sequence) || 0));
-        const finalQuery = rawQueries.length > 0 ? rawQueries[rawQueries.length - 1] : null;
-        const allDS = getList(content.QueryDatasources?.ArrayOfQueryDatasource?.QueryDatasource);
-        const uniqueSources = new Set(allDS.filter((d: any) => d.DataSourceType !== 'Query').map((d: any) => d.DataSourceName || d.TableName)).size;
-        const finalCols = getList(content.QueryColumns?.ArrayOfQueryColumn?.QueryColumn).filter((c: any) => c.QueryName === finalQuery?.QueryName);
+        const queries = model.queries;
+        const finalQuery = DataModelModel.finalQuery(model);
+        const allDS = queries.flatMap(q => q.datasources);
+        const uniqueSources = new Set(allDS.filter(d => d.type !== 'Query').map(d => d.name || d.source)).size;
 
         const summaryText = finalQuery
-            ? `This Data Model generates the "${finalQuery.QueryName}" dataset. It aggregates data from ${uniqueSources} external sources across ${rawQueries.length} transformation steps to produce ${finalCols.length} output columns.`
+            ? `This Data Model generates the "${finalQuery.name}" dataset. It aggregates data from ${uniqueSources} external sources across ${queries.length} transformation steps to produce ${finalQuery.columns.length} output columns.`
             : "No queries defined.";
 
         sections.push(new Paragraph({ children: [this.createText("Executive Summary", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
         sections.push(new Paragraph({ children: [this.createText(summaryText, { italic: true })], spacing: { after: 300 } }));
 
         // 3. Global Variables (with Source removed per request)
-        const variables = getList(content.Variables?.ArrayOfVariableDef?.VariableDef);
+        const variables = model.variables;
         if (variables.length > 0) {
             sections.push(new Paragraph({ children: [this.createText("Global Variables", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
 
@@ -527,12 +640,12 @@ export class DocxGenerator {
                 return types[t] || t || 'String';
             };
 
-            const vRows = variables.map((v: any) => new TableRow({
+            const vRows = variables.map(v => new TableRow({
                 children: [
-                    this.createCell(v.Name, { bold: true }),
-                    this.createCell(v.DefaultValue),
-                    this.createCell(resolveType(v.DataType || v.VariableType)),
-                    this.createCell(v.Description)
+                    this.createCell(v.name, { bold: true }),
+                    this.createCell(v.defaultValue),
+                    this.createCell(resolveType(v.type)),
+                    this.createCell(v.description)
                 ]
             }));
 
@@ -541,14 +654,14 @@ export class DocxGenerator {
         }
 
         // 4. Indexes
-        const indexes = getList(content.DataModel?.Definition?.DataModelDefinition?.Indexes?.Index);
+        const indexes = model.indexes;
         if (indexes.length > 0) {
             sections.push(new Paragraph({ children: [this.createText("Indexes", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
             const iHeader = new TableRow({ children: [this.createHeaderCell("Index Name"), this.createHeaderCell("Columns")] });
-            const iRows = indexes.map((i: any) => new TableRow({
+            const iRows = indexes.map(i => new TableRow({
                 children: [
-                    this.createCell(i.Name, { bold: true }),
-                    this.createCell(getList(i.Columns?.Column).map((c: any) => c.Name).join(', '))
+                    this.createCell(i.name, { bold: true }),
+                    this.createCell(i.columns.join(', '))
                 ]
             }));
             sections.push(new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [iHeader, ...iRows] }));
@@ -558,11 +671,9 @@ export class DocxGenerator {
         // 5. Query Logic
         sections.push(new Paragraph({ children: [this.createText("Transformation Layers", { bold: true, size: 28 })], heading: HeadingLevel.HEADING_2, spacing: { after: 150 } }));
 
-        // Map indexes for filter lookup
-        const indexMap = new Map(indexes.map((i: any) => [i.Name, i]));
-
-        rawQueries.forEach((q: any) => {
-            const qName = q.QueryName;
+        queries.forEach(q => {
+            const qName = q.name;
+            const note = dm.stepNotes?.[DataModelModel.noteKey(q)];
 
             // Title
             sections.push(new Paragraph({
@@ -573,31 +684,21 @@ export class DocxGenerator {
             }));
 
             // Step Note
-            if (dm.stepNotes?.[q.Id]) {
+            if (note) {
                 sections.push(new Paragraph({
-                     children: [this.createText("Note: " + dm.stepNotes[q.Id], { italic: true, color: "D97706" })],
+                     children: [this.createText("Note: " + note, { italic: true, color: "D97706" })],
                      spacing: { after: 100 }
                 }));
             }
 
             // Filters
-            if (q.Criteria?.CriteriaSetItem) {
-                const filters: any[] = [];
-                const processCriteria = (crit: any) => {
-                    const values = getList(crit.CriteriaValues?.CriteriaValue);
-                    values.forEach((v: any) => {
-                        if (v.ColumnId && v.Operator?.Value) {
-                            let op = v.Operator.Value.replace(/([A-Z])/g, ' $1').trim().toLowerCase();
-                            let val = v.Value1 || '';
-                            if (v.Operator.Value === 'Between') val = `${v.Value1 || '?'} and ${v.Value2 || '?'}`;
-
-                            const index = indexMap.get(v.ColumnId);
-                            filters.push({ col: v.ColumnId, op, val, isIndex: !!index, indexCols: index?.Columns ? getList(index.Columns.Column).map((c: any) => c.Name).join(', ') : '' });
-                        }
-                    });
-                    if (crit.NestedSets?.CriteriaSetItem) getList(crit.NestedSets.CriteriaSetItem).forEach(processCriteria);
-                };
-                processCriteria(q.Criteria.CriteriaSetItem); // Process parent set
+            if (q.criteria.length > 0) {
+                const filters = q.criteria.filter(c => c.operator).map(c => {
+                    const op = c.operator.replace(/([A-Z])/g, ' $1').trim().toLowerCase();
+                    const val = c.operator === 'Between' ? `${c.value1 || '?'} and ${c.value2 || '?'}` : c.value1;
+                    const index = indexes.find(i => i.columns.includes(c.column));
+                    return { col: c.column, op, val, isIndex: !!index, indexCols: index?.columns.join(', ') || '' };
+                });
 
                 if (filters.length > 0) {
                     sections.push(new Paragraph({ children: [this.createText("Filters", { bold: true, size: 20 })], spacing: { after: 50 } }));
@@ -618,7 +719,7 @@ export class DocxGenerator {
             }
 
             // Columns (Name | Type | Source) - 3 Column Layout
-            const myCols = getList(content.QueryColumns?.ArrayOfQueryColumn?.QueryColumn).filter((c: any) => c.QueryName === qName);
+            const myCols = q.columns;
             if (myCols.length > 0) {
                 sections.push(new Paragraph({ children: [this.createText("Columns", { bold: true, size: 20 })], spacing: { after: 50 } }));
 
@@ -630,19 +731,19 @@ export class DocxGenerator {
                     ]
                 });
 
-                const cRows = myCols.map((c: any) => {
+                const cRows = myCols.map(c => {
                     // Logic for Name/Desc stacking
-                    const namePara = new Paragraph({ children: [this.createText(c.ColumnName, { bold: true })] });
-                    const descPara = c.Description ? new Paragraph({ children: [this.createText(c.Description, { italic: true, size: 18, color: "666666" })] }) : null;
+                    const namePara = new Paragraph({ children: [this.createText(c.name, { bold: true })] });
+                    const descPara = c.description ? new Paragraph({ children: [this.createText(c.description, { italic: true, size: 18, color: "666666" })] }) : null;
 
                     // Logic for Type/Format stacking
-                    const typePara = new Paragraph({ children: [this.createText(c.JavaType || c.DataType || 'String')] });
-                    const fmtPara = (c.Format && c.Format !== '-') ? new Paragraph({ children: [this.createText(c.Format, { italic: true, size: 18, color: "666666" })] }) : null;
+                    const typePara = new Paragraph({ children: [this.createText(c.dataType)] });
+                    const fmtPara = (c.format && c.format !== '-') ? new Paragraph({ children: [this.createText(c.format, { italic: true, size: 18, color: "666666" })] }) : null;
 
                     // Source/Table formatting
-                    let source = c.DataSourceName || '';
-                    if (c.Expression) source = c.Expression;
-                    else if (c.DataSourceName && c.FieldId) source = `${c.DataSourceName}.${c.FieldId}`;
+                    let source = c.dataSourceName;
+                    if (c.expression) source = c.expression;
+                    else if (c.dataSourceName && c.fieldId) source = `${c.dataSourceName}.${c.fieldId}`;
 
                     return new TableRow({
                         children: [
@@ -658,10 +759,11 @@ export class DocxGenerator {
             sections.push(new Paragraph({ text: "", spacing: { after: 300 } }));
         });
 
-        await this.generateAndDownload(metadata.name + "_DataModel", sections);
+        await this.generateAndDownload(metadata.name + "_DataModel", sections, dm.parseIssues);
     }
 
-    private static async generateAndDownload(filename: string, sections: any[]) {
+    private static async generateAndDownload(filename: string, sections: any[], issues?: ParseIssue[]) {
+        sections.push(...this.importHealthAppendix(issues));
         const doc = new Document({
             sections: [{
                 headers: { default: new Header({ children: [new Paragraph({ children: [this.createText("Generated Specification", { size: 16, color: "888888" })], alignment: AlignmentType.RIGHT })] }) },
@@ -681,54 +783,40 @@ export class DocxGenerator {
         window.URL.revokeObjectURL(url);
     }
 
-    // --- Helper: Extract Process Parameters from Variables.xml ---
-    private static extractProcessParameters(rawVariables: any): any[] {
-        if (!rawVariables) return [];
-        
-        const vars = rawVariables?.ArrayOfC2GenericVariable?.C2GenericVariable 
-            || rawVariables?.ArrayOfVariableDef?.VariableDef
-            || rawVariables?.C2GenericVariable
-            || rawVariables?.VariableDef;
-        
-        if (!vars) return [];
-        return Array.isArray(vars) ? vars : [vars];
-    }
-
-    // --- Helper: Extract File Locations from FileLocations.xml ---
-    private static extractFileLocations(rawFileLocations: any): any[] {
-        if (!rawFileLocations) return [];
-        
-        const locations = rawFileLocations?.ArrayOfFileLocation?.FileLocation
-            || rawFileLocations?.FileLocation;
-        
-        if (!locations) return [];
-        
-        const list = Array.isArray(locations) ? locations : [locations];
-        
-        return list.map((loc: any) => {
-            const def = loc.Definition || {};
-            return {
-                Name: loc.Name || loc.Description || 'Unknown',
-                LocationType: loc.LocationType || 'ServerFolder',
-                ServerFolder: def.ServerFolder || def.Path || loc.ServerFolder || '',
-                SubPath: def.SubPath || '',
-                Description: loc.Description || '',
-                Path: def.ServerFolder ? `${def.ServerFolder}${def.SubPath || ''}` : (loc.Path || '')
-            };
+    // --- Helper: Import Health appendix, omitted when nothing was found ---
+    private static importHealthAppendix(issues?: ParseIssue[]): any[] {
+        if (!issues || issues.length === 0) return [];
+
+        const severityColours: Record<string, string> = { error: "C00000", warning: "B45F06", info: "1F6FB2" };
+        const header = new TableRow({
+            children: [
+                this.createHeaderCell("Severity"),
+                this.createHeaderCell("Entry"),
+                this.createHeaderCell("Location"),
+                this.createHeaderCell("Message")
+            ]
         });
-    }
+        const rows = ImportHealthGenerator.sortIssues(issues).map(issue => new TableRow({
+            children: [
+                this.createCell(issue.severity.toUpperCase(), { bold: true, size: 18, color: severityColours[issue.severity] }),
+                this.createCell(issue.entry, { font: "Consolas", size: 16 }),
+                this.createCell(issue.location, { font: "Consolas", size: 16 }),
+                this.createCell(issue.message, { size: 18 })
+            ]
+        }));
 
-    // --- Helper: Extract Attachments from Attachments.xml ---
-    private static extractAttachments(rawAttachments: any): any[] {
-        if (!rawAttachments) return [];
-        
-        const attachments = rawAttachments?.ArrayOfAttachment?.Attachment
-            || rawAttachments?.ArrayOfProcessAttachment?.ProcessAttachment
-            || rawAttachments?.Attachment
-            || rawAttachments?.ProcessAttachment;
-        
-        if (!attachments) return [];
-        return Array.isArray(attachments) ? attachments : [attachments];
+        return [
+            new Paragraph({
+                children: [this.createText("Appendix: Import Health", { bold: true, size: 28 })],
+                heading: HeadingLevel.HEADING_2,
+                spacing: { before: 400, after: 150 }
+            }),
+            new Paragraph({
+                children: [this.createText("Parts of the package could not be fully read, so sections of this document may be incomplete.", { italic: true, size: 20 })],
+                spacing: { after: 150 }
+            }),
+            new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [header, ...rows] })
+        ];
     }
 
     // --- Dashboard DOCX Export ---
@@ -736,13 +824,10 @@ export class DocxGenerator {
         const dashboard = await db.dashboards.get(id);
         if (!dashboard) throw new Error('Dashboard not found');
 
-        const content = dashboard.content;
+        const model = DashboardModel.of(dashboard);
         const metadata = dashboard.metadata;
         const sections: any[] = [];
 
-        // Helper
-        const getList = (obj: any) => Array.isArray(obj) ? obj : (obj ? [obj] : []);
-
         // 1. Header
         sections.push(new Paragraph({
             children: [this.createText(metadata.name, { bold: true, size: 32 })],
@@ -767,16 +852,15 @@ export class DocxGenerator {
         sections.push(new Paragraph({ text: "", spacing: { after: 300 } }));
 
         // 3. Extract data
-        const visualizations = getList(content.Visualisations?.ArrayOfEntityDef?.EntityDef || []);
-        const variables = getList(content.Variables?.ArrayOfVariableDef?.VariableDef || []);
-        const dashLayout = content.Dashboard?.EntityDef?.Definition?.Dashboard || {};
-        const layoutItems = getList(dashLayout.Layout?.LayoutItem || []);
+        const visualizations = model.widgets;
+        const variables = model.variables;
+        const layoutItems = model.layout;
 
         // 4. Executive Summary
-        const slicerCount = visualizations.filter((v: any) => v.EntitySubType === 'SLICER').length;
-        const tableCount = visualizations.filter((v: any) => v.EntitySubType === 'TABLE').length;
-        const chartCount = visualizations.filter((v: any) => v.EntitySubType === 'CHART').length;
-        const dmCount = new Set(visualizations.map((v: any) => v.AttributeString1)).size;
+        const slicerCount = visualizations.filter(v => v.subType === 'SLICER').length;
+        const tableCount = visualizations.filter(v => v.subType === 'TABLE').length;
+        const chartCount = visualizations.filter(v => v.subType === 'CHART').length;
+        const dmCount = new Set(visualizations.map(v => v.dataModelId)).size;
 
         sections.push(new Paragraph({ 
             children: [this.createText("Executive Summary", { bold: true, size: 28 })], 
@@ -801,25 +885,25 @@ export class DocxGenerator {
         if (layoutItems.length > 0) {
             // Build simple ASCII grid
             let maxX = 0, maxY = 0;
-            layoutItems.forEach((item: any) => {
-                maxX = Math.max(maxX, (item.X || 0) + (item.Width || 1));
-                maxY = Math.max(maxY, (item.Y || 0) + (item.Height || 1));
+            layoutItems.forEach(item => {
+                maxX = Math.max(maxX, item.x + item.width);
+                maxY = Math.max(maxY, item.y + item.height);
             });
 
             const normalizeRow = (y: number) => Math.floor((y || 0) / 100);
             const maxRow = normalizeRow(maxY);
-            const widgetMap = new Map(visualizations.map((v: any) => [v.GenericEntityId, v]));
+            const widgetMap = new Map(visualizations.map(v => [v.id, v]));
 
             const grid: (string | null)[][] = Array(maxRow + 1).fill(null).map(() => Array(12).fill(null));
 
-            layoutItems.forEach((item: any) => {
-                const widget = widgetMap.get(item.Id);
-                const x = item.X || 0;
-                const row = normalizeRow(item.Y || 0);
-                const width = Math.min(item.Width || 1, 12 - x);
+            layoutItems.forEach(item => {
+                const widget = widgetMap.get(item.widgetId);
+                const x = item.x;
+                const row = normalizeRow(item.y);
+                const width = Math.min(item.width, 12 - x);
 
                 if (row <= maxRow && width > 0) {
-                    const label = `${widget?.Description || 'Widget'} [${widget?.EntitySubType || 'N/A'}]`.substring(0, 20);
+                    const label = `${widget?.title || 'Widget'} [${widget?.subType || 'N/A'}]`.substring(0, 20);
                     for (let col = x; col < Math.min(x + width, 12); col++) {
                         grid[row][col] = label;
                     }
@@ -868,13 +952,13 @@ export class DocxGenerator {
                 ]
             });
 
-            const wRows = visualizations.map((v: any) => {
-                const filterCount = this.countWidgetFilters(v.AttributeText1);
-                const dmId = v.AttributeString1 ? v.AttributeString1.substring(0, 8) + '...' : '-';
+            const wRows = visualizations.map(v => {
+                const filterCount = v.filters.length;
+                const dmId = v.dataModelId ? v.dataModelId.substring(0, 8) + '...' : '-';
                 return new TableRow({
                     children: [
-                        this.createCell(v.Description || 'Unnamed', { bold: true }),
-                        this.createCell(v.EntitySubType || 'N/A'),
+                        this.createCell(v.title || 'Unnamed', { bold: true }),
+                        this.createCell(v.subType),
                         this.createCell(dmId, { size: 18 }),
                         this.createCell(filterCount > 0 ? filterCount.toString() : '-')
                     ]
@@ -909,12 +993,12 @@ export class DocxGenerator {
                 'A': 'String', 'L': 'Boolean', 'N': 'Numeric', 'D': 'Date', 'I': 'Integer', 'F': 'Float'
             };
 
-            const vRows = variables.map((v: any) => new TableRow({
+            const vRows = variables.map(v => new TableRow({
                 children: [
-                    this.createCell(v.Name || '-', { bold: true }),
-                    this.createCell(typeMap[v.VariableType || ''] || v.VariableType || '-'),
-                    this.createCell(v.DefaultValue || '-'),
-                    this.createCell(v.SelectionTypeListType || v.ListType || '-')
+                    this.createCell(v.name || '-', { bold: true }),
+                    this.createCell(typeMap[v.type] || v.type || '-'),
+                    this.createCell(v.defaultValue || '-'),
+                    this.createCell(v.listSource || '-')
                 ]
             }));
 
@@ -926,8 +1010,8 @@ export class DocxGenerator {
         }
 
         // 8. Data Model Dependencies
-        const dmIds = Array.from(new Set(visualizations.map((v: any) => v.AttributeString1).filter(Boolean)));
-        if (dmIds.length > 0) {
+        const dataModels = DashboardModel.dataModels(model);
+        if (dataModels.length > 0) {
             sections.push(new Paragraph({ 
                 children: [this.createText("Data Model Dependencies", { bold: true, size: 28 })], 
                 heading: HeadingLevel.HEADING_2, 
@@ -942,17 +1026,13 @@ export class DocxGenerator {
                 ]
             });
 
-            const dRows = dmIds.map((id: any) => {
-                const foundDM = visualizations.find((v: any) => v.AttributeString1 === id)?.DatamodelDescription;
-                const dmName = foundDM || '-';
-                return new TableRow({
-                    children: [
-                        this.createCell(dmName, { bold: true }),
-                        this.createCell(id.substring(0, 12) + '...', { size: 18 }),
-                        this.createCell('Not in library')
-                    ]
-                });
-            });
+            const dRows = dataModels.map(dm => new TableRow({
+                children: [
+                    this.createCell(dm.name || '-', { bold: true }),
+                    this.createCell(dm.id.substring(0, 12) + '...', { size: 18 }),
+                    this.createCell('Not in library')
+                ]
+            }));
 
             sections.push(new Table({
                 width: { size: 100, type: WidthType.PERCENTAGE },
@@ -960,6 +1040,8 @@ export class DocxGenerator {
             }));
         }
 
+        sections.push(...this.importHealthAppendix(dashboard.parseIssues));
+
         // Create and download document
         const doc = new Document({ sections: [{ children: sections }] });
         const blob = await Packer.toBlob(doc);
@@ -973,12 +1055,253 @@ export class DocxGenerator {
         URL.revokeObjectURL(url);
     }
 
-    private static countWidgetFilters(criteriaText: any): number {
-        if (!criteriaText) return 0;
-        const criteria = criteriaText.CriteriaSetItem;
-        if (!criteria) return 0;
-        const values = criteria.CriteriaValues?.CriteriaValue;
-        if (!values) return 0;
-        return Array.isArray(values) ? values.length : 1;
+    static async downloadXlOneDocx(id: number, mode: 'business' | 'technical' = 'business') {
+        const report = await db.xlOneReports.get(id);
+        if (!report) throw new Error('XLOne report not found');
+
+        const metadata = report.metadata;
+        const header = XlOneParser.getHeader(report.content);
+        const def = XlOneParser.getDefinition(report.content);
+        const sections: any[] = [];
+
+        const heading = (text: string) => new Paragraph({
+            children: [this.createText(text, { bold: true, size: 28 })],
+            heading: HeadingLevel.HEADING_2,
+            spacing: { after: 150 }
+        });
+        const spacer = () => new Paragraph({ text: "", spacing: { after: 300 } });
+        const keyValueTable = (rows: string[][]) => new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: rows.map(r => new TableRow({
+                children: [this.createHeaderCell(r[0]!), this.createCell(r[1]!)]
+            }))
+        });
+
+        // 1. Header
+        sections.push(new Paragraph({
+            children: [this.createText(metadata.name, { bold: true, size: 32 })],
+            heading: HeadingLevel.HEADING_1,
+            spacing: { after: 300 }
+        }));
+
+        // 2. Metadata Table
+        sections.push(keyValueTable([
+            ["Owner", metadata.owner || '-'],
+            ["Folder", metadata.parentPath || '-'],
+            ["Report Suite", def.reportSuite || '-'],
+            ["Layout Type", def.layoutType || '-'],
+            ["Datasource", def.datasource || '-'],
+            ["Runtime Criteria", def.allowRuntimeCriteria ? 'Allowed' : 'Not allowed'],
+            ["Design Sheet", XlOneParser.getAssigned(header.SheetName) || '-'],
+            ["Report ID", metadata.id || '-']
+        ]));
+        sections.push(spacer());
+
+        // 3. Criteria
+        sections.push(heading("Criteria"));
+        if (def.criteria.length > 0) {
+            def.criteria.forEach(c => sections.push(new Paragraph({ children: [this.createText(c, { font: "Consolas", size: 18 })], bullet: { level: 0 } })));
+        } else {
+            sections.push(new Paragraph({ children: [this.createText(def.allowRuntimeCriteria ? "No saved criteria - prompted at run time." : "No criteria defined.", { italic: true })] }));
+        }
+        sections.push(spacer());
+
+        // 4. Columns
+        sections.push(heading("Columns"));
+        if (def.columns.length > 0) {
+            const cHeader = new TableRow({
+                children: [this.createHeaderCell("Heading"), this.createHeaderCell("Field"), this.createHeaderCell("Format")]
+            });
+            const cRows = def.columns.map(c => new TableRow({
+                children: [
+                    this.createCell(c.heading || c.name, { bold: true }),
+                    this.createCell(c.name || '-'),
+                    this.createCell(c.format || '-')
+                ]
+            }));
+            sections.push(new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [cHeader, ...cRows] }));
+        } else {
+            sections.push(new Paragraph({ children: [this.createText("No columns saved in the definition - columns are laid out on the design sheet.", { italic: true })] }));
+        }
+        sections.push(spacer());
+
+        // 5. Grouping & Sorting
+        const groupingRows = [
+            ...def.groupByFields.map((g, i) => [`Group By ${i + 1}`, g]),
+            ...def.runtimeGroupingFields.map(g => ['Runtime Grouping', g]),
+            ...def.sortFields.map((f, i) => [`Sort ${i + 1}`, f])
+        ];
+        if (groupingRows.length > 0) {
+            sections.push(heading("Grouping & Sorting"));
+            sections.push(keyValueTable(groupingRows));
+            sections.push(spacer());
+        }
+
+        // 6. Workbook Dependencies
+        const workbook = report.content.Workbook as XlOneWorkbook | undefined;
+        if (workbook) {
+            const wb = XlOneParser.summariseWorkbook(workbook);
+            sections.push(heading("Data Model Dependencies"));
+            sections.push(new Paragraph({
+                children: [this.createText(`References found in ${workbook.fileName} (${workbook.sheets.map(sh => sh.name).join(', ')}).`, { italic: true })],
+                spacing: { after: 150 }
+            }));
+            sections.push(keyValueTable([
+                ["Datasources", Array.from(wb.datasources).join('; ') || '-'],
+                ["Data Columns", Array.from(wb.columns).join(', ') || '-'],
+                ["Criteria Fields", Array.from(wb.fields).join(', ') || '-'],
+                ["Variables", Array.from(wb.variables).join(', ') || '-'],
+                ["XLOne Functions", Array.from(wb.t1Functions).join(', ') || '-']
+            ]));
+            sections.push(spacer());
+
+            if (mode === 'technical' && workbook.cells.length > 0) {
+                sections.push(heading("Workbook Cell Map"));
+                const wHeader = new TableRow({
+                    children: [this.createHeaderCell("Cell"), this.createHeaderCell("Content"), this.createHeaderCell("Functions"), this.createHeaderCell("References")]
+                });
+                const wRows = workbook.cells.map(cell => new TableRow({
+                    children: [
+                        this.createCell(`${cell.sheet}!${cell.ref}`, { size: 18 }),
+                        this.createCell(cell.formula ? `=${cell.formula}` : cell.value, { font: "Consolas", size: 16 }),
+                        this.createCell(cell.functions.map(f => f.name).join(', ') || '-', { size: 18 }),
+                        this.createCell(cell.references.map(r => `${r.kind}: ${r.name}`).join('; ') || '-', { size: 18 })
+                    ]
+                }));
+                sections.push(new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [wHeader, ...wRows] }));
+                sections.push(spacer());
+            }
+        }
+
+        // 7. Definition Properties (Technical)
+        if (mode === 'technical' && def.assignedProperties.length > 0) {
+            sections.push(heading("Definition Properties"));
+            sections.push(keyValueTable(def.assignedProperties.map(p => [p.name, p.value])));
+        }
+
+        await this.generateAndDownload(metadata.name + "_XLOne", sections, report.parseIssues);
+    }
+
+    static async downloadPlaylistDocx(id: number, mode: 'business' | 'technical' = 'business') {
+        const playlist = await db.playlists.get(id);
+        if (!playlist) throw new Error('Playlist not found');
+
+        const metadata = playlist.metadata;
+        const schedule = PlaylistParser.getSchedule(playlist.content);
+        const items = PlaylistParser.getItems(playlist.content);
+        const variables = PlaylistParser.getVariables(playlist.content);
+        const sections: any[] = [];
+
+        const heading = (text: string) => new Paragraph({
+            children: [this.createText(text, { bold: true, size: 28 })],
+            heading: HeadingLevel.HEADING_2,
+            spacing: { after: 150 }
+        });
+        const spacer = () => new Paragraph({ text: "", spacing: { after: 300 } });
+        const keyValueTable = (rows: string[][]) => new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: rows.map(r => new TableRow({
+                children: [this.createHeaderCell(r[0]!), this.createCell(r[1]!)]
+            }))
+        });
+
+        // 1. Header
+        sections.push(new Paragraph({
+            children: [this.createText(metadata.name, { bold: true, size: 32 })],
+            heading: HeadingLevel.HEADING_1,
+            spacing: { after: 300 }
+        }));
+
+        // 2. Metadata Table
+        sections.push(keyValueTable([
+            ["Owner", metadata.owner || '-'],
+            ["Folder", metadata.parentPath || '-'],
+            ["Default Suite", metadata.defaultSuite || '-'],
+            ["Items", `${items.length} (${items.filter(i => i.active).length} active)`],
+            ["Emailed Items", String(items.filter(i => i.emailInd).length)],
+            ["Last Run", schedule.LastRunDatei || '-'],
+            ["Schedule ID", metadata.id || '-']
+        ]));
+        sections.push(spacer());
+
+        // 3. Variables
+        if (variables.length > 0) {
+            sections.push(heading("Variables"));
+            const vHeader = new TableRow({
+                children: [this.createHeaderCell("Name"), this.createHeaderCell("Prompt"), this.createHeaderCell("Default Value"), this.createHeaderCell("Mandatory")]
+            });
+            const vRows = variables.map(v => new TableRow({
+                children: [
+                    this.createCell(v.name, { bold: true }),
+                    this.createCell(v.description || '-'),
+                    this.createCell(v.defaultValue || '-', { font: "Consolas", size: 18 }),
+                    this.createCell(v.mandatory ? 'Yes' : 'No')
+                ]
+            }));
+            sections.push(new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [vHeader, ...vRows] }));
+            sections.push(spacer());
+        }
+
+        // 4. Distribution by Recipient
+        const distribution = PlaylistParser.getDistribution(items);
+        sections.push(heading("Distribution by Recipient"));
+        if (distribution.undelivered.length > 0) {
+            sections.push(new Paragraph({
+                children: [this.createText(`Warning: ${distribution.undelivered.length} item(s) neither email nor save their output: ${distribution.undelivered.map(i => `${i.sequence} ${PlaylistParser.getReportLabel(i)}`).join('; ')}`, { bold: true, color: "C00000" })],
+                spacing: { after: 150 }
+            }));
+        }
+        if (distribution.recipients.length > 0) {
+            const rHeader = new TableRow({
+                children: ["Recipient", "To", "Cc", "Attached", "Saved", "Total", "Reports"].map(h => this.createHeaderCell(h))
+            });
+            const rRows = distribution.recipients.map(r => new TableRow({
+                children: [
+                    this.createCell(r.recipient, { bold: true, size: 18 }),
+                    this.createCell(String(r.to), { size: 18 }),
+                    this.createCell(String(r.cc), { size: 18 }),
+                    this.createCell(String(r.attached), { size: 18 }),
+                    this.createCell(String(r.saved), { size: 18 }),
+                    this.createCell(String(r.deliveries.length), { bold: true, size: 18 }),
+                    this.createCell(r.deliveries.map(d => `${d.report}${d.role === 'Cc' ? ' (cc)' : ''}`).join('; '), { size: 16 })
+                ]
+            }));
+            sections.push(new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [rHeader, ...rRows] }));
+        } else {
+            sections.push(new Paragraph({ children: [this.createText("No item emails or saves its output.", { italic: true })] }));
+        }
+        sections.push(spacer());
+
+        // 5. Schedule Items
+        sections.push(heading("Schedule Items"));
+        if (items.length > 0) {
+            const iHeader = new TableRow({
+                children: [
+                    this.createHeaderCell("#"),
+                    this.createHeaderCell("Item"),
+                    this.createHeaderCell("Source"),
+                    this.createHeaderCell("Output"),
+                    this.createHeaderCell("Email Subject & Body"),
+                    this.createHeaderCell(mode === 'technical' ? "Item Variables" : "Status")
+                ]
+            });
+            const iRows = items.map(item => new TableRow({
+                children: [
+                    this.createCell(String(item.sequence), { size: 18 }),
+                    this.createCell(item.comment || '-', { bold: true, size: 18 }),
+                    this.createCell(`${item.sourceServerFolder ? item.sourceServerFolder + ': ' : ''}${item.sourcePath}${item.sourceSheetName ? ' > ' + item.sourceSheetName : ''}`, { size: 16 }),
+                    this.createCell(`${item.actionCode}: ${item.actionFilePath || '-'}${item.actionSheetName ? ' > ' + item.actionSheetName : ''}`, { size: 16 }),
+                    this.createCell(item.emailSubject || item.emailBody ? `${item.emailSubject}${item.emailBody ? ' - ' + item.emailBody : ''}` : '-', { size: 16 }),
+                    mode === 'technical'
+                        ? this.createCell(item.itemVariables.map(v => `${v.name}=${v.value}`).join('; ') || '-', { font: "Consolas", size: 16 })
+                        : this.createCell([item.active ? 'Active' : 'Inactive', item.continueOnError ? 'Continue on error' : ''].filter(Boolean).join('; '), { size: 18 })
+                ]
+            }));
+            sections.push(new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [iHeader, ...iRows] }));
+        } else {
+            sections.push(new Paragraph({ children: [this.createText("No schedule items defined.", { italic: true })] }));
+        }
+
+        await this.generateAndDownload(metadata.name + "_Playlist", sections, playlist.parseIssues);
     }
 }
@@ -0,0 +1,128 @@
+import { db } from '../db';
+import { EtlModel, type EtlProcess } from '../model/EtlModel';
+import { ExpressionEvaluator } from '../parsers/expression/ExpressionEvaluator';
+import type { CsvTable } from '../simulation/CsvReader';
+import { EtlSimulator, type SimulationResult, type SimulationStatus, type SimulationStepResult } from '../simulation/EtlSimulator';
+
+const STATUS_BADGES: Record<SimulationStatus, string> = {
+    'ran': '<span class="text-[10px] font-bold px-1.5 py-0.5 rounded border bg-green-50 text-green-700 border-green-200">Ran</span>',
+    'no-sample': '<span class="text-[10px] font-bold px-1.5 py-0.5 rounded border bg-amber-50 text-amber-700 border-amber-200">No sample</span>',
+    'stubbed': '<span class="text-[10px] font-bold px-1.5 py-0.5 rounded border bg-sky-50 text-sky-700 border-sky-200">Stubbed</span>',
+    'skipped': '<span class="text-[10px] font-bold px-1.5 py-0.5 rounded border bg-slate-100 text-slate-600 border-slate-200">Skipped</span>',
+    'error': '<span class="text-[10px] font-bold px-1.5 py-0.5 rounded border bg-red-50 text-red-700 border-red-200">Error</span>'
+};
+
+/**
+ * The "Dry Run" section of the ETL view: a CSV sample picker per source step,
+ * parameter inputs, and the simulator's step log with row counts and previews.
+ * `window.loadDryRunSample` and `window.runDryRun` in main.ts drive it.
+ */
+export class DryRunGenerator {
+
+    private static escapeHtml(str: string): string {
+        return String(str ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    static renderPanel(process: EtlProcess, samples: Record<string, CsvTable>): string {
+        if (process.steps.length === 0) return '';
+        const sources = EtlSimulator.sourceSteps(process);
+
+        const sampleRows = sources.map(step => {
+            const sample = samples[step.key];
+            return `
+                <tr class="border-t border-slate-100">
+                    <td class="px-3 py-2 text-xs font-bold text-slate-800">${this.escapeHtml(step.name)}<div class="text-[10px] font-normal text-slate-400 font-mono">${this.escapeHtml(step.outputTable || step.rawType)}</div></td>
+                    <td class="px-3 py-2"><input type="file" accept=".csv,.txt" onchange="window.loadDryRunSample('${step.key}', this)" class="text-xs"></td>
+                    <td class="px-3 py-2 text-xs text-slate-600" id="dry-run-sample-${step.key}">${sample ? `${sample.rows.length} rows from ${this.escapeHtml(sample.fileName)}` : '<span class="italic text-slate-400">No sample</span>'}</td>
+                </tr>`;
+        }).join('');
+
+        const variableInputs = process.variables.map(v => `
+            <label class="block">
+                <span class="block text-[11px] font-mono font-bold text-gray-600">${this.escapeHtml(v.name)}</span>
+                <input type="text" data-dry-run-var="${this.escapeHtml(v.name)}" placeholder="${this.escapeHtml(v.defaultValue ? `Default ${v.defaultValue}` : v.description)}" class="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-200">
+            </label>`).join('');
+
+        return `
+            <details class="group" id="dry-run">
+                <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-cyan-50 hover:bg-cyan-100 transition-colors select-none border-t border-b border-cyan-200">
+                    <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                        <span class="text-cyan-600 text-lg">▶</span> Dry Run
+                        <span class="text-xs bg-cyan-100 text-cyan-700 px-2 py-0.5 rounded-full border border-cyan-200">${sources.length} source${sources.length === 1 ? '' : 's'}</span>
+                    </span>
+                </summary>
+                <div class="pt-4 pb-2 px-2">
+                    <div class="mb-4 p-3 bg-slate-50 border border-slate-200 rounded-md">
+                        <p class="text-sm text-slate-600 mb-2">Load a CSV sample for each source step, then run the process in the browser. Memory table steps run against the samples; emails, warehouse imports, SQL and files are only logged.</p>
+                        ${sources.length > 0 ? `
+                        <table class="w-full mb-3 bg-white border border-slate-200 rounded">
+                            <thead class="bg-slate-100 text-left text-[10px] uppercase tracking-wider text-slate-500"><tr><th class="px-3 py-1">Source Step</th><th class="px-3 py-1">CSV Sample</th><th class="px-3 py-1">Loaded</th></tr></thead>
+                            <tbody>${sampleRows}</tbody>
+                        </table>` : '<p class="text-xs text-slate-400 italic mb-3">This process has no source steps.</p>'}
+                        ${variableInputs ? `<div id="dry-run-variables" class="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">${variableInputs}</div>` : ''}
+                        <button onclick="window.runDryRun()" class="text-xs bg-cyan-600 hover:bg-cyan-700 text-white px-3 py-1.5 rounded-md font-bold transition">Run</button>
+                    </div>
+                    <div id="dry-run-results"></div>
+                </div>
+            </details>
+        `;
+    }
+
+    /** Runs the simulator for a stored ETL and renders its log, for `window.runDryRun`. */
+    static async generateDryRun(reportId: number, samples: Record<string, CsvTable>, variables: Record<string, string>): Promise<string> {
+        const report = await db.reports.get(reportId);
+        if (!report) throw new Error("Report not found");
+        return this.renderResult(EtlSimulator.run(EtlModel.of(report), { samples, variables }));
+    }
+
+    static renderResult(result: SimulationResult): string {
+        const counts = new Map<SimulationStatus, number>();
+        result.log.forEach(e => counts.set(e.status, (counts.get(e.status) ?? 0) + 1));
+        const summary = [...counts.entries()].map(([status, n]) => `${STATUS_BADGES[status]} <span class="text-xs text-slate-600 mr-3">${n}</span>`).join('');
+
+        const rows = result.log.map(e => `
+            <tr class="border-t border-gray-100 align-top ${e.status === 'error' ? 'bg-red-50/50' : ''}">
+                <td class="px-3 py-2 text-xs font-mono text-slate-400">${e.run}</td>
+                <td class="px-3 py-2 text-xs">
+                    <button onclick="window.revealAnchor('step-${e.stepKey}')" class="font-bold text-slate-800 hover:underline text-left">${this.escapeHtml(e.stepName)}</button>
+                    <div class="text-[10px] text-slate-400 font-mono">${this.escapeHtml(e.stepType)}</div>
+                </td>
+                <td class="px-3 py-2">${STATUS_BADGES[e.status]}</td>
+                <td class="px-3 py-2 text-xs text-slate-700">${this.escapeHtml(e.message)}${this.renderPreview(e)}</td>
+            </tr>`).join('');
+
+        const variables = result.variables.map(v => `<li class="text-xs"><span class="font-mono font-bold">${this.escapeHtml(v.name)}</span> = ${this.escapeHtml(EtlSimulator.display(v.value))}</li>`).join('');
+
+        return `
+            <div class="mb-2 flex flex-wrap items-center">${summary}</div>
+            ${result.truncated ? '<p class="text-sm text-red-600 mb-2">The run stopped early: it reached the step limit, most likely in a loop that never ends.</p>' : ''}
+            <div class="w-full overflow-x-auto border border-slate-300 rounded-md mb-3">
+                <table class="w-full divide-y divide-slate-300">
+                    <thead><tr class="bg-slate-200">${['#', 'Step', 'Status', 'Result'].map(h => `<th class="px-3 py-2 text-left text-xs font-bold text-slate-700 uppercase tracking-wider bg-slate-200">${h}</th>`).join('')}</tr></thead>
+                    <tbody class="bg-white">${rows}</tbody>
+                </table>
+            </div>
+            ${variables ? `<div class="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Variables at the end</div><ul class="list-none pl-0 mb-2 grid grid-cols-1 md:grid-cols-3 gap-1">${variables}</ul>` : ''}
+        `;
+    }
+
+    private static renderPreview(e: SimulationStepResult): string {
+        if (!e.table) return '';
+        const { name, columns, rowCount, preview } = e.table;
+        const label = `<span class="font-mono">${this.escapeHtml(name)}</span>: ${rowCount} row${rowCount === 1 ? '' : 's'}`;
+        if (preview.length === 0) return `<div class="mt-1 text-[11px] text-slate-500">${label}</div>`;
+
+        const head = columns.map(c => `<th class="px-2 py-0.5 text-left font-semibold">${this.escapeHtml(c)}</th>`).join('');
+        const body = preview.map(row => `<tr class="border-t border-slate-100">${columns.map(c => `<td class="px-2 py-0.5 font-mono">${this.escapeHtml(ExpressionEvaluator.toText(row[c.toUpperCase()] ?? null))}</td>`).join('')}</tr>`).join('');
+        return `
+            <details class="mt-1">
+                <summary class="cursor-pointer text-[11px] text-slate-500">${label}${rowCount > preview.length ? ` (first ${preview.length} shown)` : ''}</summary>
+                <div class="overflow-x-auto mt-1"><table class="text-[10px] border border-slate-200"><thead class="bg-slate-50"><tr>${head}</tr></thead><tbody>${body}</tbody></table></div>
+            </details>`;
+    }
+}
@@ -1,178 +1,38 @@
 
 import { db } from '../db';
 import { EtlParser } from '../parsers/EtlParser';
+import { EtlModel, type EtlVariable } from '../model/EtlModel';
+import { VariableFlow, VARIABLE_FLOW_ISSUE_LABELS, type VariableAccess, type VariableFlowIssueKind } from '../analysis/VariableFlow';
+import { StepHandlers } from '../parsers/steps/StepHandlers';
+import type { StepFact } from '../parsers/steps/StepHandler';
 import { ExpressionFormatter } from '../formatters/ExpressionFormatter';
 import { MermaidGenerator } from './MermaidGenerator';
+import { ImportHealthGenerator } from './ImportHealthGenerator';
+import { ColumnLineageGenerator } from './ColumnLineageGenerator';
+import { TableStateGenerator } from './TableStateGenerator';
+import { DryRunGenerator } from './DryRunGenerator';
+import { ExecutionPathGenerator } from './ExecutionPathGenerator';
+import { CallGraphGenerator } from './CallGraphGenerator';
+import { SqlGenerator } from './SqlGenerator';
+import { ComplexityScoreGenerator } from './ComplexityScoreGenerator';
+import { EtlSummaryGenerator } from './EtlSummaryGenerator';
+import type { CsvTable } from '../simulation/CsvReader';
+import { ColumnLineage } from '../analysis/ColumnLineage';
+import { TableState } from '../analysis/TableState';
+import { ExecutionPaths } from '../analysis/ExecutionPaths';
+import { ComplexityScore } from '../analysis/ComplexityScore';
 
 export class EtlGenerator {
 
-    private static normalizeTableName(name: string): string {
-        return name.trim().toUpperCase().replace(/\s+/g, ' ');
-    }
-
-    private static formatSummaryTable(name: string): string {
-        return `<span class="t1-table-badge" data-type="table">𝄜 ${name}</span>`;
-    }
-
-    private static formatSummaryFile(name: string): string {
-        return `<span class="text-green-700">${name}</span>`;
-    }
-
-    private static formatSummaryTarget(name: string): string {
-        return `<strong>the ${name}</strong>`;
-    }
-
-    private static formatSummaryAnalyser(name: string): string {
-        return `<span class="text-pink-600">${name}</span>`;
-    }
-
-    static generateSummary(flow: any[]) {
-        const sources: string[] = [];
-        const targets: string[] = [];
-        const sourceNames = new Set<string>();
-        const targetNames = new Set<string>();
-
-        flow.forEach((s: any) => {
-            // Extract sources from step Inputs (covers tables, warehouse, variables, etc.)
-            if (s.Inputs && Array.isArray(s.Inputs)) {
-                s.Inputs.forEach((input: string) => {
-                    if (input && input !== 'dataset' && input !== 'target' && input !== 'DATA') {
-                        const sourceKey = EtlGenerator.normalizeTableName(input);
-                        if (sourceKey && !sourceNames.has(sourceKey)) {
-                            sourceNames.add(sourceKey);
-                            sources.push(EtlGenerator.formatSummaryTable(sourceKey));
-                        }
-                    }
-                });
-            }
-
-            // Query-specific sources (more detailed context)
-            if (s.RawType === 'RunDirectQuery' || s.RawType === 'RunTableQuery') {
-                const tableName = s.Details.find((d: string) => d.startsWith('Source Table:'))?.split(': ')[1];
-                if (tableName) {
-                    const sourceKey = EtlGenerator.normalizeTableName(tableName);
-                    if (!sourceNames.has(sourceKey)) {
-                        sourceNames.add(sourceKey);
-                        sources.push(EtlGenerator.formatSummaryTable(sourceKey));
-                    }
-                }
-            } else if (s.RawType === 'RunDatasourceQuery' || s.RawType === 'RunSimpleQuery') {
-                const source = s.Details.find((d: string) => d.startsWith('Source:'))?.split(': ')[1];
-                if (source) {
-                    const sourceKey = EtlGenerator.normalizeTableName(source);
-                    if (!sourceNames.has(sourceKey)) {
-                        sourceNames.add(sourceKey);
-                        sources.push(EtlGenerator.formatSummaryTable(sourceKey));
-                    }
-                }
-            } else if (s.RawType === 'RunAnalyserQuery' || s.RawType === 'LoadAnalyserData') {
-                // Analyser datasource
-                const analyserName = s.Details.find((d: string) => d.startsWith('Analyser:') || d.startsWith('Source:'))?.split(': ')[1];
-                if (analyserName) {
-                    const sourceKey = EtlGenerator.normalizeTableName(analyserName);
-                    if (!sourceNames.has(sourceKey)) {
-                        sourceNames.add(sourceKey);
-                        sources.push(EtlGenerator.formatSummaryAnalyser(sourceKey));
-                    }
-                }
-            } else if (s.RawType === 'LoadTextFile') {
-                const file = s.Details.find((d: string) => d.startsWith('File:'))?.split(': ')[1];
-                if (file && !sourceNames.has(file)) {
-                    sourceNames.add(file);
-                    sources.push(EtlGenerator.formatSummaryFile(file.trim()));
-                }
-            }
-
-            // Check for Analyser type in source metadata
-            if (s.SourceType === 'Analyser') {
-                const analyserName = s.Details.find((d: string) => d.startsWith('Source:'))?.split(': ')[1] || s.Step;
-                if (analyserName) {
-                    const sourceKey = EtlGenerator.normalizeTableName(analyserName);
-                    if (!sourceNames.has(sourceKey)) {
-                        sourceNames.add(sourceKey);
-                        sources.push(EtlGenerator.formatSummaryAnalyser(sourceKey));
-                    }
-                }
-            }
-
-            // Extract targets
-            if (s.RawType === 'ImportWarehouseData') {
-                const warehouse = s.Output?.name || 'Warehouse';
-                const targetKey = `WAREHOUSE_${warehouse}`;
-                if (!targetNames.has(targetKey)) {
-                    targetNames.add(targetKey);
-                    targets.push(EtlGenerator.formatSummaryTarget(warehouse.trim()));
-                }
-            } else if (s.RawType === 'ExportToExcel') {
-                const filename = s.Output?.name || s.Details.find((d: string) => d.startsWith('File:'))?.split(': ')[1];
-                const targetName = filename ? `${EtlGenerator.formatSummaryFile(filename.trim())} (Excel)` : `an Excel file`;
-                const targetKey = `EXCEL_${filename}`;
-                if (!targetNames.has(targetKey)) {
-                    targetNames.add(targetKey);
-                    targets.push(targetName);
-                }
-            } else if (s.RawType === 'SendEmail') {
-                const targetKey = 'EMAIL';
-                if (!targetNames.has(targetKey)) {
-                    targetNames.add(targetKey);
-                    targets.push(`<span class="text-amber-700">Email</span> recipients`);
-                }
-            } else if (s.RawType === 'SaveText' || s.RawType === 'SaveTextfile') {
-                const filename = s.Output?.name || s.Details.find((d: string) => d.startsWith('File:'))?.split(': ')[1];
-                const targetName = filename ? `${EtlGenerator.formatSummaryFile(filename.trim())} (Text file)` : `a Text file`;
-                const targetKey = `TEXT_${filename}`;
-                if (!targetNames.has(targetKey)) {
-                    targetNames.add(targetKey);
-                    targets.push(targetName);
-                }
-            } else if (s.Outputs && Array.isArray(s.Outputs)) {
-                // Extract targets from step Outputs
-                s.Outputs.forEach((output: string) => {
-                    if (output && output !== 'dataset' && output !== 'target') {
-                        const targetKey = EtlGenerator.normalizeTableName(output);
-                        if (targetKey && !targetNames.has(targetKey)) {
-                            targetNames.add(targetKey);
-                            targets.push(EtlGenerator.formatSummaryTable(targetKey));
-                        }
-                    }
-                });
-            }
-        });
-
-        const hasCalcs = flow.some(s => s.RawType === 'AddColumn' || s.RawType === 'UpdateColumn' || s.RawType === 'CalculateVariable');
-        const hasJoins = flow.some(s => s.RawType === 'JoinTable');
-        const hasConditions = flow.some(s => s.RawType === 'Decision' || s.RawType === 'Branch');
-
-        let parts: string[] = [];
-        if (sources.length > 0) parts.push(`extracts data from ${sources.join(', ')}`);
-        if (hasJoins) parts.push(`combines multiple datasets`);
-        if (hasCalcs) parts.push(`performs business calculations`);
-
-        if (targets.length > 0) {
-            if (hasConditions) {
-                parts.push(`based on certain conditions, distributes results to ${targets.join(', ')}`);
-            } else {
-                parts.push(`publishes results to ${targets.join(', ')}`);
-            }
-        }
-
-        if (parts.length === 0) return "This process performs a sequence of data operations.";
-
-        let narrative = parts.join(', ');
-        const lastComma = narrative.lastIndexOf(', ');
-        if (lastComma !== -1) {
-            narrative = narrative.substring(0, lastComma) + ' and ' + narrative.substring(lastComma + 2);
-        }
-        return `This process ${narrative}.`;
-    }
-
-    static async generateHtmlView(reportId: number, mode: 'business' | 'technical'): Promise<string> {
+    static async generateHtmlView(reportId: number, mode: 'business' | 'technical', dryRunSamples: Record<string, CsvTable> = {}): Promise<string> {
         const report = await db.reports.get(reportId);
         if (!report) return '<p class="text-red-500">Report not found</p>';
 
         const flowData = EtlParser.parseSteps(report.rawSteps, mode);
         const metadata = report.metadata;
         const { executionTree, variables, variableSet, tableSet, stepSet } = flowData;
+        const callGraph = await CallGraphGenerator.load(reportId);
+        const complexity = ComplexityScore.of(report);
 
 
         // --- Helper: Table Renderer ---
@@ -315,7 +175,7 @@ export class EtlGenerator {
                     <span class="text-lg">📋</span> Executive Summary
                 </h3>
                 <p class="text-slate-700 text-lg leading-relaxed">
-                    ${EtlGenerator.generateSummary(flowData.executionFlow)}
+                    ${EtlSummaryGenerator.generateSummary(flowData.executionFlow)}
                 </p>
                 ${flowChartHtml}
             </div>
@@ -332,6 +192,7 @@ export class EtlGenerator {
                 </div>
                 
                 ${metaGrid}
+                ${ComplexityScoreGenerator.renderHeader(complexity)}
             </div>
             <div class="doc-body space-y-8">
                 ${summaryHtml}
@@ -371,47 +232,43 @@ export class EtlGenerator {
         }
 
         // --- Section: Process Parameters (from Variables.xml) ---
-        const processParams = this.extractProcessParameters(report.rawVariables);
+        const process = EtlModel.of(report);
+        const processParams = process.variables;
         if (processParams.length > 0) {
             const resolveVarType = (t: string) => {
                 const types: Record<string, string> = { 'A': 'String', 'N': 'Numeric', 'D': 'Date', 'L': 'List', 'I': 'Integer' };
                 return types[t] || t || 'String';
             };
 
-            // Sort by sequence if available
-            const sortedParams = [...processParams].sort((a, b) => {
-                const seqA = parseInt(a.Sequence || '999', 10);
-                const seqB = parseInt(b.Sequence || '999', 10);
-                return seqA - seqB;
-            });
+            const sortedParams = [...processParams].sort((a, b) => a.sequence - b.sequence);
 
             // Build badges for visibility/editability in technical mode
-            const buildBadges = (p: any) => {
+            const buildBadges = (p: EtlVariable) => {
                 if (mode !== 'technical') return '';
                 const badges: string[] = [];
-                if (p.IsDisplayable === 'false') badges.push('<span class="text-[9px] bg-slate-200 text-slate-600 px-1 rounded" title="Hidden from UI">Hidden</span>');
-                if (p.IsEditable === 'false') badges.push('<span class="text-[9px] bg-amber-100 text-amber-700 px-1 rounded" title="Read-only parameter">ReadOnly</span>');
-                if (p.ListType || p.QueryListCriteria) badges.push('<span class="text-[9px] bg-blue-100 text-blue-700 px-1 rounded" title="Picklist parameter">Picklist</span>');
+                if (!p.displayable) badges.push('<span class="text-[9px] bg-slate-200 text-slate-600 px-1 rounded" title="Hidden from UI">Hidden</span>');
+                if (!p.editable) badges.push('<span class="text-[9px] bg-amber-100 text-amber-700 px-1 rounded" title="Read-only parameter">ReadOnly</span>');
+                if (p.listType) badges.push('<span class="text-[9px] bg-blue-100 text-blue-700 px-1 rounded" title="Picklist parameter">Picklist</span>');
                 return badges.length > 0 ? ` ${badges.join(' ')}` : '';
             };
 
             const paramRows = mode === 'technical' 
-                ? sortedParams.map((p: any) => ({
-                    Col1: `${p.Name}${buildBadges(p)}`,
-                    Col2: resolveVarType(p.VariableType),
-                    Col3: p.DefaultValue || '-',
-                    Col4: p.Description || '',
-                    Col5: p.IsMandatory === 'true' 
+                ? sortedParams.map(p => ({
+                    Col1: `${p.name}${buildBadges(p)}`,
+                    Col2: resolveVarType(p.type),
+                    Col3: p.defaultValue || '-',
+                    Col4: p.description,
+                    Col5: p.mandatory
                         ? '<span class="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded">Required</span>' 
                         : '<span class="text-xs bg-slate-100 text-slate-600 px-2 py-0.5 rounded">Optional</span>',
-                    Col6: p.Sequence || '-'
+                    Col6: p.sequence === 999 ? '-' : String(p.sequence)
                 }))
-                : sortedParams.map((p: any) => ({
-                    Col1: p.Name,
-                    Col2: resolveVarType(p.VariableType),
-                    Col3: p.DefaultValue || '-',
-                    Col4: p.Description || '',
-                    Col5: p.IsMandatory === 'true' ? 'Required' : 'Optional'
+                : sortedParams.map(p => ({
+                    Col1: p.name,
+                    Col2: resolveVarType(p.type),
+                    Col3: p.defaultValue || '-',
+                    Col4: p.description,
+                    Col5: p.mandatory ? 'Required' : 'Optional'
                 }));
 
             const headers = mode === 'technical' 
@@ -439,15 +296,57 @@ export class EtlGenerator {
             `;
         }
 
+        // --- Section: Variable Flow (definitions and uses in execution order) ---
+        const variableFlow = VariableFlow.analyse(process);
+        if (variableFlow.length > 0) {
+            const issueColours: Record<VariableFlowIssueKind, string> = {
+                'used-before-set': 'bg-red-100 text-red-700',
+                'never-read': 'bg-amber-100 text-amber-700',
+                'loop-shadowed': 'bg-orange-100 text-orange-700',
+                'parameter-only': 'bg-purple-100 text-purple-700'
+            };
+            const describeAccess = (a: VariableAccess) => {
+                const where = a.kind === 'parameter' ? 'Parameter' : `#${a.order} ${a.stepName}`;
+                const kind = a.kind === 'loop' ? ' (loop)' : '';
+                const conditional = a.conditional ? ' <span class="text-[9px] bg-slate-200 text-slate-600 px-1 rounded">conditional</span>' : '';
+                return `<div>${where}${kind}${conditional}</div>`;
+            };
+
+            const flowRows = variableFlow.map(e => ({
+                Col1: e.name,
+                Col2: e.definitions.map(describeAccess).join('') || '-',
+                Col3: e.uses.map(describeAccess).join('') || '-',
+                Col4: e.issues.map(i => `<div class="mb-1"><span class="text-xs ${issueColours[i.kind]} px-2 py-0.5 rounded">${VARIABLE_FLOW_ISSUE_LABELS[i.kind]}</span> <span class="text-xs text-slate-500">${i.message}</span></div>`).join('') || '-',
+                id: `flow-${e.name.replace(/[^a-zA-Z0-9_-]/g, '_')}`
+            }));
+            const flowIssues = variableFlow.reduce((n, e) => n + e.issues.filter(i => i.kind !== 'parameter-only').length, 0);
+
+            html += `
+                <details ${mode === 'technical' && flowIssues > 0 ? 'open' : ''} class="group">
+                    <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-indigo-50 hover:bg-indigo-100 transition-colors select-none border-t border-b border-indigo-200">
+                        <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                            <span class="text-indigo-500 text-lg">⇄</span> Variable Flow
+                            <span class="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full border border-indigo-200">${variableFlow.length}</span>
+                            ${flowIssues > 0 ? `<span class="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full border border-red-200">${flowIssues} to review</span>` : ''}
+                        </span>
+                    </summary>
+                    <div class="pt-4 pb-2 px-2">
+                        <p class="text-sm text-slate-600 mb-3">Where each variable is set and read, in execution order (#n is the step's position; disabled steps are left out):</p>
+                        ${renderTable(['Variable', 'Set By', 'Read By', 'Flags'], flowRows, flowRows.map(r => r.id))}
+                    </div>
+                </details>
+            `;
+        }
+
         // --- Section: File Locations (from FileLocations.xml) ---
-        const fileLocations = this.extractFileLocations(report.rawFileLocations);
+        const fileLocations = process.fileLocations;
         if (fileLocations.length > 0 && mode === 'technical') {
-            const locationRows = fileLocations.map((loc: any) => ({
-                Col1: loc.Name,
-                Col2: loc.LocationType || 'ServerFolder',
-                Col3: loc.ServerFolder || loc.Path || '-',
-                Col4: loc.Description || '',
-                id: loc.Name ? `loc-${loc.Name.replace(/[^a-zA-Z0-9_-]/g, '_')}` : ''
+            const locationRows = fileLocations.map(loc => ({
+                Col1: loc.name,
+                Col2: loc.locationType,
+                Col3: loc.path || '-',
+                Col4: loc.description,
+                id: `loc-${loc.name.replace(/[^a-zA-Z0-9_-]/g, '_')}`
             }));
             const locationIds = locationRows.map((r: any) => r.id);
 
@@ -472,7 +371,7 @@ export class EtlGenerator {
         }
 
         // --- Section: Attachments (from Attachments.xml) ---
-        const attachments = this.extractAttachments(report.rawAttachments);
+        const attachments = process.attachments;
         if (attachments.length > 0 && mode === 'technical') {
             // Infer content type from file extension
             const getContentType = (filename: string, contentType?: string): string => {
@@ -488,15 +387,12 @@ export class EtlGenerator {
                 return typeMap[ext] || 'application/octet-stream';
             };
 
-            const attachmentRows = attachments.map((att: any) => {
-                const filename = att.FileName || att.Name || 'Unknown';
-                return {
-                    Col1: filename,
-                    Col2: getContentType(filename, att.ContentType || att.MimeType),
-                    Col3: att.Description || '-',
-                    Col4: att.FileData ? `${Math.round(att.FileData.length * 0.75 / 1024)} KB` : '-'
-                };
-            });
+            const attachmentRows = attachments.map(att => ({
+                Col1: att.fileName,
+                Col2: getContentType(att.fileName, att.contentType),
+                Col3: att.description || '-',
+                Col4: att.size ? `${Math.round(att.size / 1024)} KB` : '-'
+            }));
 
             html += `
                 <details class="group">
@@ -517,6 +413,38 @@ export class EtlGenerator {
             `;
         }
 
+        // --- Section: Process Calls (StartProcess/RunProcess across the library) ---
+        html += CallGraphGenerator.renderProcessCalls(callGraph, reportId);
+
+        // --- Section: Generic Rendering (step types without a dedicated handler) ---
+        const unhandled = StepHandlers.unhandled(process);
+        if (unhandled.length > 0 && mode === 'technical') {
+            const unhandledRows = unhandled.map(u => ({
+                Col1: u.type,
+                Col2: String(u.steps.length),
+                Col3: u.steps.map(s => s.name).join(', ')
+            }));
+
+            html += `
+                <details class="group">
+                    <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-slate-50 hover:bg-slate-100 transition-colors select-none border-t border-b border-slate-200">
+                        <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                            <span class="text-slate-500 text-lg">🧩</span> Generic Rendering
+                            <span class="text-xs bg-slate-100 text-slate-700 px-2 py-0.5 rounded-full border border-slate-200">${unhandled.length}</span>
+                        </span>
+                    </summary>
+                    <div class="pt-4 pb-2 px-2">
+                        <p class="text-sm text-slate-600 mb-3">Step types the analyser has no dedicated handler for. These steps show their name, inputs and outputs only:</p>
+                        ${renderTable(['Step Type', 'Count', 'Steps'], unhandledRows)}
+                    </div>
+                </details>
+            `;
+        }
+
+        const lineage = ColumnLineage.analyse(process);
+        const tableStates = TableState.analyse(process);
+        const executionPaths = ExecutionPaths.analyse(process);
+
         // --- Section: Process Logic ---
         // Heading removed per request ("Process Logic" hidden, content visible)
         html += `
@@ -525,14 +453,16 @@ export class EtlGenerator {
 
         // --- Recursive Step Renderer ---
         const renderStep = (item: any) => {
-            const isGroup = ['Group', 'Loop', 'Decision', 'Branch'].includes(item.RawType);
+            const isGroup = StepHandlers.resolve(item.RawType).container;
 
             // --- Details/Table ---
             let detailsHtml = '';
 
             // Separate filters from other details for prominent display
             const filters = item.Details.filter((d: string) => d.startsWith('Filter:') || d.startsWith('Extended Criteria:'));
-            const otherDetails = item.Details.filter((d: string) => !d.startsWith('Filter:') && !d.startsWith('Extended Criteria:'));
+            // SQL shows formatted below, so its one-line preview is left out
+            const otherDetails = item.Details.filter((d: string) => !d.startsWith('Filter:') && !d.startsWith('Extended Criteria:')
+                && !(item.Sql && (d.startsWith('SQL:') || d.startsWith('Script:'))));
 
             if (otherDetails.length > 0) {
                 detailsHtml += `<ul class="mt-2 space-y-1 pl-4 border-l-2 border-gray-100">` +
@@ -623,6 +553,7 @@ export class EtlGenerator {
                                      <span class="font-bold text-slate-800 text-sm">${item.Phase}: ${item.Step}</span>
                                  </div>
                                  ${isLoop && mode === 'business' ? '<span class="text-xs text-amber-700 font-bold px-2 py-0.5 bg-amber-200 rounded-full border border-amber-300">Loop Sequence</span>' : ''}
+                                 ${isBranch ? ExecutionPathGenerator.renderBranchIssues(executionPaths, item.id || '') : ''}
                             </summary>
                             <div class="p-4">
                                 <div class="mb-3 text-sm text-gray-700">
@@ -670,6 +601,7 @@ export class EtlGenerator {
             const filenameIcon = item.RawType === 'ExportToExcel' ? '📊' : item.RawType === 'SaveText' || item.RawType === 'SaveTextfile' ? '📦' : item.RawType === 'LoadTextFile' ? '📄' : item.RawType === 'SendEmail' ? '📧' : '';
             const stepId = item.id || item.StepId || '';
             const stepAnchorId = stepId ? `step-${stepId.replace(/[^a-zA-Z0-9_-]/g, '_')}` : '';
+            const tableState = TableState.forStep(tableStates, item.id || '');
 
             return `
                 <div class="relative pl-6 pb-6 border-l-2 border-slate-200 last:border-0 ml-2"${stepAnchorId ? ` id="${stepAnchorId}"` : ''}>
@@ -680,6 +612,8 @@ export class EtlGenerator {
                             <span class="font-bold text-slate-800 text-sm">${item.Step}</span>
                             ${mode === 'technical' ? `<span class="text-xs text-slate-400 font-mono">(${item.RawType})</span>` : ''}
                             ${filenameIcon ? `<span class="${filenameClass}">${filenameIcon} </span>` : ''}
+                            ${TableStateGenerator.renderBadge(tableState)}
+                            ${SqlGenerator.renderBadge(item.Sql)}
                         </summary>
 
                         <div class="step-content pt-1">
@@ -691,10 +625,16 @@ export class EtlGenerator {
 
                             ${item.Description ? `<div class="text-xs text-slate-500 italic mb-2">Note: ${ExpressionFormatter.colouriseTextHTML(item.Description, variableSet, tableSet)}</div>` : ''}
 
+                            ${ExecutionPathGenerator.renderConditions(ExecutionPaths.forStep(executionPaths, item.id || ''))}
                             ${mode === 'technical' ? this.renderStepTechnicalDetails(item) : ''}
                             ${notesHtml}
                             ${detailsHtml}
+                            ${SqlGenerator.renderStatement(item.Sql)}
+                            ${CallGraphGenerator.renderStepCall(callGraph, reportId, item.id || '')}
                             ${tableHtml}
+                            ${TableStateGenerator.renderIssues(tableState)}
+                            ${ColumnLineageGenerator.renderStepColumns(lineage, item.id || '')}
+                            ${mode === 'technical' ? TableStateGenerator.renderPanel(tableState) : ''}
                         </div>
                     </details>
                 </div>
@@ -702,7 +642,12 @@ export class EtlGenerator {
         };
 
         html += executionTree.map((item: any) => renderStep(item)).join('');
-        html += `</div></div>`; // Close container div, Close doc-body (removed details)
+        html += `</div>`; // Close container div
+        html += ExecutionPathGenerator.renderPanel(executionPaths);
+        html += ColumnLineageGenerator.renderPanel(lineage);
+        html += DryRunGenerator.renderPanel(process, dryRunSamples);
+        html += ImportHealthGenerator.renderPanel(report.parseIssues);
+        html += `</div>`; // Close doc-body (removed details)
         return html;
     }
 
@@ -711,58 +656,6 @@ export class EtlGenerator {
         return EtlParser.parseSteps(json, mode);
     }
 
-    // --- Helper: Extract Process Parameters from Variables.xml ---
-    private static extractProcessParameters(rawVariables: any): any[] {
-        if (!rawVariables) return [];
-        
-        // Handle various XML structures
-        const vars = rawVariables?.ArrayOfC2GenericVariable?.C2GenericVariable 
-            || rawVariables?.ArrayOfVariableDef?.VariableDef
-            || rawVariables?.C2GenericVariable
-            || rawVariables?.VariableDef;
-        
-        if (!vars) return [];
-        return Array.isArray(vars) ? vars : [vars];
-    }
-
-    // --- Helper: Extract File Locations from FileLocations.xml ---
-    private static extractFileLocations(rawFileLocations: any): any[] {
-        if (!rawFileLocations) return [];
-        
-        const locations = rawFileLocations?.ArrayOfFileLocation?.FileLocation
-            || rawFileLocations?.FileLocation;
-        
-        if (!locations) return [];
-        
-        const list = Array.isArray(locations) ? locations : [locations];
-        
-        // Flatten nested Definition fields if present
-        return list.map((loc: any) => {
-            const def = loc.Definition || {};
-            return {
-                Name: loc.Name || loc.Description || 'Unknown',
-                LocationType: loc.LocationType || 'ServerFolder',
-                ServerFolder: def.ServerFolder || def.Path || loc.ServerFolder || '',
-                SubPath: def.SubPath || '',
-                Description: loc.Description || '',
-                Path: def.ServerFolder ? `${def.ServerFolder}${def.SubPath || ''}` : (loc.Path || '')
-            };
-        });
-    }
-
-    // --- Helper: Extract Attachments from Attachments.xml ---
-    private static extractAttachments(rawAttachments: any): any[] {
-        if (!rawAttachments) return [];
-        
-        const attachments = rawAttachments?.ArrayOfAttachment?.Attachment
-            || rawAttachments?.ArrayOfProcessAttachment?.ProcessAttachment
-            || rawAttachments?.Attachment
-            || rawAttachments?.ProcessAttachment;
-        
-        if (!attachments) return [];
-        return Array.isArray(attachments) ? attachments : [attachments];
-    }
-
     // --- Helper: Render Technical Details for a Step (IDs, Operational Settings) ---
     private static renderStepTechnicalDetails(item: any): string {
         const details: string[] = [];
@@ -800,7 +693,10 @@ export class EtlGenerator {
         }
         
         // Only render if we have something to show
-        if (details.length === 0 && ops.length === 0) {
+        // Step-type settings from the step's handler
+        const facts: StepFact[] = item.Technical || [];
+
+        if (details.length === 0 && ops.length === 0 && facts.length === 0) {
             return '';
         }
         
@@ -813,6 +709,10 @@ export class EtlGenerator {
         if (ops.length > 0) {
             html += `<span class="flex gap-2 px-2 py-0.5 bg-slate-100 rounded border border-slate-200">${ops.join(' ')}</span>`;
         }
+
+        if (facts.length > 0) {
+            html += `<span class="text-slate-500">${facts.map(f => `<span class="text-slate-400">${f.label}:</span> <span class="font-mono">${f.value}</span>`).join(' | ')}</span>`;
+        }
         
         html += '</div>';
         return html;
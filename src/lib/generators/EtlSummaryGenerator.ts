@@ -0,0 +1,176 @@
+import type { Report } from '../db';
+import { EtlParser } from '../parsers/EtlParser';
+
+/**
+ * The plain-language summary of an ETL shown on its library card and at the
+ * top of the ETL view. Kept apart from `EtlGenerator` so the parse worker can
+ * store it at import.
+ */
+export class EtlSummaryGenerator {
+
+    private static normalizeTableName(name: string): string {
+        return name.trim().toUpperCase().replace(/\s+/g, ' ');
+    }
+
+    private static formatSummaryTable(name: string): string {
+        return `<span class="t1-table-badge" data-type="table">𝄜 ${name}</span>`;
+    }
+
+    private static formatSummaryFile(name: string): string {
+        return `<span class="text-green-700">${name}</span>`;
+    }
+
+    private static formatSummaryTarget(name: string): string {
+        return `<strong>the ${name}</strong>`;
+    }
+
+    private static formatSummaryAnalyser(name: string): string {
+        return `<span class="text-pink-600">${name}</span>`;
+    }
+
+    /** The card summary stored at import, or one worked out from the business flow for records imported before it was stored. */
+    static of(report: Report): string {
+        return report.summary ?? this.generateSummary(EtlParser.parseSteps(report.rawSteps, 'business').executionFlow);
+    }
+
+    /** One-sentence narrative of where a flow reads from and writes to. */
+    static generateSummary(flow: any[]) {
+        const sources: string[] = [];
+        const targets: string[] = [];
+        const sourceNames = new Set<string>();
+        const targetNames = new Set<string>();
+
+        flow.forEach((s: any) => {
+            // Extract sources from step Inputs (covers tables, warehouse, variables, etc.)
+            if (s.Inputs && Array.isArray(s.Inputs)) {
+                s.Inputs.forEach((input: string) => {
+                    if (input && input !== 'dataset' && input !== 'target' && input !== 'DATA') {
+                        const sourceKey = EtlSummaryGenerator.normalizeTableName(input);
+                        if (sourceKey && !sourceNames.has(sourceKey)) {
+                            sourceNames.add(sourceKey);
+                            sources.push(EtlSummaryGenerator.formatSummaryTable(sourceKey));
+                        }
+                    }
+                });
+            }
+
+            // Query-specific sources (more detailed context)
+            if (s.RawType === 'RunDirectQuery' || s.RawType === 'RunTableQuery') {
+                const tableName = s.Details.find((d: string) => d.startsWith('Source Table:'))?.split(': ')[1];
+                if (tableName) {
+                    const sourceKey = EtlSummaryGenerator.normalizeTableName(tableName);
+                    if (!sourceNames.has(sourceKey)) {
+                        sourceNames.add(sourceKey);
+                        sources.push(EtlSummaryGenerator.formatSummaryTable(sourceKey));
+                    }
+                }
+            } else if (s.RawType === 'RunDatasourceQuery' || s.RawType === 'RunSimpleQuery') {
+                const source = s.Details.find((d: string) => d.startsWith('Source:'))?.split(': ')[1];
+                if (source) {
+                    const sourceKey = EtlSummaryGenerator.normalizeTableName(source);
+                    if (!sourceNames.has(sourceKey)) {
+                        sourceNames.add(sourceKey);
+                        sources.push(EtlSummaryGenerator.formatSummaryTable(sourceKey));
+                    }
+                }
+            } else if (s.RawType === 'RunAnalyserQuery' || s.RawType === 'LoadAnalyserData') {
+                // Analyser datasource
+                const analyserName = s.Details.find((d: string) => d.startsWith('Analyser:') || d.startsWith('Source:'))?.split(': ')[1];
+                if (analyserName) {
+                    const sourceKey = EtlSummaryGenerator.normalizeTableName(analyserName);
+                    if (!sourceNames.has(sourceKey)) {
+                        sourceNames.add(sourceKey);
+                        sources.push(EtlSummaryGenerator.formatSummaryAnalyser(sourceKey));
+                    }
+                }
+            } else if (s.RawType === 'LoadTextFile') {
+                const file = s.Details.find((d: string) => d.startsWith('File:'))?.split(': ')[1];
+                if (file && !sourceNames.has(file)) {
+                    sourceNames.add(file);
+                    sources.push(EtlSummaryGenerator.formatSummaryFile(file.trim()));
+                }
+            }
+
+            // Check for Analyser type in source metadata
+            if (s.SourceType === 'Analyser') {
+                const analyserName = s.Details.find((d: string) => d.startsWith('Source:'))?.split(': ')[1] || s.Step;
+                if (analyserName) {
+                    const sourceKey = EtlSummaryGenerator.normalizeTableName(analyserName);
+                    if (!sourceNames.has(sourceKey)) {
+                        sourceNames.add(sourceKey);
+                        sources.push(EtlSummaryGenerator.formatSummaryAnalyser(sourceKey));
+                    }
+                }
+            }
+
+            // Extract targets
+            if (s.RawType === 'ImportWarehouseData') {
+                const warehouse = s.Output?.name || 'Warehouse';
+                const targetKey = `WAREHOUSE_${warehouse}`;
+                if (!targetNames.has(targetKey)) {
+                    targetNames.add(targetKey);
+                    targets.push(EtlSummaryGenerator.formatSummaryTarget(warehouse.trim()));
+                }
+            } else if (s.RawType === 'ExportToExcel') {
+                const filename = s.Output?.name || s.Details.find((d: string) => d.startsWith('File:'))?.split(': ')[1];
+                const targetName = filename ? `${EtlSummaryGenerator.formatSummaryFile(filename.trim())} (Excel)` : `an Excel file`;
+                const targetKey = `EXCEL_${filename}`;
+                if (!targetNames.has(targetKey)) {
+                    targetNames.add(targetKey);
+                    targets.push(targetName);
+                }
+            } else if (s.RawType === 'SendEmail') {
+                const targetKey = 'EMAIL';
+                if (!targetNames.has(targetKey)) {
+                    targetNames.add(targetKey);
+                    targets.push(`<span class="text-amber-700">Email</span> recipients`);
+                }
+            } else if (s.RawType === 'SaveText' || s.RawType === 'SaveTextfile') {
+                const filename = s.Output?.name || s.Details.find((d: string) => d.startsWith('File:'))?.split(': ')[1];
+                const targetName = filename ? `${EtlSummaryGenerator.formatSummaryFile(filename.trim())} (Text file)` : `a Text file`;
+                const targetKey = `TEXT_${filename}`;
+                if (!targetNames.has(targetKey)) {
+                    targetNames.add(targetKey);
+                    targets.push(targetName);
+                }
+            } else if (s.Outputs && Array.isArray(s.Outputs)) {
+                // Extract targets from step Outputs
+                s.Outputs.forEach((output: string) => {
+                    if (output && output !== 'dataset' && output !== 'target') {
+                        const targetKey = EtlSummaryGenerator.normalizeTableName(output);
+                        if (targetKey && !targetNames.has(targetKey)) {
+                            targetNames.add(targetKey);
+                            targets.push(EtlSummaryGenerator.formatSummaryTable(targetKey));
+                        }
+                    }
+                });
+            }
+        });
+
+        const hasCalcs = flow.some(s => s.RawType === 'AddColumn' || s.RawType === 'UpdateColumn' || s.RawType === 'CalculateVariable');
+        const hasJoins = flow.some(s => s.RawType === 'JoinTable');
+        const hasConditions = flow.some(s => s.RawType === 'Decision' || s.RawType === 'Branch');
+
+        let parts: string[] = [];
+        if (sources.length > 0) parts.push(`extracts data from ${sources.join(', ')}`);
+        if (hasJoins) parts.push(`combines multiple datasets`);
+        if (hasCalcs) parts.push(`performs business calculations`);
+
+        if (targets.length > 0) {
+            if (hasConditions) {
+                parts.push(`based on certain conditions, distributes results to ${targets.join(', ')}`);
+            } else {
+                parts.push(`publishes results to ${targets.join(', ')}`);
+            }
+        }
+
+        if (parts.length === 0) return "This process performs a sequence of data operations.";
+
+        let narrative = parts.join(', ');
+        const lastComma = narrative.lastIndexOf(', ');
+        if (lastComma !== -1) {
+            narrative = narrative.substring(0, lastComma) + ' and ' + narrative.substring(lastComma + 2);
+        }
+        return `This process ${narrative}.`;
+    }
+}
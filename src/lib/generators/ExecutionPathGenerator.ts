@@ -0,0 +1,103 @@
+import { BRANCH_ISSUE_LABELS, ExecutionPaths, type BranchGuard, type BranchIssueKind, type ExecutionPathAnalysis, type StepConditions } from '../analysis/ExecutionPaths';
+
+const ISSUE_COLOURS: Record<BranchIssueKind, string> = {
+    'never-true': 'bg-red-50 text-red-700 border-red-200',
+    'unreachable': 'bg-red-50 text-red-700 border-red-200',
+    'overlap': 'bg-amber-50 text-amber-700 border-amber-200'
+};
+
+/**
+ * Branch conditions in the ETL view: a "Runs when" line on step cards inside
+ * Decision/Branch steps, issue badges on Branch containers, and an
+ * "Execution Paths" section listing every path with its guards.
+ */
+export class ExecutionPathGenerator {
+
+    private static escapeHtml(str: string): string {
+        return String(str ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    private static renderGuard(guard: BranchGuard): string {
+        const where = guard.decisionName
+            ? `${this.escapeHtml(guard.decisionName)} → ${guard.branchName ? this.escapeHtml(guard.branchName) : '<span class="italic">no branch</span>'}`
+            : `${this.escapeHtml(guard.branchName)}${guard.branchKey ? '' : ' <span class="italic">skipped</span>'}`;
+        return `<span class="text-slate-500">${where}:</span> <span class="font-mono">${this.escapeHtml(ExecutionPaths.describe(guard))}</span>`;
+    }
+
+    /** The conditions a step runs under; '' for steps that always run. */
+    static renderConditions(conditions: StepConditions | undefined): string {
+        if (!conditions || conditions.guards.length === 0) return '';
+        if (!conditions.reachable) {
+            return `<div class="mt-2 text-xs text-red-800 bg-red-50 border-l-4 border-red-400 rounded px-2 py-1">⚠ Never runs: an enclosing branch can never be taken</div>`;
+        }
+        const guards = conditions.guards.map(g => `<li>${this.renderGuard(g)}</li>`).join('');
+        return `
+            <div class="mt-2 text-xs text-blue-900 bg-blue-50 border-l-4 border-blue-300 rounded px-2 py-1">
+                <span class="font-bold">Runs when</span>
+                <ul class="list-none pl-0 space-y-0.5">${guards}</ul>
+            </div>`;
+    }
+
+    /** Issue badges for a Branch container; '' when it has none. */
+    static renderBranchIssues(analysis: ExecutionPathAnalysis, branchKey: string): string {
+        return analysis.issues
+            .filter(i => i.branchKey === branchKey)
+            .map(i => `<span class="text-[10px] font-bold px-1.5 py-0.5 rounded-full border ${ISSUE_COLOURS[i.kind]}" title="${this.escapeHtml(i.message)}">⚠ ${BRANCH_ISSUE_LABELS[i.kind]}</span>`)
+            .join('');
+    }
+
+    /** The "Execution Paths" section; '' for processes without Decision or Branch steps. */
+    static renderPanel(analysis: ExecutionPathAnalysis): string {
+        if (!analysis.conditions.some(c => c.guards.length > 0)) return '';
+        const names = new Map(analysis.conditions.map(c => [c.stepKey, c.stepName]));
+
+        const issues = analysis.issues.map(i => `
+            <li class="text-xs flex items-start gap-2">
+                <span class="text-[10px] font-bold px-1.5 py-0.5 rounded border ${ISSUE_COLOURS[i.kind]} whitespace-nowrap">${BRANCH_ISSUE_LABELS[i.kind]}</span>
+                <button onclick="window.revealAnchor('step-${i.branchKey}')" class="text-left text-slate-700 hover:underline">${this.escapeHtml(i.message)}</button>
+            </li>`).join('');
+
+        const rows = analysis.paths.map((path, index) => `
+            <tr class="border-t border-gray-100 align-top ${path.possible ? '' : 'opacity-50'}">
+                <td class="px-3 py-2 text-xs font-mono text-slate-400">${index + 1}</td>
+                <td class="px-3 py-2 text-xs">
+                    ${path.guards.length > 0 ? `<ul class="list-none pl-0 space-y-0.5">${path.guards.map(g => `<li>${this.renderGuard(g)}</li>`).join('')}</ul>` : '<span class="italic text-slate-400">No conditions</span>'}
+                    ${path.possible ? '' : '<div class="text-red-700 font-semibold mt-1">Cannot happen: a branch on this path never runs</div>'}
+                </td>
+                <td class="px-3 py-2 text-xs">
+                    <details>
+                        <summary class="cursor-pointer text-slate-600">${path.steps.length} step${path.steps.length === 1 ? '' : 's'}</summary>
+                        <ol class="list-decimal pl-5 mt-1 space-y-0.5">${path.steps.map(key => `<li><button onclick="window.revealAnchor('step-${key}')" class="hover:underline text-left">${this.escapeHtml(names.get(key) ?? key)}</button></li>`).join('')}</ol>
+                    </details>
+                </td>
+            </tr>`).join('');
+
+        return `
+            <details class="group" id="execution-paths">
+                <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-violet-50 hover:bg-violet-100 transition-colors select-none border-t border-b border-violet-200">
+                    <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                        <span class="text-violet-500 text-lg">⑂</span> Execution Paths
+                        <span class="text-xs bg-violet-100 text-violet-700 px-2 py-0.5 rounded-full border border-violet-200">${analysis.paths.length}${analysis.truncated ? '+' : ''}</span>
+                        ${analysis.issues.length > 0 ? `<span class="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full border border-red-200">${analysis.issues.length} issue${analysis.issues.length === 1 ? '' : 's'}</span>` : ''}
+                    </span>
+                </summary>
+                <div class="pt-4 pb-2 px-2">
+                    <p class="text-sm text-slate-600 mb-3">Every route through the Decision and Branch steps. A Decision runs the first branch whose condition holds, so each branch also needs the earlier ones to be false.</p>
+                    ${issues ? `<ul class="list-none pl-0 mb-4 space-y-1">${issues}</ul>` : ''}
+                    ${analysis.truncated ? `<p class="text-sm text-amber-700 mb-2">Only the first ${analysis.paths.length} paths are listed.</p>` : ''}
+                    <div class="w-full overflow-x-auto border border-slate-300 rounded-md">
+                        <table class="w-full divide-y divide-slate-300">
+                            <thead><tr class="bg-slate-200">${['#', 'Conditions', 'Steps'].map(h => `<th class="px-3 py-2 text-left text-xs font-bold text-slate-700 uppercase tracking-wider bg-slate-200">${h}</th>`).join('')}</tr></thead>
+                            <tbody class="bg-white">${rows}</tbody>
+                        </table>
+                    </div>
+                </div>
+            </details>
+        `;
+    }
+}
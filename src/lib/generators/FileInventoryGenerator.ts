@@ -0,0 +1,103 @@
+import type { Report } from '../db';
+import { EtlModel } from '../model/EtlModel';
+import { VersionHistory } from '../VersionHistory';
+import { FILE_PATH_FLAG_LABELS, FileInventory, type FileInventoryEntry } from '../analysis/FileInventory';
+
+/**
+ * Library panel listing every file path, server folder and file mask the
+ * ETLs read or write, for planning a server move. `window.exportFileInventoryCsv`
+ * downloads the same rows through `CsvGenerator`.
+ */
+export class FileInventoryGenerator {
+
+    private static escapeHtml(str: string): string {
+        return String(str ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    /** The inventory over the latest version of each ETL. */
+    static fromRecords(reports: Report[]): FileInventory {
+        return FileInventory.build(VersionHistory.stack('report', reports).map(stack => ({
+            recordId: stack.latest.id!,
+            process: EtlModel.of(stack.latest)
+        })));
+    }
+
+    /** Entries sorted by path so the files of one folder sit together. */
+    static sorted(inventory: FileInventory): FileInventoryEntry[] {
+        return [...inventory.entries].sort((a, b) => a.path.toLowerCase().localeCompare(b.path.toLowerCase())
+            || a.processName.localeCompare(b.processName));
+    }
+
+    static direction(entry: FileInventoryEntry): string {
+        if (entry.source === 'Attachments.xml') return 'Embedded';
+        if (entry.directions.length === 0) return 'Unused';
+        return entry.directions.map(d => d === 'read' ? 'Read' : 'Write').join(' / ');
+    }
+
+    /** Header and one row per entry, for the CSV export. */
+    static toRows(inventory: FileInventory): string[][] {
+        const header = ['Path', 'Kind', 'Direction', 'Process', 'Step', 'Source', 'File Location', 'Built From', 'Flags'];
+        return [header, ...this.sorted(inventory).map(e => [
+            e.path,
+            e.kind,
+            this.direction(e),
+            e.processName,
+            e.stepKey ? e.stepName : '',
+            e.source,
+            e.location,
+            e.variables.length > 0 ? e.variables.map(v => `{&${v}}`).join(' ') : 'Hard-coded',
+            e.flags.map(f => FILE_PATH_FLAG_LABELS[f]).join('; ')
+        ])];
+    }
+
+    /** Library panel with the whole inventory; '' when no ETL names a file. */
+    static renderLibraryPanel(inventory: FileInventory): string {
+        if (inventory.entries.length === 0) return '';
+        const flagged = inventory.entries.filter(e => e.flags.length > 0).length;
+        const hardCoded = inventory.entries.filter(e => e.path && e.variables.length === 0).length;
+
+        const rows = this.sorted(inventory).map(e => {
+            const anchor = e.stepKey ? `, 'step-${e.stepKey}'` : '';
+            const flags = e.flags.map(f => `<span class="text-[10px] font-bold px-1.5 py-0.5 rounded border bg-red-50 text-red-700 border-red-200 whitespace-nowrap">⚠ ${FILE_PATH_FLAG_LABELS[f]}</span>`).join(' ');
+            const builtFrom = e.variables.length > 0
+                ? e.variables.map(v => `<span class="font-mono text-purple-700">{&amp;${this.escapeHtml(v)}}</span>`).join(' ')
+                : '<span class="text-gray-400">Hard-coded</span>';
+            return `
+            <tr class="border-t border-gray-100 align-top">
+                <td class="px-3 py-1.5 text-xs font-mono break-all">${this.escapeHtml(e.path || '(no path)')}${e.location && e.stepKey ? `<div class="text-[10px] font-sans text-gray-400">${this.escapeHtml(e.location)}</div>` : ''}</td>
+                <td class="px-3 py-1.5 text-xs text-gray-600">${e.kind}</td>
+                <td class="px-3 py-1.5 text-xs text-gray-600 whitespace-nowrap">${this.direction(e)}</td>
+                <td class="px-3 py-1.5 text-xs"><button onclick="window.navigateTo('detail', ${e.recordId}, 'report'${anchor})" class="font-bold text-blue-700 hover:underline text-left">${this.escapeHtml(e.processName)}</button>
+                    <div class="text-[10px] text-gray-500">${this.escapeHtml(e.stepName)} <span class="text-gray-400">(${this.escapeHtml(e.source)})</span></div></td>
+                <td class="px-3 py-1.5 text-xs">${builtFrom}</td>
+                <td class="px-3 py-1.5 text-xs">${flags}</td>
+            </tr>`;
+        }).join('');
+
+        return `
+            <details class="bg-white p-4 rounded-xl shadow-sm border border-gray-200" id="library-file-inventory">
+                <summary class="cursor-pointer list-none flex items-center gap-2 text-lg font-bold text-gray-700">
+                    Files &amp; Paths
+                    <span class="text-xs font-bold bg-cyan-50 text-cyan-700 px-2 py-0.5 rounded-full border border-cyan-200">${inventory.entries.length} path${inventory.entries.length === 1 ? '' : 's'}</span>
+                    <span class="text-xs font-bold bg-gray-50 text-gray-600 px-2 py-0.5 rounded-full border border-gray-200">${hardCoded} hard-coded</span>
+                    ${flagged > 0 ? `<span class="text-xs font-bold bg-red-50 text-red-700 px-2 py-0.5 rounded-full border border-red-200">${flagged} flagged</span>` : ''}
+                </summary>
+                <div class="flex items-center justify-between mt-3 mb-2">
+                    <p class="text-xs text-gray-500">Every folder, file and file mask the ETLs read or write. User folders and drive letters tie a path to one machine and need a new home on the server.</p>
+                    <button onclick="window.exportFileInventoryCsv()" class="text-xs bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-3 py-1 rounded-md font-bold transition whitespace-nowrap">Export CSV</button>
+                </div>
+                <div class="w-full overflow-x-auto border border-gray-200 rounded-md">
+                    <table class="w-full">
+                        <thead class="bg-gray-50 text-left text-[10px] uppercase tracking-wider text-gray-500"><tr><th class="px-3 py-1.5">Path</th><th class="px-3 py-1.5">Kind</th><th class="px-3 py-1.5">Direction</th><th class="px-3 py-1.5">Process / Step</th><th class="px-3 py-1.5">Built From</th><th class="px-3 py-1.5">Flags</th></tr></thead>
+                        <tbody>${rows}</tbody>
+                    </table>
+                </div>
+            </details>
+        `;
+    }
+}
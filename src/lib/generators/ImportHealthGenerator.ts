@@ -0,0 +1,84 @@
+import type { ParseIssue, ParseIssueSeverity } from '../parsers/ParseIssue';
+
+const SEVERITY_ORDER: Record<ParseIssueSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export class ImportHealthGenerator {
+    /** Errors first, then warnings, then info; otherwise in the order they were found. */
+    static sortIssues(issues: ParseIssue[]): ParseIssue[] {
+        return issues
+            .map((issue, index) => ({ issue, index }))
+            .sort((a, b) => SEVERITY_ORDER[a.issue.severity] - SEVERITY_ORDER[b.issue.severity] || a.index - b.index)
+            .map(x => x.issue);
+    }
+
+    static countBySeverity(issues: ParseIssue[] = []): Record<ParseIssueSeverity, number> {
+        const counts: Record<ParseIssueSeverity, number> = { error: 0, warning: 0, info: 0 };
+        for (const issue of issues) counts[issue.severity]++;
+        return counts;
+    }
+
+    /**
+     * "Import health" section shared by every artifact view. Artifacts imported before
+     * issues were collected have no list at all and get no section.
+     */
+    static renderPanel(issues?: ParseIssue[]): string {
+        if (!issues) return '';
+
+        const escapeHtml = (str: string): string => {
+            if (!str) return '';
+            return String(str)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        };
+
+        const severityBadges: Record<ParseIssueSeverity, string> = {
+            error: '<span class="inline-block px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wide bg-red-50 text-red-700 border-red-200">Error</span>',
+            warning: '<span class="inline-block px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wide bg-amber-50 text-amber-700 border-amber-200">Warning</span>',
+            info: '<span class="inline-block px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wide bg-sky-50 text-sky-700 border-sky-200">Info</span>'
+        };
+
+        const counts = this.countBySeverity(issues);
+        const problems = counts.error + counts.warning;
+
+        let body: string;
+        if (issues.length === 0) {
+            body = `<div class="text-sm text-emerald-700">✓ Every package entry was read without problems.</div>`;
+        } else {
+            const rows = this.sortIssues(issues).map(i => `
+                <tr class="border-t border-gray-100 hover:bg-gray-50">
+                    <td class="px-4 py-2 align-top">${severityBadges[i.severity]}</td>
+                    <td class="px-4 py-2 text-sm text-gray-700 align-top font-mono">${escapeHtml(i.entry)}</td>
+                    <td class="px-4 py-2 text-xs text-gray-500 align-top font-mono break-all">${escapeHtml(i.location)}</td>
+                    <td class="px-4 py-2 text-sm text-gray-700 align-top">${escapeHtml(i.message)}</td>
+                </tr>`).join('');
+            const ths = ['Severity', 'Entry', 'Location', 'Message']
+                .map(h => `<th class="px-4 py-2 text-left text-xs font-bold text-slate-700 uppercase tracking-wider bg-slate-200 border-r border-slate-300 last:border-r-0">${h}</th>`).join('');
+            body = `
+                <p class="text-sm text-gray-600 mb-3">Parts of this package could not be fully read. Sections of the documentation that rely on them may be incomplete.</p>
+                <div class="w-full overflow-x-auto border border-slate-300 rounded-md mb-3"><table class="w-full divide-y divide-slate-300"><thead><tr class="bg-slate-200">${ths}</tr></thead><tbody class="bg-white divide-y divide-slate-200">${rows}</tbody></table></div>`;
+        }
+
+        const countBadge = problems > 0
+            ? `<span class="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full border border-red-200">${problems}</span>`
+            : issues.length > 0
+                ? `<span class="text-xs bg-sky-100 text-sky-700 px-2 py-0.5 rounded-full border border-sky-200">${issues.length}</span>`
+                : '';
+
+        return `
+            <details ${problems > 0 ? 'open' : ''} class="group" id="import-health">
+                <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-slate-50 hover:bg-slate-100 transition-colors select-none border-t border-b border-slate-200">
+                    <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                        <span class="text-slate-600 text-lg">🩺</span> Import Health
+                        ${countBadge}
+                    </span>
+                </summary>
+                <div class="pt-4 pb-2 px-2">
+                    ${body}
+                </div>
+            </details>
+        `;
+    }
+}
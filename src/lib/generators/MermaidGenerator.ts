@@ -142,6 +142,22 @@ export class MermaidGenerator {
                     className = 'bigSave';
                     label = '📄 ' + label.trim(); // File icon
                 }
+                else if (item.Sql) {
+                    // ExecuteSQL and SQL scripts take the shape of what their statements do
+                    if (item.Sql.warnings.length > 0) {
+                        shape = '(['; shapeEnd = '])';
+                        className = 'error';
+                        label = '⚠️' + label.trim();
+                    } else if (item.Sql.writes.length > 0) {
+                        shape = '(['; shapeEnd = '])';
+                        className = 'target';
+                        label = '🗄️' + label.trim();
+                    } else if (item.Sql.reads.length > 0) {
+                        shape = '[('; shapeEnd = ')]';
+                        className = 'source';
+                        label = '📥 ' + label.trim();
+                    }
+                }
                 else if (['Decision'].includes(item.RawType)) {
                     shape = '{'; shapeEnd = '}';
                     className = 'decision';
@@ -0,0 +1,437 @@
+import { db } from '../db';
+import { PlaylistParser, type PlaylistItem, type PlaylistVariable } from '../parsers/PlaylistParser';
+import { PlaceholderResolver, type PlaceholderIssue } from '../formatters/PlaceholderResolver';
+import { ImportHealthGenerator } from './ImportHealthGenerator';
+
+export class PlaylistGenerator {
+    static async generateHtmlView(id: number, mode: 'business' | 'technical' = 'business', testValues: Record<string, string> = {}): Promise<string> {
+        const playlist = await db.playlists.get(id);
+        if (!playlist) throw new Error("Playlist not found");
+
+        const content = playlist.content;
+        const metadata = playlist.metadata;
+
+        // --- Helpers ---
+        const formatDate = (dateStr: string) => {
+            if (!dateStr) return 'N/A';
+            try {
+                const d = new Date(dateStr);
+                if (isNaN(d.getTime())) return dateStr;
+                const day = d.getDate();
+                const month = d.toLocaleString('en-US', { month: 'short' });
+                const year = d.getFullYear();
+                const currentYear = new Date().getFullYear();
+                return year === currentYear ? `${day} ${month}` : `${day} ${month} ${year}`;
+            } catch {
+                return dateStr;
+            }
+        };
+
+        const escapeHtml = (str: string): string => {
+            if (!str) return '';
+            return String(str)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        };
+
+        const renderTable = (headers: string[], rows: any[], tableId = '') => {
+            if (!rows || rows.length === 0) return '';
+            const ths = headers.map(h => `<th class="px-4 py-2 text-left text-xs font-bold text-slate-700 uppercase tracking-wider bg-slate-200 border-r border-slate-300 last:border-r-0">${h}</th>`).join('');
+            const trs = rows.map((r) => {
+                const cells = headers.map((_, i) => {
+                    const val = r[`Col${i + 1}`] || '';
+                    return `<td class="px-4 py-2 text-sm text-gray-700 align-top">${val}</td>`;
+                }).join('');
+                return `<tr class="border-t border-gray-100 hover:bg-gray-50">${cells}</tr>`;
+            }).join('');
+            return `<div class="w-full overflow-x-auto border border-slate-300 rounded-md mb-3"><table ${tableId ? `id="${tableId}"` : ''} class="w-full divide-y divide-slate-300"><thead><tr class="bg-slate-200">${ths}</tr></thead><tbody class="bg-white divide-y divide-slate-200">${trs}</tbody></table></div>`;
+        };
+
+        const badge = (text: string, classes: string) => `<span class="inline-block px-1.5 py-0.5 mr-1 mb-1 rounded border text-[10px] font-bold uppercase tracking-wide ${classes}">${escapeHtml(text)}</span>`;
+        const code = (val: string) => `<code class="bg-gray-100 px-1.5 py-0.5 rounded text-xs font-mono break-all">${escapeHtml(val)}</code>`;
+
+        // --- Extract Data ---
+        const schedule = PlaylistParser.getSchedule(content);
+        const scheduleDef = schedule.Definition?.ScheduleDefinition || {};
+        const items = PlaylistParser.getItems(content);
+        const variables = PlaylistParser.getVariables(content);
+
+        const activeCount = items.filter(i => i.active).length;
+        const emailCount = items.filter(i => i.emailInd).length;
+        const saveCount = items.filter(i => i.saveInd).length;
+        const myReportCount = items.filter(i => i.myReportInd).length;
+        const actionCodes = new Map<string, number>();
+        items.forEach(i => actionCodes.set(i.actionCode || 'N/A', (actionCodes.get(i.actionCode || 'N/A') || 0) + 1));
+        const sourceWorkbooks = new Set(items.map(i => `${i.sourceServerFolder}|${i.sourcePath}`));
+        const distribution = PlaylistParser.getDistribution(items);
+
+        // --- Metadata Grid ---
+        const metaGrid = `
+            <div class="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6 p-4 bg-white border border-gray-200 rounded-lg text-sm shadow-sm">
+                <div>
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Owner</span>
+                    <span class="font-medium text-gray-800">${escapeHtml(metadata.owner || schedule.Owner || '-')}</span>
+                </div>
+                <div>
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Folder</span>
+                    <span class="font-medium text-gray-800 text-xs truncate" title="${escapeHtml(metadata.parentPath || '')}">${escapeHtml((metadata.parentPath || '-').split('/').pop() || '-')}</span>
+                </div>
+                <div class="text-right">
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Schedule ID</span>
+                    <span class="font-mono text-gray-500 text-[11px] truncate inline-block" title="${escapeHtml(metadata.id || '')}">${escapeHtml((metadata.id || 'N/A').substring(0, 12))}</span>
+                </div>
+                <div>
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Default Suite</span>
+                    <span class="font-medium text-gray-800">${escapeHtml(schedule.DefaultSuite || '-')}</span>
+                </div>
+                <div>
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Last Run</span>
+                    <span class="font-medium text-gray-800">${schedule.LastRunDatei ? formatDate(schedule.LastRunDatei) : '-'}${schedule.LastRunBy ? ` by ${escapeHtml(schedule.LastRunBy)}` : ''}</span>
+                </div>
+                <div class="text-right">
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Version</span>
+                    <span class="font-medium text-gray-800">${escapeHtml(schedule.Vers || '-')}</span>
+                </div>
+            </div>
+        `;
+
+        // --- Executive Summary ---
+        const actionBreakdown = Array.from(actionCodes.entries()).map(([code, count]) => `${code}: ${count}`).join(' • ');
+        const summaryHtml = `
+            <div class="p-6 bg-slate-50 border-l-4 border-rose-400 rounded-r-xl shadow-sm">
+                <h3 class="text-sm font-bold text-slate-500 uppercase tracking-widest mb-2 flex items-center gap-2">
+                    <span class="text-lg">📋</span> Executive Summary
+                </h3>
+                <p class="text-slate-700 text-lg leading-relaxed">
+                    This playlist runs <strong>${items.length} items</strong> (${escapeHtml(actionBreakdown || 'no actions')}) from <strong>${sourceWorkbooks.size} source workbook${sourceWorkbooks.size !== 1 ? 's' : ''}</strong>, of which <strong>${activeCount}</strong> are active.
+                    <strong>${emailCount}</strong> item${emailCount !== 1 ? 's' : ''} email their output, <strong>${saveCount}</strong> save to a server folder and <strong>${myReportCount}</strong> publish to My Reports.
+                    Output reaches <strong>${distribution.recipients.length} recipient${distribution.recipients.length !== 1 ? 's' : ''}</strong>${distribution.undelivered.length > 0 ? ` and <strong class="text-red-600">${distribution.undelivered.length} item${distribution.undelivered.length !== 1 ? 's are' : ' is'} neither emailed nor saved</strong>` : ''}.
+                    ${variables.length > 0 ? `Users are prompted for <strong>${variables.length} variable${variables.length !== 1 ? 's' : ''}</strong> when the playlist runs.` : ''}
+                </p>
+            </div>
+        `;
+
+        // --- Variables (Run-time Prompts) ---
+        let variablesHtml = '';
+        if (variables.length > 0) {
+            const typeMap: Record<string, string> = {
+                'A': 'String',
+                'L': 'List',
+                'N': 'Numeric',
+                'D': 'Date',
+                'I': 'Integer',
+                'F': 'Float'
+            };
+
+            const varRows = variables.map(v => ({
+                Col1: `<span class="font-bold">${escapeHtml(v.name)}</span>`,
+                Col2: escapeHtml(v.description || '-'),
+                Col3: typeMap[v.type] || escapeHtml(v.type || '-'),
+                Col4: v.defaultValue ? code(v.defaultValue) : '-',
+                Col5: escapeHtml(v.listSource || '-'),
+                Col6: [v.mandatory ? badge('Mandatory', 'bg-red-50 text-red-700 border-red-200') : '', v.editable ? badge('Editable', 'bg-blue-50 text-blue-700 border-blue-200') : badge('Locked', 'bg-gray-50 text-gray-600 border-gray-200')].join('')
+            }));
+
+            variablesHtml = `
+                <details open class="group">
+                    <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-green-50 hover:bg-green-100 transition-colors select-none border-t border-b border-green-200">
+                        <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                            <span class="text-green-600 text-lg">#️⃣</span> Variables
+                            <span class="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full border border-green-200">${variables.length}</span>
+                        </span>
+                    </summary>
+                    <div class="pt-4 pb-2 px-2">
+                        <p class="text-sm text-slate-600 mb-3">Values the user is prompted for when the playlist runs:</p>
+                        ${renderTable(['Name', 'Prompt', 'Type', 'Default Value', 'List Source', 'Flags'], varRows)}
+                    </div>
+                </details>
+            `;
+        }
+
+        // --- Distribution by Recipient ---
+        const kindIcons: Record<string, string> = { email: '✉️', folder: '📁', user: '👤' };
+        const recipientRows = distribution.recipients.map(r => {
+            const reports = r.deliveries.map(d => `<div class="text-[11px] leading-snug"><span class="font-mono text-gray-400">${d.sequence}</span> ${escapeHtml(d.report)}${d.role === 'Cc' ? ' <span class="text-gray-400">(cc)</span>' : ''}</div>`).join('');
+            return {
+                Col1: `<span class="mr-1">${kindIcons[r.kind]}</span><span class="font-semibold text-xs break-all">${escapeHtml(r.recipient)}</span>`,
+                Col2: String(r.to || '-'),
+                Col3: String(r.cc || '-'),
+                Col4: String(r.attached || '-'),
+                Col5: String(r.saved || '-'),
+                Col6: `<span class="font-bold">${r.deliveries.length}</span>`,
+                Col7: r.deliveries.length > 5
+                    ? `<details><summary class="cursor-pointer text-xs text-blue-600">${r.deliveries.length} reports</summary>${reports}</details>`
+                    : reports
+            };
+        });
+
+        const undeliveredHtml = distribution.undelivered.length > 0 ? `
+            <div class="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p class="text-sm font-bold text-red-700 mb-1">⚠️ ${distribution.undelivered.length} item${distribution.undelivered.length !== 1 ? 's' : ''} neither email nor save their output</p>
+                <div class="text-xs text-red-700">${distribution.undelivered.map(i => `<span class="inline-block mr-3"><span class="font-mono">${i.sequence}</span> ${escapeHtml(PlaylistParser.getReportLabel(i))}${i.emailInd ? ' (email on, no recipients)' : ''}</span>`).join('')}</div>
+            </div>
+        ` : '';
+
+        const distributionHtml = `
+            <details open class="group">
+                <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-indigo-50 hover:bg-indigo-100 transition-colors select-none border-t border-b border-indigo-200">
+                    <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                        <span class="text-indigo-600 text-lg">📬</span> Distribution by Recipient
+                        <span class="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full border border-indigo-200">${distribution.recipients.length}</span>
+                    </span>
+                </summary>
+                <div class="pt-4 pb-2 px-2">
+                    <div class="flex justify-between items-center mb-3 gap-4">
+                        <p class="text-sm text-slate-600">Who receives what, as an email attachment, an email link or a saved copy:</p>
+                        <button onclick="window.exportRecipientCsv()" class="shrink-0 text-xs bg-white hover:bg-indigo-50 text-indigo-700 border border-indigo-200 px-3 py-1.5 rounded-md font-bold transition">Export CSV</button>
+                    </div>
+                    ${undeliveredHtml}
+                    ${recipientRows.length > 0
+                        ? renderTable(['Recipient', 'To', 'Cc', 'Attached', 'Saved', 'Total', 'Reports'], recipientRows)
+                        : '<p class="text-gray-500 italic">No item emails or saves its output</p>'}
+                </div>
+            </details>
+        `;
+
+        // --- Schedule Items ---
+        const renderDelivery = (item: PlaylistItem) => {
+            const parts: string[] = [];
+            if (item.emailInd) parts.push(badge(item.emailAttach ? 'Email (attached)' : 'Email (link)', 'bg-indigo-50 text-indigo-700 border-indigo-200'));
+            if (item.saveInd) parts.push(badge('Save', 'bg-amber-50 text-amber-700 border-amber-200'));
+            if (item.myReportInd) parts.push(badge('My Reports', 'bg-cyan-50 text-cyan-700 border-cyan-200'));
+            return parts.join('');
+        };
+
+        const itemRows = items.map(item => {
+            const status = [
+                item.active ? badge('Active', 'bg-green-50 text-green-700 border-green-200') : badge('Inactive', 'bg-gray-100 text-gray-500 border-gray-200'),
+                item.continueOnError ? badge('Continue on error', 'bg-orange-50 text-orange-700 border-orange-200') : ''
+            ].join('');
+
+            const source = `
+                ${item.sourceServerFolder ? badge(item.sourceServerFolder, 'bg-slate-50 text-slate-600 border-slate-200') : ''}
+                <div class="text-xs break-all">${escapeHtml(item.sourcePath || '-')}</div>
+                ${item.sourceSheetName ? `<div class="text-[11px] text-gray-500">› ${escapeHtml(item.sourceSheetName)}</div>` : ''}
+            `;
+
+            const output = `
+                ${badge(item.actionCode || 'N/A', 'bg-rose-50 text-rose-700 border-rose-200')}${mode === 'technical' && item.actionFileType ? badge(item.actionFileType, 'bg-gray-50 text-gray-600 border-gray-200') : ''}
+                <div class="text-xs break-all">${escapeHtml(item.actionFilePath || '-')}</div>
+                ${item.actionSheetName ? `<div class="text-[11px] text-gray-500">› ${escapeHtml(item.actionSheetName)}</div>` : ''}
+                <div class="mt-1">${renderDelivery(item)}</div>
+            `;
+
+            const email = (item.emailSubject || item.emailBody) ? `
+                <div class="text-xs font-semibold text-gray-800">${item.emailSubject ? PlaceholderResolver.toHtml(item.emailSubject) : '(no subject)'}</div>
+                ${item.emailBody ? `<div class="text-[11px] text-gray-500 mt-1 whitespace-pre-line">${PlaceholderResolver.toHtml(item.emailBody)}</div>` : ''}
+            ` : '<span class="text-gray-400">-</span>';
+
+            const row: any = {
+                Col1: `<span class="font-mono text-xs">${item.sequence}</span>`,
+                Col2: `<div class="font-bold text-gray-800 text-xs break-all">${escapeHtml(item.comment || '-')}</div>${mode === 'technical' ? `<div class="font-mono text-[10px] text-gray-400">Item ${escapeHtml(item.itemId)}</div>` : ''}<div class="mt-1">${status}</div>`,
+                Col3: source,
+                Col4: output,
+                Col5: email
+            };
+            if (mode === 'technical') {
+                row.Col6 = item.itemVariables.length > 0
+                    ? item.itemVariables.map(v => `<div class="text-[11px] whitespace-nowrap"><span class="font-mono">${escapeHtml(v.name)}</span> = ${code(v.value || "''")}</div>`).join('')
+                    : '-';
+            }
+            return row;
+        });
+
+        const itemHeaders = ['#', 'Item', 'Source', 'Output', 'Email Subject & Body'];
+        if (mode === 'technical') itemHeaders.push('Item Variables');
+
+        const itemsHtml = `
+            <details open class="group">
+                <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-rose-50 hover:bg-rose-100 transition-colors select-none border-t border-b border-rose-200">
+                    <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                        <span class="text-rose-500 text-lg">🗓️</span> Schedule Items
+                        <span class="text-xs bg-rose-100 text-rose-700 px-2 py-0.5 rounded-full border border-rose-200">${items.length}</span>
+                    </span>
+                </summary>
+                <div class="pt-4 pb-2 px-2">
+                    ${items.length > 0 ? `
+                        <input type="search" placeholder="Filter items (name, workbook, sheet, subject...)" oninput="window.filterTableRows('playlist-items', this.value)" class="w-full mb-3 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-200">
+                        ${renderTable(itemHeaders, itemRows, 'playlist-items')}
+                    ` : '<p class="text-gray-500 italic">No schedule items defined</p>'}
+                </div>
+            </details>
+        `;
+
+        // --- Email Preview ---
+        const emailItems = items.filter(i => i.emailInd || i.emailSubject || i.emailBody);
+        let emailPreviewHtml = '';
+        if (emailItems.length > 0) {
+            emailPreviewHtml = `
+                <details class="group">
+                    <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-violet-50 hover:bg-violet-100 transition-colors select-none border-t border-b border-violet-200">
+                        <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                            <span class="text-violet-600 text-lg">✉️</span> Email Preview
+                            <span class="text-xs bg-violet-100 text-violet-700 px-2 py-0.5 rounded-full border border-violet-200">${emailItems.length}</span>
+                        </span>
+                    </summary>
+                    <div id="playlist-email-preview" class="pt-4 pb-2 px-2">
+                        ${this.renderEmailPreview(emailItems, variables, mode, testValues)}
+                    </div>
+                </details>
+            `;
+        }
+
+        // --- Email Settings (Technical) ---
+        let settingsHtml = '';
+        if (mode === 'technical') {
+            const settingRows = [
+                { Col1: 'Use Email Config', Col2: escapeHtml(String(scheduleDef.UseEmailConfig ?? '-')) },
+                { Col1: 'Email Config Name', Col2: escapeHtml(scheduleDef.EmailConfigName || '-') },
+                { Col1: 'Override From Address', Col2: escapeHtml(String(scheduleDef.OverrideFromAddress ?? '-')) },
+                { Col1: 'From Address', Col2: escapeHtml(scheduleDef.FromAddress || '-') },
+                { Col1: 'From Name', Col2: escapeHtml(scheduleDef.FromName || '-') },
+                { Col1: 'Reporting System', Col2: escapeHtml(schedule.ReportingSystem || '-') },
+                { Col1: 'Last Run Duration', Col2: escapeHtml(schedule.LastRunDuration || '-') }
+            ];
+            settingsHtml = `
+                <details class="group">
+                    <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 bg-slate-50 hover:bg-slate-100 transition-colors select-none border-t border-b border-slate-200">
+                        <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                            <span class="text-slate-600 text-lg">⚙️</span> Schedule Settings
+                        </span>
+                    </summary>
+                    <div class="pt-4 pb-2 px-2">
+                        ${renderTable(['Setting', 'Value'], settingRows)}
+                    </div>
+                </details>
+            `;
+        }
+
+        // --- Final Output ---
+        return `
+            <div class="doc-header">
+                <div class="flex justify-between items-start">
+                    <div>
+                        <h2 class="text-3xl font-bold text-slate-800 tracking-tight">${escapeHtml(metadata.name || 'Playlist')}</h2>
+                        ${metadata.description ? `<p class="text-slate-500 mt-1">${escapeHtml(metadata.description)}</p>` : ''}
+                    </div>
+                    <span class="bg-rose-100 text-rose-800 text-xs font-bold px-3 py-1 rounded-full uppercase tracking-wide border border-rose-200">Playlist</span>
+                </div>
+                ${metaGrid}
+            </div>
+            <div class="doc-body space-y-8">
+                ${summaryHtml}
+                ${variablesHtml}
+                ${distributionHtml}
+                ${itemsHtml}
+                ${emailPreviewHtml}
+                ${settingsHtml}
+                ${ImportHealthGenerator.renderPanel(playlist.parseIssues)}
+            </div>
+        `;
+    }
+
+    /** Re-renders the email preview body for new test values without rebuilding the whole view. */
+    static async generateEmailPreview(id: number, mode: 'business' | 'technical', testValues: Record<string, string>): Promise<string> {
+        const playlist = await db.playlists.get(id);
+        if (!playlist) throw new Error("Playlist not found");
+
+        const items = PlaylistParser.getItems(playlist.content).filter(i => i.emailInd || i.emailSubject || i.emailBody);
+        return this.renderEmailPreview(items, PlaylistParser.getVariables(playlist.content), mode, testValues);
+    }
+
+    private static renderEmailPreview(items: PlaylistItem[], variables: PlaylistVariable[], mode: 'business' | 'technical', testValues: Record<string, string>): string {
+        const escapeHtml = (str: string): string => {
+            if (!str) return '';
+            return String(str)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        };
+
+        const resolveItem = (item: PlaylistItem, values: Record<string, string>) => {
+            const scope = { itemVariables: item.itemVariables, testValues: values, variables };
+            const subject = PlaceholderResolver.resolve(item.emailSubject, scope);
+            const body = PlaceholderResolver.resolve(item.emailBody, scope);
+            const issues = [...subject.issues, ...body.issues.filter(b => !subject.issues.some(i => i.kind === b.kind && i.name === b.name))];
+            return { subject, body, issues };
+        };
+
+        // Test value inputs: every prompt, plus anything that cannot be resolved from the package alone
+        const inputNames = new Map<string, string>();
+        variables.forEach(v => inputNames.set(v.name.toUpperCase(), v.defaultValue ? `Default ${v.defaultValue}` : v.description));
+        items.forEach(item => resolveItem(item, {}).issues
+            .filter(i => i.kind !== 'circular')
+            .forEach(i => {
+                if (!inputNames.has(i.name.toUpperCase())) inputNames.set(i.name.toUpperCase(), i.kind === 'suffix' ? 'Description shown in the email' : 'Not set in this playlist');
+            }));
+        Object.keys(testValues).forEach(k => { if (!inputNames.has(k.toUpperCase())) inputNames.set(k.toUpperCase(), ''); });
+
+        const lookupTestValue = (name: string) => Object.entries(testValues).find(([k]) => k.toUpperCase() === name)?.[1] || '';
+        const inputsHtml = Array.from(inputNames.entries()).map(([name, hint]) => `
+            <label class="block">
+                <span class="block text-[11px] font-mono font-bold text-gray-600">{&amp;${escapeHtml(name)}}</span>
+                <input type="text" data-test-var="${escapeHtml(name)}" value="${escapeHtml(lookupTestValue(name))}" placeholder="${escapeHtml(hint)}" class="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-violet-200">
+            </label>
+        `).join('');
+
+        const issueBadge = (issue: PlaceholderIssue) => {
+            const chain = issue.chain.length > 1 ? ` (${issue.chain.join(' → ')})` : '';
+            if (issue.kind === 'circular') return `<span class="inline-block px-1.5 py-0.5 mr-1 mb-1 rounded border text-[10px] font-bold bg-purple-50 text-purple-700 border-purple-200" title="Circular reference${escapeHtml(chain)}">↻ ${escapeHtml(issue.name)}</span>`;
+            if (issue.kind === 'suffix') return `<span class="inline-block px-1.5 py-0.5 mr-1 mb-1 rounded border text-[10px] font-bold bg-amber-50 text-amber-700 border-amber-200" title="No test value for the description - the preview shows the underlying value${escapeHtml(chain)}">≈ ${escapeHtml(issue.name)}</span>`;
+            return `<span class="inline-block px-1.5 py-0.5 mr-1 mb-1 rounded border text-[10px] font-bold bg-red-50 text-red-700 border-red-200" title="Unresolved${escapeHtml(chain)}">? ${escapeHtml(issue.name)}</span>`;
+        };
+
+        let resolvedCount = 0;
+        const allIssues = new Map<string, PlaceholderIssue>();
+        const rows = items.map(item => {
+            const { subject, body, issues } = resolveItem(item, testValues);
+            if (!issues.some(i => i.kind !== 'suffix')) resolvedCount++;
+            issues.forEach(i => allIssues.set(`${i.kind}:${i.name}`, i));
+
+            const template = mode === 'technical' && (subject.text !== item.emailSubject || body.text !== item.emailBody)
+                ? `<div class="mt-1 pt-1 border-t border-dashed border-gray-200 text-[10px] text-gray-400 whitespace-pre-line">${PlaceholderResolver.toHtml([item.emailSubject, item.emailBody].filter(Boolean).join('\n'))}</div>`
+                : '';
+
+            return `
+                <tr class="border-t border-gray-100 hover:bg-gray-50">
+                    <td class="px-4 py-2 text-xs font-mono align-top">${item.sequence}</td>
+                    <td class="px-4 py-2 text-xs font-bold text-gray-800 align-top break-all">${escapeHtml(PlaylistParser.getReportLabel(item))}</td>
+                    <td class="px-4 py-2 text-sm text-gray-700 align-top">
+                        <div class="text-xs font-semibold text-gray-800">${subject.text ? PlaceholderResolver.toHtml(subject.text) : '(no subject)'}</div>
+                        ${body.text ? `<div class="text-[11px] text-gray-600 mt-1 whitespace-pre-line">${PlaceholderResolver.toHtml(body.text)}</div>` : ''}
+                        ${template}
+                    </td>
+                    <td class="px-4 py-2 align-top">${issues.map(issueBadge).join('') || '<span class="text-green-600 text-xs">✓</span>'}</td>
+                </tr>
+            `;
+        }).join('');
+
+        const issueList = Array.from(allIssues.values());
+        const unresolved = issueList.filter(i => i.kind === 'unresolved');
+        const circular = issueList.filter(i => i.kind === 'circular');
+
+        return `
+            <div class="mb-4 p-3 bg-slate-50 border border-slate-200 rounded-md">
+                <p class="text-sm text-slate-600 mb-2">Enter test values to preview each item's email as sent. Item variables take precedence, then test values, then variable defaults.</p>
+                <div id="playlist-test-values" class="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">${inputsHtml}</div>
+                <button onclick="window.previewPlaylistEmails()" class="text-xs bg-violet-600 hover:bg-violet-700 text-white px-3 py-1.5 rounded-md font-bold transition">Preview</button>
+            </div>
+            <p class="text-sm text-slate-700 mb-2">
+                <strong>${resolvedCount} of ${items.length}</strong> emails resolve fully.
+                ${unresolved.length > 0 ? `<span class="text-red-600">Unresolved: ${unresolved.map(i => escapeHtml(i.name)).join(', ')}.</span>` : ''}
+                ${circular.length > 0 ? `<span class="text-purple-600">Circular: ${circular.map(i => escapeHtml(i.chain.join(' → '))).join('; ')}.</span>` : ''}
+            </p>
+            <div class="w-full overflow-x-auto border border-slate-300 rounded-md mb-3">
+                <table class="w-full divide-y divide-slate-300">
+                    <thead><tr class="bg-slate-200">${['#', 'Item', 'Subject & Body', 'Issues'].map(h => `<th class="px-4 py-2 text-left text-xs font-bold text-slate-700 uppercase tracking-wider bg-slate-200 border-r border-slate-300 last:border-r-0">${h}</th>`).join('')}</tr></thead>
+                    <tbody class="bg-white divide-y divide-slate-200">${rows}</tbody>
+                </table>
+            </div>
+        `;
+    }
+}
@@ -0,0 +1,64 @@
+import type { SqlAnalysis } from '../parsers/sql/SqlAnalyser';
+import { SqlTokenizer, type SqlTokenType } from '../parsers/sql/SqlTokenizer';
+
+const TOKEN_CLASSES: Partial<Record<SqlTokenType, string>> = {
+    keyword: 'text-indigo-700 font-bold',
+    string: 'text-green-700',
+    number: 'text-amber-700',
+    variable: 'text-purple-700 font-bold',
+    comment: 'text-slate-400 italic'
+};
+
+/**
+ * ExecuteSQL steps and SQL scripts on ETL step cards: a warning badge for
+ * statements that delete, truncate or drop, and the formatted statement with
+ * the tables it reads and writes.
+ */
+export class SqlGenerator {
+
+    private static escapeHtml(str: string): string {
+        return String(str ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    /** Summary badge for destructive SQL; '' for other steps. */
+    static renderBadge(sql: SqlAnalysis | null | undefined): string {
+        if (!sql || sql.warnings.length === 0) return '';
+        const kinds = [...new Set(sql.statements.filter(s => s.warning).map(s => s.kind === 'DDL' ? s.verb.split(' ')[0] : s.kind))];
+        return `<span class="text-[10px] font-bold text-red-700 bg-red-50 border border-red-200 px-1.5 py-0.5 rounded-full" title="${this.escapeHtml(sql.warnings.join('\n'))}">⚠ ${this.escapeHtml(kinds.join(', '))}</span>`;
+    }
+
+    /** The formatted statement, its tables and its warnings; '' for steps without SQL. */
+    static renderStatement(sql: SqlAnalysis | null | undefined): string {
+        if (!sql) return '';
+        const tables = (label: string, names: string[]) => names.length > 0
+            ? `<span class="text-[10px] font-bold text-slate-500 uppercase tracking-wider">${label}</span> ${names.map(n => `<span class="t1-table-badge" data-type="table">𝄜 ${this.escapeHtml(n)}</span>`).join(' ')}`
+            : '';
+        const io = [tables('Reads', sql.reads), tables('Writes', sql.writes)].filter(s => s).join('<span class="mx-2"></span>');
+        const warnings = sql.warnings.map(w => `<li class="text-xs text-red-800">⚠ ${this.escapeHtml(w)}</li>`).join('');
+
+        return `
+            <div class="mt-2">
+                ${warnings ? `<ul class="mb-2 list-none pl-3 py-1 border-l-4 border-red-400 bg-red-50 rounded space-y-0.5">${warnings}</ul>` : ''}
+                ${io ? `<div class="mb-1 flex flex-wrap items-center gap-1">${io}</div>` : ''}
+                <pre class="text-xs font-mono bg-slate-50 border border-slate-200 rounded-md p-3 overflow-x-auto whitespace-pre">${this.highlight(sql.formatted)}</pre>
+            </div>`;
+    }
+
+    private static highlight(formatted: string): string {
+        let html = '';
+        let at = 0;
+        SqlTokenizer.tokenize(formatted).forEach(t => {
+            const css = TOKEN_CLASSES[t.type];
+            if (!css) return;
+            html += this.escapeHtml(formatted.substring(at, t.start));
+            html += `<span class="${css}">${this.escapeHtml(formatted.substring(t.start, t.end))}</span>`;
+            at = t.end;
+        });
+        return html + this.escapeHtml(formatted.substring(at));
+    }
+}
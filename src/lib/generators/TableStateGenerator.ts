@@ -0,0 +1,57 @@
+import type { StepTableState } from '../analysis/TableState';
+
+/**
+ * Memory table state on ETL step cards: a badge and list for columns a step
+ * refers to that its table cannot hold, and (technical view) a collapsible
+ * panel with every table the step touches as it stands after the step.
+ */
+export class TableStateGenerator {
+
+    private static escapeHtml(str: string): string {
+        return String(str ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    /** Summary badge for a step with missing columns; '' otherwise. */
+    static renderBadge(state: StepTableState | null): string {
+        if (!state || state.issues.length === 0) return '';
+        const count = state.issues.length;
+        return `<span class="text-[10px] font-bold text-red-700 bg-red-50 border border-red-200 px-1.5 py-0.5 rounded-full" title="${this.escapeHtml(state.issues.map(i => i.message).join('\n'))}">⚠ ${count} missing column${count === 1 ? '' : 's'}</span>`;
+    }
+
+    static renderIssues(state: StepTableState | null): string {
+        if (!state || state.issues.length === 0) return '';
+        const items = state.issues.map(i => `<li class="text-xs text-red-800">⚠ ${this.escapeHtml(i.message)}</li>`).join('');
+        return `<ul class="mt-2 list-none pl-3 py-1 border-l-4 border-red-400 bg-red-50 rounded space-y-0.5">${items}</ul>`;
+    }
+
+    /** Collapsible "Table state" panel; '' when the step touches no table with a known schema. */
+    static renderPanel(state: StepTableState | null): string {
+        if (!state || state.tables.length === 0) return '';
+        const tables = state.tables.map(table => {
+            const rows = table.columns.map(c => `
+                <tr class="border-t border-slate-100">
+                    <td class="px-2 py-1 font-mono">${this.escapeHtml(c.name)}</td>
+                    <td class="px-2 py-1 text-slate-500">${this.escapeHtml(c.dataType) || '-'}</td>
+                    <td class="px-2 py-1 text-slate-500">${c.originKey === state.stepKey ? '<span class="text-emerald-700 font-semibold">this step</span>' : this.escapeHtml(c.originName)}</td>
+                </tr>`).join('');
+            return `
+                <div class="mb-2">
+                    <div class="text-xs font-bold text-slate-700 font-mono mb-1">${this.escapeHtml(table.name)} <span class="font-normal text-slate-400">(${table.columns.length} columns)</span></div>
+                    <table class="w-full text-[11px] border border-slate-200 rounded">
+                        <thead class="bg-slate-50 text-slate-500 text-left"><tr><th class="px-2 py-1">Column</th><th class="px-2 py-1">Type</th><th class="px-2 py-1">Added By</th></tr></thead>
+                        <tbody>${rows || '<tr><td colspan="3" class="px-2 py-1 italic text-slate-400">No columns yet</td></tr>'}</tbody>
+                    </table>
+                </div>`;
+        }).join('');
+        return `
+            <details class="table-state mt-2 border border-slate-200 rounded bg-white">
+                <summary class="cursor-pointer list-none px-2 py-1 text-[10px] font-bold text-slate-500 uppercase tracking-wider hover:bg-slate-50">▸ Table state after step #${state.order}</summary>
+                <div class="p-2">${tables}</div>
+            </details>`;
+    }
+}
@@ -0,0 +1,279 @@
+import { db } from '../db';
+import { XlOneParser, type XlOneCellReference, type XlOneWorkbook } from '../parsers/XlOneParser';
+import { ImportHealthGenerator } from './ImportHealthGenerator';
+
+export class XlOneGenerator {
+    static async generateHtmlView(id: number, mode: 'business' | 'technical' = 'business'): Promise<string> {
+        const report = await db.xlOneReports.get(id);
+        if (!report) throw new Error("XLOne report not found");
+
+        const content = report.content;
+        const metadata = report.metadata;
+
+        // --- Helpers ---
+        const escapeHtml = (str: string): string => {
+            if (!str) return '';
+            return String(str)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        };
+
+        const renderTable = (headers: string[], rows: any[]) => {
+            if (!rows || rows.length === 0) return '';
+            const ths = headers.map(h => `<th class="px-4 py-2 text-left text-xs font-bold text-slate-700 uppercase tracking-wider bg-slate-200 border-r border-slate-300 last:border-r-0">${h}</th>`).join('');
+            const trs = rows.map((r) => {
+                const cells = headers.map((_, i) => {
+                    const val = r[`Col${i + 1}`] || '';
+                    return `<td class="px-4 py-2 text-sm text-gray-700">${val}</td>`;
+                }).join('');
+                return `<tr class="border-t border-gray-100 hover:bg-gray-50">${cells}</tr>`;
+            }).join('');
+            return `<div class="w-full overflow-hidden border border-slate-300 rounded-md mb-3"><table class="w-full divide-y divide-slate-300"><thead><tr class="bg-slate-200">${ths}</tr></thead><tbody class="bg-white divide-y divide-slate-200">${trs}</tbody></table></div>`;
+        };
+
+        // Full class strings so Tailwind can see them
+        const themes: Record<string, { bar: string, icon: string, badge: string }> = {
+            amber: { bar: 'bg-amber-50 hover:bg-amber-100 border-amber-200', icon: 'text-amber-600', badge: 'bg-amber-100 text-amber-700 border-amber-200' },
+            orange: { bar: 'bg-orange-50 hover:bg-orange-100 border-orange-200', icon: 'text-orange-600', badge: 'bg-orange-100 text-orange-700 border-orange-200' },
+            purple: { bar: 'bg-purple-50 hover:bg-purple-100 border-purple-200', icon: 'text-purple-500', badge: 'bg-purple-100 text-purple-700 border-purple-200' },
+            cyan: { bar: 'bg-cyan-50 hover:bg-cyan-100 border-cyan-200', icon: 'text-cyan-600', badge: 'bg-cyan-100 text-cyan-700 border-cyan-200' },
+            green: { bar: 'bg-green-50 hover:bg-green-100 border-green-200', icon: 'text-green-600', badge: 'bg-green-100 text-green-700 border-green-200' },
+            blue: { bar: 'bg-blue-50 hover:bg-blue-100 border-blue-200', icon: 'text-blue-600', badge: 'bg-blue-100 text-blue-700 border-blue-200' },
+            slate: { bar: 'bg-slate-50 hover:bg-slate-100 border-slate-200', icon: 'text-slate-600', badge: 'bg-slate-100 text-slate-700 border-slate-200' }
+        };
+
+        const renderSection = (icon: string, title: string, colour: string, count: number | null, body: string, open = true) => {
+            const theme = themes[colour] || themes.slate;
+            return `
+                <details ${open ? 'open' : ''} class="group">
+                    <summary class="flex items-center justify-between cursor-pointer list-none py-3 px-6 -mx-6 ${theme.bar} transition-colors select-none border-t border-b">
+                        <span class="text-xl font-bold text-slate-800 flex items-center gap-3">
+                            <span class="${theme.icon} text-lg">${icon}</span> ${title}
+                            ${count !== null ? `<span class="text-xs ${theme.badge} px-2 py-0.5 rounded-full border">${count}</span>` : ''}
+                        </span>
+                    </summary>
+                    <div class="pt-4 pb-2 px-2">
+                        ${body}
+                    </div>
+                </details>
+            `;
+        };
+
+        const code = (val: string) => `<code class="bg-gray-100 px-2 py-1 rounded text-xs font-mono">${escapeHtml(val)}</code>`;
+        const emptyNote = (text: string) => `<p class="text-sm text-gray-500 italic">${text}</p>`;
+
+        // --- Extract Data ---
+        const header = XlOneParser.getHeader(content);
+        const def = XlOneParser.getDefinition(content);
+        const workbook = content.Workbook as XlOneWorkbook | undefined;
+        const wbSummary = XlOneParser.summariseWorkbook(workbook);
+        const designSheet = XlOneParser.getAssigned(header.SheetName);
+        const parentPath = metadata.parentPath || XlOneParser.getAssigned(header.ParentFileItemPath);
+
+        // --- Metadata Grid ---
+        const metaGrid = `
+            <div class="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6 p-4 bg-white border border-gray-200 rounded-lg text-sm shadow-sm">
+                <div>
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Owner</span>
+                    <span class="font-medium text-gray-800">${escapeHtml(metadata.owner || '-')}</span>
+                </div>
+                <div>
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Folder</span>
+                    <span class="font-medium text-gray-800 text-xs truncate" title="${escapeHtml(parentPath)}">${escapeHtml((parentPath || '-').split('/').pop() || '-')}</span>
+                </div>
+                <div class="text-right">
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Report ID</span>
+                    <span class="font-mono text-gray-500 text-[11px] truncate inline-block" title="${escapeHtml(metadata.id || '')}">${escapeHtml((metadata.id || 'N/A').substring(0, 12))}</span>
+                </div>
+                <div>
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Report Suite</span>
+                    <span class="font-medium text-gray-800">${escapeHtml(def.reportSuite || '-')}</span>
+                </div>
+                <div>
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Layout Type</span>
+                    <span class="font-medium text-gray-800">${escapeHtml(def.layoutType || '-')}</span>
+                </div>
+                <div class="text-right">
+                    <span class="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Reporting System</span>
+                    <span class="font-medium text-gray-800">${escapeHtml(XlOneParser.getAssigned(header.ReportingSystem) || '-')}</span>
+                </div>
+            </div>
+        `;
+
+        // --- Executive Summary ---
+        const summaryParts: string[] = [];
+        summaryParts.push(`This XLOne report runs in the <strong>${escapeHtml(def.reportSuite || 'default')}</strong> report suite using a <strong>${escapeHtml(def.layoutType || 'standard')}</strong> layout`);
+        if (def.datasource) summaryParts.push(`and reads from datasource <strong class="font-mono text-base">${escapeHtml(def.datasource.substring(0, 8))}…</strong>`);
+        let summaryText = summaryParts.join(' ') + '.';
+        summaryText += def.criteria.length > 0
+            ? ` It applies <strong>${def.criteria.length} saved criteria</strong>`
+            : ` It has no saved criteria`;
+        summaryText += def.allowRuntimeCriteria ? ' and prompts for criteria at run time.' : '.';
+        if (def.columns.length > 0) summaryText += ` The output contains <strong>${def.columns.length} columns</strong>.`;
+        if (def.groupByFields.length > 0) summaryText += ` Results are grouped by ${def.groupByFields.map(g => `<strong>${escapeHtml(g)}</strong>`).join(', ')}.`;
+        if (designSheet) summaryText += ` The layout is designed on the <strong>${escapeHtml(designSheet)}</strong> sheet of the embedded workbook.`;
+        if (workbook) {
+            const formulaCount = workbook.sheets.reduce((n, sh) => n + sh.formulaCount, 0);
+            summaryText += ` The workbook has <strong>${workbook.sheets.length} sheet${workbook.sheets.length !== 1 ? 's' : ''}</strong> and <strong>${formulaCount} formulas</strong>, referencing ${wbSummary.datasources.size} datasource${wbSummary.datasources.size !== 1 ? 's' : ''}, ${wbSummary.columns.size} data columns and ${wbSummary.variables.size} variables.`;
+        }
+
+        const summaryHtml = `
+            <div class="p-6 bg-slate-50 border-l-4 border-amber-400 rounded-r-xl shadow-sm">
+                <h3 class="text-sm font-bold text-slate-500 uppercase tracking-widest mb-2 flex items-center gap-2">
+                    <span class="text-lg">📋</span> Executive Summary
+                </h3>
+                <p class="text-slate-700 text-lg leading-relaxed">${summaryText}</p>
+            </div>
+        `;
+
+        // --- Report Definition ---
+        const defRows = [
+            { Col1: 'Report Suite', Col2: escapeHtml(def.reportSuite || '-') },
+            { Col1: 'Layout Type', Col2: escapeHtml(def.layoutType || '-') },
+            { Col1: 'Datasource', Col2: def.datasource ? code(def.datasource) : '-' },
+            { Col1: 'Runtime Criteria', Col2: def.allowRuntimeCriteria ? 'Allowed' : 'Not allowed' },
+            { Col1: 'Design Sheet', Col2: escapeHtml(designSheet || '-') }
+        ];
+        const definitionHtml = renderSection('📑', 'Report Definition', 'amber', null, renderTable(['Property', 'Value'], defRows));
+
+        // --- Criteria ---
+        const criteriaRows = def.criteria.map((c, i) => ({ Col1: `${i + 1}`, Col2: code(c) }));
+        const criteriaHtml = renderSection('🔍', 'Criteria', 'orange', def.criteria.length,
+            criteriaRows.length > 0
+                ? renderTable(['#', 'Filter'], criteriaRows)
+                : emptyNote(def.allowRuntimeCriteria ? 'No saved criteria — the user is prompted for criteria when the report runs.' : 'No criteria defined.'));
+
+        // --- Columns ---
+        const columnRows = def.columns.map((c, i) => ({
+            Col1: `${i + 1}`,
+            Col2: escapeHtml(c.heading || c.name),
+            Col3: mode === 'technical' ? code(c.name) : escapeHtml(c.format || '-'),
+            Col4: escapeHtml(c.format || '-')
+        }));
+        const columnHeaders = mode === 'technical' ? ['#', 'Heading', 'Field', 'Format'] : ['#', 'Heading', 'Format'];
+        const columnsHtml = renderSection('📊', 'Columns', 'purple', def.columns.length,
+            columnRows.length > 0
+                ? renderTable(columnHeaders, columnRows)
+                : emptyNote('No columns saved in the definition — columns are laid out on the design sheet.'));
+
+        // --- Grouping & Sorting ---
+        const groupingRows = [
+            ...def.groupByFields.map((g, i) => ({ Col1: `Group By ${i + 1}`, Col2: escapeHtml(g) })),
+            ...def.runtimeGroupingFields.map(g => ({ Col1: 'Runtime Grouping', Col2: escapeHtml(g) })),
+            ...def.sortFields.map((s, i) => ({ Col1: `Sort ${i + 1}`, Col2: escapeHtml(s) }))
+        ];
+        const groupingHtml = renderSection('🗂️', 'Grouping & Sorting', 'cyan', groupingRows.length,
+            groupingRows.length > 0
+                ? renderTable(['Level', 'Field'], groupingRows)
+                : emptyNote('No grouping or default sort fields defined.'));
+
+        // --- Workbook Dependencies ---
+        const refBadge = (r: XlOneCellReference) => {
+            const styles: Record<string, string> = {
+                datasource: 'bg-cyan-100 text-cyan-800 border-cyan-200',
+                column: 'bg-purple-100 text-purple-800 border-purple-200',
+                field: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+                variable: 'bg-green-100 text-green-800 border-green-200',
+                definedName: 'bg-slate-100 text-slate-700 border-slate-200'
+            };
+            return `<span class="inline-block px-1.5 py-0.5 mr-1 mb-1 rounded border text-[11px] font-mono ${styles[r.kind]}" title="${r.kind}">${escapeHtml(r.name)}</span>`;
+        };
+
+        let workbookHtml = '';
+        if (workbook) {
+            const dependencyRows = [
+                ...Array.from(wbSummary.datasources).map(n => ({ Col1: 'Datasource', Col2: refBadge({ kind: 'datasource', name: n }) })),
+                ...Array.from(wbSummary.columns).map(n => ({ Col1: 'Data Column', Col2: refBadge({ kind: 'column', name: n }) })),
+                ...Array.from(wbSummary.fields).map(n => ({ Col1: 'Criteria Field', Col2: refBadge({ kind: 'field', name: n }) })),
+                ...Array.from(wbSummary.variables).map(n => ({ Col1: 'Variable', Col2: refBadge({ kind: 'variable', name: n }) })),
+                ...Array.from(wbSummary.t1Functions).map(n => ({ Col1: 'XLOne Function', Col2: code(n) }))
+            ];
+            workbookHtml += renderSection('🔗', 'Data Model Dependencies', 'cyan', dependencyRows.length,
+                dependencyRows.length > 0
+                    ? `<p class="text-sm text-slate-600 mb-3">Datasources, columns and variables referenced from cells in <strong>${escapeHtml(workbook.fileName)}</strong>:</p>${renderTable(['Kind', 'Reference'], dependencyRows)}`
+                    : emptyNote('No data model references found in the workbook.'));
+
+            // xlvar.* names hold the variable values saved with the design workbook
+            const savedVars = workbook.definedNames.filter(d => /^xlvar\./i.test(d.name));
+            if (savedVars.length > 0) {
+                const varRows = savedVars.map(d => ({ Col1: code(d.name.replace(/^xlvar\./i, '')), Col2: escapeHtml(d.value || '-') }));
+                workbookHtml += renderSection('#️⃣', 'Saved Report Variables', 'green', savedVars.length, renderTable(['Variable', 'Saved Value'], varRows), mode === 'technical');
+            }
+        }
+
+        // --- Technical Only ---
+        let technicalHtml = '';
+        if (mode === 'technical') {
+            const paramRows = [
+                ...def.datasourceParameters.map(p => ({ Col1: 'Datasource Parameter', Col2: code(p) })),
+                ...def.variables.map(v => ({ Col1: 'Variable', Col2: code(v) })),
+                ...def.crosstabCriteria.map(c => ({ Col1: 'Crosstab Criteria', Col2: code(c) }))
+            ];
+            if (paramRows.length > 0) {
+                technicalHtml += renderSection('⚙️', 'Parameters & Variables', 'green', paramRows.length, renderTable(['Kind', 'Value'], paramRows));
+            }
+
+            if (workbook) {
+                const sheetRows = workbook.sheets.map(sh => ({ Col1: escapeHtml(sh.name), Col2: `${sh.cellCount}`, Col3: `${sh.formulaCount}` }));
+                const otherNames = workbook.definedNames.filter(d => !/^xlvar\./i.test(d.name));
+                const nameRows = otherNames.map(d => ({ Col1: code(d.name), Col2: escapeHtml(d.sheet || 'Workbook'), Col3: code(d.value) }));
+
+                const cellRows = workbook.cells.map(cell => ({
+                    Col1: `<span class="font-mono text-xs whitespace-nowrap">${escapeHtml(cell.sheet)}!${escapeHtml(cell.ref)}</span>`,
+                    Col2: cell.formula
+                        ? `${code('=' + cell.formula)}${cell.sharedFrom ? `<div class="text-[10px] text-gray-400 mt-1">Shared from ${escapeHtml(cell.sharedFrom)}</div>` : ''}`
+                        : `<span class="text-xs">${escapeHtml(cell.value.length > 160 ? cell.value.substring(0, 160) + '…' : cell.value)}</span>`,
+                    Col3: cell.functions.map(f => `<span class="inline-block px-1.5 py-0.5 mr-1 mb-1 rounded border text-[11px] font-mono ${f.isT1 ? 'bg-amber-100 text-amber-800 border-amber-200' : 'bg-gray-50 text-gray-600 border-gray-200'}">${escapeHtml(f.name)}</span>`).join('') || '-',
+                    Col4: cell.references.map(refBadge).join('') || '-'
+                }));
+
+                technicalHtml += renderSection('🧮', 'Workbook Cell Map', 'blue', workbook.cells.length, `
+                    ${renderTable(['Sheet', 'Cells', 'Formulas'], sheetRows)}
+                    ${nameRows.length > 0 ? `<h4 class="font-semibold text-gray-700 mb-2 mt-4">Defined Names</h4>${renderTable(['Name', 'Scope', 'Refers To'], nameRows)}` : ''}
+                    <h4 class="font-semibold text-gray-700 mb-2 mt-4">Cells with formulas or references</h4>
+                    ${renderTable(['Cell', 'Content', 'Functions', 'References'], cellRows) || emptyNote('No formulas or references found.')}
+                `, false);
+            }
+
+            const headerRows = ['ReportId', 'Type', 'OwnerType', 'SheetName', 'Datasource', 'ReportingSystem', 'ReportStorageType', 'ParentFileItemPath', 'Vers']
+                .map(k => ({ Col1: k, Col2: XlOneParser.getAssigned(header[k]) }))
+                .filter(r => r.Col2 !== '')
+                .map(r => ({ Col1: r.Col1, Col2: code(r.Col2) }));
+            const propRows = def.assignedProperties.map(p => ({ Col1: escapeHtml(p.name), Col2: code(p.value) }));
+
+            technicalHtml += renderSection('🧾', 'Header & Definition Properties', 'slate', headerRows.length + propRows.length, `
+                <h4 class="font-semibold text-gray-700 mb-2">MyXLOneHeader</h4>
+                ${renderTable(['Property', 'Value'], headerRows)}
+                <h4 class="font-semibold text-gray-700 mb-2 mt-4">DbReportDef (assigned values only)</h4>
+                ${renderTable(['Property', 'Value'], propRows)}
+            `, false);
+        }
+
+        // --- Final Output ---
+        return `
+            <div class="doc-header">
+                <div class="flex justify-between items-start">
+                    <div>
+                        <h2 class="text-3xl font-bold text-slate-800 tracking-tight">${escapeHtml(metadata.name || 'XLOne Report')}</h2>
+                        ${metadata.description ? `<p class="text-slate-500 mt-1">${escapeHtml(metadata.description)}</p>` : ''}
+                    </div>
+                    <span class="bg-amber-100 text-amber-800 text-xs font-bold px-3 py-1 rounded-full uppercase tracking-wide border border-amber-200">XLOne Report</span>
+                </div>
+                ${metaGrid}
+            </div>
+            <div class="doc-body space-y-8">
+                ${summaryHtml}
+                ${definitionHtml}
+                ${criteriaHtml}
+                ${columnsHtml}
+                ${groupingHtml}
+                ${workbookHtml}
+                ${technicalHtml}
+                ${ImportHealthGenerator.renderPanel(report.parseIssues)}
+            </div>
+        `;
+    }
+}
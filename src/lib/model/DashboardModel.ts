@@ -0,0 +1,133 @@
+import type { Dashboard } from '../db';
+import { ModelValues as V, type CriteriaCondition, type NameValue } from './ModelValues';
+
+/** A Dashboard as read from Dashboard.xml, Visualisations.xml and Variables.xml. */
+export interface DashboardContent {
+    id: string;
+    description: string;
+    owner: string;
+    parentPath: string;
+    reportingSystem: string;
+    layout: DashboardLayoutItem[];
+    widgets: DashboardWidget[];
+    variables: DashboardVariable[];
+}
+
+/** Position of a widget on the dashboard's 12-column grid; Y counts in hundreds per row. */
+export interface DashboardLayoutItem {
+    widgetId: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    visible: boolean;
+}
+
+export interface DashboardWidget {
+    id: string;
+    title: string;
+    subType: string;            // SLICER, TABLE, SERIESCHART, ...
+    owner: string;
+    dataModelId: string;
+    dataModelName: string;
+    filters: CriteriaCondition[];
+    parameters: NameValue[];
+    /** Columns of TABLE widgets */
+    columns: DashboardWidgetColumn[];
+    /** The raw visualisation definition, for settings the model does not cover */
+    definition: Record<string, any>;
+}
+
+export interface DashboardWidgetColumn {
+    id: string;
+    description: string;
+    dataType: string;
+    format: string;
+    expression: string;
+    isVisible: boolean;
+}
+
+export interface DashboardVariable {
+    name: string;
+    description: string;
+    type: string;
+    defaultValue: string;
+    listSource: string;
+}
+
+/**
+ * Normalises the XML of a Dashboard package into `DashboardContent`. Runs at
+ * import, so the record carries it as `model`; `of` builds it for records
+ * imported before that.
+ */
+export class DashboardModel {
+    static of(dashboard: Partial<Dashboard>): DashboardContent {
+        return dashboard.model ?? this.normalise(dashboard.content);
+    }
+
+    static normalise(content: any): DashboardContent {
+        content = content || {};
+        const def = content.Dashboard?.EntityDef || {};
+        const layout = def.Definition?.Dashboard || {};
+
+        return {
+            id: V.text(def.GenericEntityId),
+            description: V.text(def.Description),
+            owner: V.text(def.Owner),
+            parentPath: V.text(def.ParentFileItemPath),
+            reportingSystem: V.text(def.ReportingSystem),
+            layout: V.list(layout.Layout?.LayoutItem).map((item: any) => ({
+                widgetId: V.text(item.Id),
+                x: V.number(item.X),
+                y: V.number(item.Y),
+                width: V.number(item.Width, 1),
+                height: V.number(item.Height, 1),
+                visible: V.text(item.Visible).toLowerCase() !== 'false'
+            })),
+            widgets: V.list(content.Visualisations?.ArrayOfEntityDef?.EntityDef).map((w: any) => this.normaliseWidget(w)),
+            variables: V.list(content.Variables?.ArrayOfVariableDef?.VariableDef).map((v: any) => ({
+                name: V.text(v.Name),
+                description: V.text(v.Description),
+                type: V.text(v.VariableType),
+                defaultValue: V.text(v.DefaultValue),
+                listSource: V.text(v.SelectionTypeListType) || V.text(v.ListType)
+            }))
+        };
+    }
+
+    /** Widgets grouped by the Data Model they read, in first-use order. */
+    static dataModels(model: DashboardContent): { id: string, name: string, widgets: DashboardWidget[] }[] {
+        const groups = new Map<string, { id: string, name: string, widgets: DashboardWidget[] }>();
+        model.widgets.filter(w => w.dataModelId).forEach(w => {
+            const group = groups.get(w.dataModelId) || { id: w.dataModelId, name: w.dataModelName, widgets: [] };
+            group.widgets.push(w);
+            groups.set(w.dataModelId, group);
+        });
+        return Array.from(groups.values());
+    }
+
+    private static normaliseWidget(widget: any): DashboardWidget {
+        const definition = widget.Definition || {};
+        return {
+            id: V.text(widget.GenericEntityId),
+            title: V.text(widget.Description),
+            subType: V.text(widget.EntitySubType) || 'UNKNOWN',
+            owner: V.text(widget.Owner),
+            // AttributeString1 holds the Data Model id, AttributeText1/2 its criteria and parameters
+            dataModelId: V.text(widget.AttributeString1),
+            dataModelName: V.text(widget.DatamodelDescription),
+            filters: V.criteria(widget.AttributeText1),
+            parameters: V.list(widget.AttributeText2?.Parameters?.ParameterField)
+                .map((p: any) => ({ name: V.text(p.FieldName), value: V.text(p.Value) })),
+            columns: V.list(definition.Table?.Columns?.Column).map((c: any) => ({
+                id: V.text(c.ColumnId) || V.text(c.Id) || V.text(c.Name),
+                description: V.text(c.Description) || V.text(c.DisplayName) || V.text(c.Label),
+                dataType: V.text(c.DataType),
+                format: V.text(c.Format),
+                expression: V.text(c.Expression),
+                isVisible: V.text(c.IsVisible ?? c.Visible).toLowerCase() !== 'false'
+            })),
+            definition
+        };
+    }
+}
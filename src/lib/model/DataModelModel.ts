@@ -0,0 +1,206 @@
+import type { DataModel } from '../db';
+import { ModelValues as V, type CriteriaCondition, type NameValue } from './ModelValues';
+
+/** A Data Model as read from DataModel.xml, Queries.xml, QueryColumns.xml, QueryJoins.xml, QueryDatasources.xml and Variables.xml. */
+export interface DataModelContent {
+    id: string;
+    description: string;
+    owner: string;
+    processMode: string;
+    reportingSystem: string;
+    parentPath: string;
+    /** In Sequence order; the last one produces the model's output */
+    queries: DataModelQuery[];
+    variables: DataModelVariable[];
+    indexes: DataModelIndex[];
+    detailViews: DataModelDetailView[];
+}
+
+export interface DataModelQuery {
+    /** Often absent from exports, see `DataModelModel.noteKey` */
+    id: string;
+    name: string;
+    sequence: number;
+    description: string;
+    queryType: string;
+    isActive: boolean;
+    criteria: CriteriaCondition[];
+    columns: QueryColumn[];
+    joins: QueryJoin[];
+    datasources: QueryDatasource[];
+}
+
+export interface QueryColumn {
+    name: string;
+    description: string;
+    dataType: string;
+    format: string;
+    /** Calculation for calculated columns, '' for columns read from a data source */
+    expression: string;
+    isCalculated: boolean;
+    isVisible: boolean;
+    dataSourceName: string;
+    fieldId: string;
+    sequence: number;
+}
+
+export interface QueryJoin {
+    joinType: string;
+    sequence: number;
+    leftSource: string;
+    leftField: string;
+    rightSource: string;
+    rightField: string;
+}
+
+export interface QueryDatasource {
+    id: string;
+    /** Alias the query's columns and joins use, e.g. "GL_CC" */
+    name: string;
+    type: string;               // Warehouse, DirectTable, Query, Analyser, ...
+    /** Table, query or warehouse the alias reads, from the data source parameters */
+    source: string;
+    parameters: NameValue[];
+}
+
+export interface DataModelVariable {
+    name: string;
+    description: string;
+    type: string;
+    defaultValue: string;
+    dataSourceName: string;
+    sequence: number;
+}
+
+export interface DataModelIndex {
+    name: string;
+    description: string;
+    columns: string[];
+}
+
+export interface DataModelDetailView {
+    name: string;
+    description: string;
+    columns: string[];
+}
+
+/**
+ * Normalises the XML of a Data Model package into `DataModelContent`. Runs at
+ * import, so the record carries it as `model`; `of` builds it for records
+ * imported before that.
+ */
+export class DataModelModel {
+    static of(dm: Partial<DataModel>): DataModelContent {
+        return dm.model ?? this.normalise(dm.content);
+    }
+
+    static normalise(content: any): DataModelContent {
+        content = content || {};
+        const def = content.DataModel?.DataModelDef || content.DataModel?.DataModelDefinition || {};
+        // The definition is nested in DataModelDef/Definition; older exports put it next to DataModelDef
+        const root = def.Definition?.DataModelDefinition || content.DataModel?.Definition?.DataModelDefinition || def;
+
+        const byQuery = <T>(items: any[], map: (item: any) => T) => {
+            const grouped = new Map<string, T[]>();
+            items.forEach(item => {
+                const name = V.text(item.QueryName);
+                grouped.set(name, [...(grouped.get(name) || []), map(item)]);
+            });
+            return grouped;
+        };
+
+        const columns = byQuery(V.list(content.QueryColumns?.ArrayOfQueryColumn?.QueryColumn), (c): QueryColumn => ({
+            name: V.text(c.ColumnName),
+            description: V.text(c.Description),
+            dataType: V.text(c.JavaType) || V.text(c.DataType) || 'String',
+            format: V.text(c.Format),
+            expression: V.text(c.Expression),
+            isCalculated: V.flag(c.IsCalculate),
+            isVisible: V.text(c.IsVisible).toLowerCase() !== 'false',
+            dataSourceName: V.text(c.DataSourceName),
+            fieldId: V.text(c.FieldId),
+            sequence: V.number(c.Sequence)
+        }));
+        const joins = byQuery(V.list(content.QueryJoins?.ArrayOfQueryJoin?.QueryJoin), (j): QueryJoin => ({
+            joinType: V.text(j.JoinType) || 'Inner',
+            sequence: V.number(j.Sequence),
+            leftSource: V.text(j.DataSource1),
+            leftField: V.text(j.Field1),
+            rightSource: V.text(j.DataSource2),
+            rightField: V.text(j.Field2)
+        }));
+        const datasources = byQuery(V.list(content.QueryDatasources?.ArrayOfQueryDatasource?.QueryDatasource), (d): QueryDatasource => {
+            const parameters = V.list(d.ParameterValues?.Parameters?.ParameterField)
+                .map((f: any) => ({ name: V.text(f.FieldName), value: V.text(f.Value) }));
+            const param = (name: string) => parameters.find(p => p.name === name)?.value || '';
+            return {
+                id: V.text(d.DataSourceId) || V.text(d.DatasourceId),
+                name: V.text(d.DataSourceName),
+                type: V.text(d.DataSourceType) || 'Table',
+                source: param('TableName') || param('QueryName') || param('WarehouseName'),
+                parameters
+            };
+        });
+
+        const queries = V.list(content.Queries?.ArrayOfQuery?.Query)
+            .map((q: any): DataModelQuery => {
+                const name = V.text(q.QueryName);
+                return {
+                    id: V.text(q.Id),
+                    name,
+                    sequence: V.number(q.Sequence),
+                    description: V.text(q.Description),
+                    queryType: V.text(q.QueryType),
+                    isActive: V.text(q.IsActive).toLowerCase() !== 'false',
+                    criteria: V.criteria(q.Criteria),
+                    columns: columns.get(name) || [],
+                    joins: joins.get(name) || [],
+                    datasources: datasources.get(name) || []
+                };
+            })
+            .sort((a, b) => a.sequence - b.sequence);
+
+        const columnNames = (node: any, ...keys: string[]) => keys
+            .flatMap(key => V.list(node?.Columns?.[key]))
+            .map((c: any) => V.text(c.ColumnName) || V.text(c.Name))
+            .filter(Boolean);
+
+        return {
+            id: V.text(def.DataModelId),
+            description: V.text(def.Description),
+            owner: V.text(def.Owner),
+            processMode: V.text(root.ProcessMode) || V.text(def.ProcessMode),
+            reportingSystem: V.text(def.ReportingSystem),
+            parentPath: V.text(def.ParentFileItemPath),
+            queries,
+            variables: V.list(content.Variables?.ArrayOfVariableDef?.VariableDef).map((v: any) => ({
+                name: V.text(v.Name),
+                description: V.text(v.Description),
+                type: V.text(v.DataType) || V.text(v.VariableType),
+                defaultValue: V.text(v.DefaultValue),
+                dataSourceName: V.text(v.DataSourceName),
+                sequence: V.number(v.Sequence)
+            })),
+            indexes: V.list(root.Indexes?.Index).map((i: any) => ({
+                name: V.text(i.IndexName) || V.text(i.Name),
+                description: V.text(i.Description),
+                columns: columnNames(i, 'IndexColumnItem', 'Column')
+            })),
+            detailViews: V.list(root.DetailViews?.DetailView ?? root.DetailViews?.View).map((v: any) => ({
+                name: V.text(v.DetailViewName) || V.text(v.Name),
+                description: V.text(v.Description),
+                columns: columnNames(v, 'DetailViewColumnItem', 'Column')
+            }))
+        };
+    }
+
+    /** Key of a query's step note: its Id, or its name when the export has no Id. */
+    static noteKey(query: DataModelQuery): string {
+        return query.id || query.name;
+    }
+
+    /** The query whose columns are the model's output. */
+    static finalQuery(model: DataModelContent): DataModelQuery | null {
+        return model.queries.length > 0 ? model.queries[model.queries.length - 1]! : null;
+    }
+}
@@ -0,0 +1,659 @@
+import type { Report } from '../db';
+import { ModelValues as V, type CriteriaCondition, type NameValue } from './ModelValues';
+
+/** An ETL process as read from Processes.xml, Steps.xml, Variables.xml, FileLocations.xml and Attachments.xml. */
+export interface EtlProcess {
+    id: string;
+    name: string;
+    version: string;
+    description: string;
+    processType: string;
+    parentPath: string;
+    /** Every step in execution order: parents before their children, siblings by Sequence */
+    steps: EtlStep[];
+    variables: EtlVariable[];
+    fileLocations: EtlFileLocation[];
+    attachments: EtlAttachment[];
+}
+
+export interface EtlVariable {
+    name: string;
+    description: string;
+    type: string;               // T1 code: A, N, D, L, I, ...
+    defaultValue: string;
+    defaultIsExpression: boolean;
+    mandatory: boolean;
+    displayable: boolean;
+    editable: boolean;
+    listType: string;
+    sequence: number;
+}
+
+export interface EtlFileLocation {
+    name: string;
+    locationType: string;
+    path: string;
+    description: string;
+}
+
+export interface EtlAttachment {
+    fileName: string;
+    description: string;
+    contentType: string;
+    size: number;               // Bytes, estimated from the base64 content; 0 when absent
+}
+
+export interface TableColumn {
+    name: string;
+    dataType: string;
+}
+
+export interface QueryStepColumn {
+    name: string;
+    source: string;             // ColumnSource: a field, [COLUMN] or an expression
+    dataType: string;
+    action: string;             // DSP (display), CAL (calculate), ...
+}
+
+export interface CalculatedColumn {
+    name: string;
+    expression: string;
+    dataType: string;
+    action: string;
+    defaultValue: string;
+    lookup: string;
+    lookupColumn: string;
+}
+
+export interface ColumnMapping {
+    column: string;
+    value: string;              // MappedValue: [COLUMN], {&VARIABLE}, literal or expression
+}
+
+export interface TableJoin {
+    leftTable: string;
+    leftColumn: string;
+    joinType: string;
+    rightTable: string;
+    rightColumn: string;
+}
+
+export interface FileReference {
+    location: string;           // Named file location, e.g. "USER AREA"
+    name: string;
+}
+
+export const QUERY_STEP_TYPES = ['RunDirectQuery', 'RunTableQuery', 'RunDatasourceQuery', 'RunSimpleQuery'] as const;
+
+export interface EtlStepBase {
+    /** Id the views give the step card and key step notes by (`${StepType}_${Name}`, sanitised) */
+    key: string;
+    stepId: number;
+    parentStepId: number;
+    sequence: number;
+    depth: number;
+    name: string;
+    description: string;
+    comments: string;
+    isActive: boolean;
+    /** StepType exactly as exported */
+    rawType: string;
+    /** Table the step writes (Step/OutputTableName), '' when none */
+    outputTable: string;
+    /** Columns of the output table as declared in OutputTableDefinition */
+    outputColumns: TableColumn[];
+    /** The raw StorageObject, for settings the model does not cover */
+    storage: Record<string, any>;
+}
+
+export interface QueryStep extends EtlStepBase {
+    type: typeof QUERY_STEP_TYPES[number];
+    inputTable: string;         // RunTableQuery reads a memory table
+    sourceTable: string;        // RunDirectQuery reads a T1 table
+    dataSource: string;         // RunDatasourceQuery/RunSimpleQuery data source description
+    suite: string;
+    columns: QueryStepColumn[];
+    parameters: NameValue[];
+    criteria: CriteriaCondition[];
+    distinct: boolean;
+}
+
+export interface ColumnStep extends EtlStepBase {
+    type: 'AddColumn' | 'UpdateColumn';
+    inputTable: string;
+    columns: CalculatedColumn[];
+    criteria: CriteriaCondition[];
+}
+
+export interface VariableStep extends EtlStepBase {
+    type: 'SetVariable' | 'CalculateVariable';
+    variable: string;
+    expression: string;
+    /** Memory table the expression is evaluated over, '' when it uses none */
+    inputTable: string;
+    criteria: CriteriaCondition[];
+}
+
+export interface ImportWarehouseStep extends EtlStepBase {
+    type: 'ImportWarehouseData';
+    inputTable: string;
+    warehouse: string;
+    table: string;
+    suite: string;
+    importOption: string;       // IU (insert and update), I, U, R, ...
+    mappings: ColumnMapping[];
+    keyColumns: string[];
+}
+
+export interface DeleteWarehouseStep extends EtlStepBase {
+    type: 'DeleteWarehouseData';
+    warehouse: string;
+    table: string;
+    criteria: CriteriaCondition[];
+}
+
+export interface JoinTableStep extends EtlStepBase {
+    type: 'JoinTable';
+    inputTables: string[];
+    joins: TableJoin[];
+    aliases: { table: string, column: string, alias: string }[];
+    criteria: CriteriaCondition[];
+}
+
+export interface AppendTableStep extends EtlStepBase {
+    type: 'AppendTable';
+    inputTable: string;
+    targetTable: string;
+    mappings: ColumnMapping[];
+}
+
+export interface CreateTableStep extends EtlStepBase {
+    type: 'CreateTable';
+    table: string;
+}
+
+export interface PurgeTableStep extends EtlStepBase {
+    type: 'PurgeTable';
+    purgeType: string;
+    tables: string[];
+}
+
+export interface LoopStep extends EtlStepBase {
+    type: 'Loop';
+    variable: string;
+    condition: string;
+    maxIterations: number;
+}
+
+export interface DecisionStep extends EtlStepBase {
+    type: 'Decision';
+    inputTable: string;
+}
+
+export interface BranchStep extends EtlStepBase {
+    type: 'Branch';
+    expression: string;
+}
+
+export interface GroupStep extends EtlStepBase {
+    type: 'Group';
+}
+
+export interface ExportToExcelStep extends EtlStepBase {
+    type: 'ExportToExcel';
+    inputTable: string;
+    file: FileReference;
+    sheet: string;
+}
+
+export interface TextFileStep extends EtlStepBase {
+    type: 'LoadTextFile' | 'SaveText' | 'SaveTextfile';
+    file: FileReference;
+    /** Text SaveText writes, '' for LoadTextFile */
+    content: string;
+}
+
+export interface SendEmailStep extends EtlStepBase {
+    type: 'SendEmail';
+    to: string[];
+    cc: string[];
+    bcc: string[];
+    subject: string;
+    message: string;
+    attachments: FileReference[];
+}
+
+export interface RenameColumnStep extends EtlStepBase {
+    type: 'RenameColumn';
+    inputTable: string;
+    from: string;
+    to: string;
+}
+
+export interface DeleteColumnStep extends EtlStepBase {
+    type: 'DeleteColumn';
+    inputTable: string;
+    columns: string[];
+}
+
+export interface FilterTableStep extends EtlStepBase {
+    type: 'FilterTable';
+    inputTable: string;
+    criteria: CriteriaCondition[];
+}
+
+export interface SortTableStep extends EtlStepBase {
+    type: 'SortTable';
+    inputTable: string;
+    sort: { column: string, descending: boolean }[];
+}
+
+export interface RunProcessStep extends EtlStepBase {
+    type: 'StartProcess' | 'RunProcess';
+    process: string;
+    processId: string;
+    parameters: NameValue[];
+}
+
+export interface SqlStep extends EtlStepBase {
+    type: 'ExecuteSQL' | 'RunSQL';
+    sql: string;
+    connection: string;
+}
+
+export interface ScriptStep extends EtlStepBase {
+    type: 'Script' | 'ExecuteScript';
+    script: string;
+    language: string;
+}
+
+/** A step type the model has no shape for; `rawType` names it and `storage` holds its settings. */
+export interface OtherStep extends EtlStepBase {
+    type: 'Other';
+}
+
+export type EtlStep = QueryStep | ColumnStep | VariableStep | ImportWarehouseStep | DeleteWarehouseStep
+    | JoinTableStep | AppendTableStep | CreateTableStep | PurgeTableStep | LoopStep | DecisionStep
+    | BranchStep | GroupStep | ExportToExcelStep | TextFileStep | SendEmailStep | RenameColumnStep
+    | DeleteColumnStep | FilterTableStep | SortTableStep | RunProcessStep | SqlStep | ScriptStep | OtherStep;
+
+export type EtlStepType = EtlStep['type'];
+
+/** Narrows a step to one variant, e.g. `EtlModel.steps(process, 'Loop')`. */
+export type EtlStepOf<T extends EtlStepType> = EtlStep extends infer S
+    ? S extends EtlStep ? ([T & S['type']] extends [never] ? never : S) : never
+    : never;
+
+type StepBuilder<T extends EtlStepType> = (base: EtlStepBase, storage: any) => Omit<EtlStepOf<T>, keyof EtlStepBase>;
+
+// Criteria can sit under any of these keys depending on the step type
+const criteriaOf = (storage: any) => [storage.Criteria, storage.WarehouseCriteria, storage.SourceCriteria, storage.FilterCriteria, storage.WhereCriteria]
+    .flatMap(node => V.criteria(node));
+
+const mappingsOf = (storage: any): ColumnMapping[] => V.list(storage.ColumnMapping?.TableColumnMapping)
+    .map((m: any) => ({ column: V.text(m.ColumnName), value: V.text(m.MappedValue) }));
+
+const fileOf = (storage: any): FileReference => ({ location: V.text(storage.FileLocation), name: V.text(storage.FileName) });
+
+const queryStep: StepBuilder<typeof QUERY_STEP_TYPES[number]> = (_base, storage) => ({
+    type: 'RunDirectQuery',
+    inputTable: V.text(storage.InputTableName),
+    sourceTable: V.text(storage.TableName),
+    dataSource: V.label(storage.DataSource) || V.text(storage.DataSource?.Description) || V.text(storage.DataSource?.DataSourceName),
+    suite: V.text(storage.Suite) || V.text(storage.DataSourceSuite),
+    columns: V.list(storage.Columns?.ColumnItem).map((c: any) => ({
+        name: V.text(c.ColumnName),
+        source: V.text(c.ColumnSource),
+        dataType: V.text(c.ColumnDataType),
+        action: V.text(c.ColumnActionType)
+    })),
+    parameters: V.list(storage.DataSourceParameters?.DataSourceParameterItem).map((p: any) => ({
+        name: V.text(p.DataSourceParameterName),
+        value: V.text(p.DataSourceParameterValue)
+    })),
+    criteria: criteriaOf(storage),
+    distinct: V.flag(storage.DistinctOnly)
+});
+
+const BUILDERS: { [T in Exclude<EtlStepType, 'Other'>]: StepBuilder<T> } = {
+    RunDirectQuery: queryStep,
+    RunTableQuery: queryStep,
+    RunDatasourceQuery: queryStep,
+    RunSimpleQuery: queryStep,
+    AddColumn: (_base, storage) => ({
+        type: 'AddColumn',
+        inputTable: V.text(storage.InputTableName),
+        columns: V.list(storage.Columns?.ColumnItemDef).map((c: any) => ({
+            name: V.text(c.ColumnName),
+            expression: V.text(c.Expression),
+            dataType: V.text(c.ColumnType),
+            action: V.text(c.ColumnAction),
+            defaultValue: V.text(c.DefaultValue),
+            lookup: V.text(c.LookupName),
+            lookupColumn: V.text(c.LookupColumnName)
+        })),
+        criteria: criteriaOf(storage)
+    }),
+    UpdateColumn: (base, storage) => BUILDERS.AddColumn(base, storage),
+    SetVariable: (_base, storage) => ({
+        type: 'SetVariable',
+        variable: V.text(storage.VariableName),
+        expression: V.text(storage.VariableValue) || V.text(storage.Expression),
+        inputTable: storage.UseMemoryTable === undefined || V.flag(storage.UseMemoryTable) ? V.text(storage.InputTableName) : '',
+        criteria: criteriaOf(storage)
+    }),
+    CalculateVariable: (base, storage) => BUILDERS.SetVariable(base, storage),
+    ImportWarehouseData: (_base, storage) => ({
+        type: 'ImportWarehouseData',
+        inputTable: V.text(storage.InputTableName),
+        warehouse: V.text(storage.WarehouseName),
+        table: V.text(storage.TableName),
+        suite: V.text(storage.SuiteId),
+        importOption: V.text(storage.ImportOption),
+        mappings: mappingsOf(storage),
+        keyColumns: V.list(storage.KeyColumns?.KeyColumn ?? storage.MatchColumns?.KeyColumn)
+            .map((k: any) => V.text(k.ColumnName ?? k))
+            .filter(Boolean)
+    }),
+    DeleteWarehouseData: (_base, storage) => ({
+        type: 'DeleteWarehouseData',
+        warehouse: V.text(storage.WarehouseName),
+        table: V.text(storage.TableName),
+        criteria: criteriaOf(storage)
+    }),
+    JoinTable: (_base, storage) => {
+        const joins: TableJoin[] = V.list(storage.Joins?.JoinItemDef).map((j: any) => ({
+            leftTable: V.text(j.JoinTable1),
+            leftColumn: V.text(j.JoinColumn1),
+            joinType: V.text(j.JoinType),
+            rightTable: V.text(j.JoinTable2),
+            rightColumn: V.text(j.JoinColumn2)
+        }));
+        // Older exports name the two tables on the storage object itself
+        if (joins.length === 0 && storage.JoinTable1) {
+            joins.push({
+                leftTable: V.text(storage.JoinTable1),
+                leftColumn: V.text(storage.JoinColumn1),
+                joinType: V.text(storage.JoinType),
+                rightTable: V.text(storage.JoinTable2),
+                rightColumn: V.text(storage.JoinColumn2)
+            });
+        }
+        const inputTables = V.list(storage.InputTables?.InputTableDef).map((t: any) => V.text(t.InputTableName));
+        joins.forEach(j => [j.leftTable, j.rightTable].forEach(t => t && !inputTables.includes(t) && inputTables.push(t)));
+        return {
+            type: 'JoinTable',
+            inputTables: inputTables.filter(Boolean),
+            joins,
+            aliases: V.list(storage.ColumnAliases?.ColumnAliasDef).map((a: any) => ({
+                table: V.text(a.AliasTableName),
+                column: V.text(a.AliasColumnName),
+                alias: V.text(a.AliasName)
+            })),
+            criteria: criteriaOf(storage)
+        };
+    },
+    AppendTable: (_base, storage) => ({
+        type: 'AppendTable',
+        inputTable: V.text(storage.InputTableName),
+        targetTable: V.text(storage.AppendToTableName),
+        mappings: mappingsOf(storage)
+    }),
+    CreateTable: (base, storage) => ({
+        type: 'CreateTable',
+        table: base.outputTable || V.text(storage.TableName)
+    }),
+    PurgeTable: (_base, storage) => ({
+        type: 'PurgeTable',
+        purgeType: V.text(storage.PurgeTableType),
+        tables: V.split(storage.SelectedTables)
+    }),
+    Loop: (_base, storage) => ({
+        type: 'Loop',
+        variable: V.text(storage.InputVariable),
+        condition: V.text(storage.LoopCondition),
+        maxIterations: V.number(storage.MaxIterations)
+    }),
+    Decision: (_base, storage) => ({
+        type: 'Decision',
+        inputTable: V.flag(storage.UseInputTable) || storage.UseInputTable === undefined ? V.text(storage.InputTableName) : ''
+    }),
+    Branch: (_base, storage) => ({
+        type: 'Branch',
+        expression: V.text(storage.Expression)
+    }),
+    Group: () => ({ type: 'Group' }),
+    ExportToExcel: (_base, storage) => ({
+        type: 'ExportToExcel',
+        inputTable: V.text(storage.ExportMemoryTableName),
+        file: fileOf(storage),
+        sheet: V.text(storage.SheetName)
+    }),
+    LoadTextFile: (_base, storage) => ({
+        type: 'LoadTextFile',
+        file: fileOf(storage),
+        content: ''
+    }),
+    SaveText: (_base, storage) => ({
+        type: 'SaveText',
+        file: fileOf(storage),
+        content: V.plainText(storage.Content)
+    }),
+    SaveTextfile: (base, storage) => BUILDERS.SaveText(base, storage),
+    SendEmail: (_base, storage) => ({
+        type: 'SendEmail',
+        to: V.split(storage.SendTo),
+        cc: V.split(storage.CarbonCopyTo ?? storage.SendCC),
+        bcc: V.split(storage.BlindCarbonCopyTo ?? storage.SendBCC),
+        subject: V.text(storage.SubjectLine),
+        message: V.plainText(storage.EmailMessage ?? storage.BodyText ?? storage.Body),
+        attachments: V.list(storage.SendEmailAttachmentConfigItems?.SendEmailAttachmentConfigItem).map((a: any) => ({
+            location: V.text(a.FileLocation),
+            name: V.text(a.FileMask)
+        }))
+    }),
+    RenameColumn: (_base, storage) => ({
+        type: 'RenameColumn',
+        inputTable: V.text(storage.InputTableName) || V.text(storage.TableName),
+        from: V.text(storage.OldColumnName),
+        to: V.text(storage.NewColumnName)
+    }),
+    DeleteColumn: (_base, storage) => ({
+        type: 'DeleteColumn',
+        inputTable: V.text(storage.InputTableName) || V.text(storage.TableName),
+        columns: V.list((storage.ColumnsToDelete || storage.Columns)?.ColumnItem)
+            .map((c: any) => V.text(c.ColumnName ?? c))
+            .filter(Boolean)
+    }),
+    FilterTable: (_base, storage) => ({
+        type: 'FilterTable',
+        inputTable: V.text(storage.InputTableName) || V.text(storage.TableName),
+        criteria: criteriaOf(storage)
+    }),
+    SortTable: (_base, storage) => ({
+        type: 'SortTable',
+        inputTable: V.text(storage.InputTableName) || V.text(storage.TableName),
+        sort: V.list(storage.SortColumns?.SortColumnItem).map((c: any) => ({
+            column: V.text(c.ColumnName),
+            descending: /^desc/i.test(V.text(c.SortDirection) || V.text(c.Direction))
+        }))
+    }),
+    StartProcess: (_base, storage) => ({
+        type: 'StartProcess',
+        process: V.text(storage.ProcessName) || V.text(storage.ProcessToRun),
+        processId: V.text(storage.ProcessId),
+        parameters: V.list(storage.Parameters?.ParameterItem).map((p: any) => ({ name: V.text(p.Name), value: V.text(p.Value) }))
+    }),
+    RunProcess: (base, storage) => BUILDERS.StartProcess(base, storage),
+    ExecuteSQL: (_base, storage) => ({
+        type: 'ExecuteSQL',
+        sql: V.text(storage.SqlStatement) || V.text(storage.SQL) || V.text(storage.Query),
+        connection: V.text(storage.ConnectionString) || V.text(storage.Connection)
+    }),
+    RunSQL: (base, storage) => BUILDERS.ExecuteSQL(base, storage),
+    Script: (_base, storage) => ({
+        type: 'Script',
+        script: V.text(storage.ScriptText) || V.text(storage.Script),
+        language: V.text(storage.ScriptLanguage) || V.text(storage.Language)
+    }),
+    ExecuteScript: (base, storage) => BUILDERS.Script(base, storage)
+};
+
+/**
+ * Normalises the XML of an ETL package into an `EtlProcess`. Runs at import
+ * (see `PackageParser`), so the record carries its model as `model`; `of`
+ * builds it on the fly for records imported before that.
+ */
+export class EtlModel {
+    static of(report: Partial<Report>): EtlProcess {
+        return report.model ?? this.normalise(report);
+    }
+
+    static normalise(raw: { rawProcess?: any, rawSteps?: any, rawVariables?: any, rawFileLocations?: any, rawAttachments?: any }): EtlProcess {
+        const processes = V.list(raw.rawProcess?.ArrayOfProcess?.Process ?? raw.rawProcess?.Process?.ArrayOfProcess?.Process);
+        const first = (key: string) => processes.map(p => V.text(p[key])).find(Boolean) || '';
+
+        return {
+            id: first('ProcessId'),
+            name: first('Name'),
+            version: first('Version'),
+            description: first('Description'),
+            processType: first('ProcessType'),
+            parentPath: first('ParentFileItemPath'),
+            steps: this.normaliseSteps(raw.rawSteps),
+            variables: this.normaliseVariables(raw.rawVariables),
+            fileLocations: this.normaliseFileLocations(raw.rawFileLocations),
+            attachments: this.normaliseAttachments(raw.rawAttachments)
+        };
+    }
+
+    /** Steps of one type, typed as that variant. */
+    static steps<T extends EtlStepType>(process: EtlProcess, ...types: T[]): EtlStepOf<T>[] {
+        return process.steps.filter((s): s is EtlStepOf<T> => (types as EtlStepType[]).includes(s.type));
+    }
+
+    /** Steps that run: active ones that are not inside a disabled container, in execution order. */
+    static activeSteps(process: EtlProcess): EtlStep[] {
+        const disabled = new Set<number>();
+        return process.steps.filter(s => {
+            if (!s.isActive || disabled.has(s.parentStepId)) {
+                disabled.add(s.stepId);
+                return false;
+            }
+            return true;
+        });
+    }
+
+    /** Direct children of a step (Loop, Group, Decision, Branch), in Sequence order. */
+    static children(process: EtlProcess, step: EtlStep): EtlStep[] {
+        return process.steps.filter(s => s.parentStepId === step.stepId && s.depth === step.depth + 1);
+    }
+
+    /** Same id `EtlParser.parseSteps` gives a step, which notes and search anchors use. */
+    static stepKey(rawType: string, name: string): string {
+        return `${rawType}_${name}`.replace(/[^a-zA-Z0-9]/g, '_');
+    }
+
+    private static normaliseSteps(rawSteps: any): EtlStep[] {
+        const raw = V.list(rawSteps?.ArrayOfStep?.Step);
+        const ids = new Set(raw.map(s => V.number(s.StepId)));
+        const byParent = new Map<number, any[]>();
+        raw.forEach(s => {
+            const parent = V.number(s.ParentStepId);
+            // Steps whose parent is missing are shown at the top level, as in the views
+            const key = parent !== 0 && ids.has(parent) && parent !== V.number(s.StepId) ? parent : 0;
+            byParent.set(key, [...(byParent.get(key) || []), s]);
+        });
+
+        const steps: EtlStep[] = [];
+        const visited = new Set<any>();
+        const visit = (parent: number, depth: number) => {
+            const children = (byParent.get(parent) || [])
+                .slice()
+                .sort((a, b) => (parseInt(a.Sequence) || 999) - (parseInt(b.Sequence) || 999));
+            children.forEach(s => {
+                if (visited.has(s)) return;
+                visited.add(s);
+                steps.push(this.normaliseStep(s, depth));
+                visit(V.number(s.StepId), depth + 1);
+            });
+        };
+        visit(0, 0);
+        return steps;
+    }
+
+    private static normaliseStep(step: any, depth: number): EtlStep {
+        const storage = step.Definition?.StorageObject || {};
+        const rawType = V.text(step.StepType);
+        const name = V.text(step.Name);
+        const outputDefinition = step.OutputTableDefinition?.TableDefinition ?? step.OutputTableDefinition;
+        const base: EtlStepBase = {
+            key: this.stepKey(rawType, name),
+            stepId: V.number(step.StepId),
+            parentStepId: V.number(step.ParentStepId),
+            sequence: V.number(step.Sequence),
+            depth,
+            name,
+            description: V.text(step.Description),
+            comments: V.text(step.Comments),
+            isActive: V.text(step.IsActive).toLowerCase() !== 'false',
+            rawType,
+            outputTable: V.text(step.OutputTableName) || V.text(storage.OutputTableName),
+            outputColumns: V.list(outputDefinition?.Columns?.TableColumnDefinition ?? outputDefinition?.Columns?.ColumnItem)
+                .map((c: any) => ({ name: V.text(c.ColumnName), dataType: V.text(c.ColumnType) || V.text(c.ColumnDataType) }))
+                .filter(c => c.name),
+            storage
+        };
+
+        const build = BUILDERS[rawType as keyof typeof BUILDERS];
+        const variant = build ? { ...build(base, storage), type: rawType } : { type: 'Other' };
+        return { ...base, ...variant } as EtlStep;
+    }
+
+    private static normaliseVariables(rawVariables: any): EtlVariable[] {
+        const list = V.list(rawVariables?.ArrayOfC2GenericVariable?.C2GenericVariable
+            ?? rawVariables?.ArrayOfVariableDef?.VariableDef
+            ?? rawVariables?.C2GenericVariable
+            ?? rawVariables?.VariableDef);
+        return list.map((v: any) => ({
+            name: V.text(v.Name),
+            description: V.text(v.Description),
+            type: V.text(v.VariableType),
+            defaultValue: V.text(v.DefaultValue),
+            defaultIsExpression: V.flag(v.DefaultIsExpression),
+            mandatory: V.flag(v.IsMandatory),
+            displayable: V.text(v.IsDisplayable).toLowerCase() !== 'false',
+            editable: V.text(v.IsEditable).toLowerCase() !== 'false',
+            listType: V.text(v.ListType) || (v.QueryListCriteria ? 'Query' : ''),
+            sequence: V.number(v.Sequence, 999)
+        })).filter(v => v.name);
+    }
+
+    private static normaliseFileLocations(rawFileLocations: any): EtlFileLocation[] {
+        return V.list(rawFileLocations?.ArrayOfFileLocation?.FileLocation ?? rawFileLocations?.FileLocation).map((loc: any) => {
+            const def = loc.Definition || {};
+            const folder = V.text(def.ServerFolder) || V.text(def.Path) || V.text(loc.ServerFolder);
+            return {
+                name: V.text(loc.Name) || V.text(loc.Description) || 'Unknown',
+                locationType: V.text(loc.LocationType) || 'ServerFolder',
+                path: folder ? `${folder}${V.text(def.SubPath)}` : V.text(loc.Path),
+                description: V.text(loc.Description)
+            };
+        });
+    }
+
+    private static normaliseAttachments(rawAttachments: any): EtlAttachment[] {
+        return V.list(rawAttachments?.ArrayOfAttachment?.Attachment
+            ?? rawAttachments?.ArrayOfProcessAttachment?.ProcessAttachment
+            ?? rawAttachments?.Attachment
+            ?? rawAttachments?.ProcessAttachment).map((att: any) => {
+            const data = V.text(att.FileData);
+            return {
+                fileName: V.text(att.FileName) || V.text(att.Name) || 'Unknown',
+                description: V.text(att.Description),
+                contentType: V.text(att.ContentType) || V.text(att.MimeType),
+                size: Math.round(data.length * 0.75)
+            };
+        });
+    }
+}
@@ -0,0 +1,108 @@
+/** One condition of a T1 criteria set, with nested sets flattened into the list. */
+export interface CriteriaCondition {
+    column: string;
+    operator: string;   // T1 operator name, e.g. "Equals", "OneOf", "Between"
+    value1: string;
+    value2: string;
+    link: string;       // AND / OR joining it to the previous condition
+}
+
+export interface NameValue {
+    name: string;
+    value: string;
+}
+
+/**
+ * Reads the value shapes fast-xml-parser produces for T1 packages: repeated
+ * elements that are only arrays when there is more than one, text nodes with
+ * attributes (`{ '#text': 'IU', '@_Description': 'Insert and Update' }`),
+ * `{ '@_IsAssigned': 'false' }` for unset values and real booleans/numbers.
+ */
+export class ModelValues {
+    static list(val: any): any[] {
+        if (val === undefined || val === null || val === '') return [];
+        return Array.isArray(val) ? val : [val];
+    }
+
+    static text(val: any): string {
+        if (val === undefined || val === null) return '';
+        if (typeof val === 'object') return val['#text'] !== undefined ? String(val['#text']).trim() : '';
+        return String(val).trim();
+    }
+
+    /** The `@_Description` label T1 stores next to a coded value, falling back to the code. */
+    static label(val: any): string {
+        if (val && typeof val === 'object' && val['@_Description']) return String(val['@_Description']);
+        return this.text(val);
+    }
+
+    static flag(val: any): boolean {
+        return this.text(val).toLowerCase() === 'true';
+    }
+
+    static number(val: any, fallback = 0): number {
+        const n = Number(this.text(val));
+        return this.text(val) !== '' && !isNaN(n) ? n : fallback;
+    }
+
+    /** Every string leaf of a node, e.g. the text of an HTML email body parsed as XML. */
+    static plainText(val: any): string {
+        if (val === undefined || val === null) return '';
+        if (Array.isArray(val)) return val.map(v => this.plainText(v)).filter(Boolean).join(' ');
+        if (typeof val === 'object') {
+            return Object.entries(val)
+                .filter(([k]) => !k.startsWith('@_'))
+                .map(([, v]) => this.plainText(v))
+                .filter(Boolean)
+                .join(' ');
+        }
+        return String(val).trim();
+    }
+
+    /**
+     * Every string value of a node, one entry per value, for reading expressions
+     * wherever a step stores them. Attributes and the keys in `skip` are left out.
+     */
+    static texts(val: any, skip: string[] = [], out: string[] = []): string[] {
+        if (typeof val === 'string') out.push(val);
+        else if (Array.isArray(val)) val.forEach(v => this.texts(v, skip, out));
+        else if (val && typeof val === 'object') {
+            Object.entries(val)
+                .filter(([k]) => !k.startsWith('@_') && !skip.includes(k))
+                .forEach(([, v]) => this.texts(v, skip, out));
+        }
+        return out;
+    }
+
+    /** ';' or ',' separated list, as used for email recipients and table selections. */
+    static split(val: any): string[] {
+        return this.text(val).split(/[;,]/).map(s => s.trim()).filter(Boolean);
+    }
+
+    /**
+     * Flattens a criteria set, given either as the set itself or wrapped in
+     * `CriteriaSetItem`, including any `NestedSets`.
+     */
+    static criteria(node: any, out: CriteriaCondition[] = []): CriteriaCondition[] {
+        if (!node || typeof node !== 'object') return out;
+        if (Array.isArray(node)) {
+            node.forEach(n => this.criteria(n, out));
+            return out;
+        }
+        if (node.CriteriaSetItem) return this.criteria(node.CriteriaSetItem, out);
+
+        this.list(node.CriteriaValues?.CriteriaValue).forEach((v: any) => {
+            const column = this.text(v.ColumnId);
+            if (!column) return;
+            out.push({
+                column,
+                operator: this.text(v.Operator?.Value ?? v.Operator),
+                value1: this.text(v.Value1),
+                value2: this.text(v.Value2),
+                link: this.text(v.Link) || 'AND'
+            });
+        });
+        if (node.NestedSets) this.criteria(node.NestedSets, out);
+        return out;
+    }
+}
@@ -0,0 +1,84 @@
+import type JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { describeError, type ParseIssueCollector } from './ParseIssue';
+
+export const xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_"
+});
+
+export interface EntryProgress {
+    /** Package entry about to be parsed, e.g. Visualisations.xml */
+    entry: string;
+    done: number;
+    total: number;
+}
+
+/** Shared by every package parser so they report and stop the same way. */
+export interface ParseContext {
+    issues?: ParseIssueCollector;
+    onProgress?: (progress: EntryProgress) => void;
+    signal?: AbortSignal;
+}
+
+/**
+ * Recursively parse any string field that looks like XML.
+ * This ensures ALL nested XML content is fully extracted.
+ */
+export function deepParseAllXml(obj: any, parser: XMLParser = xmlParser, onNestedXml?: (location: string, xml: string) => void, path = ''): void {
+    if (!obj || typeof obj !== 'object') return;
+
+    Object.keys(obj).forEach(key => {
+        const val = obj[key];
+        const location = `${path}/${key}`;
+        if (typeof val === 'string' && val.trim().startsWith('<?xml') ||
+            (typeof val === 'string' && val.trim().startsWith('<') && val.trim().endsWith('>'))) {
+            onNestedXml?.(location, val);
+            try {
+                const parsed = parser.parse(val);
+                obj[key] = parsed;
+                // Recursively parse the newly parsed object
+                deepParseAllXml(obj[key], parser, onNestedXml, location);
+            } catch {
+                // Not valid XML, leave as string
+            }
+        } else if (Array.isArray(val)) {
+            val.forEach((item, i) => deepParseAllXml(item, parser, onNestedXml, `${location}[${i + 1}]`));
+        } else if (typeof val === 'object') {
+            deepParseAllXml(val, parser, onNestedXml, location);
+        }
+    });
+}
+
+/**
+ * Parses the listed XML entries of a package, keyed by name without ".xml".
+ * Missing optional entries are normal; missing `requiredFiles` are reported.
+ * Cancellation is checked between entries, as a single entry parses synchronously.
+ */
+export async function readXmlEntries(zip: JSZip, fileNames: string[], requiredFiles: string[], context: ParseContext = {}, parser: XMLParser = xmlParser): Promise<Record<string, any>> {
+    const { issues, onProgress, signal } = context;
+    const result: Record<string, any> = {};
+    const present = fileNames.filter(fileName => zip.file(fileName));
+
+    for (const fileName of fileNames) {
+        const f = zip.file(fileName);
+        if (f) {
+            signal?.throwIfAborted();
+            onProgress?.({ entry: fileName, done: present.indexOf(fileName), total: present.length });
+            const content = await f.async('string');
+            issues?.validateXml(fileName, '/', content);
+            try {
+                const parsed = parser.parse(content);
+                // Deep parse ALL nested XML strings recursively
+                deepParseAllXml(parsed, parser, issues?.nestedXmlReporter(fileName));
+                result[fileName.replace('.xml', '')] = parsed;
+            } catch (e) {
+                issues?.error(fileName, '/', `Could not be read: ${describeError(e)}`);
+            }
+        } else if (requiredFiles.includes(fileName)) {
+            issues?.warning(fileName, '/', `${fileName} not found in the package`);
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,54 @@
+import { XMLValidator } from 'fast-xml-parser';
+
+export type ParseIssueSeverity = 'error' | 'warning' | 'info';
+
+export interface ParseIssue {
+    severity: ParseIssueSeverity;
+    /** Package entry the issue was found in, e.g. Steps.xml */
+    entry: string;
+    /** XPath-like location within the entry, e.g. /ArrayOfStep/Step[3]/Definition */
+    location: string;
+    message: string;
+}
+
+/**
+ * Collects problems found while importing a package so they can be saved with the
+ * artifact. Parsers keep going after an issue; the collector explains the gaps.
+ */
+export class ParseIssueCollector {
+    readonly issues: ParseIssue[] = [];
+
+    add(severity: ParseIssueSeverity, entry: string, location: string, message: string) {
+        this.issues.push({ severity, entry, location, message });
+    }
+
+    error(entry: string, location: string, message: string) {
+        this.add('error', entry, location, message);
+    }
+
+    warning(entry: string, location: string, message: string) {
+        this.add('warning', entry, location, message);
+    }
+
+    info(entry: string, location: string, message: string) {
+        this.add('info', entry, location, message);
+    }
+
+    /**
+     * fast-xml-parser is lenient and silently drops content after a malformed tag,
+     * so validate first and record where the document breaks.
+     */
+    validateXml(entry: string, location: string, xml: string, severity: ParseIssueSeverity = 'error') {
+        const result = XMLValidator.validate(xml);
+        if (result !== true) {
+            this.add(severity, entry, `${location} (line ${result.err.line}, col ${result.err.col})`, `Malformed XML: ${result.err.msg}`);
+        }
+    }
+
+    /** Callback for deepParseAllXml: reports malformed nested XML within an entry. */
+    nestedXmlReporter(entry: string) {
+        return (location: string, xml: string) => this.validateXml(entry, location, xml, 'warning');
+    }
+}
+
+export const describeError = (e: unknown): string => e instanceof Error ? e.message : String(e);
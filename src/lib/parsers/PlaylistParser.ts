@@ -0,0 +1,241 @@
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { readXmlEntries, type ParseContext } from './PackageXml';
+
+// Playlist values are codes (cost centres, periods, sheet names) - keep them as
+// text so "012345" or "04" are not coerced to numbers.
+const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    parseTagValue: false,
+    isArray: (name) => ['ScheduleItem', 'C2GenericVariable', 'ScheduleItemVariable', 'ItemVariable'].includes(name)
+});
+
+export interface PlaylistVariable {
+    name: string;
+    description: string;
+    type: string;
+    defaultValue: string;
+    mandatory: boolean;
+    editable: boolean;
+    displayable: boolean;
+    sequence: number;
+    listSource: string;
+}
+
+export interface PlaylistItem {
+    itemId: string;
+    sequence: number;
+    comment: string;
+    active: boolean;
+    continueOnError: boolean;
+    sourceType: string;
+    sourceServerFolder: string;
+    sourcePath: string;
+    sourceSheetName: string;
+    actionCode: string;
+    actionFileType: string;
+    actionFilePath: string;
+    actionSheetName: string;
+    myReportInd: boolean;
+    myReportUser: string;
+    saveInd: boolean;
+    saveServerFolder: string;
+    saveSubfolder: string;
+    emailInd: boolean;
+    emailTo: string[];
+    emailCc: string[];
+    emailSubject: string;
+    emailBody: string;
+    emailAttach: boolean;
+    itemVariables: { name: string, value: string }[];
+}
+
+export type PlaylistDeliveryRole = 'To' | 'Cc' | 'Save' | 'My Reports';
+
+export interface PlaylistDelivery {
+    itemId: string;
+    sequence: number;
+    report: string;
+    role: PlaylistDeliveryRole;
+    attached: boolean;
+}
+
+export interface PlaylistRecipient {
+    recipient: string;
+    kind: 'email' | 'folder' | 'user';
+    deliveries: PlaylistDelivery[];
+    to: number;
+    cc: number;
+    attached: number;
+    saved: number;
+}
+
+export interface PlaylistDistribution {
+    recipients: PlaylistRecipient[];
+    /** Items that neither email (to at least one address) nor save their output */
+    undelivered: PlaylistItem[];
+}
+
+export class PlaylistParser {
+    static async parse(file: Blob, context: ParseContext = {}): Promise<any> {
+        const zip = await JSZip.loadAsync(file);
+
+        const fileNames = [
+            'Schedule.xml',
+            'Items.xml',
+            'Variables.xml',
+            'ItemVariables.xml'
+        ];
+        // Missing optional entries are normal; these are reported
+        const requiredFiles = ['Schedule.xml', 'Items.xml'];
+
+        return readXmlEntries(zip, fileNames, requiredFiles, context, parser);
+    }
+
+    // --- Helpers ---
+    private static text(val: any): string {
+        if (val === undefined || val === null) return '';
+        if (typeof val === 'object') return val['#text'] !== undefined ? String(val['#text']) : '';
+        return String(val).trim();
+    }
+
+    private static flag(val: any): boolean {
+        return this.text(val).toLowerCase() === 'true';
+    }
+
+    /** EmailToAddresses / EmailCcAddresses are ';' (sometimes ',') separated. */
+    static splitAddresses(val: any): string[] {
+        return this.text(val)
+            .split(/[;,]/)
+            .map(a => a.trim())
+            .filter(Boolean);
+    }
+
+    static getSchedule(content: any): any {
+        return content?.Schedule?.Schedule || {};
+    }
+
+    static getVariables(content: any): PlaylistVariable[] {
+        const list: any[] = content?.Variables?.ArrayOfC2GenericVariable?.C2GenericVariable || [];
+        return list.map(v => ({
+            name: this.text(v.Name),
+            description: this.text(v.Description),
+            type: this.text(v.VariableType),
+            defaultValue: this.text(v.DefaultValue),
+            mandatory: this.flag(v.IsMandatory),
+            editable: this.flag(v.IsEditable),
+            displayable: this.flag(v.IsDisplayable),
+            sequence: Number(this.text(v.Sequence)) || 0,
+            listSource: this.text(v.SelectionTypeListType) || this.text(v.ListType)
+        })).sort((a, b) => a.sequence - b.sequence);
+    }
+
+    /** ScheduleItems in Sequence order, with ItemVariables.xml overrides merged in. */
+    static getItems(content: any): PlaylistItem[] {
+        const list: any[] = content?.Items?.ArrayOfScheduleItem?.ScheduleItem || [];
+
+        // ItemVariables.xml holds per-item overrides keyed by ItemId
+        const overrides = new Map<string, { name: string, value: string }[]>();
+        const itemVars: any[] = content?.ItemVariables?.ArrayOfScheduleItemVariable?.ScheduleItemVariable || [];
+        itemVars.forEach(iv => {
+            const itemId = this.text(iv.ItemId);
+            if (!overrides.has(itemId)) overrides.set(itemId, []);
+            overrides.get(itemId)!.push({ name: this.text(iv.Name || iv.VariableName), value: this.text(iv.Value) });
+        });
+
+        return list.map(i => {
+            const def = i.Definition?.ScheduleItemDefinition || {};
+            const itemId = this.text(i.ItemId);
+            const itemVariables: { name: string, value: string }[] = (def.ItemVariables?.ItemVariable || [])
+                .map((v: any) => ({ name: this.text(v.Name), value: this.text(v.Value) }));
+            (overrides.get(itemId) || []).forEach(o => {
+                const existing = itemVariables.find(v => v.name === o.name);
+                if (existing) existing.value = o.value;
+                else itemVariables.push(o);
+            });
+
+            return {
+                itemId,
+                sequence: Number(this.text(i.Sequence)) || 0,
+                comment: this.text(i.Comment),
+                active: this.flag(i.ActiveInd),
+                continueOnError: this.flag(i.ContinueOnError),
+                sourceType: this.text(i.SourceType),
+                sourceServerFolder: this.text(i.SourceServerFolder),
+                sourcePath: this.text(i.SourcePath),
+                sourceSheetName: this.text(i.SourceSheetName),
+                actionCode: this.text(i.ActionCode),
+                actionFileType: this.text(i.ActionFileType),
+                actionFilePath: this.text(i.ActionFilePath),
+                actionSheetName: this.text(i.ActionSheetName),
+                myReportInd: this.flag(i.MyReportInd),
+                myReportUser: this.text(i.MyReportUser),
+                saveInd: this.flag(i.SaveInd),
+                saveServerFolder: this.text(i.SaveServerFolder),
+                saveSubfolder: this.text(i.SaveSubfolder),
+                emailInd: this.flag(i.EmailInd),
+                emailTo: this.splitAddresses(i.EmailToAddresses),
+                emailCc: this.splitAddresses(i.EmailCcAddresses),
+                emailSubject: this.text(i.EmailSubject),
+                emailBody: this.text(i.EmailBody),
+                emailAttach: this.flag(i.EmailAttachInd),
+                itemVariables
+            };
+        }).sort((a, b) => a.sequence - b.sequence);
+    }
+
+    static getReportLabel(item: PlaylistItem): string {
+        return item.comment || item.actionFilePath || `Item ${item.itemId}`;
+    }
+
+    /**
+     * Who receives what: one entry per email address, save folder and My Reports user.
+     * Addresses are grouped case-insensitively; saved copies and My Reports count as saved.
+     */
+    static getDistribution(items: PlaylistItem[]): PlaylistDistribution {
+        const recipients = new Map<string, PlaylistRecipient>();
+        const undelivered: PlaylistItem[] = [];
+
+        const add = (key: string, recipient: string, kind: PlaylistRecipient['kind'], item: PlaylistItem, role: PlaylistDeliveryRole, attached: boolean) => {
+            if (!recipients.has(key)) {
+                recipients.set(key, { recipient, kind, deliveries: [], to: 0, cc: 0, attached: 0, saved: 0 });
+            }
+            const r = recipients.get(key)!;
+            // Listed in both To and Cc for the same item counts once, as To
+            if (r.deliveries.some(d => d.itemId === item.itemId && d.role === 'To' && role === 'Cc')) return;
+            r.deliveries.push({ itemId: item.itemId, sequence: item.sequence, report: this.getReportLabel(item), role, attached });
+            if (role === 'To') r.to++;
+            if (role === 'Cc') r.cc++;
+            if (attached) r.attached++;
+            if (role === 'Save' || role === 'My Reports') r.saved++;
+        };
+
+        items.forEach(item => {
+            let delivered = false;
+            if (item.emailInd) {
+                item.emailTo.forEach(a => add(`email:${a.toLowerCase()}`, a, 'email', item, 'To', item.emailAttach));
+                item.emailCc.forEach(a => add(`email:${a.toLowerCase()}`, a, 'email', item, 'Cc', item.emailAttach));
+                delivered = item.emailTo.length + item.emailCc.length > 0;
+            }
+            if (item.saveInd) {
+                const folder = [item.saveServerFolder, item.saveSubfolder].filter(Boolean).join('/') || '(default folder)';
+                add(`folder:${folder.toLowerCase()}`, folder, 'folder', item, 'Save', false);
+                delivered = true;
+            }
+            if (item.myReportInd) {
+                const user = item.myReportUser || '(run user)';
+                add(`user:${user.toLowerCase()}`, user, 'user', item, 'My Reports', false);
+                delivered = true;
+            }
+            if (!delivered) undelivered.push(item);
+        });
+
+        const kindOrder = { email: 0, folder: 1, user: 2 };
+        return {
+            recipients: Array.from(recipients.values()).sort((a, b) =>
+                kindOrder[a.kind] - kindOrder[b.kind] || a.recipient.localeCompare(b.recipient)),
+            undelivered
+        };
+    }
+}
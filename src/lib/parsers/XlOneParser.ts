@@ -0,0 +1,393 @@
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { describeError } from './ParseIssue';
+import { EtlParser } from './EtlParser';
+import { readXmlEntries, type ParseContext } from './PackageXml';
+
+// SpreadsheetML needs raw text (codes like "00" must not become numbers)
+// and stable arrays for repeated elements.
+const sheetParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    parseTagValue: false,
+    trimValues: false,
+    isArray: (name) => ['sheet', 'definedName', 'Relationship', 'si', 'r', 'row', 'c'].includes(name)
+});
+
+const GUID_SUFFIX = /^(.*?)\s*\(([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\)\s*$/;
+
+// Add-in functions are saved as _xll.NAME; the rest are XLOne/T1 naming conventions
+const T1_FUNCTION = /^(_xll\.|XL1|XLONE|T1|CIA|CI_)/i;
+
+export interface XlOneColumn {
+    name: string;
+    heading: string;
+    format: string;
+}
+
+export interface XlOneDefinition {
+    defKey: string;
+    reportSuite: string;
+    layoutType: string;
+    datasource: string;
+    datasourceParameters: string[];
+    criteria: string[];
+    crosstabCriteria: string[];
+    allowRuntimeCriteria: boolean;
+    columns: XlOneColumn[];
+    variables: string[];
+    groupByFields: string[];
+    runtimeGroupingFields: string[];
+    sortFields: string[];
+    assignedProperties: { name: string, value: string }[];
+}
+
+export type XlOneReferenceKind = 'variable' | 'column' | 'field' | 'datasource' | 'definedName';
+
+export interface XlOneCellReference {
+    kind: XlOneReferenceKind;
+    name: string;
+}
+
+export interface XlOneCell {
+    sheet: string;
+    ref: string;
+    value: string;
+    formula?: string;
+    sharedFrom?: string;     // Master cell when the formula is a shared formula
+    functions: { name: string, isT1: boolean }[];
+    references: XlOneCellReference[];
+}
+
+export interface XlOneWorkbook {
+    fileName: string;
+    sheets: { name: string, cellCount: number, formulaCount: number }[];
+    definedNames: { name: string, value: string, sheet?: string }[];
+    cells: XlOneCell[];      // Only cells with a formula or at least one reference
+}
+
+export class XlOneParser {
+    static async parse(file: Blob, context: ParseContext = {}): Promise<any> {
+        const { issues, onProgress, signal } = context;
+        const zip = await JSZip.loadAsync(file);
+        // The entity-encoded DbReportDef held in <Definition> is deep parsed with it
+        const result: any = await readXmlEntries(zip, ['Report.xml'], [], context);
+
+        // The design workbook sits next to Report.xml
+        const workbookFile = (zip.file(/\.xlsx$/i) || [])[0];
+        if (workbookFile) {
+            signal?.throwIfAborted();
+            onProgress?.({ entry: workbookFile.name, done: result.Report ? 1 : 0, total: result.Report ? 2 : 1 });
+            try {
+                result.Workbook = await this.parseWorkbook(workbookFile.name, await workbookFile.async('uint8array'));
+            } catch (e) {
+                issues?.warning(workbookFile.name, '/', `Workbook could not be decoded, so cell dependencies are not shown: ${describeError(e)}`);
+            }
+        } else {
+            issues?.info('(package)', '/', 'No embedded workbook found; cell dependencies cannot be mapped');
+        }
+
+        return result;
+    }
+
+    // --- Embedded Workbook ---
+
+    static async parseWorkbook(fileName: string, data: Uint8Array | ArrayBuffer | Blob): Promise<XlOneWorkbook> {
+        const xlsx = await JSZip.loadAsync(data);
+        const readXml = async (path: string) => {
+            const f = xlsx.file(path);
+            return f ? sheetParser.parse(await f.async('string')) : null;
+        };
+
+        const workbookXml = await readXml('xl/workbook.xml');
+        if (!workbookXml?.workbook) throw new Error(`${fileName}: xl/workbook.xml not found`);
+
+        // Relationship id -> worksheet path
+        const relsXml = await readXml('xl/_rels/workbook.xml.rels');
+        const targets = new Map<string, string>();
+        (relsXml?.Relationships?.Relationship || []).forEach((rel: any) => {
+            const target = String(rel['@_Target'] || '');
+            targets.set(rel['@_Id'], target.startsWith('/') ? target.substring(1) : `xl/${target}`);
+        });
+
+        const sharedStringsXml = await readXml('xl/sharedStrings.xml');
+        const sharedStrings: string[] = (sharedStringsXml?.sst?.si || []).map((si: any) => this.getRichText(si));
+
+        const sheetDefs: any[] = workbookXml.workbook.sheets?.sheet || [];
+        const definedNames = (workbookXml.workbook.definedNames?.definedName || []).map((d: any) => {
+            const localId = d['@_localSheetId'];
+            const value = this.getRichText(d);
+            return {
+                name: String(d['@_name'] || ''),
+                // Constant names are stored as quoted strings, e.g. "2324-11"
+                value: /^".*"$/.test(value) ? value.slice(1, -1).replace(/""/g, '"') : value,
+                sheet: localId !== undefined ? sheetDefs[Number(localId)]?.['@_name'] : undefined
+            };
+        });
+        const nameLookup = new Set<string>(definedNames.map((d: any) => d.name.toUpperCase()));
+
+        const sheets: XlOneWorkbook['sheets'] = [];
+        const cells: XlOneCell[] = [];
+
+        for (const sheetDef of sheetDefs) {
+            const sheetName = String(sheetDef['@_name'] || '');
+            const path = targets.get(sheetDef['@_r:id']) || `xl/worksheets/sheet${sheets.length + 1}.xml`;
+            const sheetXml = await readXml(path);
+            const rows: any[] = sheetXml?.worksheet?.sheetData?.row || [];
+
+            const sharedMasters = new Map<string, { ref: string, formula: string }>();
+            let cellCount = 0;
+            let formulaCount = 0;
+
+            rows.forEach(row => (row.c || []).forEach((c: any) => {
+                const ref = String(c['@_r'] || '');
+                const type = c['@_t'];
+                let value = this.getRichText(c.v);
+                if (type === 's') value = sharedStrings[Number(value)] ?? '';
+                else if (type === 'inlineStr') value = this.getRichText(c.is);
+                if (value !== '') cellCount++;
+
+                let formula: string | undefined;
+                let sharedFrom: string | undefined;
+                if (c.f !== undefined) {
+                    const f = c.f;
+                    const text = this.getRichText(f);
+                    const si = typeof f === 'object' ? f['@_si'] : undefined;
+                    if (typeof f === 'object' && f['@_t'] === 'shared' && si !== undefined) {
+                        if (text) {
+                            sharedMasters.set(si, { ref, formula: text });
+                            formula = text;
+                        } else {
+                            const master = sharedMasters.get(si);
+                            if (master) {
+                                formula = this.shiftFormula(master.formula, master.ref, ref);
+                                sharedFrom = master.ref;
+                            }
+                        }
+                    } else if (text) {
+                        formula = text;
+                    }
+                    if (formula) formulaCount++;
+                }
+
+                const functions = formula ? this.extractFunctions(formula) : [];
+                const references = this.extractReferences(`${formula || ''}\n${value}`, formula, nameLookup);
+                if (formula || references.length > 0) {
+                    cells.push({ sheet: sheetName, ref, value, formula, sharedFrom, functions, references });
+                }
+            }));
+
+            sheets.push({ name: sheetName, cellCount, formulaCount });
+        }
+
+        return { fileName, sheets, definedNames, cells };
+    }
+
+    /** Text of a SpreadsheetML node: plain, <t>, or rich text runs <r><t>. */
+    private static getRichText(node: any): string {
+        if (node === undefined || node === null) return '';
+        if (typeof node !== 'object') return String(node);
+        if (Array.isArray(node)) return node.map(n => this.getRichText(n)).join('');
+        if (node['#text'] !== undefined) return String(node['#text']);
+        if (node.t !== undefined) return this.getRichText(node.t);
+        if (node.r !== undefined) return this.getRichText(node.r);
+        return '';
+    }
+
+    private static columnToNumber(col: string): number {
+        return col.split('').reduce((n, ch) => n * 26 + (ch.charCodeAt(0) - 64), 0);
+    }
+
+    private static numberToColumn(n: number): string {
+        let col = '';
+        while (n > 0) {
+            const rem = (n - 1) % 26;
+            col = String.fromCharCode(65 + rem) + col;
+            n = Math.floor((n - 1) / 26);
+        }
+        return col;
+    }
+
+    /**
+     * Shared formulas are stored once on the master cell. Re-base the relative
+     * A1 references for a dependent cell (absolute $ parts stay put).
+     */
+    static shiftFormula(formula: string, fromRef: string, toRef: string): string {
+        const from = /^([A-Z]+)(\d+)$/.exec(fromRef);
+        const to = /^([A-Z]+)(\d+)$/.exec(toRef);
+        if (!from || !to) return formula;
+        const colDelta = this.columnToNumber(to[1]) - this.columnToNumber(from[1]);
+        const rowDelta = Number(to[2]) - Number(from[2]);
+
+        // Split on string literals so quoted text is never rewritten
+        return formula.split(/("(?:[^"]|"")*")/).map(part => {
+            if (part.startsWith('"')) return part;
+            return part.replace(/(\$?)\b([A-Z]{1,3})(\$?)(\d+)\b(?!\s*\()/g, (_m, colAbs, col, rowAbs, row) => {
+                const newCol = colAbs ? col : this.numberToColumn(this.columnToNumber(col) + colDelta);
+                const newRow = rowAbs ? row : String(Number(row) + rowDelta);
+                return `${colAbs}${newCol}${rowAbs}${newRow}`;
+            });
+        }).join('');
+    }
+
+    /** Every function call in a formula, flagging XLOne/T1 add-in functions. */
+    static extractFunctions(formula: string): { name: string, isT1: boolean }[] {
+        const unquoted = formula.replace(/"(?:[^"]|"")*"/g, '""');
+        const found = new Map<string, { name: string, isT1: boolean }>();
+        const regex = /(_xll\.)?([A-Za-z_][A-Za-z0-9_.]*)\s*\(/g;
+        let match;
+        while ((match = regex.exec(unquoted)) !== null) {
+            const name = `${match[1] || ''}${match[2]}`;
+            if (!found.has(name.toUpperCase())) found.set(name.toUpperCase(), { name, isT1: T1_FUNCTION.test(name) });
+        }
+        return Array.from(found.values());
+    }
+
+    /** Variables, data-model columns/fields, datasources and defined names mentioned in a cell. */
+    static extractReferences(text: string, formula: string | undefined, definedNames: Set<string>): XlOneCellReference[] {
+        const refs: XlOneCellReference[] = [];
+        const seen = new Set<string>();
+        const add = (kind: XlOneReferenceKind, name: string) => {
+            const key = `${kind}:${name}`;
+            if (!name || seen.has(key)) return;
+            seen.add(key);
+            refs.push({ kind, name });
+        };
+
+        // {&VAR}, {&VAR.DESCR}, {&ColumnDefn1.Field}
+        for (const m of text.matchAll(/\{&([^}]+)\}/g)) {
+            const inner = m[1].trim();
+            const column = /^ColumnDefn\d*\.(.+)$/i.exec(inner);
+            if (column) add('column', column[1]);
+            else add('variable', inner);
+        }
+
+        // {Field} used in XLOne criteria expressions
+        for (const m of text.matchAll(/\{([A-Za-z_][A-Za-z0-9_]*)\}/g)) {
+            add('field', m[1]);
+        }
+
+        // "Period Balances (Financial System Administration) (7e5d697e-...)"
+        text.split('\n').forEach(line => {
+            const ds = GUID_SUFFIX.exec(line.trim());
+            if (ds && ds[1]) add('datasource', `${ds[1]} (${ds[2]})`);
+        });
+
+        if (formula && definedNames.size > 0) {
+            const unquoted = formula.replace(/"(?:[^"]|"")*"/g, '""');
+            for (const m of unquoted.matchAll(/[A-Za-z_\\][A-Za-z0-9_.]*/g)) {
+                const isCall = /^\s*\(/.test(unquoted.substring(m.index! + m[0].length));
+                if (!isCall && definedNames.has(m[0].toUpperCase())) add('definedName', m[0]);
+            }
+        }
+
+        return refs;
+    }
+
+    /** Distinct references across the workbook, for summaries. */
+    static summariseWorkbook(workbook: XlOneWorkbook | undefined) {
+        const summary = {
+            datasources: new Set<string>(),
+            variables: new Set<string>(),
+            columns: new Set<string>(),
+            fields: new Set<string>(),
+            t1Functions: new Set<string>(),
+            functions: new Set<string>()
+        };
+        (workbook?.cells || []).forEach(cell => {
+            cell.functions.forEach(f => (f.isT1 ? summary.t1Functions : summary.functions).add(f.name));
+            cell.references.forEach(r => {
+                if (r.kind === 'datasource') summary.datasources.add(r.name);
+                else if (r.kind === 'variable') summary.variables.add(r.name);
+                else if (r.kind === 'column') summary.columns.add(r.name);
+                else if (r.kind === 'field') summary.fields.add(r.name);
+            });
+        });
+        return summary;
+    }
+
+    /**
+     * DbReportDef marks unused properties as <Field IsAssigned="false" />.
+     * Returns the text value of an assigned property, or '' when unassigned.
+     */
+    static getAssigned(val: any): string {
+        if (val === undefined || val === null) return '';
+        if (typeof val === 'object') {
+            if (val['@_IsAssigned'] === 'false') return '';
+            if (val['#text'] !== undefined) return String(val['#text']);
+            return '';
+        }
+        return String(val).trim();
+    }
+
+    /**
+     * Collections in DbReportDef (<Columns>, <Variables>, ...) wrap a single
+     * repeated child element whose name varies by version. Returns its items.
+     */
+    static getChildList(obj: any): any[] {
+        if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return [];
+        const key = Object.keys(obj).find(k => !k.startsWith('@_') && k !== '#text');
+        if (!key) return [];
+        const val = obj[key];
+        return Array.isArray(val) ? val : [val];
+    }
+
+    static getHeader(content: any): any {
+        return content?.Report?.MyXLOneHeader || {};
+    }
+
+    static getDefinition(content: any): XlOneDefinition {
+        const header = this.getHeader(content);
+        const def = header.Definition?.DbReportDef || {};
+
+        const describeItem = (item: any): string => {
+            if (typeof item !== 'object') return this.getAssigned(item);
+            const name = this.getAssigned(item.Name || item.FieldName || item.ColumnName || item.ColumnId);
+            const value = this.getAssigned(item.Value || item.DefaultValue);
+            return value ? `${name} = ${value}` : name;
+        };
+
+        const columns: XlOneColumn[] = this.getChildList(def.Columns).map((c: any) => {
+            if (typeof c !== 'object') return { name: this.getAssigned(c), heading: '', format: '' };
+            return {
+                name: this.getAssigned(c.ColumnName || c.Name || c.FieldName || c.ColumnId),
+                heading: this.getAssigned(c.Heading || c.Description || c.Label || c.Title),
+                format: this.getAssigned(c.Format || c.FormatType || c.DataType)
+            };
+        }).filter(c => c.name || c.heading);
+
+        const groupByFields = [def.GroupByField1, def.GroupByField2, def.GroupByField3]
+            .map(g => this.getAssigned(g))
+            .filter(Boolean);
+
+        const sortFields = [1, 2, 3].map(i => {
+            const field = this.getAssigned(def[`DefaultSortField${i}`]);
+            if (!field) return '';
+            const order = this.getAssigned(def[`DefaultSortOrder${i}`]);
+            return order ? `${field} (${order})` : field;
+        }).filter(Boolean);
+
+        // Every property that carries a real value, for the technical view
+        const assignedProperties = Object.keys(def)
+            .filter(k => !k.startsWith('@_'))
+            .map(k => ({ name: k, value: this.getAssigned(def[k]) }))
+            .filter(p => p.value !== '');
+
+        return {
+            defKey: this.getAssigned(def.DefKey),
+            reportSuite: this.getAssigned(def.ReportSuite),
+            layoutType: this.getAssigned(def.LayoutType),
+            datasource: this.getAssigned(def.Datasource) || this.getAssigned(header.Datasource),
+            datasourceParameters: this.getChildList(def.DatasourceParameters).map(describeItem).filter(Boolean),
+            criteria: EtlParser.extractCriteria({ Criteria: def.Criteria }),
+            crosstabCriteria: EtlParser.extractCriteria({ Criteria: def.CrosstabCriteria }),
+            allowRuntimeCriteria: this.getAssigned(def.AllowRuntimeCriteria) === 'true',
+            columns,
+            variables: this.getChildList(def.Variables).map(describeItem).filter(Boolean),
+            groupByFields,
+            runtimeGroupingFields: this.getChildList(def.RuntimeGroupingFields).map(describeItem).filter(Boolean),
+            sortFields,
+            assignedProperties
+        };
+    }
+}
@@ -0,0 +1,124 @@
+import type { LogicRule } from '../EtlParser';
+import { ExpressionParser, type ExpressionNode } from './ExpressionParser';
+import { ExpressionTokenizer } from './ExpressionTokenizer';
+
+/** Names an expression refers to, by how they are written. */
+export interface ExpressionReferences {
+    /** `{&VAR}` substitutions, without any `.DESCR` style property; includes those inside string literals. */
+    variables: Set<string>;
+    /** `[Column]` references. */
+    columns: Set<string>;
+    /** Bare names that are not function names or keywords. */
+    names: Set<string>;
+}
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', 'LIKE', 'IN', 'BETWEEN', 'IS', 'NULL', 'TRUE', 'FALSE', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END']);
+
+/** Readers over the expression AST shared by the formatter, logic tables and usage analysis. */
+export class ExpressionAst {
+
+    static children(node: ExpressionNode): ExpressionNode[] {
+        switch (node.kind) {
+            case 'call': return node.args;
+            case 'iif': return [node.condition, node.whenTrue, node.whenFalse];
+            case 'case': return [
+                ...(node.subject ? [node.subject] : []),
+                ...node.branches.flatMap(b => [b.when, b.then]),
+                ...(node.otherwise ? [node.otherwise] : [])
+            ];
+            case 'unary': return [node.operand];
+            case 'binary': return [node.left, node.right];
+            case 'between': return [node.operand, node.low, node.high];
+            case 'in': return [node.operand, ...node.items];
+            case 'group': return [node.expression];
+            default: return [];
+        }
+    }
+
+    /** Visits every node, parents before children. */
+    static walk(node: ExpressionNode, visit: (node: ExpressionNode) => void) {
+        visit(node);
+        this.children(node).forEach(child => this.walk(child, visit));
+    }
+
+    static unwrap(node: ExpressionNode): ExpressionNode {
+        return node.kind === 'group' ? this.unwrap(node.expression) : node;
+    }
+
+    /**
+     * Flattens an IIF chain, a CASE expression or a T1 `Case(subject, value, result, .., default)` call
+     * into logic rules. Returns null for any other expression, or when the text does not parse.
+     */
+    static logicRules(text: string, elseLabel: string): LogicRule[] | null {
+        const root = ExpressionParser.tryParse(text);
+        if (!root) return null;
+        const node = this.unwrap(root);
+        const src = (n: ExpressionNode) => ExpressionParser.source(n, text);
+        const rules: LogicRule[] = [];
+
+        if (node.kind === 'iif') {
+            let current: ExpressionNode = node;
+            while (current.kind === 'iif') {
+                rules.push({ outcome: src(current.whenTrue), condition: src(current.condition) });
+                current = this.unwrap(current.whenFalse);
+            }
+            rules.push({ outcome: src(current), condition: elseLabel });
+            return rules;
+        }
+
+        if (node.kind === 'case') {
+            node.branches.forEach(b => rules.push({
+                outcome: src(b.then),
+                condition: node.subject ? `${src(node.subject)} = ${src(b.when)}` : src(b.when)
+            }));
+            if (node.otherwise) rules.push({ outcome: src(node.otherwise), condition: elseLabel });
+            return rules;
+        }
+
+        if (node.kind === 'call' && node.name.toUpperCase() === 'CASE' && node.args.length >= 3) {
+            const [subject, ...rest] = node.args as [ExpressionNode, ...ExpressionNode[]];
+            for (let i = 0; i + 1 < rest.length; i += 2) {
+                rules.push({ outcome: src(rest[i + 1]!), condition: `${src(subject)} = ${src(rest[i]!)}` });
+            }
+            if (rest.length % 2 === 1) rules.push({ outcome: src(rest[rest.length - 1]!), condition: elseLabel });
+            return rules;
+        }
+
+        return null;
+    }
+
+    /**
+     * The variables, columns and names a text refers to. Texts that are not expressions
+     * (SQL, email subjects, file names) are read token by token instead.
+     */
+    static references(text: string): ExpressionReferences {
+        const refs: ExpressionReferences = { variables: new Set(), columns: new Set(), names: new Set() };
+        const substitutions = (value: string) => ExpressionTokenizer.tokenize(value)
+            .filter(t => t.type === 'variable')
+            .forEach(t => refs.variables.add(t.value.split('.')[0]!));
+
+        const root = ExpressionParser.tryParse(text);
+        if (root) {
+            this.walk(root, node => {
+                if (node.kind === 'variable') refs.variables.add(node.name);
+                else if (node.kind === 'column') refs.columns.add(node.name);
+                else if (node.kind === 'identifier') refs.names.add(node.name);
+                else if (node.kind === 'literal' && node.type === 'string') substitutions(node.value);
+            });
+            return refs;
+        }
+
+        ExpressionTokenizer.tokenize(text).forEach(token => {
+            if (token.type === 'variable') refs.variables.add(token.value.split('.')[0]!);
+            else if (token.type === 'column') refs.columns.add(token.value);
+            else if (token.type === 'identifier' && !KEYWORDS.has(token.value.toUpperCase())) refs.names.add(token.value);
+            else if (token.type === 'string') substitutions(token.value);
+        });
+        return refs;
+    }
+
+    /** Whether a text refers to `name` as a variable, column or bare name (whole names only). */
+    static mentions(refs: ExpressionReferences, name: string): boolean {
+        return refs.variables.has(name) || refs.columns.has(name) || refs.names.has(name);
+    }
+}
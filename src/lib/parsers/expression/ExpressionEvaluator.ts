@@ -0,0 +1,335 @@
+import { ExpressionParser, type ExpressionNode } from './ExpressionParser';
+
+export type ExpressionValue = string | number | boolean | Date | null;
+
+/** Where an evaluation reads its names from. Returning undefined means "not known here". */
+export interface EvaluationScope {
+    column: (name: string) => ExpressionValue | undefined;
+    variable: (name: string) => ExpressionValue | undefined;
+    /** Aggregates such as `Count()` or `Sum([AMT])` over the scope's table, when it has one. */
+    aggregate?: (name: string, args: ExpressionNode[]) => ExpressionValue | undefined;
+}
+
+const AGGREGATES = new Set(['COUNT', 'SUM', 'AVG', 'AVERAGE', 'MIN', 'MAX']);
+const DAY = 24 * 60 * 60 * 1000;
+
+// 2024-03-01 or 2024-03, optionally with a time of day; no zone, so it is a wall-clock time
+const ISO_DATE = /^(\d{4})-(\d{2})(?:-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?)?$/;
+const ZONED = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Evaluates T1 expressions over plain values, for the dry-run simulator. Text
+ * that reads as a number is treated as one, so values loaded from CSV samples
+ * add and compare numerically. Unknown names and functions throw an Error.
+ *
+ * Dates are wall-clock dates and times held in the UTC fields of a `Date`, so
+ * `#2024-03-01#`, `Today()` and `Day()` give the same calendar day whatever the
+ * browser's time zone.
+ */
+export class ExpressionEvaluator {
+
+    static evaluate(text: string, scope: EvaluationScope): ExpressionValue {
+        return this.evaluateNode(ExpressionParser.parse(text), scope);
+    }
+
+    static evaluateNode(node: ExpressionNode, scope: EvaluationScope): ExpressionValue {
+        const value = (n: ExpressionNode) => this.evaluateNode(n, scope);
+
+        switch (node.kind) {
+            case 'literal':
+                switch (node.type) {
+                    case 'number': return Number(node.value);
+                    case 'date': return this.toDate(node.value);
+                    case 'boolean': return node.value === 'TRUE';
+                    case 'null': return null;
+                    // {&VAR} inside quotes is substituted before T1 evaluates the text
+                    default: return node.value.replace(/\{&([^}.]+)(?:\.[^}]*)?\}/g, (_m, name: string) => {
+                        const v = scope.variable(name);
+                        if (v === undefined) throw new Error(`Variable ${name} is not set`);
+                        return this.toText(v);
+                    });
+                }
+            case 'column': {
+                const v = scope.column(node.name);
+                if (v === undefined) throw new Error(`No column [${node.name}]`);
+                return v;
+            }
+            case 'variable': {
+                const v = scope.variable(node.name);
+                if (v === undefined) throw new Error(`Variable ${node.name} is not set`);
+                return v;
+            }
+            case 'identifier': {
+                const v = scope.variable(node.name) ?? scope.column(node.name);
+                if (v === undefined) throw new Error(`Unknown name "${node.name}"`);
+                return v;
+            }
+            case 'group':
+                return value(node.expression);
+            case 'iif':
+                return this.truthy(value(node.condition)) ? value(node.whenTrue) : value(node.whenFalse);
+            case 'case': {
+                const subject = node.subject ? value(node.subject) : undefined;
+                const match = node.branches.find(b => subject === undefined
+                    ? this.truthy(value(b.when))
+                    : this.compare(subject, value(b.when)) === 0);
+                if (match) return value(match.then);
+                return node.otherwise ? value(node.otherwise) : null;
+            }
+            case 'unary': {
+                const v = value(node.operand);
+                if (node.operator === 'NOT') return !this.truthy(v);
+                const n = this.toNumber(v);
+                return node.operator === '-' ? -n : n;
+            }
+            case 'between': {
+                const v = value(node.operand);
+                const inside = this.compare(v, value(node.low)) >= 0 && this.compare(v, value(node.high)) <= 0;
+                return node.negated ? !inside : inside;
+            }
+            case 'in': {
+                const v = value(node.operand);
+                const found = node.items.some(item => this.compare(v, value(item)) === 0);
+                return node.negated ? !found : found;
+            }
+            case 'binary':
+                return this.binary(node.operator, node.left, node.right, scope);
+            case 'call':
+                return this.call(node.name.toUpperCase(), node.args, scope);
+        }
+    }
+
+    /** T1 truthiness: true, non-zero numbers and "TRUE"/"Y"/"1" style text. */
+    static truthy(value: ExpressionValue): boolean {
+        if (value === null) return false;
+        if (typeof value === 'boolean') return value;
+        if (typeof value === 'number') return value !== 0;
+        if (value instanceof Date) return true;
+        return ['TRUE', 'T', 'Y', 'YES', '1'].includes(value.trim().toUpperCase());
+    }
+
+    /** Orders two values: numerically when both read as numbers, by date when either is a date, else as text. */
+    static compare(a: ExpressionValue, b: ExpressionValue): number {
+        if (a === null || b === null) return a === b ? 0 : a === null ? -1 : 1;
+        if (a instanceof Date || b instanceof Date) {
+            const x = this.toDate(a)?.getTime() ?? NaN;
+            const y = this.toDate(b)?.getTime() ?? NaN;
+            if (!isNaN(x) && !isNaN(y)) return Math.sign(x - y);
+        }
+        if (this.isNumeric(a) && this.isNumeric(b)) return Math.sign(this.toNumber(a) - this.toNumber(b));
+        const x = this.toText(a);
+        const y = this.toText(b);
+        return x === y ? 0 : x < y ? -1 : 1;
+    }
+
+    static toText(value: ExpressionValue): string {
+        if (value === null) return '';
+        if (value instanceof Date) return value.toISOString().slice(0, 10);
+        if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+        return String(value);
+    }
+
+    static toNumber(value: ExpressionValue): number {
+        if (value === null) return 0;
+        if (typeof value === 'number') return value;
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        if (value instanceof Date) return value.getTime();
+        const n = Number(value.trim());
+        if (value.trim() === '' || isNaN(n)) throw new Error(`"${value}" is not a number`);
+        return n;
+    }
+
+    private static isNumeric(value: ExpressionValue): boolean {
+        if (typeof value === 'number' || typeof value === 'boolean') return true;
+        return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value.trim()));
+    }
+
+    private static toDate(value: ExpressionValue): Date | null {
+        if (value instanceof Date) return value;
+        if (value === null || typeof value === 'boolean') return null;
+        if (typeof value === 'number') return new Date(value);
+
+        const text = value.trim();
+        const iso = ISO_DATE.exec(text);
+        if (iso) {
+            const [, y, mo, d, h, mi, sec, ms] = iso.map(Number);
+            return new Date(Date.UTC(y!, mo! - 1, d || 1, h || 0, mi || 0, sec || 0, ms || 0));
+        }
+        const date = new Date(text);
+        if (isNaN(date.getTime())) return null;
+        // Other formats parse in the local zone unless they name one; keep their wall-clock fields
+        return ZONED.test(text) ? date : this.wallClock(date);
+    }
+
+    /** The local date and time of an instant, held in UTC fields. */
+    private static wallClock(instant: Date): Date {
+        return new Date(Date.UTC(instant.getFullYear(), instant.getMonth(), instant.getDate(),
+            instant.getHours(), instant.getMinutes(), instant.getSeconds(), instant.getMilliseconds()));
+    }
+
+    private static binary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, scope: EvaluationScope): ExpressionValue {
+        // AND/OR short-circuit so a guard can protect the other side
+        if (operator === 'AND') return this.truthy(this.evaluateNode(leftNode, scope)) && this.truthy(this.evaluateNode(rightNode, scope));
+        if (operator === 'OR') return this.truthy(this.evaluateNode(leftNode, scope)) || this.truthy(this.evaluateNode(rightNode, scope));
+
+        const left = this.evaluateNode(leftNode, scope);
+        const right = this.evaluateNode(rightNode, scope);
+
+        switch (operator) {
+            case '=': return this.compare(left, right) === 0;
+            case '<>': return this.compare(left, right) !== 0;
+            case '<': return this.compare(left, right) < 0;
+            case '>': return this.compare(left, right) > 0;
+            case '<=': return this.compare(left, right) <= 0;
+            case '>=': return this.compare(left, right) >= 0;
+            case 'IS': return left === null || left === '';
+            case 'IS NOT': return !(left === null || left === '');
+            case 'LIKE': return this.like(this.toText(left), this.toText(right));
+            case 'NOT LIKE': return !this.like(this.toText(left), this.toText(right));
+            case '&':
+            case '||':
+                return this.toText(left) + this.toText(right);
+            case '+':
+                if (left instanceof Date && this.isNumeric(right)) return new Date(left.getTime() + this.toNumber(right) * DAY);
+                if (this.isNumeric(left) && this.isNumeric(right)) return this.toNumber(left) + this.toNumber(right);
+                return this.toText(left) + this.toText(right);
+            case '-':
+                if (left instanceof Date && right instanceof Date) return Math.round((left.getTime() - right.getTime()) / DAY);
+                if (left instanceof Date) return new Date(left.getTime() - this.toNumber(right) * DAY);
+                return this.toNumber(left) - this.toNumber(right);
+            case '*': return this.toNumber(left) * this.toNumber(right);
+            case '/': {
+                const divisor = this.toNumber(right);
+                if (divisor === 0) throw new Error('Division by zero');
+                return this.toNumber(left) / divisor;
+            }
+            case '%': return this.toNumber(left) % this.toNumber(right);
+            case '^': return Math.pow(this.toNumber(left), this.toNumber(right));
+            default: throw new Error(`Unsupported operator ${operator}`);
+        }
+    }
+
+    /** SQL-style LIKE: `%` or `*` for any run of characters, `_` or `?` for one. */
+    private static like(text: string, pattern: string): boolean {
+        const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/[%*]/g, '.*').replace(/[_?]/g, '.');
+        return new RegExp(`^${source}$`, 'is').test(text);
+    }
+
+    private static call(name: string, argNodes: ExpressionNode[], scope: EvaluationScope): ExpressionValue {
+        if (AGGREGATES.has(name) && argNodes.length <= 1 && scope.aggregate) {
+            const result = scope.aggregate(name, argNodes);
+            if (result !== undefined) return result;
+        }
+
+        const args = argNodes.map(a => this.evaluateNode(a, scope));
+        const text = (i: number) => this.toText(args[i] ?? null);
+        const num = (i: number) => this.toNumber(args[i] ?? null);
+        const date = (i: number) => {
+            const d = this.toDate(args[i] ?? null);
+            if (!d) throw new Error(`"${text(i)}" is not a date`);
+            return d;
+        };
+
+        switch (name) {
+            case 'LEFT': return text(0).substring(0, num(1));
+            case 'RIGHT': return num(1) <= 0 ? '' : text(0).slice(-num(1));
+            case 'MID':
+            case 'SUBSTRING':
+            case 'SUBSTR':
+                return args.length > 2 ? text(0).substr(num(1) - 1, num(2)) : text(0).substring(num(1) - 1);
+            case 'LEN':
+            case 'LENGTH':
+                return text(0).length;
+            case 'UPPER':
+            case 'UCASE':
+                return text(0).toUpperCase();
+            case 'LOWER':
+            case 'LCASE':
+                return text(0).toLowerCase();
+            case 'TRIM': return text(0).trim();
+            case 'LTRIM': return text(0).trimStart();
+            case 'RTRIM': return text(0).trimEnd();
+            case 'REPLACE': return text(0).split(text(1)).join(text(2));
+            case 'CONCAT': return args.map(a => this.toText(a)).join('');
+            case 'INSTR':
+            case 'INDEXOF':
+                return text(0).indexOf(text(1)) + 1;
+            case 'CONTAINS': return text(0).includes(text(1));
+            case 'STARTSWITH': return text(0).startsWith(text(1));
+            case 'ENDSWITH': return text(0).endsWith(text(1));
+            case 'PADLEFT': return text(0).padStart(num(1), args.length > 2 ? text(2) : ' ');
+            case 'PADRIGHT': return text(0).padEnd(num(1), args.length > 2 ? text(2) : ' ');
+            case 'ABS': return Math.abs(num(0));
+            case 'ROUND': {
+                const factor = Math.pow(10, args.length > 1 ? num(1) : 0);
+                return Math.round(num(0) * factor) / factor;
+            }
+            case 'FLOOR': return Math.floor(num(0));
+            case 'CEILING':
+            case 'CEIL':
+                return Math.ceil(num(0));
+            case 'INT':
+            case 'TRUNC':
+            case 'TRUNCATE':
+                return Math.trunc(num(0));
+            case 'MOD': return num(0) % num(1);
+            case 'POWER': return Math.pow(num(0), num(1));
+            case 'SQRT': return Math.sqrt(num(0));
+            case 'MIN':
+            case 'MAX': {
+                if (args.length === 0) throw new Error(`${name} needs a value`);
+                const sorted = [...args].sort((a, b) => this.compare(a, b));
+                return name === 'MIN' ? sorted[0]! : sorted[sorted.length - 1]!;
+            }
+            case 'ISNULL':
+            case 'NVL':
+            case 'IFNULL':
+            case 'COALESCE':
+                return args.find(a => a !== null && a !== '') ?? null;
+            case 'ISBLANK':
+            case 'ISEMPTY':
+                return args[0] === null || text(0).trim() === '';
+            case 'TOSTRING':
+            case 'STR':
+            case 'CSTR':
+            case 'TEXT':
+                return text(0);
+            case 'TONUMBER':
+            case 'VAL':
+            case 'CDBL':
+            case 'NUMBER':
+                return num(0);
+            case 'CINT':
+            case 'TOINTEGER':
+                return Math.round(num(0));
+            case 'TODATE':
+            case 'CDATE':
+                return date(0);
+            case 'NOW': return this.wallClock(new Date());
+            case 'TODAY':
+            case 'DATE': {
+                if (args.length > 0) return date(0);
+                const now = new Date();
+                return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+            }
+            case 'YEAR': return date(0).getUTCFullYear();
+            case 'MONTH': return date(0).getUTCMonth() + 1;
+            case 'DAY': return date(0).getUTCDate();
+            case 'ADDDAYS': return new Date(date(0).getTime() + num(1) * DAY);
+            case 'ADDMONTHS': {
+                const d = new Date(date(0));
+                d.setUTCMonth(d.getUTCMonth() + num(1));
+                return d;
+            }
+            case 'CASE': {
+                // T1 Case(subject, value, result, .., default)
+                for (let i = 1; i + 1 < args.length; i += 2) {
+                    if (this.compare(args[0] ?? null, args[i] ?? null) === 0) return args[i + 1] ?? null;
+                }
+                return args.length % 2 === 0 ? args[args.length - 1] ?? null : null;
+            }
+            default:
+                throw new Error(`Unsupported function ${name}()`);
+        }
+    }
+}
@@ -0,0 +1,305 @@
+import { ExpressionTokenizer, type ExpressionToken } from './ExpressionTokenizer';
+
+/** Offsets of a node in the source text, `end` exclusive. */
+export interface ExpressionSpan { start: number; end: number; }
+
+export interface LiteralNode extends ExpressionSpan { kind: 'literal'; type: 'string' | 'number' | 'date' | 'boolean' | 'null'; value: string; }
+export interface ColumnNode extends ExpressionSpan { kind: 'column'; name: string; }
+/** `{&VAR}` or `{&VAR.DESCR}`; the part after the first dot is the `property`. */
+export interface VariableNode extends ExpressionSpan { kind: 'variable'; name: string; property: string; }
+/** A bare name, such as a variable referenced without `{& }`. */
+export interface IdentifierNode extends ExpressionSpan { kind: 'identifier'; name: string; }
+export interface CallNode extends ExpressionSpan { kind: 'call'; name: string; args: ExpressionNode[]; }
+export interface IifNode extends ExpressionSpan { kind: 'iif'; condition: ExpressionNode; whenTrue: ExpressionNode; whenFalse: ExpressionNode; }
+/** `CASE [subject] WHEN .. THEN .. [ELSE ..] END`. The T1 `Case(subject, value, result, ..)` function stays a CallNode. */
+export interface CaseNode extends ExpressionSpan { kind: 'case'; subject: ExpressionNode | null; branches: { when: ExpressionNode, then: ExpressionNode }[]; otherwise: ExpressionNode | null; }
+export interface UnaryNode extends ExpressionSpan { kind: 'unary'; operator: string; operand: ExpressionNode; }
+export interface BinaryNode extends ExpressionSpan { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; }
+export interface BetweenNode extends ExpressionSpan { kind: 'between'; operand: ExpressionNode; low: ExpressionNode; high: ExpressionNode; negated: boolean; }
+export interface InNode extends ExpressionSpan { kind: 'in'; operand: ExpressionNode; items: ExpressionNode[]; negated: boolean; }
+export interface GroupNode extends ExpressionSpan { kind: 'group'; expression: ExpressionNode; }
+
+export type ExpressionNode =
+    | LiteralNode | ColumnNode | VariableNode | IdentifierNode | CallNode | IifNode | CaseNode
+    | UnaryNode | BinaryNode | BetweenNode | InNode | GroupNode;
+
+const COMPARISON = ['=', '<>', '!=', '<', '>', '<=', '>='];
+const ADDITIVE = ['+', '-', '&', '||'];
+const MULTIPLICATIVE = ['*', '/', '%'];
+
+/**
+ * Recursive-descent parser for T1 expressions. Precedence, lowest first:
+ * OR, AND, NOT, comparisons (including LIKE, IN, BETWEEN, IS NULL), + - &, * / %, ^, unary minus.
+ */
+export class ExpressionParser {
+    private tokens: ExpressionToken[];
+    private pos = 0;
+    private text: string;
+
+    private constructor(text: string) {
+        this.text = text;
+        this.tokens = ExpressionTokenizer.tokenize(text);
+    }
+
+    /** Parses a whole expression. Throws an Error naming the offset of the first syntax error. */
+    static parse(text: string): ExpressionNode {
+        const parser = new ExpressionParser(text ?? '');
+        if (parser.tokens.length === 0) throw new Error('Empty expression');
+        const node = parser.expression();
+        if (parser.peek()) parser.fail(`Unexpected "${parser.peek()!.value}"`);
+        return node;
+    }
+
+    /** Like `parse`, but returns null for anything that is not a valid expression. */
+    static tryParse(text: string): ExpressionNode | null {
+        try {
+            return this.parse(text);
+        } catch {
+            return null;
+        }
+    }
+
+    /** The source text a node was parsed from. */
+    static source(node: ExpressionNode, text: string): string {
+        return text.substring(node.start, node.end).trim();
+    }
+
+    // --- Token helpers ---
+
+    private peek(offset = 0): ExpressionToken | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    private next(): ExpressionToken {
+        const token = this.tokens[this.pos++];
+        if (!token) this.fail('Unexpected end of expression');
+        return token;
+    }
+
+    private isKeyword(word: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token?.type === 'identifier' && token.value.toUpperCase() === word;
+    }
+
+    private isOperator(ops: string[]): boolean {
+        const token = this.peek();
+        return token?.type === 'operator' && ops.includes(token.value);
+    }
+
+    private expect(type: ExpressionToken['type'], label: string): ExpressionToken {
+        const token = this.peek();
+        if (token?.type !== type) this.fail(`Expected ${label}`);
+        return this.next();
+    }
+
+    private expectKeyword(word: string): ExpressionToken {
+        if (!this.isKeyword(word)) this.fail(`Expected ${word}`);
+        return this.next();
+    }
+
+    private fail(message: string): never {
+        const at = this.peek()?.start ?? this.text.length;
+        throw new Error(`${message} at ${at}`);
+    }
+
+    // --- Grammar ---
+
+    private expression(): ExpressionNode {
+        return this.or();
+    }
+
+    private or(): ExpressionNode {
+        let left = this.and();
+        while (this.isKeyword('OR')) {
+            this.next();
+            const right = this.and();
+            left = { kind: 'binary', operator: 'OR', left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private and(): ExpressionNode {
+        let left = this.not();
+        while (this.isKeyword('AND')) {
+            this.next();
+            const right = this.not();
+            left = { kind: 'binary', operator: 'AND', left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private not(): ExpressionNode {
+        if (this.isKeyword('NOT')) {
+            const token = this.next();
+            const operand = this.not();
+            return { kind: 'unary', operator: 'NOT', operand, start: token.start, end: operand.end };
+        }
+        return this.comparison();
+    }
+
+    private comparison(): ExpressionNode {
+        let left = this.additive();
+        while (true) {
+            if (this.isOperator(COMPARISON)) {
+                const op = this.next().value;
+                const right = this.additive();
+                left = { kind: 'binary', operator: op === '!=' ? '<>' : op, left, right, start: left.start, end: right.end };
+                continue;
+            }
+
+            const negated = this.isKeyword('NOT') && (this.isKeyword('LIKE', 1) || this.isKeyword('IN', 1) || this.isKeyword('BETWEEN', 1));
+            if (negated) this.next();
+
+            if (this.isKeyword('LIKE')) {
+                this.next();
+                const right = this.additive();
+                left = { kind: 'binary', operator: negated ? 'NOT LIKE' : 'LIKE', left, right, start: left.start, end: right.end };
+            } else if (this.isKeyword('BETWEEN')) {
+                this.next();
+                const low = this.additive();
+                this.expectKeyword('AND');
+                const high = this.additive();
+                left = { kind: 'between', operand: left, low, high, negated, start: left.start, end: high.end };
+            } else if (this.isKeyword('IN')) {
+                this.next();
+                this.expect('lparen', '(');
+                const items = this.list();
+                const close = this.expect('rparen', ')');
+                left = { kind: 'in', operand: left, items, negated, start: left.start, end: close.end };
+            } else if (this.isKeyword('IS')) {
+                this.next();
+                const not = this.isKeyword('NOT');
+                if (not) this.next();
+                const token = this.expectKeyword('NULL');
+                const right: ExpressionNode = { kind: 'literal', type: 'null', value: 'NULL', start: token.start, end: token.end };
+                left = { kind: 'binary', operator: not ? 'IS NOT' : 'IS', left, right, start: left.start, end: right.end };
+            } else {
+                return left;
+            }
+        }
+    }
+
+    private additive(): ExpressionNode {
+        let left = this.multiplicative();
+        while (this.isOperator(ADDITIVE)) {
+            const op = this.next().value;
+            const right = this.multiplicative();
+            left = { kind: 'binary', operator: op, left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private multiplicative(): ExpressionNode {
+        let left = this.power();
+        while (this.isOperator(MULTIPLICATIVE)) {
+            const op = this.next().value;
+            const right = this.power();
+            left = { kind: 'binary', operator: op, left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private power(): ExpressionNode {
+        const left = this.unary();
+        if (this.isOperator(['^'])) {
+            this.next();
+            const right = this.power();
+            return { kind: 'binary', operator: '^', left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private unary(): ExpressionNode {
+        if (this.isOperator(['-', '+'])) {
+            const token = this.next();
+            const operand = this.unary();
+            return { kind: 'unary', operator: token.value, operand, start: token.start, end: operand.end };
+        }
+        return this.primary();
+    }
+
+    private primary(): ExpressionNode {
+        const token = this.next();
+        const span = { start: token.start, end: token.end };
+
+        switch (token.type) {
+            case 'string':
+            case 'number':
+            case 'date':
+                return { kind: 'literal', type: token.type, value: token.value, ...span };
+            case 'column':
+                return { kind: 'column', name: token.value, ...span };
+            case 'variable': {
+                const dot = token.value.indexOf('.');
+                return dot < 0
+                    ? { kind: 'variable', name: token.value, property: '', ...span }
+                    : { kind: 'variable', name: token.value.substring(0, dot), property: token.value.substring(dot + 1), ...span };
+            }
+            case 'lparen': {
+                const expression = this.expression();
+                const close = this.expect('rparen', ')');
+                return { kind: 'group', expression, start: token.start, end: close.end };
+            }
+            case 'identifier':
+                return this.named(token);
+            default:
+                this.pos--;
+                return this.fail(`Unexpected "${token.value}"`);
+        }
+    }
+
+    private named(token: ExpressionToken): ExpressionNode {
+        const word = token.value.toUpperCase();
+        const span = { start: token.start, end: token.end };
+        const isCall = this.peek()?.type === 'lparen';
+
+        if (word === 'TRUE' || word === 'FALSE') return { kind: 'literal', type: 'boolean', value: word, ...span };
+        if (word === 'NULL') return { kind: 'literal', type: 'null', value: word, ...span };
+        if (word === 'CASE' && !isCall) return this.caseExpression(token);
+        if (!isCall) return { kind: 'identifier', name: token.value, ...span };
+
+        this.next();
+        const args = this.peek()?.type === 'rparen' ? [] : this.list();
+        const close = this.expect('rparen', ')');
+
+        if (word === 'IIF') {
+            if (args.length !== 3) {
+                throw new Error(`IIF needs 3 arguments but has ${args.length} at ${token.start}`);
+            }
+            const [condition, whenTrue, whenFalse] = args as [ExpressionNode, ExpressionNode, ExpressionNode];
+            return { kind: 'iif', condition, whenTrue, whenFalse, start: token.start, end: close.end };
+        }
+        return { kind: 'call', name: token.value, args, start: token.start, end: close.end };
+    }
+
+    private caseExpression(token: ExpressionToken): CaseNode {
+        const subject = this.isKeyword('WHEN') ? null : this.expression();
+        const branches: CaseNode['branches'] = [];
+        while (this.isKeyword('WHEN')) {
+            this.next();
+            const when = this.expression();
+            this.expectKeyword('THEN');
+            branches.push({ when, then: this.expression() });
+        }
+        if (branches.length === 0) this.fail('Expected WHEN');
+
+        let otherwise: ExpressionNode | null = null;
+        if (this.isKeyword('ELSE')) {
+            this.next();
+            otherwise = this.expression();
+        }
+        // Exports sometimes drop a trailing END; accept that at the end of the text only
+        const last = otherwise ?? branches[branches.length - 1]!.then;
+        const end = this.peek() ? this.expectKeyword('END').end : last.end;
+        return { kind: 'case', subject, branches, otherwise, start: token.start, end };
+    }
+
+    private list(): ExpressionNode[] {
+        const items = [this.expression()];
+        while (this.peek()?.type === 'comma') {
+            this.next();
+            items.push(this.expression());
+        }
+        return items;
+    }
+}
@@ -0,0 +1,118 @@
+export type ExpressionTokenType =
+    | 'string'      // 'text' or "text"; a doubled quote escapes itself
+    | 'date'        // #2025-06-30#
+    | 'number'
+    | 'column'      // [Column Name]
+    | 'variable'    // {&VAR} or {&VAR.DESCR}
+    | 'identifier'  // function names, keywords and bare names
+    | 'operator'
+    | 'lparen'
+    | 'rparen'
+    | 'comma'
+    | 'unknown';    // anything else, kept so the tokenizer never fails
+
+export interface ExpressionToken {
+    type: ExpressionTokenType;
+    /** The token's value: string contents without quotes, a column or variable name without its brackets, an upper-case operator. */
+    value: string;
+    /** Offsets into the source, `end` exclusive. */
+    start: number;
+    end: number;
+}
+
+const OPERATORS = ['<>', '!=', '<=', '>=', '||', '=', '<', '>', '+', '-', '*', '/', '%', '&', '^'];
+
+// Sticky, so each match starts at `lastIndex` without copying the rest of the text
+const DATE = /#([0-9][0-9\-/.: ]*[0-9])#/y;
+const NUMBER = /(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/y;
+const WORD = /[A-Za-z_][A-Za-z0-9_.]*/y;
+
+/**
+ * Splits a T1 expression into tokens. It is lenient so it can also read free text
+ * (email subjects, SQL, file names) for variable references: an unterminated quote
+ * or bracket becomes an `unknown` token and scanning carries on after it.
+ */
+export class ExpressionTokenizer {
+
+    static tokenize(text: string): ExpressionToken[] {
+        const tokens: ExpressionToken[] = [];
+        const src = text ?? '';
+        let i = 0;
+
+        const push = (type: ExpressionTokenType, value: string, start: number, end: number) => {
+            tokens.push({ type, value, start, end });
+            i = end;
+        };
+        const matchAt = (pattern: RegExp) => {
+            pattern.lastIndex = i;
+            return pattern.exec(src);
+        };
+
+        while (i < src.length) {
+            const ch = src[i];
+
+            if (/\s/.test(ch)) { i++; continue; }
+
+            if (ch === "'" || ch === '"') {
+                const end = this.closeQuote(src, i, ch);
+                if (end < 0) { push('unknown', ch, i, i + 1); continue; }
+                push('string', src.substring(i + 1, end - 1).split(ch + ch).join(ch), i, end);
+                continue;
+            }
+
+            if (ch === '[') {
+                const close = src.indexOf(']', i + 1);
+                if (close < 0) { push('unknown', ch, i, i + 1); continue; }
+                push('column', src.substring(i + 1, close).trim(), i, close + 1);
+                continue;
+            }
+
+            if (ch === '{' && src[i + 1] === '&') {
+                const close = src.indexOf('}', i + 2);
+                if (close < 0) { push('unknown', ch, i, i + 1); continue; }
+                push('variable', src.substring(i + 2, close).trim(), i, close + 1);
+                continue;
+            }
+
+            if (ch === '#') {
+                const match = matchAt(DATE);
+                if (match) { push('date', match[1], i, i + match[0].length); continue; }
+            }
+
+            const number = matchAt(NUMBER);
+            if (number) { push('number', number[0], i, i + number[0].length); continue; }
+
+            const word = matchAt(WORD);
+            if (word) {
+                // A trailing dot belongs to the text around the name, not the name
+                const name = word[0].replace(/\.+$/, '');
+                push('identifier', name, i, i + name.length);
+                continue;
+            }
+
+            if (ch === '(') { push('lparen', ch, i, i + 1); continue; }
+            if (ch === ')') { push('rparen', ch, i, i + 1); continue; }
+            if (ch === ',') { push('comma', ch, i, i + 1); continue; }
+
+            const op = OPERATORS.find(o => src.startsWith(o, i));
+            if (op) { push('operator', op, i, i + op.length); continue; }
+
+            push('unknown', ch, i, i + 1);
+        }
+
+        return tokens;
+    }
+
+    /** Offset just past the closing quote, or -1 when the quote is never closed. */
+    private static closeQuote(src: string, start: number, quote: string): number {
+        let i = start + 1;
+        while (i < src.length) {
+            if (src[i] === quote) {
+                if (src[i + 1] === quote) { i += 2; continue; }
+                return i + 1;
+            }
+            i++;
+        }
+        return -1;
+    }
+}
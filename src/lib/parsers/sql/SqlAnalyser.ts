@@ -0,0 +1,448 @@
+import type { EtlStep } from '../../model/EtlModel';
+import { SqlFormatter } from './SqlFormatter';
+import { SqlTokenizer, type SqlToken } from './SqlTokenizer';
+
+export type SqlStatementKind = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'MERGE' | 'DDL' | 'TRUNCATE' | 'OTHER';
+
+export interface SqlColumnRef {
+    /** Table as written without brackets, or '' when the name is not qualified and the statement reads several tables */
+    table: string;
+    column: string;
+}
+
+/** A column a statement writes and the columns its value reads. */
+export interface SqlAssignment {
+    table: string;
+    column: string;
+    reads: SqlColumnRef[];
+    /** The value as written, e.g. 'SUM(s.Amount)' */
+    expression: string;
+    /** Whether the value is a column copied as is */
+    plain: boolean;
+}
+
+export interface SqlStatement {
+    kind: SqlStatementKind;
+    /** The statement's leading words, e.g. 'DELETE FROM' or 'DROP TABLE' */
+    verb: string;
+    /** Tables read, as written without brackets, e.g. 'dbo.Sales' */
+    reads: string[];
+    /** Tables written, created, altered or dropped */
+    writes: string[];
+    /** Column names the statement refers to, without their table qualifiers */
+    columns: string[];
+    /** Columns written by SET lists and by INSERT or SELECT INTO lists */
+    assignments: SqlAssignment[];
+    /** Why the statement removes data or objects; '' when it does not */
+    warning: string;
+}
+
+export interface SqlAnalysis {
+    statements: SqlStatement[];
+    reads: string[];
+    writes: string[];
+    columns: string[];
+    assignments: SqlAssignment[];
+    /** The warnings of the destructive statements */
+    warnings: string[];
+    formatted: string;
+}
+
+const KINDS: Record<string, SqlStatementKind> = {
+    SELECT: 'SELECT', INSERT: 'INSERT', UPDATE: 'UPDATE', DELETE: 'DELETE', MERGE: 'MERGE',
+    TRUNCATE: 'TRUNCATE', CREATE: 'DDL', ALTER: 'DDL', DROP: 'DDL'
+};
+
+/** Keywords that begin a new statement even without a semicolon before them. */
+const STARTERS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'CREATE', 'ALTER', 'DROP', 'DECLARE', 'EXEC', 'EXECUTE']);
+
+/** Words before a starter keyword that make it part of the statement: MERGE actions, DDL cascades, trigger events. */
+const NOT_AFTER = new Set(['THEN', 'ON', 'AFTER', 'FOR', 'OF', 'INSTEAD', 'OR']);
+
+const DDL_OBJECTS = new Set(['TABLE', 'VIEW', 'INDEX', 'PROCEDURE', 'PROC', 'FUNCTION', 'TRIGGER', 'SCHEMA', 'DATABASE']);
+
+/** Type names and niladic functions that read like columns. */
+const NOT_COLUMNS = new Set([
+    'INT', 'INTEGER', 'BIGINT', 'SMALLINT', 'TINYINT', 'BIT', 'DECIMAL', 'NUMERIC', 'FLOAT', 'REAL', 'MONEY',
+    'DATE', 'DATETIME', 'DATETIME2', 'SMALLDATETIME', 'TIME', 'CHAR', 'VARCHAR', 'NCHAR', 'NVARCHAR', 'TEXT',
+    'NTEXT', 'UNIQUEIDENTIFIER', 'CURRENT_TIMESTAMP', 'CURRENT_DATE', 'SYSDATE', 'SOURCE', 'TARGET'
+]);
+
+/** Keywords that end a SELECT, SET or VALUES list. */
+const LIST_ENDS = new Set(['FROM', 'INTO', 'WHERE', 'WHEN', 'OUTPUT', 'GROUP', 'ORDER', 'HAVING', 'UNION', 'SELECT', 'VALUES']);
+
+/** Analyses kept by statement text, oldest first. */
+const analyses = new Map<string, SqlAnalysis>();
+const MAX_ANALYSES = 50;
+
+const LANGUAGES = /sql/i;
+const OTHER_LANGUAGES = /vb|c#|csharp|basic|jscript|javascript|powershell|python/i;
+
+/**
+ * Reads ExecuteSQL statements and SQL scripts: what kind of statement each is,
+ * which tables it reads and writes, the columns it names, and whether it
+ * deletes, truncates or drops. It works from tokens rather than a full parse,
+ * so unusual dialects degrade to fewer names rather than an error.
+ */
+export class SqlAnalyser {
+
+    /**
+     * The analysis of a statement, kept by its text: a step's hooks and the
+     * analyses each ask for the same SQL, so it is tokenised once. Callers share
+     * the result and must not change it.
+     */
+    static analyse(sql: string): SqlAnalysis {
+        const known = analyses.get(sql);
+        if (known) return known;
+        const analysis = this.read(sql);
+        if (analyses.size >= MAX_ANALYSES) analyses.delete(analyses.keys().next().value!);
+        analyses.set(sql, analysis);
+        return analysis;
+    }
+
+    /** The SQL an ExecuteSQL step or a SQL script runs, analysed; null for other steps or when there is no statement. */
+    static ofStep(step: EtlStep): SqlAnalysis | null {
+        const sql = step.type === 'ExecuteSQL' || step.type === 'RunSQL' ? step.sql
+            : (step.type === 'Script' || step.type === 'ExecuteScript') && this.isSql(step.script, step.language) ? step.script
+                : '';
+        const analysis = sql.trim() ? this.analyse(sql) : null;
+        return analysis && analysis.statements.length > 0 ? analysis : null;
+    }
+
+    /**
+     * Whether a Script step holds SQL: its language says so, or no other
+     * language is named and the text starts like a SQL statement.
+     */
+    static isSql(text: string, language = ''): boolean {
+        if (!text?.trim()) return false;
+        if (LANGUAGES.test(language)) return true;
+        if (OTHER_LANGUAGES.test(language)) return false;
+        const first = SqlTokenizer.tokenize(text).find(t => t.type !== 'comment');
+        return first?.type === 'keyword' && (first.value in KINDS || first.value === 'WITH');
+    }
+
+    /** One line naming what each statement does, e.g. "DELETE FROM Sales; INSERT INTO Sales". */
+    static describe(analysis: SqlAnalysis): string {
+        const labels = analysis.statements.map(s => {
+            if (s.kind === 'SELECT' && s.writes.length === 0) return s.reads.length > 0 ? `SELECT FROM ${s.reads.join(', ')}` : 'SELECT';
+            return s.writes.length > 0 ? `${s.verb} ${s.writes.join(', ')}` : s.verb;
+        });
+        const more = labels.length - 2;
+        return labels.slice(0, 2).join('; ') + (more > 0 ? ` (+${more} more)` : '');
+    }
+
+    private static read(sql: string): SqlAnalysis {
+        const tokens = SqlTokenizer.tokenize(sql).filter(t => t.type !== 'comment');
+        const statements = this.split(tokens).map(s => this.statement(s, sql));
+        const union = (pick: (s: SqlStatement) => string[]) => this.unique(statements.flatMap(pick));
+        return {
+            statements,
+            reads: union(s => s.reads),
+            writes: union(s => s.writes),
+            columns: union(s => s.columns),
+            assignments: statements.flatMap(s => s.assignments),
+            warnings: statements.map(s => s.warning).filter(w => w),
+            formatted: SqlFormatter.format(sql)
+        };
+    }
+
+    /** Splits on semicolons, GO and statement keywords at the top level. */
+    private static split(tokens: SqlToken[]): SqlToken[][] {
+        const statements: SqlToken[][] = [];
+        let current: SqlToken[] = [];
+        let depth = 0;
+        const end = () => {
+            if (current.length > 0) statements.push(current);
+            current = [];
+        };
+
+        tokens.forEach(t => {
+            if (t.type === 'lparen') depth++;
+            if (t.type === 'rparen') depth = Math.max(0, depth - 1);
+            if (depth === 0 && (t.type === 'semicolon' || (t.type === 'keyword' && t.value === 'GO'))) { end(); return; }
+            const prev = current[current.length - 1];
+            if (depth === 0 && t.type === 'keyword' && STARTERS.has(t.value) && prev
+                && !NOT_AFTER.has(prev.value.toUpperCase()) && prev.type !== 'comma'
+                && !(t.value === 'DELETE' && prev.value === 'ON')) end();
+            current.push(t);
+        });
+        end();
+        return statements;
+    }
+
+    private static statement(ts: SqlToken[], sql: string): SqlStatement {
+        const depths = this.depths(ts);
+        const top = (i: number) => depths[i] === 0;
+        const is = (i: number, ...values: string[]) => ts[i]?.type === 'keyword' && values.includes(ts[i].value);
+        const named = new Set<number>();
+        const aliases = new Map<string, string>();
+        const ctes = new Set<string>();
+        const reads: string[] = [];
+        const writes: string[] = [];
+
+        // A name and its alias at `i`; its tokens are left out of the column list
+        const name = (i: number): { name: string, next: number } | null => {
+            const part = (j: number) => ts[j]?.type === 'identifier' || ts[j]?.type === 'variable';
+            if (!part(i)) return null;
+            const parts = [ts[i].value];
+            named.add(i);
+            let j = i + 1;
+            // db.schema.table, or db..table with the default schema
+            while (ts[j]?.type === 'dot') {
+                named.add(j++);
+                if (part(j)) { parts.push(ts[j].value); named.add(j++); }
+            }
+            let alias = '';
+            if (is(j, 'AS') && ts[j + 1]?.type === 'identifier') { named.add(j + 1); alias = ts[j + 1].value; j += 2; }
+            else if (ts[j]?.type === 'identifier') { named.add(j); alias = ts[j].value; j++; }
+            const full = parts.join('.');
+            if (alias) aliases.set(alias.toLowerCase(), full);
+            return { name: full, next: j };
+        };
+        const resolve = (table: string) => aliases.get(table.toLowerCase()) ?? table;
+
+        // WITH name [(columns)] AS (...), ...: the names are not tables
+        if (is(0, 'WITH')) {
+            ts.forEach((t, i) => {
+                if (top(i) && t.type === 'identifier' && (is(i + 1, 'AS') || (ts[i + 1]?.type === 'lparen' && is(this.close(ts, i + 1) + 1, 'AS')))) {
+                    ctes.add(t.value.toLowerCase());
+                    named.add(i);
+                }
+            });
+        }
+
+        // Tables read: FROM, JOIN and USING, with the comma-separated tables of an old-style FROM list
+        ts.forEach((_t, i) => {
+            if (!is(i, 'FROM', 'JOIN', 'USING') || is(i - 1, 'DELETE')) return;
+            let ref = name(i + 1);
+            while (ref) {
+                reads.push(ref.name);
+                ref = ts[ref.next]?.type === 'comma' && is(i, 'FROM') ? name(ref.next + 1) : null;
+            }
+        });
+
+        const verbAt = ts.findIndex((t, i) => top(i) && t.type === 'keyword' && t.value in KINDS);
+        const verb = verbAt >= 0 ? ts[verbAt].value : '';
+        const kind: SqlStatementKind = KINDS[verb] ?? 'OTHER';
+        let label = verb || (ts[0]?.value.toUpperCase() ?? '');
+        let warning = '';
+        const where = ts.some((t, i) => top(i) && t.type === 'keyword' && t.value === 'WHERE');
+        const after = (i: number, ...skip: string[]) => { while (is(i, ...skip)) i++; return i; };
+
+        if (kind === 'INSERT') {
+            label = 'INSERT INTO';
+            const ref = name(after(verbAt + 1, 'INTO'));
+            if (ref) writes.push(ref.name);
+        } else if (kind === 'UPDATE') {
+            label = 'UPDATE';
+            const ref = name(verbAt + 1);
+            if (ref) writes.push(resolve(ref.name));
+        } else if (kind === 'DELETE') {
+            label = 'DELETE FROM';
+            let at = after(verbAt + 1, 'FROM');
+            if (is(at, 'TOP')) at = this.close(ts, at + 1) + 1;
+            const ref = name(after(at, 'FROM'));
+            if (ref) writes.push(resolve(ref.name));
+        } else if (kind === 'MERGE') {
+            label = 'MERGE INTO';
+            const ref = name(after(verbAt + 1, 'INTO'));
+            if (ref) writes.push(ref.name);
+        } else if (kind === 'TRUNCATE') {
+            label = 'TRUNCATE TABLE';
+            const ref = name(after(verbAt + 1, 'TABLE'));
+            if (ref) writes.push(ref.name);
+        } else if (kind === 'DDL') {
+            let at = verbAt + 1;
+            while (ts[at] && !DDL_OBJECTS.has(ts[at].value.toUpperCase())) at++;
+            const object = ts[at]?.value.toUpperCase() ?? '';
+            label = object ? `${verb} ${object}` : verb;
+            at = after(at + 1, 'IF', 'NOT', 'EXISTS');
+            const ref = name(at);
+            if (object === 'INDEX') {
+                const on = ts.findIndex((_t, i) => i > at && is(i, 'ON'));
+                const table = on >= 0 ? name(on + 1) : null;
+                if (table) writes.push(table.name);
+            } else if (ref && (object === 'TABLE' || object === 'VIEW')) {
+                writes.push(ref.name);
+            }
+        } else if (kind === 'SELECT') {
+            const into = ts.findIndex((_t, i) => top(i) && i > verbAt && is(i, 'INTO'));
+            const ref = into >= 0 ? name(into + 1) : null;
+            if (ref) { writes.push(ref.name); label = 'SELECT INTO'; }
+        }
+
+        const target = writes[0] ?? 'the table';
+        if (kind === 'DELETE') warning = where ? `DELETE removes rows from ${target}` : `DELETE without WHERE removes every row of ${target}`;
+        else if (kind === 'TRUNCATE') warning = `TRUNCATE removes every row of ${target}`;
+        else if (kind === 'UPDATE' && !where) warning = `UPDATE without WHERE changes every row of ${target}`;
+        else if (kind === 'MERGE' && ts.some((_t, i) => is(i, 'DELETE'))) warning = `MERGE deletes rows from ${target}`;
+        else if (kind === 'DDL' && verb === 'DROP') warning = `${label} removes ${writes[0] ?? 'a database object'}`;
+        else if (kind === 'DDL' && verb === 'ALTER' && ts.some((_t, i) => i > verbAt && is(i, 'DROP'))) warning = `${label} drops part of ${target}`;
+
+        // Names given with AS are output aliases, and ORDER BY may sort on them
+        const outputs = new Set(ts.filter((t, i) => t.type === 'identifier' && is(i - 1, 'AS')).map(t => t.value.toLowerCase()));
+        const orderBy = ts.findIndex((_t, i) => top(i) && is(i, 'ORDER'));
+        const columns = kind === 'DDL' || kind === 'OTHER' ? [] : ts.flatMap((t, i) => {
+            if (t.type !== 'identifier' || named.has(i) || NOT_COLUMNS.has(t.value.toUpperCase())) return [];
+            if (ts[i + 1]?.type === 'lparen' || ts[i + 1]?.type === 'dot' || is(i - 1, 'AS')) return [];
+            const key = t.value.toLowerCase();
+            if (outputs.has(key) && orderBy >= 0 && i > orderBy && ts[i - 1]?.type !== 'dot') return [];
+            if (aliases.has(key) || ctes.has(key)) return [];
+            return [t.value];
+        });
+
+        const tables = this.unique(reads.filter(r => !ctes.has(r.toLowerCase())));
+        const assignments = writes.length > 0 && (kind === 'INSERT' || kind === 'UPDATE' || kind === 'MERGE' || kind === 'SELECT')
+            ? this.assignments(ts, sql, verbAt, { target: writes[0], tables: tables.length > 0 ? tables : [writes[0]], named, resolve })
+            : [];
+
+        return {
+            kind,
+            verb: label,
+            reads: tables,
+            writes: this.unique(writes),
+            columns: this.unique(columns),
+            assignments,
+            warning
+        };
+    }
+
+    /**
+     * The columns an INSERT, UPDATE, MERGE or SELECT INTO writes to its target: each
+     * SET item, and the INSERT column list or SELECT INTO names matched by position
+     * to the values. An unqualified name read belongs to the only table the
+     * statement reads, or to the target when it reads none.
+     */
+    private static assignments(ts: SqlToken[], sql: string, verbAt: number, at: AssignmentContext): SqlAssignment[] {
+        const depths = this.depths(ts);
+        const is = (i: number, ...values: string[]) => ts[i]?.type === 'keyword' && values.includes(ts[i].value);
+        const result: SqlAssignment[] = [];
+
+        // Token indices of each comma-separated item from `start` to the end of its list
+        const items = (start: number): number[][] => {
+            if (!ts[start] || ts[start].type === 'rparen') return [];
+            const base = depths[start];
+            const list: number[][] = [[]];
+            let cases = 0;
+            for (let i = start; i < ts.length && depths[i] >= base; i++) {
+                if (depths[i] === base) {
+                    if (is(i, 'CASE')) cases++;
+                    else if (is(i, 'END')) cases--;
+                    else if (cases <= 0 && ts[i].type === 'keyword' && LIST_ENDS.has(ts[i].value)) break;
+                    else if (ts[i].type === 'comma') { list.push([]); continue; }
+                }
+                list[list.length - 1].push(i);
+            }
+            return list.filter(item => item.length > 0);
+        };
+        const refs = (item: number[]): SqlColumnRef[] => item.flatMap(i => {
+            const t = ts[i];
+            if (t.type !== 'identifier' || at.named.has(i) || NOT_COLUMNS.has(t.value.toUpperCase())) return [];
+            if (ts[i + 1]?.type === 'lparen' || ts[i + 1]?.type === 'dot' || is(i - 1, 'AS')) return [];
+            const qualified = ts[i - 1]?.type === 'dot' && ts[i - 2]?.type === 'identifier';
+            const table = qualified ? at.resolve(ts[i - 2].value) : at.tables.length === 1 ? at.tables[0] : '';
+            return [{ table, column: t.value }];
+        });
+        const assign = (column: string, value: number[]) => {
+            if (!column || value.length === 0) return;
+            result.push({
+                table: at.target,
+                column,
+                reads: refs(value).filter((r, k, all) => all.findIndex(o => `${o.table}.${o.column}`.toLowerCase() === `${r.table}.${r.column}`.toLowerCase()) === k),
+                expression: sql.substring(ts[value[0]].start, ts[value[value.length - 1]].end),
+                plain: value.every(i => ts[i].type === 'identifier' || ts[i].type === 'dot')
+            });
+        };
+        // A SELECT item's output name and the tokens of its value: `expr AS name`, `expr name`, `name = expr` or a column
+        const output = (item: number[]): { name: string, value: number[] } => {
+            const last = item[item.length - 1];
+            const equals = item.findIndex(i => ts[i].type === 'operator' && ts[i].value === '=');
+            if (equals === 1 && ts[item[0]].type === 'identifier') return { name: ts[item[0]].value, value: item.slice(2) };
+            if (ts[last].type !== 'identifier') return { name: '', value: item };
+            if (is(last - 1, 'AS')) return { name: ts[last].value, value: item.slice(0, -2) };
+            if (item.length > 1 && ['identifier', 'rparen', 'string', 'number'].includes(ts[last - 1]?.type)) return { name: ts[last].value, value: item.slice(0, -1) };
+            return { name: ts[last].value, value: item };
+        };
+        const selectItems = (select: number) => {
+            let start = select + 1;
+            while (is(start, 'DISTINCT', 'ALL')) start++;
+            if (is(start, 'TOP')) start = ts[start + 1]?.type === 'lparen' ? this.close(ts, start + 1) + 1 : start + 2;
+            return items(start).map(output);
+        };
+        const matched = (names: string[], values: number[][]) => {
+            if (names.length === values.length) names.forEach((name, k) => assign(name, values[k]));
+        };
+
+        // SET lists of an UPDATE or of a MERGE's WHEN MATCHED clause
+        ts.forEach((_t, i) => {
+            if (!is(i, 'SET')) return;
+            items(i + 1).forEach(item => {
+                const equals = item.findIndex(j => ts[j].type === 'operator' && ts[j].value === '=');
+                if (equals > 0 && ts[item[equals - 1]].type === 'identifier') assign(ts[item[equals - 1]].value, item.slice(equals + 1));
+            });
+        });
+
+        // INSERT (columns) VALUES (...) or SELECT ..., including a MERGE's WHEN NOT MATCHED clause
+        ts.forEach((_t, i) => {
+            if (!is(i, 'INSERT')) return;
+            let open = i + 1;
+            while (is(open, 'INTO') || ts[open]?.type === 'identifier' || ts[open]?.type === 'dot') open++;
+            const names = ts[open]?.type === 'lparen' ? items(open + 1).map(item => ts[item[item.length - 1]].value) : [];
+            const rest = names.length > 0 ? this.close(ts, open) + 1 : open;
+            if (is(rest, 'VALUES') && ts[rest + 1]?.type === 'lparen') matched(names, items(rest + 2));
+            const select = ts.findIndex((_s, j) => j >= rest && depths[j] === depths[i] && is(j, 'SELECT'));
+            if (!is(rest, 'VALUES') && select >= 0) {
+                const outputs = selectItems(select);
+                if (names.length > 0) matched(names, outputs.map(o => o.value));
+                else outputs.forEach(o => assign(o.name, o.value));
+            }
+        });
+
+        // SELECT ... INTO target
+        if (is(verbAt, 'SELECT')) selectItems(verbAt).forEach(o => assign(o.name, o.value));
+
+        return result;
+    }
+
+    /** The bracket depth before each token. */
+    private static depths(ts: SqlToken[]): number[] {
+        let depth = 0;
+        return ts.map(t => {
+            if (t.type === 'rparen') depth = Math.max(0, depth - 1);
+            const at = depth;
+            if (t.type === 'lparen') depth++;
+            return at;
+        });
+    }
+
+    /** Index of the bracket closing the one at `open`, or of the last token when it is never closed. */
+    private static close(ts: SqlToken[], open: number): number {
+        if (ts[open]?.type !== 'lparen') return open - 1;
+        let depth = 0;
+        for (let i = open; i < ts.length; i++) {
+            if (ts[i].type === 'lparen') depth++;
+            if (ts[i].type === 'rparen' && --depth === 0) return i;
+        }
+        return ts.length - 1;
+    }
+
+    private static unique(values: string[]): string[] {
+        const seen = new Set<string>();
+        return values.filter(v => {
+            const key = v.toLowerCase();
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+}
+
+interface AssignmentContext {
+    /** The table the statement writes */
+    target: string;
+    /** Tables an unqualified column name may belong to */
+    tables: string[];
+    /** Tokens that name tables and aliases rather than columns */
+    named: Set<number>;
+    resolve: (table: string) => string;
+}
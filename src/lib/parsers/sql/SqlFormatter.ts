@@ -0,0 +1,153 @@
+import { SqlTokenizer, type SqlToken } from './SqlTokenizer';
+
+/** Keywords that start a clause on a new line, with the words that may follow them in the same clause name. */
+const CLAUSES: Record<string, string[]> = {
+    'SELECT': [], 'FROM': [], 'WHERE': [], 'HAVING': [], 'VALUES': [], 'SET': [], 'USING': [], 'WHEN': [],
+    'GROUP': ['BY'], 'ORDER': ['BY'], 'UNION': ['ALL'], 'EXCEPT': [], 'INTERSECT': [],
+    'INSERT': ['INTO'], 'UPDATE': [], 'DELETE': ['FROM'], 'MERGE': ['INTO'], 'TRUNCATE': ['TABLE'],
+    'CREATE': [], 'ALTER': [], 'DROP': [], 'WITH': [], 'OUTPUT': [], 'LIMIT': [], 'OFFSET': [],
+    'JOIN': [], 'INNER': ['JOIN'], 'CROSS': ['JOIN'],
+    'LEFT': ['OUTER', 'JOIN'], 'RIGHT': ['OUTER', 'JOIN'], 'FULL': ['OUTER', 'JOIN']
+};
+
+/** Clauses whose comma-separated items go one per line. */
+const LIST_CLAUSES = new Set(['SELECT', 'SET', 'GROUP', 'ORDER', 'VALUES']);
+
+/** Clauses whose AND/OR conditions go one per line. */
+const CONDITION_CLAUSES = new Set(['WHERE', 'HAVING', 'ON', 'WHEN']);
+
+const INDENT = '    ';
+
+interface Level {
+    indent: number;
+    /** The clause keyword being written at this level */
+    clause: string;
+    /** A bracket around a subquery lays out its own clauses; any other bracket stays on one line */
+    subquery: boolean;
+}
+
+/**
+ * Pretty-prints SQL for the step cards: one clause per line with upper-case
+ * keywords, SELECT/SET lists and WHERE conditions one item per line, and
+ * subqueries indented. Names, strings and comments are kept as written.
+ */
+export class SqlFormatter {
+
+    static format(sql: string): string {
+        const src = sql ?? '';
+        const tokens = SqlTokenizer.tokenize(src);
+        const lines: string[] = [];
+        const levels: Level[] = [{ indent: 0, clause: '', subquery: true }];
+        let line = '';
+        let caseDepth = 0;
+        let between = false;
+
+        const level = () => levels[levels.length - 1];
+        const newline = (indent: number) => {
+            if (line.trim()) lines.push(line.replace(/\s+$/, ''));
+            line = INDENT.repeat(indent);
+        };
+        const write = (text: string, space: boolean) => {
+            line += (space && line.trim() ? ' ' : '') + text;
+        };
+        const source = (t: SqlToken) => src.substring(t.start, t.end);
+
+        for (let i = 0; i < tokens.length; i++) {
+            const t = tokens[i];
+            const prev = tokens[i - 1];
+            const current = level();
+            const layout = current.subquery && caseDepth === 0;
+
+            if (t.type === 'comment') {
+                if (source(t).startsWith('--')) {
+                    write(`-- ${t.value}`, true);
+                    newline(current.indent);
+                } else {
+                    write(`/* ${t.value} */`, true);
+                }
+                continue;
+            }
+
+            if (t.type === 'keyword') {
+                if (t.value === 'CASE') caseDepth++;
+                if (t.value === 'END' && caseDepth > 0) caseDepth--;
+
+                const follows = CLAUSES[t.value];
+                const joins = (t.value === 'LEFT' || t.value === 'RIGHT' || t.value === 'FULL')
+                    ? tokens[i + 1]?.value === 'JOIN' || tokens[i + 1]?.value === 'OUTER'
+                    : true;
+                if (t.value === 'GO') {
+                    newline(0);
+                    write('GO', false);
+                    newline(0);
+                    lines.push('');
+                    continue;
+                }
+                if (layout && follows && joins && prev?.value !== 'THEN') {
+                    // INSERT ... SELECT keeps its own line; the THEN UPDATE of a MERGE stays with its WHEN
+                    newline(current.indent);
+                    let words = t.value;
+                    while (follows.includes(tokens[i + 1]?.value ?? '') && tokens[i + 1].type === 'keyword') words += ` ${tokens[++i].value}`;
+                    write(words, true);
+                    current.clause = t.value;
+                    continue;
+                }
+                if (layout && t.value === 'ON' && ['JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'USING', 'MERGE'].includes(current.clause)) {
+                    newline(current.indent + 1);
+                    write('ON', true);
+                    current.clause = 'ON';
+                    continue;
+                }
+                if (t.value === 'BETWEEN') between = true;
+                else if (t.value === 'AND' && between) {
+                    // The AND of a BETWEEN belongs to its range, not the condition list
+                    between = false;
+                } else if (layout && (t.value === 'AND' || t.value === 'OR') && CONDITION_CLAUSES.has(current.clause)) {
+                    newline(current.indent + 1);
+                    write(t.value, true);
+                    continue;
+                }
+                write(t.value, true);
+                continue;
+            }
+
+            if (t.type === 'lparen') {
+                const subquery = tokens[i + 1]?.value === 'SELECT' || tokens[i + 1]?.value === 'WITH';
+                const tight = prev && (prev.type === 'identifier' || prev.type === 'lparen') && prev.end === t.start;
+                write('(', !tight && prev?.type !== 'dot');
+                levels.push({ indent: subquery ? current.indent + 1 : current.indent, clause: '', subquery });
+                continue;
+            }
+
+            if (t.type === 'rparen') {
+                if (levels.length > 1 && levels.pop()!.subquery) newline(level().indent);
+                write(')', false);
+                continue;
+            }
+
+            if (t.type === 'comma') {
+                write(',', false);
+                if (layout && LIST_CLAUSES.has(current.clause)) newline(current.indent + 1);
+                continue;
+            }
+
+            if (t.type === 'semicolon') {
+                write(';', false);
+                newline(0);
+                lines.push('');
+                levels.length = 1;
+                levels[0].clause = '';
+                caseDepth = 0;
+                continue;
+            }
+
+            if (t.type === 'dot') { write('.', false); continue; }
+
+            write(source(t), prev?.type !== 'dot' && prev?.type !== 'lparen');
+        }
+
+        newline(0);
+        while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+        return lines.join('\n');
+    }
+}
@@ -0,0 +1,148 @@
+export type SqlTokenType =
+    | 'keyword'     // a reserved word, upper-cased
+    | 'identifier'  // a bare, [bracketed], "quoted" or `backticked` name, without its quotes
+    | 'string'      // 'text' or N'text'; a doubled quote escapes itself
+    | 'number'
+    | 'variable'    // {&VAR} substituted by T1 before the statement runs, or @param
+    | 'operator'
+    | 'dot'
+    | 'comma'
+    | 'semicolon'
+    | 'lparen'
+    | 'rparen'
+    | 'comment'     // -- to the end of the line, or /* ... */
+    | 'unknown';    // anything else, kept so the tokenizer never fails
+
+export interface SqlToken {
+    type: SqlTokenType;
+    /** Keywords upper-cased; names, strings and comments as written but without their quotes or markers. */
+    value: string;
+    /** Offsets into the source, `end` exclusive. */
+    start: number;
+    end: number;
+}
+
+export const SQL_KEYWORDS = new Set([
+    'ADD', 'ALL', 'ALTER', 'AND', 'ANY', 'AS', 'ASC', 'BEGIN', 'BETWEEN', 'BY', 'CASE', 'CHECK', 'COLUMN',
+    'COMMIT', 'CONSTRAINT', 'CREATE', 'CROSS', 'DATABASE', 'DECLARE', 'DEFAULT', 'DELETE', 'DESC', 'DISTINCT',
+    'DROP', 'ELSE', 'END', 'EXCEPT', 'EXEC', 'EXECUTE', 'EXISTS', 'FOREIGN', 'FROM', 'FULL', 'FUNCTION', 'GO',
+    'GROUP', 'HAVING', 'IF', 'IN', 'INDEX', 'INNER', 'INSERT', 'INTERSECT', 'INTO', 'IS', 'JOIN', 'KEY', 'LEFT',
+    'LIKE', 'LIMIT', 'MATCHED', 'MERGE', 'NOLOCK', 'NOT', 'NULL', 'OFFSET', 'ON', 'OR', 'ORDER', 'OUTER', 'OUTPUT',
+    'OVER', 'PARTITION', 'PRIMARY', 'PROC', 'PROCEDURE', 'REFERENCES', 'RIGHT', 'ROLLBACK', 'SCHEMA', 'SELECT',
+    'SET', 'TABLE', 'THEN', 'TOP', 'TRANSACTION', 'TRIGGER', 'TRUNCATE', 'UNION', 'UNIQUE',
+    'UPDATE', 'USING', 'VALUES', 'VIEW', 'WHEN', 'WHERE', 'WITH'
+]);
+
+const OPERATORS = ['<>', '!=', '<=', '>=', '||', '=', '<', '>', '+', '-', '*', '/', '%'];
+
+// Sticky, so each match starts at `lastIndex` without copying the rest of the text
+const PARAM = /@@?[A-Za-z0-9_]*/y;
+const NUMBER = /(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/y;
+const WORD = /[A-Za-z_#][A-Za-z0-9_$#]*/y;
+
+/**
+ * Splits SQL text into tokens. Like `ExpressionTokenizer` it is lenient: an
+ * unterminated quote or comment runs to the end of the text, and characters it
+ * does not know become `unknown` tokens.
+ */
+export class SqlTokenizer {
+
+    static tokenize(text: string): SqlToken[] {
+        const tokens: SqlToken[] = [];
+        const src = text ?? '';
+        let i = 0;
+
+        const push = (type: SqlTokenType, value: string, start: number, end: number) => {
+            tokens.push({ type, value, start, end });
+            i = end;
+        };
+        const matchAt = (pattern: RegExp) => {
+            pattern.lastIndex = i;
+            return pattern.exec(src);
+        };
+        const closing = (from: number, close: string) => {
+            const at = src.indexOf(close, from);
+            return at < 0 ? src.length : at;
+        };
+
+        while (i < src.length) {
+            const ch = src[i];
+
+            if (/\s/.test(ch)) { i++; continue; }
+
+            if (src.startsWith('--', i)) {
+                const end = closing(i, '\n');
+                push('comment', src.substring(i + 2, end).trim(), i, end);
+                continue;
+            }
+
+            if (src.startsWith('/*', i)) {
+                const close = closing(i + 2, '*/');
+                push('comment', src.substring(i + 2, close).trim(), i, Math.min(close + 2, src.length));
+                continue;
+            }
+
+            if (ch === "'" || ((ch === 'N' || ch === 'n') && src[i + 1] === "'")) {
+                const open = ch === "'" ? i : i + 1;
+                const end = this.closeQuote(src, open, "'");
+                push('string', src.substring(open + 1, end - 1).split("''").join("'"), i, Math.min(end, src.length));
+                continue;
+            }
+
+            if (ch === '[' || ch === '"' || ch === '`') {
+                const close = closing(i + 1, ch === '[' ? ']' : ch);
+                push('identifier', src.substring(i + 1, close), i, Math.min(close + 1, src.length));
+                continue;
+            }
+
+            if (ch === '{' && src[i + 1] === '&') {
+                const close = closing(i + 2, '}');
+                push('variable', src.substring(i, Math.min(close + 1, src.length)), i, Math.min(close + 1, src.length));
+                continue;
+            }
+
+            if (ch === '@') {
+                const param = matchAt(PARAM)![0];
+                push('variable', param, i, i + param.length);
+                continue;
+            }
+
+            const number = matchAt(NUMBER);
+            if (number) { push('number', number[0], i, i + number[0].length); continue; }
+
+            const word = matchAt(WORD);
+            if (word) {
+                const upper = word[0].toUpperCase();
+                if (SQL_KEYWORDS.has(upper)) push('keyword', upper, i, i + word[0].length);
+                else push('identifier', word[0], i, i + word[0].length);
+                continue;
+            }
+
+            if (ch === '.') { push('dot', ch, i, i + 1); continue; }
+            if (ch === ',') { push('comma', ch, i, i + 1); continue; }
+            if (ch === ';') { push('semicolon', ch, i, i + 1); continue; }
+            if (ch === '(') { push('lparen', ch, i, i + 1); continue; }
+            if (ch === ')') { push('rparen', ch, i, i + 1); continue; }
+
+            const op = OPERATORS.find(o => src.startsWith(o, i));
+            if (op) { push('operator', op, i, i + op.length); continue; }
+
+            push('unknown', ch, i, i + 1);
+        }
+
+        return tokens;
+    }
+
+    /** Offset just past the closing quote; one past the end of the text when it is never closed, so `end - 1` still ends the contents. */
+    private static closeQuote(src: string, start: number, quote: string): number {
+        let i = start + 1;
+        while (i < src.length) {
+            if (src[i] === quote) {
+                if (src[i + 1] === quote) { i += 2; continue; }
+                return i + 1;
+            }
+            i++;
+        }
+        return src.length + 1;
+    }
+}
@@ -0,0 +1,17 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+/** AppendTable: adds the rows of one memory table to another. */
+export const AppendTableHandler: StepHandler = {
+    types: ['AppendTable'],
+
+    flowLabel: (ctx: StepContext) => `Append to: ${EtlParser.getTextSafe(ctx.storage.AppendToTableName || 'Table')}`,
+
+    output: (ctx: StepContext) => ({ type: 'TABLE', name: EtlParser.getTextSafe(ctx.storage.AppendToTableName) }),
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['From', ctx.storage.InputTableName || ctx.storage.TableName],
+        ['To', ctx.storage.AppendToTableName]
+    ])
+};
@@ -0,0 +1,27 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+/** Branch: one guarded path of a Decision. */
+export const BranchHandler: StepHandler = {
+    types: ['Branch'],
+    container: true,
+    alwaysActive: true,
+
+    describe: (ctx: StepContext) => ctx.mode === 'business' ? ctx.name : `If ${EtlParser.getTextSafe(ctx.storage.Expression)}`,
+
+    flowLabel: (ctx: StepContext) => {
+        const expr = EtlParser.getTextSafe(ctx.storage.Expression);
+        return expr ? `If ${expr}` : `Decision on ${ctx.table}`;
+    },
+
+    /** The condition is already the Context, so only very long ones are repeated in full. */
+    details: (ctx: StepContext, info: any) => {
+        const expr = EtlParser.getTextSafe(ctx.storage.Expression);
+        if (expr && expr.length > 50) info.Details.push(`Full Condition: ${expr}`);
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([['Steps', (ctx.step.children || []).length || '']]),
+
+    docxRows: (ctx: StepContext) => StepIO.facts([['Condition', ctx.storage.Expression]])
+};
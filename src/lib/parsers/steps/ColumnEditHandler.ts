@@ -0,0 +1,22 @@
+import { EtlParser } from '../EtlParser';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** RenameColumn and DeleteColumn: change the columns of a memory table. */
+export const ColumnEditHandler: StepHandler = {
+    types: ['RenameColumn', 'DeleteColumn'],
+
+    details: (ctx: StepContext, info: any) => {
+        const inputTable = text(ctx.storage.InputTableName || ctx.storage.TableName);
+        if (inputTable) info.Details.push(`Table: ${inputTable}`);
+        if (ctx.type === 'RenameColumn') {
+            const oldName = text(ctx.storage.OldColumnName);
+            const newName = text(ctx.storage.NewColumnName);
+            if (oldName && newName) info.Details.push(`Rename: ${oldName} → ${newName}`);
+            return;
+        }
+        const cols = EtlParser.getListSafe(ctx.storage.ColumnsToDelete || ctx.storage.Columns, 'ColumnItem');
+        if (cols.length > 0) info.Details.push(`Delete: ${cols.map((c: any) => text(c.ColumnName || c)).join(', ')}`);
+    }
+};
@@ -0,0 +1,36 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** AddColumn and UpdateColumn: calculated columns, with IIF chains flattened into logic rules. */
+export const ColumnHandler: StepHandler = {
+    types: ['AddColumn', 'UpdateColumn'],
+
+    describe: (ctx: StepContext) => {
+        if (ctx.mode === 'business') return `${ctx.name} (in ${ctx.table})`;
+        return ctx.type === 'AddColumn' ? `${ctx.name}: calculate in ${ctx.table}` : `${ctx.name}: update values in ${ctx.table}`;
+    },
+
+    schema: (ctx: StepContext) => ({ columns: EtlParser.getListSafe(ctx.storage.Columns, 'ColumnItemDef'), source: 'Calc' }),
+
+    details: (ctx: StepContext, info: any) => {
+        info.TableData = EtlParser.getListSafe(ctx.storage.Columns, 'ColumnItemDef').map((col: any) => {
+            const rawExpr = text(col.Expression);
+            return {
+                Col1: text(col.ColumnName),
+                Col2: rawExpr,
+                Col3: text(col.ColumnType) || 'String',
+                Rules: EtlParser.flattenLogic(rawExpr)
+            };
+        });
+        if (info.TableData.length > 0) info.Headers = ["Field", "Formula", "Type"];
+        EtlParser.extractCriteria(ctx.storage).forEach(f => info.Details.push(`Filter: ${f}`));
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Table', ctx.storage.InputTableName || ctx.storage.TableName],
+        ['Columns', EtlParser.getListSafe(ctx.storage.Columns, 'ColumnItemDef').length || '']
+    ])
+};
@@ -0,0 +1,43 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+const definedColumns = (step: any): any[] => {
+    const columns = EtlParser.getListSafe(step.OutputTableDefinition?.Columns, 'ColumnItem');
+    return columns.length > 0 ? columns : EtlParser.getListSafe(step.OutputTableDefinition?.TableDefinition?.Columns, 'TableColumnDefinition');
+};
+
+/** CreateTable: defines a memory table. Set-up only, so it is left out of the business view. */
+export const CreateTableHandler: StepHandler = {
+    types: ['CreateTable'],
+    businessHidden: true,
+
+    flowLabel: (ctx: StepContext) => `Create Table: ${text(ctx.step.OutputTableDefinition?.TableName || 'New Table')}`,
+
+    output: (ctx: StepContext) => ({ type: 'TABLE', name: StepIO.result(ctx.storage) }),
+
+    schema: (ctx: StepContext) => ({ columns: EtlParser.getListSafe(ctx.step.OutputTableDefinition?.Columns, 'ColumnItem'), source: 'Table' }),
+
+    inputs: (ctx: StepContext) => StepIO.inputs(ctx.storage, false),
+
+    outputs: (ctx: StepContext) => {
+        const outputs = StepIO.outputs(ctx.storage);
+        StepIO.add(outputs, ctx.storage.TableName);
+        return outputs;
+    },
+
+    details: (ctx: StepContext, info: any) => {
+        info.TableData = definedColumns(ctx.step).map((c: any) => ({
+            Col1: text(c.ColumnName),
+            Col2: text(c.ColumnType?.['#text'] || c.ColumnType) || 'String'
+        }));
+        if (info.TableData.length > 0) info.Headers = ["Column Name", "Type"];
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Table', ctx.step.OutputTableDefinition?.TableName || ctx.storage.TableName],
+        ['Columns', definedColumns(ctx.step).length || '']
+    ])
+};
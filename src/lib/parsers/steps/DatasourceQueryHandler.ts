@@ -0,0 +1,41 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import { queryColumnRows } from './TableQueryHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** RunDatasourceQuery and RunSimpleQuery, which read through a T1 data source rather than a table. */
+export const DatasourceQueryHandler: StepHandler = {
+    types: ['RunDatasourceQuery', 'RunSimpleQuery'],
+
+    describe: (ctx: StepContext) => ctx.mode === 'business'
+        ? ctx.name
+        : `${ctx.name}: ${text(ctx.storage.DatasourceName || 'Datasource')} ➔ ${ctx.target}`,
+
+    flowLabel: (ctx: StepContext) => {
+        const src = ctx.type === 'RunDatasourceQuery' ? text(ctx.storage.DataSource?.Description || 'Datasource') : ctx.table;
+        return `${src} ➔ ${ctx.target}`;
+    },
+
+    details: (ctx: StepContext, info: any) => {
+        const storage = ctx.storage;
+        const dsName = text(storage.DataSource?.['@_Description'] || storage.DataSource?.Description) || 'Datasource';
+        info.Details.push(`Source: ${dsName}`);
+
+        EtlParser.getListSafe(storage.DataSourceParameters, 'DataSourceParameterItem').forEach((p: any) => {
+            info.Details.push(`Param: ${text(p.DataSourceParameterName)} = ${text(p.DataSourceParameterValue)}`);
+        });
+
+        if (ctx.type === 'RunSimpleQuery') {
+            info.TableData = queryColumnRows(storage);
+            if (info.TableData.length > 0) info.Headers = ["Column Name", "Source Field", "Type", "Action"];
+        }
+        EtlParser.extractCriteria(storage).forEach(f => info.Details.push(`Filter: ${f}`));
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Data Source Id', ctx.storage.DataSource?.['@_Id'] || ctx.storage.DataSourceId],
+        ['Parameters', EtlParser.getListSafe(ctx.storage.DataSourceParameters, 'DataSourceParameterItem').length || '']
+    ])
+};
@@ -0,0 +1,25 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+/** Decision: the container whose Branch children hold the alternative paths. */
+export const DecisionHandler: StepHandler = {
+    types: ['Decision'],
+    container: true,
+    alwaysActive: true,
+
+    describe: (ctx: StepContext) => ctx.mode === 'business'
+        ? ctx.name
+        : `Decision on ${EtlParser.getTextSafe(ctx.storage.InputTableName || 'Table')}`,
+
+    flowLabel: (ctx: StepContext) => {
+        const expr = EtlParser.getTextSafe(ctx.storage.Expression);
+        return expr ? `If ${expr}` : `Decision on ${ctx.table}`;
+    },
+
+    details: (ctx: StepContext, info: any) => {
+        if (ctx.storage.InputTableName) info.Details.push(`Input: ${EtlParser.getTextSafe(ctx.storage.InputTableName)}`);
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([['Branches', (ctx.step.children || []).length || '']])
+};
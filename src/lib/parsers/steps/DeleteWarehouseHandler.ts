@@ -0,0 +1,21 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+/** DeleteWarehouseData: removes warehouse rows matching its criteria. */
+export const DeleteWarehouseHandler: StepHandler = {
+    types: ['DeleteWarehouseData'],
+
+    describe: (ctx: StepContext) => ctx.mode === 'business' ? `${ctx.name} (from ${ctx.target})` : `${ctx.name}: remove from ${ctx.target}`,
+
+    flowLabel: (ctx: StepContext) => `Delete Warehouse Data: ${ctx.target}`,
+
+    details: (ctx: StepContext, info: any) => {
+        EtlParser.extractCriteria(ctx.storage).forEach(f => info.Details.push(`Filter: ${f}`));
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Warehouse', ctx.storage.WarehouseName],
+        ['Table', ctx.storage.TableName]
+    ])
+};
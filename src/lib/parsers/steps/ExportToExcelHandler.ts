@@ -0,0 +1,31 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** ExportToExcel: writes a memory table to a workbook sheet. */
+export const ExportToExcelHandler: StepHandler = {
+    types: ['ExportToExcel'],
+
+    describe: (ctx: StepContext) => {
+        if (ctx.mode === 'business') return ctx.name;
+        const path = text(ctx.storage.FileName || '');
+        return `${ctx.name}: export ${text(ctx.storage.ExportMemoryTableName || ctx.table)} to Excel${path ? ` (${path})` : ''}`;
+    },
+
+    flowLabel: (ctx: StepContext) => `Export to Excel: ${text(ctx.storage.FileName).split('\\').pop() || 'File'}`,
+
+    details: (ctx: StepContext, info: any) => {
+        const file = text(ctx.storage.FileName);
+        const loc = text(ctx.storage.FileLocation);
+        if (file) info.Details.push(`File: ${file} ${loc ? `(${loc})` : ''}`);
+        if (ctx.storage.SheetName) info.Details.push(`Sheet: ${text(ctx.storage.SheetName)}`);
+        if (ctx.storage.UpdateExistingSheet === 'true') info.Details.push(`Mode: Append to Sheet`);
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Table', ctx.storage.ExportMemoryTableName],
+        ['Location', ctx.storage.FileLocation]
+    ])
+};
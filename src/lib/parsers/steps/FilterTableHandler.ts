@@ -0,0 +1,13 @@
+import { EtlParser } from '../EtlParser';
+import type { StepContext, StepHandler } from './StepHandler';
+
+/** FilterTable: keeps the rows of a memory table that match its criteria. */
+export const FilterTableHandler: StepHandler = {
+    types: ['FilterTable'],
+
+    details: (ctx: StepContext, info: any) => {
+        const inputTable = EtlParser.getTextSafe(ctx.storage.InputTableName || ctx.storage.TableName);
+        if (inputTable) info.Details.push(`Input: ${inputTable}`);
+        EtlParser.extractCriteria(ctx.storage).forEach(f => info.Details.push(`Filter: ${f}`));
+    }
+};
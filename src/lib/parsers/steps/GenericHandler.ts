@@ -0,0 +1,70 @@
+import { EtlParser } from '../EtlParser';
+import type { ResolvedStepHandler, StepContext, StepFact } from './StepHandler';
+
+/** Reads the table and variable names a step works with from the usual StorageObject keys. */
+export class StepIO {
+    static add(list: string[], val: any) {
+        const s = EtlParser.getTextSafe(val);
+        if (s && s.trim().length > 0 && !list.includes(s) && s !== 'dataset' && s !== 'target') list.push(s);
+    }
+
+    /** TableName is usually an input; steps that create it pass `false`. */
+    static inputs(storage: any, includeTableName = true): string[] {
+        const inputs: string[] = [];
+        this.add(inputs, storage.InputTableName);
+        this.add(inputs, storage.JoinTable1);
+        this.add(inputs, storage.JoinTable2);
+        this.add(inputs, storage.FilterTableName);
+        this.add(inputs, storage.ExportMemoryTableName);
+        this.add(inputs, storage.InputVariable);
+        if (includeTableName) this.add(inputs, storage.TableName);
+        return inputs;
+    }
+
+    static outputs(storage: any): string[] {
+        const outputs: string[] = [];
+        this.add(outputs, storage.OutputTableName);
+        this.add(outputs, storage.AppendToTableName);
+        this.add(outputs, storage.VariableName);
+        this.add(outputs, storage.OutputVariable);
+        this.add(outputs, storage.ResultVariable);
+        this.add(outputs, storage.MemoryTableName);
+        return outputs;
+    }
+
+    /** The table or variable a step names as its result, for the step's `Output`. */
+    static result(storage: any): string {
+        return EtlParser.getTextSafe(storage.OutputTableName || storage.TableName || storage.VariableName);
+    }
+
+    /** Drops empty values so handlers can list optional settings inline. */
+    static facts(pairs: [string, any][]): StepFact[] {
+        return pairs
+            .map(([label, val]) => ({ label, value: EtlParser.getTextSafe(val) }))
+            .filter(f => f.value !== '');
+    }
+}
+
+/**
+ * Fallback for step types without a dedicated handler: the step name (or type in the technical view)
+ * as its Context, inputs and outputs from the storage keys, and its Details as DOCX rows.
+ */
+export const GenericHandler: ResolvedStepHandler = {
+    types: [],
+    container: false,
+    alwaysActive: false,
+    businessHidden: false,
+    describe: (ctx: StepContext) => ctx.mode === 'business' ? ctx.name : ctx.type,
+    flowLabel: (_ctx: StepContext, context: string) => context,
+    summary: () => '',
+    output: () => null,
+    schema: () => null,
+    inputs: (ctx: StepContext) => StepIO.inputs(ctx.storage),
+    outputs: (ctx: StepContext) => StepIO.outputs(ctx.storage),
+    details: () => {},
+    technical: () => [],
+    docxRows: (_ctx: StepContext, info: any) => (info.Details || []).map((d: string) => {
+        const at = d.indexOf(': ');
+        return at > 0 ? { label: d.substring(0, at), value: d.substring(at + 2) } : { label: 'Detail', value: d };
+    })
+};
@@ -0,0 +1,10 @@
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+/** Group: a named container with no settings of its own. */
+export const GroupHandler: StepHandler = {
+    types: ['Group'],
+    container: true,
+
+    technical: (ctx: StepContext) => StepIO.facts([['Steps', (ctx.step.children || []).length || '']])
+};
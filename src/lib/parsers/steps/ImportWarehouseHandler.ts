@@ -0,0 +1,62 @@
+import { EtlParser } from '../EtlParser';
+import { GenericHandler, StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+const IMPORT_MODES: Record<string, string> = {
+    'IU': 'Insert or Update',
+    'I': 'Insert Only',
+    'U': 'Update Only',
+    'D': 'Delete',
+    'R': 'Replace'
+};
+
+/** ImportWarehouseData: publishes a memory table to a warehouse table through a column mapping. */
+export const ImportWarehouseHandler: StepHandler = {
+    types: ['ImportWarehouseData'],
+
+    describe: (ctx: StepContext) => ctx.mode === 'business' ? ctx.name : `${ctx.name}: publish to ${ctx.target}`,
+
+    flowLabel: (ctx: StepContext) => `Save to Warehouse: ${ctx.target}`,
+
+    output: (ctx: StepContext) => ({ type: 'WAREHOUSE', name: StepIO.result(ctx.storage) }),
+
+    details: (ctx: StepContext, info: any) => {
+        const storage = ctx.storage;
+        info.TableData = EtlParser.getListSafe(storage.ColumnMapping, 'TableColumnMapping').map((m: any) => {
+            const sourceVal = text(m.MappedValue);
+            const meta = ctx.columnMetadata.get(sourceVal.replace(/^\[|\]$/g, '')) || { Type: 'String', Origin: '' };
+            const type = text(m.ColumnDataType || m.DataType || m.ColumnType) || meta.Type;
+            return { Col1: text(m.ColumnName), Col2: sourceVal, Col3: type, Col4: meta.Origin || '-' };
+        });
+        if (info.TableData.length > 0) info.Headers = ["Target Column", "Source / Value", "Type", "Origin Step"];
+
+        const batchSize = text(storage.BatchSize || storage.CommitSize);
+        const ignoreDups = storage.IgnoreDuplicates === 'true' || storage.SkipDuplicates === 'true';
+        const truncateFirst = storage.TruncateFirst === 'true' || storage.ClearFirst === 'true';
+        if (batchSize && batchSize !== '0') info.Details.push(`Batch Size: ${batchSize}`);
+        if (ignoreDups) info.Details.push(`Duplicates: Ignored`);
+        if (truncateFirst) info.Details.push(`Pre-clear: Yes (truncate before import)`);
+
+        const keyCols = EtlParser.getListSafe(storage.KeyColumns || storage.MatchColumns, 'KeyColumn');
+        if (keyCols.length > 0) info.Details.push(`Key Columns: ${keyCols.map((k: any) => text(k.ColumnName || k)).join(', ')}`);
+
+        EtlParser.extractCriteria(storage).forEach(f => info.Details.push(`Filter: ${f}`));
+
+        const modeCode = text(storage.ImportOption?.['#text'] || storage.ImportOption);
+        const modeDesc = IMPORT_MODES[modeCode] || modeCode;
+        if (modeDesc) info.Details.push(`Mode: ${modeDesc}`);
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Warehouse', ctx.storage.WarehouseName],
+        ['Table', ctx.storage.TableName],
+        ['Import Option', ctx.storage.ImportOption?.['#text'] || ctx.storage.ImportOption]
+    ]),
+
+    docxRows: (ctx: StepContext, info: any) => [
+        ...StepIO.facts([['Target', [text(ctx.storage.WarehouseName), text(ctx.storage.TableName)].filter(Boolean).join('.')]]),
+        ...GenericHandler.docxRows(ctx, info)
+    ]
+};
@@ -0,0 +1,31 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** JoinTable: combines two memory tables into the output table. */
+export const JoinTableHandler: StepHandler = {
+    types: ['JoinTable'],
+
+    describe: (ctx: StepContext) => ctx.mode === 'business'
+        ? `${ctx.name} (with ${text(ctx.storage.JoinTable2)})`
+        : `${ctx.name}: combine with ${text(ctx.storage.JoinTable2)}`,
+
+    output: (ctx: StepContext) => ({ type: 'TABLE', name: StepIO.result(ctx.storage) }),
+
+    details: (ctx: StepContext, info: any) => {
+        info.TableData = EtlParser.getListSafe(ctx.storage.Joins, 'JoinItemDef').map((j: any) => ({
+            Col1: `${text(j.JoinTable1)}.${text(j.JoinColumn1)}`,
+            Col2: `${text(j.JoinType)} ${text(j.JoinTable2)}.${text(j.JoinColumn2)}`
+        }));
+        if (info.TableData.length > 0) info.Headers = ["Left", "Condition"];
+        EtlParser.extractCriteria(ctx.storage).forEach(f => info.Details.push(`Filter: ${f}`));
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Left', ctx.storage.JoinTable1],
+        ['Right', ctx.storage.JoinTable2],
+        ['Output', ctx.storage.OutputTableName]
+    ])
+};
@@ -0,0 +1,40 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** Loop: repeats its children once per value of the input variable. */
+export const LoopHandler: StepHandler = {
+    types: ['Loop'],
+    container: true,
+
+    describe: (ctx: StepContext) => ctx.mode === 'business'
+        ? `${ctx.name} (iterate ${text(ctx.storage.InputVariable)})`
+        : `${ctx.name}: iterate ${text(ctx.storage.InputVariable)}`,
+
+    /** Guesses the purpose of the loop from the kinds of step it repeats. */
+    summary: (ctx: StepContext) => {
+        const types = (ctx.step.children || []).map((c: any) => c.StepType);
+        if (types.includes('RunDirectQuery') || types.includes('RunTableQuery')) return "Fetching detailed data for each item";
+        if (types.includes('ImportWarehouseData')) return "Saving results for each item";
+        if (types.includes('CalculateVariable')) return "Participating in complex calculations";
+        return "Processing items in batch";
+    },
+
+    output: (ctx: StepContext) => ({ type: 'ITERATOR', name: text(ctx.storage.InputVariable) }),
+
+    details: (ctx: StepContext, info: any) => {
+        const storage = ctx.storage;
+        const iterator = text(storage.InputVariable);
+        const maxIter = text(storage.MaxIterations);
+        const breakCond = text(storage.BreakCondition || storage.ExitCondition);
+        const indexVar = text(storage.IndexVariable || storage.LoopIndex);
+        if (iterator) info.Details.push(`Iterator: ${iterator}`);
+        if (maxIter && maxIter !== '0') info.Details.push(`Max Iterations: ${maxIter}`);
+        if (breakCond) info.Details.push(`Break When: ${breakCond}`);
+        if (indexVar) info.Details.push(`Index Variable: ${indexVar}`);
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([['Steps', (ctx.step.children || []).length || '']])
+};
@@ -0,0 +1,16 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+/** PurgeTable and DeleteTable: memory table housekeeping, left out of the business view. */
+export const PurgeTableHandler: StepHandler = {
+    types: ['PurgeTable', 'DeleteTable'],
+    businessHidden: true,
+
+    flowLabel: (ctx: StepContext) => {
+        const table = EtlParser.getTextSafe(ctx.storage.TableToPurge || ctx.storage.TableName || 'Table');
+        return ctx.type === 'PurgeTable' ? `Purge: ${table}` : `Delete Table: ${table}`;
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([['Table', ctx.storage.TableToPurge || ctx.storage.TableName]])
+};
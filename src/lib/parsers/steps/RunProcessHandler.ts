@@ -0,0 +1,22 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** StartProcess and RunProcess: the process called and the parameters passed to it. */
+export const RunProcessHandler: StepHandler = {
+    types: ['StartProcess', 'RunProcess'],
+
+    details: (ctx: StepContext, info: any) => {
+        const procName = text(ctx.storage.ProcessName || ctx.storage.ProcessToRun);
+        const procId = text(ctx.storage.ProcessId);
+        if (procName) info.Details.push(`Process: ${procName}`);
+        if (procId && !procName) info.Details.push(`Process ID: ${procId}`);
+        EtlParser.getListSafe(ctx.storage.Parameters, 'ParameterItem').forEach((p: any) => {
+            info.Details.push(`Param: ${text(p.Name)} = ${text(p.Value)}`);
+        });
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([['Process ID', ctx.storage.ProcessId]])
+};
@@ -0,0 +1,38 @@
+import { EtlParser } from '../EtlParser';
+import { SqlAnalyser } from '../sql/SqlAnalyser';
+import { StepIO } from './GenericHandler';
+import { SqlStepIO } from './SqlHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** The script text when it is SQL, else '' so the SQL hooks fall back to the generic ones. */
+const sql = (ctx: StepContext) => {
+    const script = text(ctx.storage.ScriptText || ctx.storage.Script);
+    return SqlAnalyser.isSql(script, text(ctx.storage.ScriptLanguage || ctx.storage.Language)) ? script : '';
+};
+
+/** Script and ExecuteScript: the language and a preview of the script text; SQL scripts read like ExecuteSQL steps. */
+export const ScriptHandler: StepHandler = {
+    types: ['Script', 'ExecuteScript'],
+
+    describe: (ctx: StepContext) => SqlStepIO.describe(ctx, sql(ctx)),
+    inputs: (ctx: StepContext) => SqlStepIO.inputs(ctx, sql(ctx)),
+    outputs: (ctx: StepContext) => SqlStepIO.outputs(ctx, sql(ctx)),
+
+    details: (ctx: StepContext, info: any) => {
+        const lang = text(ctx.storage.ScriptLanguage || ctx.storage.Language);
+        const scriptText = text(ctx.storage.ScriptText || ctx.storage.Script);
+        if (lang) info.Details.push(`Language: ${lang}`);
+        if (scriptText) {
+            const preview = scriptText.length > 150 ? scriptText.substring(0, 150) + '...' : scriptText;
+            info.Details.push(`Script: ${preview}`);
+        }
+        info.Sql = SqlStepIO.analyse(sql(ctx));
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Script Length', text(ctx.storage.ScriptText || ctx.storage.Script).length || ''],
+        ...SqlStepIO.facts(sql(ctx))
+    ])
+};
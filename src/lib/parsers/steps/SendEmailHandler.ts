@@ -0,0 +1,46 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+const attachments = (storage: any) => EtlParser.getListSafe(storage.SendEmailAttachmentConfigItems, 'SendEmailAttachmentConfigItem');
+
+/** SendEmail: recipients, subject, a body preview and the attachment masks. */
+export const SendEmailHandler: StepHandler = {
+    types: ['SendEmail'],
+
+    describe: (ctx: StepContext) => ctx.mode === 'business' ? ctx.name : `${ctx.name}: send to ${text(ctx.storage.SendTo)}`,
+
+    flowLabel: (ctx: StepContext) => {
+        const count = attachments(ctx.storage).length;
+        return `Email: "${text(ctx.storage.SubjectLine) || 'No Subject'}"${count > 0 ? ` (+${count} att)` : ''}`;
+    },
+
+    details: (ctx: StepContext, info: any) => {
+        const storage = ctx.storage;
+        info.Details.push(`Subject: ${text(storage.SubjectLine)}`);
+        info.Details.push(`To: ${text(storage.SendTo)}`);
+        const cc = text(storage.SendCC);
+        const bcc = text(storage.SendBCC);
+        const from = text(storage.SendFrom);
+        const priority = text(storage.Priority);
+        if (cc) info.Details.push(`CC: ${cc}`);
+        if (bcc) info.Details.push(`BCC: ${bcc}`);
+        if (from) info.Details.push(`From: ${from}`);
+        if (priority && priority !== 'Normal') info.Details.push(`Priority: ${priority}`);
+
+        const bodyText = text(storage.BodyText || storage.Body);
+        const isHtml = storage.IsHtmlBody === 'true' || storage.IsHtmlBody === true;
+        if (bodyText) {
+            const truncated = bodyText.length > 200 ? bodyText.substring(0, 200) + '...' : bodyText;
+            info.Details.push(`Body${isHtml ? ' (HTML)' : ''}: ${truncated}`);
+        }
+        attachments(storage).forEach((a: any) => info.Details.push(`Attachment: ${text(a.FileMask)}`));
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Recipients', text(ctx.storage.SendTo).split(/[;,]/).filter(s => s.trim()).length || ''],
+        ['Attachments', attachments(ctx.storage).length || '']
+    ])
+};
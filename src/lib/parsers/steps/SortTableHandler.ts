@@ -0,0 +1,22 @@
+import { EtlParser } from '../EtlParser';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** SortTable: orders a memory table by its sort columns. */
+export const SortTableHandler: StepHandler = {
+    types: ['SortTable'],
+
+    details: (ctx: StepContext, info: any) => {
+        const inputTable = text(ctx.storage.InputTableName || ctx.storage.TableName);
+        if (inputTable) info.Details.push(`Input: ${inputTable}`);
+        const sortCols = EtlParser.getListSafe(ctx.storage.SortColumns, 'SortColumnItem');
+        if (sortCols.length > 0) {
+            const sortInfo = sortCols.map((c: any) => {
+                const direction = text(c.SortDirection || c.Direction) || 'Asc';
+                return `${text(c.ColumnName)} ${direction === 'Descending' || direction === 'Desc' ? 'DESC' : 'ASC'}`;
+            }).join(', ');
+            info.Details.push(`Sort: ${sortInfo}`);
+        }
+    }
+};
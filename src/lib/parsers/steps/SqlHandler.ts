@@ -0,0 +1,75 @@
+import { EtlParser } from '../EtlParser';
+import { SqlAnalyser, type SqlAnalysis } from '../sql/SqlAnalyser';
+import { GenericHandler, StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+const statement = (ctx: StepContext) => text(ctx.storage.SqlStatement || ctx.storage.SQL || ctx.storage.Query);
+
+/**
+ * Hooks for steps that run SQL text, shared with ScriptHandler for scripts written in SQL:
+ * the statements as the Context, and the tables they read and write as Inputs/Outputs.
+ */
+export class SqlStepIO {
+    /** null when the text holds no statement */
+    static analyse(sql: string): SqlAnalysis | null {
+        const analysis = sql.trim() ? SqlAnalyser.analyse(sql) : null;
+        return analysis && analysis.statements.length > 0 ? analysis : null;
+    }
+
+    static describe(ctx: StepContext, sql: string): string {
+        const analysis = this.analyse(sql);
+        return analysis ? SqlAnalyser.describe(analysis) : GenericHandler.describe(ctx);
+    }
+
+    static inputs(ctx: StepContext, sql: string): string[] {
+        const inputs = StepIO.inputs(ctx.storage);
+        this.analyse(sql)?.reads.forEach(t => StepIO.add(inputs, t));
+        return inputs;
+    }
+
+    static outputs(ctx: StepContext, sql: string): string[] {
+        const outputs = StepIO.outputs(ctx.storage);
+        this.analyse(sql)?.writes.forEach(t => StepIO.add(outputs, t));
+        return outputs;
+    }
+
+    static facts(sql: string): [string, any][] {
+        const analysis = this.analyse(sql);
+        if (!analysis) return [];
+        return [
+            ['Statements', [...new Set(analysis.statements.map(s => s.kind))].join(', ')],
+            ['Tables Read', analysis.reads.join(', ')],
+            ['Tables Written', analysis.writes.join(', ')],
+            ['Columns', analysis.columns.join(', ')]
+        ];
+    }
+}
+
+/**
+ * ExecuteSQL and RunSQL: the connection and a preview of the statement, with the
+ * statement's analysis as `info.Sql` for the formatted view and its warning badge.
+ */
+export const SqlHandler: StepHandler = {
+    types: ['ExecuteSQL', 'RunSQL'],
+
+    describe: (ctx: StepContext) => SqlStepIO.describe(ctx, statement(ctx)),
+    inputs: (ctx: StepContext) => SqlStepIO.inputs(ctx, statement(ctx)),
+    outputs: (ctx: StepContext) => SqlStepIO.outputs(ctx, statement(ctx)),
+
+    details: (ctx: StepContext, info: any) => {
+        const sql = statement(ctx);
+        const conn = text(ctx.storage.ConnectionString || ctx.storage.Connection);
+        if (conn) info.Details.push(`Connection: ${conn}`);
+        if (sql) {
+            const preview = sql.length > 200 ? sql.substring(0, 200) + '...' : sql;
+            info.Details.push(`SQL: ${preview}`);
+        }
+        info.Sql = SqlStepIO.analyse(sql);
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['SQL Length', statement(ctx).length || ''],
+        ...SqlStepIO.facts(statement(ctx))
+    ])
+};
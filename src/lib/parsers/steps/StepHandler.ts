@@ -0,0 +1,54 @@
+export type StepMode = 'business' | 'technical';
+
+/** A labelled value for the technical view or a DOCX settings row. */
+export type StepFact = { label: string, value: string };
+
+/** Where a step's output columns come from, for the column metadata used by later steps. */
+export type StepSchema = { columns: any[], source: 'Query' | 'Calc' | 'Table' };
+
+export type ColumnMeta = { Type: string, Source: string, Origin: string };
+
+/**
+ * Everything a handler can read about the step being rendered.
+ * `table` and `target` carry the parser's 'dataset'/'target' placeholders when the step names no table.
+ */
+export interface StepContext {
+    step: any;
+    storage: any;
+    type: string;
+    name: string;
+    mode: StepMode;
+    table: string;
+    target: string;
+    columnMetadata: Map<string, ColumnMeta>;
+    variableUsage: Map<string, string[]>;
+}
+
+/**
+ * Renders one family of T1 step types. Anything left out falls back to `GenericHandler`.
+ */
+export interface StepHandler {
+    types: readonly string[];
+    /** Kept in the business view with their children, even when the step itself is disabled. */
+    container?: boolean;
+    /** Structural logic that counts as active even when the XML marks it inactive. */
+    alwaysActive?: boolean;
+    /** Set-up steps left out of the business view. */
+    businessHidden?: boolean;
+    /** The step's Context line. */
+    describe?(ctx: StepContext): string;
+    /** The Mermaid/flow label; `context` is what `describe` returned. */
+    flowLabel?(ctx: StepContext, context: string): string;
+    /** The SmartDesc hint shown under the Context in the business view. */
+    summary?(ctx: StepContext): string;
+    output?(ctx: StepContext): { type: string, name: string } | null;
+    schema?(ctx: StepContext): StepSchema | null;
+    inputs?(ctx: StepContext): string[];
+    outputs?(ctx: StepContext): string[];
+    /** Adds the step's Details lines and its TableData/Headers to `info`. */
+    details?(ctx: StepContext, info: any): void;
+    technical?(ctx: StepContext): StepFact[];
+    docxRows?(ctx: StepContext, info: any): StepFact[];
+}
+
+export type ResolvedStepHandler = Required<StepHandler>;
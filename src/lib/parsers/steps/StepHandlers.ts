@@ -0,0 +1,80 @@
+import type { EtlProcess } from '../../model/EtlModel';
+import { AppendTableHandler } from './AppendTableHandler';
+import { BranchHandler } from './BranchHandler';
+import { ColumnEditHandler } from './ColumnEditHandler';
+import { ColumnHandler } from './ColumnHandler';
+import { CreateTableHandler } from './CreateTableHandler';
+import { DatasourceQueryHandler } from './DatasourceQueryHandler';
+import { DecisionHandler } from './DecisionHandler';
+import { DeleteWarehouseHandler } from './DeleteWarehouseHandler';
+import { ExportToExcelHandler } from './ExportToExcelHandler';
+import { FilterTableHandler } from './FilterTableHandler';
+import { GenericHandler } from './GenericHandler';
+import { GroupHandler } from './GroupHandler';
+import { ImportWarehouseHandler } from './ImportWarehouseHandler';
+import { JoinTableHandler } from './JoinTableHandler';
+import { LoopHandler } from './LoopHandler';
+import { PurgeTableHandler } from './PurgeTableHandler';
+import { RunProcessHandler } from './RunProcessHandler';
+import { ScriptHandler } from './ScriptHandler';
+import { SendEmailHandler } from './SendEmailHandler';
+import { SortTableHandler } from './SortTableHandler';
+import { SqlHandler } from './SqlHandler';
+import { TableQueryHandler } from './TableQueryHandler';
+import { TextFileHandler } from './TextFileHandler';
+import { VariableHandler } from './VariableHandler';
+import type { ResolvedStepHandler, StepHandler } from './StepHandler';
+
+/** A step type in a process that renders through `GenericHandler`, with the steps of that type. */
+export type UnhandledStepType = { type: string, steps: { key: string, name: string }[] };
+
+/**
+ * Registry of step handlers by T1 StepType. Adding a step type means adding a handler module
+ * and listing it in `handlers()`.
+ */
+export class StepHandlers {
+    private static registry: Map<string, ResolvedStepHandler> | null = null;
+
+    // Handlers import EtlParser, which imports this registry, so the list is read on first use.
+    private static handlers(): StepHandler[] {
+        return [
+            TableQueryHandler, DatasourceQueryHandler, ColumnHandler, VariableHandler,
+            ImportWarehouseHandler, DeleteWarehouseHandler, JoinTableHandler, CreateTableHandler,
+            AppendTableHandler, PurgeTableHandler, ColumnEditHandler, FilterTableHandler, SortTableHandler,
+            ExportToExcelHandler, SendEmailHandler, TextFileHandler,
+            GroupHandler, LoopHandler, DecisionHandler, BranchHandler,
+            ScriptHandler, SqlHandler, RunProcessHandler
+        ];
+    }
+
+    private static get map(): Map<string, ResolvedStepHandler> {
+        if (!this.registry) {
+            this.registry = new Map();
+            for (const handler of this.handlers()) {
+                const resolved: ResolvedStepHandler = { ...GenericHandler, ...handler };
+                handler.types.forEach(type => this.registry!.set(type, resolved));
+            }
+        }
+        return this.registry;
+    }
+
+    /** The handler for a step type, or `GenericHandler` when it has none. */
+    static resolve(stepType: string): ResolvedStepHandler {
+        return this.map.get(stepType) ?? GenericHandler;
+    }
+
+    static isHandled(stepType: string): boolean {
+        return this.map.has(stepType);
+    }
+
+    /** Step types in the process that fall back to generic rendering, in order of first use. */
+    static unhandled(process: EtlProcess): UnhandledStepType[] {
+        const byType = new Map<string, UnhandledStepType>();
+        process.steps.forEach(step => {
+            if (!step.rawType || this.isHandled(step.rawType)) return;
+            if (!byType.has(step.rawType)) byType.set(step.rawType, { type: step.rawType, steps: [] });
+            byType.get(step.rawType)!.steps.push({ key: step.key, name: step.name });
+        });
+        return Array.from(byType.values());
+    }
+}
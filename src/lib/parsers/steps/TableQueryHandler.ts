@@ -0,0 +1,56 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** Column grid shared by the query steps that select warehouse or memory table columns. */
+export const queryColumnRows = (storage: any) => EtlParser.getListSafe(storage.Columns, 'ColumnItem').map((c: any) => ({
+    Col1: text(c.ColumnName),
+    Col2: text(c.ColumnSource) || text(c.ColumnName) || '-',
+    Col3: text(c.ColumnDataType || c.DataType) || 'String',
+    Col4: text(c.ColumnActionType?.['#text'] || c.ColumnActionType) || 'Display'
+}));
+
+/** RunDirectQuery (warehouse) and RunTableQuery (memory table). */
+export const TableQueryHandler: StepHandler = {
+    types: ['RunDirectQuery', 'RunTableQuery'],
+
+    describe: (ctx: StepContext) => {
+        const direct = ctx.type === 'RunDirectQuery';
+        if (ctx.mode === 'business') return direct ? `${ctx.name} (from ${ctx.table})` : ctx.name;
+        return `${ctx.name}: ${direct ? 'pull' : 'read'} ${ctx.table}`;
+    },
+
+    flowLabel: (ctx: StepContext, context: string) => ctx.type === 'RunDirectQuery' ? `Query: ${ctx.table} ➔ ${ctx.target}` : context,
+
+    schema: (ctx: StepContext) => ({ columns: EtlParser.getListSafe(ctx.storage.Columns, 'ColumnItem'), source: 'Query' }),
+
+    details: (ctx: StepContext, info: any) => {
+        const storage = ctx.storage;
+        info.TableData = queryColumnRows(storage);
+        if (info.TableData.length > 0) info.Headers = ["Column Name", "Source Field", "Type", "Action"];
+
+        const topN = text(storage.TopN || storage.Top || storage.MaxRows);
+        const skipN = text(storage.SkipN || storage.Skip || storage.Offset);
+        const distinct = storage.Distinct === 'true' || storage.DistinctRows === 'true';
+        if (topN && topN !== '0') info.Details.push(`Limit: Top ${topN} rows`);
+        if (skipN && skipN !== '0') info.Details.push(`Skip: First ${skipN} rows`);
+        if (distinct) info.Details.push(`Distinct: Yes`);
+
+        const groupByCols = EtlParser.getListSafe(storage.GroupByColumns || storage.GroupBy, 'GroupByColumnItem');
+        if (groupByCols.length > 0) {
+            info.Details.push(`Group By: ${groupByCols.map((g: any) => text(g.ColumnName || g)).join(', ')}`);
+        }
+        const having = text(storage.HavingCriteria || storage.Having);
+        if (having) info.Details.push(`Having: ${having}`);
+
+        EtlParser.extractCriteria(storage).forEach(f => info.Details.push(`Filter: ${f}`));
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Suite', ctx.storage.Suite],
+        ['Source', ctx.storage.TableName || ctx.storage.InputTableName],
+        ['Columns', EtlParser.getListSafe(ctx.storage.Columns, 'ColumnItem').length || '']
+    ])
+};
@@ -0,0 +1,50 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** LoadTextFile and SaveText: move a memory table to or from a text file. */
+export const TextFileHandler: StepHandler = {
+    types: ['LoadTextFile', 'SaveText', 'SaveTextfile'],
+
+    describe: (ctx: StepContext) => {
+        if (ctx.mode === 'business') return ctx.name;
+        const storage = ctx.storage;
+        const path = text(storage.FileLocation || storage.Path || '');
+        const pathPart = path ? ` (${path})` : '';
+        const table = text(storage.MemoryTableName || ctx.table);
+        if (ctx.type === 'LoadTextFile') {
+            const filename = text(storage.FileName || '');
+            return `${ctx.name}: load ${pathPart ? `${filename}${pathPart}` : filename} into ${table}`;
+        }
+        return `Save ${text(storage.FileName || 'Text File')} to ${table}${pathPart}`;
+    },
+
+    flowLabel: (ctx: StepContext) => {
+        const file = text(ctx.storage.FileName).split('\\').pop();
+        return `${ctx.type === 'LoadTextFile' ? 'Load' : 'Save'} Text: ${file || 'File'}`;
+    },
+
+    /** A load with no named output leaves its text in [DATA]. */
+    outputs: (ctx: StepContext) => {
+        const outputs = StepIO.outputs(ctx.storage);
+        if (ctx.type === 'LoadTextFile' && outputs.length === 0) StepIO.add(outputs, 'DATA');
+        return outputs;
+    },
+
+    details: (ctx: StepContext, info: any) => {
+        const storage = ctx.storage;
+        const file = text(storage.FileName);
+        if (file) info.Details.push(`File: ${file}`);
+        if (ctx.type !== 'LoadTextFile') return;
+        if (storage.FileEncoding) info.Details.push(`Encoding: ${text(storage.FileEncoding)}`);
+        if (storage.StartCondition) info.Details.push(`Start When: ${text(storage.StartCondition)}`);
+        if (storage.StopCondition) info.Details.push(`Stop When: ${text(storage.StopCondition)}`);
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Location', ctx.storage.FileLocation || ctx.storage.Path],
+        ['Table', ctx.storage.MemoryTableName]
+    ])
+};
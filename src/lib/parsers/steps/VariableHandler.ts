@@ -0,0 +1,38 @@
+import { EtlParser } from '../EtlParser';
+import { StepIO } from './GenericHandler';
+import type { StepContext, StepHandler } from './StepHandler';
+
+const text = (val: any) => EtlParser.getTextSafe(val);
+
+/** SetVariable and CalculateVariable. */
+export const VariableHandler: StepHandler = {
+    types: ['SetVariable', 'CalculateVariable'],
+
+    flowLabel: (ctx: StepContext) =>
+        `${text(ctx.storage.VariableName)} = <code>${text(ctx.storage.VariableValue || ctx.storage.Expression)}</code>`,
+
+    summary: (ctx: StepContext) => {
+        const usedIn = ctx.variableUsage.get(text(ctx.storage.VariableName));
+        return usedIn && usedIn.length > 0 ? `Used in: ${usedIn.join(', ')}` : '';
+    },
+
+    output: (ctx: StepContext) => ({ type: 'VAR', name: StepIO.result(ctx.storage) }),
+
+    inputs: (ctx: StepContext) => StepIO.inputs(ctx.storage, false),
+
+    details: (ctx: StepContext, info: any) => {
+        const rawExpr = text(ctx.storage.Expression || ctx.storage.VariableValue);
+        info.TableData = [{
+            Col1: text(ctx.storage.VariableName),
+            Col2: rawExpr,
+            Col3: 'Variable',
+            Rules: EtlParser.flattenLogic(rawExpr)
+        }];
+        info.Headers = ["Variable", "Expression", "Type"];
+    },
+
+    technical: (ctx: StepContext) => StepIO.facts([
+        ['Variable', ctx.storage.VariableName],
+        ['Memory Table', ctx.storage.UseMemoryTable === true || ctx.storage.UseMemoryTable === 'true' ? text(ctx.storage.InputTableName) || 'Yes' : '']
+    ])
+};
@@ -0,0 +1,71 @@
+/** A CSV file read as text: the header row and one record per data row, keyed by header. */
+export interface CsvTable {
+    fileName: string;
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+/**
+ * Reads CSV sample files for the dry-run simulator. Handles quoted fields with
+ * embedded delimiters, doubled quotes and line breaks, a UTF-8 BOM, and files
+ * delimited by semicolons or tabs (whichever the header row uses most).
+ */
+export class CsvReader {
+
+    static parse(text: string, fileName = ''): CsvTable {
+        const src = (text ?? '').replace(/^﻿/, '');
+        const records = this.records(src, this.delimiter(src));
+        const [header = [], ...data] = records;
+        const columns = header.map((h, i) => h.trim() || `Column${i + 1}`);
+
+        const rows = data
+            .filter(r => r.some(v => v.trim() !== ''))
+            .map(r => Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ''])));
+        return { fileName, columns, rows };
+    }
+
+    private static delimiter(src: string): string {
+        const header = src.split(/\r?\n/, 1)[0] ?? '';
+        const counts = [',', ';', '\t'].map(d => ({ d, n: header.split(d).length }));
+        return counts.sort((a, b) => b.n - a.n)[0]!.d;
+    }
+
+    private static records(src: string, delimiter: string): string[][] {
+        const records: string[][] = [];
+        let record: string[] = [];
+        let field = '';
+        let quoted = false;
+
+        for (let i = 0; i < src.length; i++) {
+            const ch = src[i]!;
+            if (quoted) {
+                if (ch === '"' && src[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (ch === '"') {
+                    quoted = false;
+                } else {
+                    field += ch;
+                }
+            } else if (ch === '"' && field === '') {
+                quoted = true;
+            } else if (ch === delimiter) {
+                record.push(field);
+                field = '';
+            } else if (ch === '\n' || ch === '\r') {
+                if (ch === '\r' && src[i + 1] === '\n') i++;
+                record.push(field);
+                records.push(record);
+                record = [];
+                field = '';
+            } else {
+                field += ch;
+            }
+        }
+        if (field !== '' || record.length > 0) {
+            record.push(field);
+            records.push(record);
+        }
+        return records;
+    }
+}
@@ -0,0 +1,586 @@
+import { EtlModel, type EtlProcess, type EtlStep, type EtlStepOf, type QueryStep, type TextFileStep } from '../model/EtlModel';
+import type { CriteriaCondition } from '../model/ModelValues';
+import { ExpressionEvaluator, type EvaluationScope, type ExpressionValue } from '../parsers/expression/ExpressionEvaluator';
+import { ExpressionParser } from '../parsers/expression/ExpressionParser';
+import type { CsvTable } from './CsvReader';
+
+/** A row of a simulated memory table, keyed by upper-case column name. */
+export type SimulationRow = Record<string, ExpressionValue>;
+
+export interface SimulationTable {
+    name: string;
+    /** Column names as first declared; rows are keyed by their upper-case form */
+    columns: string[];
+    rows: SimulationRow[];
+}
+
+export type SimulationStatus =
+    | 'ran'         // Executed against the in-memory tables
+    | 'no-sample'   // A source step with no CSV sample: its table starts empty
+    | 'stubbed'     // A side effect (email, warehouse, SQL, files) that was logged, not performed
+    | 'skipped'     // A step type the simulator cannot run
+    | 'error';
+
+export interface SimulationStepResult {
+    /** Position in the run log (1-based); steps inside loops appear once per iteration */
+    run: number;
+    stepKey: string;
+    stepName: string;
+    stepType: string;
+    status: SimulationStatus;
+    message: string;
+    /** The table the step wrote or filtered, as it stands after the step */
+    table: { name: string, columns: string[], rowCount: number, preview: SimulationRow[] } | null;
+}
+
+export interface SimulationResult {
+    log: SimulationStepResult[];
+    variables: { name: string, value: ExpressionValue }[];
+    tables: SimulationTable[];
+    /** True when the run stopped at `maxSteps` */
+    truncated: boolean;
+}
+
+export interface SimulationOptions {
+    /** CSV samples for source steps, keyed by step key */
+    samples?: Record<string, CsvTable>;
+    /** Values for process parameters, overriding their defaults */
+    variables?: Record<string, string>;
+    previewRows?: number;
+    /** Stops runaway loops: the most step executions one run may log */
+    maxSteps?: number;
+    /** Iteration cap for loops with no MaxIterations of their own */
+    maxLoopIterations?: number;
+}
+
+interface SimulationState {
+    process: EtlProcess;
+    options: Required<SimulationOptions>;
+    tables: Map<string, SimulationTable>;
+    variables: Map<string, { name: string, value: ExpressionValue }>;
+    log: SimulationStepResult[];
+    truncated: boolean;
+}
+
+const SOURCE_TYPES = ['RunDirectQuery', 'RunDatasourceQuery', 'RunSimpleQuery', 'LoadTextFile'] as const;
+
+/**
+ * Dry-runs an ETL process over CSV samples without a T1 server. Source steps
+ * load their sample, memory table steps run in memory with the expression
+ * evaluator, Loop and Decision/Branch steps control which children run, and
+ * steps with side effects outside the process are logged as stubs.
+ */
+export class EtlSimulator {
+
+    /** Active steps that read data from outside the process and so take a CSV sample. */
+    static sourceSteps(process: EtlProcess): (QueryStep | TextFileStep)[] {
+        return EtlModel.activeSteps(process).filter((s): s is QueryStep | TextFileStep =>
+            (SOURCE_TYPES as readonly string[]).includes(s.type));
+    }
+
+    static run(process: EtlProcess, options: SimulationOptions = {}): SimulationResult {
+        const state: SimulationState = {
+            process,
+            options: { samples: {}, variables: {}, previewRows: 5, maxSteps: 1000, maxLoopIterations: 100, ...options },
+            tables: new Map(),
+            variables: new Map(),
+            log: [],
+            truncated: false
+        };
+
+        process.variables.forEach(v => {
+            const given = Object.entries(state.options.variables).find(([k]) => k.toUpperCase() === v.name.toUpperCase())?.[1];
+            let value: ExpressionValue = given ?? v.defaultValue;
+            if (given === undefined && v.defaultIsExpression && v.defaultValue) {
+                try {
+                    value = ExpressionEvaluator.evaluate(v.defaultValue, this.scope(state));
+                } catch {
+                    value = v.defaultValue;
+                }
+            }
+            state.variables.set(v.name.toUpperCase(), { name: v.name, value });
+        });
+
+        this.runSteps(state, process.steps.filter(s => s.depth === 0));
+
+        return {
+            log: state.log,
+            variables: [...state.variables.values()],
+            tables: [...state.tables.values()],
+            truncated: state.truncated
+        };
+    }
+
+    private static runSteps(state: SimulationState, steps: EtlStep[]) {
+        for (const step of steps) {
+            if (state.truncated) return;
+            if (step.isActive) this.runStep(state, step);
+        }
+    }
+
+    private static runStep(state: SimulationState, step: EtlStep) {
+        if (step.type === 'Group') {
+            this.runSteps(state, EtlModel.children(state.process, step));
+            return;
+        }
+        if (state.log.length >= state.options.maxSteps) {
+            state.truncated = true;
+            return;
+        }
+
+        const entry: SimulationStepResult = {
+            run: state.log.length + 1,
+            stepKey: step.key,
+            stepName: step.name,
+            stepType: step.rawType,
+            status: 'ran',
+            message: '',
+            table: null
+        };
+        state.log.push(entry);
+
+        try {
+            const outcome = this.execute(state, step, entry);
+            if (outcome) {
+                entry.status = outcome.status ?? 'ran';
+                entry.message = outcome.message;
+                if (outcome.table) entry.table = this.snapshot(state, outcome.table);
+            }
+        } catch (e) {
+            entry.status = 'error';
+            entry.message = e instanceof Error ? e.message : String(e);
+        }
+    }
+
+    /** Runs one step and says what happened; container steps run their children from here. */
+    private static execute(state: SimulationState, step: EtlStep, entry: SimulationStepResult): { status?: SimulationStatus, message: string, table?: string } | void {
+        const table = (name: string) => this.table(state, name);
+
+        switch (step.type) {
+            case 'RunDirectQuery':
+            case 'RunDatasourceQuery':
+            case 'RunSimpleQuery':
+            case 'LoadTextFile':
+                return this.load(state, step);
+            case 'RunTableQuery': {
+                const input = table(step.inputTable);
+                const out = this.create(state, step.outputTable || step.inputTable, step.columns.map(c => c.name));
+                let rows = input.rows.filter(row => this.matches(state, row, step.criteria));
+                rows = rows.map(row => this.project(state, row, input, step.columns.map(c => ({ name: c.name, source: c.source || c.name }))));
+                out.rows = step.distinct ? this.distinct(rows) : rows;
+                return { message: `${out.rows.length} of ${input.rows.length} rows from ${input.name}`, table: out.name };
+            }
+            case 'CreateTable': {
+                const out = this.create(state, step.table, step.outputColumns.map(c => c.name));
+                return { message: `Created ${out.name} with ${out.columns.length} columns`, table: out.name };
+            }
+            case 'AddColumn':
+            case 'UpdateColumn': {
+                const input = table(step.inputTable || step.outputTable);
+                const out = this.copyTo(state, input, step.outputTable || input.name);
+                const lookups = step.columns.filter(c => c.lookup).map(c => c.name);
+                step.columns.forEach(c => { if (!this.hasColumn(out, c.name)) out.columns.push(c.name); });
+                out.rows.forEach((row, i) => {
+                    const selected = this.matches(state, row, step.criteria);
+                    step.columns.forEach(c => {
+                        const key = c.name.toUpperCase();
+                        // Rows outside the criteria, lookups and empty expressions keep (or start at) the default
+                        if (!selected || c.lookup || !c.expression) {
+                            if (step.type === 'AddColumn') row[key] = c.defaultValue || null;
+                            return;
+                        }
+                        try {
+                            row[key] = ExpressionEvaluator.evaluate(c.expression, this.scope(state, out, row));
+                        } catch (e) {
+                            throw new Error(`Row ${i + 1}, ${c.name}: ${e instanceof Error ? e.message : e}`);
+                        }
+                    });
+                });
+                const note = lookups.length > 0 ? ` Lookups are not simulated: ${lookups.join(', ')} take their default value.` : '';
+                return { message: `${step.type === 'AddColumn' ? 'Added' : 'Updated'} ${step.columns.map(c => c.name).join(', ')} on ${out.rows.length} rows.${note}`, table: out.name };
+            }
+            case 'FilterTable': {
+                const input = table(step.inputTable);
+                const before = input.rows.length;
+                const out = this.copyTo(state, input, step.outputTable || input.name);
+                out.rows = out.rows.filter(row => this.matches(state, row, step.criteria));
+                return { message: `Kept ${out.rows.length} of ${before} rows`, table: out.name };
+            }
+            case 'SortTable': {
+                const out = this.copyTo(state, table(step.inputTable), step.outputTable || step.inputTable);
+                out.rows.sort((a, b) => {
+                    for (const s of step.sort) {
+                        const order = ExpressionEvaluator.compare(a[s.column.toUpperCase()] ?? null, b[s.column.toUpperCase()] ?? null);
+                        if (order !== 0) return s.descending ? -order : order;
+                    }
+                    return 0;
+                });
+                return { message: `Sorted by ${step.sort.map(s => `${s.column}${s.descending ? ' desc' : ''}`).join(', ') || 'nothing'}`, table: out.name };
+            }
+            case 'JoinTable':
+                return this.join(state, step);
+            case 'AppendTable': {
+                const input = table(step.inputTable);
+                const existing = state.tables.get(step.targetTable.toUpperCase());
+                const mappings = step.mappings.length > 0
+                    ? step.mappings
+                    : (existing ? existing.columns.filter(c => this.hasColumn(input, c)) : input.columns).map(column => ({ column, value: `[${column}]` }));
+                const target = existing ?? this.create(state, step.targetTable, mappings.map(m => m.column));
+                mappings.forEach(m => { if (!this.hasColumn(target, m.column)) target.columns.push(m.column); });
+                input.rows.forEach(row => {
+                    const added: SimulationRow = Object.fromEntries(target.columns.map(c => [c.toUpperCase(), null]));
+                    mappings.forEach(m => { added[m.column.toUpperCase()] = ExpressionEvaluator.evaluate(m.value, this.scope(state, input, row)); });
+                    target.rows.push(added);
+                });
+                return { message: `Appended ${input.rows.length} rows from ${input.name}`, table: target.name };
+            }
+            case 'RenameColumn': {
+                const t = table(step.inputTable);
+                const index = t.columns.findIndex(c => c.toUpperCase() === step.from.toUpperCase());
+                if (index < 0) throw new Error(`${t.name} has no column ${step.from}`);
+                t.columns[index] = step.to;
+                t.rows.forEach(row => {
+                    const value = row[step.from.toUpperCase()] ?? null;
+                    delete row[step.from.toUpperCase()];
+                    row[step.to.toUpperCase()] = value;
+                });
+                return { message: `Renamed ${step.from} to ${step.to}`, table: t.name };
+            }
+            case 'DeleteColumn': {
+                const t = table(step.inputTable);
+                const drop = new Set(step.columns.map(c => c.toUpperCase()));
+                t.columns = t.columns.filter(c => !drop.has(c.toUpperCase()));
+                t.rows.forEach(row => drop.forEach(c => delete row[c]));
+                return { message: `Deleted ${step.columns.join(', ')}`, table: t.name };
+            }
+            case 'PurgeTable': {
+                const targets = step.purgeType.toUpperCase() === 'ALL' ? [...state.tables.values()] : step.tables.map(t => state.tables.get(t.toUpperCase())).filter(t => t !== undefined);
+                targets.forEach(t => { t.rows = []; });
+                return { message: `Cleared ${targets.map(t => t.name).join(', ') || 'no tables'}` };
+            }
+            case 'SetVariable':
+            case 'CalculateVariable': {
+                const input = step.inputTable ? table(step.inputTable) : undefined;
+                const rows = input ? input.rows.filter(row => this.matches(state, row, step.criteria)) : [];
+                const scoped = input ? { ...input, rows } : undefined;
+                const value = ExpressionEvaluator.evaluate(step.expression, this.scope(state, scoped, rows[0]));
+                this.setVariable(state, step.variable, value);
+                return { message: `${step.variable} = ${this.display(value)}` };
+            }
+            case 'Loop': {
+                const cap = step.maxIterations > 0 ? step.maxIterations : state.options.maxLoopIterations;
+                let iterations = 0;
+                while (iterations < cap && !state.truncated) {
+                    if (step.condition && !ExpressionEvaluator.truthy(ExpressionEvaluator.evaluate(step.condition, this.scope(state)))) break;
+                    iterations++;
+                    this.runSteps(state, EtlModel.children(state.process, step));
+                }
+                const capped = iterations === cap ? ` (stopped at the ${cap} iteration limit)` : '';
+                return { message: `Ran ${iterations} iteration${iterations === 1 ? '' : 's'}${capped}` };
+            }
+            case 'Decision': {
+                const input = step.inputTable ? state.tables.get(step.inputTable.toUpperCase()) : undefined;
+                const branches = EtlModel.children(state.process, step).filter(c => c.isActive);
+                const taken = branches.find(b => b.type !== 'Branch' || !b.expression
+                    || ExpressionEvaluator.truthy(ExpressionEvaluator.evaluate(b.expression, this.scope(state, input))));
+                entry.message = taken ? `Took "${taken.name}"` : 'No branch matched';
+                if (taken?.type === 'Branch') this.runSteps(state, EtlModel.children(state.process, taken));
+                else if (taken) this.runStep(state, taken);
+                return { message: entry.message, table: input?.name };
+            }
+            case 'Branch': {
+                // A Branch outside a Decision guards its own children
+                const met = !step.expression || ExpressionEvaluator.truthy(ExpressionEvaluator.evaluate(step.expression, this.scope(state)));
+                if (met) this.runSteps(state, EtlModel.children(state.process, step));
+                return { message: met ? 'Condition met' : 'Condition not met' };
+            }
+            case 'ImportWarehouseData': {
+                const rows = state.tables.get(step.inputTable.toUpperCase())?.rows.length ?? 0;
+                return { status: 'stubbed', message: `Would import ${rows} rows from ${step.inputTable} into ${[step.warehouse, step.table].filter(Boolean).join('.')}`, table: step.inputTable };
+            }
+            case 'DeleteWarehouseData':
+                return { status: 'stubbed', message: `Would delete rows from ${[step.warehouse, step.table].filter(Boolean).join('.')}` };
+            case 'ExecuteSQL':
+            case 'RunSQL':
+                return { status: 'stubbed', message: `Would run SQL${step.connection ? ` on ${step.connection}` : ''}` };
+            case 'Script':
+            case 'ExecuteScript':
+                return { status: 'stubbed', message: `Would run a ${step.language || ''} script`.replace('  ', ' ') };
+            case 'SendEmail':
+                return { status: 'stubbed', message: `Would email ${step.to.join(', ') || '(no recipients)'}: ${this.substitute(state, step.subject)}` };
+            case 'ExportToExcel': {
+                const rows = state.tables.get(step.inputTable.toUpperCase())?.rows.length ?? 0;
+                return { status: 'stubbed', message: `Would export ${rows} rows to ${this.substitute(state, step.file.name)}`, table: step.inputTable };
+            }
+            case 'SaveText':
+                return { status: 'stubbed', message: `Would write ${this.substitute(state, step.file.name)}` };
+            case 'StartProcess':
+            case 'RunProcess':
+                return { status: 'stubbed', message: `Would run process ${step.process || step.processId}` };
+            default:
+                return { status: 'skipped', message: `${step.rawType} steps are not simulated` };
+        }
+    }
+
+    /** Loads a source step's CSV sample into its output table. */
+    private static load(state: SimulationState, step: QueryStep | TextFileStep): { status?: SimulationStatus, message: string, table?: string } {
+        const sample = state.options.samples[step.key];
+        const query = 'columns' in step ? step : null;
+        const columns = query ? query.columns.map(c => c.name) : step.outputColumns.map(c => c.name);
+        const name = step.outputTable || step.key;
+
+        if (!sample) {
+            const out = this.create(state, name, columns);
+            return { status: 'no-sample', message: 'No sample loaded; the table starts empty', table: out.name };
+        }
+
+        const source: SimulationTable = {
+            name: sample.fileName,
+            columns: sample.columns,
+            rows: sample.rows.map(r => Object.fromEntries(Object.entries(r).map(([k, v]) => [k.toUpperCase(), v])))
+        };
+        const out = this.create(state, name, columns.length > 0 ? columns : sample.columns);
+        const mapped = !query || query.columns.length === 0
+            ? source.rows.map(row => Object.fromEntries(out.columns.map(c => [c.toUpperCase(), row[c.toUpperCase()] ?? null])))
+            : source.rows
+                .filter(row => this.matches(state, row, query.criteria))
+                .map(row => this.project(state, row, source, query.columns.map(c => ({ name: c.name, source: c.source || c.name }))));
+        out.rows = query?.distinct ? this.distinct(mapped) : mapped;
+        return { message: `Loaded ${out.rows.length} of ${sample.rows.length} rows from ${sample.fileName}`, table: out.name };
+    }
+
+    /** Builds a row of query columns: a matching field by name, else the source evaluated as an expression. */
+    private static project(state: SimulationState, row: SimulationRow, from: SimulationTable, columns: { name: string, source: string }[]): SimulationRow {
+        const out: SimulationRow = {};
+        columns.forEach(c => {
+            const node = ExpressionParser.tryParse(c.source);
+            const field = node && (node.kind === 'column' || node.kind === 'identifier') ? node.name : c.source;
+            if (field.toUpperCase() in row) out[c.name.toUpperCase()] = row[field.toUpperCase()] ?? null;
+            else if (c.name.toUpperCase() in row) out[c.name.toUpperCase()] = row[c.name.toUpperCase()] ?? null;
+            else out[c.name.toUpperCase()] = ExpressionEvaluator.evaluate(c.source, this.scope(state, from, row));
+        });
+        return out;
+    }
+
+    private static join(state: SimulationState, step: EtlStepOf<'JoinTable'>): { message: string, table: string } {
+        const inputs = step.inputTables.map(name => this.table(state, name));
+        if (inputs.length === 0) throw new Error('The join has no input tables');
+        const prefixed = (t: SimulationTable, row: SimulationRow) =>
+            Object.fromEntries(t.columns.map(c => [`${t.name}.${c}`.toUpperCase(), row[c.toUpperCase()] ?? null]));
+
+        const [first, ...rest] = inputs as [SimulationTable, ...SimulationTable[]];
+        let combined = first.rows.map(row => prefixed(first, row));
+        const joined = [first.name.toUpperCase()];
+
+        rest.forEach(next => {
+            const name = next.name.toUpperCase();
+            const conditions = step.joins.flatMap(j => {
+                const left = j.leftTable.toUpperCase();
+                const right = j.rightTable.toUpperCase();
+                if (right === name && joined.includes(left)) return [{ here: `${left}.${j.leftColumn}`.toUpperCase(), there: j.rightColumn.toUpperCase(), type: j.joinType }];
+                if (left === name && joined.includes(right)) return [{ here: `${right}.${j.rightColumn}`.toUpperCase(), there: j.leftColumn.toUpperCase(), type: j.joinType }];
+                return [];
+            });
+            const type = (conditions[0]?.type || 'INNER').toUpperCase().replace(/[\s_]/g, '');
+            const keepLeft = type.startsWith('LEFT') || type.startsWith('FULL');
+            const keepRight = type.startsWith('RIGHT') || type.startsWith('FULL');
+            const matchedRight = new Set<SimulationRow>();
+            const result: SimulationRow[] = [];
+
+            combined.forEach(row => {
+                const matches = next.rows.filter(r => conditions.every(c => ExpressionEvaluator.compare(row[c.here] ?? null, r[c.there] ?? null) === 0));
+                matches.forEach(r => {
+                    matchedRight.add(r);
+                    result.push({ ...row, ...prefixed(next, r) });
+                });
+                if (matches.length === 0 && keepLeft) result.push(row);
+            });
+            if (keepRight) next.rows.filter(r => !matchedRight.has(r)).forEach(r => result.push(prefixed(next, r)));
+
+            combined = result;
+            joined.push(name);
+        });
+
+        // Output columns: the declared definition, else every input column with aliases applied (first input wins)
+        const sources = inputs.flatMap(t => t.columns.map(c => {
+            const alias = step.aliases.find(a => a.table.toUpperCase() === t.name.toUpperCase() && a.column.toUpperCase() === c.toUpperCase());
+            return { name: alias?.alias ?? c, key: `${t.name}.${c}`.toUpperCase() };
+        }));
+        const names = step.outputColumns.length > 0 ? step.outputColumns.map(c => c.name) : sources.map(s => s.name);
+        const out = this.create(state, step.outputTable || step.key, [...new Map(names.map(n => [n.toUpperCase(), n])).values()]);
+        out.rows = combined.map(row => Object.fromEntries(out.columns.map(c => {
+            const source = sources.find(s => s.name.toUpperCase() === c.toUpperCase());
+            return [c.toUpperCase(), source ? row[source.key] ?? null : null];
+        })));
+        return { message: `${out.rows.length} rows from ${inputs.map(t => `${t.name} (${t.rows.length})`).join(' ⋈ ')}`, table: out.name };
+    }
+
+    /** Applies criteria conditions left to right, each joined to the last by its AND/OR link. */
+    private static matches(state: SimulationState, row: SimulationRow, criteria: CriteriaCondition[]): boolean {
+        return criteria.reduce<boolean | null>((result, c) => {
+            const met = this.criterion(state, row, c);
+            if (result === null) return met;
+            return c.link.toUpperCase() === 'OR' ? result || met : result && met;
+        }, null) ?? true;
+    }
+
+    private static criterion(state: SimulationState, row: SimulationRow, c: CriteriaCondition): boolean {
+        if (!(c.column.toUpperCase() in row)) throw new Error(`Criteria column ${c.column} is not in the table`);
+        const value = row[c.column.toUpperCase()] ?? null;
+        const v1 = this.substitute(state, c.value1);
+        const v2 = this.substitute(state, c.value2);
+        const cmp = (other: string) => ExpressionEvaluator.compare(value, other);
+        const text = ExpressionEvaluator.toText(value);
+        const list = () => v1.split(',').map(v => v.trim().replace(/^'(.*)'$/, '$1'));
+
+        switch (c.operator.toUpperCase().replace(/[\s_]/g, '')) {
+            case '':
+            case '=':
+            case 'EQ':
+            case 'EQUALS':
+            case 'EQUAL':
+                return cmp(v1) === 0;
+            case '<>':
+            case 'NE':
+            case 'NOTEQUALS':
+            case 'NOTEQUAL':
+                return cmp(v1) !== 0;
+            case '>':
+            case 'GREATERTHAN':
+                return cmp(v1) > 0;
+            case '>=':
+            case 'GREATERTHANOREQUAL':
+            case 'GREATERTHANOREQUALS':
+            case 'GREATEROREQUAL':
+                return cmp(v1) >= 0;
+            case '<':
+            case 'LESSTHAN':
+                return cmp(v1) < 0;
+            case '<=':
+            case 'LESSTHANOREQUAL':
+            case 'LESSTHANOREQUALS':
+            case 'LESSOREQUAL':
+                return cmp(v1) <= 0;
+            case 'BETWEEN':
+                return cmp(v1) >= 0 && cmp(v2) <= 0;
+            case 'NOTBETWEEN':
+                return cmp(v1) < 0 || cmp(v2) > 0;
+            case 'ONEOF':
+            case 'IN':
+                return list().some(v => cmp(v) === 0);
+            case 'NOTONEOF':
+            case 'NOTIN':
+                return !list().some(v => cmp(v) === 0);
+            case 'LIKE':
+                return ExpressionEvaluator.truthy(ExpressionEvaluator.evaluate(`[V] LIKE '${v1.replace(/'/g, "''")}'`, { column: () => value, variable: () => undefined }));
+            case 'CONTAINS':
+                return text.includes(v1);
+            case 'STARTSWITH':
+            case 'BEGINSWITH':
+                return text.startsWith(v1);
+            case 'ENDSWITH':
+                return text.endsWith(v1);
+            case 'ISBLANK':
+            case 'ISEMPTY':
+            case 'ISNULL':
+                return text.trim() === '';
+            case 'ISNOTBLANK':
+            case 'NOTBLANK':
+            case 'ISNOTNULL':
+                return text.trim() !== '';
+            default:
+                throw new Error(`Unsupported criteria operator ${c.operator}`);
+        }
+    }
+
+    private static scope(state: SimulationState, table?: SimulationTable, row?: SimulationRow): EvaluationScope {
+        return {
+            // A table with no rows still has its columns; they read as null
+            column: name => row ? row[name.toUpperCase()] : table && this.hasColumn(table, name) ? null : undefined,
+            variable: name => state.variables.get(name.toUpperCase())?.value,
+            aggregate: table ? (name, args) => {
+                const values = args.length === 0
+                    ? table.rows.map(() => 1 as ExpressionValue)
+                    : table.rows.map(r => ExpressionEvaluator.evaluateNode(args[0]!, this.scope(state, undefined, r))).filter(v => v !== null && v !== '');
+                switch (name) {
+                    case 'COUNT': return values.length;
+                    case 'SUM': return values.reduce<number>((sum, v) => sum + ExpressionEvaluator.toNumber(v), 0);
+                    case 'AVG':
+                    case 'AVERAGE':
+                        return values.length ? values.reduce<number>((sum, v) => sum + ExpressionEvaluator.toNumber(v), 0) / values.length : null;
+                    case 'MIN':
+                    case 'MAX': {
+                        if (args.length === 0) return undefined;
+                        const sorted = [...values].sort((a, b) => ExpressionEvaluator.compare(a, b));
+                        return (name === 'MIN' ? sorted[0] : sorted[sorted.length - 1]) ?? null;
+                    }
+                    default: return undefined;
+                }
+            } : undefined
+        };
+    }
+
+    /** Replaces `{&VAR}` references in free text (criteria values, subjects, file names). */
+    private static substitute(state: SimulationState, text: string): string {
+        return (text ?? '').replace(/\{&([^}.]+)(?:\.[^}]*)?\}/g, (match, name: string) => {
+            const v = state.variables.get(name.toUpperCase());
+            return v ? ExpressionEvaluator.toText(v.value) : match;
+        });
+    }
+
+    private static setVariable(state: SimulationState, name: string, value: ExpressionValue) {
+        const existing = state.variables.get(name.toUpperCase());
+        state.variables.set(name.toUpperCase(), { name: existing?.name ?? name, value });
+    }
+
+    private static table(state: SimulationState, name: string): SimulationTable {
+        const t = state.tables.get((name ?? '').toUpperCase());
+        if (!t) throw new Error(`Table ${name || '(none)'} does not exist at this point`);
+        return t;
+    }
+
+    private static create(state: SimulationState, name: string, columns: string[]): SimulationTable {
+        const t: SimulationTable = { name, columns: [...columns], rows: [] };
+        state.tables.set(name.toUpperCase(), t);
+        return t;
+    }
+
+    /** The table itself when `name` is the same table, else a copy stored under `name`. */
+    private static copyTo(state: SimulationState, from: SimulationTable, name: string): SimulationTable {
+        if (name.toUpperCase() === from.name.toUpperCase()) return from;
+        const t = this.create(state, name, from.columns);
+        t.rows = from.rows.map(r => ({ ...r }));
+        return t;
+    }
+
+    private static hasColumn(table: SimulationTable, column: string): boolean {
+        return table.columns.some(c => c.toUpperCase() === column.toUpperCase());
+    }
+
+    private static distinct(rows: SimulationRow[]): SimulationRow[] {
+        const seen = new Set<string>();
+        return rows.filter(row => {
+            const key = JSON.stringify(Object.values(row));
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+
+    private static snapshot(state: SimulationState, name: string): SimulationStepResult['table'] {
+        const t = state.tables.get(name.toUpperCase());
+        if (!t) return null;
+        return {
+            name: t.name,
+            columns: [...t.columns],
+            rowCount: t.rows.length,
+            preview: t.rows.slice(0, state.options.previewRows).map(r => ({ ...r }))
+        };
+    }
+
+    static display(value: ExpressionValue): string {
+        if (value === null) return '(null)';
+        if (typeof value === 'string') return `'${value}'`;
+        return ExpressionEvaluator.toText(value);
+    }
+}
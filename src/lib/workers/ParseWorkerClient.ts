@@ -0,0 +1,87 @@
+import { PackageParser, type PackageParseOptions, type PackageType, type ParsedPackage } from '../PackageParser';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './ParseWorkerProtocol';
+
+interface PendingRequest {
+    resolve: (result: ParsedPackage) => void;
+    reject: (error: Error) => void;
+    onProgress?: PackageParseOptions['onProgress'];
+}
+
+const cancelledError = () => new DOMException('Import cancelled', 'AbortError');
+
+/**
+ * Main-thread side of the parse worker. One worker is shared by every import and
+ * requests are matched to replies by id. Where workers are unavailable (tests,
+ * very old browsers) the same parser runs inline.
+ */
+export class ParseWorkerClient {
+    private static worker: Worker | null = null;
+    private static nextRequestId = 1;
+    private static pending = new Map<number, PendingRequest>();
+
+    static async parse(file: File, type?: PackageType, options: PackageParseOptions = {}): Promise<ParsedPackage> {
+        options.signal?.throwIfAborted();
+
+        const worker = this.getWorker();
+        if (!worker) return PackageParser.parse(file, type, options);
+
+        const requestId = this.nextRequestId++;
+        const post = (message: ParseWorkerRequest) => worker.postMessage(message);
+
+        return new Promise<ParsedPackage>((resolve, reject) => {
+            const onAbort = () => {
+                post({ kind: 'cancel', requestId });
+                this.pending.delete(requestId);
+                reject(cancelledError());
+            };
+            options.signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.pending.set(requestId, {
+                resolve: result => {
+                    options.signal?.removeEventListener('abort', onAbort);
+                    resolve(result);
+                },
+                reject: error => {
+                    options.signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+                onProgress: options.onProgress
+            });
+            post({ kind: 'parse', requestId, file, type });
+        });
+    }
+
+    private static getWorker(): Worker | null {
+        if (this.worker) return this.worker;
+        if (typeof Worker === 'undefined') return null;
+
+        this.worker = new Worker(new URL('./parse.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.addEventListener('message', (event: MessageEvent<ParseWorkerResponse>) => this.handleResponse(event.data));
+        this.worker.addEventListener('error', event => {
+            // A worker that fails to load or crashes takes every pending import with it
+            const error = new Error(`Parse worker failed: ${event.message || 'unknown error'}`);
+            this.pending.forEach(p => p.reject(error));
+            this.pending.clear();
+            this.worker?.terminate();
+            this.worker = null;
+        });
+        return this.worker;
+    }
+
+    private static handleResponse(response: ParseWorkerResponse) {
+        const request = this.pending.get(response.requestId);
+        if (!request) return; // Cancelled on this side already
+
+        if (response.kind === 'progress') {
+            request.onProgress?.(response.progress);
+            return;
+        }
+
+        this.pending.delete(response.requestId);
+        if (response.kind === 'done') {
+            request.resolve(response.result);
+        } else {
+            request.reject(response.cancelled ? cancelledError() : new Error(response.message));
+        }
+    }
+}
@@ -0,0 +1,13 @@
+import type { PackageType, ParsedPackage } from '../PackageParser';
+import type { EntryProgress } from '../parsers/PackageXml';
+
+/** Messages from the main thread to the parse worker. */
+export type ParseWorkerRequest =
+    | { kind: 'parse', requestId: number, file: File, type?: PackageType }
+    | { kind: 'cancel', requestId: number };
+
+/** Messages from the parse worker back to the main thread. */
+export type ParseWorkerResponse =
+    | { kind: 'progress', requestId: number, progress: EntryProgress }
+    | { kind: 'done', requestId: number, result: ParsedPackage }
+    | { kind: 'error', requestId: number, message: string, cancelled: boolean };
@@ -0,0 +1,35 @@
+import { PackageParser } from '../PackageParser';
+import { describeError } from '../parsers/ParseIssue';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './ParseWorkerProtocol';
+
+// Unzip, XML parse and deep parse run here so large packages do not freeze the UI.
+// The main thread only writes the finished record to IndexedDB.
+
+const controllers = new Map<number, AbortController>();
+
+const reply = (message: ParseWorkerResponse) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<ParseWorkerRequest>) => {
+    const request = event.data;
+
+    if (request.kind === 'cancel') {
+        controllers.get(request.requestId)?.abort();
+        return;
+    }
+
+    const { requestId } = request;
+    const controller = new AbortController();
+    controllers.set(requestId, controller);
+
+    try {
+        const result = await PackageParser.parse(request.file, request.type, {
+            signal: controller.signal,
+            onProgress: progress => reply({ kind: 'progress', requestId, progress })
+        });
+        reply({ kind: 'done', requestId, result });
+    } catch (e) {
+        reply({ kind: 'error', requestId, message: describeError(e), cancelled: controller.signal.aborted });
+    } finally {
+        controllers.delete(requestId);
+    }
+});
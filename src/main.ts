@@ -1,11 +1,29 @@
 import './style.css'
-import { db } from './lib/db';
+import { db, type Report } from './lib/db';
+import { BulkImporter, type BulkImportProgress, type BulkImportSummary } from './lib/BulkImporter';
 import { FileProcessor } from './lib/FileProcessor';
-import { EtlParser } from './lib/parsers/EtlParser';
+import { PACKAGE_LABELS, type PackageType } from './lib/PackageParser';
+import { VersionHistory, type VersionedRecord } from './lib/VersionHistory';
+import { LibraryBackup, type LibraryBackupFile, type RestoreStrategy, type RestoreSummary } from './lib/LibraryBackup';
+import { LibraryReanalyser, type ReanalyseSummary } from './lib/LibraryReanalyser';
+import { PackageStore } from './lib/PackageStore';
+import { SearchIndex, type SearchHit } from './lib/SearchIndex';
+import { DashboardModel } from './lib/model/DashboardModel';
 import { EtlGenerator } from './lib/generators/EtlGenerator';
+import { EtlSummaryGenerator } from './lib/generators/EtlSummaryGenerator';
 import { DataModelGenerator } from './lib/generators/DataModelGenerator';
 import { DashboardGenerator } from './lib/generators/DashboardGenerator';
+import { XlOneGenerator } from './lib/generators/XlOneGenerator';
+import { PlaylistGenerator } from './lib/generators/PlaylistGenerator';
 import { DocxGenerator } from './lib/generators/DocxGenerator';
+import { CsvGenerator } from './lib/generators/CsvGenerator';
+import { ImportHealthGenerator } from './lib/generators/ImportHealthGenerator';
+import { DryRunGenerator } from './lib/generators/DryRunGenerator';
+import { CallGraphGenerator } from './lib/generators/CallGraphGenerator';
+import { FileInventoryGenerator } from './lib/generators/FileInventoryGenerator';
+import { ComplexityScoreGenerator } from './lib/generators/ComplexityScoreGenerator';
+import { ComplexityScore, type ComplexityAssessment } from './lib/analysis/ComplexityScore';
+import { CsvReader, type CsvTable } from './lib/simulation/CsvReader';
 import { OfflineVerifier } from './lib/ux/OfflineVerifier';
 
 const app = document.querySelector<HTMLDivElement>('#app')!;
@@ -28,10 +46,28 @@ const registerServiceWorker = async () => {
 registerServiceWorker();
 
 // --- Routing State ---
+type LibrarySort = 'newest' | 'risk';
+/** A library card: the latest version of an artifact, its versions and, for ETLs, the risk score. */
+type LibraryItem = VersionedRecord & { type: PackageType, versions: VersionedRecord[], complexity?: ComplexityAssessment };
+
 let currentView: 'dashboard' | 'detail' = 'dashboard';
 let currentReportId: number | null = null;
-let currentType: 'report' | 'datamodel' | 'dashboard' = 'report';
+let currentType: 'report' | 'datamodel' | 'dashboard' | 'xlone' | 'playlist' = 'report';
 let currentMode: 'business' | 'technical' = 'business';
+let playlistTestValues: Record<string, string> = {};
+let dryRunSamples: Record<string, CsvTable> = {};
+let lastImportSummary: BulkImportSummary | null = null;
+let importController: AbortController | null = null;
+let pendingRestore: { fileName: string, backup: LibraryBackupFile } | null = null;
+let lastRestoreSummary: RestoreSummary | null = null;
+let lastReanalyseSummary: ReanalyseSummary | null = null;
+// The Process Calls and Files & Paths panels, built again only when the ETLs in the library change
+let libraryPanels: { revision: number, html: string } | null = null;
+let searchQuery = '';
+let librarySort: LibrarySort = 'newest';
+let searchTimer: ReturnType<typeof setTimeout> | undefined;
+// Step/query card to scroll to once the detail view has rendered
+let pendingAnchor: string | null = null;
 
 // --- HTML Template Helpers ---
 function header() {
@@ -60,6 +96,16 @@ function header() {
                         <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
                         <span class="max-w-0 overflow-hidden opacity-0 group-hover:max-w-xs group-hover:opacity-100 group-hover:ml-2 transition-all duration-300 ease-in-out whitespace-nowrap text-xs">Backup Library</span>
                     </button>
+
+                    <button onclick="window.reanalyseLibrary()" title="Re-analyse Library" class="group bg-slate-700 hover:bg-slate-600 text-slate-200 p-2 rounded-full font-medium transition-all duration-300 ease-in-out border border-slate-600 flex items-center shadow-sm">
+                        <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"></path></svg>
+                        <span class="max-w-0 overflow-hidden opacity-0 group-hover:max-w-xs group-hover:opacity-100 group-hover:ml-2 transition-all duration-300 ease-in-out whitespace-nowrap text-xs">Re-analyse Library</span>
+                    </button>
+
+                    <button onclick="window.openRestore()" title="Restore Library" class="group bg-slate-700 hover:bg-slate-600 text-slate-200 p-2 rounded-full font-medium transition-all duration-300 ease-in-out border border-slate-600 flex items-center shadow-sm">
+                        <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-8l-4-4m0 0L8 8m4-4v12"></path></svg>
+                        <span class="max-w-0 overflow-hidden opacity-0 group-hover:max-w-xs group-hover:opacity-100 group-hover:ml-2 transition-all duration-300 ease-in-out whitespace-nowrap text-xs">Restore Library</span>
+                    </button>
                 </div>
             </div>
         </div>
@@ -76,34 +122,187 @@ function formatDate(date: Date) {
   return year === currentYear ? `${day} ${month}` : `${day} ${month} ${year}`;
 }
 
-function dashboardLayout(items: any[]) {
+function escapeHtml(str: string) {
+  return String(str).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function importSummaryPanel() {
+  if (!lastImportSummary) return '';
+  const { imported, skipped, failed, cancelled } = lastImportSummary;
+  const list = (rows: string[]) => `<ul class="mt-1 max-h-48 overflow-y-auto text-xs text-gray-600 space-y-0.5">${rows.map(r => `<li class="break-all">${r}</li>`).join('')}</ul>`;
+
+  return `
+    <div class="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+        <div class="flex justify-between items-center mb-2">
+            <h2 class="text-sm font-bold text-gray-700">Import summary</h2>
+            <button onclick="window.dismissImportSummary()" class="text-xs text-gray-400 hover:text-gray-700">Dismiss</button>
+        </div>
+        <div class="flex flex-wrap gap-2 text-xs font-bold">
+            <span class="px-2 py-1 rounded border bg-green-50 text-green-700 border-green-200">${imported.length} imported</span>
+            <span class="px-2 py-1 rounded border bg-gray-50 text-gray-600 border-gray-200">${skipped.length} skipped</span>
+            <span class="px-2 py-1 rounded border ${failed.length > 0 ? 'bg-red-50 text-red-700 border-red-200' : 'bg-gray-50 text-gray-600 border-gray-200'}">${failed.length} failed</span>
+            ${cancelled > 0 ? `<span class="px-2 py-1 rounded border bg-amber-50 text-amber-700 border-amber-200">${cancelled} not processed (cancelled)</span>` : ''}
+        </div>
+        ${failed.length > 0 ? `<details open class="mt-3"><summary class="cursor-pointer text-xs font-semibold text-red-700">Failed</summary>${list(failed.map(f => `<span class="font-medium">${escapeHtml(f.name)}</span>: ${escapeHtml(f.error)}`))}</details>` : ''}
+        ${skipped.length > 0 ? `<details class="mt-3"><summary class="cursor-pointer text-xs font-semibold text-gray-600">Skipped</summary>${list(skipped.map(f => `<span class="font-medium">${escapeHtml(f.name)}</span>: ${escapeHtml(f.reason)}`))}</details>` : ''}
+        ${imported.length > 0 ? `<details ${failed.length === 0 ? 'open' : ''} class="mt-3"><summary class="cursor-pointer text-xs font-semibold text-green-700">Imported</summary>${list(imported.map(f => `<span class="font-medium">${escapeHtml(f.name)}</span>: detected as <strong>${PACKAGE_LABELS[f.type]}</strong> - ${escapeHtml(f.reason)}`))}</details>` : ''}
+    </div>
+  `;
+}
+
+function reanalyseSummaryPanel() {
+  if (!lastReanalyseSummary) return '';
+  const { reanalysed, skipped, failed, cancelled } = lastReanalyseSummary;
+  const list = (rows: string[]) => `<ul class="mt-1 max-h-48 overflow-y-auto text-xs text-gray-600 space-y-0.5">${rows.map(r => `<li class="break-all">${r}</li>`).join('')}</ul>`;
+
+  return `
+    <div class="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+        <div class="flex justify-between items-center mb-2">
+            <h2 class="text-sm font-bold text-gray-700">Re-analysis summary</h2>
+            <button onclick="window.dismissReanalyseSummary()" class="text-xs text-gray-400 hover:text-gray-700">Dismiss</button>
+        </div>
+        <div class="flex flex-wrap gap-2 text-xs font-bold">
+            <span class="px-2 py-1 rounded border bg-green-50 text-green-700 border-green-200">${reanalysed} re-analysed</span>
+            <span class="px-2 py-1 rounded border bg-gray-50 text-gray-600 border-gray-200">${skipped.length} without original</span>
+            <span class="px-2 py-1 rounded border ${failed.length > 0 ? 'bg-red-50 text-red-700 border-red-200' : 'bg-gray-50 text-gray-600 border-gray-200'}">${failed.length} failed</span>
+            ${cancelled > 0 ? `<span class="px-2 py-1 rounded border bg-amber-50 text-amber-700 border-amber-200">${cancelled} not processed (cancelled)</span>` : ''}
+        </div>
+        ${failed.length > 0 ? `<details open class="mt-3"><summary class="cursor-pointer text-xs font-semibold text-red-700">Failed (previous analysis kept)</summary>${list(failed.map(f => `<span class="font-medium">${escapeHtml(f.name)}</span>: ${escapeHtml(f.error)}`))}</details>` : ''}
+        ${skipped.length > 0 ? `<details class="mt-3"><summary class="cursor-pointer text-xs font-semibold text-gray-600">Without original</summary>${list(skipped.map(f => `<span class="font-medium">${escapeHtml(f.name)}</span>: ${escapeHtml(f.reason)}`))}</details>` : ''}
+    </div>
+  `;
+}
+
+function searchResultsList(hits: SearchHit[], names: Map<string, string>) {
+  if (hits.length === 0) return `<p class="mt-3 text-xs text-gray-500">No matches in the library.</p>`;
+  const typeLabel = (hit: SearchHit) => PACKAGE_LABELS[hit.type];
+
+  return `
+    <ul class="mt-3 divide-y divide-gray-100 max-h-96 overflow-y-auto">
+        ${hits.map(hit => `
+        <li>
+            <button onclick="window.navigateTo('detail', ${hit.recordId}, '${hit.type}', '${hit.anchor}')" class="w-full text-left px-2 py-2 hover:bg-blue-50 rounded transition">
+                <div class="text-sm"><span class="text-[0.65rem] uppercase font-bold text-gray-400 mr-1">${typeLabel(hit)}</span><span class="font-bold text-gray-800">${escapeHtml(names.get(`${hit.type}:${hit.recordId}`) || '')}</span>${hit.anchor ? ` <span class="text-gray-400">›</span> <span class="text-blue-700">${escapeHtml(hit.label)}</span>` : ''}</div>
+                <div class="text-xs text-gray-500 truncate">${hit.matches.slice(0, 3).map(m => `<span class="font-semibold">${m.field}:</span> ${escapeHtml(m.text)}`).join(' • ')}</div>
+            </button>
+        </li>`).join('')}
+    </ul>
+  `;
+}
+
+async function showSearchResults(query: string) {
+  const container = document.getElementById('searchResults');
+  if (!container) return;
+  if (!query.trim()) {
+    container.innerHTML = '';
+    return;
+  }
+  const hits = await SearchIndex.search(query);
+  const names = new Map<string, string>();
+  for (const hit of hits) {
+    const key = `${hit.type}:${hit.recordId}`;
+    if (!names.has(key)) names.set(key, (await FileProcessor.table(hit.type).get(hit.recordId))?.metadata?.name || '');
+  }
+  // A newer search may have finished first
+  if (query === searchQuery) container.innerHTML = searchResultsList(hits, names);
+}
+
+/** Scrolls to a step or query card, opening the sections it sits in. */
+function revealAnchor(anchor: string) {
+  const target = document.getElementById(anchor);
+  if (!target) return;
+  for (let el: HTMLElement | null = target; el; el = el.parentElement) {
+    if (el instanceof HTMLDetailsElement) el.open = true;
+  }
+  target.querySelector<HTMLDetailsElement>(':scope > details')?.setAttribute('open', '');
+  target.scrollIntoView({ block: 'center' });
+  target.classList.add('ring-2', 'ring-amber-400');
+  setTimeout(() => target.classList.remove('ring-2', 'ring-amber-400'), 2000);
+}
+
+function restorePanel() {
+  if (pendingRestore) {
+    const { fileName, backup } = pendingRestore;
+    const generated = new Date(backup.generated);
+    return `
+    <div class="bg-white p-4 rounded-xl shadow-sm border border-blue-200">
+        <div class="flex justify-between items-center mb-2">
+            <h2 class="text-sm font-bold text-gray-700">Restore library backup</h2>
+            <button onclick="window.cancelRestore()" class="text-xs text-gray-400 hover:text-gray-700">Cancel</button>
+        </div>
+        <p class="text-xs text-gray-600 mb-3"><span class="font-medium">${escapeHtml(fileName)}</span> holds ${LibraryBackup.countArtifacts(backup)} artifacts${isNaN(generated.getTime()) ? '' : `, backed up ${formatDate(generated)}`}. Artifacts are matched to the library by their T1 id; notes are kept.</p>
+        <div class="flex flex-wrap gap-2 text-xs font-bold">
+            <button onclick="window.restoreBackup('merge')" class="px-3 py-1.5 rounded-md border bg-blue-600 text-white border-blue-700 hover:bg-blue-700" title="Update matching artifacts from the backup and add the rest">Merge</button>
+            <button onclick="window.restoreBackup('skip-duplicates')" class="px-3 py-1.5 rounded-md border bg-white text-blue-700 border-blue-200 hover:bg-blue-50" title="Only add artifacts that are not already in the library">Add new only</button>
+            <button onclick="window.restoreBackup('replace')" class="px-3 py-1.5 rounded-md border bg-white text-red-600 border-red-200 hover:bg-red-50" title="Delete the current library and restore the backup in its place">Replace library</button>
+        </div>
+    </div>
+  `;
+  }
+
+  if (!lastRestoreSummary) return '';
+  const { added, updated, skipped, invalid } = lastRestoreSummary;
+  return `
+    <div class="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+        <div class="flex justify-between items-center mb-2">
+            <h2 class="text-sm font-bold text-gray-700">Restore summary</h2>
+            <button onclick="window.dismissRestoreSummary()" class="text-xs text-gray-400 hover:text-gray-700">Dismiss</button>
+        </div>
+        <div class="flex flex-wrap gap-2 text-xs font-bold">
+            <span class="px-2 py-1 rounded border bg-green-50 text-green-700 border-green-200">${added} added</span>
+            <span class="px-2 py-1 rounded border bg-blue-50 text-blue-700 border-blue-200">${updated} updated</span>
+            <span class="px-2 py-1 rounded border bg-gray-50 text-gray-600 border-gray-200">${skipped} already in library</span>
+            ${invalid.length > 0 ? `<span class="px-2 py-1 rounded border bg-red-50 text-red-700 border-red-200">${invalid.length} unreadable</span>` : ''}
+        </div>
+        ${invalid.length > 0 ? `<ul class="mt-2 text-xs text-gray-600 space-y-0.5">${invalid.map(i => `<li><span class="font-medium">${escapeHtml(i.name)}</span> (${i.table}): ${escapeHtml(i.reason)}</li>`).join('')}</ul>` : ''}
+    </div>
+  `;
+}
+
+function dashboardLayout(items: any[], libraryPanels = '') {
 
   const list = items.map(r => {
     let summaryText = r.metadata.description;
     if (r.type === 'report') {
       try {
-        const flowData = EtlParser.parseSteps(r.rawSteps, 'business');
-        summaryText = EtlGenerator.generateSummary(flowData.executionFlow);
+        summaryText = EtlSummaryGenerator.of(r);
       } catch (e) {
         console.error('Failed dashboard summary', e);
       }
     } else if (r.type === 'dashboard') {
       try {
-        const visualizations = r.content.Visualisations?.ArrayOfEntityDef?.EntityDef || [];
-        const vizList = Array.isArray(visualizations) ? visualizations : [visualizations];
-        const slicers = vizList.filter((v: any) => v.EntitySubType === 'SLICER').length;
-        const tables = vizList.filter((v: any) => v.EntitySubType === 'TABLE').length;
-        const charts = vizList.filter((v: any) => v.EntitySubType === 'CHART').length;
-        summaryText = `${vizList.length} widgets: ${slicers} slicers, ${tables} tables, ${charts} charts`;
+        const { widgets } = DashboardModel.of(r);
+        const slicers = widgets.filter(w => w.subType === 'SLICER').length;
+        const tables = widgets.filter(w => w.subType === 'TABLE').length;
+        const charts = widgets.filter(w => w.subType === 'CHART').length;
+        summaryText = `${widgets.length} widgets: ${slicers} slicers, ${tables} tables, ${charts} charts`;
       } catch (e) {
         console.error('Failed to compute widget summary', e);
       }
+    } else if (r.type === 'xlone') {
+      const parts = [r.metadata.reportSuite && `${r.metadata.reportSuite} suite`, r.metadata.layoutType && `${r.metadata.layoutType} layout`].filter(Boolean);
+      summaryText = r.metadata.description || parts.join(' • ') || 'XLOne report';
+    } else if (r.type === 'playlist') {
+      const emailed = (r.content.Items?.ArrayOfScheduleItem?.ScheduleItem || []).filter((i: any) => i.EmailInd === 'true').length;
+      summaryText = r.metadata.description || `${r.metadata.itemCount} items • ${emailed} emailed`;
     }
 
     const badgeBg = r.type === 'report' ? 'bg-blue-50 text-blue-700 border-blue-200' 
                   : r.type === 'datamodel' ? 'bg-purple-50 text-purple-700 border-purple-200'
+                  : r.type === 'xlone' ? 'bg-amber-50 text-amber-700 border-amber-200'
+                  : r.type === 'playlist' ? 'bg-rose-50 text-rose-700 border-rose-200'
                   : 'bg-emerald-50 text-emerald-700 border-emerald-200';
-    const badgeText = r.type === 'report' ? 'ETL' : r.type === 'datamodel' ? 'Data Model' : 'DASHBOARD';
+    const badgeText = r.type === 'report' ? 'ETL' : r.type === 'datamodel' ? 'Data Model' : r.type === 'xlone' ? 'XLONE' : r.type === 'playlist' ? 'PLAYLIST' : 'DASHBOARD';
+    const versionPicker = r.versions.length > 1 ? `
+                <select onclick="event.stopPropagation()" onchange="window.navigateTo('detail', Number(this.value), '${r.type}')" class="text-xs border border-gray-200 rounded px-1 py-0.5 text-gray-600 bg-white" title="Open an earlier version">
+                    ${r.versions.map((v: VersionedRecord, i: number) => `<option value="${v.id}"${i === 0 ? ' selected' : ''}>${escapeHtml(VersionHistory.label(r.type, v))}${i === 0 ? ' (latest)' : ''}</option>`).join('')}
+                </select>` : '';
+    const health = ImportHealthGenerator.countBySeverity(r.parseIssues);
+    const healthBadge = health.error > 0
+      ? `<span class="text-[0.65rem] font-bold px-1.5 py-0.5 rounded border bg-red-50 text-red-700 border-red-200" title="Some package entries could not be read">⚠ ${health.error} error${health.error !== 1 ? 's' : ''}</span>`
+      : health.warning > 0
+        ? `<span class="text-[0.65rem] font-bold px-1.5 py-0.5 rounded border bg-amber-50 text-amber-700 border-amber-200" title="Some package content may be incomplete">⚠ ${health.warning} warning${health.warning !== 1 ? 's' : ''}</span>`
+        : '';
 
     return `
         <div class="bg-white p-4 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition flex justify-between items-center group relative">
@@ -113,15 +312,20 @@ function dashboardLayout(items: any[]) {
                         ${badgeText}
                     </span>
                     <h3 class="font-bold text-gray-800 group-hover:text-blue-600">${r.metadata.name}</h3>
+                    ${healthBadge}
+                    ${ComplexityScoreGenerator.renderBadge(r.complexity)}
+                    ${LibraryReanalyser.isOutdated(r) ? `<span class="text-[0.65rem] font-bold px-1.5 py-0.5 rounded border bg-sky-50 text-sky-700 border-sky-200" title="Analysed by an older version of the parsers; use Re-analyse Library to update">Older analysis</span>` : ''}
+                    ${r.versions.length > 1 ? `<span class="text-[0.65rem] font-bold px-1.5 py-0.5 rounded border bg-gray-50 text-gray-600 border-gray-200">${r.versions.length} versions</span>` : ''}
                 </div>
                 <p class="text-xs text-gray-500">Publisher: ${r.metadata.owner} • Ver: ${r.metadata.version || '-'}</p>
                  <p class="text-[10px] text-gray-500 mt-1 line-clamp-2 leading-tight">${summaryText}</p>
             </div>
              <div class="flex items-center space-x-4 ml-4">
+                ${versionPicker}
                 <div class="text-xs text-gray-400 whitespace-nowrap">
                     ${formatDate(r.dateAdded)}
                 </div>
-                <button onclick="event.stopPropagation(); window.deleteEntity(${r.id}, '${r.type}')" class="text-gray-300 hover:text-red-500 transition p-1" title="Delete">
+                <button onclick="event.stopPropagation(); window.deleteEntity(${r.id}, '${r.type}')" class="text-gray-300 hover:text-red-500 transition p-1" title="${r.versions.length > 1 ? 'Delete this version' : 'Delete'}">
                     <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                     </svg>
@@ -140,14 +344,33 @@ function dashboardLayout(items: any[]) {
                         <svg class="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"></path></svg>
                     </div>
                     <h2 class="text-xl font-bold text-gray-900">Upload Definitions</h2>
-                    <p class="text-sm text-gray-500">Drag & drop <code>.t1etlp</code>, <code>.t1dm</code>, or <code>.t1db</code> files here</p>
+                    <p class="text-sm text-gray-500">Drag & drop <code>.t1etlp</code>, <code>.t1dm</code>, <code>.t1db</code>, <code>.t1xl</code>, or <code>.t1pl</code> files here, or a zipped export set</p>
+                    <button id="folderButton" class="pointer-events-auto text-xs text-blue-600 hover:text-blue-800 underline">or import a whole folder</button>
                 </div>
-                  <input type="file" id="fileInput" multiple accept=".t1etlp,.t1dm,.t1db" class="hidden">
+                  <input type="file" id="fileInput" multiple accept=".t1etlp,.t1dm,.t1db,.t1xl,.t1pl,.zip" class="hidden">
+                  <input type="file" id="folderInput" webkitdirectory multiple class="hidden">
             </div>
+            ${restorePanel()}
+            ${importSummaryPanel()}
+            ${reanalyseSummaryPanel()}
+
+            <!-- Search -->
+            <div class="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+                <input id="librarySearch" type="search" value="${escapeHtml(searchQuery)}" oninput="window.searchLibrary(this.value)" placeholder="Search steps, expressions, columns, variables, tables, data sources, widgets, emails and notes..." class="w-full text-sm px-3 py-2 border border-gray-200 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none">
+                <div id="searchResults"></div>
+            </div>
+
+            ${libraryPanels}
 
             <!-- List -->
             <div>
-                <h2 class="text-lg font-bold text-gray-700 mb-3">Library (${items.length})</h2>
+                <div class="flex items-center justify-between mb-3">
+                    <h2 class="text-lg font-bold text-gray-700">Library (${items.length})</h2>
+                    <select onchange="window.setLibrarySort(this.value)" class="text-xs border border-gray-200 rounded px-2 py-1 text-gray-600 bg-white" title="Order of the library list">
+                        <option value="newest"${librarySort === 'newest' ? ' selected' : ''}>Newest first</option>
+                        <option value="risk"${librarySort === 'risk' ? ' selected' : ''}>Highest risk score first</option>
+                    </select>
+                </div>
                 <div class="space-y-3">
                     ${list}
                 </div>
@@ -161,17 +384,43 @@ async function render() {
   let content = header();
 
   if (currentView === 'dashboard') {
+    const revision = db.reportsRevision;
     const reports = await db.reports.toArray();
     const dms = await db.dataModels.toArray();
     const dashboards = await db.dashboards.toArray();
-    const allItems = [
-      ...reports.map(r => ({ ...r, type: 'report' })),
-      ...dms.map(d => ({ ...d, type: 'datamodel' })),
-      ...dashboards.map(d => ({ ...d, type: 'dashboard' }))
+    const xlOneReports = await db.xlOneReports.toArray();
+    const playlists = await db.playlists.toArray();
+    // Re-imports of the same artifact show as one card for the latest version
+    const latestOf = <T extends VersionedRecord>(type: PackageType, records: T[]) =>
+      VersionHistory.stack(type, records).map(s => ({ ...s.latest, type, versions: s.versions }));
+    const scoreOf = (report: Report): ComplexityAssessment | undefined => {
+      try {
+        return ComplexityScore.of(report);
+      } catch (e) {
+        console.error('Failed to score ETL', e);
+        return undefined;
+      }
+    };
+    const allItems: LibraryItem[] = [
+      ...latestOf('report', reports).map(r => ({ ...r, complexity: scoreOf(r) })),
+      ...latestOf('datamodel', dms),
+      ...latestOf('dashboard', dashboards),
+      ...latestOf('xlone', xlOneReports),
+      ...latestOf('playlist', playlists)
     ];
     allItems.sort((a, b) => b.dateAdded.getTime() - a.dateAdded.getTime());
-    content += dashboardLayout(allItems);
+    // Items without a score (other package types) keep their date order after the scored ETLs
+    if (librarySort === 'risk') allItems.sort((a, b) => (b.complexity?.total ?? -1) - (a.complexity?.total ?? -1));
+    if (libraryPanels?.revision !== revision) {
+      libraryPanels = {
+        revision,
+        html: CallGraphGenerator.renderLibraryPanel(CallGraphGenerator.fromRecords(reports)) +
+          FileInventoryGenerator.renderLibraryPanel(FileInventoryGenerator.fromRecords(reports))
+      };
+    }
+    content += dashboardLayout(allItems, libraryPanels.html);
   } else if (currentView === 'detail' && currentReportId) {
+    const hasOriginal = (await FileProcessor.table(currentType).get(currentReportId))?.packageId !== undefined;
     content += `
         <main class="grow p-6 bg-gray-100 w-full animate-fade-in">
              <div class="w-full">
@@ -185,10 +434,16 @@ async function render() {
                         <button class="mode-btn ${currentMode === 'business' ? 'active' : ''} px-6 py-2 rounded-lg transition-all duration-200 text-gray-500 hover:text-gray-900" onclick="window.setMode('business')">Business View</button>
                         <button class="mode-btn ${currentMode === 'technical' ? 'active' : ''} px-6 py-2 rounded-lg transition-all duration-200 text-gray-500 hover:text-gray-900" onclick="window.setMode('technical')">Technical View</button>
                     </div>
+                    <div class="flex items-center gap-2">
+                    ${hasOriginal ? `<button onclick="window.downloadOriginal()" title="Download the package as it was imported" class="text-sm bg-white hover:bg-gray-50 text-gray-700 border border-gray-200 px-4 py-2 rounded-lg font-bold transition-all shadow-sm flex items-center justify-center">
+                         <svg class="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"></path></svg>
+                         Original
+                    </button>` : ''}
                     <button onclick="window.exportDocx()" class="text-sm bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-bold transition-all shadow-sm flex items-center justify-center">
                          <svg class="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
                          Export
                     </button>
+                    </div>
                  </div>
                  <div id="detailContainer" class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden w-full flex flex-col max-w-4xl mx-auto">
                     <div class="p-12 text-center text-gray-400">
@@ -210,11 +465,15 @@ async function render() {
     try {
       let html = '';
       if (currentType === 'report') {
-        html = await EtlGenerator.generateHtmlView(currentReportId, currentMode);
+        html = await EtlGenerator.generateHtmlView(currentReportId, currentMode, dryRunSamples);
       } else if (currentType === 'datamodel') {
         html = await DataModelGenerator.generateHtmlView(currentReportId, currentMode);
       } else if (currentType === 'dashboard') {
         html = await DashboardGenerator.generateHtmlView(currentReportId, currentMode);
+      } else if (currentType === 'xlone') {
+        html = await XlOneGenerator.generateHtmlView(currentReportId, currentMode);
+      } else if (currentType === 'playlist') {
+        html = await PlaylistGenerator.generateHtmlView(currentReportId, currentMode, playlistTestValues);
       }
       const container = document.getElementById('detailContainer');
       if (container) {
@@ -232,7 +491,9 @@ async function render() {
             console.error('Failed to render flow chart:', err);
           }
         }
+        if (pendingAnchor) revealAnchor(pendingAnchor);
       }
+      pendingAnchor = null;
     } catch (e: any) {
       const container = document.getElementById('detailContainer');
       if (container) container.innerHTML = `<div class="p-4 bg-red-50 text-red-700 rounded border border-red-200">
@@ -245,6 +506,7 @@ async function render() {
 
   if (currentView === 'dashboard') {
     setupDragAndDrop();
+    if (searchQuery) showSearchResults(searchQuery);
   }
 }
 
@@ -265,62 +527,126 @@ function setupDragAndDrop() {
   dropZone.addEventListener('drop', async (e) => {
     e.preventDefault();
     dropZone.classList.remove('border-blue-500', 'bg-blue-50');
-    const files = Array.from(e.dataTransfer?.files || []);
-    if (files.length === 0) return;
-    dropZone.innerHTML = `<div class="text-blue-600 font-bold animate-pulse">Processing ${files.length} file(s)...</div>`;
-    for (const file of files) {
-      try {
-        await FileProcessor.processAndSave(file);
-      } catch (err) {
-        console.error(err);
-        alert(`Failed to process ${file.name}`);
-      }
-    }
-    render();
+    await importFiles(dropZone, Array.from(e.dataTransfer?.files || []));
   });
 
   dropZone.addEventListener('click', () => {
+    if (importController) return;
     const input = document.getElementById('fileInput') as HTMLInputElement;
     if (input) input.click();
   });
 
-  const input = document.getElementById('fileInput') as HTMLInputElement;
-  if (input) {
-    input.addEventListener('change', async (e: any) => {
-      const files = Array.from(e.target.files || []) as File[];
-      if (files.length === 0) return;
-      dropZone.innerHTML = `<div class="text-blue-600 font-bold animate-pulse">Processing ${files.length} file(s)...</div>`;
-      for (const file of files) {
-        try {
-          await FileProcessor.processAndSave(file);
-        } catch (err) {
-          console.error(err);
-          alert(`Failed to process ${file.name}`);
-        }
-      }
-      render();
-    });
+  document.getElementById('folderButton')?.addEventListener('click', (e) => {
+    e.stopPropagation();
+    const folderInput = document.getElementById('folderInput') as HTMLInputElement;
+    if (folderInput) folderInput.click();
+  });
+
+  ['fileInput', 'folderInput'].forEach(inputId => {
+    const input = document.getElementById(inputId) as HTMLInputElement;
+    if (input) {
+      input.addEventListener('change', async (e: any) => {
+        await importFiles(dropZone, Array.from(e.target.files || []) as File[]);
+      });
+    }
+  });
+}
+
+async function importFiles(dropZone: HTMLElement, files: File[]) {
+  if (files.length === 0 || importController) return;
+  importController = new AbortController();
+  const onProgress = showProgress(dropZone, 'Importing', files.length);
+
+  try {
+    lastImportSummary = await BulkImporter.importFiles(files, { signal: importController.signal, onProgress });
+  } finally {
+    importController = null;
+  }
+  render();
+}
+
+async function reanalyseLibrary(dropZone: HTMLElement) {
+  if (importController) return;
+  importController = new AbortController();
+  const onProgress = showProgress(dropZone, 'Re-analysing', 0);
+
+  try {
+    lastReanalyseSummary = await LibraryReanalyser.reanalyseLibrary({ signal: importController.signal, onProgress });
+  } finally {
+    importController = null;
   }
+  render();
+}
+
+/** Turns the drop zone into a progress bar with a Cancel button for `importController`. */
+function showProgress(dropZone: HTMLElement, verb: string, total: number): (progress: BulkImportProgress) => void {
+  dropZone.innerHTML = `
+    <div class="space-y-3">
+        <div class="text-blue-600 font-bold">${verb} <span id="importCount">0 of ${total}</span>...</div>
+        <div class="w-full bg-gray-200 rounded-full h-2 overflow-hidden"><div id="importBar" class="bg-blue-600 h-2 transition-all" style="width: 0%"></div></div>
+        <div id="importCurrent" class="text-xs text-gray-500 truncate"></div>
+        <button id="importCancel" class="text-xs bg-white hover:bg-red-50 text-red-600 border border-red-200 px-3 py-1.5 rounded-md font-bold transition">Cancel</button>
+    </div>
+  `;
+  document.getElementById('importCancel')?.addEventListener('click', (e) => {
+    e.stopPropagation();
+    importController?.abort();
+    (e.target as HTMLButtonElement).textContent = 'Cancelling...';
+  });
+
+  return ({ current, done, total, entry }) => {
+    const count = document.getElementById('importCount');
+    const bar = document.getElementById('importBar');
+    const currentEl = document.getElementById('importCurrent');
+    // Entries parsed so far move the bar within the current package
+    const partial = entry && entry.total ? entry.done / entry.total : 0;
+    if (count) count.textContent = `${done} of ${total}`;
+    if (bar) bar.style.width = `${total ? Math.round(((done + partial) / total) * 100) : 0}%`;
+    if (currentEl) currentEl.textContent = entry ? `${current} › ${entry.entry}` : current;
+  };
 }
 
 // --- Global Actions ---
 declare global {
   interface Window {
-    navigateTo: (view: 'dashboard' | 'detail', id?: number, type?: 'report' | 'datamodel' | 'dashboard') => void;
+    navigateTo: (view: 'dashboard' | 'detail', id?: number, type?: 'report' | 'datamodel' | 'dashboard' | 'xlone' | 'playlist', anchor?: string) => void;
     setMode: (mode: 'business' | 'technical') => void;
     exportDocx: () => void;
-    deleteEntity: (id: number, type: 'report' | 'datamodel' | 'dashboard') => void;
+    deleteEntity: (id: number, type: 'report' | 'datamodel' | 'dashboard' | 'xlone' | 'playlist') => void;
     editStepNote: (reportId: string, stepId: string) => void;
     saveStepNote: (reportId: string, stepId: string) => void;
     cancelNote: (stepId: string) => void;
     exportJson: () => void;
     verifyOffline: () => void;
     openFeedback: () => void;
+    filterTableRows: (tableId: string, query: string) => void;
+    exportRecipientCsv: () => void;
+    exportFileInventoryCsv: () => void;
+    previewPlaylistEmails: () => void;
+    dismissImportSummary: () => void;
+    openRestore: () => void;
+    restoreBackup: (strategy: RestoreStrategy) => void;
+    cancelRestore: () => void;
+    dismissRestoreSummary: () => void;
+    reanalyseLibrary: () => void;
+    dismissReanalyseSummary: () => void;
+    downloadOriginal: () => void;
+    searchLibrary: (query: string) => void;
+    setLibrarySort: (sort: LibrarySort) => void;
+    revealAnchor: (anchor: string) => void;
+    showColumnLineage: (panelId: string) => void;
+    loadDryRunSample: (stepKey: string, input: HTMLInputElement) => void;
+    runDryRun: () => void;
   }
 }
 
-window.navigateTo = (view, id, type) => {
+window.navigateTo = (view, id, type, anchor) => {
   currentView = view;
+  pendingAnchor = anchor || null;
+  if (id && id !== currentReportId) {
+    playlistTestValues = {};
+    dryRunSamples = {};
+  }
   if (id) currentReportId = id;
   if (type) currentType = type;
   render();
@@ -340,6 +666,10 @@ window.exportDocx = async () => {
         await DocxGenerator.downloadDataModelDocx(currentReportId, currentMode);
       } else if (currentType === 'dashboard') {
         await DocxGenerator.downloadDashboardDocx(currentReportId, currentMode);
+      } else if (currentType === 'xlone') {
+        await DocxGenerator.downloadXlOneDocx(currentReportId, currentMode);
+      } else if (currentType === 'playlist') {
+        await DocxGenerator.downloadPlaylistDocx(currentReportId, currentMode);
       }
     } catch (e) {
       console.error(e);
@@ -348,17 +678,40 @@ window.exportDocx = async () => {
   }
 };
 
+window.exportRecipientCsv = async () => {
+  if (currentReportId && currentType === 'playlist') {
+    try {
+      await CsvGenerator.downloadPlaylistRecipientMatrix(currentReportId);
+    } catch (e) {
+      console.error(e);
+      alert('Export failed');
+    }
+  }
+};
+
+window.exportFileInventoryCsv = async () => {
+  try {
+    await CsvGenerator.downloadFileInventory();
+  } catch (e) {
+    console.error(e);
+    alert('Export failed');
+  }
+};
+
+window.previewPlaylistEmails = async () => {
+  if (!currentReportId || currentType !== 'playlist') return;
+  const values: Record<string, string> = {};
+  document.querySelectorAll<HTMLInputElement>('#playlist-test-values input[data-test-var]').forEach(input => {
+    if (input.value.trim()) values[input.dataset.testVar!] = input.value.trim();
+  });
+  playlistTestValues = values;
+  const container = document.getElementById('playlist-email-preview');
+  if (container) container.innerHTML = await PlaylistGenerator.generateEmailPreview(currentReportId, currentMode, values);
+};
+
 window.exportJson = async () => {
   try {
-    const reports = await db.reports.toArray();
-    const dataModels = await db.dataModels.toArray();
-    const dashboards = await db.dashboards.toArray();
-    const exportData = {
-      generated: new Date().toISOString(),
-      version: '1.0',
-      appVersion: '3.1',
-      library: { reports, dataModels, dashboards }
-    };
+    const exportData = await LibraryBackup.createBackup();
     const filename = `library-backup-${new Date().toISOString().slice(0, 10)}.json`;
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -375,16 +728,159 @@ window.exportJson = async () => {
   }
 };
 
+window.filterTableRows = (tableId: string, query: string) => {
+  const table = document.getElementById(tableId);
+  if (!table) return;
+  const needle = query.trim().toLowerCase();
+  table.querySelectorAll<HTMLTableRowElement>('tbody tr').forEach(row => {
+    row.style.display = !needle || (row.textContent || '').toLowerCase().includes(needle) ? '' : 'none';
+  });
+};
+
+window.dismissImportSummary = () => {
+  lastImportSummary = null;
+  render();
+};
+
+window.openRestore = () => {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = '.json,application/json';
+  input.addEventListener('change', async () => {
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      pendingRestore = { fileName: file.name, backup: LibraryBackup.parseBackup(await file.text()) };
+      lastRestoreSummary = null;
+      currentView = 'dashboard';
+      render();
+    } catch (e: any) {
+      console.error(e);
+      alert(`Could not restore ${file.name}: ${e?.message || e}`);
+    }
+  });
+  input.click();
+};
+
+window.restoreBackup = async (strategy: RestoreStrategy) => {
+  if (!pendingRestore) return;
+  if (strategy === 'replace' && !confirm('Replace the whole library with this backup? Artifacts and notes not in the backup will be deleted.')) return;
+  try {
+    lastRestoreSummary = await LibraryBackup.restore(pendingRestore.backup, strategy);
+    pendingRestore = null;
+  } catch (e: any) {
+    console.error(e);
+    alert(`Restore failed, the library was not changed: ${e?.message || e}`);
+  }
+  await SearchIndex.rebuild().catch(e => console.error('Could not rebuild the search index', e));
+  render();
+};
+
+window.cancelRestore = () => {
+  pendingRestore = null;
+  render();
+};
+
+window.dismissRestoreSummary = () => {
+  lastRestoreSummary = null;
+  render();
+};
+
+window.reanalyseLibrary = async () => {
+  if (importController) return;
+  if (!confirm('Re-analyse every artifact in the library with the current parsers? Notes are kept.')) return;
+  lastReanalyseSummary = null;
+  currentView = 'dashboard';
+  await render();
+  const dropZone = document.getElementById('dropZone');
+  if (dropZone) await reanalyseLibrary(dropZone);
+};
+
+window.dismissReanalyseSummary = () => {
+  lastReanalyseSummary = null;
+  render();
+};
+
+window.downloadOriginal = async () => {
+  if (!currentReportId) return;
+  try {
+    const record = await FileProcessor.table(currentType).get(currentReportId);
+    const file = await PackageStore.load(record?.packageId);
+    if (!file) {
+      alert('The original package was not kept for this import.');
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } catch (e) {
+    console.error(e);
+    alert('Download failed');
+  }
+};
+
+window.setLibrarySort = (sort: LibrarySort) => {
+  librarySort = sort;
+  render();
+};
+
+window.searchLibrary = (query: string) => {
+  searchQuery = query;
+  clearTimeout(searchTimer);
+  searchTimer = setTimeout(() => showSearchResults(query), 200);
+};
+
+window.revealAnchor = (anchor: string) => revealAnchor(anchor);
+
+window.showColumnLineage = (panelId: string) => {
+  document.querySelectorAll('.column-lineage-panel').forEach(panel => panel.classList.toggle('hidden', panel.id !== panelId));
+  revealAnchor(panelId);
+};
+
+window.loadDryRunSample = async (stepKey: string, input: HTMLInputElement) => {
+  const file = input.files?.[0];
+  if (!file) return;
+  const sample = CsvReader.parse(await file.text(), file.name);
+  dryRunSamples[stepKey] = sample;
+  const status = document.getElementById(`dry-run-sample-${stepKey}`);
+  if (status) status.textContent = `${sample.rows.length} rows from ${file.name}`;
+};
+
+window.runDryRun = async () => {
+  if (!currentReportId || currentType !== 'report') return;
+  const values: Record<string, string> = {};
+  document.querySelectorAll<HTMLInputElement>('#dry-run-variables input[data-dry-run-var]').forEach(input => {
+    if (input.value.trim()) values[input.dataset.dryRunVar!] = input.value.trim();
+  });
+  const container = document.getElementById('dry-run-results');
+  if (!container) return;
+  try {
+    container.innerHTML = await DryRunGenerator.generateDryRun(currentReportId, dryRunSamples, values);
+  } catch (e) {
+    console.error(e);
+    container.innerHTML = `<p class="text-red-500">Dry run failed: ${escapeHtml(e instanceof Error ? e.message : String(e))}</p>`;
+  }
+};
+
 window.verifyOffline = () => {
   new OfflineVerifier();
 };
 
-window.deleteEntity = async (id: number, type: 'report' | 'datamodel' | 'dashboard') => {
-  const typeLabel = type === 'report' ? 'Report' : type === 'datamodel' ? 'Data Model' : 'Dashboard';
+window.deleteEntity = async (id: number, type: 'report' | 'datamodel' | 'dashboard' | 'xlone' | 'playlist') => {
+  const typeLabel = type === 'report' ? 'Report' : type === 'datamodel' ? 'Data Model' : type === 'xlone' ? 'XLOne Report' : type === 'playlist' ? 'Playlist' : 'Dashboard';
   if (confirm(`Are you sure you want to delete this ${typeLabel}?`)) {
+    await PackageStore.delete((await FileProcessor.table(type).get(id))?.packageId);
+    await SearchIndex.removeRecord(type, id);
     if (type === 'report') await db.reports.delete(id);
     else if (type === 'datamodel') await db.dataModels.delete(id);
     else if (type === 'dashboard') await db.dashboards.delete(id);
+    else if (type === 'xlone') await db.xlOneReports.delete(id);
+    else if (type === 'playlist') await db.playlists.delete(id);
     render();
   }
 };
@@ -415,6 +911,7 @@ window.saveStepNote = async (reportId: string, stepId: string) => {
       const stepNotes = report.stepNotes || {};
       if (text) stepNotes[stepId] = text; else delete stepNotes[stepId];
       await db.reports.update(rid, { stepNotes });
+      await FileProcessor.updateSearchIndex('report', rid, { ...report, stepNotes });
       render();
     }
   } else {
@@ -423,6 +920,7 @@ window.saveStepNote = async (reportId: string, stepId: string) => {
       const stepNotes = dm.stepNotes || {};
       if (text) stepNotes[stepId] = text; else delete stepNotes[stepId];
       await db.dataModels.update(rid, { stepNotes });
+      await FileProcessor.updateSearchIndex('datamodel', rid, { ...dm, stepNotes });
       render();
     }
   }
@@ -524,7 +1022,8 @@ function checkAndShowTour() {
             <ul class="text-xs space-y-3 text-gray-600">
                 <li class="flex items-start"><div class="w-6 h-6 rounded-full bg-emerald-100 text-emerald-600 flex items-center justify-center mr-2 shrink-0">🛡️</div> <div><b>Privacy Guard:</b> Run a quick check to verify your session is 100% offline and secure.</div></li>
                 <li class="flex items-start"><div class="w-6 h-6 rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center mr-2 shrink-0">💬</div> <div><b>Feedback:</b> Spotted a bug or have an idea? We'd love to hear from you.</div></li>
-                <li class="flex items-start"><div class="w-6 h-6 rounded-full bg-slate-200 text-slate-600 flex items-center justify-center mr-2 shrink-0">💾</div> <div><b>Library Backup:</b> Export your offline database as a JSON file at any time.</div></li>
+                <li class="flex items-start"><div class="w-6 h-6 rounded-full bg-slate-200 text-slate-600 flex items-center justify-center mr-2 shrink-0">💾</div> <div><b>Library Backup:</b> Export your offline database as a JSON file at any time, and restore it here or on another device.</div></li>
+                <li class="flex items-start"><div class="w-6 h-6 rounded-full bg-slate-200 text-slate-600 flex items-center justify-center mr-2 shrink-0">🔄</div> <div><b>Re-analyse:</b> Original packages are kept, so after an update you can re-run the latest analysis over your whole library without losing notes.</div></li>
             </ul>
         </div>
         <div class="text-right">
@@ -555,6 +1054,12 @@ function checkAndShowTour() {
 }
 
 // Start App
-render().then(() => {
+render().then(async () => {
   setTimeout(checkAndShowTour, 1000);
+  // Libraries imported before search existed are indexed once
+  try {
+    if (await SearchIndex.needsRebuild()) await SearchIndex.rebuild();
+  } catch (e) {
+    console.error('Could not build the search index', e);
+  }
 });
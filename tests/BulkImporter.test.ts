@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import { BulkImporter } from '../src/lib/BulkImporter';
+import { FileProcessor } from '../src/lib/FileProcessor';
+
+vi.mock('../src/lib/db', () => ({ db: {} }));
+
+const pkg = (manifest: string) => {
+    const zip = new JSZip();
+    zip.file(manifest, '<Root />');
+    return zip.generateAsync({ type: 'uint8array' });
+};
+
+describe('BulkImporter', () => {
+    let nextId = 1;
+
+    beforeEach(() => {
+        nextId = 1;
+        vi.restoreAllMocks();
+        vi.spyOn(FileProcessor, 'processAndSave').mockImplementation(async () => nextId++);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should import packages found in nested folders and archives by content', async () => {
+        const inner = new JSZip();
+        inner.file('Playlists/Month End.t1pl', await pkg('Schedule.xml'));
+        inner.file('renamed-by-gateway.bin', await pkg('DataModel.xml'));
+
+        const outer = new JSZip();
+        outer.file('ETL/Load GL.t1etlp', await pkg('Processes.xml'));
+        outer.file('More/inner.zip', await inner.generateAsync({ type: 'uint8array' }));
+        outer.file('README.txt', 'Export from production');
+        outer.file('__MACOSX/ETL/._Load GL.t1etlp', 'resource fork');
+        const file = new File([await outer.generateAsync({ type: 'blob' })], 'export.zip');
+
+        const summary = await BulkImporter.importFiles([file]);
+
+        expect(summary.imported.map(i => [i.name, i.type])).toEqual([
+            ['export.zip/ETL/Load GL.t1etlp', 'report'],
+            ['export.zip/More/inner.zip/Playlists/Month End.t1pl', 'playlist'],
+            ['export.zip/More/inner.zip/renamed-by-gateway.bin', 'datamodel']
+        ]);
+        expect(summary.skipped).toEqual([{ name: 'export.zip/README.txt', reason: 'Not a T1 package or zip archive' }]);
+        expect(summary.failed).toEqual([]);
+        expect(vi.mocked(FileProcessor.processAndSave).mock.calls.map(([f, type]) => [f.name, type])).toContainEqual(['renamed-by-gateway.bin', 'datamodel']);
+        expect(summary.imported[2]!.reason).toBe('DataModel.xml found (no T1 extension)');
+    });
+
+    it('should use the folder-relative path for directory selections', async () => {
+        const file = new File([await pkg('Report.xml')], 'Sales.t1xl');
+        Object.defineProperty(file, 'webkitRelativePath', { value: 'exports/XLOne/Sales.t1xl' });
+
+        const summary = await BulkImporter.importFiles([file]);
+
+        expect(summary.imported).toEqual([{ name: 'exports/XLOne/Sales.t1xl', type: 'xlone', id: 1, reason: 'Report.xml found' }]);
+        expect(vi.mocked(FileProcessor.processAndSave).mock.calls[0]![0]).toBe(file);
+    });
+
+    it('should report failures without stopping the remaining imports', async () => {
+        vi.mocked(FileProcessor.processAndSave).mockRejectedValueOnce(new Error('Invalid T1DB file: Dashboard.xml not found'));
+        const files = [
+            new File([await pkg('Dashboard.xml')], 'Broken.t1db'),
+            new File(['not a zip'], 'Corrupt.t1etlp'),
+            new File([await pkg('Other.xml')], 'Unknown.t1dm'),
+            new File([await pkg('Processes.xml')], 'Good.t1etlp')
+        ];
+
+        const summary = await BulkImporter.importFiles(files);
+
+        expect(summary.imported.map(i => i.name)).toEqual(['Good.t1etlp']);
+        expect(summary.failed.map(f => f.name)).toEqual(['Broken.t1db', 'Corrupt.t1etlp', 'Unknown.t1dm']);
+        expect(summary.failed[0]!.error).toBe('Invalid T1DB file: Dashboard.xml not found');
+        expect(summary.failed[2]!.error).toContain('Processes.xml');
+    });
+
+    it('should stop at the next entry when cancelled and report progress', async () => {
+        const controller = new AbortController();
+        const progress: string[] = [];
+        const files = await Promise.all(['A', 'B', 'C'].map(async n => new File([await pkg('Processes.xml')], `${n}.t1etlp`)));
+
+        const summary = await BulkImporter.importFiles(files, {
+            signal: controller.signal,
+            onProgress: p => {
+                progress.push(`${p.done}/${p.total} ${p.current}`);
+                if (p.current === 'B.t1etlp') controller.abort();
+            }
+        });
+
+        expect(summary.imported.map(i => i.name)).toEqual(['A.t1etlp', 'B.t1etlp']);
+        expect(summary.cancelled).toBe(1);
+        expect(progress).toEqual(['0/3 A.t1etlp', '1/3 B.t1etlp', '2/3 ']);
+    });
+
+    it('should count a package cancelled part-way through parsing as not processed', async () => {
+        const controller = new AbortController();
+        vi.mocked(FileProcessor.processAndSave).mockImplementation(async (file, _type, options) => {
+            options?.onProgress?.({ entry: 'Steps.xml', done: 1, total: 2 });
+            controller.abort();
+            throw new DOMException(`Import of ${file.name} cancelled`, 'AbortError');
+        });
+        const progress: string[] = [];
+        const files = await Promise.all(['A', 'B'].map(async n => new File([await pkg('Processes.xml')], `${n}.t1etlp`)));
+
+        const summary = await BulkImporter.importFiles(files, {
+            signal: controller.signal,
+            onProgress: p => p.entry && progress.push(`${p.current} ${p.entry.entry}`)
+        });
+
+        expect(summary.failed).toEqual([]);
+        expect(summary.cancelled).toBe(2);
+        expect(progress).toEqual(['A.t1etlp Steps.xml']);
+    });
+});
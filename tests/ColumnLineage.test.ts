@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnLineage, type ColumnLineageGraph, type ColumnRef } from '../src/lib/analysis/ColumnLineage';
+import { step, processOf } from './fixtures/etl';
+
+const analyse = (steps: any[], variables: any[] = []) => ColumnLineage.analyse(processOf(steps, variables));
+
+const chain = (graph: ColumnLineageGraph, edges: ReturnType<typeof ColumnLineage.upstream>) =>
+    edges.map(e => `${e.kind} ${ColumnLineage.id(e.from)} > ${ColumnLineage.id(e.to)}`);
+
+const memory = (table: string, column: string): ColumnRef => ({ scope: 'memory', table, column });
+
+const query = step(1, 'RunDirectQuery', 'Read GL', {
+    TableName: 'GLBalances',
+    Columns: { ColumnItem: [
+        { ColumnName: 'ACCOUNT', ColumnSource: 'ACCOUNT' },
+        { ColumnName: 'AMT', ColumnSource: '[DEBIT] - [CREDIT]' }
+    ] }
+}, { OutputTableName: 'GL' });
+
+describe('ColumnLineage', () => {
+    it('traces query columns through calculations, renames and a warehouse import', () => {
+        const graph = analyse([
+            query,
+            step(2, 'AddColumn', 'Scale', { InputTableName: 'GL', Columns: { ColumnItemDef: { ColumnName: 'AMT_K', Expression: 'AMT / RATE' } } }),
+            step(3, 'RenameColumn', 'Rename', { InputTableName: 'GL', OldColumnName: 'AMT_K', NewColumnName: 'VALUE' }),
+            step(4, 'DeleteColumn', 'Drop amount', { InputTableName: 'GL', ColumnsToDelete: { ColumnItem: { ColumnName: 'AMT' } } }),
+            step(5, 'ImportWarehouseData', 'Load', {
+                InputTableName: 'GL', WarehouseName: 'DW', TableName: 'Fact',
+                ColumnMapping: { TableColumnMapping: [{ ColumnName: 'ACC', MappedValue: '[ACCOUNT]' }, { ColumnName: 'VAL', MappedValue: '[VALUE]' }] }
+            })
+        ], [{ Name: 'RATE', VariableType: 'N' }]);
+
+        const upstream = ColumnLineage.upstream(graph, { scope: 'warehouse', table: 'DW.Fact', column: 'VAL' });
+        expect(chain(graph, upstream)).toEqual([
+            'import MEMORY:GL.VALUE > WAREHOUSE:DW.FACT.VAL',
+            'rename MEMORY:GL.AMT_K > MEMORY:GL.VALUE',
+            'calculate MEMORY:GL.AMT > MEMORY:GL.AMT_K',
+            'calculate SOURCE:GLBALANCES.DEBIT > MEMORY:GL.AMT',
+            'calculate SOURCE:GLBALANCES.CREDIT > MEMORY:GL.AMT'
+        ]);
+        expect(upstream.find(e => e.kind === 'calculate' && e.order === 2)!.expression).toBe('AMT / RATE');
+
+        const downstream = ColumnLineage.downstream(graph, { scope: 'source', table: 'GLBalances', column: 'ACCOUNT' });
+        expect(chain(graph, downstream)).toEqual([
+            'select SOURCE:GLBALANCES.ACCOUNT > MEMORY:GL.ACCOUNT',
+            'import MEMORY:GL.ACCOUNT > WAREHOUSE:DW.FACT.ACC'
+        ]);
+
+        expect(graph.drops.map(d => [d.stepName, ColumnLineage.id(d.column)])).toEqual([['Drop amount', 'MEMORY:GL.AMT']]);
+        expect(ColumnLineage.written(graph, 'AddColumn_Scale').map(c => c.column)).toEqual(['AMT_K']);
+    });
+
+    it('follows join aliases and appended tables', () => {
+        const graph = analyse([
+            query,
+            step(2, 'RunDirectQuery', 'Read accounts', {
+                TableName: 'Accounts',
+                Columns: { ColumnItem: [{ ColumnName: 'ACCOUNT', ColumnSource: 'CODE' }, { ColumnName: 'DESCR', ColumnSource: 'DESCR' }] }
+            }, { OutputTableName: 'ACC' }),
+            step(3, 'JoinTable', 'Join', {
+                InputTables: { InputTableDef: [{ InputTableName: 'GL' }, { InputTableName: 'ACC' }] },
+                Joins: { JoinItemDef: { JoinTable1: 'GL', JoinColumn1: 'ACCOUNT', JoinType: 'Inner', JoinTable2: 'ACC', JoinColumn2: 'ACCOUNT' } },
+                ColumnAliases: { ColumnAliasDef: { AliasTableName: 'ACC', AliasColumnName: 'DESCR', AliasName: 'ACCOUNT_NAME' } }
+            }, { OutputTableName: 'JOINED' }),
+            step(4, 'AppendTable', 'Append', { InputTableName: 'JOINED', AppendToTableName: 'ALL_GL' })
+        ]);
+
+        expect(chain(graph, ColumnLineage.upstream(graph, memory('ALL_GL', 'ACCOUNT_NAME')))).toEqual([
+            'append MEMORY:JOINED.ACCOUNT_NAME > MEMORY:ALL_GL.ACCOUNT_NAME',
+            'join MEMORY:ACC.DESCR > MEMORY:JOINED.ACCOUNT_NAME',
+            'select SOURCE:ACCOUNTS.DESCR > MEMORY:ACC.DESCR'
+        ]);
+        const joined = ColumnLineage.upstream(graph, memory('JOINED', 'ACCOUNT'));
+        expect(joined.map(e => e.expression)).toEqual(['GL.ACCOUNT = ACC.ACCOUNT', '']);
+        expect(ColumnLineage.id(joined[0].from)).toBe('MEMORY:GL.ACCOUNT');
+    });
+
+    it('traces the columns SQL steps and SQL scripts write from the columns they read', () => {
+        const graph = analyse([
+            step(1, 'ExecuteSQL', 'Stage', { SQL: 'INSERT INTO Staging (Code, Amount) SELECT s.Code, SUM(s.Amount) FROM dbo.Sales s GROUP BY s.Code' }),
+            step(2, 'Script', 'Load', { ScriptLanguage: 'T-SQL', ScriptText: 'UPDATE f SET f.Total = st.Amount * 2 FROM Fact f JOIN Staging st ON st.Code = f.Code' }),
+            step(3, 'Script', 'Notify', { ScriptLanguage: 'VB', ScriptText: 'Dim x' })
+        ]);
+
+        const database = (table: string, column: string): ColumnRef => ({ scope: 'database', table, column });
+        const upstream = ColumnLineage.upstream(graph, database('Fact', 'Total'));
+        expect(chain(graph, upstream)).toEqual([
+            'calculate DATABASE:STAGING.AMOUNT > DATABASE:FACT.TOTAL',
+            'calculate DATABASE:DBO.SALES.AMOUNT > DATABASE:STAGING.AMOUNT'
+        ]);
+        expect(upstream.map(e => e.expression)).toEqual(['st.Amount * 2', 'SUM(s.Amount)']);
+        expect(chain(graph, ColumnLineage.upstream(graph, database('Staging', 'Code')))).toEqual(['select DATABASE:DBO.SALES.CODE > DATABASE:STAGING.CODE']);
+        expect(ColumnLineage.written(graph, 'Script_Notify')).toEqual([]);
+    });
+
+    it('ignores disabled steps', () => {
+        const graph = analyse([query, step(2, 'AddColumn', 'Old', { InputTableName: 'GL', Columns: { ColumnItemDef: { ColumnName: 'X', Expression: '[AMT]' } } }, { IsActive: false })]);
+        expect(ColumnLineage.written(graph, 'AddColumn_Old')).toEqual([]);
+        expect(ColumnLineage.downstream(graph, memory('GL', 'AMT'))).toEqual([]);
+    });
+});
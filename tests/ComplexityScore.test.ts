@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { EtlParser } from '../src/lib/parsers/EtlParser';
+import { ComplexityScore } from '../src/lib/analysis/ComplexityScore';
+import { step, rawStepsOf, processOf } from './fixtures/etl';
+
+const score = (steps: any[]) => ComplexityScore.fromFlow(EtlParser.parseSteps(rawStepsOf(steps), 'technical').executionFlow, processOf(steps));
+
+const points = (steps: any[]) => Object.fromEntries(score(steps).factors.filter(f => f.points > 0).map(f => [f.key, f.points]));
+
+describe('ComplexityScore', () => {
+    it('scores a short straight-line process as Low', () => {
+        const assessment = score([
+            step(1, 'RunDirectQuery', 'Read GL', { TableName: 'GL' }),
+            step(2, 'ExportToExcel', 'Export', {})
+        ]);
+        expect(assessment.total).toBe(0);
+        expect(assessment.level).toBe('Low');
+        expect(assessment.factors).toHaveLength(10);
+        expect(ComplexityScore.drivers(assessment)).toEqual([]);
+    });
+
+    it('adds points for queries inside loops, nesting and branching', () => {
+        const steps = [
+            step(1, 'Loop', 'Each entity', {}),
+            step(2, 'Decision', 'Has rows?', {}, { ParentStepId: 1 }),
+            step(3, 'Branch', 'Yes', { Expression: 'Count() > 0' }, { ParentStepId: 2 }),
+            step(4, 'RunDirectQuery', 'Read entity', { TableName: 'GL' }, { ParentStepId: 3 }),
+            step(5, 'Loop', 'Retry', {})
+        ];
+        const assessment = score(steps);
+
+        const loops = assessment.factors.find(f => f.key === 'loop-queries')!;
+        expect(loops.value).toBe(1);
+        expect(loops.steps).toEqual(['Each entity']);
+        expect(points(steps)).toEqual({ 'steps': 1, 'nesting': 9, 'loop-queries': 8, 'branching': 4 });
+        expect(assessment.total).toBe(22);
+        expect(assessment.level).toBe('Medium');
+        expect(ComplexityScore.drivers(assessment).map(f => f.key)).toEqual(['nesting', 'loop-queries', 'branching', 'steps']);
+    });
+
+    it('measures long expressions and nested IIFs', () => {
+        const nested = `IIF(A = 1, 'one', IIF(A = 2, 'two', IIF(A = 3, 'three', '${'x'.repeat(200)}')))`;
+        const assessment = score([
+            step(1, 'AddColumn', 'Band', { TableName: 'T', Columns: { ColumnItemDef: [{ ColumnName: 'BAND', Expression: nested }, { ColumnName: 'FLAG', Expression: "IIF(B, 'Y', 'N')" }] } })
+        ]);
+
+        const length = assessment.factors.find(f => f.key === 'expression-length')!;
+        const iif = assessment.factors.find(f => f.key === 'iif-nesting')!;
+        expect(length.value).toBe(nested.length);
+        expect(length.points).toBe(2);
+        expect(iif.value).toBe(3);
+        expect(iif.points).toBe(6);
+        expect(iif.steps).toEqual(['Band']);
+    });
+
+    it('measures branch conditions from the process model', () => {
+        const condition = "IIF(REGION = 'EU', IIF(AMT > 0, 1, 0), 0) = 1";
+        const assessment = score([
+            step(1, 'Decision', 'Route', {}),
+            step(2, 'Branch', 'Europe', { Expression: condition }, { ParentStepId: 1 }),
+            step(3, 'Branch', 'Old rule', { Expression: `IIF(A, IIF(B, IIF(C, 1, 0), 0), 0) = 1` }, { ParentStepId: 1, IsActive: false })
+        ]);
+
+        const iif = assessment.factors.find(f => f.key === 'iif-nesting')!;
+        expect(iif.value).toBe(2);
+        expect(iif.steps).toEqual(['Europe']);
+        expect(assessment.factors.find(f => f.key === 'expression-length')!.value).toBe(condition.length);
+    });
+
+    it('counts warehouse writes, deletes, external SQL and emails, and caps each factor', () => {
+        const assessment = score([
+            step(1, 'ImportWarehouseData', 'Load', {}),
+            step(2, 'DeleteWarehouseData', 'Clear', {}),
+            step(3, 'PurgeTable', 'Purge', { TableName: 'T' }),
+            step(4, 'ExecuteSQL', 'Tidy', { SQL: 'DELETE FROM Staging' }),
+            ...[5, 6, 7, 8].map(id => step(id, 'SendEmail', `Mail ${id}`, {})),
+            step(9, 'DeleteWarehouseData', 'Old clear', {}, { IsActive: false })
+        ]);
+
+        const factor = (key: string) => assessment.factors.find(f => f.key === key)!;
+        expect(factor('warehouse-writes').points).toBe(3);
+        expect(factor('deletes').value).toBe(2);
+        expect(factor('deletes').steps).toEqual(['Clear', 'Purge']);
+        expect(factor('external-sql').steps).toEqual(['Tidy']);
+        expect(factor('emails').value).toBe(4);
+        expect(factor('emails').points).toBe(factor('emails').max);
+        expect(assessment.total).toBe(1 + 3 + 10 + 5 + 9);
+        expect(assessment.level).toBe('Medium');
+    });
+
+    it('reads the stored score and works one out only for records without it', () => {
+        const steps = [step(1, 'SendEmail', 'Mail', {})];
+        const report: any = { filename: 'a.t1etlp', metadata: {}, rawProcess: {}, rawSteps: rawStepsOf(steps), dateAdded: new Date() };
+        expect(ComplexityScore.of(report).factors.find(f => f.key === 'emails')!.value).toBe(1);
+
+        const stored = { total: 42, level: 'High' as const, factors: [] };
+        expect(ComplexityScore.of({ ...report, complexity: stored })).toBe(stored);
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CsvGenerator } from '../src/lib/generators/CsvGenerator';
+import type { PlaylistItem } from '../src/lib/parsers/PlaylistParser';
+
+vi.mock('../src/lib/db', () => ({ db: {} }));
+
+const item = (overrides: Partial<PlaylistItem>): PlaylistItem => ({
+    itemId: '1', sequence: 1, comment: '', active: true, continueOnError: false,
+    sourceType: '', sourceServerFolder: 'SFOLDER', sourcePath: 'Pack.xlsx', sourceSheetName: '',
+    actionCode: 'REPRUN', actionFileType: 'XL12', actionFilePath: '', actionSheetName: '',
+    myReportInd: false, myReportUser: '', saveInd: false, saveServerFolder: '', saveSubfolder: '',
+    emailInd: false, emailTo: [], emailCc: [], emailSubject: '', emailBody: '', emailAttach: false,
+    itemVariables: [],
+    ...overrides
+});
+
+describe('CsvGenerator', () => {
+    it('should quote cells containing commas, quotes and line breaks', () => {
+        expect(CsvGenerator.toCsv([['a', 'b,c'], ['say "hi"', 'line\nbreak']]))
+            .toBe('a,"b,c"\r\n"say ""hi""","line\nbreak"');
+    });
+
+    it('should build a report-by-recipient matrix with per-recipient totals', () => {
+        const matrix = CsvGenerator.buildRecipientMatrix([
+            item({ itemId: '1', sequence: 1, comment: 'CC 0104', emailInd: true, emailTo: ['jo@x.com'], emailCc: ['boss@x.com'], emailAttach: true }),
+            item({ itemId: '2', sequence: 2, comment: 'CC 0105', emailInd: true, emailTo: ['jo@x.com'], saveInd: true, saveServerFolder: 'SFOLDER' }),
+            item({ itemId: '3', sequence: 3, comment: 'Draft', active: false })
+        ]);
+
+        expect(matrix[0]).toEqual(['Sequence', 'Report', 'Source Workbook', 'Active', 'Delivered', 'boss@x.com', 'jo@x.com', 'SFOLDER']);
+        expect(matrix[1]).toEqual(['1', 'CC 0104', 'Pack.xlsx', 'Yes', 'Yes', 'Cc (attached)', 'To (attached)', '']);
+        expect(matrix[2]).toEqual(['2', 'CC 0105', 'Pack.xlsx', 'Yes', 'Yes', '', 'To (link)', 'Saved']);
+        expect(matrix[3]).toEqual(['3', 'Draft', 'Pack.xlsx', 'No', 'NO - neither emailed nor saved', '', '', '']);
+        expect(matrix[4]).toEqual(['', 'Total items received', '', '', '1 not delivered', '1', '2', '1']);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { DashboardModel } from '../src/lib/model/DashboardModel';
+
+const widget = (id: string, title: string, subType: string, dataModelId: string, extra: any = {}) => ({
+    GenericEntityId: id,
+    Description: title,
+    EntitySubType: subType,
+    AttributeString1: dataModelId,
+    DatamodelDescription: dataModelId === 'DM1' ? 'Budget Model' : 'Actuals Model',
+    ...extra
+});
+
+const content = {
+    Dashboard: {
+        EntityDef: {
+            GenericEntityId: 'D1',
+            Description: 'Budget Overview',
+            Definition: {
+                Dashboard: {
+                    Layout: { LayoutItem: [{ Id: 'W1', X: 0, Y: 0, Width: 4, Height: 100 }, { Id: 'W2', X: 4, Y: 0, Width: 8, Height: 200, Visible: false }] }
+                }
+            }
+        }
+    },
+    Visualisations: {
+        ArrayOfEntityDef: {
+            EntityDef: [
+                widget('W1', 'Period', 'SLICER', 'DM1'),
+                widget('W2', 'Lines', 'TABLE', 'DM2', {
+                    AttributeText1: { CriteriaSetItem: { CriteriaValues: { CriteriaValue: { ColumnId: 'Year', Operator: { Value: 'Equals' }, Value1: 2025 } } } },
+                    AttributeText2: { Parameters: { ParameterField: { FieldName: 'Ledger', Value: 'GL' } } },
+                    Definition: { Table: { Columns: { Column: [{ ColumnId: 'Account', Description: 'Account', DataType: 'String' }, { ColumnId: 'Hidden', IsVisible: false }] } } }
+                }),
+                widget('W3', 'Trend', 'SERIESCHART', 'DM1')
+            ]
+        }
+    },
+    Variables: { ArrayOfVariableDef: { VariableDef: { Name: 'Year', VariableType: 'N', DefaultValue: 2025 } } }
+};
+
+describe('DashboardModel', () => {
+    const model = DashboardModel.normalise(content);
+
+    it('reads the layout grid', () => {
+        expect(model).toMatchObject({ id: 'D1', description: 'Budget Overview' });
+        expect(model.layout).toEqual([
+            { widgetId: 'W1', x: 0, y: 0, width: 4, height: 100, visible: true },
+            { widgetId: 'W2', x: 4, y: 0, width: 8, height: 200, visible: false }
+        ]);
+    });
+
+    it('reads widget filters, parameters and table columns', () => {
+        const table = model.widgets.find(w => w.subType === 'TABLE')!;
+        expect(table.filters).toEqual([{ column: 'Year', operator: 'Equals', value1: '2025', value2: '', link: 'AND' }]);
+        expect(table.parameters).toEqual([{ name: 'Ledger', value: 'GL' }]);
+        expect(table.columns.map(c => [c.id, c.isVisible])).toEqual([['Account', true], ['Hidden', false]]);
+        expect(model.variables).toEqual([{ name: 'Year', description: '', type: 'N', defaultValue: '2025', listSource: '' }]);
+    });
+
+    it('groups widgets by the Data Model they read', () => {
+        expect(DashboardModel.dataModels(model).map(dm => [dm.name, dm.widgets.map(w => w.title)])).toEqual([
+            ['Budget Model', ['Period', 'Trend']],
+            ['Actuals Model', ['Lines']]
+        ]);
+    });
+});
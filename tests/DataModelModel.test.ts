@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { DataModelModel } from '../src/lib/model/DataModelModel';
+
+const content = {
+    DataModel: {
+        DataModelDef: {
+            DataModelId: 'DM1',
+            Description: 'Budget Model',
+            Definition: {
+                DataModelDefinition: {
+                    ProcessMode: 'Stored',
+                    Indexes: { Index: { IndexName: 'IX_ACCOUNT', Columns: { IndexColumnItem: [{ ColumnName: 'Account' }, { ColumnName: 'Period' }] } } },
+                    DetailViews: { DetailView: { DetailViewName: 'Lines', Columns: { DetailViewColumnItem: { ColumnName: 'Amount' } } } }
+                }
+            }
+        }
+    },
+    Queries: {
+        ArrayOfQuery: {
+            Query: [
+                {
+                    QueryName: 'Summary', Sequence: 2,
+                    Criteria: { CriteriaSetItem: { CriteriaValues: { CriteriaValue: { ColumnId: 'Period', Operator: { Value: 'Between' }, Value1: 1, Value2: 6 } } } }
+                },
+                { QueryName: 'Base', Sequence: 1, Id: 'Q1' }
+            ]
+        }
+    },
+    QueryColumns: {
+        ArrayOfQueryColumn: {
+            QueryColumn: [
+                { QueryName: 'Base', ColumnName: 'Amount', JavaType: 'Decimal', DataSourceName: 'GL', FieldId: 'AMT' },
+                { QueryName: 'Summary', ColumnName: 'Total', Expression: 'SUM([Amount])', IsCalculate: true, IsVisible: false }
+            ]
+        }
+    },
+    QueryJoins: { ArrayOfQueryJoin: { QueryJoin: { QueryName: 'Summary', DataSource1: 'Base', Field1: 'Account', DataSource2: 'CC', Field2: 'Account', JoinType: 'Left' } } },
+    QueryDatasources: {
+        ArrayOfQueryDatasource: {
+            QueryDatasource: {
+                QueryName: 'Base', DataSourceId: 'DS1', DataSourceName: 'GL', DataSourceType: 'Warehouse',
+                ParameterValues: { Parameters: { ParameterField: [{ FieldName: 'WarehouseName', Value: 'FINANCE' }] } }
+            }
+        }
+    },
+    Variables: { ArrayOfVariableDef: { VariableDef: { Name: 'Year', DefaultValue: 2025, DataType: 'N' } } }
+};
+
+describe('DataModelModel', () => {
+    const model = DataModelModel.normalise(content);
+
+    it('reads the definition, indexes and detail views', () => {
+        expect(model).toMatchObject({ id: 'DM1', description: 'Budget Model', processMode: 'Stored' });
+        expect(model.indexes).toEqual([{ name: 'IX_ACCOUNT', description: '', columns: ['Account', 'Period'] }]);
+        expect(model.detailViews).toEqual([{ name: 'Lines', description: '', columns: ['Amount'] }]);
+        expect(model.variables[0]).toMatchObject({ name: 'Year', type: 'N', defaultValue: '2025' });
+    });
+
+    it('orders queries by Sequence and attaches their columns, joins and data sources', () => {
+        expect(model.queries.map(q => q.name)).toEqual(['Base', 'Summary']);
+        expect(DataModelModel.finalQuery(model)?.name).toBe('Summary');
+
+        const [base, summary] = model.queries;
+        expect(base!.columns).toEqual([expect.objectContaining({ name: 'Amount', dataType: 'Decimal', dataSourceName: 'GL', fieldId: 'AMT' })]);
+        expect(base!.datasources).toEqual([expect.objectContaining({ id: 'DS1', name: 'GL', type: 'Warehouse', source: 'FINANCE' })]);
+        expect(summary!.columns[0]).toMatchObject({ expression: 'SUM([Amount])', isCalculated: true, isVisible: false, dataType: 'String' });
+        expect(summary!.joins).toEqual([{ joinType: 'Left', sequence: 0, leftSource: 'Base', leftField: 'Account', rightSource: 'CC', rightField: 'Account' }]);
+        expect(summary!.criteria).toEqual([{ column: 'Period', operator: 'Between', value1: '1', value2: '6', link: 'AND' }]);
+    });
+
+    it('keys notes by query Id, or by name when the export has none', () => {
+        expect(model.queries.map(q => DataModelModel.noteKey(q))).toEqual(['Q1', 'Summary']);
+    });
+});
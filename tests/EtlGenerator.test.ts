@@ -3,12 +3,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { EtlGenerator } from '../src/lib/generators/EtlGenerator';
 import { db } from '../src/lib/db';
 import { EtlParser } from '../src/lib/parsers/EtlParser';
+import { SqlAnalyser } from '../src/lib/parsers/sql/SqlAnalyser';
 
 // Mock DB
 vi.mock('../src/lib/db', () => ({
     db: {
         reports: {
-            get: vi.fn()
+            get: vi.fn(),
+            toArray: vi.fn().mockResolvedValue([])
         }
     }
 }));
@@ -57,6 +59,8 @@ describe('EtlGenerator', () => {
         expect(html).toContain('extracts data from <span class="t1-table-badge" data-type="table">𝄜 SRC</span>');
         expect(html).toContain('publishes results to <strong>the DEST</strong>');
         expect(html).toContain('Executive Summary');
+        expect(html).toContain('id="complexity-score"');
+        expect(html).toContain('Warehouse writes');
     });
 
     it('renders recursive groups correctly', async () => {
@@ -147,4 +151,207 @@ describe('EtlGenerator', () => {
         expect(html).toContain('100');
         expect(html).toContain('Variables & Parameters');
     });
+
+    it('lists step types without a dedicated handler in the technical view', async () => {
+        const mockReport = {
+            id: 1,
+            metadata: { name: "Test", version: "1.0" },
+            rawSteps: { ArrayOfStep: { Step: [{ StepId: 1, StepType: 'Pivot', Name: 'Pivot Sales' }, { StepId: 2, StepType: 'AddColumn', Name: 'Calc' }] } },
+            dateAdded: new Date()
+        };
+        vi.mocked(db.reports.get).mockResolvedValue(mockReport as any);
+        vi.mocked(EtlParser.parseSteps).mockReturnValue({
+            executionTree: [], executionFlow: [], variables: [], variableSet: new Set(), tableSet: new Set()
+        } as any);
+
+        const technical = await EtlGenerator.generateHtmlView(1, 'technical');
+        expect(technical).toContain('Generic Rendering');
+        expect(technical).toContain('Pivot Sales');
+        expect(technical).not.toContain('AddColumn');
+
+        const business = await EtlGenerator.generateHtmlView(1, 'business');
+        expect(business).not.toContain('Generic Rendering');
+    });
+
+    it('shows where variables are set and read in a Variable Flow section', async () => {
+        const mockReport = {
+            id: 1,
+            metadata: { name: "Test", version: "1.0" },
+            rawSteps: { ArrayOfStep: { Step: [
+                { StepId: 1, Sequence: 1, StepType: 'AddColumn', Name: 'Calc', Definition: { StorageObject: { Columns: { ColumnItemDef: { ColumnName: 'X', Expression: 'RATE * 2' } } } } },
+                { StepId: 2, Sequence: 2, StepType: 'SetVariable', Name: 'Set rate', Definition: { StorageObject: { VariableName: 'RATE', VariableValue: '2' } } }
+            ] } },
+            dateAdded: new Date()
+        };
+        vi.mocked(db.reports.get).mockResolvedValue(mockReport as any);
+        vi.mocked(EtlParser.parseSteps).mockReturnValue({
+            executionTree: [], executionFlow: [], variables: [], variableSet: new Set(), tableSet: new Set()
+        } as any);
+
+        const html = await EtlGenerator.generateHtmlView(1, 'business');
+        expect(html).toContain('Variable Flow');
+        expect(html).toContain('id="flow-RATE"');
+        expect(html).toContain('#2 Set rate');
+        expect(html).toContain('Used before set');
+        expect(html).toContain('1 to review');
+    });
+
+    it('lists the columns a step writes and renders a lineage panel for each', async () => {
+        const mockReport = {
+            id: 1,
+            metadata: { name: "Test", version: "1.0" },
+            rawSteps: { ArrayOfStep: { Step: [
+                { StepId: 1, Sequence: 1, StepType: 'RunDirectQuery', Name: 'Read', OutputTableName: 'GL', Definition: { StorageObject: { TableName: 'Ledger', Columns: { ColumnItem: { ColumnName: 'AMT', ColumnSource: 'AMOUNT' } } } } },
+                { StepId: 2, Sequence: 2, StepType: 'AddColumn', Name: 'Calc', Definition: { StorageObject: { InputTableName: 'GL', Columns: { ColumnItemDef: { ColumnName: 'DOUBLE', Expression: '[AMT] * 2' } } } } }
+            ] } },
+            dateAdded: new Date()
+        };
+        vi.mocked(db.reports.get).mockResolvedValue(mockReport as any);
+        vi.mocked(EtlParser.parseSteps).mockReturnValue({
+            executionTree: [{ id: 'AddColumn_Calc', Step: 'Calc', RawType: 'AddColumn', Phase: '', Context: '', Details: [] }],
+            executionFlow: [], variables: [], variableSet: new Set(), tableSet: new Set()
+        } as any);
+
+        const html = await EtlGenerator.generateHtmlView(1, 'business');
+        expect(html).toContain(`window.showColumnLineage('lineage-MEMORY_GL_DOUBLE')`);
+        expect(html).toContain('Column Lineage');
+        expect(html).toContain('id="lineage-MEMORY_GL_DOUBLE"');
+        expect(html).toContain('id="lineage-SOURCE_LEDGER_AMOUNT"');
+        expect(html).toContain('[AMT] * 2');
+    });
+
+    it('shows the table state after a step in technical mode and flags missing columns', async () => {
+        const mockReport = {
+            id: 1,
+            metadata: { name: "Test", version: "1.0" },
+            rawSteps: { ArrayOfStep: { Step: [
+                { StepId: 1, Sequence: 1, StepType: 'RunDirectQuery', Name: 'Read', OutputTableName: 'GL', Definition: { StorageObject: { TableName: 'Ledger', Columns: { ColumnItem: { ColumnName: 'AMT', ColumnSource: 'AMOUNT', ColumnDataType: 'DEC' } } } } },
+                { StepId: 2, Sequence: 2, StepType: 'AddColumn', Name: 'Calc', Definition: { StorageObject: { InputTableName: 'GL', Columns: { ColumnItemDef: { ColumnName: 'X', Expression: '[AMT] + [MISSING]' } } } } }
+            ] } },
+            dateAdded: new Date()
+        };
+        vi.mocked(db.reports.get).mockResolvedValue(mockReport as any);
+        vi.mocked(EtlParser.parseSteps).mockReturnValue({
+            executionTree: [{ id: 'AddColumn_Calc', Step: 'Calc', RawType: 'AddColumn', Phase: '', Context: '', Details: [] }],
+            executionFlow: [], variables: [], variableSet: new Set(), tableSet: new Set()
+        } as any);
+
+        const technical = await EtlGenerator.generateHtmlView(1, 'technical');
+        expect(technical).toContain('Table state after step #2');
+        expect(technical).toContain('1 missing column');
+        expect(technical).toContain('&quot;MISSING&quot; is not a column of GL at this point');
+
+        const business = await EtlGenerator.generateHtmlView(1, 'business');
+        expect(business).not.toContain('Table state after step');
+        expect(business).toContain('1 missing column');
+    });
+
+    it('renders a Dry Run section with a sample picker per source step', async () => {
+        const mockReport = {
+            id: 1,
+            metadata: { name: "Test", version: "1.0" },
+            rawSteps: { ArrayOfStep: { Step: [
+                { StepId: 1, Sequence: 1, StepType: 'RunDirectQuery', Name: 'Read', OutputTableName: 'GL', Definition: { StorageObject: { TableName: 'Ledger', Columns: { ColumnItem: { ColumnName: 'AMT' } } } } },
+                { StepId: 2, Sequence: 2, StepType: 'SendEmail', Name: 'Notify', Definition: { StorageObject: { SendTo: 'a@b.com' } } }
+            ] } },
+            dateAdded: new Date()
+        };
+        vi.mocked(db.reports.get).mockResolvedValue(mockReport as any);
+        vi.mocked(EtlParser.parseSteps).mockReturnValue({
+            executionTree: [], executionFlow: [], variables: [], variableSet: new Set(), tableSet: new Set()
+        } as any);
+
+        const html = await EtlGenerator.generateHtmlView(1, 'business', {
+            RunDirectQuery_Read: { fileName: 'gl.csv', columns: ['AMT'], rows: [{ AMT: '1' }, { AMT: '2' }] }
+        });
+        expect(html).toContain('id="dry-run"');
+        expect(html).toContain("window.loadDryRunSample('RunDirectQuery_Read', this)");
+        expect(html).toContain('2 rows from gl.csv');
+        expect(html).toContain('window.runDryRun()');
+    });
+
+    it('shows the conditions a step runs under and an Execution Paths section', async () => {
+        const mockReport = {
+            id: 1,
+            metadata: { name: "Test", version: "1.0" },
+            rawSteps: { ArrayOfStep: { Step: [
+                { StepId: 1, Sequence: 1, StepType: 'Decision', Name: 'Any rows?', Definition: { StorageObject: { InputTableName: 'GL' } } },
+                { StepId: 2, ParentStepId: 1, Sequence: 1, StepType: 'Branch', Name: 'Has rows', Definition: { StorageObject: { Expression: 'Count()>0' } } },
+                { StepId: 3, ParentStepId: 2, Sequence: 1, StepType: 'SendEmail', Name: 'Notify', Definition: { StorageObject: {} } },
+                { StepId: 4, ParentStepId: 1, Sequence: 2, StepType: 'Branch', Name: 'Also rows', Definition: { StorageObject: { Expression: 'Count()>0' } } }
+            ] } },
+            dateAdded: new Date()
+        };
+        vi.mocked(db.reports.get).mockResolvedValue(mockReport as any);
+        vi.mocked(EtlParser.parseSteps).mockReturnValue({
+            executionTree: [{ id: 'Decision_Any_rows_', Step: 'Any rows?', RawType: 'Decision', Phase: 'Decision', Context: '', Details: [], children: [
+                { id: 'Branch_Has_rows', Step: 'Has rows', RawType: 'Branch', Phase: 'Branch', Context: '', Details: [], children: [
+                    { id: 'SendEmail_Notify', Step: 'Notify', RawType: 'SendEmail', Phase: '', Context: '', Details: [], children: [] }
+                ] },
+                { id: 'Branch_Also_rows', Step: 'Also rows', RawType: 'Branch', Phase: 'Branch', Context: '', Details: [], children: [] }
+            ] }],
+            executionFlow: [], variables: [], variableSet: new Set(), tableSet: new Set()
+        } as any);
+
+        const html = await EtlGenerator.generateHtmlView(1, 'business');
+        expect(html).toContain('Runs when');
+        expect(html).toContain('Any rows? → Has rows:</span> <span class="font-mono">Count()&gt;0</span>');
+        expect(html).toContain('id="execution-paths"');
+        expect(html).toContain('⚠ Unreachable');
+    });
+
+    it('formats SQL steps and flags destructive statements in both views', async () => {
+        const mockReport = { id: 1, metadata: { name: "Test", version: "1.0" }, rawSteps: {}, dateAdded: new Date() };
+        vi.mocked(db.reports.get).mockResolvedValue(mockReport as any);
+        vi.mocked(EtlParser.parseSteps).mockReturnValue({
+            executionTree: [{
+                id: 'ExecuteSQL_Clear', Step: 'Clear', RawType: 'ExecuteSQL', Phase: '', Context: 'DELETE FROM Staging',
+                Details: ['SQL: delete from Staging'], Sql: SqlAnalyser.analyse('delete from Staging')
+            }],
+            executionFlow: [], variables: [], variableSet: new Set(), tableSet: new Set()
+        } as any);
+
+        for (const mode of ['business', 'technical'] as const) {
+            const html = await EtlGenerator.generateHtmlView(1, mode);
+            expect(html).toContain('title="DELETE without WHERE removes every row of Staging">⚠ DELETE</span>');
+            expect(html).toContain('<span class="text-indigo-700 font-bold">DELETE</span> <span class="text-indigo-700 font-bold">FROM</span> Staging');
+            expect(html).not.toContain('• SQL: delete from Staging');
+        }
+    });
+
+    it('links process calls to the called ETL and lists callers from the library', async () => {
+        const parent = {
+            id: 1,
+            filename: 'parent.t1etlp',
+            metadata: { id: 'P1', name: "Parent", version: "1.0" },
+            rawProcess: { ArrayOfProcess: { Process: { ProcessId: 'P1', Name: 'Parent' } } },
+            rawSteps: { ArrayOfStep: { Step: [
+                { StepId: 1, Sequence: 1, StepType: 'StartProcess', Name: 'Run child', Definition: { StorageObject: { ProcessName: 'Child' } } },
+                { StepId: 2, Sequence: 2, StepType: 'RunProcess', Name: 'Run other', Definition: { StorageObject: { ProcessName: 'Elsewhere' } } }
+            ] } },
+            dateAdded: new Date()
+        };
+        const child = {
+            id: 2,
+            filename: 'child.t1etlp',
+            metadata: { id: 'C1', name: "Child", version: "1.0" },
+            rawProcess: { ArrayOfProcess: { Process: { ProcessId: 'C1', Name: 'Child' } } },
+            rawSteps: { ArrayOfStep: { Step: [] } },
+            dateAdded: new Date()
+        };
+        vi.mocked(db.reports.get).mockImplementation((async (id: number) => id === 1 ? parent : child) as any);
+        vi.mocked(db.reports.toArray).mockResolvedValue([parent, child] as any);
+        vi.mocked(EtlParser.parseSteps).mockReturnValue({
+            executionTree: [{ id: 'StartProcess_Run_child', Step: 'Run child', RawType: 'StartProcess', Phase: '', Context: '', Details: [] }],
+            executionFlow: [], variables: [], variableSet: new Set(), tableSet: new Set()
+        } as any);
+
+        const html = await EtlGenerator.generateHtmlView(1, 'business');
+        expect(html).toContain(`Calls <button onclick="window.navigateTo('detail', 2, 'report')"`);
+        expect(html).toContain('id="process-calls"');
+        expect(html).toContain('Not in library');
+
+        const childHtml = await EtlGenerator.generateHtmlView(2, 'business');
+        expect(childHtml).toContain(`window.navigateTo('detail', 1, 'report', 'step-StartProcess_Run_child')`);
+    });
 });
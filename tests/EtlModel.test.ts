@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { EtlModel, type EtlProcess } from '../src/lib/model/EtlModel';
+import { EtlParser } from '../src/lib/parsers/EtlParser';
+import { step } from './fixtures/etl';
+
+const criteria = (column: string, operator: string, value1: string) => ({
+    CriteriaSetItem: { CriteriaValues: { CriteriaValue: { ColumnId: column, Operator: { Value: operator }, Value1: value1 } } }
+});
+
+const rawSteps = {
+    ArrayOfStep: {
+        Step: [
+            step(4, 'SendEmail', 'Notify finance', {
+                SendTo: 'ap@example.com; gl@example.com',
+                CarbonCopyTo: 'cfo@example.com',
+                SubjectLine: 'Load complete',
+                EmailMessage: { p: ['Rows loaded.', { b: 'Check the log.' }] }
+            }),
+            step(1, 'RunDirectQuery', 'Read ledger', {
+                TableName: 'GL_LEDGER',
+                Suite: 'LEDGER',
+                Columns: { ColumnItem: [{ ColumnName: 'ACCOUNT', ColumnSource: 'ACCOUNT' }, { ColumnName: 'AMOUNT', ColumnSource: 'AMOUNT' }] },
+                Criteria: criteria('PERIOD', 'Equals', '{&PERIOD}'),
+                DistinctOnly: true
+            }, { OutputTableName: 'LEDGER' }),
+            step(2, 'Loop', 'Each entity', { InputVariable: 'ENTITY', MaxIterations: 50 }),
+            step(5, 'AddColumn', 'Flag large', {
+                InputTableName: 'LEDGER',
+                Columns: { ColumnItemDef: { ColumnName: 'IS_LARGE', Expression: 'IIF([AMOUNT] > 1000, "Y", "N")', ColumnType: 'A' } }
+            }, { ParentStepId: 2, Sequence: 2 }),
+            step(6, 'SetVariable', 'Remember entity', { VariableName: 'LAST_ENTITY', VariableValue: '{&ENTITY}', UseMemoryTable: false }, { ParentStepId: 2, Sequence: 1 }),
+            step(3, 'ImportWarehouseData', 'Load warehouse', {
+                InputTableName: 'LEDGER',
+                WarehouseName: 'FINANCE',
+                TableName: 'GL_FACT',
+                ImportOption: { '#text': 'IU', '@_Description': 'Insert and Update' },
+                ColumnMapping: { TableColumnMapping: [{ ColumnName: 'ACCOUNT', MappedValue: '[ACCOUNT]' }, { ColumnName: 'AMT', MappedValue: '[AMOUNT]' }] }
+            }),
+            step(7, 'MadeUpStep', 'Something new', { Setting: 'x' })
+        ]
+    }
+};
+
+describe('EtlModel', () => {
+    const process = EtlModel.normalise({
+        rawProcess: { ArrayOfProcess: { Process: { ProcessId: 'P1', Name: 'Ledger Load', Version: 3 } } },
+        rawSteps,
+        rawVariables: {
+            ArrayOfC2GenericVariable: {
+                C2GenericVariable: [
+                    { Name: 'PERIOD', VariableType: 'N', DefaultValue: 1, IsMandatory: true, IsDisplayable: true, IsEditable: false, Sequence: 2 },
+                    { Name: 'ENTITY', VariableType: 'A', DefaultValue: { '@_IsAssigned': 'false' } }
+                ]
+            }
+        },
+        rawFileLocations: { ArrayOfFileLocation: { FileLocation: { Name: 'EXPORTS', Definition: { ServerFolder: '\\\\fs01\\t1\\', SubPath: 'exports' } } } },
+        rawAttachments: { ArrayOfAttachment: { Attachment: { FileName: 'mapping.csv', FileData: 'QUJDRA==' } } }
+    });
+
+    it('reads the process header', () => {
+        expect(process).toMatchObject({ id: 'P1', name: 'Ledger Load', version: '3' });
+    });
+
+    it('orders steps in execution order with children after their parent', () => {
+        expect(process.steps.map(s => [s.name, s.depth])).toEqual([
+            ['Read ledger', 0],
+            ['Each entity', 0],
+            ['Remember entity', 1],
+            ['Flag large', 1],
+            ['Load warehouse', 0],
+            ['Notify finance', 0],
+            ['Something new', 0]
+        ]);
+        const loop = process.steps.find(s => s.type === 'Loop')!;
+        expect(EtlModel.children(process, loop).map(s => s.name)).toEqual(['Remember entity', 'Flag large']);
+    });
+
+    it('gives steps the ids EtlParser gives their cards', () => {
+        const { executionFlow } = EtlParser.parseSteps(structuredClone(rawSteps), 'technical');
+        expect(process.steps.map(s => s.key).sort()).toEqual(executionFlow.map((i: any) => i.id).sort());
+    });
+
+    it('builds a typed variant for each known step type', () => {
+        const [query] = EtlModel.steps(process, 'RunDirectQuery');
+        expect(query).toMatchObject({ sourceTable: 'GL_LEDGER', suite: 'LEDGER', outputTable: 'LEDGER', distinct: true });
+        expect(query!.columns.map(c => c.name)).toEqual(['ACCOUNT', 'AMOUNT']);
+        expect(query!.criteria).toEqual([{ column: 'PERIOD', operator: 'Equals', value1: '{&PERIOD}', value2: '', link: 'AND' }]);
+
+        const [add] = EtlModel.steps(process, 'AddColumn', 'UpdateColumn');
+        expect(add!.columns[0]).toMatchObject({ name: 'IS_LARGE', expression: 'IIF([AMOUNT] > 1000, "Y", "N")' });
+
+        const [set] = EtlModel.steps(process, 'SetVariable');
+        expect(set).toMatchObject({ variable: 'LAST_ENTITY', expression: '{&ENTITY}', inputTable: '' });
+
+        const [load] = EtlModel.steps(process, 'ImportWarehouseData');
+        expect(load).toMatchObject({ warehouse: 'FINANCE', table: 'GL_FACT', importOption: 'IU' });
+        expect(load!.mappings).toContainEqual({ column: 'AMT', value: '[AMOUNT]' });
+
+        const [loop] = EtlModel.steps(process, 'Loop');
+        expect(loop).toMatchObject({ variable: 'ENTITY', maxIterations: 50 });
+
+        const [email] = EtlModel.steps(process, 'SendEmail');
+        expect(email).toMatchObject({ to: ['ap@example.com', 'gl@example.com'], cc: ['cfo@example.com'], subject: 'Load complete' });
+        expect(email!.message).toBe('Rows loaded. Check the log.');
+    });
+
+    it('keeps unknown step types as Other with their raw settings', () => {
+        const other = process.steps.find(s => s.name === 'Something new')!;
+        expect(other).toMatchObject({ type: 'Other', rawType: 'MadeUpStep', storage: { Setting: 'x' } });
+    });
+
+    it('reads variables, file locations and attachments', () => {
+        expect(process.variables[0]).toMatchObject({
+            name: 'PERIOD', type: 'N', defaultValue: '1', mandatory: true, displayable: true, editable: false, sequence: 2
+        });
+        expect(process.variables[1]).toMatchObject({ name: 'ENTITY', defaultValue: '', mandatory: false, editable: true, sequence: 999 });
+        expect(process.fileLocations).toEqual([{ name: 'EXPORTS', locationType: 'ServerFolder', path: '\\\\fs01\\t1\\exports', description: '' }]);
+        expect(process.attachments).toEqual([{ fileName: 'mapping.csv', description: '', contentType: '', size: 6 }]);
+    });
+
+    it('uses the stored model when the record has one', () => {
+        const stored = { steps: [] } as unknown as EtlProcess;
+        expect(EtlModel.of({ model: stored, rawSteps })).toBe(stored);
+        expect(EtlModel.of({ rawSteps }).steps).toHaveLength(7);
+    });
+});
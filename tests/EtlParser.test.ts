@@ -51,6 +51,19 @@ describe('EtlParser', () => {
             expect(result?.[2].outcome).toBe('R3');
             expect(result?.[3].outcome).toBe('R4');
         });
+
+        it('keeps quoted commas and parentheses inside their argument', () => {
+            const result = EtlParser.flattenLogic("IIF([Name] = 'Smith, J (Acting)', 'Match, exact', 'No')");
+            expect(result).toEqual([
+                { outcome: "'Match, exact'", condition: "[Name] = 'Smith, J (Acting)'" },
+                { outcome: "'No'", condition: 'Default - When nothing fits the above cases' }
+            ]);
+        });
+
+        it('flattens the T1 Case() function', () => {
+            const result = EtlParser.flattenLogic("Case([PERIOD], 0, 'P0', 1, 'P1', 'Other')");
+            expect(result?.map(r => r.condition)).toEqual(['[PERIOD] = 0', '[PERIOD] = 1', 'Default - When nothing fits the above cases']);
+        });
     });
 
     describe('parseSteps', () => {
@@ -155,6 +168,54 @@ describe('EtlParser', () => {
             expect(variable?.Value).toBe('123');
         });
 
+        it('should leave set-up and disabled steps out of the business view but keep containers', () => {
+            const mockSteps = {
+                ArrayOfStep: {
+                    Step: [
+                        { StepId: 1, ParentStepId: 0, Name: "Make temp", StepType: "CreateTable", Sequence: "1" },
+                        { StepId: 2, ParentStepId: 0, Name: "Each entity", StepType: "Loop", Sequence: "2", IsActive: false },
+                        { StepId: 3, ParentStepId: 0, Name: "Old calc", StepType: "AddColumn", Sequence: "3", IsActive: false },
+                        { StepId: 4, ParentStepId: 0, Name: "Check", StepType: "Decision", Sequence: "4", IsActive: false }
+                    ]
+                }
+            };
+            const business = EtlParser.parseSteps(structuredClone(mockSteps), 'business');
+            expect(business.executionTree.map((i: any) => i.Step)).toEqual(['Each entity', 'Check']);
+            expect(business.executionTree[0].Phase).toBe('Loop [DISABLED]');
+            expect(business.executionTree[1].IsActive).toBe(true);
+            expect(EtlParser.parseSteps(structuredClone(mockSteps), 'technical').executionTree).toHaveLength(4);
+        });
+
+        it('should match variable usage on whole names only', () => {
+            const mockSteps = {
+                ArrayOfStep: {
+                    Step: [
+                        { StepId: 1, ParentStepId: 0, Name: "Set Period", StepType: "SetVariable", Sequence: "1", Definition: { StorageObject: { VariableName: "PERIOD", VariableValue: "1" } } },
+                        { StepId: 2, ParentStepId: 0, Name: "Set End", StepType: "SetVariable", Sequence: "2", Definition: { StorageObject: { VariableName: "PERIOD_END", VariableValue: "12" } } },
+                        { StepId: 3, ParentStepId: 0, Name: "Use End", StepType: "AddColumn", Sequence: "3", Definition: { StorageObject: { ColumnName: "X", Expression: "{&PERIOD_END} + 1" } } },
+                        { StepId: 4, ParentStepId: 0, Name: "Use Both", StepType: "SendEmail", Sequence: "4", Definition: { StorageObject: { Subject: "Period {&PERIOD.DESCR} closed" } } }
+                    ]
+                }
+            };
+            const tree = EtlParser.parseSteps(mockSteps, 'technical').executionTree;
+            expect(tree[0].SmartDesc).toBe('Used in: Set Period, Use Both');
+            expect(tree[1].SmartDesc).toBe('Used in: Set End, Use End');
+        });
+
+        it('should attach the handler technical facts and DOCX rows to each step', () => {
+            const mockSteps = {
+                ArrayOfStep: {
+                    Step: [{
+                        StepId: 1, ParentStepId: 0, Name: "Load", StepType: "ImportWarehouseData",
+                        Definition: { StorageObject: { WarehouseName: "FIN", TableName: "GL", ExtendedWhere: "[A] > 0" } }
+                    }]
+                }
+            };
+            const [step] = EtlParser.parseSteps(mockSteps, 'technical').executionTree;
+            expect(step.Technical).toEqual([{ label: 'Warehouse', value: 'FIN' }, { label: 'Table', value: 'GL' }]);
+            expect(step.DocxRows).toEqual([{ label: 'Target', value: 'FIN.GL' }, { label: 'Extended Criteria', value: '[A] > 0' }]);
+        });
+
         it('should handle orphans by promoting them to root', () => {
             const mockSteps = {
                 ArrayOfStep: {
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { EtlSimulator } from '../src/lib/simulation/EtlSimulator';
+import { CsvReader } from '../src/lib/simulation/CsvReader';
+import { step, processOf } from './fixtures/etl';
+
+const ledger = CsvReader.parse('ACCOUNT,AMOUNT,ENTITY\n4000,100,UK\n4100,-20,UK\n5000,35.5,US\n', 'ledger.csv');
+
+const read = step(1, 'RunDirectQuery', 'Read', {
+    TableName: 'GLBalances',
+    Columns: { ColumnItem: [{ ColumnName: 'ACCOUNT', ColumnSource: 'ACCOUNT' }, { ColumnName: 'AMT', ColumnSource: 'AMOUNT' }, { ColumnName: 'ENTITY', ColumnSource: 'ENTITY' }] },
+    Criteria: { CriteriaValues: { CriteriaValue: { ColumnId: 'ENTITY', Operator: 'Equals', Value1: '{&ENTITY}' } } }
+}, { OutputTableName: 'GL' });
+
+describe('CsvReader', () => {
+    it('reads quoted fields, semicolon delimiters and a BOM', () => {
+        const table = CsvReader.parse('﻿CODE;DESCR\n1;"Cash; bank"\n2;"Say ""hi"""\n\n', 'a.csv');
+        expect(table.columns).toEqual(['CODE', 'DESCR']);
+        expect(table.rows).toEqual([{ CODE: '1', DESCR: 'Cash; bank' }, { CODE: '2', DESCR: 'Say "hi"' }]);
+    });
+});
+
+describe('EtlSimulator', () => {
+    it('runs memory table steps over a sample and logs row counts and previews', () => {
+        const process = processOf([
+            read,
+            step(2, 'AddColumn', 'Double', { InputTableName: 'GL', Columns: { ColumnItemDef: { ColumnName: 'DOUBLE', Expression: '[AMT] * 2' } } }),
+            step(3, 'FilterTable', 'Positive', { InputTableName: 'GL', Criteria: { CriteriaValues: { CriteriaValue: { ColumnId: 'AMT', Operator: 'GreaterThan', Value1: '0' } } } }),
+            step(4, 'SortTable', 'Sort', { InputTableName: 'GL', SortColumns: { SortColumnItem: { ColumnName: 'AMT', SortDirection: 'Descending' } } }),
+            step(5, 'SetVariable', 'Total', { VariableName: 'TOTAL', Expression: 'SUM([DOUBLE])', InputTableName: 'GL' })
+        ], [{ Name: 'ENTITY', DefaultValue: 'UK' }, { Name: 'TOTAL' }]);
+
+        const result = EtlSimulator.run(process, { samples: { RunDirectQuery_Read: ledger } });
+        expect(result.log.map(e => [e.stepName, e.status, e.table?.rowCount])).toEqual([
+            ['Read', 'ran', 2], ['Double', 'ran', 2], ['Positive', 'ran', 1], ['Sort', 'ran', 1], ['Total', 'ran', undefined]
+        ]);
+        expect(result.log[1]!.table!.preview[1]).toEqual({ ACCOUNT: '4100', AMT: '-20', ENTITY: 'UK', DOUBLE: -40 });
+        expect(result.variables.find(v => v.name === 'TOTAL')!.value).toBe(200);
+    });
+
+    it('joins and appends tables', () => {
+        const accounts = CsvReader.parse('CODE,DESCR\n4000,Sales\n', 'accounts.csv');
+        const process = processOf([
+            read,
+            step(2, 'RunDirectQuery', 'Accounts', { TableName: 'Accounts', Columns: { ColumnItem: [{ ColumnName: 'CODE' }, { ColumnName: 'DESCR' }] } }, { OutputTableName: 'ACC' }),
+            step(3, 'JoinTable', 'Join', {
+                InputTables: { InputTableDef: [{ InputTableName: 'GL' }, { InputTableName: 'ACC' }] },
+                Joins: { JoinItemDef: { JoinTable1: 'GL', JoinColumn1: 'ACCOUNT', JoinType: 'LEFTOUTER', JoinTable2: 'ACC', JoinColumn2: 'CODE' } }
+            }, { OutputTableName: 'JOINED' }),
+            step(4, 'AppendTable', 'Append', { InputTableName: 'JOINED', AppendToTableName: 'ALL_ROWS' })
+        ], [{ Name: 'ENTITY', DefaultValue: 'UK' }]);
+
+        const result = EtlSimulator.run(process, { samples: { RunDirectQuery_Read: ledger, RunDirectQuery_Accounts: accounts } });
+        const joined = result.tables.find(t => t.name === 'JOINED')!;
+        expect(joined.rows.map(r => [r.ACCOUNT, r.DESCR])).toEqual([['4000', 'Sales'], ['4100', null]]);
+        expect(result.tables.find(t => t.name === 'ALL_ROWS')!.rows).toHaveLength(2);
+    });
+
+    it('repeats loop children and takes the first matching decision branch', () => {
+        const process = processOf([
+            step(1, 'Loop', 'Loop', { LoopCondition: '{&I} < 3' }),
+            step(2, 'SetVariable', 'Next', { VariableName: 'I', Expression: '{&I} + 1', UseMemoryTable: 'false' }, { ParentStepId: 1 }),
+            read,
+            step(4, 'Decision', 'Any rows?', { InputTableName: 'GL' }),
+            step(5, 'Branch', 'Has rows', { Expression: 'Count()>0' }, { ParentStepId: 4 }),
+            step(6, 'ImportWarehouseData', 'Import', { InputTableName: 'GL', WarehouseName: 'Finance', TableName: 'GL' }, { ParentStepId: 5 }),
+            step(7, 'Branch', 'Empty', { Expression: 'Count()=0' }, { ParentStepId: 4 }),
+            step(8, 'SendEmail', 'Warn', { SendTo: 'fin@example.com', SubjectLine: 'No rows for {&ENTITY}' }, { ParentStepId: 7 })
+        ], [{ Name: 'I', DefaultValue: '0' }, { Name: 'ENTITY', DefaultValue: 'UK' }]);
+
+        const withSample = EtlSimulator.run(process, { samples: { RunDirectQuery_Read: ledger } });
+        expect(withSample.log.filter(e => e.stepName === 'Next')).toHaveLength(3);
+        expect(withSample.variables.find(v => v.name === 'I')!.value).toBe(3);
+        expect(withSample.log.find(e => e.stepName === 'Any rows?')!.message).toBe('Took "Has rows"');
+        expect(withSample.log.find(e => e.stepName === 'Import')).toMatchObject({ status: 'stubbed', message: 'Would import 2 rows from GL into Finance.GL' });
+
+        const without = EtlSimulator.run(process, { variables: { ENTITY: 'US' } });
+        expect(without.log.find(e => e.stepName === 'Read')!.status).toBe('no-sample');
+        expect(without.log.find(e => e.stepName === 'Warn')).toMatchObject({ status: 'stubbed', message: 'Would email fin@example.com: No rows for US' });
+    });
+
+    it('logs an error for a step and carries on', () => {
+        const process = processOf([
+            step(1, 'AddColumn', 'Broken', { InputTableName: 'MISSING', Columns: { ColumnItemDef: { ColumnName: 'X', Expression: '1' } } }),
+            step(2, 'ExecuteSQL', 'SQL', {})
+        ]);
+
+        const result = EtlSimulator.run(process);
+        expect(result.log.map(e => [e.status, e.message])).toEqual([
+            ['error', 'Table MISSING does not exist at this point'],
+            ['stubbed', 'Would run SQL']
+        ]);
+    });
+});
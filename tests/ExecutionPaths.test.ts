@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { ExecutionPaths } from '../src/lib/analysis/ExecutionPaths';
+import { step, processOf } from './fixtures/etl';
+
+const analyse = (steps: any[]) => ExecutionPaths.analyse(processOf(steps));
+
+const branch = (id: number, parent: number, name: string, expression: string) =>
+    step(id, 'Branch', name, { Expression: expression }, { ParentStepId: parent });
+
+describe('ExecutionPaths', () => {
+    it('lists each path through nested decisions with its guards', () => {
+        const analysis = analyse([
+            step(1, 'RunDirectQuery', 'Read', {}, { OutputTableName: 'GL' }),
+            step(2, 'Decision', 'Any rows?', { InputTableName: 'GL' }),
+            branch(3, 2, 'Has rows', 'Count()>0'),
+            step(4, 'Decision', 'Which entity?', {}, { ParentStepId: 3 }),
+            branch(5, 4, 'UK', "{&ENTITY} = 'UK'"),
+            step(6, 'ImportWarehouseData', 'Import UK', {}, { ParentStepId: 5 }),
+            branch(7, 4, 'Other', ''),
+            step(8, 'ImportWarehouseData', 'Import other', {}, { ParentStepId: 7 }),
+            branch(9, 2, 'Empty', 'Count()=0'),
+            step(10, 'SendEmail', 'Warn', {}, { ParentStepId: 9 })
+        ]);
+
+        expect(analysis.paths.map(p => p.steps.filter(k => !k.startsWith('Branch') && !k.startsWith('Decision')))).toEqual([
+            ['RunDirectQuery_Read', 'ImportWarehouseData_Import_UK'],
+            ['RunDirectQuery_Read', 'ImportWarehouseData_Import_other'],
+            ['RunDirectQuery_Read', 'SendEmail_Warn'],
+            ['RunDirectQuery_Read']
+        ]);
+        expect(analysis.paths[3]!.guards.map(ExecutionPaths.describe)).toEqual(['NOT (Count()>0) AND NOT (Count()=0)']);
+
+        const other = ExecutionPaths.forStep(analysis, 'ImportWarehouseData_Import_other')!;
+        expect(other.guards.map(g => `${g.decisionName} → ${g.branchName}: ${ExecutionPaths.describe(g)}`)).toEqual([
+            'Any rows? → Has rows: Count()>0',
+            "Which entity? → Other: NOT ({&ENTITY} = 'UK')"
+        ]);
+        expect(ExecutionPaths.forStep(analysis, 'RunDirectQuery_Read')!.guards).toEqual([]);
+        expect(analysis.issues).toEqual([]);
+    });
+
+    it('flags branches that can never be true, are shadowed or overlap', () => {
+        const analysis = analyse([
+            step(1, 'Decision', 'Check', {}),
+            branch(2, 1, 'Big', 'Count() > 10'),
+            branch(3, 1, 'Some', 'Count() > 0'),
+            branch(4, 1, 'Huge', 'Count() >= 100'),
+            branch(5, 1, 'Broken', "1 = 2"),
+            branch(6, 1, 'Odd', 'Count() > 5 AND Count() < 3'),
+            branch(7, 1, 'Rest', ''),
+            branch(8, 1, 'After rest', 'Count() = 0'),
+            step(9, 'SendEmail', 'Never sent', {}, { ParentStepId: 5 })
+        ]);
+
+        expect(analysis.issues.map(i => `${i.kind}:${i.branchKey}`)).toEqual([
+            'overlap:Branch_Some',
+            'unreachable:Branch_Huge',
+            'never-true:Branch_Broken',
+            'never-true:Branch_Odd',
+            'unreachable:Branch_After_rest'
+        ]);
+        expect(analysis.issues[0]!.message).toBe('"Some" and "Big" can both be true (Count() > 10 / Count() > 0); only "Big" runs then');
+        expect(ExecutionPaths.forStep(analysis, 'SendEmail_Never_sent')!.reachable).toBe(false);
+        expect(analysis.paths.filter(p => !p.possible).map(p => p.steps.at(-1))).toEqual(['Branch_Huge', 'SendEmail_Never_sent', 'Branch_Odd', 'Branch_After_rest']);
+    });
+
+    it('compares conditions as expressions, keeping text literals exact', () => {
+        const analysis = analyse([
+            step(1, 'Decision', 'Which code?', {}),
+            branch(2, 1, 'Spaced', "[CODE] = 'x y'"),
+            branch(3, 1, 'Joined', "[CODE]='xy'"),
+            branch(4, 1, 'Lower', "[CODE] = 'abc'"),
+            branch(5, 1, 'Upper', "[CODE] = 'ABC'"),
+            branch(6, 1, 'Repeat', "( [code]='abc' )")
+        ]);
+
+        expect(analysis.issues.map(i => `${i.kind}:${i.branchKey}`)).toEqual(['unreachable:Branch_Repeat']);
+        expect(analysis.issues[0]!.message).toBe('"Repeat" can never run: "Lower" before it has the same condition');
+    });
+
+    it('drops the "no branch matched" path when a branch is always true', () => {
+        const analysis = analyse([
+            step(1, 'Decision', 'Route', {}),
+            branch(2, 1, 'UK', "{&ENTITY} = 'UK'"),
+            branch(3, 1, 'Everything else', '1 = 1')
+        ]);
+
+        expect(analysis.paths.map(p => p.steps)).toEqual([
+            ['Decision_Route', 'Branch_UK'],
+            ['Decision_Route', 'Branch_Everything_else']
+        ]);
+        expect(analysis.paths.every(p => p.possible)).toBe(true);
+    });
+
+    it('treats a lone Branch as a guard that may be skipped and caps the number of paths', () => {
+        const lone = analyse([
+            branch(1, 0, 'Only month end', "{&PERIOD} = '12'"),
+            step(2, 'SaveText', 'Write', {}, { ParentStepId: 1 })
+        ]);
+        expect(lone.paths.map(p => p.guards.map(ExecutionPaths.describe))).toEqual([["{&PERIOD} = '12'"], ["NOT ({&PERIOD} = '12')"]]);
+
+        const many = analyse(Array.from({ length: 8 }, (_, i) => [
+            step(i * 3 + 1, 'Decision', `D${i}`, {}),
+            branch(i * 3 + 2, i * 3 + 1, `Yes${i}`, `{&V${i}} = 1`),
+            branch(i * 3 + 3, i * 3 + 1, `No${i}`, '')
+        ]).flat());
+        expect(many.truncated).toBe(true);
+        expect(many.paths).toHaveLength(100);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ExpressionEvaluator, type EvaluationScope } from '../src/lib/parsers/expression/ExpressionEvaluator';
+
+const row: Record<string, string | number | null> = { AMT: '12.5', ACCOUNT: '4000-10', NAME: 'Sales', EMPTY: null };
+const variables: Record<string, string> = { PERIOD: '2025-06', RATE: '2' };
+
+const scope: EvaluationScope = {
+    column: name => row[name.toUpperCase()],
+    variable: name => variables[name.toUpperCase()],
+    aggregate: (name, args) => name === 'COUNT' && args.length === 0 ? 3 : undefined
+};
+
+const evaluate = (text: string) => ExpressionEvaluator.evaluate(text, scope);
+
+describe('ExpressionEvaluator', () => {
+    it('evaluates arithmetic, comparisons and logic over columns and variables', () => {
+        expect(evaluate('[AMT] * {&RATE} + 1')).toBe(26);
+        expect(evaluate("[ACCOUNT] = '4000-10' AND [AMT] > 10")).toBe(true);
+        expect(evaluate("[AMT] < 10 OR [NAME] LIKE 'Sa%'")).toBe(true);
+        expect(evaluate('[AMT] BETWEEN 10 AND 20')).toBe(true);
+        expect(evaluate("[NAME] NOT IN ('Sales', 'Cost')")).toBe(false);
+    });
+
+    it('evaluates IIF, CASE and string, number and null functions', () => {
+        expect(evaluate("IIF([AMT] > 100, 'High', 'Low')")).toBe('Low');
+        expect(evaluate("LEFT([ACCOUNT], 4) + '-' + UPPER([NAME])")).toBe('4000-SALES');
+        expect(evaluate('ROUND([AMT] / 3, 2)')).toBe(4.17);
+        expect(evaluate("ISNULL([EMPTY], 'none')")).toBe('none');
+        expect(evaluate("'Period {&PERIOD}'")).toBe('Period 2025-06');
+        expect(evaluate('COUNT() > 0')).toBe(true);
+    });
+
+    it('reports unknown columns, variables and functions', () => {
+        expect(() => evaluate('[NOPE] + 1')).toThrow('No column [NOPE]');
+        expect(() => evaluate('{&MISSING}')).toThrow('Variable MISSING is not set');
+        expect(() => evaluate('WEIRD([AMT])')).toThrow('Unsupported function WEIRD()');
+        expect(() => evaluate("[NAME] * 2")).toThrow('"Sales" is not a number');
+    });
+
+    describe('dates', () => {
+        const zone = process.env.TZ;
+        const inZone = (tz: string) => { process.env.TZ = tz; };
+
+        afterEach(() => {
+            vi.useRealTimers();
+            if (zone === undefined) delete process.env.TZ;
+            else process.env.TZ = zone;
+        });
+
+        it('reads the calendar day of a date the same in every time zone', () => {
+            ['America/New_York', 'Australia/Brisbane', 'UTC'].forEach(tz => {
+                inZone(tz);
+                expect([evaluate("Day('2024-03-01')"), evaluate("Month('2024-03-01')"), evaluate("Year('2024-03-01')")]).toEqual([1, 3, 2024]);
+                expect(ExpressionEvaluator.toText(evaluate('#2024-03-01#'))).toBe('2024-03-01');
+                expect(ExpressionEvaluator.toText(evaluate("AddMonths('2024-01-31', 1)"))).toBe('2024-03-02');
+                expect(evaluate("Day('2024-03-01 23:30')")).toBe(1);
+            });
+        });
+
+        it('gives today as the local calendar day', () => {
+            vi.useFakeTimers();
+            // 06:00 on 2 March in Brisbane, still 1 March in UTC and New York
+            vi.setSystemTime(new Date('2024-03-01T20:00:00Z'));
+
+            inZone('Australia/Brisbane');
+            expect(ExpressionEvaluator.toText(evaluate('Today()'))).toBe('2024-03-02');
+            expect(evaluate('Day(Today())')).toBe(2);
+            expect(evaluate("Today() > '2024-03-01'")).toBe(true);
+
+            inZone('America/New_York');
+            expect(ExpressionEvaluator.toText(evaluate('Today()'))).toBe('2024-03-01');
+            expect(evaluate('Day(Now())')).toBe(1);
+        });
+    });
+});
@@ -21,6 +21,12 @@ describe('ExpressionFormatter', () => {
             expect(output).toContain('<span class="var-badge">GlobalVar</span>');
         });
 
+        it('should keep suffixes such as .DESCR inside the {&Var} badge', () => {
+            const output = ExpressionFormatter.colouriseTextHTML('Report for {&REPORTING_MONTH.DESCR}', new Set());
+
+            expect(output).toBe('Report for <span class="var-badge">REPORTING_MONTH.DESCR</span>');
+        });
+
         it('should wrap known table names in table-badges', () => {
             const tableSet = new Set(['MyTable', 'Ref_Data']);
             const input = 'SELECT * FROM MyTable JOIN Ref_Data';
@@ -36,6 +42,18 @@ describe('ExpressionFormatter', () => {
             const output = ExpressionFormatter.colouriseTextHTML(input, varSet);
             expect(output).toContain('<span class="var-badge">Var(1)</span>');
         });
+
+        it('should read the text as tokens: quoted text stays literal except for {&Var} references', () => {
+            const output = ExpressionFormatter.colouriseTextHTML("IIF([MyTable] = 'MyTable {&YEAR}', MyTableX, MyTable)", new Set(), new Set(['MyTable']));
+
+            expect(output).toBe(`IIF(${ExpressionFormatter.formatTable('MyTable')} = 'MyTable <span class="var-badge">YEAR</span>', MyTableX, ${ExpressionFormatter.formatTable('MyTable')})`);
+        });
+
+        it('should badge a name once, as a variable before a table, preferring the longest name', () => {
+            const output = ExpressionFormatter.colouriseTextHTML('Load GL then GL_Detail', new Set(['GL']), new Set(['GL', 'GL_Detail']));
+
+            expect(output).toBe(`Load <span class="var-badge">GL</span> then ${ExpressionFormatter.formatTable('GL_Detail')}`);
+        });
     });
 
     describe('parseCaseStatement', () => {
@@ -67,6 +85,15 @@ describe('ExpressionFormatter', () => {
             expect(result?.[0].condition).toBe('Func(A,B)=1');
         });
 
+        it('should not split on commas inside string literals', () => {
+            const result = ExpressionFormatter.parseIifStatement("IIF(X = 'a,b', 'c,d', IIF(Y, 'e', 'f'))");
+            expect(result).toEqual([
+                { condition: "X = 'a,b'", outcome: "'c,d'" },
+                { condition: 'Y', outcome: "'e'" },
+                { condition: 'ELSE', outcome: "'f'" }
+            ]);
+        });
+
         it('should return null if not valid IIF', () => {
             expect(ExpressionFormatter.parseIifStatement('SUM(A,B)')).toBeNull();
         });
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { ExpressionTokenizer } from '../src/lib/parsers/expression/ExpressionTokenizer';
+import { ExpressionParser } from '../src/lib/parsers/expression/ExpressionParser';
+import { ExpressionAst } from '../src/lib/parsers/expression/ExpressionAst';
+
+describe('ExpressionTokenizer', () => {
+    it('reads literals, columns, variables and operators', () => {
+        const tokens = ExpressionTokenizer.tokenize("[Amt] >= 1.5 AND {&PERIOD.DESCR} <> 'It''s' OR D = #2025-06-30#");
+        expect(tokens.map(t => `${t.type}:${t.value}`)).toEqual([
+            'column:Amt', 'operator:>=', 'number:1.5', 'identifier:AND', 'variable:PERIOD.DESCR',
+            "operator:<>", "string:It's", 'identifier:OR', 'identifier:D', 'operator:=', 'date:2025-06-30'
+        ]);
+    });
+
+    it('never fails on unterminated quotes or brackets', () => {
+        const tokens = ExpressionTokenizer.tokenize("Dear {&NAME}, it's [late");
+        expect(tokens.filter(t => t.type === 'variable').map(t => t.value)).toEqual(['NAME']);
+        expect(tokens.some(t => t.type === 'unknown')).toBe(true);
+    });
+
+    it('keeps offsets right deep into long expressions', () => {
+        const text = Array.from({ length: 2000 }, (_, i) => `[C${i}] * ${i}.5`).join(' + ');
+        const tokens = ExpressionTokenizer.tokenize(text);
+        expect(tokens).toHaveLength(2000 * 4 - 1);
+        const last = tokens[tokens.length - 1]!;
+        expect([last.type, last.value, text.substring(last.start, last.end)]).toEqual(['number', '1999.5', '1999.5']);
+    });
+});
+
+describe('ExpressionParser', () => {
+    it('binds AND tighter than OR and comparisons tighter than AND', () => {
+        const node = ExpressionParser.parse('A = 1 OR B = 2 AND C <> 3');
+        expect(node.kind).toBe('binary');
+        if (node.kind !== 'binary') return;
+        expect(node.operator).toBe('OR');
+        expect(node.right.kind === 'binary' && node.right.operator).toBe('AND');
+    });
+
+    it('parses IIF, CASE WHEN and function calls', () => {
+        expect(ExpressionParser.parse("IIF(InStr([A], ','), Left([A], 2), 'x')").kind).toBe('iif');
+        expect(ExpressionParser.parse("CASE WHEN [A] > 0 THEN 'Pos' ELSE 'Neg' END").kind).toBe('case');
+        expect(ExpressionParser.parse("Case([PERIOD], 0, 'P0', 'P1')").kind).toBe('call');
+    });
+
+    it('parses LIKE, IN, BETWEEN and IS NULL', () => {
+        const node = ExpressionParser.parse("[A] NOT IN (1, 2) AND [B] BETWEEN 1 AND 5 AND [C] LIKE 'X%' AND [D] IS NOT NULL");
+        const kinds: string[] = [];
+        ExpressionAst.walk(node, n => kinds.push(n.kind === 'binary' ? n.operator : n.kind));
+        expect(kinds).toEqual(expect.arrayContaining(['in', 'between', 'LIKE', 'IS NOT']));
+    });
+
+    it('reports the offset of syntax errors', () => {
+        expect(() => ExpressionParser.parse('IIF(A, B)')).toThrow('IIF needs 3 arguments but has 2 at 0');
+        expect(() => ExpressionParser.parse('(A + B')).toThrow('Expected ) at 6');
+        expect(ExpressionParser.tryParse('SELECT * FROM Table')).toBeNull();
+    });
+
+    it('keeps source spans for each node', () => {
+        const text = "IIF( [A] = 'x' , 1, 2)";
+        const node = ExpressionParser.parse(text);
+        if (node.kind !== 'iif') throw new Error('expected iif');
+        expect(ExpressionParser.source(node.condition, text)).toBe("[A] = 'x'");
+    });
+});
+
+describe('ExpressionAst', () => {
+    it('flattens a CASE with a subject into equality rules', () => {
+        expect(ExpressionAst.logicRules("CASE [T] WHEN 'A' THEN 1 ELSE 0 END", 'ELSE')).toEqual([
+            { outcome: '1', condition: "[T] = 'A'" },
+            { outcome: '0', condition: 'ELSE' }
+        ]);
+    });
+
+    it('returns null rules for plain expressions', () => {
+        expect(ExpressionAst.logicRules('[A] + 1', 'ELSE')).toBeNull();
+    });
+
+    it('collects whole-name references, including variables inside strings', () => {
+        const refs = ExpressionAst.references("IIF(PERIOD_END > 0, [Amount], 'Up to {&PERIOD.DESCR}')");
+        expect([...refs.names]).toEqual(['PERIOD_END']);
+        expect([...refs.columns]).toEqual(['Amount']);
+        expect([...refs.variables]).toEqual(['PERIOD']);
+        expect(ExpressionAst.mentions(refs, 'PERIOD')).toBe(true);
+        expect(ExpressionAst.mentions(refs, 'PERIOD_EN')).toBe(false);
+    });
+
+    it('falls back to tokens for text that is not an expression', () => {
+        const refs = ExpressionAst.references('SELECT * FROM GL WHERE PERIOD = {&PERIOD_END}');
+        expect(refs.names.has('PERIOD')).toBe(true);
+        expect(refs.names.has('WHERE')).toBe(true);
+        expect(refs.variables.has('PERIOD_END')).toBe(true);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { EtlModel } from '../src/lib/model/EtlModel';
+import { FileInventory } from '../src/lib/analysis/FileInventory';
+import { FileInventoryGenerator } from '../src/lib/generators/FileInventoryGenerator';
+import { step, rawStepsOf } from './fixtures/etl';
+
+const etl = (recordId: number, name: string, steps: any[], rawFileLocations?: any, rawAttachments?: any) => ({
+    recordId,
+    process: EtlModel.normalise({
+        rawProcess: { ArrayOfProcess: { Process: { ProcessId: `P${recordId}`, Name: name } } },
+        rawSteps: rawStepsOf(steps),
+        rawFileLocations,
+        rawAttachments
+    })
+});
+
+const locations = { ArrayOfFileLocation: { FileLocation: [
+    { Name: 'EXPORTS', Definition: { ServerFolder: '\\\\fs01\\finance\\exports' } },
+    { Name: 'INBOX', Definition: { ServerFolder: 'C:\\Users\\jsmith\\Desktop' } },
+    { Name: 'SPARE', Definition: { ServerFolder: '/data/spare' } }
+] } };
+
+describe('FileInventory', () => {
+    it('lists the files each step reads and writes with their direction and resolved folder', () => {
+        const inventory = FileInventory.build([
+            etl(1, 'MONTH_END', [
+                step(1, 'LoadTextFile', 'Read rates', { FileLocation: 'INBOX', FileName: 'rates.csv' }),
+                step(2, 'ExportToExcel', 'Export', { FileLocation: 'EXPORTS', FileName: 'GL_{&PERIOD}.xlsx', ExportMemoryTableName: 'GL' }),
+                step(3, 'SaveTextfile', 'Log', { FileLocation: 'EXPORTS', FileName: 'log.txt' }),
+                step(4, 'SendEmail', 'Mail', { SendEmailAttachmentConfigItems: { SendEmailAttachmentConfigItem: { FileLocation: 'EXPORTS', FileMask: '*.xlsx' } } }),
+                step(5, 'SaveText', 'Disabled', { FileLocation: 'EXPORTS', FileName: 'old.txt' }, { IsActive: 'false' })
+            ], locations, { ArrayOfAttachment: { Attachment: { FileName: 'template.xlsx' } } })
+        ]);
+
+        expect(inventory.entries.map(e => [e.source, e.path, e.kind, e.directions.join('/')])).toEqual([
+            ['FileLocations.xml', '\\\\fs01\\finance\\exports', 'folder', 'read/write'],
+            ['FileLocations.xml', 'C:\\Users\\jsmith\\Desktop', 'folder', 'read'],
+            ['FileLocations.xml', '/data/spare', 'folder', ''],
+            ['LoadTextFile', 'C:\\Users\\jsmith\\Desktop\\rates.csv', 'file', 'read'],
+            ['ExportToExcel', '\\\\fs01\\finance\\exports\\GL_{&PERIOD}.xlsx', 'file', 'write'],
+            ['SaveTextfile', '\\\\fs01\\finance\\exports\\log.txt', 'file', 'write'],
+            ['SendEmail', '\\\\fs01\\finance\\exports\\*.xlsx', 'mask', 'read'],
+            ['Attachments.xml', 'template.xlsx', 'file', '']
+        ]);
+        const exportStep = inventory.entries.find(e => e.stepName === 'Export')!;
+        expect(exportStep).toMatchObject({ stepKey: 'ExportToExcel_Export', processName: 'MONTH_END', variables: ['PERIOD'], flags: [] });
+    });
+
+    it('flags user home folders and drive letters', () => {
+        expect(FileInventory.flags('C:\\Users\\jsmith\\Desktop')).toEqual(['user-home', 'drive-letter']);
+        expect(FileInventory.flags('%USERPROFILE%\\Documents')).toEqual(['user-home']);
+        expect(FileInventory.flags('D:/shares/finance')).toEqual(['drive-letter']);
+        expect(FileInventory.flags('\\\\fs01\\finance')).toEqual([]);
+        expect(FileInventory.flags('https://intranet/files')).toEqual([]);
+    });
+});
+
+describe('FileInventoryGenerator', () => {
+    it('renders a library panel and CSV rows sorted by path', () => {
+        const inventory = FileInventory.build([
+            etl(7, 'DAILY', [step(1, 'LoadTextFile', 'Read', { FileLocation: 'INBOX', FileName: 'in_{&DAY}.csv' })], locations)
+        ]);
+        const html = FileInventoryGenerator.renderLibraryPanel(inventory);
+        expect(html).toContain('id="library-file-inventory"');
+        expect(html).toContain(`window.navigateTo('detail', 7, 'report', 'step-LoadTextFile_Read')`);
+        expect(html).toContain('⚠ User folder');
+        expect(html).toContain('{&amp;DAY}');
+
+        const rows = FileInventoryGenerator.toRows(inventory);
+        expect(rows[0]).toEqual(['Path', 'Kind', 'Direction', 'Process', 'Step', 'Source', 'File Location', 'Built From', 'Flags']);
+        expect(rows.map(r => r[0])).toEqual(['Path', '/data/spare', '\\\\fs01\\finance\\exports', 'C:\\Users\\jsmith\\Desktop', 'C:\\Users\\jsmith\\Desktop\\in_{&DAY}.csv']);
+        expect(rows[4].slice(2)).toEqual(['Read', 'DAILY', 'Read', 'LoadTextFile', 'INBOX', '{&DAY}', 'User folder; Drive letter']);
+        expect(FileInventoryGenerator.renderLibraryPanel({ entries: [] })).toBe('');
+    });
+});
@@ -4,19 +4,43 @@ import { FileProcessor } from '../src/lib/FileProcessor';
 import { db } from '../src/lib/db';
 import { DataModelParser } from '../src/lib/parsers/DataModelParser';
 import JSZip from 'jszip';
+import { ParseIssueCollector } from '../src/lib/parsers/ParseIssue';
+import { PARSER_VERSION } from '../src/lib/PackageParser';
+import { SearchIndex } from '../src/lib/SearchIndex';
 
 // Mocks
 vi.mock('../src/lib/db', () => ({
     db: {
         reports: {
             add: vi.fn().mockResolvedValue(101),
+            filter: vi.fn(() => ({ toArray: vi.fn().mockResolvedValue([]) })),
         },
         dataModels: {
             add: vi.fn().mockResolvedValue(202),
+            filter: vi.fn(() => ({ toArray: vi.fn().mockResolvedValue([]) })),
+            get: vi.fn(),
+            put: vi.fn()
+        },
+        xlOneReports: {
+            add: vi.fn().mockResolvedValue(303),
+        },
+        playlists: {
+            add: vi.fn().mockResolvedValue(404),
+        },
+        packages: {
+            add: vi.fn().mockResolvedValue(7),
+            get: vi.fn(),
+            delete: vi.fn()
         }
     }
 }));
 
+vi.mock('../src/lib/SearchIndex', () => ({
+    SearchIndex: {
+        indexRecord: vi.fn()
+    }
+}));
+
 vi.mock('../src/lib/parsers/DataModelParser', () => ({
     DataModelParser: {
         parse: vi.fn()
@@ -54,11 +78,14 @@ describe('FileProcessor', () => {
                 }
             };
             vi.mocked(DataModelParser.parse).mockResolvedValue(mockParsedContent);
+            vi.mocked(JSZip.loadAsync).mockResolvedValue({
+                file: vi.fn((filename) => filename === 'DataModel.xml' ? {} : null)
+            } as any);
 
             const result = await FileProcessor.processAndSave(file);
             
             expect(result).toBe(202);
-            expect(DataModelParser.parse).toHaveBeenCalledWith(file);
+            expect(DataModelParser.parse).toHaveBeenCalledWith(file, expect.objectContaining({ issues: expect.any(ParseIssueCollector) }));
             expect(db.dataModels.add).toHaveBeenCalledWith(expect.objectContaining({
                 filename: 'test_model.t1dm',
                 metadata: expect.objectContaining({
@@ -68,6 +95,44 @@ describe('FileProcessor', () => {
             }));
         });
 
+        it('should keep the original package and stamp the parser version', async () => {
+            const file = new File(['<xml>dummy</xml>'], 'test_model.t1dm', { type: 'text/xml' });
+            vi.mocked(DataModelParser.parse).mockResolvedValue({ DataModel: { DataModelDef: { Description: 'Test Model' } } });
+            vi.mocked(JSZip.loadAsync).mockResolvedValue({
+                file: vi.fn((filename) => filename === 'DataModel.xml' ? {} : null)
+            } as any);
+
+            await FileProcessor.processAndSave(file);
+
+            expect(db.packages.add).toHaveBeenCalledWith(expect.objectContaining({ filename: 'test_model.t1dm', size: file.size }));
+            expect(db.dataModels.add).toHaveBeenCalledWith(expect.objectContaining({ packageId: 7, parserVersion: PARSER_VERSION }));
+            expect(SearchIndex.indexRecord).toHaveBeenCalledWith('datamodel', 202, expect.objectContaining({ filename: 'test_model.t1dm' }));
+        });
+
+        it('should carry notes forward from an earlier version for queries that still exist', async () => {
+            const file = new File(['<xml>dummy</xml>'], 'test_model.t1dm', { type: 'text/xml' });
+            vi.mocked(DataModelParser.parse).mockResolvedValue({
+                DataModel: { DataModelDef: { Description: 'Test Model', DataModelId: 'guide-123', Version: '2.0' } },
+                Queries: { ArrayOfQuery: { Query: [{ Id: 'Q1' }, { Id: 'Q3' }] } }
+            });
+            vi.mocked(JSZip.loadAsync).mockResolvedValue({
+                file: vi.fn((filename) => filename === 'DataModel.xml' ? {} : null)
+            } as any);
+            vi.mocked(db.dataModels.filter).mockReturnValueOnce({
+                toArray: vi.fn().mockResolvedValue([{
+                    id: 5, filename: 'test_model.t1dm', dateAdded: new Date(),
+                    metadata: { id: 'guide-123', version: '1.0' },
+                    stepNotes: { Q1: 'Checked with finance', Q2: 'Query since removed' }
+                }])
+            } as any);
+
+            await FileProcessor.processAndSave(file);
+
+            expect(db.dataModels.add).toHaveBeenCalledWith(expect.objectContaining({
+                stepNotes: { Q1: 'Checked with finance' }
+            }));
+        });
+
         it('should fail on invalid zip for .t1etlp', async () => {
             const file = new File(['not a zip'], 'bad.t1etlp');
             vi.mocked(JSZip.loadAsync).mockRejectedValue(new Error("Invalid zip"));
@@ -165,6 +230,38 @@ describe('FileProcessor', () => {
             }));
         });
 
+        it('should save parse issues for malformed nested step XML and keep importing', async () => {
+            const file = new File(['dummy zip'], 'damaged.t1etlp', { type: 'application/zip' });
+
+            const mockProcessesXml = `<ArrayOfProcess><Process><ProcessId>P1</ProcessId><Name>Damaged</Name></Process></ArrayOfProcess>`;
+            const mockStepsXml = `
+                <ArrayOfStep>
+                    <Step><Name>Good</Name><Definition>&lt;StorageObject&gt;&lt;/StorageObject&gt;</Definition></Step>
+                    <Step><Name>Bad</Name><Definition>&lt;StorageObject&gt;&lt;Column&gt;&lt;/StorageObject&gt;</Definition></Step>
+                </ArrayOfStep>
+            `;
+
+            const mockFileFn = vi.fn((filename) => {
+                if (filename === 'Processes.xml') return { async: vi.fn().mockResolvedValue(mockProcessesXml) };
+                if (filename === 'Steps.xml') return { async: vi.fn().mockResolvedValue(mockStepsXml) };
+                return null;
+            });
+            vi.mocked(JSZip.loadAsync).mockResolvedValue({ file: mockFileFn } as any);
+
+            await FileProcessor.processAndSave(file);
+
+            const saved = vi.mocked(db.reports.add).mock.calls.at(-1)![0] as any;
+            expect(saved.metadata.name).toBe('Damaged');
+            expect(saved.parseIssues).toEqual([
+                expect.objectContaining({
+                    severity: 'warning',
+                    entry: 'Steps.xml',
+                    location: expect.stringMatching(/^\/ArrayOfStep\/Step\[2\]\/Definition \(line 1, col \d+\)$/),
+                    message: expect.stringContaining('Malformed XML')
+                })
+            ]);
+        });
+
         it('should handle missing Processes.xml', async () => {
             const file = new File(['dummy zip'], 'broken.t1etlp', { type: 'application/zip' });
 
@@ -176,5 +273,144 @@ describe('FileProcessor', () => {
 
             await expect(FileProcessor.processAndSave(file)).rejects.toThrow('Invalid T1ETLP file: Processes.xml not found');
         });
+
+        it('should route .t1xl files to the XLOne path instead of the ETL path', async () => {
+            const file = new File(['dummy zip'], 'Transactions_0725a29d-1be8-4651-893a-9ef859fa3661_20251116035704153.t1xl');
+
+            const mockReportXml = `
+            <MyXLOneHeader>
+                <ReportId>0725a29d-1be8-4651-893a-9ef859fa3661</ReportId>
+                <Title>Transactions</Title>
+                <UserId>BWILKINS</UserId>
+                <ParentFileItemPath>/Home/BWILKINS</ParentFileItemPath>
+                <Definition>&lt;DbReportDef&gt;&lt;ReportSuite&gt;CES&lt;/ReportSuite&gt;&lt;LayoutType&gt;Simple&lt;/LayoutType&gt;&lt;/DbReportDef&gt;</Definition>
+            </MyXLOneHeader>
+            `;
+
+            const mockFileFn = vi.fn((filename) => {
+                if (filename === 'Report.xml') return { async: vi.fn().mockResolvedValue(mockReportXml) };
+                return null;
+            });
+
+            vi.mocked(JSZip.loadAsync).mockResolvedValue({
+                file: mockFileFn
+            } as any);
+
+            const result = await FileProcessor.processAndSave(file);
+
+            expect(result).toBe(303);
+            expect(db.reports.add).not.toHaveBeenCalled();
+            expect(db.xlOneReports.add).toHaveBeenCalledWith(expect.objectContaining({
+                metadata: expect.objectContaining({
+                    name: 'Transactions',
+                    owner: 'BWILKINS',
+                    reportSuite: 'CES',
+                    layoutType: 'Simple'
+                })
+            }));
+        });
+
+        it('should route a renamed package by its content rather than its extension', async () => {
+            const file = new File(['dummy zip'], 'Month End.zip');
+
+            vi.mocked(JSZip.loadAsync).mockResolvedValue({
+                file: vi.fn((filename) => filename === 'Schedule.xml'
+                    ? { async: vi.fn().mockResolvedValue('<Schedule><Name>Month End</Name></Schedule>') }
+                    : null)
+            } as any);
+
+            const result = await FileProcessor.processAndSave(file);
+
+            expect(result).toBe(404);
+            expect(db.reports.add).not.toHaveBeenCalled();
+        });
+
+        it('should reject archives with no manifest and no T1 extension', async () => {
+            const file = new File(['dummy zip'], 'photos.zip');
+            vi.mocked(JSZip.loadAsync).mockResolvedValue({ file: vi.fn(() => null) } as any);
+
+            await expect(FileProcessor.processAndSave(file)).rejects.toThrow('Unrecognised package photos.zip');
+        });
+
+        it('should route .t1pl files to the playlist path', async () => {
+            const file = new File(['dummy zip'], 'Month End_9deb66ff-bbfa-401d-bdb4-5201cb578b39_20260123103838466.t1pl');
+
+            const mockScheduleXml = `
+            <Schedule>
+                <ScheduleId>9deb66ff-bbfa-401d-bdb4-5201cb578b39</ScheduleId>
+                <Name>Month End</Name>
+                <Owner>RSTENZEL</Owner>
+                <DefaultSuite>CES</DefaultSuite>
+                <Vers>52</Vers>
+            </Schedule>
+            `;
+            const mockItemsXml = `
+            <ArrayOfScheduleItem>
+                <ScheduleItem><ItemId>1</ItemId><Sequence>1</Sequence><ActionCode>REPRUN</ActionCode></ScheduleItem>
+                <ScheduleItem><ItemId>2</ItemId><Sequence>2</Sequence><ActionCode>REPRUN</ActionCode></ScheduleItem>
+            </ArrayOfScheduleItem>
+            `;
+
+            const mockFileFn = vi.fn((filename) => {
+                if (filename === 'Schedule.xml') return { async: vi.fn().mockResolvedValue(mockScheduleXml) };
+                if (filename === 'Items.xml') return { async: vi.fn().mockResolvedValue(mockItemsXml) };
+                return null;
+            });
+
+            vi.mocked(JSZip.loadAsync).mockResolvedValue({
+                file: mockFileFn
+            } as any);
+
+            const result = await FileProcessor.processAndSave(file);
+
+            expect(result).toBe(404);
+            expect(db.reports.add).not.toHaveBeenCalled();
+            expect(db.playlists.add).toHaveBeenCalledWith(expect.objectContaining({
+                metadata: expect.objectContaining({
+                    name: 'Month End',
+                    owner: 'RSTENZEL',
+                    defaultSuite: 'CES',
+                    itemCount: 2,
+                    version: '52'
+                })
+            }));
+        });
+    });
+    describe('reanalyse', () => {
+        const stored = {
+            id: 12,
+            filename: 'test_model.t1dm',
+            metadata: { name: 'Old analysis', description: '' },
+            content: {},
+            dateAdded: new Date('2025-06-01T00:00:00Z'),
+            stepNotes: { Q1: 'Keep me', Q9: 'Step the new parser no longer sees' },
+            packageId: 7
+        };
+
+        it('should rebuild the record from the stored original, keeping notes and the import date', async () => {
+            vi.mocked(db.dataModels.get).mockResolvedValue(stored);
+            vi.mocked(db.packages.get).mockResolvedValue({ filename: 'test_model.t1dm', blob: new Blob(['zip']), compression: 'none', size: 3, dateAdded: new Date() });
+            vi.mocked(DataModelParser.parse).mockResolvedValue({ DataModel: { DataModelDef: { Description: 'New analysis' } } });
+
+            expect(await FileProcessor.reanalyse('datamodel', 12)).toBe(true);
+
+            expect(DataModelParser.parse).toHaveBeenCalledWith(expect.objectContaining({ name: 'test_model.t1dm' }), expect.anything());
+            expect(db.dataModels.put).toHaveBeenCalledWith(expect.objectContaining({
+                id: 12,
+                metadata: expect.objectContaining({ name: 'New analysis' }),
+                dateAdded: stored.dateAdded,
+                stepNotes: stored.stepNotes,
+                packageId: 7,
+                parserVersion: PARSER_VERSION
+            }));
+            expect(SearchIndex.indexRecord).toHaveBeenCalledWith('datamodel', 12, expect.objectContaining({ stepNotes: stored.stepNotes }));
+        });
+
+        it('should leave artifacts imported before originals were kept alone', async () => {
+            vi.mocked(db.dataModels.get).mockResolvedValue({ ...stored, packageId: undefined });
+
+            expect(await FileProcessor.reanalyse('datamodel', 12)).toBe(false);
+            expect(db.dataModels.put).not.toHaveBeenCalled();
+        });
     });
 });
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LibraryBackup, type LibraryBackupFile } from '../src/lib/LibraryBackup';
+
+// Minimal in-memory stand-in for the Dexie tables used by a restore
+const { tables } = vi.hoisted(() => {
+    const makeTable = () => {
+        let rows: any[] = [];
+        let nextId = 1;
+        return {
+            reset(initial: any[] = []) {
+                rows = initial.map(r => ({ ...r }));
+                nextId = Math.max(0, ...rows.map(r => r.id)) + 1;
+            },
+            async toArray() { return rows.map(r => ({ ...r })); },
+            async clear() { rows = []; },
+            async add(record: any) {
+                const id = nextId++;
+                rows.push({ ...record, id });
+                return id;
+            },
+            async put(record: any) {
+                rows = rows.filter(r => r.id !== record.id).concat({ ...record });
+                return record.id;
+            }
+        };
+    };
+    return {
+        tables: {
+            reports: makeTable(),
+            dataModels: makeTable(),
+            dashboards: makeTable(),
+            xlOneReports: makeTable(),
+            playlists: makeTable(),
+            packages: makeTable()
+        }
+    };
+});
+
+vi.mock('../src/lib/db', () => ({
+    db: {
+        ...tables,
+        transaction: async (_mode: string, _tables: unknown[], scope: () => Promise<void>) => scope()
+    }
+}));
+
+const report = (processId: string, extra: Record<string, any> = {}) => ({
+    filename: `${processId}.t1etlp`,
+    metadata: { name: `Process ${processId}`, id: processId },
+    rawSteps: {},
+    dateAdded: '2026-01-16T10:00:00.000Z',
+    ...extra
+});
+
+const backupOf = (library: LibraryBackupFile['library']): LibraryBackupFile => ({
+    generated: '2026-02-01T09:00:00.000Z',
+    version: '1.0',
+    library
+});
+
+describe('LibraryBackup', () => {
+    beforeEach(() => {
+        Object.values(tables).forEach(t => t.reset());
+    });
+
+    describe('parseBackup', () => {
+        it('should accept a backup written by exportJson', () => {
+            const json = JSON.stringify(backupOf({ reports: [report('P1')], playlists: [] }));
+            expect(LibraryBackup.countArtifacts(LibraryBackup.parseBackup(json))).toBe(1);
+        });
+
+        it('should reject files that are not a supported backup', () => {
+            expect(() => LibraryBackup.parseBackup('{not json')).toThrow('not valid JSON');
+            expect(() => LibraryBackup.parseBackup('{"version":"1.0"}')).toThrow('no "library" section');
+            expect(() => LibraryBackup.parseBackup('{"version":"2.0","library":{}}')).toThrow('Unsupported backup version "2.0"');
+            expect(() => LibraryBackup.parseBackup('{"library":{}}')).toThrow('Unsupported backup version "missing"');
+            expect(() => LibraryBackup.parseBackup('{"version":"1.0","library":{"reports":{}}}')).toThrow('"reports" is not a list');
+        });
+    });
+
+    describe('restore', () => {
+        it('should revive dates and drop the backup library ids', async () => {
+            await LibraryBackup.restore(backupOf({ reports: [report('P1', { id: 42 }), report('P2', { dateAdded: 'garbage' })] }), 'merge');
+
+            const [first, second] = await tables.reports.toArray();
+            expect(first!.id).toBe(1);
+            expect(first!.dateAdded).toBeInstanceOf(Date);
+            expect(first!.dateAdded.toISOString()).toBe('2026-01-16T10:00:00.000Z');
+            // Unreadable dates fall back to when the backup was made
+            expect(second!.dateAdded.toISOString()).toBe('2026-02-01T09:00:00.000Z');
+        });
+
+        it('should merge by artifact id, combining notes with the backup note winning', async () => {
+            tables.reports.reset([{ ...report('P1'), id: 7, metadata: { name: 'Old name', id: 'P1' }, stepNotes: { s1: 'local', s2: 'local only' } }]);
+
+            const summary = await LibraryBackup.restore(backupOf({
+                reports: [report('P1', { stepNotes: { s1: 'from backup', s3: 'new' } }), report('P2')]
+            }), 'merge');
+
+            expect(summary).toEqual({ added: 1, updated: 1, skipped: 0, invalid: [] });
+            const merged = (await tables.reports.toArray()).find(r => r.id === 7);
+            expect(merged.metadata.name).toBe('Process P1');
+            expect(merged.stepNotes).toEqual({ s1: 'from backup', s2: 'local only', s3: 'new' });
+        });
+
+        it('should leave existing artifacts untouched when skipping duplicates', async () => {
+            tables.reports.reset([{ ...report('P1'), id: 7, stepNotes: { s1: 'local' } }]);
+
+            const summary = await LibraryBackup.restore(backupOf({ reports: [report('P1', { stepNotes: { s1: 'backup' } }), report('P2')] }), 'skip-duplicates');
+
+            expect(summary).toMatchObject({ added: 1, updated: 0, skipped: 1 });
+            expect((await tables.reports.toArray()).find(r => r.id === 7).stepNotes).toEqual({ s1: 'local' });
+        });
+
+        it('should replace the whole library, keeping the backup notes', async () => {
+            tables.reports.reset([{ ...report('P9'), id: 3 }]);
+            tables.playlists.reset([{ filename: 'a.t1pl', metadata: { name: 'A', id: 'S1' }, content: {}, dateAdded: new Date(), id: 1 }]);
+
+            const summary = await LibraryBackup.restore(backupOf({ reports: [report('P1', { stepNotes: { s1: 'kept' } })] }), 'replace');
+
+            expect(summary.added).toBe(1);
+            expect(await tables.playlists.toArray()).toEqual([]);
+            expect((await tables.reports.toArray()).map(r => [r.metadata.id, r.stepNotes])).toEqual([['P1', { s1: 'kept' }]]);
+        });
+
+        it('should restore every version of an artifact as its own row', async () => {
+            const versions = [
+                report('P1', { filename: 'P1_20260101090000000.t1etlp', metadata: { name: 'Process P1', id: 'P1', version: '1' }, stepNotes: { s1: 'v1' } }),
+                report('P1', { filename: 'P1_20260201090000000.t1etlp', metadata: { name: 'Process P1', id: 'P1', version: '2' }, stepNotes: { s1: 'v2' } })
+            ];
+
+            expect(await LibraryBackup.restore(backupOf({ reports: versions }), 'replace')).toMatchObject({ added: 2, updated: 0 });
+            expect((await tables.reports.toArray()).map(r => r.metadata.version)).toEqual(['1', '2']);
+
+            // Restoring the same backup again updates each version in place
+            expect(await LibraryBackup.restore(backupOf({ reports: versions }), 'merge')).toMatchObject({ added: 0, updated: 2 });
+            const rows = await tables.reports.toArray();
+            expect(rows.map(r => [r.metadata.version, r.stepNotes.s1]).sort()).toEqual([['1', 'v1'], ['2', 'v2']]);
+        });
+
+        it('should match an artifact from another library whatever its import time or package name', async () => {
+            const dashboard = (filename: string, dateModified: string) => ({ filename, metadata: { name: 'Sales', id: 'D1', dateModified }, content: {}, dateAdded: dateModified });
+            tables.dashboards.reset([{ ...dashboard('Sales.t1db', '2026-01-10T08:00:00.000Z'), id: 4 }]);
+
+            const backup = backupOf({ dashboards: [dashboard('Sales_20260115.t1db', '2026-01-15T12:00:00.000Z')] });
+            expect(await LibraryBackup.restore(backup, 'skip-duplicates')).toMatchObject({ added: 0, skipped: 1 });
+            expect(await LibraryBackup.restore(backup, 'merge')).toMatchObject({ added: 0, updated: 1 });
+            expect((await tables.dashboards.toArray()).map(d => [d.id, d.filename])).toEqual([[4, 'Sales_20260115.t1db']]);
+        });
+
+        it('should fall back to the filename for artifacts without an id and report unreadable records', async () => {
+            tables.dataModels.reset([{ filename: 'Model.t1dm', metadata: { name: 'Model', id: 'N/A' }, content: {}, dateAdded: new Date(), id: 1 }]);
+
+            const summary = await LibraryBackup.restore(backupOf({
+                dataModels: [
+                    { filename: 'Model.t1dm', metadata: { name: 'Model', id: 'N/A' }, content: {}, dateAdded: '2026-01-01' },
+                    { filename: 'Broken.t1dm', content: {} }
+                ]
+            }), 'skip-duplicates');
+
+            expect(summary.skipped).toBe(1);
+            expect(summary.invalid).toEqual([{ table: 'dataModels', name: 'Broken.t1dm', reason: 'Missing metadata' }]);
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LibraryReanalyser } from '../src/lib/LibraryReanalyser';
+import { FileProcessor } from '../src/lib/FileProcessor';
+import { PARSER_VERSION } from '../src/lib/PackageParser';
+
+vi.mock('../src/lib/FileProcessor', () => ({
+    FileProcessor: {
+        table: vi.fn(),
+        reanalyse: vi.fn()
+    }
+}));
+
+const library: Record<string, any[]> = {
+    report: [{ id: 1, filename: 'a.t1etlp', metadata: { name: 'Load GL' } }, { id: 2, filename: 'b.t1etlp', metadata: { name: 'Load AP' } }],
+    datamodel: [{ id: 3, filename: 'old.t1dm', metadata: { name: 'Old Model' } }],
+    dashboard: [],
+    xlone: [],
+    playlist: []
+};
+
+describe('LibraryReanalyser', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(FileProcessor.table).mockImplementation(type => ({ toArray: async () => library[type] }) as any);
+    });
+
+    it('should re-analyse every artifact and report the ones it could not', async () => {
+        vi.mocked(FileProcessor.reanalyse).mockImplementation(async (_type, id) => {
+            if (id === 2) throw new Error('Invalid zip');
+            return id !== 3;
+        });
+        const onProgress = vi.fn();
+
+        const summary = await LibraryReanalyser.reanalyseLibrary({ onProgress });
+
+        expect(summary.reanalysed).toBe(1);
+        expect(summary.failed).toEqual([{ name: 'Load AP', error: 'Invalid zip' }]);
+        expect(summary.skipped.map(s => s.name)).toEqual(['Old Model']);
+        expect(onProgress).toHaveBeenCalledWith({ current: 'Old Model', done: 2, total: 3 });
+    });
+
+    it('should stop at the next artifact when cancelled', async () => {
+        const controller = new AbortController();
+        vi.mocked(FileProcessor.reanalyse).mockImplementation(async () => {
+            controller.abort();
+            return true;
+        });
+
+        const summary = await LibraryReanalyser.reanalyseLibrary({ signal: controller.signal });
+
+        expect(summary).toMatchObject({ reanalysed: 1, cancelled: 2 });
+    });
+
+    it('should treat records without a parser stamp as outdated', () => {
+        expect(LibraryReanalyser.isOutdated({})).toBe(PARSER_VERSION > 1);
+        expect(LibraryReanalyser.isOutdated({ parserVersion: PARSER_VERSION })).toBe(false);
+    });
+});
@@ -132,4 +132,17 @@ describe('MermaidGenerator', () => {
         expect(syntax).toContain('End');
     });
 
+    it('shapes SQL steps by what their statements do', () => {
+        const sqlFlow = [
+            { Step: 'Read', FlowLabel: 'SELECT FROM GL', RawType: 'ExecuteSQL', Sql: { reads: ['GL'], writes: [], warnings: [] }, children: [] },
+            { Step: 'Load', FlowLabel: 'INSERT INTO Summary', RawType: 'ExecuteSQL', Sql: { reads: [], writes: ['Summary'], warnings: [] }, children: [] },
+            { Step: 'Clear', FlowLabel: 'DELETE FROM Summary', RawType: 'Script', Sql: { reads: [], writes: ['Summary'], warnings: ['DELETE without WHERE removes every row of Summary'] }, children: [] }
+        ];
+
+        const syntax = MermaidGenerator.generateMermaidSyntax(sqlFlow, 'business');
+        expect(syntax).toContain('N0[("📥 SELECT FROM GL")]:::source');
+        expect(syntax).toContain('N1(["🗄️INSERT INTO Summary"]):::target');
+        expect(syntax).toContain('N2(["⚠️DELETE FROM Summary"]):::error');
+    });
+
 });
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { PackageParser } from '../src/lib/PackageParser';
+import type { EntryProgress } from '../src/lib/parsers/PackageXml';
+
+const packageFile = async (name: string, entries: Record<string, string>) => {
+    const zip = new JSZip();
+    Object.entries(entries).forEach(([entry, content]) => zip.file(entry, content));
+    return new File([await zip.generateAsync({ type: 'blob' })], name);
+};
+
+describe('PackageParser', () => {
+    describe('detectPackageType', () => {
+        const zipWith = (...names: string[]) => ({
+            file: (name: string) => names.includes(name) ? {} : null
+        }) as any;
+
+        it('should identify each package type by its manifest', () => {
+            expect(PackageParser.detectPackageType(zipWith('Processes.xml', 'Steps.xml'), 'a.t1etlp')?.type).toBe('report');
+            expect(PackageParser.detectPackageType(zipWith('DataModel.xml'), 'a.t1dm')?.type).toBe('datamodel');
+            expect(PackageParser.detectPackageType(zipWith('Dashboard.xml'), 'a.t1db')?.type).toBe('dashboard');
+            expect(PackageParser.detectPackageType(zipWith('Report.xml'), 'a.t1xl')?.type).toBe('xlone');
+            expect(PackageParser.detectPackageType(zipWith('Schedule.xml'), 'a.t1pl')).toEqual({
+                type: 'playlist', manifest: 'Schedule.xml', reason: 'Schedule.xml found'
+            });
+        });
+
+        it('should ignore a misleading or missing extension', () => {
+            expect(PackageParser.detectPackageType(zipWith('Schedule.xml'), 'Month End.t1etlp')).toEqual({
+                type: 'playlist', manifest: 'Schedule.xml', reason: 'Schedule.xml found (the .t1etlp extension suggests ETL and was ignored)'
+            });
+            expect(PackageParser.detectPackageType(zipWith('DataModel.xml'), 'attachment.zip')?.reason).toBe('DataModel.xml found (no T1 extension)');
+        });
+
+        it('should read T1 extensions in any case and behind a gateway suffix', () => {
+            expect(PackageParser.getExtensionType('LOAD GL.T1ETLP')).toBe('report');
+            expect(PackageParser.getExtensionType('Load GL.t1etlp.bin')).toBe('report');
+            expect(PackageParser.getExtensionType('Load GL.t1etlpx')).toBeNull();
+        });
+
+        it('should use the extension as a tiebreaker or fallback only', () => {
+            expect(PackageParser.detectPackageType(zipWith('Processes.xml', 'Report.xml'), 'a.t1xl')?.reason)
+                .toBe('Processes.xml and Report.xml found; the .t1xl extension chose XLOne Report');
+            expect(PackageParser.detectPackageType(zipWith('Processes.xml', 'Report.xml'), 'a.zip')?.type).toBe('report');
+            expect(PackageParser.detectPackageType(zipWith('Steps.xml'), 'a.t1etlp')).toMatchObject({ type: 'report', manifest: null });
+            expect(PackageParser.detectPackageType(zipWith('Other.xml'), 'export.zip')).toBeNull();
+        });
+    });
+
+    describe('parse', () => {
+        const etl = () => packageFile('Load GL.t1etlp', {
+            'Processes.xml': '<ArrayOfProcess><Process><ProcessId>P1</ProcessId><Name>Load GL</Name></Process></ArrayOfProcess>',
+            'Steps.xml': '<ArrayOfStep><Step><Name>One</Name><Definition>&lt;StorageObject /&gt;</Definition></Step></ArrayOfStep>',
+            'Variables.xml': '<ArrayOfC2GenericVariable />'
+        });
+
+        it('should build the library record without saving it', async () => {
+            const parsed = await PackageParser.parse(await etl());
+
+            expect(parsed.type).toBe('report');
+            expect(parsed.record).toMatchObject({
+                filename: 'Load GL.t1etlp',
+                metadata: { name: 'Load GL', id: 'P1' },
+                parseIssues: []
+            });
+            // Nested XML is deep parsed along with its entry
+            expect((parsed.record as any).rawSteps.ArrayOfStep.Step.Definition).toEqual({ StorageObject: '' });
+            // The typed model is built at import and stored with the record
+            expect((parsed.record as any).model).toMatchObject({ id: 'P1', name: 'Load GL', steps: [{ name: 'One', type: 'Other' }] });
+            // So is the risk score, for sorting and badging the library
+            expect((parsed.record as any).complexity).toMatchObject({ total: 0, level: 'Low' });
+            // And the library card summary
+            expect((parsed.record as any).summary).toBe('This process performs a sequence of data operations.');
+        });
+
+        it('should report progress once per entry present', async () => {
+            const progress: EntryProgress[] = [];
+            await PackageParser.parse(await etl(), 'report', { onProgress: p => progress.push(p) });
+
+            expect(progress).toEqual([
+                { entry: 'Processes.xml', done: 0, total: 3 },
+                { entry: 'Steps.xml', done: 1, total: 3 },
+                { entry: 'Variables.xml', done: 2, total: 3 }
+            ]);
+        });
+
+        it('should stop between entries when cancelled', async () => {
+            const controller = new AbortController();
+            const seen: string[] = [];
+            const parsing = PackageParser.parse(await etl(), 'report', {
+                signal: controller.signal,
+                onProgress: p => {
+                    seen.push(p.entry);
+                    controller.abort();
+                }
+            });
+
+            await expect(parsing).rejects.toMatchObject({ name: 'AbortError' });
+            expect(seen).toEqual(['Processes.xml']);
+        });
+    });
+});
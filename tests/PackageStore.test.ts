@@ -0,0 +1,45 @@
+// @vitest-environment node
+// Compression needs File.stream(), which jsdom's File does not have
+import { describe, it, expect, vi } from 'vitest';
+import { PackageStore } from '../src/lib/PackageStore';
+
+const { rows } = vi.hoisted(() => ({ rows: new Map<number, any>() }));
+
+vi.mock('../src/lib/db', () => ({
+    db: {
+        packages: {
+            async add(record: any) { rows.set(rows.size + 1, record); return rows.size; },
+            async get(id: number) { return rows.get(id); },
+            async delete(id: number) { rows.delete(id); }
+        }
+    }
+}));
+
+const text = (file: File | null) => new Response(file).text();
+
+describe('PackageStore', () => {
+    it('should gzip packages that compress and give back the original bytes', async () => {
+        const original = '<ArrayOfStep>' + '<Step><Name>Load</Name></Step>'.repeat(200) + '</ArrayOfStep>';
+        const file = new File([original], 'Load GL.t1etlp');
+
+        const id = await PackageStore.save(file);
+
+        expect(rows.get(id)).toMatchObject({ filename: 'Load GL.t1etlp', compression: 'gzip', size: file.size });
+        expect(rows.get(id).blob.size).toBeLessThan(file.size);
+        const restored = await PackageStore.load(id);
+        expect(restored!.name).toBe('Load GL.t1etlp');
+        expect(await text(restored)).toBe(original);
+    });
+
+    it('should store packages as they are when compression would not help', async () => {
+        const stored = await PackageStore.prepare(new File(['PK'], 'tiny.t1pl'));
+        expect(stored.compression).toBe('none');
+
+        expect((await PackageStore.prepare(new File(['a'.repeat(1000)], 'a.t1pl'), false)).compression).toBe('none');
+    });
+
+    it('should return null for artifacts without a stored original', async () => {
+        expect(await PackageStore.load(undefined)).toBeNull();
+        expect(await PackageStore.load(999)).toBeNull();
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { ParseIssueCollector, describeError } from '../src/lib/parsers/ParseIssue';
+import { ImportHealthGenerator } from '../src/lib/generators/ImportHealthGenerator';
+
+describe('ParseIssueCollector', () => {
+    it('records nothing for well-formed XML', () => {
+        const issues = new ParseIssueCollector();
+        issues.validateXml('Steps.xml', '/', '<ArrayOfStep><Step><Name>A</Name></Step></ArrayOfStep>');
+        expect(issues.issues).toEqual([]);
+    });
+
+    it('records the line and column where malformed XML breaks', () => {
+        const issues = new ParseIssueCollector();
+        issues.validateXml('Steps.xml', '/', '<ArrayOfStep>\n<Step><Name>A</Step>\n</ArrayOfStep>');
+
+        expect(issues.issues).toHaveLength(1);
+        expect(issues.issues[0]).toMatchObject({ severity: 'error', entry: 'Steps.xml' });
+        expect(issues.issues[0]!.location).toMatch(/^\/ \(line 2, col \d+\)$/);
+        expect(issues.issues[0]!.message).toMatch(/^Malformed XML: /);
+    });
+
+    it('reports nested XML problems as warnings against the owning entry', () => {
+        const issues = new ParseIssueCollector();
+        const report = issues.nestedXmlReporter('Steps.xml');
+        report('/ArrayOfStep/Step[2]/Definition', '<StorageObject><Column></StorageObject>');
+
+        expect(issues.issues).toEqual([expect.objectContaining({
+            severity: 'warning',
+            entry: 'Steps.xml',
+            location: expect.stringMatching(/^\/ArrayOfStep\/Step\[2\]\/Definition \(line 1, col \d+\)$/)
+        })]);
+    });
+
+    it('describes thrown values that are not errors', () => {
+        expect(describeError(new Error('boom'))).toBe('boom');
+        expect(describeError('plain')).toBe('plain');
+    });
+});
+
+describe('ImportHealthGenerator', () => {
+    it('renders nothing for artifacts imported before issues were collected', () => {
+        expect(ImportHealthGenerator.renderPanel(undefined)).toBe('');
+    });
+
+    it('confirms a clean import', () => {
+        expect(ImportHealthGenerator.renderPanel([])).toContain('without problems');
+    });
+
+    it('lists errors before warnings and escapes messages', () => {
+        const html = ImportHealthGenerator.renderPanel([
+            { severity: 'warning', entry: 'Steps.xml', location: '/', message: 'second' },
+            { severity: 'error', entry: 'Processes.xml', location: '/', message: '<bad>' }
+        ]);
+        expect(html.indexOf('Processes.xml')).toBeLessThan(html.indexOf('Steps.xml'));
+        expect(html).toContain('&lt;bad&gt;');
+        expect(html).toContain('<details open');
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { ParseWorkerClient } from '../src/lib/workers/ParseWorkerClient';
+import type { ParseWorkerRequest, ParseWorkerResponse } from '../src/lib/workers/ParseWorkerProtocol';
+
+// Stands in for parse.worker.ts: replies to each parse request with one
+// progress message, then the result. Requests named "slow*" never finish.
+class FakeWorker extends EventTarget {
+    static received: ParseWorkerRequest[] = [];
+
+    postMessage(request: ParseWorkerRequest) {
+        FakeWorker.received.push(request);
+        if (request.kind !== 'parse' || request.file.name.startsWith('slow')) return;
+
+        const reply = (data: ParseWorkerResponse) => setTimeout(() => this.dispatchEvent(new MessageEvent('message', { data })));
+        const { requestId, file } = request;
+        reply({ kind: 'progress', requestId, progress: { entry: 'Schedule.xml', done: 0, total: 1 } });
+        if (file.name.startsWith('bad')) {
+            reply({ kind: 'error', requestId, message: 'Invalid T1PL file: Schedule.xml not found', cancelled: false });
+        } else {
+            reply({ kind: 'done', requestId, result: { type: 'playlist', record: { filename: file.name } as any } });
+        }
+    }
+
+    terminate() { }
+}
+
+describe('ParseWorkerClient', () => {
+    beforeAll(() => {
+        vi.stubGlobal('Worker', FakeWorker);
+    });
+
+    it('should resolve with the worker result and forward entry progress', async () => {
+        const onProgress = vi.fn();
+        const result = await ParseWorkerClient.parse(new File(['x'], 'a.t1pl'), 'playlist', { onProgress });
+
+        expect(result).toEqual({ type: 'playlist', record: { filename: 'a.t1pl' } });
+        expect(onProgress).toHaveBeenCalledWith({ entry: 'Schedule.xml', done: 0, total: 1 });
+        expect(FakeWorker.received.at(-1)).toMatchObject({ kind: 'parse', type: 'playlist' });
+    });
+
+    it('should match replies to concurrent requests and surface worker errors', async () => {
+        const [good, bad] = await Promise.allSettled([
+            ParseWorkerClient.parse(new File(['x'], 'good.t1pl')),
+            ParseWorkerClient.parse(new File(['x'], 'bad.t1pl'))
+        ]);
+
+        expect(good).toMatchObject({ status: 'fulfilled', value: { record: { filename: 'good.t1pl' } } });
+        expect(bad).toMatchObject({ status: 'rejected', reason: { message: 'Invalid T1PL file: Schedule.xml not found' } });
+    });
+
+    it('should tell the worker to stop and reject straight away when cancelled', async () => {
+        const controller = new AbortController();
+        const parsing = ParseWorkerClient.parse(new File(['x'], 'slow.t1pl'), undefined, { signal: controller.signal });
+        const { requestId } = FakeWorker.received.at(-1)!;
+
+        controller.abort();
+
+        await expect(parsing).rejects.toMatchObject({ name: 'AbortError' });
+        expect(FakeWorker.received.at(-1)).toEqual({ kind: 'cancel', requestId });
+    });
+});
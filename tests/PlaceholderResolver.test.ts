@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { PlaceholderResolver } from '../src/lib/formatters/PlaceholderResolver';
+
+const variables = [
+    { name: 'REPORTING_MONTH', defaultValue: '{&F1_XL_REPORT_LPERIOD}' },
+    { name: 'LEDGER', defaultValue: 'GL' }
+];
+
+describe('PlaceholderResolver', () => {
+    it('should list placeholder names including suffixes', () => {
+        expect(PlaceholderResolver.extractNames('For {&REPORT.DESCR} in {&LEDGER} and {&REPORT.DESCR}')).toEqual(['REPORT.DESCR', 'LEDGER']);
+    });
+
+    it('should follow the chain from item variables through defaults to test values', () => {
+        const result = PlaceholderResolver.resolve('{&LEDGER} report for {&REPORT}', {
+            itemVariables: [{ name: 'REPORT', value: '{&REPORTING_MONTH}' }],
+            testValues: { F1_XL_REPORT_LPERIOD: '2324-11' },
+            variables
+        });
+
+        expect(result.text).toBe('GL report for 2324-11');
+        expect(result.issues).toEqual([]);
+    });
+
+    it('should let test values override defaults but not item variables', () => {
+        const result = PlaceholderResolver.resolve('{&LEDGER}/{&COSTCENTRE}', {
+            itemVariables: [{ name: 'COSTCENTRE', value: '0104' }],
+            testValues: { ledger: 'AR', COSTCENTRE: '9999' },
+            variables
+        });
+
+        expect(result.text).toBe('AR/0104');
+    });
+
+    it('should flag unresolved references with the chain that led to them', () => {
+        const result = PlaceholderResolver.resolve('Period {&REPORTING_MONTH} for {&NOPE}', { variables });
+
+        expect(result.text).toBe('Period {&F1_XL_REPORT_LPERIOD} for {&NOPE}');
+        expect(result.issues).toEqual([
+            { kind: 'unresolved', name: 'F1_XL_REPORT_LPERIOD', chain: ['REPORTING_MONTH', 'F1_XL_REPORT_LPERIOD'] },
+            { kind: 'unresolved', name: 'NOPE', chain: ['NOPE'] }
+        ]);
+    });
+
+    it('should flag circular references and leave them unexpanded', () => {
+        const result = PlaceholderResolver.resolve('{&A}', {
+            variables: [{ name: 'A', defaultValue: 'x{&B}' }, { name: 'B', defaultValue: '{&A}' }]
+        });
+
+        expect(result.text).toBe('x{&A}');
+        expect(result.issues).toEqual([{ kind: 'circular', name: 'A', chain: ['A', 'B', 'A'] }]);
+    });
+
+    it('should use an explicit .DESCR value, else fall back to the code and flag it', () => {
+        const scope = { variables, testValues: { F1_XL_REPORT_LPERIOD: '2324-11' } };
+
+        const fallback = PlaceholderResolver.resolve('Report for {&REPORTING_MONTH.DESCR}', scope);
+        expect(fallback.text).toBe('Report for 2324-11');
+        expect(fallback.issues).toEqual([{ kind: 'suffix', name: 'REPORTING_MONTH.DESCR', chain: ['REPORTING_MONTH.DESCR'] }]);
+
+        const explicit = PlaceholderResolver.resolve('Report for {&REPORTING_MONTH.DESCR}', {
+            ...scope,
+            testValues: { ...scope.testValues, 'REPORTING_MONTH.DESCR': 'November 2024' }
+        });
+        expect(explicit.text).toBe('Report for November 2024');
+        expect(explicit.issues).toEqual([]);
+    });
+
+    it('should escape HTML and badge remaining placeholders', () => {
+        expect(PlaceholderResolver.toHtml('<b>P&L</b> {&REPORT.DESCR}'))
+            .toBe('&lt;b&gt;P&amp;L&lt;/b&gt; <span class="var-badge">REPORT.DESCR</span>');
+    });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { PlaylistParser } from '../src/lib/parsers/PlaylistParser';
+
+const escapeXml = (xml: string) => xml
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const scheduleItem = (fields: Record<string, string>, definitionXml = '') => `
+  <ScheduleItem>
+    ${Object.entries(fields).map(([k, v]) => `<${k}>${v}</${k}>`).join('\n    ')}
+    ${definitionXml ? `<Definition>${escapeXml(definitionXml)}</Definition>` : ''}
+  </ScheduleItem>`;
+
+const buildPackage = async (itemsXml: string, extra: Record<string, string> = {}) => {
+    const zip = new JSZip();
+    zip.file('Schedule.xml', `<?xml version="1.0" encoding="utf-8"?>
+<Schedule>
+  <ScheduleId>9deb66ff-bbfa-401d-bdb4-5201cb578b39</ScheduleId>
+  <Name>Month End Pack</Name>
+  <Owner>RSTENZEL</Owner>
+  <Definition>${escapeXml('<ScheduleDefinition><UseEmailConfig>false</UseEmailConfig></ScheduleDefinition>')}</Definition>
+  <DefaultSuite>CES</DefaultSuite>
+  <Vers>52</Vers>
+</Schedule>`);
+    zip.file('Items.xml', `<?xml version="1.0" encoding="utf-8"?><ArrayOfScheduleItem>${itemsXml}</ArrayOfScheduleItem>`);
+    Object.entries(extra).forEach(([name, xml]) => zip.file(name, xml));
+    const blob = await zip.generateAsync({ type: 'blob' });
+    return new File([blob], 'Month End Pack_9deb66ff-bbfa-401d-bdb4-5201cb578b39_20260123103838466.t1pl');
+};
+
+describe('PlaylistParser', () => {
+    it('should decode the schedule header and nested definition', async () => {
+        const content = await PlaylistParser.parse(await buildPackage(''));
+        const schedule = PlaylistParser.getSchedule(content);
+
+        expect(schedule.Name).toBe('Month End Pack');
+        expect(schedule.Vers).toBe('52');
+        expect(schedule.Definition.ScheduleDefinition.UseEmailConfig).toBe('false');
+        expect(PlaylistParser.getItems(content)).toEqual([]);
+    });
+
+    it('should return schedule items in Sequence order with delivery settings', async () => {
+        const file = await buildPackage(
+            scheduleItem({
+                ItemId: '11', Sequence: '2', Comment: 'CC 0104', ActiveInd: 'false', ContinueOnError: 'true',
+                SourceServerFolder: 'SFOLDER', SourcePath: 'Packs/P&amp;L.xlsx', SourceSheetName: 'Summary',
+                ActionCode: 'REPRUN', ActionFileType: 'XL12', ActionFilePath: 'CC 0104.xlsx',
+                EmailInd: 'true', EmailToAddresses: 'a@x.com', EmailCcAddresses: 'b@x.com; c@x.com',
+                EmailSubject: 'Report for {&amp;REPORTING_MONTH.DESCR}', EmailAttachInd: 'true'
+            }, '<ScheduleItemDefinition><ItemVariables><ItemVariable><Name>COSTCENTRE</Name><Value>0104</Value></ItemVariable></ItemVariables></ScheduleItemDefinition>') +
+            scheduleItem({ ItemId: '10', Sequence: '1', Comment: 'Group', ActiveInd: 'true', ActionCode: 'REPRUN', SaveInd: 'true', SaveServerFolder: 'SFOLDER' })
+        );
+
+        const items = PlaylistParser.getItems(await PlaylistParser.parse(file));
+
+        expect(items.map(i => i.itemId)).toEqual(['10', '11']);
+        expect(items[0]!.saveInd).toBe(true);
+        expect(items[0]!.emailInd).toBe(false);
+
+        const cc = items[1]!;
+        expect(cc.active).toBe(false);
+        expect(cc.continueOnError).toBe(true);
+        expect(cc.sourcePath).toBe('Packs/P&L.xlsx');
+        expect(cc.sourceSheetName).toBe('Summary');
+        expect(cc.emailTo).toEqual(['a@x.com']);
+        expect(cc.emailCc).toEqual(['b@x.com', 'c@x.com']);
+        expect(cc.emailSubject).toBe('Report for {&REPORTING_MONTH.DESCR}');
+        // Codes keep their leading zeros
+        expect(cc.itemVariables).toEqual([{ name: 'COSTCENTRE', value: '0104' }]);
+    });
+
+    it('should list playlist-level prompts and merge ItemVariables.xml overrides', async () => {
+        const file = await buildPackage(
+            scheduleItem({ ItemId: '10', Sequence: '1' }, '<ScheduleItemDefinition><ItemVariables><ItemVariable><Name>REPORT</Name><Value>{&amp;REPORTING_MONTH}</Value></ItemVariable></ItemVariables></ScheduleItemDefinition>'),
+            {
+                'Variables.xml': `<ArrayOfC2GenericVariable>
+  <C2GenericVariable><Name>LEDGER</Name><Sequence>2</Sequence><VariableType>A</VariableType></C2GenericVariable>
+  <C2GenericVariable><Name>REPORTING_MONTH</Name><Description>Reporting Month</Description><Sequence>1</Sequence><VariableType>L</VariableType><DefaultValue>{&amp;F1_XL_REPORT_LPERIOD}</DefaultValue><IsMandatory>true</IsMandatory><SelectionTypeListType>REPCAL</SelectionTypeListType></C2GenericVariable>
+</ArrayOfC2GenericVariable>`,
+                'ItemVariables.xml': `<ArrayOfScheduleItemVariable>
+  <ScheduleItemVariable><ItemId>10</ItemId><Name>REPORT</Name><Value>2324-11</Value></ScheduleItemVariable>
+</ArrayOfScheduleItemVariable>`
+            }
+        );
+
+        const content = await PlaylistParser.parse(file);
+        const variables = PlaylistParser.getVariables(content);
+
+        expect(variables.map(v => v.name)).toEqual(['REPORTING_MONTH', 'LEDGER']);
+        expect(variables[0]).toMatchObject({ type: 'L', defaultValue: '{&F1_XL_REPORT_LPERIOD}', mandatory: true, listSource: 'REPCAL' });
+        expect(PlaylistParser.getItems(content)[0]!.itemVariables).toEqual([{ name: 'REPORT', value: '2324-11' }]);
+    });
+
+    it('should group deliveries by recipient and flag items that neither email nor save', async () => {
+        const file = await buildPackage(
+            scheduleItem({ ItemId: '1', Sequence: '1', Comment: 'CC 0104', EmailInd: 'true', EmailToAddresses: 'Jo@x.com', EmailCcAddresses: 'boss@x.com', EmailAttachInd: 'true' }) +
+            scheduleItem({ ItemId: '2', Sequence: '2', Comment: 'CC 0105', EmailInd: 'true', EmailToAddresses: 'jo@x.com', EmailCcAddresses: 'jo@x.com', EmailAttachInd: 'false', SaveInd: 'true', SaveServerFolder: 'SFOLDER', SaveSubfolder: 'Packs' }) +
+            scheduleItem({ ItemId: '3', Sequence: '3', Comment: 'Group', MyReportInd: 'true', MyReportUser: 'RSTENZEL' }) +
+            scheduleItem({ ItemId: '4', Sequence: '4', Comment: 'Orphan', EmailInd: 'true' }) +
+            scheduleItem({ ItemId: '5', Sequence: '5', Comment: 'Draft' })
+        );
+
+        const { recipients, undelivered } = PlaylistParser.getDistribution(PlaylistParser.getItems(await PlaylistParser.parse(file)));
+
+        expect(recipients.map(r => [r.kind, r.recipient])).toEqual([
+            ['email', 'boss@x.com'],
+            ['email', 'Jo@x.com'],
+            ['folder', 'SFOLDER/Packs'],
+            ['user', 'RSTENZEL']
+        ]);
+        const jo = recipients[1]!;
+        // Addresses match case-insensitively, and To + Cc on the same item counts once
+        expect(jo.deliveries.map(d => [d.report, d.role, d.attached])).toEqual([
+            ['CC 0104', 'To', true],
+            ['CC 0105', 'To', false]
+        ]);
+        expect([jo.to, jo.cc, jo.attached, jo.saved]).toEqual([2, 0, 1, 0]);
+        expect(recipients[2]!.saved).toBe(1);
+        // Email switched on without any address does not count as delivered
+        expect(undelivered.map(i => i.comment)).toEqual(['Orphan', 'Draft']);
+    });
+
+    it('should split recipient lists on semicolons and commas', () => {
+        expect(PlaylistParser.splitAddresses('a@x.com; b@x.com,c@x.com;')).toEqual(['a@x.com', 'b@x.com', 'c@x.com']);
+        expect(PlaylistParser.splitAddresses({ '@_IsAssigned': 'false' })).toEqual([]);
+    });
+});
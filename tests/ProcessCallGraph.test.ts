@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { EtlModel } from '../src/lib/model/EtlModel';
+import { ProcessCallGraph } from '../src/lib/analysis/ProcessCallGraph';
+import { step, rawStepsOf } from './fixtures/etl';
+
+const call = (id: number, name: string, storage: any, extra: any = {}) => step(id, 'StartProcess', name, storage, extra);
+
+const etl = (recordId: number, processId: string, name: string, steps: any[] = []) => ({
+    recordId,
+    process: EtlModel.normalise({
+        rawProcess: { ArrayOfProcess: { Process: { ProcessId: processId, Name: name } } },
+        rawSteps: rawStepsOf(steps)
+    })
+});
+
+describe('ProcessCallGraph', () => {
+    it('resolves calls by id, then by name, and lists the rest as external', () => {
+        const graph = ProcessCallGraph.build([
+            etl(1, 'AAA', 'MONTH_END', [
+                call(1, 'Load balances', { ProcessId: 'bbb', ProcessName: 'OLD_NAME' }),
+                call(2, 'Report', { ProcessName: 'Finance\\REPORTING' }),
+                call(3, 'Archive', { ProcessName: 'ARCHIVE' }),
+                call(4, 'Disabled', { ProcessName: 'NEVER' }, { IsActive: 'false' })
+            ]),
+            etl(2, 'BBB', 'LOAD_BALANCES'),
+            etl(3, 'CCC', 'Reporting', [call(1, 'Archive too', { ProcessName: 'archive' })])
+        ]);
+
+        expect(graph.calls.map(c => [c.stepName, c.target, c.calleeId])).toEqual([
+            ['Load balances', 'OLD_NAME', 2],
+            ['Report', 'Finance\\REPORTING', 3],
+            ['Archive', 'ARCHIVE', null],
+            ['Archive too', 'archive', null]
+        ]);
+        expect(graph.external.map(e => [e.target, e.calls.map(c => c.callerId)])).toEqual([['ARCHIVE', [1, 3]]]);
+        expect(ProcessCallGraph.callers(graph, 3).map(c => c.callerId)).toEqual([1]);
+        expect(ProcessCallGraph.callees(graph, 2)).toEqual([]);
+        expect(ProcessCallGraph.neverCalled(graph).map(p => p.name)).toEqual(['MONTH_END']);
+        expect(graph.cycles).toEqual([]);
+    });
+
+    it('finds processes that call each other round in a loop', () => {
+        const graph = ProcessCallGraph.build([
+            etl(1, 'A', 'A', [call(1, 'To B', { ProcessName: 'B' })]),
+            etl(2, 'B', 'B', [call(1, 'To C', { ProcessName: 'C' })]),
+            etl(3, 'C', 'C', [call(1, 'Back to A', { ProcessName: 'A' })]),
+            etl(4, 'D', 'D', [call(1, 'Itself', { ProcessName: 'D' }), call(2, 'To A', { ProcessName: 'A' })])
+        ]);
+
+        expect(graph.cycles).toEqual([[1, 2, 3], [4]]);
+        expect(ProcessCallGraph.cycleOf(graph, 2)).toEqual([1, 2, 3]);
+        expect(ProcessCallGraph.neverCalled(graph).map(p => p.name)).toEqual(['D']);
+    });
+});
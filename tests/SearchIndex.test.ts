@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SearchIndex } from '../src/lib/SearchIndex';
+import { step } from './fixtures/etl';
+
+// In-memory stand-in for the searchIndex table, covering the queries SearchIndex makes
+const { rows } = vi.hoisted(() => ({ rows: [] as any[] }));
+
+vi.mock('../src/lib/db', () => ({
+    db: {
+        searchIndex: {
+            where(index: string) {
+                return {
+                    startsWith: (prefix: string) => ({ toArray: async () => rows.filter(r => r[index].startsWith(prefix)) }),
+                    equals: ([type, recordId]: [string, number]) => ({
+                        delete: async () => { rows.splice(0, rows.length, ...rows.filter(r => r.type !== type || r.recordId !== recordId)); }
+                    })
+                };
+            },
+            async bulkAdd(entries: any[]) { rows.push(...entries); }
+        },
+        transaction: async (_mode: string, _table: unknown, scope: () => Promise<void>) => scope()
+    }
+}));
+
+const etl = {
+    filename: 'Load GL.t1etlp',
+    metadata: { name: 'Load GL', id: 'P1' },
+    rawSteps: {
+        ArrayOfStep: {
+            Step: [
+                step(1, 'RunDatasourceQuery', 'Read balances', {
+                    OutputTableName: 'GL_BALANCES',
+                    DataSource: { DataSourceName: 'Finance One Ledger' },
+                    ColumnMapping: { TableColumnMapping: [{ ColumnName: 'ACCOUNT_CODE' }, { ColumnName: 'PERIOD_END' }] }
+                }),
+                step(2, 'SendEmail', 'Notify finance', { SendTo: 'gl.team@example.com', SubjectLine: 'Balances loaded' }),
+                step(3, 'CalculateVariable', 'Work out period', { VariableName: 'CUR_PERIOD', Expression: 'IIF({&PERIOD} > 6, "H2", "H1")' })
+            ]
+        }
+    },
+    rawVariables: { ArrayOfC2GenericVariable: { C2GenericVariable: [{ Name: 'RUN_DATE' }] } },
+    stepNotes: { SendEmail_Notify_finance: 'Ask Priya before changing the recipients' }
+};
+
+const dataModel = {
+    filename: 'Balances.t1dm',
+    metadata: { name: 'Balances Model', description: '' },
+    content: {
+        Queries: { ArrayOfQuery: { Query: [{ QueryName: 'Main Query', Id: 'Q1' }] } },
+        QueryColumns: { ArrayOfQueryColumn: { QueryColumn: [{ QueryName: 'Main Query', ColumnName: 'COST_CENTRE', Expression: '[AMOUNT] * -1' }] } },
+        QueryDatasources: { ArrayOfQueryDatasource: { QueryDatasource: { QueryName: 'Main Query', DataSourceName: 'GL Summary' } } }
+    },
+    stepNotes: { Q1: 'Reconciled monthly' }
+};
+
+describe('SearchIndex', () => {
+    beforeEach(() => {
+        rows.length = 0;
+    });
+
+    it('should split identifiers and keep email addresses whole', () => {
+        expect(SearchIndex.tokenize('[ACCOUNT_CODE] = {&PERIOD}')).toEqual(['account_code', 'account', 'code', 'period']);
+        expect(SearchIndex.tokenize('Mail gl.team@example.com')).toContain('gl.team@example.com');
+    });
+
+    it('should index ETL steps by what their definitions hold', () => {
+        const docs = SearchIndex.documents('report', etl);
+        const find = (field: string, text: string) => docs.find(d => d.field === field && d.text === text);
+
+        expect(find('Step', 'Read balances')).toMatchObject({ anchor: 'step-RunDatasourceQuery_Read_balances' });
+        expect(find('Step type', 'SendEmail')).toBeDefined();
+        expect(find('Table', 'GL_BALANCES')).toBeDefined();
+        expect(find('Data source', 'Finance One Ledger')).toBeDefined();
+        expect(find('Column', 'PERIOD_END')).toBeDefined();
+        expect(find('Variable', 'CUR_PERIOD')).toBeDefined();
+        expect(find('Expression', 'IIF({&PERIOD} > 6, "H2", "H1")')).toBeDefined();
+        expect(find('Email', 'gl.team@example.com')).toMatchObject({ anchor: 'step-SendEmail_Notify_finance' });
+        expect(find('Note', 'Ask Priya before changing the recipients')).toBeDefined();
+        expect(find('Variable', 'RUN_DATE')).toMatchObject({ anchor: '' });
+    });
+
+    it('should point Data Model columns, data sources and notes at their query card', () => {
+        const docs = SearchIndex.documents('datamodel', dataModel);
+
+        expect(docs.filter(d => d.anchor === 'query-Main_Query').map(d => d.field)).toEqual(
+            expect.arrayContaining(['Query', 'Column', 'Expression', 'Data source', 'Note'])
+        );
+    });
+
+    it('should find hits by word prefix, requiring every word in the same step', async () => {
+        await SearchIndex.indexRecord('report', 1, etl);
+        await SearchIndex.indexRecord('datamodel', 2, dataModel);
+
+        const [hit] = await SearchIndex.search('acc');
+        expect(hit).toMatchObject({ type: 'report', recordId: 1, anchor: 'step-RunDatasourceQuery_Read_balances' });
+        expect(hit!.matches).toContainEqual({ field: 'Column', text: 'ACCOUNT_CODE' });
+
+        expect((await SearchIndex.search('priya recipients')).map(h => h.anchor)).toEqual(['step-SendEmail_Notify_finance']);
+        expect(await SearchIndex.search('priya ledger')).toEqual([]);
+        expect((await SearchIndex.search('reconciled')).map(h => [h.type, h.anchor])).toEqual([['datamodel', 'query-Main_Query']]);
+    });
+
+    it('should replace an artifact\'s entries when it is indexed again', async () => {
+        await SearchIndex.indexRecord('report', 1, etl);
+        await SearchIndex.indexRecord('report', 1, { ...etl, stepNotes: {} });
+
+        expect(await SearchIndex.search('priya')).toEqual([]);
+        expect(await SearchIndex.search('balances')).not.toEqual([]);
+    });
+});
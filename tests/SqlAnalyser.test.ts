@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { SqlTokenizer } from '../src/lib/parsers/sql/SqlTokenizer';
+import { SqlFormatter } from '../src/lib/parsers/sql/SqlFormatter';
+import { SqlAnalyser } from '../src/lib/parsers/sql/SqlAnalyser';
+
+describe('SqlTokenizer', () => {
+    it('reads bracketed names, strings, T1 variables and comments', () => {
+        const tokens = SqlTokenizer.tokenize("select [Cost Centre] from dbo.GL -- ledger\nwhere P = N'It''s' and Y = {&YEAR}");
+        expect(tokens.map(t => `${t.type}:${t.value}`)).toEqual([
+            'keyword:SELECT', 'identifier:Cost Centre', 'keyword:FROM', 'identifier:dbo', 'dot:.', 'identifier:GL',
+            'comment:ledger', 'keyword:WHERE', 'identifier:P', 'operator:=', "string:It's", 'keyword:AND',
+            'identifier:Y', 'operator:=', 'variable:{&YEAR}'
+        ]);
+    });
+
+    it('keeps offsets right deep into long statements', () => {
+        const text = 'SELECT ' + Array.from({ length: 2000 }, (_, i) => `C${i} * ${i}.5`).join(', ') + ' FROM @T';
+        const tokens = SqlTokenizer.tokenize(text);
+        expect(tokens).toHaveLength(2000 * 4 + 2);
+        const [number, , variable] = tokens.slice(-3);
+        expect([number.value, text.substring(number.start, number.end)]).toEqual(['1999.5', '1999.5']);
+        expect([variable.type, variable.value]).toEqual(['variable', '@T']);
+    });
+});
+
+describe('SqlFormatter', () => {
+    it('puts each clause, list item and condition on its own line', () => {
+        expect(SqlFormatter.format('select a, b from T t join U u on u.id = t.id where a between 1 and 2 and b in (1, 2)')).toBe([
+            'SELECT a,',
+            '    b',
+            'FROM T t',
+            'JOIN U u',
+            '    ON u.id = t.id',
+            'WHERE a BETWEEN 1 AND 2',
+            '    AND b IN (1, 2)'
+        ].join('\n'));
+    });
+
+    it('indents subqueries and separates statements', () => {
+        expect(SqlFormatter.format('delete from T where id in (select id from U); truncate table V')).toBe([
+            'DELETE FROM T',
+            'WHERE id IN (',
+            '    SELECT id',
+            '    FROM U',
+            ');',
+            '',
+            'TRUNCATE TABLE V'
+        ].join('\n'));
+    });
+});
+
+describe('SqlAnalyser', () => {
+    it('classifies each statement and lists the tables it reads and writes', () => {
+        const analysis = SqlAnalyser.analyse(
+            'DELETE FROM Staging WHERE LoadDate < {&CUTOFF} ' +
+            'INSERT INTO Staging (Code, Amount) SELECT s.Code, SUM(s.Amount) AS Amount FROM dbo.Sales s JOIN [dbo].[Region Map] r ON r.Code = s.Code GROUP BY s.Code'
+        );
+        expect(analysis.statements.map(s => s.kind)).toEqual(['DELETE', 'INSERT']);
+        expect(analysis.reads).toEqual(['dbo.Sales', 'dbo.Region Map']);
+        expect(analysis.writes).toEqual(['Staging']);
+        expect(analysis.columns).toEqual(['LoadDate', 'Code', 'Amount']);
+        expect(SqlAnalyser.describe(analysis)).toBe('DELETE FROM Staging; INSERT INTO Staging');
+        expect(analysis.assignments.map(a => [a.column, a.reads.map(r => `${r.table}.${r.column}`), a.expression, a.plain])).toEqual([
+            ['Code', ['dbo.Sales.Code'], 's.Code', true],
+            ['Amount', ['dbo.Sales.Amount'], 'SUM(s.Amount)', false]
+        ]);
+    });
+
+    it('analyses the same text once', () => {
+        const sql = 'UPDATE Once SET A = B';
+        expect(SqlAnalyser.analyse(sql)).toBe(SqlAnalyser.analyse(sql));
+    });
+
+    it('matches written columns to their values in SET, VALUES and SELECT INTO lists', () => {
+        const written = (sql: string) => SqlAnalyser.analyse(sql).assignments.map(a => `${a.table}.${a.column} = ${a.reads.map(r => `${r.table}.${r.column}`).join(' ')}`);
+
+        expect(written('UPDATE T SET A = B, C = CASE WHEN B > 0 THEN B ELSE D END')).toEqual(['T.A = T.B', 'T.C = T.B T.D']);
+        expect(written('MERGE INTO Dim AS d USING Stage AS s ON d.Id = s.Id WHEN MATCHED THEN UPDATE SET d.Name = s.Name WHEN NOT MATCHED THEN INSERT (Id, Name) VALUES (s.Id, s.Name);'))
+            .toEqual(['Dim.Name = Stage.Name', 'Dim.Id = Stage.Id', 'Dim.Name = Stage.Name']);
+        expect(written('SELECT TOP 10 Code, Amount * 2 Doubled, Total = Amount + Tax INTO Work FROM Sales'))
+            .toEqual(['Work.Code = Sales.Code', 'Work.Doubled = Sales.Amount', 'Work.Total = Sales.Amount Sales.Tax']);
+        expect(written('SELECT a.X FROM A a JOIN B b ON a.Id = b.Id')).toEqual([]);
+        expect(written('INSERT INTO T (A, B) VALUES (1, 2)')).toEqual(['T.A = ', 'T.B = ']);
+    });
+
+    it('resolves aliases, leaves out CTEs and classifies DDL and MERGE', () => {
+        const update = SqlAnalyser.analyse('UPDATE t SET t.Flag = 1 FROM Targets t JOIN Other o ON o.Id = t.Id WHERE o.Live = 1');
+        expect(update.statements[0]).toMatchObject({ kind: 'UPDATE', writes: ['Targets'], reads: ['Targets', 'Other'], warning: '' });
+
+        const cte = SqlAnalyser.analyse('WITH recent AS (SELECT Id FROM Orders) SELECT r.Id FROM recent r');
+        expect(cte.reads).toEqual(['Orders']);
+
+        const ddl = SqlAnalyser.analyse('CREATE TABLE Work (Id INT); DROP TABLE IF EXISTS #tmp');
+        expect(ddl.statements.map(s => [s.kind, s.verb, s.writes[0]])).toEqual([['DDL', 'CREATE TABLE', 'Work'], ['DDL', 'DROP TABLE', '#tmp']]);
+
+        const merge = SqlAnalyser.analyse('MERGE INTO Dim AS d USING Stage AS s ON d.Id = s.Id WHEN MATCHED THEN UPDATE SET d.Name = s.Name WHEN NOT MATCHED BY SOURCE THEN DELETE;');
+        expect(merge.statements).toHaveLength(1);
+        expect(merge.statements[0]).toMatchObject({ kind: 'MERGE', reads: ['Stage'], writes: ['Dim'] });
+    });
+
+    it('warns about statements that delete, truncate or drop', () => {
+        expect(SqlAnalyser.analyse('DELETE FROM T').warnings).toEqual(['DELETE without WHERE removes every row of T']);
+        expect(SqlAnalyser.analyse('TRUNCATE TABLE dbo.Facts').warnings).toEqual(['TRUNCATE removes every row of dbo.Facts']);
+        expect(SqlAnalyser.analyse('UPDATE T SET A = 1').warnings).toEqual(['UPDATE without WHERE changes every row of T']);
+        expect(SqlAnalyser.analyse('SELECT * FROM T WHERE A = 1').warnings).toEqual([]);
+    });
+
+    it('tells SQL scripts from other languages', () => {
+        expect(SqlAnalyser.isSql('Dim x', 'VB')).toBe(false);
+        expect(SqlAnalyser.isSql('SELECT 1', 'VB')).toBe(false);
+        expect(SqlAnalyser.isSql('-- tidy up\nDELETE FROM T')).toBe(true);
+        expect(SqlAnalyser.isSql('anything', 'T-SQL')).toBe(true);
+    });
+});
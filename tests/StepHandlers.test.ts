@@ -0,0 +1,369 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StepHandlers } from '../src/lib/parsers/steps/StepHandlers';
+import { GenericHandler } from '../src/lib/parsers/steps/GenericHandler';
+import { EtlModel } from '../src/lib/model/EtlModel';
+import { SqlTokenizer } from '../src/lib/parsers/sql/SqlTokenizer';
+import type { StepContext } from '../src/lib/parsers/steps/StepHandler';
+
+const ctx = (type: string, storage: any = {}, extra: Partial<StepContext> = {}): StepContext => ({
+    step: { StepType: type, Name: 'My Step', children: [] },
+    storage,
+    type,
+    name: 'My Step',
+    mode: 'technical',
+    table: storage.TableName || storage.InputTableName || 'dataset',
+    target: storage.OutputTableName || storage.TableName || 'target',
+    columnMetadata: new Map(),
+    variableUsage: new Map(),
+    ...extra
+});
+
+const render = (c: StepContext) => {
+    const info: any = { Details: [], TableData: null, Headers: null };
+    StepHandlers.resolve(c.type).details(c, info);
+    return info;
+};
+
+const criteria = (column: string, value: string) => ({
+    CriteriaSetItem: { CriteriaValues: { CriteriaValue: { ColumnId: column, Operator: { Value: '=' }, Value1: value } } }
+});
+
+describe('StepHandlers', () => {
+    it('resolves every type of a handler to the same handler', () => {
+        expect(StepHandlers.resolve('AddColumn')).toBe(StepHandlers.resolve('UpdateColumn'));
+        expect(StepHandlers.isHandled('RunDirectQuery')).toBe(true);
+        expect(StepHandlers.isHandled('MadeUpStep')).toBe(false);
+        expect(StepHandlers.resolve('MadeUpStep')).toBe(GenericHandler);
+    });
+
+    it('fills what a handler leaves out from the generic handler', () => {
+        const handler = StepHandlers.resolve('FilterTable');
+        expect(handler.container).toBe(false);
+        expect(handler.describe(ctx('FilterTable'))).toBe('FilterTable');
+        expect(handler.technical(ctx('FilterTable'))).toEqual([]);
+    });
+
+    it('reports the step types of a process that render generically', () => {
+        const process = EtlModel.normalise({
+            rawSteps: {
+                ArrayOfStep: {
+                    Step: [
+                        { StepId: 1, Sequence: 1, StepType: 'RunDirectQuery', Name: 'Read' },
+                        { StepId: 2, Sequence: 2, StepType: 'Pivot', Name: 'Pivot A' },
+                        { StepId: 3, Sequence: 3, StepType: 'Unpivot', Name: 'Unpivot' },
+                        { StepId: 4, Sequence: 4, StepType: 'Pivot', Name: 'Pivot B' }
+                    ]
+                }
+            }
+        });
+        expect(StepHandlers.unhandled(process)).toEqual([
+            { type: 'Pivot', steps: [{ key: 'Pivot_Pivot_A', name: 'Pivot A' }, { key: 'Pivot_Pivot_B', name: 'Pivot B' }] },
+            { type: 'Unpivot', steps: [{ key: 'Unpivot_Unpivot', name: 'Unpivot' }] }
+        ]);
+    });
+});
+
+describe('GenericHandler', () => {
+    it('describes by name in the business view and by type in the technical view', () => {
+        expect(GenericHandler.describe(ctx('Pivot', {}, { mode: 'business' }))).toBe('My Step');
+        expect(GenericHandler.describe(ctx('Pivot'))).toBe('Pivot');
+        expect(GenericHandler.flowLabel(ctx('Pivot'), 'Pivot')).toBe('Pivot');
+    });
+
+    it('reads inputs and outputs from the storage keys', () => {
+        const c = ctx('Pivot', { InputTableName: 'SRC', TableName: 'SRC', OutputTableName: 'OUT', ResultVariable: 'ROWS' });
+        expect(GenericHandler.inputs(c)).toEqual(['SRC']);
+        expect(GenericHandler.outputs(c)).toEqual(['OUT', 'ROWS']);
+    });
+
+    it('turns Details into DOCX rows', () => {
+        expect(GenericHandler.docxRows(ctx('Pivot'), { Details: ['Filter: A = 1', 'plain'] })).toEqual([
+            { label: 'Filter', value: 'A = 1' },
+            { label: 'Detail', value: 'plain' }
+        ]);
+    });
+});
+
+describe('TableQueryHandler', () => {
+    const storage = {
+        TableName: 'GL', Suite: 'LEDGER', TopN: '10', Distinct: 'true',
+        Columns: { ColumnItem: [{ ColumnName: 'ACC', ColumnSource: 'ACCOUNT' }] },
+        Criteria: criteria('PERIOD', '{&PERIOD}')
+    };
+
+    it('describes the pull and labels the flow from source to target', () => {
+        const handler = StepHandlers.resolve('RunDirectQuery');
+        expect(handler.describe(ctx('RunDirectQuery', storage))).toBe('My Step: pull GL');
+        expect(handler.describe(ctx('RunTableQuery', storage, { mode: 'business' }))).toBe('My Step');
+        expect(handler.flowLabel(ctx('RunDirectQuery', storage), '')).toBe('Query: GL ➔ GL');
+        expect(handler.flowLabel(ctx('RunTableQuery', storage), 'ctx')).toBe('ctx');
+    });
+
+    it('lists columns, limits and filters', () => {
+        const info = render(ctx('RunDirectQuery', storage));
+        expect(info.TableData).toEqual([{ Col1: 'ACC', Col2: 'ACCOUNT', Col3: 'String', Col4: 'Display' }]);
+        expect(info.Details).toEqual(['Limit: Top 10 rows', 'Distinct: Yes', 'Filter: PERIOD = {&PERIOD}']);
+        expect(StepHandlers.resolve('RunDirectQuery').technical(ctx('RunDirectQuery', storage))).toEqual([
+            { label: 'Suite', value: 'LEDGER' }, { label: 'Source', value: 'GL' }, { label: 'Columns', value: '1' }
+        ]);
+    });
+});
+
+describe('DatasourceQueryHandler', () => {
+    it('names the data source and its parameters', () => {
+        const storage = {
+            DataSource: { '@_Description': 'HR Feed', '@_Id': 'DS9' },
+            DataSourceParameters: { DataSourceParameterItem: { DataSourceParameterName: 'Year', DataSourceParameterValue: '2025' } },
+            Columns: { ColumnItem: { ColumnName: 'EMP' } }
+        };
+        expect(render(ctx('RunDatasourceQuery', storage)).Details).toEqual(['Source: HR Feed', 'Param: Year = 2025']);
+        expect(render(ctx('RunDatasourceQuery', storage)).TableData).toBeNull();
+        expect(render(ctx('RunSimpleQuery', storage)).Headers).toEqual(["Column Name", "Source Field", "Type", "Action"]);
+        expect(StepHandlers.resolve('RunDatasourceQuery').technical(ctx('RunDatasourceQuery', storage))[0]).toEqual({ label: 'Data Source Id', value: 'DS9' });
+    });
+});
+
+describe('ColumnHandler', () => {
+    it('flattens IIF formulas into logic rules', () => {
+        const storage = { InputTableName: 'T', Columns: { ColumnItemDef: { ColumnName: 'BAND', Expression: 'IIF([A] > 1, "Hi", "Lo")' } } };
+        const info = render(ctx('AddColumn', storage));
+        expect(info.Headers).toEqual(["Field", "Formula", "Type"]);
+        expect(info.TableData[0].Rules).toEqual([
+            { outcome: '"Hi"', condition: '[A] > 1' },
+            { outcome: '"Lo"', condition: 'Default - When nothing fits the above cases' }
+        ]);
+        expect(StepHandlers.resolve('UpdateColumn').describe(ctx('UpdateColumn', storage))).toBe('My Step: update values in T');
+        expect(StepHandlers.resolve('AddColumn').schema(ctx('AddColumn', storage))?.source).toBe('Calc');
+    });
+});
+
+describe('VariableHandler', () => {
+    const storage = { VariableName: 'RUN_DATE', VariableValue: 'Today()' };
+
+    it('labels the assignment and says where the variable is used', () => {
+        const handler = StepHandlers.resolve('SetVariable');
+        const c = ctx('SetVariable', storage, { variableUsage: new Map([['RUN_DATE', ['Load', 'Email']]]) });
+        expect(handler.flowLabel(c, '')).toBe('RUN_DATE = <code>Today()</code>');
+        expect(handler.summary(c)).toBe('Used in: Load, Email');
+        expect(handler.output(c)).toEqual({ type: 'VAR', name: 'RUN_DATE' });
+        expect(render(c).TableData).toEqual([{ Col1: 'RUN_DATE', Col2: 'Today()', Col3: 'Variable', Rules: null }]);
+    });
+
+    it('does not treat TableName as an input', () => {
+        expect(StepHandlers.resolve('SetVariable').inputs(ctx('SetVariable', { ...storage, TableName: 'T' }))).toEqual([]);
+    });
+});
+
+describe('ImportWarehouseHandler', () => {
+    const storage = {
+        WarehouseName: 'FINANCE', TableName: 'GL_FACT', ImportOption: { '#text': 'IU' },
+        ColumnMapping: { TableColumnMapping: { ColumnName: 'AMT', MappedValue: '[AMOUNT]' } }
+    };
+
+    it('maps target columns to the step that created their source', () => {
+        const c = ctx('ImportWarehouseData', storage, { columnMetadata: new Map([['AMOUNT', { Type: 'Decimal', Source: '', Origin: 'Read ledger' }]]) });
+        const info = render(c);
+        expect(info.TableData).toEqual([{ Col1: 'AMT', Col2: '[AMOUNT]', Col3: 'Decimal', Col4: 'Read ledger' }]);
+        expect(info.Details).toContain('Mode: Insert or Update');
+        expect(StepHandlers.resolve('ImportWarehouseData').docxRows(c, info)[0]).toEqual({ label: 'Target', value: 'FINANCE.GL_FACT' });
+        expect(StepHandlers.resolve('ImportWarehouseData').output(c)).toEqual({ type: 'WAREHOUSE', name: 'GL_FACT' });
+    });
+});
+
+describe('DeleteWarehouseHandler', () => {
+    it('describes the removal and its criteria', () => {
+        const storage = { TableName: 'GL_FACT', Criteria: criteria('PERIOD', '3') };
+        expect(StepHandlers.resolve('DeleteWarehouseData').describe(ctx('DeleteWarehouseData', storage))).toBe('My Step: remove from GL_FACT');
+        expect(StepHandlers.resolve('DeleteWarehouseData').flowLabel(ctx('DeleteWarehouseData', storage), '')).toBe('Delete Warehouse Data: GL_FACT');
+        expect(render(ctx('DeleteWarehouseData', storage)).Details).toEqual(['Filter: PERIOD = 3']);
+    });
+});
+
+describe('JoinTableHandler', () => {
+    it('lists join conditions', () => {
+        const storage = { JoinTable1: 'A', JoinTable2: 'B', OutputTableName: 'AB', Joins: { JoinItemDef: { JoinTable1: 'A', JoinColumn1: 'ID', JoinType: 'Left', JoinTable2: 'B', JoinColumn2: 'ID' } } };
+        expect(render(ctx('JoinTable', storage)).TableData).toEqual([{ Col1: 'A.ID', Col2: 'Left B.ID' }]);
+        expect(StepHandlers.resolve('JoinTable').describe(ctx('JoinTable', storage, { mode: 'business' }))).toBe('My Step (with B)');
+    });
+});
+
+describe('CreateTableHandler', () => {
+    it('lists the defined columns and treats TableName as its output', () => {
+        const c = ctx('CreateTable', { TableName: 'TMP' });
+        c.step.OutputTableDefinition = { TableName: 'TMP', Columns: { ColumnItem: [{ ColumnName: 'ID', ColumnType: { '#text': 'N' } }] } };
+        const handler = StepHandlers.resolve('CreateTable');
+        expect(render(c).TableData).toEqual([{ Col1: 'ID', Col2: 'N' }]);
+        expect(handler.inputs(c)).toEqual([]);
+        expect(handler.outputs(c)).toEqual(['TMP']);
+        expect(handler.flowLabel(c, '')).toBe('Create Table: TMP');
+        expect(handler.businessHidden).toBe(true);
+    });
+});
+
+describe('AppendTableHandler', () => {
+    it('labels the table it appends to', () => {
+        const c = ctx('AppendTable', { InputTableName: 'NEW', AppendToTableName: 'ALL' });
+        expect(StepHandlers.resolve('AppendTable').flowLabel(c, '')).toBe('Append to: ALL');
+        expect(StepHandlers.resolve('AppendTable').output(c)).toEqual({ type: 'TABLE', name: 'ALL' });
+    });
+});
+
+describe('PurgeTableHandler', () => {
+    it('labels purges and table deletes, and hides them from the business view', () => {
+        expect(StepHandlers.resolve('PurgeTable').flowLabel(ctx('PurgeTable', { TableToPurge: 'TMP' }), '')).toBe('Purge: TMP');
+        expect(StepHandlers.resolve('DeleteTable').flowLabel(ctx('DeleteTable', { TableName: 'TMP' }), '')).toBe('Delete Table: TMP');
+        expect(StepHandlers.resolve('DeleteTable').businessHidden).toBe(true);
+    });
+});
+
+describe('ColumnEditHandler', () => {
+    it('shows renames and deleted columns', () => {
+        expect(render(ctx('RenameColumn', { TableName: 'T', OldColumnName: 'A', NewColumnName: 'B' })).Details).toEqual(['Table: T', 'Rename: A → B']);
+        expect(render(ctx('DeleteColumn', { TableName: 'T', Columns: { ColumnItem: [{ ColumnName: 'X' }, { ColumnName: 'Y' }] } })).Details).toEqual(['Table: T', 'Delete: X, Y']);
+    });
+});
+
+describe('FilterTableHandler', () => {
+    it('shows the input table and filters', () => {
+        expect(render(ctx('FilterTable', { InputTableName: 'T', Criteria: criteria('A', '1') })).Details).toEqual(['Input: T', 'Filter: A = 1']);
+    });
+});
+
+describe('SortTableHandler', () => {
+    it('shows the sort order with directions', () => {
+        const storage = { InputTableName: 'T', SortColumns: { SortColumnItem: [{ ColumnName: 'A' }, { ColumnName: 'B', SortDirection: 'Descending' }] } };
+        expect(render(ctx('SortTable', storage)).Details).toEqual(['Input: T', 'Sort: A ASC, B DESC']);
+    });
+});
+
+describe('ExportToExcelHandler', () => {
+    it('shows the file, sheet and append mode once each', () => {
+        const storage = { ExportMemoryTableName: 'OUT', FileName: 'C:\\Reports\\out.xlsx', SheetName: 'Data', UpdateExistingSheet: 'true' };
+        expect(render(ctx('ExportToExcel', storage)).Details).toEqual(['File: C:\\Reports\\out.xlsx ', 'Sheet: Data', 'Mode: Append to Sheet']);
+        expect(StepHandlers.resolve('ExportToExcel').flowLabel(ctx('ExportToExcel', storage), '')).toBe('Export to Excel: out.xlsx');
+    });
+});
+
+describe('SendEmailHandler', () => {
+    it('shows the subject once, recipients and attachments', () => {
+        const storage = {
+            SendTo: 'a@x.com; b@x.com', SubjectLine: 'Done', Priority: 'High',
+            SendEmailAttachmentConfigItems: { SendEmailAttachmentConfigItem: { FileMask: '*.csv' } }
+        };
+        expect(render(ctx('SendEmail', storage)).Details).toEqual(['Subject: Done', 'To: a@x.com; b@x.com', 'Priority: High', 'Attachment: *.csv']);
+        expect(StepHandlers.resolve('SendEmail').flowLabel(ctx('SendEmail', storage), '')).toBe('Email: "Done" (+1 att)');
+        expect(StepHandlers.resolve('SendEmail').technical(ctx('SendEmail', storage))).toEqual([
+            { label: 'Recipients', value: '2' }, { label: 'Attachments', value: '1' }
+        ]);
+    });
+});
+
+describe('TextFileHandler', () => {
+    it('loads into [DATA] when no output is named', () => {
+        const storage = { FileName: 'in.csv', FileLocation: 'IMPORTS', FileEncoding: 'UTF8' };
+        const handler = StepHandlers.resolve('LoadTextFile');
+        expect(handler.outputs(ctx('LoadTextFile', storage))).toEqual(['DATA']);
+        expect(handler.outputs(ctx('SaveText', storage))).toEqual([]);
+        expect(handler.describe(ctx('LoadTextFile', storage))).toBe('My Step: load in.csv (IMPORTS) into dataset');
+        expect(render(ctx('LoadTextFile', storage)).Details).toEqual(['File: in.csv', 'Encoding: UTF8']);
+        expect(render(ctx('SaveText', storage)).Details).toEqual(['File: in.csv']);
+    });
+});
+
+describe('LoopHandler', () => {
+    it('infers the loop purpose from its children', () => {
+        const c = ctx('Loop', { InputVariable: 'ENTITY', MaxIterations: '5' });
+        c.step.children = [{ StepType: 'ImportWarehouseData' }];
+        const handler = StepHandlers.resolve('Loop');
+        expect(handler.container).toBe(true);
+        expect(handler.summary(c)).toBe('Saving results for each item');
+        expect(handler.output(c)).toEqual({ type: 'ITERATOR', name: 'ENTITY' });
+        expect(render(c).Details).toEqual(['Iterator: ENTITY', 'Max Iterations: 5']);
+    });
+});
+
+describe('GroupHandler', () => {
+    it('is a container that counts its steps', () => {
+        const c = ctx('Group');
+        c.step.children = [{}, {}];
+        expect(StepHandlers.resolve('Group').container).toBe(true);
+        expect(StepHandlers.resolve('Group').technical(c)).toEqual([{ label: 'Steps', value: '2' }]);
+    });
+});
+
+describe('DecisionHandler', () => {
+    it('is always active and describes its input', () => {
+        const c = ctx('Decision', { InputTableName: 'CHECKS' });
+        expect(StepHandlers.resolve('Decision').alwaysActive).toBe(true);
+        expect(StepHandlers.resolve('Decision').describe(c)).toBe('Decision on CHECKS');
+        expect(render(c).Details).toEqual(['Input: CHECKS']);
+    });
+});
+
+describe('BranchHandler', () => {
+    it('shows its condition and repeats only long ones in Details', () => {
+        const short = ctx('Branch', { Expression: 'Count > 0' });
+        const long = ctx('Branch', { Expression: 'x'.repeat(60) });
+        expect(StepHandlers.resolve('Branch').describe(short)).toBe('If Count > 0');
+        expect(render(short).Details).toEqual([]);
+        expect(render(long).Details).toEqual([`Full Condition: ${'x'.repeat(60)}`]);
+        expect(StepHandlers.resolve('Branch').docxRows(short, {})).toEqual([{ label: 'Condition', value: 'Count > 0' }]);
+    });
+});
+
+describe('ScriptHandler', () => {
+    it('previews the script', () => {
+        expect(render(ctx('Script', { Language: 'VB', ScriptText: 'Dim x' })).Details).toEqual(['Language: VB', 'Script: Dim x']);
+    });
+
+    it('reads SQL scripts like ExecuteSQL steps and leaves other languages alone', () => {
+        const sql = ctx('Script', { ScriptText: 'INSERT INTO Audit SELECT * FROM Log' });
+        expect(StepHandlers.resolve('Script').describe(sql)).toBe('INSERT INTO Audit');
+        expect(StepHandlers.resolve('Script').outputs(sql)).toEqual(['Audit']);
+        expect(render(sql).Sql.statements[0].kind).toBe('INSERT');
+
+        const vb = ctx('Script', { Language: 'VB', ScriptText: 'Dim x' });
+        expect(StepHandlers.resolve('Script').describe(vb)).toBe('Script');
+        expect(render(vb).Sql).toBeNull();
+    });
+});
+
+describe('SqlHandler', () => {
+    it('previews the statement and connection', () => {
+        expect(render(ctx('ExecuteSQL', { Connection: 'DW', SqlStatement: 'DELETE FROM T' })).Details).toEqual(['Connection: DW', 'SQL: DELETE FROM T']);
+    });
+
+    it('lists the tables the statement reads and writes as the step inputs and outputs', () => {
+        const c = ctx('ExecuteSQL', { SqlStatement: 'INSERT INTO dbo.Summary (Code) SELECT Code FROM [dbo].[Detail] WHERE Year = {&YEAR}' });
+        const handler = StepHandlers.resolve('ExecuteSQL');
+        expect(handler.inputs(c)).toEqual(['dbo.Detail']);
+        expect(handler.outputs(c)).toEqual(['dbo.Summary']);
+        expect(handler.describe(c)).toBe('INSERT INTO dbo.Summary');
+        expect(handler.technical(c)).toContainEqual({ label: 'Tables Read', value: 'dbo.Detail' });
+        expect(render(c).Sql.warnings).toEqual([]);
+    });
+
+    it('analyses a statement once however many hooks ask for it', () => {
+        const c = ctx('ExecuteSQL', { SqlStatement: 'DELETE FROM dbo.Once WHERE Id = 1' });
+        const handler = StepHandlers.resolve('ExecuteSQL');
+        const tokenize = vi.spyOn(SqlTokenizer, 'tokenize');
+        try {
+            handler.describe(c);
+            handler.inputs(c);
+            handler.outputs(c);
+            render(c);
+            handler.technical(c);
+            // Once to analyse and once to format
+            expect(tokenize).toHaveBeenCalledTimes(2);
+        } finally {
+            tokenize.mockRestore();
+        }
+    });
+});
+
+describe('RunProcessHandler', () => {
+    it('names the process and its parameters', () => {
+        const storage = { ProcessName: 'Child', Parameters: { ParameterItem: { Name: 'YEAR', Value: '2025' } } };
+        expect(render(ctx('RunProcess', storage)).Details).toEqual(['Process: Child', 'Param: YEAR = 2025']);
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { TableState } from '../src/lib/analysis/TableState';
+import { step, processOf } from './fixtures/etl';
+
+const analyse = (steps: any[]) => TableState.analyse(processOf(steps));
+
+const columnsOf = (states: ReturnType<typeof analyse>, stepKey: string, table: string) =>
+    TableState.forStep(states, stepKey)?.tables.find(t => t.name === table)?.columns.map(c => c.name);
+
+describe('TableState', () => {
+    it('tracks columns, types and origin through create, query, add, rename and delete', () => {
+        const states = analyse([
+            step(1, 'CreateTable', 'Create', {}, {
+                OutputTableName: 'HOLD',
+                OutputTableDefinition: { TableDefinition: { Columns: { TableColumnDefinition: [{ ColumnName: 'LEDGER', ColumnType: 'STR' }] } } }
+            }),
+            step(2, 'RunDirectQuery', 'Read', {
+                TableName: 'GLBalances',
+                Columns: { ColumnItem: [{ ColumnName: 'ACCOUNT', ColumnSource: 'ACCOUNT', ColumnDataType: 'STR' }, { ColumnName: 'AMT', ColumnSource: 'AMOUNT', ColumnDataType: 'DEC' }] }
+            }, { OutputTableName: 'GL' }),
+            step(3, 'AddColumn', 'Add', { InputTableName: 'GL', Columns: { ColumnItemDef: { ColumnName: 'DOUBLE', Expression: '[AMT] * 2', ColumnDataType: 'DEC' } } }),
+            step(4, 'RenameColumn', 'Rename', { InputTableName: 'GL', OldColumnName: 'AMT', NewColumnName: 'AMOUNT' }),
+            step(5, 'DeleteColumn', 'Drop', { InputTableName: 'GL', ColumnsToDelete: { ColumnItem: { ColumnName: 'DOUBLE' } } })
+        ]);
+
+        expect(columnsOf(states, 'CreateTable_Create', 'HOLD')).toEqual(['LEDGER']);
+        expect(columnsOf(states, 'AddColumn_Add', 'GL')).toEqual(['ACCOUNT', 'AMT', 'DOUBLE']);
+        expect(columnsOf(states, 'DeleteColumn_Drop', 'GL')).toEqual(['ACCOUNT', 'AMOUNT']);
+
+        const renamed = TableState.forStep(states, 'RenameColumn_Rename')!.tables[0].columns.find(c => c.name === 'AMOUNT')!;
+        expect([renamed.dataType, renamed.originName]).toEqual(['DEC', 'Read']);
+        expect(states.flatMap(s => s.issues)).toEqual([]);
+    });
+
+    it('flags columns a step refers to that its table cannot hold', () => {
+        const states = analyse([
+            step(1, 'RunDirectQuery', 'Read', { TableName: 'GLBalances', Columns: { ColumnItem: { ColumnName: 'AMT', ColumnSource: 'AMOUNT' } } }, { OutputTableName: 'GL' }),
+            step(2, 'DeleteColumn', 'Drop', { InputTableName: 'GL', ColumnsToDelete: { ColumnItem: { ColumnName: 'AMT' } } }),
+            step(3, 'AddColumn', 'Calc', { InputTableName: 'GL', Columns: { ColumnItemDef: { ColumnName: 'X', Expression: '[AMT] + [NOPE]' } } }),
+            step(4, 'SortTable', 'Sort', { InputTableName: 'GL', SortColumns: { SortColumnItem: { ColumnName: 'X' } } }),
+            step(5, 'AddColumn', 'Unknown table', { InputTableName: 'FROM_SCRIPT', Columns: { ColumnItemDef: { ColumnName: 'Y', Expression: '[ANY]' } } })
+        ]);
+
+        expect(TableState.forStep(states, 'AddColumn_Calc')!.issues.map(i => i.message)).toEqual([
+            '"AMT" is not a column of GL at this point',
+            '"NOPE" is not a column of GL at this point'
+        ]);
+        expect(TableState.forStep(states, 'SortTable_Sort')!.issues).toEqual([]);
+        expect(TableState.forStep(states, 'AddColumn_Unknown_table')!.issues).toEqual([]);
+    });
+
+    it('builds join outputs from their inputs and aliases, and checks join columns', () => {
+        const states = analyse([
+            step(1, 'RunDirectQuery', 'GL', { TableName: 'GLBalances', Columns: { ColumnItem: [{ ColumnName: 'ACCOUNT' }, { ColumnName: 'AMT' }] } }, { OutputTableName: 'GL' }),
+            step(2, 'RunDirectQuery', 'Accounts', { TableName: 'Accounts', Columns: { ColumnItem: [{ ColumnName: 'CODE' }, { ColumnName: 'DESCR' }] } }, { OutputTableName: 'ACC' }),
+            step(3, 'JoinTable', 'Join', {
+                InputTables: { InputTableDef: [{ InputTableName: 'GL' }, { InputTableName: 'ACC' }] },
+                Joins: { JoinItemDef: { JoinTable1: 'GL', JoinColumn1: 'ACCOUNT', JoinType: 'Inner', JoinTable2: 'ACC', JoinColumn2: 'ACCOUNT' } },
+                ColumnAliases: { ColumnAliasDef: { AliasTableName: 'ACC', AliasColumnName: 'DESCR', AliasName: 'ACCOUNT_NAME' } }
+            }, { OutputTableName: 'JOINED' })
+        ]);
+
+        const join = TableState.forStep(states, 'JoinTable_Join')!;
+        expect(join.tables.find(t => t.name === 'JOINED')!.columns.map(c => [c.name, c.originName])).toEqual([
+            ['ACCOUNT', 'GL'], ['AMT', 'GL'], ['CODE', 'Accounts'], ['ACCOUNT_NAME', 'Accounts']
+        ]);
+        expect(join.issues.map(i => `${i.table}.${i.column}`)).toEqual(['ACC.ACCOUNT']);
+    });
+
+    it('checks the memory tables a SQL step names and forgets those it recreates', () => {
+        const states = analyse([
+            step(1, 'RunDirectQuery', 'GL', { TableName: 'GLBalances', Columns: { ColumnItem: [{ ColumnName: 'ACCOUNT' }, { ColumnName: 'AMT' }] } }, { OutputTableName: 'GL' }),
+            step(2, 'ExecuteSQL', 'Fix', { SQL: 'UPDATE Fact SET Total = g.AMT + g.TAX FROM Fact JOIN GL g ON g.ACCOUNT = Fact.Code' }),
+            step(3, 'ExecuteSQL', 'Rebuild', { SQL: 'SELECT Code INTO GL FROM Accounts' }),
+            step(4, 'SortTable', 'Sort', { InputTableName: 'GL', SortColumns: { SortColumnItem: { ColumnName: 'ANY' } } })
+        ]);
+
+        expect(TableState.forStep(states, 'ExecuteSQL_Fix')!.issues.map(i => `${i.table}.${i.column}`)).toEqual(['GL.TAX']);
+        expect(TableState.forStep(states, 'ExecuteSQL_Fix')!.tables.map(t => t.name)).toEqual(['GL']);
+        expect(TableState.forStep(states, 'SortTable_Sort')!.issues).toEqual([]);
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { VariableFlow } from '../src/lib/analysis/VariableFlow';
+import { step, processOf } from './fixtures/etl';
+
+const analyse = (steps: any[], variables: any[] = []) => VariableFlow.analyse(processOf(steps, variables));
+
+const kinds = (flow: ReturnType<typeof VariableFlow.analyse>, name: string) =>
+    flow.find(e => e.name === name)?.issues.map(i => i.kind);
+
+describe('VariableFlow', () => {
+    it('lists each definition and use in execution order', () => {
+        const flow = analyse([
+            step(3, 'SendEmail', 'Notify', { SubjectLine: 'Closed {&PERIOD.DESCR}' }),
+            step(1, 'SetVariable', 'Set period', { VariableName: 'PERIOD', VariableValue: '1' }),
+            step(2, 'SetVariable', 'Next period', { VariableName: 'PERIOD', VariableValue: 'PERIOD + 1' })
+        ]);
+        const period = flow.find(e => e.name === 'PERIOD')!;
+        expect(period.definitions.map(d => [d.order, d.stepName, d.value])).toEqual([[1, 'Set period', '1'], [2, 'Next period', 'PERIOD + 1']]);
+        expect(period.uses.map(u => u.stepName)).toEqual(['Next period', 'Notify']);
+        expect(period.issues).toEqual([]);
+    });
+
+    it('flags variables read before any step sets them', () => {
+        const flow = analyse([
+            step(1, 'AddColumn', 'Calc', { Columns: { ColumnItemDef: { ColumnName: 'X', Expression: '[AMOUNT] * RATE' } } }),
+            step(2, 'SetVariable', 'Set rate', { VariableName: 'RATE', VariableValue: '1.1' }),
+            step(3, 'SaveText', 'Save', { FileName: '{&OUT_DIR}\\x.txt' })
+        ]);
+        expect(kinds(flow, 'RATE')).toEqual(['used-before-set']);
+        expect(flow.find(e => e.name === 'RATE')!.issues[0].stepKey).toBe('AddColumn_Calc');
+        expect(flow.find(e => e.name === 'OUT_DIR')!.issues[0].message).toContain('never set');
+    });
+
+    it('does not match one variable inside the name of another', () => {
+        const flow = analyse([
+            step(1, 'SetVariable', 'Set period', { VariableName: 'PERIOD', VariableValue: '1' }),
+            step(2, 'SetVariable', 'Set end', { VariableName: 'PERIOD_END', VariableValue: '12' }),
+            step(3, 'RunSQL', 'Run', { SqlStatement: 'SELECT * FROM GL WHERE P <= {&PERIOD_END}' })
+        ]);
+        expect(kinds(flow, 'PERIOD')).toEqual(['never-read']);
+        expect(kinds(flow, 'PERIOD_END')).toEqual([]);
+    });
+
+    it('flags a loop variable that overwrites an earlier value', () => {
+        const flow = analyse([
+            step(1, 'SetVariable', 'Start', { VariableName: 'ENTITY', VariableValue: "'A'" }),
+            step(2, 'Loop', 'Each entity', { InputVariable: 'ENTITY', LoopCondition: "ENTITY <> ''" }),
+            step(3, 'SetVariable', 'Remember', { VariableName: 'LAST', VariableValue: '{&ENTITY}' }, { ParentStepId: 2 })
+        ]);
+        const entity = flow.find(e => e.name === 'ENTITY')!;
+        expect(entity.definitions.map(d => d.kind)).toEqual(['set', 'loop']);
+        expect(entity.issues.map(i => i.kind)).toEqual(['loop-shadowed']);
+        expect(entity.issues[0].message).toBe('Loop "Each entity" overwrites the value from "Start" on every iteration');
+    });
+
+    it('flags parameters no step sets, and leaves disabled steps out', () => {
+        const flow = analyse([
+            step(1, 'Group', 'Old', {}, { IsActive: false }),
+            step(2, 'SetVariable', 'Old set', { VariableName: 'LEDGER', VariableValue: "'GL'" }, { ParentStepId: 1 }),
+            step(3, 'Decision', 'Check'),
+            step(4, 'Branch', 'Has ledger', { Expression: "LEDGER <> ''" }, { ParentStepId: 3 }),
+            step(5, 'SetVariable', 'Flag', { VariableName: 'DONE', VariableValue: '{&LEDGER}' }, { ParentStepId: 4 })
+        ], [{ Name: 'LEDGER', VariableType: 'A' }]);
+
+        const ledger = flow.find(e => e.name === 'LEDGER')!;
+        expect(ledger.definitions.map(d => d.kind)).toEqual(['parameter']);
+        expect(ledger.issues.map(i => i.kind)).toEqual(['parameter-only']);
+        expect(ledger.uses.map(u => [u.stepName, u.conditional])).toEqual([['Has ledger', true], ['Flag', true]]);
+        expect(kinds(flow, 'DONE')).toEqual(['never-read']);
+    });
+});
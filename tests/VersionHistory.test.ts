@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { VersionHistory, type VersionedRecord } from '../src/lib/VersionHistory';
+
+const etl = (id: number, metadata: Partial<VersionedRecord['metadata']>, filename = 'Load GL.t1etlp'): VersionedRecord => ({
+    id,
+    filename,
+    metadata: { id: 'PROC-1', ...metadata },
+    dateAdded: new Date(2026, 0, id)
+});
+
+const stepsXml = (...names: string[]) => ({
+    ArrayOfStep: {
+        Step: names.map((name, i) => ({ Name: name, StepType: 'Decision', StepId: `S${i}`, ParentStepId: '0', Sequence: String(i) }))
+    }
+});
+
+describe('VersionHistory', () => {
+    it('should stack artifacts by id and order them by version, newest first', () => {
+        const stacks = VersionHistory.stack('report', [
+            etl(1, { version: '1.9' }),
+            etl(2, { version: '1.10' }),
+            etl(3, { id: 'PROC-2', version: '1.0' }),
+            etl(4, { version: '1.2' })
+        ]);
+
+        expect(stacks).toHaveLength(2);
+        expect(stacks[0]!.latest.id).toBe(2);
+        expect(stacks[0]!.versions.map(v => v.id)).toEqual([2, 1, 4]);
+        expect(stacks[1]!.versions.map(v => v.id)).toEqual([3]);
+    });
+
+    it('should fall back to the published date, then the export timestamp, then import order', () => {
+        const byNarration = VersionHistory.stack('report', [
+            etl(1, { version: '1.0', narration: 'Published by MGUPTA on 28-Nov-2025 17:55:48' }),
+            etl(2, { version: '1.0', narration: 'Published by MGUPTA on 03-Feb-2025 09:00:00' })
+        ]);
+        expect(byNarration[0]!.latest.id).toBe(1);
+
+        const byExport = VersionHistory.stack('datamodel', [
+            etl(1, {}, 'Model_20260116102707313.t1dm'),
+            etl(2, {}, 'Model_20251201080000000.t1dm')
+        ]);
+        expect(byExport[0]!.latest.id).toBe(1);
+
+        const byImport = VersionHistory.stack('dashboard', [etl(1, {}), etl(2, {})]);
+        expect(byImport[0]!.latest.id).toBe(2);
+    });
+
+    it('should never stack artifacts that have no id', () => {
+        const stacks = VersionHistory.stack('datamodel', [etl(1, { id: 'N/A' }), etl(2, { id: 'N/A' }), etl(3, { id: '' })]);
+        expect(stacks.map(s => s.versions.length)).toEqual([1, 1, 1]);
+    });
+
+    it('should carry notes forward only for steps that still exist, later versions winning', () => {
+        const older = { ...etl(1, { version: '1.0' }), stepNotes: { Decision_Check: 'old', Decision_Removed: 'gone' } };
+        const newer = { ...etl(2, { version: '1.1' }), stepNotes: { Decision_Check: 'revised' } };
+        const next = { metadata: { id: 'PROC-1', version: '1.2' }, rawSteps: stepsXml('Check', 'Added') };
+
+        const notes = VersionHistory.carryForwardNotes('report', [newer, older], next);
+
+        expect(notes).toEqual({ Decision_Check: 'revised' });
+        // Carrying forward must not disturb the steps stored on the new record
+        expect(next.rawSteps.ArrayOfStep.Step[0]).not.toHaveProperty('children');
+    });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { XlOneParser } from '../src/lib/parsers/XlOneParser';
+
+const escapeXml = (xml: string) => xml
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const buildPackage = async (definitionXml: string) => {
+    const reportXml = `<?xml version="1.0" encoding="utf-8"?>
+<MyXLOneHeader>
+  <ReportId>0725a29d-1be8-4651-893a-9ef859fa3661</ReportId>
+  <Title>Transactions</Title>
+  <Description />
+  <Type>B</Type>
+  <SheetName>Definition</SheetName>
+  <UserId>BWILKINS</UserId>
+  <Definition>${escapeXml(definitionXml)}</Definition>
+  <Datasource>7f09c258-8b0e-40a8-851d-9d49c0ba6215</Datasource>
+  <ReportingSystem>$DEFAULT</ReportingSystem>
+  <ParentFileItemPath>/Home/BWILKINS</ParentFileItemPath>
+</MyXLOneHeader>`;
+
+    const zip = new JSZip();
+    zip.file('Report.xml', reportXml);
+    const blob = await zip.generateAsync({ type: 'blob' });
+    return new File([blob], 'Transactions_0725a29d-1be8-4651-893a-9ef859fa3661_20251116035704153.t1xl');
+};
+
+describe('XlOneParser', () => {
+    it('should decode the entity-encoded DbReportDef inside the header', async () => {
+        const file = await buildPackage(`<?xml version="1.0" encoding="utf-8"?>
+<DbReportDef>
+  <DefKey>926aa129-cf5f-401e-8350-9eedf8fe4e1e</DefKey>
+  <Title IsAssigned="false" />
+  <ReportSuite>CES</ReportSuite>
+  <LayoutType>Simple</LayoutType>
+  <Datasource IsAssigned="false" />
+  <AllowRuntimeCriteria>true</AllowRuntimeCriteria>
+  <Columns />
+  <GroupByField1 IsAssigned="false" />
+</DbReportDef>`);
+
+        const content = await XlOneParser.parse(file);
+        const header = XlOneParser.getHeader(content);
+
+        expect(header.Title).toBe('Transactions');
+        expect(typeof header.Definition).toBe('object');
+        expect(header.Definition.DbReportDef.ReportSuite).toBe('CES');
+
+        const def = XlOneParser.getDefinition(content);
+        expect(def.reportSuite).toBe('CES');
+        expect(def.layoutType).toBe('Simple');
+        expect(def.allowRuntimeCriteria).toBe(true);
+        // Unassigned in the definition, so falls back to the header datasource
+        expect(def.datasource).toBe('7f09c258-8b0e-40a8-851d-9d49c0ba6215');
+        expect(def.columns).toEqual([]);
+        expect(def.groupByFields).toEqual([]);
+        // IsAssigned="false" placeholders are not reported as properties
+        expect(def.assignedProperties.map(p => p.name)).not.toContain('Title');
+    });
+
+    it('should extract criteria, columns, grouping and sort fields when assigned', async () => {
+        const file = await buildPackage(`<DbReportDef>
+  <ReportSuite>FIN</ReportSuite>
+  <LayoutType>Grouped</LayoutType>
+  <Criteria>
+    <CriteriaSetItem>
+      <CriteriaValues>
+        <CriteriaValue><ColumnId>Ledger</ColumnId><Operator>EQ</Operator><Value1>GL</Value1></CriteriaValue>
+        <CriteriaValue><ColumnId>Period</ColumnId><Operator>Between</Operator><Value1>1</Value1><Value2>12</Value2></CriteriaValue>
+      </CriteriaValues>
+    </CriteriaSetItem>
+  </Criteria>
+  <Columns>
+    <Column><ColumnName>AccountNbr</ColumnName><Heading>Account</Heading></Column>
+    <Column><ColumnName>Amount</ColumnName><Heading>Amount</Heading><Format>N2</Format></Column>
+  </Columns>
+  <GroupByField1>CostCentre</GroupByField1>
+  <GroupByField2 IsAssigned="false" />
+  <DefaultSortField1>AccountNbr</DefaultSortField1>
+  <DefaultSortOrder1>Ascending</DefaultSortOrder1>
+</DbReportDef>`);
+
+        const def = XlOneParser.getDefinition(await XlOneParser.parse(file));
+
+        expect(def.criteria).toEqual(['Ledger EQ GL', 'Period Between 1 AND 12']);
+        expect(def.columns).toEqual([
+            { name: 'AccountNbr', heading: 'Account', format: '' },
+            { name: 'Amount', heading: 'Amount', format: 'N2' }
+        ]);
+        expect(def.groupByFields).toEqual(['CostCentre']);
+        expect(def.sortFields).toEqual(['AccountNbr (Ascending)']);
+    });
+
+    it('should return an empty result when Report.xml is missing', async () => {
+        const zip = new JSZip();
+        zip.file('Other.xml', '<Root />');
+        const file = new File([await zip.generateAsync({ type: 'blob' })], 'empty.t1xl');
+
+        const content = await XlOneParser.parse(file);
+        expect(content.Report).toBeUndefined();
+    });
+
+    describe('embedded workbook', () => {
+        const buildWorkbook = async () => {
+            const xlsx = new JSZip();
+            xlsx.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets><sheet name="Design" sheetId="404" r:id="rId1"/></sheets>
+  <definedNames>
+    <definedName name="_xlnm.Print_Area" localSheetId="0">Design!$H$37:$S$96</definedName>
+    <definedName name="xlvar.REPORT" localSheetId="0">"2324-11"</definedName>
+  </definedNames>
+</workbook>`);
+            xlsx.file('xl/_rels/workbook.xml.rels', `<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>`);
+            xlsx.file('xl/sharedStrings.xml', `<sst>
+  <si><t>Period Balances (Financial System Administration) (7e5d697e-f5c0-4e46-9a75-fbf2d917a7bf)</t></si>
+  <si><r><t>Cost Centre </t></r><r><t>{&amp;ColumnDefn1.Cost_Centre} for {&amp;REPORT.DESCR}</t></r></si>
+  <si><t>{F1Lad1_SelectionCode8} = 'SA82'</t></si>
+  <si><t>00</t></si>
+</sst>`);
+            xlsx.file('xl/worksheets/sheet1.xml', `<worksheet><sheetData>
+  <row r="21"><c r="B21" t="s"><v>0</v></c></row>
+  <row r="41"><c r="K41" t="s"><v>1</v></c><c r="L41" t="s"><v>2</v></c><c r="M41" t="s"><v>3</v></c></row>
+  <row r="51">
+    <c r="N51"><f t="shared" ref="N51:O51" si="0">SUBTOTAL(9,N47:N50)</f><v>0</v></c>
+    <c r="O51"><f t="shared" si="0"/><v>0</v></c>
+    <c r="P51" t="str"><f>"Total "&amp;_xll.XL1GetValue(xlvar.REPORT,$A$1)</f><v>Total</v></c>
+  </row>
+</sheetData></worksheet>`);
+            return xlsx.generateAsync({ type: 'uint8array' });
+        };
+
+        it('should decode sheets, defined names and shared formulas', async () => {
+            const workbook = await XlOneParser.parseWorkbook('Balance Sheet Detail.xlsx', await buildWorkbook());
+
+            expect(workbook.sheets).toEqual([{ name: 'Design', cellCount: 7, formulaCount: 3 }]);
+            expect(workbook.definedNames).toContainEqual({ name: 'xlvar.REPORT', value: '2324-11', sheet: 'Design' });
+
+            const o51 = workbook.cells.find(c => c.ref === 'O51');
+            expect(o51?.formula).toBe('SUBTOTAL(9,O47:O50)');
+            expect(o51?.sharedFrom).toBe('N51');
+            // Plain labels without formulas or references are not kept
+            expect(workbook.cells.find(c => c.ref === 'M41')).toBeUndefined();
+        });
+
+        it('should list function calls and data model references per cell', async () => {
+            const workbook = await XlOneParser.parseWorkbook('Balance Sheet Detail.xlsx', await buildWorkbook());
+            const byRef = (ref: string) => workbook.cells.find(c => c.ref === ref)!;
+
+            expect(byRef('B21').references).toEqual([
+                { kind: 'datasource', name: 'Period Balances (Financial System Administration) (7e5d697e-f5c0-4e46-9a75-fbf2d917a7bf)' }
+            ]);
+            expect(byRef('K41').value).toBe('Cost Centre {&ColumnDefn1.Cost_Centre} for {&REPORT.DESCR}');
+            expect(byRef('K41').references).toEqual([
+                { kind: 'column', name: 'Cost_Centre' },
+                { kind: 'variable', name: 'REPORT.DESCR' }
+            ]);
+            expect(byRef('L41').references).toEqual([{ kind: 'field', name: 'F1Lad1_SelectionCode8' }]);
+
+            const p51 = byRef('P51');
+            expect(p51.functions).toEqual([{ name: '_xll.XL1GetValue', isT1: true }]);
+            expect(p51.references).toContainEqual({ kind: 'definedName', name: 'xlvar.REPORT' });
+            expect(byRef('N51').functions).toEqual([{ name: 'SUBTOTAL', isT1: false }]);
+
+            const summary = XlOneParser.summariseWorkbook(workbook);
+            expect(Array.from(summary.columns)).toEqual(['Cost_Centre']);
+            expect(Array.from(summary.t1Functions)).toEqual(['_xll.XL1GetValue']);
+        });
+
+        it('should attach the workbook when parsing a .t1xl package', async () => {
+            const zip = new JSZip();
+            zip.file('Report.xml', '<MyXLOneHeader><Title>Balance Sheet Detail</Title></MyXLOneHeader>');
+            zip.file('Balance Sheet Detail.xlsx', await buildWorkbook());
+            const file = new File([await zip.generateAsync({ type: 'blob' })], 'bs.t1xl');
+
+            const content = await XlOneParser.parse(file);
+            expect(content.Workbook.fileName).toBe('Balance Sheet Detail.xlsx');
+            expect(content.Workbook.cells.length).toBeGreaterThan(0);
+        });
+    });
+
+    it('should shift relative references in shared formulas only', () => {
+        expect(XlOneParser.shiftFormula('SUM(A1:$B$2)+C3*"D4"', 'A1', 'B3')).toBe('SUM(B3:$B$2)+D5*"D4"');
+    });
+});
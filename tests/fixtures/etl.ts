@@ -0,0 +1,21 @@
+import { EtlModel, type EtlProcess } from '../../src/lib/model/EtlModel';
+
+/** A raw step as read from Steps.xml; `extra` sets fields such as ParentStepId, OutputTableName or IsActive. */
+export const step = (id: number, type: string, name: string, storage: any = {}, extra: any = {}) => ({
+    StepId: id,
+    ParentStepId: 0,
+    Sequence: id,
+    StepType: type,
+    Name: name,
+    Definition: { StorageObject: storage },
+    ...extra
+});
+
+/** Steps.xml holding the given steps. */
+export const rawStepsOf = (steps: any[]) => ({ ArrayOfStep: { Step: steps } });
+
+/** The process model of the given steps and Variables.xml variables. */
+export const processOf = (steps: any[], variables: any[] = []): EtlProcess => EtlModel.normalise({
+    rawSteps: rawStepsOf(steps),
+    rawVariables: { ArrayOfC2GenericVariable: { C2GenericVariable: variables } }
+});